@@ -0,0 +1,19 @@
+-- Time entry descriptions
+-- Run once in the Supabase SQL editor on databases created from an earlier schema.sql.
+--
+-- Time entries get an optional note saying what the time was spent on. It is
+-- shown in the entry history and exports, and can be added to invoice lines.
+
+BEGIN;
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS description TEXT;
+
+ALTER TABLE public.time_entries
+  DROP CONSTRAINT IF EXISTS check_time_entry_description_length;
+ALTER TABLE public.time_entries
+  ADD CONSTRAINT check_time_entry_description_length CHECK (
+    description IS NULL OR char_length(description) <= 500
+  );
+
+COMMIT;
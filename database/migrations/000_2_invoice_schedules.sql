@@ -0,0 +1,65 @@
+-- Invoice schedules
+-- Run once in the Supabase SQL editor after 000_1_time_entry_descriptions.sql.
+--
+-- A schedule creates a draft invoice for one project on its next_run_on day,
+-- covering the time tracked in the period it was set up for. The daily cron
+-- job picks up active schedules that are due and moves next_run_on forward.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.invoice_schedules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'biweekly', 'custom')),
+  -- Only used by custom schedules
+  interval_days INTEGER,
+  -- previous_period: the period that just ended; since_last_run: from the last run up to the day before this one
+  date_range_rule VARCHAR(20) NOT NULL DEFAULT 'previous_period' CHECK (date_range_rule IN ('previous_period', 'since_last_run')),
+  tax_rate DECIMAL(5,2) DEFAULT 0,
+  due_in_days INTEGER,
+  -- Supports {period_start}, {period_end} and {project_name} placeholders
+  notes_template TEXT,
+  include_time_entry_notes BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_on DATE NOT NULL,
+  last_run_on DATE,
+  last_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  -- Why the last run did not create an invoice (cleared on success)
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_invoice_schedule_interval CHECK (
+    (frequency = 'custom' AND interval_days BETWEEN 1 AND 365) OR
+    (frequency <> 'custom' AND interval_days IS NULL)
+  ),
+  CONSTRAINT check_invoice_schedule_tax_rate CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  CONSTRAINT check_invoice_schedule_due_in_days CHECK (
+    due_in_days IS NULL OR due_in_days BETWEEN 0 AND 365
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_schedules_user_id ON public.invoice_schedules(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_schedules_project_id ON public.invoice_schedules(project_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_schedules_due ON public.invoice_schedules(next_run_on)
+WHERE is_active = TRUE;
+
+ALTER TABLE public.invoice_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own invoice schedules" ON public.invoice_schedules
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own invoice schedules" ON public.invoice_schedules
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own invoice schedules" ON public.invoice_schedules
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own invoice schedules" ON public.invoice_schedules
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+DROP TRIGGER IF EXISTS update_invoice_schedules_updated_at ON public.invoice_schedules;
+CREATE TRIGGER update_invoice_schedules_updated_at BEFORE UPDATE ON public.invoice_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
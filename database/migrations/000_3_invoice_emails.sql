@@ -0,0 +1,14 @@
+-- Invoice emails
+-- Run once in the Supabase SQL editor after 000_2_invoice_schedules.sql.
+--
+-- Invoices can be emailed to the client with the PDF attached. The last send
+-- is recorded: recipient, send time and the email provider's message id.
+
+BEGIN;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS sent_to_email TEXT,
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS sent_message_id TEXT;
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Invoice payments
+-- Run once in the Supabase SQL editor after 000_3_invoice_emails.sql.
+--
+-- Payments record amounts received against an invoice, in full or in part.
+-- The balance due is the invoice total minus its payments; an invoice is
+-- marked paid once the balance reaches zero.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  method VARCHAR(20) NOT NULL DEFAULT 'bank_transfer' CHECK (method IN ('bank_transfer', 'card', 'cash', 'check', 'paypal', 'other')),
+  -- Transaction id, check number, etc.
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_invoice_payment_amount_positive CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_id ON public.invoice_payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_user_id ON public.invoice_payments(user_id);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own invoice payments" ON public.invoice_payments
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own invoice payments" ON public.invoice_payments
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own invoice payments" ON public.invoice_payments
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own invoice payments" ON public.invoice_payments
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+DROP TRIGGER IF EXISTS update_invoice_payments_updated_at ON public.invoice_payments;
+CREATE TRIGGER update_invoice_payments_updated_at BEFORE UPDATE ON public.invoice_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
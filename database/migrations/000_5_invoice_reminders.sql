@@ -0,0 +1,18 @@
+-- Overdue invoice reminders
+-- Run once in the Supabase SQL editor after 000_4_invoice_payments.sql.
+--
+-- Users can turn on reminder emails for overdue invoices and pick the steps
+-- (days past the due date) they go out on. Each invoice records the last step
+-- emailed so the daily cron job sends every step once.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS invoice_reminders_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS invoice_reminder_days INTEGER[] NOT NULL DEFAULT '{3,7,14}';
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS last_reminder_days INTEGER,
+  ADD COLUMN IF NOT EXISTS last_reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+COMMIT;
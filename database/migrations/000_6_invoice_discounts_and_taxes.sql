@@ -0,0 +1,45 @@
+-- Invoice discounts and named taxes
+-- Run once in the Supabase SQL editor after 000_5_invoice_reminders.sql.
+--
+-- Invoices and their lines can carry a percentage or fixed discount. Taxes
+-- become a list of named rates (withholding taxes are subtracted), and prices
+-- can already include them. tax_rate and tax_amount keep the net rate and
+-- amount, so the total is subtotal - discount + tax.
+
+BEGIN;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS discount_type VARCHAR(10) CHECK (discount_type IN ('percentage', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The net tax is negative when withholding exceeds the added taxes
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS check_invoice_amounts_positive;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT check_invoice_amounts_positive CHECK (
+    subtotal >= 0 AND discount_amount >= 0 AND discount_amount <= subtotal AND total_amount >= 0
+  );
+
+ALTER TABLE public.invoices
+  DROP CONSTRAINT IF EXISTS check_invoice_total_calculation;
+ALTER TABLE public.invoices
+  ADD CONSTRAINT check_invoice_total_calculation CHECK (
+    total_amount = subtotal - discount_amount + tax_amount
+  );
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS discount_type VARCHAR(10) CHECK (discount_type IN ('percentage', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoice_items
+  DROP CONSTRAINT IF EXISTS check_invoice_item_discount;
+ALTER TABLE public.invoice_items
+  ADD CONSTRAINT check_invoice_item_discount CHECK (
+    discount_amount >= 0 AND discount_amount <= total_cost
+  );
+
+COMMIT;
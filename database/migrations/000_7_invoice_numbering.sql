@@ -0,0 +1,21 @@
+-- Invoice numbering
+-- Run once in the Supabase SQL editor after 000_6_invoice_discounts_and_taxes.sql.
+--
+-- Users set how invoice numbers look: a prefix (may contain {YYYY}, {YY},
+-- {MM}), the counter's zero padding, the next number and an optional yearly
+-- reset. One sequence runs per issuer across all their workspaces, since
+-- invoices carry the issuer's business details.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS invoice_number_prefix TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS invoice_number_padding INTEGER NOT NULL DEFAULT 1 CHECK (invoice_number_padding BETWEEN 1 AND 10),
+  -- NULL until the first number is generated, which then continues after the
+  -- highest numeric invoice number
+  ADD COLUMN IF NOT EXISTS invoice_number_next INTEGER CHECK (invoice_number_next >= 1),
+  ADD COLUMN IF NOT EXISTS invoice_number_reset_yearly BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Issue year of the last generated number (for the yearly reset)
+  ADD COLUMN IF NOT EXISTS invoice_number_year INTEGER;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Server-authoritative timer durations
+-- Run once in the Supabase SQL editor after 000_7_invoice_numbering.sql.
+--
+-- Timers used to store a duration reported by the browser (pushed every minute while
+-- running). The API now records when each run segment starts (running_since) and adds
+-- the elapsed server time to duration_seconds when the timer pauses or stops.
+
+BEGIN;
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS running_since TIMESTAMP WITH TIME ZONE;
+
+-- A running entry's duration_seconds was last reported at updated_at, so its open
+-- segment continues from there
+UPDATE public.time_entries
+SET running_since = COALESCE(updated_at, start_time, NOW())
+WHERE timer_status = 'running'
+  AND running_since IS NULL;
+
+UPDATE public.time_entries
+SET running_since = NULL
+WHERE timer_status <> 'running'
+  AND running_since IS NOT NULL;
+
+ALTER TABLE public.time_entries
+  ADD CONSTRAINT check_running_since CHECK (
+    (timer_status = 'running') = (running_since IS NOT NULL)
+  );
+
+COMMIT;
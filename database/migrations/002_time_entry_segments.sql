@@ -0,0 +1,52 @@
+-- Time entry segments
+-- Run once in the Supabase SQL editor after 001_server_timer_durations.sql.
+--
+-- Each start/resume to pause/stop of a timer is stored as a segment, so a task paused
+-- over lunch shows (and is reported) as two intervals instead of one 9:00-17:00 block.
+-- Earlier entries have no recorded runs and keep being counted by their end_time.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.time_entry_segments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  time_entry_id UUID REFERENCES public.time_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_segment_end_after_start CHECK (
+    ended_at IS NULL OR ended_at >= started_at
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entry_segments_time_entry_id ON public.time_entry_segments(time_entry_id);
+CREATE INDEX IF NOT EXISTS idx_time_entry_segments_user_started ON public.time_entry_segments(user_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entry_segments_open ON public.time_entry_segments(time_entry_id)
+WHERE ended_at IS NULL;
+
+ALTER TABLE public.time_entry_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own time entry segments" ON public.time_entry_segments
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own time entry segments" ON public.time_entry_segments
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own time entry segments" ON public.time_entry_segments
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own time entry segments" ON public.time_entry_segments
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+-- Timers running right now get their open segment, which the next pause or stop closes
+INSERT INTO public.time_entry_segments (time_entry_id, user_id, started_at)
+SELECT id, user_id, running_since
+FROM public.time_entries
+WHERE timer_status = 'running'
+  AND running_since IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.time_entry_segments s
+    WHERE s.time_entry_id = time_entries.id AND s.ended_at IS NULL
+  );
+
+COMMIT;
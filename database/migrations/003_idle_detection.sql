@@ -0,0 +1,21 @@
+-- Idle detection
+-- Run once in the Supabase SQL editor after 002_time_entry_segments.sql.
+--
+-- Users choose after how many minutes away running timers prompt to keep,
+-- discard or split the idle time. Discarded time is kept out of the work session.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS idle_timeout_minutes INTEGER DEFAULT 10
+    CHECK (idle_timeout_minutes BETWEEN 1 AND 240);
+
+ALTER TABLE public.work_sessions
+  ADD COLUMN IF NOT EXISTS idle_seconds INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE public.work_sessions
+  DROP CONSTRAINT IF EXISTS check_work_session_idle_positive;
+ALTER TABLE public.work_sessions
+  ADD CONSTRAINT check_work_session_idle_positive CHECK (idle_seconds >= 0);
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Focus mode
+-- Run once in the Supabase SQL editor after 003_idle_detection.sql.
+--
+-- Adds per-user work/break lengths for focus mode and records each focus
+-- interval that ran to the end, so tasks and reports can show how many were completed.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS focus_work_minutes INTEGER NOT NULL DEFAULT 25
+    CHECK (focus_work_minutes BETWEEN 1 AND 180),
+  ADD COLUMN IF NOT EXISTS focus_break_minutes INTEGER NOT NULL DEFAULT 5
+    CHECK (focus_break_minutes BETWEEN 1 AND 60),
+  ADD COLUMN IF NOT EXISTS focus_notifications_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS public.focus_intervals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  time_entry_id UUID REFERENCES public.time_entries(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_focus_interval_completed_after_start CHECK (completed_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_focus_intervals_task_id ON public.focus_intervals(task_id);
+CREATE INDEX IF NOT EXISTS idx_focus_intervals_user_completed ON public.focus_intervals(user_id, completed_at);
+
+ALTER TABLE public.focus_intervals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own focus intervals" ON public.focus_intervals
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own focus intervals" ON public.focus_intervals
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own focus intervals" ON public.focus_intervals
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+COMMIT;
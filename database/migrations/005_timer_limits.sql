@@ -0,0 +1,27 @@
+-- Timer limits
+-- Run once in the Supabase SQL editor after 004_focus_mode.sql.
+--
+-- Users choose a maximum continuous run length and a local time of day at
+-- which the timer-limits cron stops running timers, optionally leaving
+-- weekends alone. Stopped entries keep a pending notice until the user sees it.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS timer_max_run_hours INTEGER
+    CHECK (timer_max_run_hours BETWEEN 1 AND 24),
+  ADD COLUMN IF NOT EXISTS timer_auto_stop_time TIME,
+  ADD COLUMN IF NOT EXISTS timer_weekend_behavior TEXT NOT NULL DEFAULT 'same'
+    CHECK (timer_weekend_behavior IN ('same', 'skip')),
+  ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS auto_stop_reason TEXT
+    CHECK (auto_stop_reason IN ('max_run', 'time_of_day')),
+  ADD COLUMN IF NOT EXISTS auto_stop_notified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_auto_stop_pending
+  ON public.time_entries(user_id)
+  WHERE auto_stop_reason IS NOT NULL AND auto_stop_notified_at IS NULL;
+
+COMMIT;
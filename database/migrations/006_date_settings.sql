@@ -0,0 +1,15 @@
+-- Date settings
+-- Run once in the Supabase SQL editor after 005_timer_limits.sql.
+--
+-- Users choose the first day of the week. Together with users.time_zone it
+-- decides where days and weeks begin in stats, filters, reports and invoices.
+-- Weeks started on Sunday before this setting existed, so that stays the
+-- default and existing users see no change.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS week_start SMALLINT NOT NULL DEFAULT 0
+    CHECK (week_start BETWEEN 0 AND 6);
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Calendar feed
+-- Run once in the Supabase SQL editor after 006_date_settings.sql.
+--
+-- Each user can publish an ICS feed of stopped time entries and task due
+-- dates. The feed URL carries a secret token; regenerating it from settings
+-- cuts off old URLs and clearing it turns the feed off.
+
+BEGIN;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS calendar_feed_token TEXT UNIQUE;
+
+COMMIT;
@@ -0,0 +1,138 @@
+-- Account restore
+-- Run once in the Supabase SQL editor after 007_calendar_feed.sql.
+--
+-- Loads an Orasan export ZIP into the signed-in account. The API reads the
+-- ZIP, gives every row a new id and checks for conflicts; this function then
+-- inserts everything in one transaction, so a failure leaves nothing behind.
+-- It runs as the caller, so row level security still applies to every row.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.restore_account_data(payload JSONB)
+RETURNS VOID AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  current_profile public.users;
+  restored_profile public.users;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Profile settings: only the keys present in the payload are changed
+  IF payload ? 'user' THEN
+    SELECT * INTO current_profile FROM public.users WHERE id = current_user_id;
+    restored_profile := jsonb_populate_record(current_profile, payload->'user');
+
+    UPDATE public.users SET
+      name = restored_profile.name,
+      business_name = restored_profile.business_name,
+      business_email = restored_profile.business_email,
+      business_address = restored_profile.business_address,
+      business_phone = restored_profile.business_phone,
+      tax_id = restored_profile.tax_id,
+      invoice_reminders_enabled = restored_profile.invoice_reminders_enabled,
+      invoice_reminder_days = restored_profile.invoice_reminder_days,
+      invoice_number_prefix = restored_profile.invoice_number_prefix,
+      invoice_number_padding = restored_profile.invoice_number_padding,
+      invoice_number_next = restored_profile.invoice_number_next,
+      invoice_number_reset_yearly = restored_profile.invoice_number_reset_yearly,
+      invoice_number_year = restored_profile.invoice_number_year,
+      idle_timeout_minutes = restored_profile.idle_timeout_minutes,
+      focus_work_minutes = restored_profile.focus_work_minutes,
+      focus_break_minutes = restored_profile.focus_break_minutes,
+      focus_notifications_enabled = restored_profile.focus_notifications_enabled,
+      timer_max_run_hours = restored_profile.timer_max_run_hours,
+      timer_auto_stop_time = restored_profile.timer_auto_stop_time,
+      timer_weekend_behavior = restored_profile.timer_weekend_behavior,
+      time_zone = restored_profile.time_zone,
+      week_start = restored_profile.week_start
+    WHERE id = current_user_id;
+  END IF;
+
+  INSERT INTO public.projects (
+    id, name, description, rate_type, price, currency_code, status, user_id,
+    client_name, client_email, client_address, client_phone, created_at, updated_at
+  )
+  SELECT
+    id, name, description, rate_type, price, currency_code, status, user_id,
+    client_name, client_email, client_address, client_phone, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.projects, COALESCE(payload->'projects', '[]'));
+
+  INSERT INTO public.tasks (
+    id, name, description, project_id, user_id, status, priority, due_date,
+    assignee, rate_type, price, created_at, updated_at
+  )
+  SELECT
+    id, name, description, project_id, user_id, status, priority, due_date,
+    assignee, rate_type, price, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.tasks, COALESCE(payload->'tasks', '[]'));
+
+  INSERT INTO public.time_entries (
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, running_since, description, auto_stop_reason,
+    auto_stop_notified_at, created_at, updated_at
+  )
+  SELECT
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, running_since, description, auto_stop_reason,
+    auto_stop_notified_at, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.time_entries, COALESCE(payload->'time_entries', '[]'));
+
+  INSERT INTO public.time_entry_segments (
+    id, time_entry_id, user_id, started_at, ended_at, created_at
+  )
+  SELECT id, time_entry_id, user_id, started_at, ended_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.time_entry_segments, COALESCE(payload->'time_entry_segments', '[]'));
+
+  INSERT INTO public.focus_intervals (
+    id, user_id, task_id, project_id, time_entry_id, started_at, completed_at, created_at
+  )
+  SELECT id, user_id, task_id, project_id, time_entry_id, started_at, completed_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.focus_intervals, COALESCE(payload->'focus_intervals', '[]'));
+
+  INSERT INTO public.work_sessions (
+    id, user_id, start_time, end_time, duration_seconds, idle_seconds, status,
+    created_at, updated_at
+  )
+  SELECT
+    id, user_id, start_time, end_time, duration_seconds, idle_seconds, status,
+    created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.work_sessions, COALESCE(payload->'work_sessions', '[]'));
+
+  INSERT INTO public.invoices (
+    id, user_id, project_id, invoice_number, status, issue_date, due_date,
+    subtotal, discount_type, discount_value, discount_amount, taxes,
+    tax_inclusive, tax_rate, tax_amount, total_amount, currency_code, notes,
+    sent_to_email, sent_at, sent_message_id, last_reminder_days,
+    last_reminder_sent_at, created_at, updated_at
+  )
+  SELECT
+    id, user_id, project_id, invoice_number, status, issue_date, due_date,
+    subtotal, discount_type, discount_value, discount_amount, taxes,
+    tax_inclusive, tax_rate, tax_amount, total_amount, currency_code, notes,
+    sent_to_email, sent_at, sent_message_id, last_reminder_days,
+    last_reminder_sent_at, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.invoices, COALESCE(payload->'invoices', '[]'));
+
+  INSERT INTO public.invoice_items (
+    id, invoice_id, task_id, name, description, quantity, unit_price,
+    total_cost, discount_type, discount_value, discount_amount, rate_type, created_at
+  )
+  SELECT
+    id, invoice_id, task_id, name, description, quantity, unit_price,
+    total_cost, discount_type, discount_value, discount_amount, rate_type, created_at
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, COALESCE(payload->'invoice_items', '[]'));
+
+  INSERT INTO public.invoice_payments (
+    id, user_id, invoice_id, amount, paid_on, method, reference, created_at, updated_at
+  )
+  SELECT id, user_id, invoice_id, amount, paid_on, method, reference, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.invoice_payments, COALESCE(payload->'invoice_payments', '[]'));
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restore_account_data(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_account_data(JSONB) TO authenticated;
+
+COMMIT;
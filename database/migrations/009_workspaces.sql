@@ -0,0 +1,500 @@
+-- Team workspaces
+-- Run once in the Supabase SQL editor after 008_account_restore.sql.
+--
+-- Projects, tasks, time entries and invoices now belong to a workspace. Every
+-- user gets a personal workspace, which existing data moves into, and can
+-- create shared ones and invite people by email with a role:
+--   owner  - everything, including deleting the workspace (one per workspace)
+--   admin  - members, invitations, projects and invoices
+--   member - tasks, and tracking their own time
+--   viewer - read only
+-- Time entries (and their segments) stay per user: members see each other's
+-- time in a workspace but only change their own.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID REFERENCES public.users(id) ON DELETE RESTRICT NOT NULL,
+  -- Created with the account; cannot be deleted
+  is_personal BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  -- Lowercase; only the account with this email can accept
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member', 'viewer')),
+  token TEXT UNIQUE NOT NULL,
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Workspace shown in the app; NULL means the personal workspace
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS active_workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_personal ON public.workspaces(owner_id)
+WHERE is_personal;
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+-- A workspace has exactly one owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_members_owner ON public.workspace_members(workspace_id)
+WHERE role = 'owner';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_pending ON public.workspace_invitations(workspace_id, email)
+WHERE accepted_at IS NULL;
+
+-- Caller's role in a workspace, or NULL. SECURITY DEFINER so policies can
+-- read workspace_members without recursing into its own policies.
+CREATE OR REPLACE FUNCTION public.workspace_role(target_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = target_workspace_id AND user_id = (SELECT auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Plan of a workspace's owner, for members only: Free-plan limits apply to the
+-- workspace as a whole, whoever on the team makes the change.
+CREATE OR REPLACE FUNCTION public.workspace_subscription_tier(target_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT u.subscription_tier FROM public.workspaces w
+  JOIN public.users u ON u.id = w.owner_id
+  WHERE w.id = target_workspace_id
+    AND public.workspace_role(target_workspace_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Workspace new projects go to: the caller's active one, else their personal one
+CREATE OR REPLACE FUNCTION public.current_workspace_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (
+      SELECT u.active_workspace_id FROM public.users u
+      WHERE u.id = (SELECT auth.uid())
+        AND public.workspace_role(u.active_workspace_id) IS NOT NULL
+    ),
+    (
+      SELECT w.id FROM public.workspaces w
+      WHERE w.owner_id = (SELECT auth.uid()) AND w.is_personal
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_personal_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspaces (name, owner_id, is_personal)
+  VALUES ('Personal', NEW.id, TRUE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tasks, time entries and invoices always sit in their project's workspace
+CREATE OR REPLACE FUNCTION public.set_workspace_from_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT workspace_id INTO NEW.workspace_id
+  FROM public.projects WHERE id = NEW.project_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.move_project_children_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  UPDATE public.time_entries SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  UPDATE public.invoices SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Before an account is deleted (owner_id is ON DELETE RESTRICT): shared
+-- workspaces pass to their longest-standing admin, and the personal one and
+-- shared ones nobody else is in are deleted. A shared workspace with members
+-- but no admin refuses the deletion until the owner makes someone admin.
+CREATE OR REPLACE FUNCTION public.release_owned_workspaces(target_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  owned RECORD;
+  heir UUID;
+BEGIN
+  FOR owned IN
+    SELECT id, name, is_personal FROM public.workspaces WHERE owner_id = target_user_id
+  LOOP
+    heir := NULL;
+    IF NOT owned.is_personal THEN
+      SELECT user_id INTO heir FROM public.workspace_members
+      WHERE workspace_id = owned.id AND role = 'admin'
+      ORDER BY created_at, user_id
+      LIMIT 1;
+
+      IF heir IS NULL AND EXISTS (
+        SELECT 1 FROM public.workspace_members
+        WHERE workspace_id = owned.id AND user_id <> target_user_id
+      ) THEN
+        RAISE EXCEPTION 'Workspace "%" has members but no admin to take it over', owned.name;
+      END IF;
+    END IF;
+
+    IF heir IS NULL THEN
+      DELETE FROM public.workspaces WHERE id = owned.id;
+    ELSE
+      DELETE FROM public.workspace_members
+      WHERE workspace_id = owned.id AND user_id = target_user_id;
+      UPDATE public.workspace_members SET role = 'owner'
+      WHERE workspace_id = owned.id AND user_id = heir;
+      UPDATE public.workspaces SET owner_id = heir WHERE id = owned.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the account cleanup job (service role) releases workspaces
+REVOKE ALL ON FUNCTION public.release_owned_workspaces(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_owned_workspaces(UUID) TO service_role;
+
+DROP TRIGGER IF EXISTS add_workspace_owner_after_insert ON public.workspaces;
+CREATE TRIGGER add_workspace_owner_after_insert
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+
+DROP TRIGGER IF EXISTS create_personal_workspace_after_user_insert ON public.users;
+CREATE TRIGGER create_personal_workspace_after_user_insert
+  AFTER INSERT ON public.users
+  FOR EACH ROW EXECUTE FUNCTION create_personal_workspace();
+
+DROP TRIGGER IF EXISTS update_workspaces_updated_at ON public.workspaces;
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Personal workspaces for existing users (the trigger adds them as owners)
+INSERT INTO public.workspaces (name, owner_id, is_personal)
+SELECT 'Personal', u.id, TRUE
+FROM public.users u
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.workspaces w WHERE w.owner_id = u.id AND w.is_personal
+);
+
+-- Move existing data into the personal workspaces
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+UPDATE public.projects p SET workspace_id = w.id
+FROM public.workspaces w
+WHERE p.workspace_id IS NULL AND w.owner_id = p.user_id AND w.is_personal;
+ALTER TABLE public.projects
+  ALTER COLUMN workspace_id SET DEFAULT public.current_workspace_id(),
+  ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+UPDATE public.tasks t SET workspace_id = p.workspace_id
+FROM public.projects p
+WHERE t.workspace_id IS NULL AND p.id = t.project_id;
+ALTER TABLE public.tasks ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+UPDATE public.time_entries e SET workspace_id = p.workspace_id
+FROM public.projects p
+WHERE e.workspace_id IS NULL AND p.id = e.project_id;
+ALTER TABLE public.time_entries ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+UPDATE public.invoices i SET workspace_id = p.workspace_id
+FROM public.projects p
+WHERE i.workspace_id IS NULL AND p.id = i.project_id;
+ALTER TABLE public.invoices ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON public.projects(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_workspace_id ON public.tasks(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_workspace_id ON public.time_entries(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_workspace_id ON public.invoices(workspace_id);
+
+DROP TRIGGER IF EXISTS set_tasks_workspace ON public.tasks;
+CREATE TRIGGER set_tasks_workspace BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+DROP TRIGGER IF EXISTS set_time_entries_workspace ON public.time_entries;
+CREATE TRIGGER set_time_entries_workspace BEFORE INSERT OR UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+DROP TRIGGER IF EXISTS set_invoices_workspace ON public.invoices;
+CREATE TRIGGER set_invoices_workspace BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+DROP TRIGGER IF EXISTS move_project_children_workspace ON public.projects;
+CREATE TRIGGER move_project_children_workspace AFTER UPDATE OF workspace_id ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION move_project_children_workspace();
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces (the owner check lets INSERT ... RETURNING see the new row
+-- before the owner membership exists)
+CREATE POLICY "Members can view workspaces" ON public.workspaces
+  FOR SELECT USING (
+    (SELECT auth.uid()) = owner_id OR public.workspace_role(id) IS NOT NULL
+  );
+
+CREATE POLICY "Users can create shared workspaces" ON public.workspaces
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = owner_id AND NOT is_personal);
+
+CREATE POLICY "Admins can update workspaces" ON public.workspaces
+  FOR UPDATE USING (public.workspace_role(id) IN ('owner', 'admin'))
+  WITH CHECK (public.workspace_role(id) IN ('owner', 'admin'));
+
+-- Members rename workspaces and nothing else: changing owner_id or
+-- is_personal would let an admin take a workspace over
+REVOKE UPDATE ON public.workspaces FROM anon, authenticated;
+GRANT UPDATE (name) ON public.workspaces TO authenticated;
+
+CREATE POLICY "Owners can delete shared workspaces" ON public.workspaces
+  FOR DELETE USING (public.workspace_role(id) = 'owner' AND NOT is_personal);
+
+-- Workspace members (added by the owner trigger and by accepted invitations)
+CREATE POLICY "Members can view workspace members" ON public.workspace_members
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can change member roles" ON public.workspace_members
+  FOR UPDATE USING (
+    public.workspace_role(workspace_id) IN ('owner', 'admin') AND role <> 'owner'
+  ) WITH CHECK (
+    public.workspace_role(workspace_id) IN ('owner', 'admin') AND role <> 'owner'
+  );
+
+-- Admins change roles and nothing else: moving a membership to another
+-- workspace_id or user_id would let them join (or add anyone to) a workspace
+-- they do not run
+REVOKE UPDATE ON public.workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+CREATE POLICY "Admins can remove members and members can leave" ON public.workspace_members
+  FOR DELETE USING (
+    role <> 'owner' AND (
+      public.workspace_role(workspace_id) IN ('owner', 'admin')
+      OR (SELECT auth.uid()) = user_id
+    )
+  );
+
+-- Workspace invitations (accepted through the API with the invitation token)
+CREATE POLICY "Admins can view invitations" ON public.workspace_invitations
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create invitations" ON public.workspace_invitations
+  FOR INSERT WITH CHECK (
+    public.workspace_role(workspace_id) IN ('owner', 'admin')
+    AND (SELECT auth.uid()) = invited_by
+  );
+
+CREATE POLICY "Admins can delete invitations" ON public.workspace_invitations
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- Projects: everyone in the workspace reads, owners and admins change
+DROP POLICY IF EXISTS "Users can view own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can insert own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON public.projects;
+
+CREATE POLICY "Members can view workspace projects" ON public.projects
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can insert workspace projects" ON public.projects
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update workspace projects" ON public.projects
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete workspace projects" ON public.projects
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- Tasks: everyone reads, viewers cannot change
+DROP POLICY IF EXISTS "Users can view own tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Users can insert own tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Users can update own tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Users can delete own tasks" ON public.tasks;
+
+CREATE POLICY "Members can view workspace tasks" ON public.tasks
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members can insert workspace tasks" ON public.tasks
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
+
+CREATE POLICY "Members can update workspace tasks" ON public.tasks
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY "Members can delete workspace tasks" ON public.tasks
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin', 'member'));
+
+-- Time entries: per user; the workspace can read them
+DROP POLICY IF EXISTS "Users can insert own time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can update own time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can delete own time entries" ON public.time_entries;
+
+CREATE POLICY "Members can view workspace time entries" ON public.time_entries
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Users can insert own time entries" ON public.time_entries
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
+
+CREATE POLICY "Users can update own time entries" ON public.time_entries
+  FOR UPDATE USING (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
+
+CREATE POLICY "Users can delete own time entries" ON public.time_entries
+  FOR DELETE USING (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
+
+-- Time entry segments: follow their entry, so teammates' time splits the same
+-- way in invoices and reports as it does for the service role
+DROP POLICY IF EXISTS "Users can view own time entry segments" ON public.time_entry_segments;
+
+CREATE POLICY "Members can view workspace time entry segments" ON public.time_entry_segments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.time_entries
+      WHERE time_entries.id = time_entry_segments.time_entry_id
+      AND public.workspace_role(time_entries.workspace_id) IS NOT NULL
+    )
+  );
+
+-- Invoices, items and payments: everyone reads, owners and admins change
+DROP POLICY IF EXISTS "Users can view own invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Users can insert own invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Users can update own invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Users can delete own invoices" ON public.invoices;
+
+CREATE POLICY "Members can view workspace invoices" ON public.invoices
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can insert workspace invoices" ON public.invoices
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update workspace invoices" ON public.invoices
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete workspace invoices" ON public.invoices
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Users can view own invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Users can insert own invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Users can update own invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Users can delete own invoice items" ON public.invoice_items;
+
+CREATE POLICY "Members can view workspace invoice items" ON public.invoice_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Admins can insert workspace invoice items" ON public.invoice_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update workspace invoice items" ON public.invoice_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can delete workspace invoice items" ON public.invoice_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own invoice payments" ON public.invoice_payments;
+DROP POLICY IF EXISTS "Users can insert own invoice payments" ON public.invoice_payments;
+DROP POLICY IF EXISTS "Users can update own invoice payments" ON public.invoice_payments;
+DROP POLICY IF EXISTS "Users can delete own invoice payments" ON public.invoice_payments;
+
+CREATE POLICY "Members can view workspace invoice payments" ON public.invoice_payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Admins can insert workspace invoice payments" ON public.invoice_payments
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update workspace invoice payments" ON public.invoice_payments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can delete workspace invoice payments" ON public.invoice_payments
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+COMMIT;
@@ -0,0 +1,60 @@
+-- Task assignees
+-- Run once in the Supabase SQL editor after 009_workspaces.sql.
+--
+-- Tasks are assigned to members of their workspace, which the database checks
+-- on every write. Leaving or being removed from a workspace unassigns that
+-- person's tasks there, and "My Tasks" looks tasks up by assignee across
+-- workspaces.
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee ON public.tasks(assignee);
+
+CREATE OR REPLACE FUNCTION public.unassign_removed_workspace_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks SET assignee = NULL
+  WHERE workspace_id = OLD.workspace_id AND assignee = OLD.user_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS unassign_removed_workspace_member ON public.workspace_members;
+CREATE TRIGGER unassign_removed_workspace_member
+  AFTER DELETE ON public.workspace_members
+  FOR EACH ROW EXECUTE FUNCTION unassign_removed_workspace_member();
+
+-- Runs after set_tasks_workspace (triggers fire in name order), so
+-- NEW.workspace_id is the project's workspace
+CREATE OR REPLACE FUNCTION public.check_task_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignee IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = NEW.workspace_id AND m.user_id = NEW.assignee
+  ) THEN
+    -- A task moved with its project to a workspace the assignee is not in
+    IF TG_OP = 'UPDATE' AND NEW.assignee IS NOT DISTINCT FROM OLD.assignee THEN
+      NEW.assignee := NULL;
+    ELSE
+      RAISE EXCEPTION 'Tasks can only be assigned to members of their workspace'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_task_assignee ON public.tasks;
+CREATE TRIGGER validate_task_assignee BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION check_task_assignee();
+
+-- Assignees who are not (or no longer) members of the task's workspace
+UPDATE public.tasks t SET assignee = NULL
+WHERE t.assignee IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = t.workspace_id AND m.user_id = t.assignee
+  );
+
+COMMIT;
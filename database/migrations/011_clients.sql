@@ -0,0 +1,179 @@
+-- Clients
+-- Run once in the Supabase SQL editor after 010_task_assignees.sql.
+--
+-- Clients are kept once per workspace and projects link to them. The client
+-- columns on projects stay as a copy of the linked client's details (kept in
+-- sync by triggers) for invoices, reports, exports and calendar feeds.
+-- Projects inserted with only a client name (CSV import, account restore)
+-- are linked to the workspace's client of that name, created if missing.
+-- Existing projects are moved onto deduplicated clients: one per workspace
+-- and case-insensitive name, with the most recently updated project's details.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.clients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT public.current_workspace_id(),
+  -- Creator
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  email TEXT,
+  address TEXT,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_workspace_name ON public.clients(workspace_id, lower(name));
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_client_id ON public.projects(client_id);
+
+DROP TRIGGER IF EXISTS update_clients_updated_at ON public.clients;
+CREATE TRIGGER update_clients_updated_at BEFORE UPDATE ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.link_project_client()
+RETURNS TRIGGER AS $$
+DECLARE
+  linked public.clients%ROWTYPE;
+BEGIN
+  IF NEW.client_id IS NULL AND TG_OP = 'INSERT' AND btrim(COALESCE(NEW.client_name, '')) <> '' THEN
+    INSERT INTO public.clients (workspace_id, user_id, name, email, address, phone)
+    VALUES (
+      NEW.workspace_id, NEW.user_id, btrim(NEW.client_name),
+      NULLIF(btrim(NEW.client_email), ''), NULLIF(btrim(NEW.client_address), ''),
+      NULLIF(btrim(NEW.client_phone), '')
+    )
+    ON CONFLICT (workspace_id, lower(name)) DO NOTHING;
+
+    SELECT id INTO NEW.client_id FROM public.clients
+    WHERE workspace_id = NEW.workspace_id AND lower(name) = lower(btrim(NEW.client_name));
+  END IF;
+
+  IF NEW.client_id IS NOT NULL THEN
+    SELECT * INTO linked FROM public.clients WHERE id = NEW.client_id;
+    IF linked.workspace_id IS DISTINCT FROM NEW.workspace_id THEN
+      RAISE EXCEPTION 'Client % is not in the project''s workspace', NEW.client_id;
+    END IF;
+    NEW.client_name := linked.name;
+    NEW.client_email := linked.email;
+    NEW.client_address := linked.address;
+    NEW.client_phone := linked.phone;
+  ELSIF TG_OP = 'UPDATE' AND OLD.client_id IS NOT NULL THEN
+    -- Unlinked (or the client was deleted)
+    NEW.client_name := NULL;
+    NEW.client_email := NULL;
+    NEW.client_address := NULL;
+    NEW.client_phone := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_client_projects()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.projects SET
+    client_name = NEW.name,
+    client_email = NEW.email,
+    client_address = NEW.address,
+    client_phone = NEW.phone
+  WHERE client_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_project_client ON public.projects;
+CREATE TRIGGER link_project_client BEFORE INSERT OR UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION link_project_client();
+
+DROP TRIGGER IF EXISTS sync_client_projects ON public.clients;
+CREATE TRIGGER sync_client_projects AFTER UPDATE OF name, email, address, phone ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION sync_client_projects();
+
+-- Time and invoiced amounts per client. Invoices count once sent (drafts and
+-- cancelled invoices are left out); amounts are grouped by currency.
+CREATE OR REPLACE FUNCTION public.get_client_totals(target_workspace_id UUID)
+RETURNS TABLE (
+  client_id UUID,
+  project_count BIGINT,
+  tracked_seconds BIGINT,
+  invoiced JSONB
+) AS $$
+  SELECT
+    c.id,
+    (SELECT COUNT(*) FROM public.projects p WHERE p.client_id = c.id),
+    (
+      SELECT COALESCE(SUM(e.duration_seconds), 0)::BIGINT
+      FROM public.time_entries e
+      JOIN public.projects p ON p.id = e.project_id
+      WHERE p.client_id = c.id AND e.timer_status = 'stopped'
+    ),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'currency_code', t.currency_code,
+          'invoiced', t.invoiced,
+          'paid', t.paid
+        ) ORDER BY t.currency_code
+      )
+      FROM (
+        SELECT
+          i.currency_code,
+          SUM(i.total_amount) AS invoiced,
+          COALESCE(SUM((
+            SELECT SUM(pay.amount) FROM public.invoice_payments pay
+            WHERE pay.invoice_id = i.id
+          )), 0) AS paid
+        FROM public.invoices i
+        JOIN public.projects p ON p.id = i.project_id
+        WHERE p.client_id = c.id AND i.status NOT IN ('draft', 'cancelled')
+        GROUP BY i.currency_code
+      ) t
+    ), '[]'::JSONB)
+  FROM public.clients c
+  WHERE c.workspace_id = target_workspace_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+-- Clients: everyone in the workspace reads, owners and admins change
+CREATE POLICY "Members can view workspace clients" ON public.clients
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can insert workspace clients" ON public.clients
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update workspace clients" ON public.clients
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete workspace clients" ON public.clients
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- Deduplicated clients from existing projects
+INSERT INTO public.clients (workspace_id, user_id, name, email, address, phone)
+SELECT DISTINCT ON (p.workspace_id, lower(btrim(p.client_name)))
+  p.workspace_id, p.user_id, btrim(p.client_name),
+  NULLIF(btrim(p.client_email), ''), NULLIF(btrim(p.client_address), ''),
+  NULLIF(btrim(p.client_phone), '')
+FROM public.projects p
+WHERE btrim(COALESCE(p.client_name, '')) <> ''
+ORDER BY p.workspace_id, lower(btrim(p.client_name)), p.updated_at DESC
+ON CONFLICT (workspace_id, lower(name)) DO NOTHING;
+
+-- Linking copies each client's details onto its projects (link_project_client)
+UPDATE public.projects p SET client_id = c.id
+FROM public.clients c
+WHERE p.client_id IS NULL
+  AND c.workspace_id = p.workspace_id
+  AND lower(c.name) = lower(btrim(p.client_name));
+
+COMMIT;
@@ -0,0 +1,58 @@
+-- Client portal
+-- Run once in the Supabase SQL editor after 011_clients.sql.
+--
+-- A portal link gives one client read access, without an account, to its
+-- invoices that are no longer drafts. The URL carries a secret token; links
+-- can expire and owners and admins can revoke them. Portal views and PDF
+-- downloads are logged to the activity log of the link's creator.
+
+ALTER TYPE activity_action ADD VALUE IF NOT EXISTS 'VIEW_CLIENT_PORTAL';
+ALTER TYPE activity_entity_type ADD VALUE IF NOT EXISTS 'client_portal_link';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.client_portal_links (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  -- NULL never expires
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_portal_links_client_id ON public.client_portal_links(client_id);
+
+ALTER TABLE public.client_portal_links ENABLE ROW LEVEL SECURITY;
+
+-- Portal links: owners and admins manage them; the portal itself reads them
+-- with the service role
+CREATE POLICY "Admins can view client portal links" ON public.client_portal_links
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create client portal links" ON public.client_portal_links
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = created_by
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update client portal links" ON public.client_portal_links
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- Counts a portal view in place, so simultaneous views are never lost. The
+-- portal has no session, so only the service role may call it.
+CREATE OR REPLACE FUNCTION public.record_client_portal_view(target_link_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.client_portal_links
+  SET view_count = view_count + 1, last_viewed_at = NOW()
+  WHERE id = target_link_id;
+$$ LANGUAGE sql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_client_portal_view(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_client_portal_view(UUID) TO service_role;
+
+COMMIT;
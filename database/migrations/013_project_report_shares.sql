@@ -0,0 +1,45 @@
+-- Project report shares
+-- Run once in the Supabase SQL editor after 012_client_portal.sql.
+--
+-- A report share gives anyone with its URL a read-only time report for one
+-- project and date range: tasks, stopped time entries and totals, with rates
+-- left out when hide_rates is set. The range is whole calendar days in the
+-- time zone of the member who created it. Owners and admins revoke shares;
+-- revoked shares stop working at once.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.project_report_shares (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  hide_rates BOOLEAN NOT NULL DEFAULT FALSE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT project_report_shares_range_check CHECK (from_date <= to_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_report_shares_project_id ON public.project_report_shares(project_id);
+
+ALTER TABLE public.project_report_shares ENABLE ROW LEVEL SECURITY;
+
+-- Report shares: owners and admins manage them; the shared report itself
+-- reads them with the service role
+CREATE POLICY "Admins can view project report shares" ON public.project_report_shares
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create project report shares" ON public.project_report_shares
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = created_by
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update project report shares" ON public.project_report_shares
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+COMMIT;
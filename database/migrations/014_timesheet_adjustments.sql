@@ -0,0 +1,13 @@
+-- Timesheet adjustments
+-- Run once in the Supabase SQL editor after 013_project_report_shares.sql.
+--
+-- Typing a total into a timesheet cell used to stretch, shorten or delete the
+-- day's tracked entries. The difference now goes into one manual adjustment
+-- entry per task and day, flagged here, and tracked entries are left alone.
+
+BEGIN;
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS timesheet_adjustment BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Time entry import
+-- Run once in the Supabase SQL editor after 014_timesheet_adjustments.sql.
+--
+-- Saves a checked CSV import: the projects and tasks it creates and its time
+-- entries. The API plans the rows and gives each a new id; this function
+-- inserts them in one transaction, so a failure leaves nothing behind. It runs
+-- as the caller, so row level security still applies to every row.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.import_time_entries(payload JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.projects (
+    id, name, client_name, rate_type, price, currency_code, status, user_id,
+    workspace_id
+  )
+  SELECT
+    id, name, client_name, rate_type, price, currency_code, status, user_id,
+    workspace_id
+  FROM jsonb_populate_recordset(NULL::public.projects, COALESCE(payload->'projects', '[]'));
+
+  INSERT INTO public.tasks (
+    id, name, project_id, user_id, status, rate_type, price
+  )
+  SELECT id, name, project_id, user_id, status, rate_type, price
+  FROM jsonb_populate_recordset(NULL::public.tasks, COALESCE(payload->'tasks', '[]'));
+
+  INSERT INTO public.time_entries (
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, description
+  )
+  SELECT
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, description
+  FROM jsonb_populate_recordset(NULL::public.time_entries, COALESCE(payload->'time_entries', '[]'));
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.import_time_entries(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_time_entries(JSONB) TO authenticated;
+
+COMMIT;
@@ -6,8 +6,8 @@ CREATE TYPE project_status AS ENUM ('new', 'on_hold', 'in_progress', 'completed'
 CREATE TYPE task_status AS ENUM ('new', 'on_hold', 'in_progress', 'completed');
 CREATE TYPE priority AS ENUM ('low', 'medium', 'high', 'urgent');
 CREATE TYPE rate_type AS ENUM ('hourly', 'fixed');
-CREATE TYPE activity_action AS ENUM ('CREATE', 'UPDATE', 'DELETE', 'EXPORT_DATA', 'REQUEST_ACCOUNT_DELETION', 'CONFIRM_ACCOUNT_DELETION', 'CANCEL_ACCOUNT_DELETION');
-CREATE TYPE activity_entity_type AS ENUM ('project', 'task', 'time_entry', 'work_session', 'invoice', 'user', 'data_export', 'account_deletion');
+CREATE TYPE activity_action AS ENUM ('CREATE', 'UPDATE', 'DELETE', 'EXPORT_DATA', 'REQUEST_ACCOUNT_DELETION', 'CONFIRM_ACCOUNT_DELETION', 'CANCEL_ACCOUNT_DELETION', 'VIEW_CLIENT_PORTAL');
+CREATE TYPE activity_entity_type AS ENUM ('project', 'task', 'time_entry', 'work_session', 'invoice', 'user', 'data_export', 'account_deletion', 'client_portal_link');
 
 -- Create users table (extends Supabase auth.users)
 CREATE TABLE public.users (
@@ -22,6 +22,40 @@ CREATE TABLE public.users (
   business_address TEXT,
   business_phone TEXT,
   tax_id TEXT,
+  -- Overdue invoice reminders emailed to clients (days past the due date)
+  invoice_reminders_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  invoice_reminder_days INTEGER[] NOT NULL DEFAULT '{3,7,14}',
+  -- Invoice numbering: prefix (may contain {YYYY}, {YY}, {MM}) + zero-padded counter.
+  -- One sequence per issuer across all their workspaces, since invoices carry
+  -- the issuer's business details
+  invoice_number_prefix TEXT NOT NULL DEFAULT '',
+  invoice_number_padding INTEGER NOT NULL DEFAULT 1 CHECK (invoice_number_padding BETWEEN 1 AND 10),
+  -- Next counter value; NULL until the first number is generated, which then
+  -- continues after the highest numeric invoice number
+  invoice_number_next INTEGER CHECK (invoice_number_next >= 1),
+  invoice_number_reset_yearly BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Issue year of the last generated number (for the yearly reset)
+  invoice_number_year INTEGER,
+  -- Minutes without input (or with the app hidden) before running timers
+  -- prompt to keep or discard the idle time; NULL turns idle detection off
+  idle_timeout_minutes INTEGER DEFAULT 10 CHECK (idle_timeout_minutes BETWEEN 1 AND 240),
+  -- Focus mode: work interval (the timer pauses when it ends) and break lengths
+  focus_work_minutes INTEGER NOT NULL DEFAULT 25 CHECK (focus_work_minutes BETWEEN 1 AND 180),
+  focus_break_minutes INTEGER NOT NULL DEFAULT 5 CHECK (focus_break_minutes BETWEEN 1 AND 60),
+  focus_notifications_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Timer limits enforced by the timer-limits cron: longest continuous run
+  -- (hours) and local time of day running timers stop at; NULL turns each off.
+  -- 'skip' leaves timers alone on Saturdays and Sundays
+  timer_max_run_hours INTEGER CHECK (timer_max_run_hours BETWEEN 1 AND 24),
+  timer_auto_stop_time TIME,
+  timer_weekend_behavior TEXT NOT NULL DEFAULT 'same' CHECK (timer_weekend_behavior IN ('same', 'skip')),
+  -- IANA time zone for local days and times of day (NULL = the zone of the
+  -- browser making the request, or UTC for background jobs)
+  time_zone TEXT,
+  -- First day of the week, 0 = Sunday … 6 = Saturday
+  week_start SMALLINT NOT NULL DEFAULT 0 CHECK (week_start BETWEEN 0 AND 6),
+  -- Secret in the calendar (ICS) feed URL; NULL turns the feed off
+  calendar_feed_token TEXT UNIQUE,
   -- Account deletion tracking
   deletion_requested_at TIMESTAMP WITH TIME ZONE,
   deletion_confirmed_at TIMESTAMP WITH TIME ZONE,
@@ -63,6 +97,94 @@ CREATE TABLE public.fs_webhook_events (
   )
 );
 
+-- Create workspaces table (personal and shared; projects, tasks, time entries
+-- and invoices belong to one)
+CREATE TABLE public.workspaces (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID REFERENCES public.users(id) ON DELETE RESTRICT NOT NULL,
+  -- Created with the account; cannot be deleted
+  is_personal BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create workspace_members table (owner, admin, member or viewer)
+CREATE TABLE public.workspace_members (
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Create workspace_invitations table (accepted through the API with the token)
+CREATE TABLE public.workspace_invitations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  -- Lowercase; only the account with this email can accept
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member', 'viewer')),
+  token TEXT UNIQUE NOT NULL,
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Workspace shown in the app; NULL means the personal workspace
+ALTER TABLE public.users
+  ADD COLUMN active_workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+-- Caller's role in a workspace, or NULL. SECURITY DEFINER so policies can
+-- read workspace_members without recursing into its own policies.
+CREATE OR REPLACE FUNCTION public.workspace_role(target_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = target_workspace_id AND user_id = (SELECT auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Plan of a workspace's owner, for members only: Free-plan limits apply to the
+-- workspace as a whole, whoever on the team makes the change.
+CREATE OR REPLACE FUNCTION public.workspace_subscription_tier(target_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT u.subscription_tier FROM public.workspaces w
+  JOIN public.users u ON u.id = w.owner_id
+  WHERE w.id = target_workspace_id
+    AND public.workspace_role(target_workspace_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Workspace new projects go to: the caller's active one, else their personal one
+CREATE OR REPLACE FUNCTION public.current_workspace_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (
+      SELECT u.active_workspace_id FROM public.users u
+      WHERE u.id = (SELECT auth.uid())
+        AND public.workspace_role(u.active_workspace_id) IS NOT NULL
+    ),
+    (
+      SELECT w.id FROM public.workspaces w
+      WHERE w.owner_id = (SELECT auth.uid()) AND w.is_personal
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create clients table (one per workspace and name; projects link to them)
+CREATE TABLE public.clients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT public.current_workspace_id(),
+  -- Creator
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  email TEXT,
+  address TEXT,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create projects table
 CREATE TABLE public.projects (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -72,8 +194,11 @@ CREATE TABLE public.projects (
   price DECIMAL(10,2) NOT NULL,
   currency_code VARCHAR(3) NOT NULL,
   status project_status DEFAULT 'new',
+  -- Creator
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
-  -- Client information for invoicing
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL DEFAULT public.current_workspace_id(),
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  -- Copy of the linked client's details for invoicing (kept in sync by triggers)
   client_name TEXT,
   client_email TEXT,
   client_address TEXT,
@@ -91,6 +216,8 @@ CREATE TABLE public.tasks (
   description TEXT,
   project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  -- Always the project's workspace (set by trigger)
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
   status task_status DEFAULT 'new',
   priority priority NOT NULL DEFAULT 'low',
   due_date DATE,
@@ -112,10 +239,24 @@ CREATE TABLE public.time_entries (
   task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
   project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  -- Always the project's workspace (set by trigger)
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
   start_time TIMESTAMP WITH TIME ZONE,
   end_time TIMESTAMP WITH TIME ZONE,
   duration_seconds INTEGER DEFAULT 0 NOT NULL,
   timer_status VARCHAR(20) DEFAULT 'paused' CHECK (timer_status IN ('running', 'paused', 'stopped')),
+  -- Server time the current run segment started. duration_seconds holds closed
+  -- segments only; the API adds NOW() - running_since when the timer pauses or stops
+  running_since TIMESTAMP WITH TIME ZONE,
+  -- Optional note describing what the entry was spent on (shown in history, exports and invoices)
+  description TEXT,
+  -- Set when the timer-limits cron stopped the entry; the notice is shown
+  -- until auto_stop_notified_at is set
+  auto_stop_reason TEXT CHECK (auto_stop_reason IN ('max_run', 'time_of_day')),
+  auto_stop_notified_at TIMESTAMP WITH TIME ZONE,
+  -- Manual time typed into the timesheet grid: the difference between a
+  -- cell's total and its tracked entries, which cell edits never change
+  timesheet_adjustment BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
@@ -124,12 +265,45 @@ CREATE TABLE public.time_entries (
   CONSTRAINT check_duration_seconds_positive CHECK (duration_seconds >= 0),
   CONSTRAINT check_end_after_start CHECK (end_time IS NULL OR end_time >= start_time),
   CONSTRAINT check_timer_status CHECK (timer_status IN ('running', 'paused', 'stopped')),
+  CONSTRAINT check_time_entry_description_length CHECK (
+    description IS NULL OR char_length(description) <= 500
+  ),
   CONSTRAINT check_status_end_time CHECK (
     (timer_status = 'stopped') OR 
     (timer_status IN ('running', 'paused') AND end_time IS NULL)
+  ),
+  CONSTRAINT check_running_since CHECK (
+    (timer_status = 'running') = (running_since IS NOT NULL)
+  )
+);
+
+-- Create time_entry_segments table (each run of a timer, from start/resume to pause/stop)
+CREATE TABLE public.time_entry_segments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  time_entry_id UUID REFERENCES public.time_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- NULL while the timer is running
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_segment_end_after_start CHECK (
+    ended_at IS NULL OR ended_at >= started_at
   )
 );
 
+-- Create focus_intervals table (focus mode work intervals that ran to the end)
+CREATE TABLE public.focus_intervals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  time_entry_id UUID REFERENCES public.time_entries(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_focus_interval_completed_after_start CHECK (completed_at >= started_at)
+);
+
 -- Create work_sessions table
 CREATE TABLE public.work_sessions (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -137,12 +311,15 @@ CREATE TABLE public.work_sessions (
   start_time TIMESTAMP WITH TIME ZONE NOT NULL,
   end_time TIMESTAMP WITH TIME ZONE,
   duration_seconds INTEGER DEFAULT 0 NOT NULL,
+  -- Idle time discarded from the session's timers; not counted in duration_seconds
+  idle_seconds INTEGER DEFAULT 0 NOT NULL,
   status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'completed')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
   -- Constraints for data integrity
   CONSTRAINT check_work_session_duration_positive CHECK (duration_seconds >= 0),
+  CONSTRAINT check_work_session_idle_positive CHECK (idle_seconds >= 0),
   CONSTRAINT check_work_session_end_after_start CHECK (end_time IS NULL OR end_time >= start_time),
   CONSTRAINT check_work_session_status CHECK (status IN ('active', 'completed')),
   CONSTRAINT check_work_session_status_end_time CHECK (
@@ -156,25 +333,45 @@ CREATE TABLE public.invoices (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
   project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  -- Always the project's workspace (set by trigger)
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
   invoice_number TEXT NOT NULL,
   status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'overdue', 'cancelled')),
   issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
   due_date DATE,
+  -- Sum of line amounts after line discounts
   subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- Invoice-level discount, applied to the subtotal
+  discount_type VARCHAR(10) CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value DECIMAL(10,2),
+  discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- Named taxes with computed amounts: [{ name, rate, is_withholding, amount }]
+  taxes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Prices already include the (non-withholding) taxes
+  tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Net tax rate and the net amount added to the discounted subtotal
+  -- (negative when withholding exceeds the added taxes)
   tax_rate DECIMAL(5,2) DEFAULT 0,
   tax_amount DECIMAL(10,2) DEFAULT 0,
   total_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
   currency_code VARCHAR(3) NOT NULL DEFAULT 'USD',
   notes TEXT,
+  -- Last emailed copy (recipient, send time, email provider message id)
+  sent_to_email TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  sent_message_id TEXT,
+  -- Overdue reminder step (days overdue) most recently emailed
+  last_reminder_days INTEGER,
+  last_reminder_sent_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   -- Ensure positive amounts
   CONSTRAINT check_invoice_amounts_positive CHECK (
-    subtotal >= 0 AND tax_amount >= 0 AND total_amount >= 0
+    subtotal >= 0 AND discount_amount >= 0 AND discount_amount <= subtotal AND total_amount >= 0
   ),
-  -- Ensure total matches subtotal + tax
+  -- Ensure total matches subtotal - discount + tax
   CONSTRAINT check_invoice_total_calculation CHECK (
-    total_amount = subtotal + tax_amount
+    total_amount = subtotal - discount_amount + tax_amount
   )
 );
 
@@ -188,18 +385,106 @@ CREATE TABLE public.invoice_items (
   quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
   unit_price DECIMAL(10,2) NOT NULL,
   total_cost DECIMAL(10,2) NOT NULL,
+  -- Line discount; the line amount is total_cost - discount_amount
+  discount_type VARCHAR(10) CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value DECIMAL(10,2),
+  discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
   rate_type rate_type DEFAULT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   -- Ensure positive amounts
   CONSTRAINT check_invoice_item_amounts_positive CHECK (
     quantity > 0 AND unit_price >= 0 AND total_cost >= 0
   ),
+  -- Ensure the discount never exceeds the line total
+  CONSTRAINT check_invoice_item_discount CHECK (
+    discount_amount >= 0 AND discount_amount <= total_cost
+  ),
   -- Ensure total matches quantity * unit_price
   CONSTRAINT check_invoice_item_total_calculation CHECK (
     total_cost = quantity * unit_price
   )
 );
 
+-- Create invoice_payments table (amounts received against an invoice)
+CREATE TABLE public.invoice_payments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  method VARCHAR(20) NOT NULL DEFAULT 'bank_transfer' CHECK (method IN ('bank_transfer', 'card', 'cash', 'check', 'paypal', 'other')),
+  -- Transaction id, check number, etc.
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_invoice_payment_amount_positive CHECK (amount > 0)
+);
+
+-- Create invoice_schedules table (recurring draft invoices generated by cron)
+CREATE TABLE public.invoice_schedules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'biweekly', 'custom')),
+  -- Only used by custom schedules
+  interval_days INTEGER,
+  -- previous_period: the period that just ended; since_last_run: from the last run up to the day before this one
+  date_range_rule VARCHAR(20) NOT NULL DEFAULT 'previous_period' CHECK (date_range_rule IN ('previous_period', 'since_last_run')),
+  tax_rate DECIMAL(5,2) DEFAULT 0,
+  due_in_days INTEGER,
+  -- Supports {period_start}, {period_end} and {project_name} placeholders
+  notes_template TEXT,
+  include_time_entry_notes BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_on DATE NOT NULL,
+  last_run_on DATE,
+  last_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  -- Why the last run did not create an invoice (cleared on success)
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_invoice_schedule_interval CHECK (
+    (frequency = 'custom' AND interval_days BETWEEN 1 AND 365) OR
+    (frequency <> 'custom' AND interval_days IS NULL)
+  ),
+  CONSTRAINT check_invoice_schedule_tax_rate CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  CONSTRAINT check_invoice_schedule_due_in_days CHECK (
+    due_in_days IS NULL OR due_in_days BETWEEN 0 AND 365
+  )
+);
+
+-- Create client_portal_links table (read access for one client, opened with the token)
+CREATE TABLE public.client_portal_links (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  -- NULL never expires
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create project_report_shares table (read-only time report of a project, opened with the token)
+CREATE TABLE public.project_report_shares (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Whole calendar days in time_zone
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  hide_rates BOOLEAN NOT NULL DEFAULT FALSE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT project_report_shares_range_check CHECK (from_date <= to_date)
+);
+
 -- Create user_activity_log table
 CREATE TABLE public.user_activity_log (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -230,6 +515,15 @@ CREATE INDEX idx_time_entries_user_status ON public.time_entries(user_id, timer_
 CREATE INDEX idx_time_entries_task_status ON public.time_entries(task_id, timer_status);
 CREATE INDEX idx_time_entries_created_at ON public.time_entries(created_at);
 CREATE INDEX idx_time_entries_start_time ON public.time_entries(start_time);
+CREATE INDEX idx_time_entries_auto_stop_pending ON public.time_entries(user_id)
+  WHERE auto_stop_reason IS NOT NULL AND auto_stop_notified_at IS NULL;
+CREATE INDEX idx_time_entry_segments_time_entry_id ON public.time_entry_segments(time_entry_id);
+CREATE INDEX idx_time_entry_segments_user_started ON public.time_entry_segments(user_id, started_at);
+-- A timer has at most one open segment
+CREATE UNIQUE INDEX idx_time_entry_segments_open ON public.time_entry_segments(time_entry_id)
+WHERE ended_at IS NULL;
+CREATE INDEX idx_focus_intervals_task_id ON public.focus_intervals(task_id);
+CREATE INDEX idx_focus_intervals_user_completed ON public.focus_intervals(user_id, completed_at);
 CREATE INDEX idx_work_sessions_user_id ON public.work_sessions(user_id);
 CREATE INDEX idx_work_sessions_status ON public.work_sessions(status);
 CREATE INDEX idx_work_sessions_start_time ON public.work_sessions(start_time);
@@ -242,6 +536,31 @@ CREATE INDEX idx_invoices_issue_date ON public.invoices(issue_date);
 CREATE INDEX idx_invoices_user_invoice_number ON public.invoices(user_id, invoice_number);
 CREATE INDEX idx_invoice_items_invoice_id ON public.invoice_items(invoice_id);
 CREATE INDEX idx_invoice_items_task_id ON public.invoice_items(task_id);
+CREATE INDEX idx_invoice_payments_invoice_id ON public.invoice_payments(invoice_id);
+CREATE INDEX idx_invoice_payments_user_id ON public.invoice_payments(user_id);
+CREATE INDEX idx_invoice_schedules_user_id ON public.invoice_schedules(user_id);
+CREATE INDEX idx_invoice_schedules_project_id ON public.invoice_schedules(project_id);
+CREATE INDEX idx_invoice_schedules_due ON public.invoice_schedules(next_run_on)
+WHERE is_active = TRUE;
+-- Workspace indexes
+CREATE UNIQUE INDEX idx_workspaces_personal ON public.workspaces(owner_id)
+WHERE is_personal;
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+-- A workspace has exactly one owner
+CREATE UNIQUE INDEX idx_workspace_members_owner ON public.workspace_members(workspace_id)
+WHERE role = 'owner';
+CREATE UNIQUE INDEX idx_workspace_invitations_pending ON public.workspace_invitations(workspace_id, email)
+WHERE accepted_at IS NULL;
+
+CREATE INDEX idx_projects_workspace_id ON public.projects(workspace_id);
+CREATE INDEX idx_tasks_workspace_id ON public.tasks(workspace_id);
+CREATE INDEX idx_time_entries_workspace_id ON public.time_entries(workspace_id);
+CREATE INDEX idx_invoices_workspace_id ON public.invoices(workspace_id);
+CREATE INDEX idx_tasks_assignee ON public.tasks(assignee);
+CREATE UNIQUE INDEX idx_clients_workspace_name ON public.clients(workspace_id, lower(name));
+CREATE INDEX idx_projects_client_id ON public.projects(client_id);
+CREATE INDEX idx_client_portal_links_client_id ON public.client_portal_links(client_id);
+CREATE INDEX idx_project_report_shares_project_id ON public.project_report_shares(project_id);
 -- Account deletion cleanup index
 CREATE INDEX idx_users_deletion_confirmed ON public.users(deletion_confirmed_at) 
 WHERE deletion_confirmed_at IS NOT NULL;
@@ -260,12 +579,22 @@ WHERE user_deleted_at IS NOT NULL;
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.time_entry_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.focus_intervals ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.work_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_portal_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_report_shares ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_activity_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_fs_entitlement ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.fs_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -286,43 +615,167 @@ CREATE POLICY "Users can delete own profile" ON public.users
 CREATE POLICY "Users can view own Freemius entitlements" ON public.user_fs_entitlement
   FOR SELECT USING ((SELECT auth.uid()) = user_id);
 
--- RLS Policies for projects table
-CREATE POLICY "Users can view own projects" ON public.projects
-  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+-- RLS Policies for workspaces table (the owner check lets INSERT ... RETURNING
+-- see the new row before the owner membership exists)
+CREATE POLICY "Members can view workspaces" ON public.workspaces
+  FOR SELECT USING (
+    (SELECT auth.uid()) = owner_id OR public.workspace_role(id) IS NOT NULL
+  );
 
-CREATE POLICY "Users can insert own projects" ON public.projects
-  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Users can create shared workspaces" ON public.workspaces
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = owner_id AND NOT is_personal);
 
-CREATE POLICY "Users can update own projects" ON public.projects
-  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Admins can update workspaces" ON public.workspaces
+  FOR UPDATE USING (public.workspace_role(id) IN ('owner', 'admin'))
+  WITH CHECK (public.workspace_role(id) IN ('owner', 'admin'));
 
-CREATE POLICY "Users can delete own projects" ON public.projects
-  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+-- Members rename workspaces and nothing else: changing owner_id or
+-- is_personal would let an admin take a workspace over
+REVOKE UPDATE ON public.workspaces FROM anon, authenticated;
+GRANT UPDATE (name) ON public.workspaces TO authenticated;
 
--- RLS Policies for tasks table
-CREATE POLICY "Users can view own tasks" ON public.tasks
-  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Owners can delete shared workspaces" ON public.workspaces
+  FOR DELETE USING (public.workspace_role(id) = 'owner' AND NOT is_personal);
 
-CREATE POLICY "Users can insert own tasks" ON public.tasks
-  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+-- Workspace members (added by the owner trigger and by accepted invitations)
+CREATE POLICY "Members can view workspace members" ON public.workspace_members
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
 
-CREATE POLICY "Users can update own tasks" ON public.tasks
-  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Admins can change member roles" ON public.workspace_members
+  FOR UPDATE USING (
+    public.workspace_role(workspace_id) IN ('owner', 'admin') AND role <> 'owner'
+  ) WITH CHECK (
+    public.workspace_role(workspace_id) IN ('owner', 'admin') AND role <> 'owner'
+  );
 
-CREATE POLICY "Users can delete own tasks" ON public.tasks
-  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+-- Admins change roles and nothing else: moving a membership to another
+-- workspace_id or user_id would let them join (or add anyone to) a workspace
+-- they do not run
+REVOKE UPDATE ON public.workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+CREATE POLICY "Admins can remove members and members can leave" ON public.workspace_members
+  FOR DELETE USING (
+    role <> 'owner' AND (
+      public.workspace_role(workspace_id) IN ('owner', 'admin')
+      OR (SELECT auth.uid()) = user_id
+    )
+  );
+
+-- Workspace invitations (accepted through the API with the invitation token)
+CREATE POLICY "Admins can view invitations" ON public.workspace_invitations
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create invitations" ON public.workspace_invitations
+  FOR INSERT WITH CHECK (
+    public.workspace_role(workspace_id) IN ('owner', 'admin')
+    AND (SELECT auth.uid()) = invited_by
+  );
+
+CREATE POLICY "Admins can delete invitations" ON public.workspace_invitations
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- RLS Policies for projects table (everyone in the workspace reads, owners
+-- and admins change)
+CREATE POLICY "Members can view workspace projects" ON public.projects
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can insert workspace projects" ON public.projects
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update workspace projects" ON public.projects
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete workspace projects" ON public.projects
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- RLS Policies for clients table (owners and admins change)
+CREATE POLICY "Members can view workspace clients" ON public.clients
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can insert workspace clients" ON public.clients
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update workspace clients" ON public.clients
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete workspace clients" ON public.clients
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- RLS Policies for tasks table (viewers cannot change)
+CREATE POLICY "Members can view workspace tasks" ON public.tasks
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members can insert workspace tasks" ON public.tasks
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
 
--- RLS Policies for time_entries table
+CREATE POLICY "Members can update workspace tasks" ON public.tasks
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY "Members can delete workspace tasks" ON public.tasks
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin', 'member'));
+
+-- RLS Policies for time_entries table (per user; the workspace can read them)
 CREATE POLICY "Users can view own time entries" ON public.time_entries
   FOR SELECT USING ((SELECT auth.uid()) = user_id);
 
+CREATE POLICY "Members can view workspace time entries" ON public.time_entries
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+
 CREATE POLICY "Users can insert own time entries" ON public.time_entries
-  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
 
 CREATE POLICY "Users can update own time entries" ON public.time_entries
-  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+  FOR UPDATE USING (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
 
 CREATE POLICY "Users can delete own time entries" ON public.time_entries
+  FOR DELETE USING (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin', 'member')
+  );
+
+-- RLS Policies for time_entry_segments table (readable like their entry)
+CREATE POLICY "Members can view workspace time entry segments" ON public.time_entry_segments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.time_entries
+      WHERE time_entries.id = time_entry_segments.time_entry_id
+      AND public.workspace_role(time_entries.workspace_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Users can insert own time entry segments" ON public.time_entry_segments
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own time entry segments" ON public.time_entry_segments
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own time entry segments" ON public.time_entry_segments
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+-- RLS Policies for focus_intervals table
+CREATE POLICY "Users can view own focus intervals" ON public.focus_intervals
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own focus intervals" ON public.focus_intervals
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own focus intervals" ON public.focus_intervals
   FOR DELETE USING ((SELECT auth.uid()) = user_id);
 
 -- RLS Policies for work_sessions table
@@ -338,56 +791,135 @@ CREATE POLICY "Users can update own work sessions" ON public.work_sessions
 CREATE POLICY "Users can delete own work sessions" ON public.work_sessions
   FOR DELETE USING ((SELECT auth.uid()) = user_id);
 
--- RLS Policies for invoices table
-CREATE POLICY "Users can view own invoices" ON public.invoices
-  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+-- RLS Policies for invoices, invoice_items and invoice_payments tables
+-- (everyone in the workspace reads, owners and admins change)
+CREATE POLICY "Members can view workspace invoices" ON public.invoices
+  FOR SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
 
-CREATE POLICY "Users can insert own invoices" ON public.invoices
-  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Admins can insert workspace invoices" ON public.invoices
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
 
-CREATE POLICY "Users can update own invoices" ON public.invoices
-  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Admins can update workspace invoices" ON public.invoices
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
 
-CREATE POLICY "Users can delete own invoices" ON public.invoices
-  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+CREATE POLICY "Admins can delete workspace invoices" ON public.invoices
+  FOR DELETE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
 
--- RLS Policies for invoice_items table
-CREATE POLICY "Users can view own invoice items" ON public.invoice_items
+CREATE POLICY "Members can view workspace invoice items" ON public.invoice_items
   FOR SELECT USING (
     EXISTS (
-      SELECT 1 FROM public.invoices 
-      WHERE invoices.id = invoice_items.invoice_id 
-      AND invoices.user_id = (SELECT auth.uid())
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IS NOT NULL
     )
   );
 
-CREATE POLICY "Users can insert own invoice items" ON public.invoice_items
+CREATE POLICY "Admins can insert workspace invoice items" ON public.invoice_items
   FOR INSERT WITH CHECK (
     EXISTS (
-      SELECT 1 FROM public.invoices 
-      WHERE invoices.id = invoice_items.invoice_id 
-      AND invoices.user_id = (SELECT auth.uid())
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update workspace invoice items" ON public.invoice_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can delete workspace invoice items" ON public.invoice_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Members can view workspace invoice payments" ON public.invoice_payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IS NOT NULL
     )
   );
 
-CREATE POLICY "Users can update own invoice items" ON public.invoice_items
+CREATE POLICY "Admins can insert workspace invoice payments" ON public.invoice_payments
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update workspace invoice payments" ON public.invoice_payments
   FOR UPDATE USING (
     EXISTS (
-      SELECT 1 FROM public.invoices 
-      WHERE invoices.id = invoice_items.invoice_id 
-      AND invoices.user_id = (SELECT auth.uid())
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
     )
   );
 
-CREATE POLICY "Users can delete own invoice items" ON public.invoice_items
+CREATE POLICY "Admins can delete workspace invoice payments" ON public.invoice_payments
   FOR DELETE USING (
     EXISTS (
-      SELECT 1 FROM public.invoices 
-      WHERE invoices.id = invoice_items.invoice_id 
-      AND invoices.user_id = (SELECT auth.uid())
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_payments.invoice_id
+      AND public.workspace_role(invoices.workspace_id) IN ('owner', 'admin')
     )
   );
 
+-- RLS Policies for invoice_schedules table
+CREATE POLICY "Users can view own invoice schedules" ON public.invoice_schedules
+  FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own invoice schedules" ON public.invoice_schedules
+  FOR INSERT WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own invoice schedules" ON public.invoice_schedules
+  FOR UPDATE USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own invoice schedules" ON public.invoice_schedules
+  FOR DELETE USING ((SELECT auth.uid()) = user_id);
+
+-- RLS Policies for client_portal_links table (the portal reads them with the service role)
+CREATE POLICY "Admins can view client portal links" ON public.client_portal_links
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create client portal links" ON public.client_portal_links
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = created_by
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update client portal links" ON public.client_portal_links
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- RLS Policies for project_report_shares table (the shared report reads them with the service role)
+CREATE POLICY "Admins can view project report shares" ON public.project_report_shares
+  FOR SELECT USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can create project report shares" ON public.project_report_shares
+  FOR INSERT WITH CHECK (
+    (SELECT auth.uid()) = created_by
+    AND public.workspace_role(workspace_id) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Admins can update project report shares" ON public.project_report_shares
+  FOR UPDATE USING (public.workspace_role(workspace_id) IN ('owner', 'admin'));
+
 -- RLS Policies for user_activity_log table
 -- Users can view their own activity logs (only when user_id is not NULL)
 CREATE POLICY "Users can view own activity logs" ON public.user_activity_log
@@ -422,6 +954,9 @@ $$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON public.users
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_clients_updated_at BEFORE UPDATE ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON public.projects
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -437,6 +972,263 @@ CREATE TRIGGER update_work_sessions_updated_at BEFORE UPDATE ON public.work_sess
 CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON public.invoices
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_invoice_payments_updated_at BEFORE UPDATE ON public.invoice_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoice_schedules_updated_at BEFORE UPDATE ON public.invoice_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Workspace triggers: owner membership, personal workspace per user, and the
+-- project's workspace on tasks, time entries and invoices
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_personal_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspaces (name, owner_id, is_personal)
+  VALUES ('Personal', NEW.id, TRUE);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tasks, time entries and invoices always sit in their project's workspace
+CREATE OR REPLACE FUNCTION public.set_workspace_from_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT workspace_id INTO NEW.workspace_id
+  FROM public.projects WHERE id = NEW.project_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.move_project_children_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  UPDATE public.time_entries SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  UPDATE public.invoices SET workspace_id = NEW.workspace_id WHERE project_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Before an account is deleted (owner_id is ON DELETE RESTRICT): shared
+-- workspaces pass to their longest-standing admin, and the personal one and
+-- shared ones nobody else is in are deleted. A shared workspace with members
+-- but no admin refuses the deletion until the owner makes someone admin.
+CREATE OR REPLACE FUNCTION public.release_owned_workspaces(target_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  owned RECORD;
+  heir UUID;
+BEGIN
+  FOR owned IN
+    SELECT id, name, is_personal FROM public.workspaces WHERE owner_id = target_user_id
+  LOOP
+    heir := NULL;
+    IF NOT owned.is_personal THEN
+      SELECT user_id INTO heir FROM public.workspace_members
+      WHERE workspace_id = owned.id AND role = 'admin'
+      ORDER BY created_at, user_id
+      LIMIT 1;
+
+      IF heir IS NULL AND EXISTS (
+        SELECT 1 FROM public.workspace_members
+        WHERE workspace_id = owned.id AND user_id <> target_user_id
+      ) THEN
+        RAISE EXCEPTION 'Workspace "%" has members but no admin to take it over', owned.name;
+      END IF;
+    END IF;
+
+    IF heir IS NULL THEN
+      DELETE FROM public.workspaces WHERE id = owned.id;
+    ELSE
+      DELETE FROM public.workspace_members
+      WHERE workspace_id = owned.id AND user_id = target_user_id;
+      UPDATE public.workspace_members SET role = 'owner'
+      WHERE workspace_id = owned.id AND user_id = heir;
+      UPDATE public.workspaces SET owner_id = heir WHERE id = owned.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the account cleanup job (service role) releases workspaces
+REVOKE ALL ON FUNCTION public.release_owned_workspaces(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_owned_workspaces(UUID) TO service_role;
+
+-- Tasks are assigned to workspace members, so leaving unassigns them
+CREATE OR REPLACE FUNCTION public.unassign_removed_workspace_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks SET assignee = NULL
+  WHERE workspace_id = OLD.workspace_id AND assignee = OLD.user_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tasks are assigned to members of their workspace only. Runs after
+-- set_tasks_workspace (triggers fire in name order), so NEW.workspace_id is
+-- the project's workspace
+CREATE OR REPLACE FUNCTION public.check_task_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignee IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = NEW.workspace_id AND m.user_id = NEW.assignee
+  ) THEN
+    -- A task moved with its project to a workspace the assignee is not in
+    IF TG_OP = 'UPDATE' AND NEW.assignee IS NOT DISTINCT FROM OLD.assignee THEN
+      NEW.assignee := NULL;
+    ELSE
+      RAISE EXCEPTION 'Tasks can only be assigned to members of their workspace'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Projects copy their client's details; projects inserted with only a client
+-- name (CSV import, account restore) link to that client, created if missing
+CREATE OR REPLACE FUNCTION public.link_project_client()
+RETURNS TRIGGER AS $$
+DECLARE
+  linked public.clients%ROWTYPE;
+BEGIN
+  IF NEW.client_id IS NULL AND TG_OP = 'INSERT' AND btrim(COALESCE(NEW.client_name, '')) <> '' THEN
+    INSERT INTO public.clients (workspace_id, user_id, name, email, address, phone)
+    VALUES (
+      NEW.workspace_id, NEW.user_id, btrim(NEW.client_name),
+      NULLIF(btrim(NEW.client_email), ''), NULLIF(btrim(NEW.client_address), ''),
+      NULLIF(btrim(NEW.client_phone), '')
+    )
+    ON CONFLICT (workspace_id, lower(name)) DO NOTHING;
+
+    SELECT id INTO NEW.client_id FROM public.clients
+    WHERE workspace_id = NEW.workspace_id AND lower(name) = lower(btrim(NEW.client_name));
+  END IF;
+
+  IF NEW.client_id IS NOT NULL THEN
+    SELECT * INTO linked FROM public.clients WHERE id = NEW.client_id;
+    IF linked.workspace_id IS DISTINCT FROM NEW.workspace_id THEN
+      RAISE EXCEPTION 'Client % is not in the project''s workspace', NEW.client_id;
+    END IF;
+    NEW.client_name := linked.name;
+    NEW.client_email := linked.email;
+    NEW.client_address := linked.address;
+    NEW.client_phone := linked.phone;
+  ELSIF TG_OP = 'UPDATE' AND OLD.client_id IS NOT NULL THEN
+    -- Unlinked (or the client was deleted)
+    NEW.client_name := NULL;
+    NEW.client_email := NULL;
+    NEW.client_address := NULL;
+    NEW.client_phone := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_client_projects()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.projects SET
+    client_name = NEW.name,
+    client_email = NEW.email,
+    client_address = NEW.address,
+    client_phone = NEW.phone
+  WHERE client_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_workspace_owner_after_insert
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+
+CREATE TRIGGER create_personal_workspace_after_user_insert
+  AFTER INSERT ON public.users
+  FOR EACH ROW EXECUTE FUNCTION create_personal_workspace();
+
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_tasks_workspace BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+CREATE TRIGGER set_time_entries_workspace BEFORE INSERT OR UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+CREATE TRIGGER set_invoices_workspace BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_project();
+
+CREATE TRIGGER move_project_children_workspace AFTER UPDATE OF workspace_id ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION move_project_children_workspace();
+
+CREATE TRIGGER unassign_removed_workspace_member
+  AFTER DELETE ON public.workspace_members
+  FOR EACH ROW EXECUTE FUNCTION unassign_removed_workspace_member();
+
+CREATE TRIGGER validate_task_assignee BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION check_task_assignee();
+
+CREATE TRIGGER link_project_client BEFORE INSERT OR UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION link_project_client();
+
+CREATE TRIGGER sync_client_projects AFTER UPDATE OF name, email, address, phone ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION sync_client_projects();
+
+-- Time and invoiced amounts per client. Invoices count once sent (drafts and
+-- cancelled invoices are left out); amounts are grouped by currency.
+CREATE OR REPLACE FUNCTION public.get_client_totals(target_workspace_id UUID)
+RETURNS TABLE (
+  client_id UUID,
+  project_count BIGINT,
+  tracked_seconds BIGINT,
+  invoiced JSONB
+) AS $$
+  SELECT
+    c.id,
+    (SELECT COUNT(*) FROM public.projects p WHERE p.client_id = c.id),
+    (
+      SELECT COALESCE(SUM(e.duration_seconds), 0)::BIGINT
+      FROM public.time_entries e
+      JOIN public.projects p ON p.id = e.project_id
+      WHERE p.client_id = c.id AND e.timer_status = 'stopped'
+    ),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'currency_code', t.currency_code,
+          'invoiced', t.invoiced,
+          'paid', t.paid
+        ) ORDER BY t.currency_code
+      )
+      FROM (
+        SELECT
+          i.currency_code,
+          SUM(i.total_amount) AS invoiced,
+          COALESCE(SUM((
+            SELECT SUM(pay.amount) FROM public.invoice_payments pay
+            WHERE pay.invoice_id = i.id
+          )), 0) AS paid
+        FROM public.invoices i
+        JOIN public.projects p ON p.id = i.project_id
+        WHERE p.client_id = c.id AND i.status NOT IN ('draft', 'cancelled')
+        GROUP BY i.currency_code
+      ) t
+    ), '[]'::JSONB)
+  FROM public.clients c
+  WHERE c.workspace_id = target_workspace_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
 -- Create function to set user_deleted_at on activity logs when user is deleted
 CREATE OR REPLACE FUNCTION set_user_deleted_at_on_logs()
 RETURNS TRIGGER AS $$
@@ -456,3 +1248,182 @@ CREATE TRIGGER set_user_deleted_at_before_user_delete
   BEFORE DELETE ON public.users
   FOR EACH ROW
   EXECUTE FUNCTION set_user_deleted_at_on_logs();
+
+-- Restore an Orasan export into the signed-in account in one transaction.
+-- The API remaps ids and checks conflicts first; RLS applies to every row.
+CREATE OR REPLACE FUNCTION public.restore_account_data(payload JSONB)
+RETURNS VOID AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  current_profile public.users;
+  restored_profile public.users;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  -- Profile settings: only the keys present in the payload are changed
+  IF payload ? 'user' THEN
+    SELECT * INTO current_profile FROM public.users WHERE id = current_user_id;
+    restored_profile := jsonb_populate_record(current_profile, payload->'user');
+
+    UPDATE public.users SET
+      name = restored_profile.name,
+      business_name = restored_profile.business_name,
+      business_email = restored_profile.business_email,
+      business_address = restored_profile.business_address,
+      business_phone = restored_profile.business_phone,
+      tax_id = restored_profile.tax_id,
+      invoice_reminders_enabled = restored_profile.invoice_reminders_enabled,
+      invoice_reminder_days = restored_profile.invoice_reminder_days,
+      invoice_number_prefix = restored_profile.invoice_number_prefix,
+      invoice_number_padding = restored_profile.invoice_number_padding,
+      invoice_number_next = restored_profile.invoice_number_next,
+      invoice_number_reset_yearly = restored_profile.invoice_number_reset_yearly,
+      invoice_number_year = restored_profile.invoice_number_year,
+      idle_timeout_minutes = restored_profile.idle_timeout_minutes,
+      focus_work_minutes = restored_profile.focus_work_minutes,
+      focus_break_minutes = restored_profile.focus_break_minutes,
+      focus_notifications_enabled = restored_profile.focus_notifications_enabled,
+      timer_max_run_hours = restored_profile.timer_max_run_hours,
+      timer_auto_stop_time = restored_profile.timer_auto_stop_time,
+      timer_weekend_behavior = restored_profile.timer_weekend_behavior,
+      time_zone = restored_profile.time_zone,
+      week_start = restored_profile.week_start
+    WHERE id = current_user_id;
+  END IF;
+
+  INSERT INTO public.projects (
+    id, name, description, rate_type, price, currency_code, status, user_id,
+    client_name, client_email, client_address, client_phone, created_at, updated_at
+  )
+  SELECT
+    id, name, description, rate_type, price, currency_code, status, user_id,
+    client_name, client_email, client_address, client_phone, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.projects, COALESCE(payload->'projects', '[]'));
+
+  INSERT INTO public.tasks (
+    id, name, description, project_id, user_id, status, priority, due_date,
+    assignee, rate_type, price, created_at, updated_at
+  )
+  SELECT
+    id, name, description, project_id, user_id, status, priority, due_date,
+    assignee, rate_type, price, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.tasks, COALESCE(payload->'tasks', '[]'));
+
+  INSERT INTO public.time_entries (
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, running_since, description, auto_stop_reason,
+    auto_stop_notified_at, timesheet_adjustment, created_at, updated_at
+  )
+  SELECT
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, running_since, description, auto_stop_reason,
+    auto_stop_notified_at, timesheet_adjustment, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.time_entries, COALESCE(payload->'time_entries', '[]'));
+
+  INSERT INTO public.time_entry_segments (
+    id, time_entry_id, user_id, started_at, ended_at, created_at
+  )
+  SELECT id, time_entry_id, user_id, started_at, ended_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.time_entry_segments, COALESCE(payload->'time_entry_segments', '[]'));
+
+  INSERT INTO public.focus_intervals (
+    id, user_id, task_id, project_id, time_entry_id, started_at, completed_at, created_at
+  )
+  SELECT id, user_id, task_id, project_id, time_entry_id, started_at, completed_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.focus_intervals, COALESCE(payload->'focus_intervals', '[]'));
+
+  INSERT INTO public.work_sessions (
+    id, user_id, start_time, end_time, duration_seconds, idle_seconds, status,
+    created_at, updated_at
+  )
+  SELECT
+    id, user_id, start_time, end_time, duration_seconds, idle_seconds, status,
+    created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.work_sessions, COALESCE(payload->'work_sessions', '[]'));
+
+  INSERT INTO public.invoices (
+    id, user_id, project_id, invoice_number, status, issue_date, due_date,
+    subtotal, discount_type, discount_value, discount_amount, taxes,
+    tax_inclusive, tax_rate, tax_amount, total_amount, currency_code, notes,
+    sent_to_email, sent_at, sent_message_id, last_reminder_days,
+    last_reminder_sent_at, created_at, updated_at
+  )
+  SELECT
+    id, user_id, project_id, invoice_number, status, issue_date, due_date,
+    subtotal, discount_type, discount_value, discount_amount, taxes,
+    tax_inclusive, tax_rate, tax_amount, total_amount, currency_code, notes,
+    sent_to_email, sent_at, sent_message_id, last_reminder_days,
+    last_reminder_sent_at, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.invoices, COALESCE(payload->'invoices', '[]'));
+
+  INSERT INTO public.invoice_items (
+    id, invoice_id, task_id, name, description, quantity, unit_price,
+    total_cost, discount_type, discount_value, discount_amount, rate_type, created_at
+  )
+  SELECT
+    id, invoice_id, task_id, name, description, quantity, unit_price,
+    total_cost, discount_type, discount_value, discount_amount, rate_type, created_at
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, COALESCE(payload->'invoice_items', '[]'));
+
+  INSERT INTO public.invoice_payments (
+    id, user_id, invoice_id, amount, paid_on, method, reference, created_at, updated_at
+  )
+  SELECT id, user_id, invoice_id, amount, paid_on, method, reference, created_at, updated_at
+  FROM jsonb_populate_recordset(NULL::public.invoice_payments, COALESCE(payload->'invoice_payments', '[]'));
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restore_account_data(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_account_data(JSONB) TO authenticated;
+
+-- Saves a checked CSV import (new projects, tasks and time entries) in one
+-- transaction, as the caller
+CREATE OR REPLACE FUNCTION public.import_time_entries(payload JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.projects (
+    id, name, client_name, rate_type, price, currency_code, status, user_id,
+    workspace_id
+  )
+  SELECT
+    id, name, client_name, rate_type, price, currency_code, status, user_id,
+    workspace_id
+  FROM jsonb_populate_recordset(NULL::public.projects, COALESCE(payload->'projects', '[]'));
+
+  INSERT INTO public.tasks (
+    id, name, project_id, user_id, status, rate_type, price
+  )
+  SELECT id, name, project_id, user_id, status, rate_type, price
+  FROM jsonb_populate_recordset(NULL::public.tasks, COALESCE(payload->'tasks', '[]'));
+
+  INSERT INTO public.time_entries (
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, description
+  )
+  SELECT
+    id, task_id, project_id, user_id, start_time, end_time, duration_seconds,
+    timer_status, description
+  FROM jsonb_populate_recordset(NULL::public.time_entries, COALESCE(payload->'time_entries', '[]'));
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.import_time_entries(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_time_entries(JSONB) TO authenticated;
+
+-- Counts a portal view in place, so simultaneous views are never lost. The
+-- portal has no session, so only the service role may call it.
+CREATE OR REPLACE FUNCTION public.record_client_portal_view(target_link_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.client_portal_links
+  SET view_count = view_count + 1, last_viewed_at = NOW()
+  WHERE id = target_link_id;
+$$ LANGUAGE sql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_client_portal_view(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_client_portal_view(UUID) TO service_role;
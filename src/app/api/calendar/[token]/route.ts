@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  buildCalendarFeed,
+  CALENDAR_FEED_HISTORY_DAYS,
+  CalendarFeedTask,
+  CalendarFeedTimeEntry,
+  parseCalendarFeedProjectIds,
+  parseCalendarFeedToken,
+} from '@/lib/calendar-feed';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getDateSettings } from '@/lib/time-zones';
+
+/**
+ * Calendar (ICS) feed of a user's stopped time entries and the due dates of
+ * open tasks assigned to them, in workspaces they are still a member of.
+ * Calendar apps cannot sign in, so the secret token in the URL identifies the
+ * user; regenerating it in settings cuts off old URLs. Optional project_id
+ * parameters (repeated or comma-separated) limit the feed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: tokenSegment } = await params;
+    const token = parseCalendarFeedToken(tokenSegment);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: feedUser, error: userError } = await supabase
+      .from('users')
+      .select('id, name, email, time_zone, week_start')
+      .eq('calendar_feed_token', token)
+      .maybeSingle();
+
+    if (userError) {
+      console.error('Error fetching calendar feed user:', userError);
+      return NextResponse.json({ error: userError.message }, { status: 500 });
+    }
+
+    if (!feedUser) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const projectIds = parseCalendarFeedProjectIds(
+      request.nextUrl.searchParams
+    );
+    if (!projectIds) {
+      return NextResponse.json(
+        { error: 'Invalid project_id' },
+        { status: 400 }
+      );
+    }
+
+    // The admin client skips RLS, so the feed leaves out workspaces the user
+    // has left or been removed from
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', feedUser.id);
+
+    if (membershipsError) {
+      console.error(
+        'Error fetching calendar feed workspaces:',
+        membershipsError
+      );
+      return NextResponse.json(
+        { error: 'Failed to load calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    const workspaceIds = (memberships ?? []).map(row => row.workspace_id);
+    const historyStart = new Date();
+    historyStart.setDate(historyStart.getDate() - CALENDAR_FEED_HISTORY_DAYS);
+
+    let entriesQuery = supabase
+      .from('time_entries')
+      .select(
+        `
+        id,
+        start_time,
+        end_time,
+        duration_seconds,
+        description,
+        updated_at,
+        segments:time_entry_segments (id, started_at, ended_at),
+        task:task_id (
+          name
+        ),
+        project:project_id (
+          name,
+          client_name
+        )
+      `
+      )
+      .eq('user_id', feedUser.id)
+      .in('workspace_id', workspaceIds)
+      .eq('timer_status', 'stopped')
+      .not('end_time', 'is', null)
+      .gte('end_time', historyStart.toISOString())
+      .order('end_time', { ascending: true });
+
+    let tasksQuery = supabase
+      .from('tasks')
+      .select(
+        `
+        id,
+        name,
+        description,
+        due_date,
+        updated_at,
+        project:project_id (
+          name,
+          client_name
+        )
+      `
+      )
+      .eq('assignee', feedUser.id)
+      .in('workspace_id', workspaceIds)
+      .neq('status', 'completed')
+      .not('due_date', 'is', null)
+      .order('due_date', { ascending: true });
+
+    if (projectIds.length > 0) {
+      entriesQuery = entriesQuery.in('project_id', projectIds);
+      tasksQuery = tasksQuery.in('project_id', projectIds);
+    }
+
+    const [
+      { data: entries, error: entriesError },
+      { data: tasks, error: tasksError },
+    ] = await Promise.all([entriesQuery, tasksQuery]);
+
+    if (entriesError || tasksError) {
+      console.error(
+        'Error fetching calendar feed events:',
+        entriesError ?? tasksError
+      );
+      return NextResponse.json(
+        { error: 'Failed to load calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    const { timeZone } = getDateSettings(feedUser);
+    const calendar = buildCalendarFeed(
+      (entries ?? []) as unknown as CalendarFeedTimeEntry[],
+      (tasks ?? []) as unknown as CalendarFeedTask[],
+      {
+        calendarName: `Orasan · ${feedUser.name || feedUser.email}`,
+        timeZone,
+      }
+    );
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="orasan.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar feed API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
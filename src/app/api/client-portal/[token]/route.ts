@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  fetchClientPortalInvoices,
+  findClientPortalLink,
+  recordClientPortalView,
+} from '@/lib/client-portal-data';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ClientPortalResponse } from '@/types';
+
+/**
+ * Client portal: a client's invoices (drafts left out) with their balances.
+ * Clients have no account, so the secret token in the URL identifies the
+ * client; each view is counted on the link and logged for its creator.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createAdminClient();
+
+    const lookup = await findClientPortalLink(supabase, token);
+    if (lookup.error !== undefined) {
+      return NextResponse.json(
+        { error: lookup.error },
+        { status: lookup.status }
+      );
+    }
+    const { link } = lookup;
+
+    const [{ data: client, error: clientError }, { data: sharedBy }] =
+      await Promise.all([
+        supabase
+          .from('clients')
+          .select('name')
+          .eq('id', link.client_id)
+          .single(),
+        link.created_by
+          ? supabase
+              .from('users')
+              .select('business_name')
+              .eq('id', link.created_by)
+              .maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+
+    if (clientError || !client) {
+      return NextResponse.json(
+        { error: 'This link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    const invoices = await fetchClientPortalInvoices(supabase, link.client_id);
+    await recordClientPortalView(supabase, link, 'client_portal_link', link.id);
+
+    const response: ClientPortalResponse = {
+      client_name: client.name,
+      business_name: sharedBy?.business_name ?? null,
+      expires_at: link.expires_at,
+      invoices,
+    };
+    return NextResponse.json(response, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error in client portal API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
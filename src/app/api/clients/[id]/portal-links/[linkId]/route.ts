@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { parseClientPortalExpiry } from '@/lib/client-portal';
+import { getClientPortalLinksAccess } from '@/lib/client-portal-data';
+import { UpdateClientPortalLinkRequest } from '@/types';
+
+/**
+ * Changes when a portal link expires (counted from now), or revokes it.
+ * Revoked links stop working at once and cannot be restored.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id: clientId, linkId } = await params;
+    const access = await getClientPortalLinksAccess(clientId);
+    if (access.response) return access.response;
+
+    const body: UpdateClientPortalLinkRequest = await request.json();
+    const updates: { expires_at?: string | null; revoked_at?: string } = {};
+
+    if (body.revoked === true) {
+      updates.revoked_at = new Date().toISOString();
+    } else if (body.expires_in_days !== undefined) {
+      const expiry = parseClientPortalExpiry(body.expires_in_days);
+      if ('error' in expiry) {
+        return NextResponse.json({ error: expiry.error }, { status: 400 });
+      }
+      updates.expires_at = expiry.expiresAt;
+    } else {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const { data: link, error } = await access.supabase
+      .from('client_portal_links')
+      .update(updates)
+      .eq('id', linkId)
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating client portal link:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Portal link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ link });
+  } catch (error) {
+    console.error('Error in client portal link PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  generateClientPortalToken,
+  parseClientPortalExpiry,
+} from '@/lib/client-portal';
+import { getClientPortalLinksAccess } from '@/lib/client-portal-data';
+import { CreateClientPortalLinkRequest } from '@/types';
+
+/** Portal links of a client that have not been revoked, newest first */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: clientId } = await params;
+    const access = await getClientPortalLinksAccess(clientId);
+    if (access.response) return access.response;
+
+    const { data: links, error } = await access.supabase
+      .from('client_portal_links')
+      .select('*')
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching client portal links:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ links: links ?? [] });
+  } catch (error) {
+    console.error('Error in client portal links GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Creates a portal link for a client */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: clientId } = await params;
+    const access = await getClientPortalLinksAccess(clientId);
+    if (access.response) return access.response;
+
+    const body: CreateClientPortalLinkRequest = await request.json();
+    const expiry = parseClientPortalExpiry(body.expires_in_days);
+    if ('error' in expiry) {
+      return NextResponse.json({ error: expiry.error }, { status: 400 });
+    }
+
+    const { data: link, error } = await access.supabase
+      .from('client_portal_links')
+      .insert({
+        workspace_id: access.client.workspace_id,
+        client_id: clientId,
+        token: generateClientPortalToken(),
+        created_by: access.userId,
+        expires_at: expiry.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating client portal link:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    console.error('Error in client portal links POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
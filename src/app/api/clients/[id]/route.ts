@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getClientTotals,
+  getClientTotalsOrEmpty,
+  isDuplicateClientNameError,
+  parseClientInput,
+} from '@/lib/clients';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getClientWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { ClientWithTotals, UpdateClientRequest } from '@/types';
+
+/** A client with its totals and projects */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: clientId } = await params;
+
+    // RLS limits clients to the user's workspaces
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('id', clientId)
+      .single();
+
+    if (error || !client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const [{ data: projects, error: projectsError }, totals] =
+      await Promise.all([
+        supabase
+          .from('projects')
+          .select('id, name, status, currency_code, created_at')
+          .eq('client_id', clientId)
+          .order('created_at', { ascending: false }),
+        getClientTotals(supabase, client.workspace_id),
+      ]);
+
+    if (projectsError) {
+      console.error('Error fetching client projects:', projectsError);
+      return NextResponse.json(
+        { error: projectsError.message },
+        { status: 500 }
+      );
+    }
+
+    const result: ClientWithTotals = {
+      ...client,
+      totals: getClientTotalsOrEmpty(totals, client.id),
+    };
+    return NextResponse.json({ client: result, projects: projects ?? [] });
+  } catch (error) {
+    console.error('Error in client GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Updates a client (owners and admins). Its projects pick up the new details,
+ * including on invoices generated from then on.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: clientId } = await params;
+    const role = await getClientWorkspaceRole(supabase, user.id, clientId);
+    if (!role) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
+    const body: UpdateClientRequest = await request.json();
+    const parsed = parseClientInput(body, true);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (Object.keys(parsed.row).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const { data: client, error } = await supabase
+      .from('clients')
+      .update(parsed.row)
+      .eq('id', clientId)
+      .select()
+      .single();
+
+    if (isDuplicateClientNameError(error)) {
+      return NextResponse.json(
+        { error: 'A client with this name already exists' },
+        { status: 409 }
+      );
+    }
+    if (error) {
+      console.error('Error updating client:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      client,
+      message: 'Client updated successfully',
+    });
+  } catch (error) {
+    console.error('Error in client PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deletes a client (owners and admins). Clients with projects are kept so
+ * invoices do not lose their billing details; move the projects first.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: clientId } = await params;
+    const role = await getClientWorkspaceRole(supabase, user.id, clientId);
+    if (!role) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
+    const { count, error: countError } = await supabase
+      .from('projects')
+      .select('id', { count: 'exact', head: true })
+      .eq('client_id', clientId);
+
+    if (countError) {
+      console.error('Error counting client projects:', countError);
+      return NextResponse.json({ error: countError.message }, { status: 500 });
+    }
+    if (count) {
+      return NextResponse.json(
+        {
+          error: `This client has ${count} project${count === 1 ? '' : 's'}. Move them to another client before deleting it.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('id', clientId);
+
+    if (error) {
+      console.error('Error deleting client:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Client deleted successfully' });
+  } catch (error) {
+    console.error('Error in client DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
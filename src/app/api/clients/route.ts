@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getClientTotals,
+  getClientTotalsOrEmpty,
+  isDuplicateClientNameError,
+  parseClientInput,
+} from '@/lib/clients';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getActiveWorkspace,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { ClientWithTotals, CreateClientRequest } from '@/types';
+
+/** Clients of the active workspace, by name, with their totals */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    const [{ data: clients, error }, totals] = await Promise.all([
+      supabase
+        .from('clients')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .order('name', { ascending: true }),
+      getClientTotals(supabase, workspace.id),
+    ]);
+
+    if (error) {
+      console.error('Error fetching clients:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const result: ClientWithTotals[] = (clients ?? []).map(client => ({
+      ...client,
+      totals: getClientTotalsOrEmpty(totals, client.id),
+    }));
+
+    return NextResponse.json({ clients: result });
+  } catch (error) {
+    console.error('Error in clients GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Creates a client in the active workspace (owners and admins) */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    if (!hasWorkspacePermission(workspace.role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateClientRequest = await request.json();
+    const parsed = parseClientInput(body, false);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: client, error } = await supabase
+      .from('clients')
+      .insert({
+        ...parsed.row,
+        workspace_id: workspace.id,
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (isDuplicateClientNameError(error)) {
+      return NextResponse.json(
+        { error: 'A client with this name already exists' },
+        { status: 409 }
+      );
+    }
+    if (error) {
+      console.error('Error creating client:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const response: ClientWithTotals = {
+      ...client,
+      totals: getClientTotalsOrEmpty(new Map(), client.id),
+    };
+    return NextResponse.json({ client: response }, { status: 201 });
+  } catch (error) {
+    console.error('Error in clients POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
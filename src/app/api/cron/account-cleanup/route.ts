@@ -105,6 +105,20 @@ export async function GET(request: NextRequest) {
 
           // Check if 7 days have passed (account deletion time)
           if (daysSinceConfirmation >= 7) {
+            // Hand shared workspaces to an admin and drop the rest; the
+            // workspace owner key refuses the deletion until this is done
+            const { error: releaseError } = await supabase.rpc(
+              'release_owned_workspaces',
+              { target_user_id: user.id }
+            );
+            if (releaseError) {
+              console.error(
+                `Error releasing workspaces of user ${user.id}:`,
+                releaseError
+              );
+              continue;
+            }
+
             // Delete user from auth.users (this will cascade delete all related data)
             // Note: A database trigger automatically sets user_deleted_at on activity logs before user deletion
             const { error: deleteError } = await supabase.auth.admin.deleteUser(
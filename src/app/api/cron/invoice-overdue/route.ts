@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logUpdate } from '@/lib/activity-log';
+import { sendInvoiceEmail } from '@/lib/email';
+import {
+  createInvoiceReminderEmailHtml,
+  createInvoiceReminderEmailSubject,
+  getInvoiceEmailValues,
+} from '@/lib/email-templates/invoice';
+import { generateInvoicePdf } from '@/lib/invoice-pdf';
+import {
+  fetchInvoicePdfData,
+  getInvoicePdfFilename,
+} from '@/lib/invoice-pdf-data';
+import {
+  DEFAULT_INVOICE_REMINDER_DAYS,
+  getDaysOverdue,
+  getDueReminderStep,
+  normalizeInvoiceReminderDays,
+} from '@/lib/invoice-reminders';
+import { getTodayScheduleDate } from '@/lib/invoice-schedules';
+import { canTransitionInvoiceStatus } from '@/lib/invoice-utils';
+import { invoiceMutationAllowedForTier } from '@/lib/subscription-enforcement';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { User } from '@/types';
+
+/**
+ * Overdue invoices cron job
+ * Runs daily and:
+ * 1. Moves sent invoices whose due date has passed to overdue (logged as an UPDATE activity)
+ * 2. For Pro users with reminders enabled, emails the client when an overdue invoice
+ *    reaches the next step of the user's reminder sequence (e.g. 3, 7, 14 days overdue)
+ *
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET is not configured');
+      return NextResponse.json(
+        { error: 'Cron job not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Check authorization header (Vercel Cron sends: Authorization: Bearer <CRON_SECRET>)
+    const expectedAuth = `Bearer ${cronSecret}`;
+    if (authHeader !== expectedAuth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const today = getTodayScheduleDate();
+
+    // Step 1: sent invoices past their due date become overdue
+    const { data: pastDueInvoices, error: pastDueError } = await supabase
+      .from('invoices')
+      .select('id, user_id, status')
+      .eq('status', 'sent')
+      .not('due_date', 'is', null)
+      .lt('due_date', today);
+
+    if (pastDueError) {
+      console.error('Error fetching past due invoices:', pastDueError);
+      return NextResponse.json(
+        { error: 'Failed to fetch past due invoices' },
+        { status: 500 }
+      );
+    }
+
+    let markedOverdue = 0;
+
+    for (const invoice of pastDueInvoices ?? []) {
+      if (!canTransitionInvoiceStatus(invoice.status, 'overdue')) {
+        continue;
+      }
+
+      // Guard on the status so an invoice paid in the meantime is left alone
+      const { data: updated, error: updateError } = await supabase
+        .from('invoices')
+        .update({ status: 'overdue' })
+        .eq('id', invoice.id)
+        .eq('status', invoice.status)
+        .select('id');
+
+      if (updateError) {
+        console.error(
+          `Error marking invoice ${invoice.id} as overdue:`,
+          updateError
+        );
+        continue;
+      }
+
+      if (updated && updated.length > 0) {
+        markedOverdue++;
+        await logUpdate(invoice.user_id, 'invoice', invoice.id, supabase);
+      }
+    }
+
+    // Step 2: reminder emails for users who opted in
+    const { data: reminderUsers, error: usersError } = await supabase
+      .from('users')
+      .select('id, email, subscription_tier, invoice_reminder_days')
+      .eq('invoice_reminders_enabled', true);
+
+    if (usersError) {
+      console.error('Error fetching reminder settings:', usersError);
+      return NextResponse.json(
+        { error: 'Failed to fetch reminder settings' },
+        { status: 500 }
+      );
+    }
+
+    let remindersSent = 0;
+    let remindersFailed = 0;
+
+    for (const reminderUser of reminderUsers ?? []) {
+      // Emailing clients is a Pro feature; downgraded users keep their setting for later
+      if (
+        !invoiceMutationAllowedForTier(
+          (reminderUser.subscription_tier ?? 'free') as NonNullable<
+            User['subscription_tier']
+          >
+        )
+      ) {
+        continue;
+      }
+
+      const reminderDays =
+        normalizeInvoiceReminderDays(reminderUser.invoice_reminder_days) ??
+        DEFAULT_INVOICE_REMINDER_DAYS;
+
+      const { data: overdueInvoices, error: overdueError } = await supabase
+        .from('invoices')
+        .select('id, due_date, last_reminder_days, last_reminder_sent_at')
+        .eq('user_id', reminderUser.id)
+        .eq('status', 'overdue')
+        .not('due_date', 'is', null);
+
+      if (overdueError) {
+        console.error(
+          `Error fetching overdue invoices for user ${reminderUser.id}:`,
+          overdueError
+        );
+        continue;
+      }
+
+      for (const invoice of overdueInvoices ?? []) {
+        const daysOverdue = getDaysOverdue(invoice.due_date, today);
+        const step = getDueReminderStep(
+          daysOverdue,
+          reminderDays,
+          invoice.last_reminder_days
+        );
+        if (step === null) continue;
+
+        try {
+          const result = await fetchInvoicePdfData(
+            supabase,
+            reminderUser.id,
+            invoice.id
+          );
+          if ('error' in result) continue;
+
+          const { pdfData } = result;
+          const recipient = pdfData.client.client_email?.trim();
+          if (!recipient) continue;
+
+          // Claim the step first so a retried cron cannot email the client twice
+          const { data: claimed, error: claimError } = await supabase
+            .from('invoices')
+            .update({
+              last_reminder_days: step,
+              last_reminder_sent_at: new Date().toISOString(),
+            })
+            .eq('id', invoice.id)
+            .eq('status', 'overdue')
+            .or(`last_reminder_days.is.null,last_reminder_days.lt.${step}`)
+            .select('id');
+
+          if (claimError || !claimed || claimed.length === 0) {
+            if (claimError) {
+              console.error(
+                `Error claiming reminder for invoice ${invoice.id}:`,
+                claimError
+              );
+            }
+            continue;
+          }
+
+          const values = getInvoiceEmailValues(
+            pdfData,
+            reminderUser.email || 'Orasan'
+          );
+          const buffer = await generateInvoicePdf(pdfData);
+          const emailResult = await sendInvoiceEmail({
+            to: recipient,
+            replyTo: pdfData.business.business_email || reminderUser.email,
+            senderName: values.businessName,
+            subject: createInvoiceReminderEmailSubject(values, daysOverdue),
+            html: createInvoiceReminderEmailHtml(values, daysOverdue),
+            attachment: {
+              filename: getInvoicePdfFilename(
+                pdfData.invoice.invoice_number,
+                invoice.id
+              ),
+              content: buffer,
+            },
+          });
+
+          if (emailResult.success) {
+            remindersSent++;
+          } else {
+            remindersFailed++;
+            // Release the step so tomorrow's run tries again
+            await supabase
+              .from('invoices')
+              .update({
+                last_reminder_days: invoice.last_reminder_days,
+                last_reminder_sent_at: invoice.last_reminder_sent_at,
+              })
+              .eq('id', invoice.id)
+              .eq('last_reminder_days', step);
+          }
+        } catch (error) {
+          remindersFailed++;
+          console.error(
+            `Error sending reminder for invoice ${invoice.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Overdue invoices processed',
+      stats: {
+        markedOverdue,
+        totalPastDue: pastDueInvoices?.length || 0,
+        remindersSent,
+        remindersFailed,
+      },
+    });
+  } catch (error) {
+    console.error('Error in invoice overdue cron:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logCreate } from '@/lib/activity-log';
+import { createInvoiceFromTimeEntries } from '@/lib/invoice-create';
+import {
+  addScheduleDays,
+  getNextScheduleRunOn,
+  getScheduledInvoicePeriod,
+  getTodayScheduleDate,
+  renderInvoiceNotesTemplate,
+} from '@/lib/invoice-schedules';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { formatDate } from '@/lib/utils';
+import { InvoiceSchedule } from '@/types';
+
+/**
+ * Invoice schedules cron job
+ * Runs daily and, for every active schedule due today or earlier:
+ * 1. Moves next_run_on forward (claiming the run so a retried cron cannot double-bill)
+ * 2. Creates a draft invoice for the schedule's period via the POST /api/invoices logic
+ * 3. Logs the invoice creation to the activity log, or records why the run was skipped
+ *
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET is not configured');
+      return NextResponse.json(
+        { error: 'Cron job not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Check authorization header (Vercel Cron sends: Authorization: Bearer <CRON_SECRET>)
+    const expectedAuth = `Bearer ${cronSecret}`;
+    if (authHeader !== expectedAuth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const today = getTodayScheduleDate();
+
+    const { data: dueSchedules, error: fetchError } = await supabase
+      .from('invoice_schedules')
+      .select(
+        `
+        *,
+        project:project_id (
+          id,
+          name
+        )
+      `
+      )
+      .eq('is_active', true)
+      .lte('next_run_on', today)
+      .order('next_run_on', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching due invoice schedules:', fetchError);
+      return NextResponse.json(
+        { error: 'Failed to fetch invoice schedules' },
+        { status: 500 }
+      );
+    }
+
+    let invoicesCreated = 0;
+    let schedulesSkipped = 0;
+
+    for (const row of dueSchedules ?? []) {
+      const schedule = row as InvoiceSchedule & {
+        project: { id: string; name: string } | null;
+      };
+      const runOn = schedule.next_run_on;
+      const nextRunOn = getNextScheduleRunOn(schedule, runOn, today);
+
+      // Claim this run: only one cron invocation can move next_run_on off runOn
+      const { data: claimed, error: claimError } = await supabase
+        .from('invoice_schedules')
+        .update({ next_run_on: nextRunOn })
+        .eq('id', schedule.id)
+        .eq('next_run_on', runOn)
+        .select('id');
+
+      if (claimError) {
+        console.error(
+          `Error claiming invoice schedule ${schedule.id}:`,
+          claimError
+        );
+        continue;
+      }
+      if (!claimed || claimed.length === 0) {
+        continue;
+      }
+
+      let lastError: string | null = null;
+      let invoiceId: string | null = null;
+
+      try {
+        const { tier } = await getUserSubscription(supabase, schedule.user_id);
+        if (!invoiceMutationAllowedForTier(tier)) {
+          lastError = INVOICE_PRO_ONLY_ERROR_MESSAGE;
+        } else {
+          const period = getScheduledInvoicePeriod(schedule, runOn);
+          const result = await createInvoiceFromTimeEntries(
+            supabase,
+            schedule.user_id,
+            {
+              project_id: schedule.project_id,
+              issue_date: runOn,
+              due_date:
+                schedule.due_in_days != null
+                  ? addScheduleDays(runOn, schedule.due_in_days)
+                  : undefined,
+              tax_rate: Number(schedule.tax_rate) || 0,
+              notes: renderInvoiceNotesTemplate(schedule.notes_template, {
+                periodStart: formatDate(period.from),
+                periodEnd: formatDate(period.to),
+                projectName: schedule.project?.name ?? '',
+              }),
+              date_range: period,
+              include_time_entry_notes: schedule.include_time_entry_notes,
+            }
+          );
+
+          if ('error' in result) {
+            lastError = result.error;
+          } else {
+            invoiceId = result.invoice.id;
+          }
+        }
+      } catch (error) {
+        console.error(`Error running invoice schedule ${schedule.id}:`, error);
+        lastError = 'Failed to create invoice';
+      }
+
+      if (invoiceId) {
+        invoicesCreated++;
+        await logCreate(schedule.user_id, 'invoice', invoiceId, supabase);
+      } else {
+        schedulesSkipped++;
+      }
+
+      const { error: resultError } = await supabase
+        .from('invoice_schedules')
+        .update(
+          invoiceId
+            ? {
+                last_run_on: runOn,
+                last_invoice_id: invoiceId,
+                last_error: null,
+              }
+            : { last_error: lastError }
+        )
+        .eq('id', schedule.id);
+
+      if (resultError) {
+        console.error(
+          `Error recording result of invoice schedule ${schedule.id}:`,
+          resultError
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invoice schedules processed',
+      stats: {
+        invoicesCreated,
+        schedulesSkipped,
+        totalDue: dueSchedules?.length || 0,
+      },
+    });
+  } catch (error) {
+    console.error('Error in invoice schedules cron:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
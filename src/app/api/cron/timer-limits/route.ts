@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logUpdate } from '@/lib/activity-log';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { recordTimerSegment } from '@/lib/time-entry-segments';
+import { buildTimerTransition } from '@/lib/time-entry-timer';
+import {
+  getTimerAutoStop,
+  getTimerLimitRules,
+  hasTimerLimits,
+} from '@/lib/timer-limits';
+
+/**
+ * Timer limits cron job
+ * Runs every 15 minutes and, for users with a maximum run length or an
+ * auto-stop time of day:
+ * 1. Stops running timers that went past a limit, ending them at the limit so
+ *    the time after it is not counted (the open segment closes there too)
+ * 2. Flags the entry so the app shows a notice on the user's next load
+ * 3. Logs the stop as an UPDATE activity
+ *
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET for security
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET is not configured');
+      return NextResponse.json(
+        { error: 'Cron job not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Check authorization header (Vercel Cron sends: Authorization: Bearer <CRON_SECRET>)
+    const expectedAuth = `Bearer ${cronSecret}`;
+    if (authHeader !== expectedAuth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: limitUsers, error: usersError } = await supabase
+      .from('users')
+      .select(
+        'id, timer_max_run_hours, timer_auto_stop_time, timer_weekend_behavior, time_zone'
+      )
+      .or('timer_max_run_hours.not.is.null,timer_auto_stop_time.not.is.null');
+
+    if (usersError) {
+      console.error('Error fetching timer limit settings:', usersError);
+      return NextResponse.json(
+        { error: 'Failed to fetch timer limit settings' },
+        { status: 500 }
+      );
+    }
+
+    const now = new Date();
+    let checked = 0;
+    let stopped = 0;
+    let failed = 0;
+
+    for (const limitUser of limitUsers ?? []) {
+      const rules = getTimerLimitRules(limitUser);
+      if (!hasTimerLimits(rules)) continue;
+
+      const { data: runningEntries, error: entriesError } = await supabase
+        .from('time_entries')
+        .select(
+          'id, timer_status, start_time, duration_seconds, running_since, updated_at'
+        )
+        .eq('user_id', limitUser.id)
+        .eq('timer_status', 'running')
+        .not('running_since', 'is', null);
+
+      if (entriesError) {
+        console.error(
+          `Error fetching running timers for user ${limitUser.id}:`,
+          entriesError
+        );
+        failed++;
+        continue;
+      }
+
+      for (const entry of runningEntries ?? []) {
+        checked++;
+        const autoStop = getTimerAutoStop(entry.running_since, rules, now);
+        if (!autoStop) continue;
+
+        // Stop as of the limit, not the time this job happened to run
+        const transition = buildTimerTransition(entry, 'stopped', autoStop.at);
+        if (!transition || 'error' in transition) continue;
+
+        // Guard on the run so a timer paused or restarted meanwhile is left alone
+        const { data: updated, error: updateError } = await supabase
+          .from('time_entries')
+          .update({
+            ...transition.update,
+            auto_stop_reason: autoStop.reason,
+            auto_stop_notified_at: null,
+          })
+          .eq('id', entry.id)
+          .eq('timer_status', 'running')
+          .eq('running_since', entry.running_since)
+          .select('id');
+
+        if (updateError) {
+          console.error(`Error auto-stopping timer ${entry.id}:`, updateError);
+          failed++;
+          continue;
+        }
+
+        if (updated && updated.length > 0) {
+          stopped++;
+          await recordTimerSegment(
+            supabase,
+            limitUser.id,
+            entry.id,
+            entry.timer_status,
+            transition
+          );
+          await logUpdate(limitUser.id, 'time_entry', entry.id, supabase);
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Timer limits processed',
+      stats: {
+        usersWithLimits: limitUsers?.length || 0,
+        runningChecked: checked,
+        stopped,
+        failed,
+      },
+    });
+  } catch (error) {
+    console.error('Error in timer limits cron:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,19 @@ import { NextResponse } from 'next/server';
 import JSZip from 'jszip';
 
 import { logDataExport } from '@/lib/activity-log';
+import {
+  buildExportDocument,
+  DataExportRows,
+  EXPORT_SCHEMA_VERSION,
+} from '@/lib/data-export';
 import {
   checkExportThrottle,
   EXPORT_THROTTLE_CONFIG,
 } from '@/lib/export-throttle';
+import { fetchAllPages } from '@/lib/supabase/pagination';
 import { createClient } from '@/lib/supabase/server';
 import { escapeCsvValue } from '@/lib/utils';
+import { DataExportFormat } from '@/types';
 
 function toCsv(rows: Array<Record<string, unknown>>): string {
   if (!rows || rows.length === 0) {
@@ -58,6 +65,13 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const includeActivityLog =
       searchParams.get('includeActivityLog') === 'true';
+    const format = (searchParams.get('format') ?? 'zip') as DataExportFormat;
+    if (format !== 'zip' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be zip or json' },
+        { status: 400 }
+      );
+    }
 
     // Check export throttling
     const throttleResult = await checkExportThrottle(user.id);
@@ -81,197 +95,221 @@ export async function GET(request: Request) {
       );
     }
 
-    // Build queries map and resolve in parallel
-    const queries = {
-      user: supabase.from('users').select('*').eq('id', user.id).single(),
-      projects: supabase
-        .from('projects')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      tasks: supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      time_entries: supabase
-        .from('time_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      work_sessions: supabase
-        .from('work_sessions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      invoices: supabase
-        .from('invoices')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false }),
-      ...(includeActivityLog && {
-        activity_log: supabase
-          .from('user_activity_log')
+    // Every table is read page by page: PostgREST returns at most 1000 rows
+    // per request. The id breaks ties so pages never overlap.
+    type Row = Record<string, unknown>;
+    const ownRows = (table: string, orderBy: string) =>
+      fetchAllPages<Row>((from, to) =>
+        supabase
+          .from(table)
           .select('*')
           .eq('user_id', user.id)
-          .order('created_at', { ascending: false }),
+          .order(orderBy, { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, to)
+      );
+
+    const queries = {
+      projects: ownRows('projects', 'created_at'),
+      tasks: ownRows('tasks', 'created_at'),
+      time_entries: ownRows('time_entries', 'created_at'),
+      time_entry_segments: ownRows('time_entry_segments', 'started_at'),
+      focus_intervals: ownRows('focus_intervals', 'completed_at'),
+      work_sessions: ownRows('work_sessions', 'created_at'),
+      invoices: ownRows('invoices', 'created_at'),
+      // Items have no user_id; filter through their invoice
+      invoice_items: fetchAllPages<Row>((from, to) =>
+        supabase
+          .from('invoice_items')
+          .select('*, invoice:invoices!inner(user_id)')
+          .eq('invoice.user_id', user.id)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      invoice_payments: ownRows('invoice_payments', 'created_at'),
+      user_fs_entitlement: ownRows('user_fs_entitlement', 'created_at'),
+      ...(includeActivityLog && {
+        activity_log: ownRows('user_activity_log', 'created_at'),
       }),
-    } as const;
+    };
 
-    const resultsArray = await Promise.all(Object.values(queries));
-    const results = Object.fromEntries(
-      Object.keys(queries).map((k, i) => [k, resultsArray[i]])
-    ) as unknown as Record<
-      keyof typeof queries,
-      { data: unknown; error: { message: string } | null }
-    >;
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', user.id)
+      .single();
 
-    for (const res of Object.values(results)) {
-      if (res.error) {
-        return NextResponse.json({ error: res.error.message }, { status: 500 });
-      }
+    if (profileError) {
+      return NextResponse.json(
+        { error: profileError.message },
+        { status: 500 }
+      );
     }
 
-    const zip = new JSZip();
-    const root = zip.folder('export');
-    const jsonFolder = root?.folder('json');
-    const csvFolder = root?.folder('csv');
+    let results: Record<keyof typeof queries, Row[]>;
+    try {
+      const resultsArray = await Promise.all(Object.values(queries));
+      results = Object.fromEntries(
+        Object.keys(queries).map((k, i) => [k, resultsArray[i]])
+      ) as Record<keyof typeof queries, Row[]>;
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Export failed' },
+        { status: 500 }
+      );
+    }
 
-    // Add JSON files
-    jsonFolder?.file(
-      'user.json',
-      JSON.stringify(results.user.data || null, null, 2)
-    );
-    jsonFolder?.file(
-      'projects.json',
-      JSON.stringify(results.projects.data || [], null, 2)
-    );
-    jsonFolder?.file(
-      'tasks.json',
-      JSON.stringify(results.tasks.data || [], null, 2)
-    );
-    jsonFolder?.file(
-      'time_entries.json',
-      JSON.stringify(results.time_entries.data || [], null, 2)
-    );
-    jsonFolder?.file(
-      'work_sessions.json',
-      JSON.stringify(results.work_sessions.data || [], null, 2)
-    );
-    jsonFolder?.file(
-      'invoices.json',
-      JSON.stringify(results.invoices.data || [], null, 2)
-    );
+    const rows: DataExportRows = {
+      user: profile as DataExportRows['user'],
+      user_fs_entitlement:
+        results.user_fs_entitlement as unknown as DataExportRows['user_fs_entitlement'],
+      projects: results.projects as unknown as DataExportRows['projects'],
+      tasks: results.tasks as unknown as DataExportRows['tasks'],
+      time_entries:
+        results.time_entries as unknown as DataExportRows['time_entries'],
+      time_entry_segments:
+        results.time_entry_segments as unknown as DataExportRows['time_entry_segments'],
+      focus_intervals:
+        results.focus_intervals as unknown as DataExportRows['focus_intervals'],
+      work_sessions:
+        results.work_sessions as unknown as DataExportRows['work_sessions'],
+      invoices: results.invoices as unknown as DataExportRows['invoices'],
+      // Drop the joined invoice used for filtering
+      invoice_items: results.invoice_items.map(item =>
+        Object.fromEntries(
+          Object.entries(item).filter(([key]) => key !== 'invoice')
+        )
+      ) as unknown as DataExportRows['invoice_items'],
+      invoice_payments:
+        results.invoice_payments as unknown as DataExportRows['invoice_payments'],
+      ...(includeActivityLog &&
+        results.activity_log && {
+          user_activity_log:
+            results.activity_log as unknown as DataExportRows['user_activity_log'],
+        }),
+    };
+
+    const exportedAt = new Date();
+    const date = exportedAt.toISOString().slice(0, 10);
+    let content: Uint8Array | string;
+    let contentType: string;
+    let filename: string;
 
-    // Add activity log if requested
-    if (includeActivityLog && results.activity_log) {
-      jsonFolder?.file(
-        'user_activity_log.json',
-        JSON.stringify(results.activity_log.data || [], null, 2)
+    if (format === 'json') {
+      content = JSON.stringify(buildExportDocument(rows, exportedAt), null, 2);
+      contentType = 'application/json; charset=utf-8';
+      filename = `orasan-export-${date}.json`;
+    } else {
+      // Flat tables, one JSON and one CSV file each
+      const tables = (Object.keys(rows) as Array<keyof DataExportRows>).map(
+        name => {
+          const data = rows[name];
+          return {
+            name,
+            rows: (Array.isArray(data) ? data : data ? [data] : []) as Array<
+              Record<string, unknown>
+            >,
+            // The user file holds one object rather than a list
+            json: name === 'user' ? (data ?? null) : (data ?? []),
+          };
+        }
       );
-    }
 
-    // CSV files for flat tables
-    csvFolder?.file(
-      'user.csv',
-      toCsv(
-        (results.user.data ? [results.user.data] : []) as Array<
-          Record<string, unknown>
-        >
-      )
-    );
-    csvFolder?.file(
-      'projects.csv',
-      toCsv((results.projects.data as Array<Record<string, unknown>>) || [])
-    );
-    csvFolder?.file(
-      'tasks.csv',
-      toCsv((results.tasks.data as Array<Record<string, unknown>>) || [])
-    );
-    csvFolder?.file(
-      'time_entries.csv',
-      toCsv((results.time_entries.data as Array<Record<string, unknown>>) || [])
-    );
-    csvFolder?.file(
-      'work_sessions.csv',
-      toCsv(
-        (results.work_sessions.data as Array<Record<string, unknown>>) || []
-      )
-    );
-    csvFolder?.file(
-      'invoices.csv',
-      toCsv((results.invoices.data as Array<Record<string, unknown>>) || [])
-    );
+      const zip = new JSZip();
+      const root = zip.folder('export');
+      const jsonFolder = root?.folder('json');
+      const csvFolder = root?.folder('csv');
 
-    // Add activity log CSV if requested
-    if (includeActivityLog && results.activity_log) {
-      csvFolder?.file(
-        'user_activity_log.csv',
-        toCsv(
-          (results.activity_log.data as Array<Record<string, unknown>>) || []
+      for (const table of tables) {
+        jsonFolder?.file(
+          `${table.name}.json`,
+          JSON.stringify(table.json, null, 2)
+        );
+        csvFolder?.file(`${table.name}.csv`, toCsv(table.rows));
+      }
+
+      root?.file(
+        'manifest.json',
+        JSON.stringify(
+          {
+            schema_version: EXPORT_SCHEMA_VERSION,
+            exported_at: exportedAt.toISOString(),
+            tables: Object.fromEntries(
+              tables.map(table => [table.name, table.rows.length])
+            ),
+          },
+          null,
+          2
         )
       );
-    }
-
-    // README documentation
-    const readmeContents = [
-      'Orasan Data Export',
-      '',
-      'Contents:',
-      '- json/user.json',
-      '- json/projects.json',
-      '- json/tasks.json',
-      '- json/time_entries.json',
-      '- json/work_sessions.json',
-      '- json/invoices.json',
-      ...(includeActivityLog
-        ? ['- json/user_activity_log.json (optional)']
-        : []),
-      '- csv/user.csv',
-      '- csv/projects.csv',
-      '- csv/tasks.csv',
-      '- csv/time_entries.csv',
-      '- csv/work_sessions.csv',
-      '- csv/invoices.csv',
-      ...(includeActivityLog ? ['- csv/user_activity_log.csv (optional)'] : []),
-      '',
-      'Notes:',
-      '- JSON is the authoritative, lossless export.',
-      '- CSV is provided for spreadsheet users; nested fields are JSON-stringified.',
-      '- Timestamps are ISO 8601 (UTC). IDs are strings.',
-      ...(includeActivityLog
-        ? [
-            '- Activity logs are only included if requested (optional).',
-            '- Activity logs may be large and contain sensitive audit information.',
-          ]
-        : []),
-      '- Relationships:',
-      '  - tasks.project_id links tasks to projects',
-      '  - time_entries.task_id and time_entries.project_id link to tasks/projects',
-      '  - work_sessions may link to time_entries via time_entry_id (if present)',
-      '  - invoices may link to projects or users depending on schema',
-    ].join('\n');
-    root?.file('README.txt', readmeContents);
 
-    const content = await zip.generateAsync({ type: 'uint8array' });
+      // README documentation
+      const readmeContents = [
+        'Orasan Data Export',
+        '',
+        `Schema version: ${EXPORT_SCHEMA_VERSION} (also in manifest.json)`,
+        '',
+        'Contents:',
+        '- manifest.json (schema version, export time and row counts)',
+        ...tables.map(table =>
+          table.name === 'user_activity_log'
+            ? `- json/${table.name}.json (optional)`
+            : `- json/${table.name}.json`
+        ),
+        ...tables.map(table =>
+          table.name === 'user_activity_log'
+            ? `- csv/${table.name}.csv (optional)`
+            : `- csv/${table.name}.csv`
+        ),
+        '',
+        'Notes:',
+        '- JSON is the authoritative, lossless export.',
+        '- CSV is provided for spreadsheet users; nested fields are JSON-stringified.',
+        '- Timestamps are ISO 8601 (UTC). IDs are strings.',
+        '- The schema version changes only when files or fields are renamed, removed or change meaning; new fields may appear in any export.',
+        '- user_fs_entitlement holds your subscription licenses.',
+        ...(includeActivityLog
+          ? [
+              '- Activity logs are only included if requested (optional).',
+              '- Activity logs may be large and contain sensitive audit information.',
+            ]
+          : []),
+        '- Relationships:',
+        '  - tasks.project_id links tasks to projects',
+        '  - time_entries.task_id and time_entries.project_id link to tasks/projects',
+        '  - time_entry_segments.time_entry_id links each timer run to its time entry',
+        '  - focus_intervals.task_id, project_id and time_entry_id link to tasks/projects/time_entries',
+        '  - invoices.project_id links invoices to projects',
+        '  - invoice_items.invoice_id links items to invoices; invoice_items.task_id to tasks',
+        '  - invoice_payments.invoice_id links payments to invoices',
+        '',
+        'Restore:',
+        '- Upload this ZIP under Settings > Account Management to load it into another account.',
+      ].join('\n');
+      root?.file('README.txt', readmeContents);
 
-    const filename = `orasan-export-${new Date()
-      .toISOString()
-      .slice(0, 10)}.zip`;
+      content = await zip.generateAsync({ type: 'uint8array' });
+      contentType = 'application/zip';
+      filename = `orasan-export-${date}.zip`;
+    }
 
     // Log the data export activity (non-blocking)
     logDataExport(user.id).catch(error => {
       console.error('Failed to log data export activity:', error);
     });
 
-    return new NextResponse(Buffer.from(content), {
-      status: 200,
-      headers: new Headers({
-        'Content-Type': 'application/zip',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-store',
-      }),
-    });
+    return new NextResponse(
+      typeof content === 'string' ? content : Buffer.from(content),
+      {
+        status: 200,
+        headers: new Headers({
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+        }),
+      }
+    );
   } catch (error) {
     console.error('Error in export API:', error);
     return NextResponse.json(
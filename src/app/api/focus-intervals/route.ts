@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  assertProjectWritableOrThrow,
+  FREE_TIER_PROJECT_READONLY_API_MESSAGE,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import { resolveTimerActionTime } from '@/lib/time-entry-timer';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const taskId = searchParams.get('task_id');
+
+    if (!taskId) {
+      return NextResponse.json(
+        { error: 'task_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: focusIntervals, error } = await supabase
+      .from('focus_intervals')
+      .select('id, task_id, time_entry_id, started_at, completed_at')
+      .eq('user_id', user.id)
+      .eq('task_id', taskId)
+      .order('completed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching focus intervals:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ focus_intervals: focusIntervals || [] });
+  } catch (error) {
+    console.error('Error in focus intervals GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Records a focus interval that ran to the end. It completes at server time;
+ * the reported start is kept within the timer backdating limit.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const {
+      task_id: taskId,
+      time_entry_id: timeEntryId,
+      started_at: startedAt,
+    } = await request.json();
+
+    if (typeof taskId !== 'string' || !taskId) {
+      return NextResponse.json(
+        { error: 'task_id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      timeEntryId !== undefined &&
+      timeEntryId !== null &&
+      typeof timeEntryId !== 'string'
+    ) {
+      return NextResponse.json(
+        { error: 'time_entry_id must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof startedAt !== 'string' || Number.isNaN(Date.parse(startedAt))) {
+      return NextResponse.json(
+        { error: 'started_at must be a time' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the task exists in one of the user's workspaces
+    const { data: task, error: taskError } = await supabase
+      .from('tasks')
+      .select('id, project_id')
+      .eq('id', taskId)
+      .single();
+
+    if (taskError || !task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    try {
+      await assertProjectWritableOrThrow(supabase, task.project_id);
+    } catch (e) {
+      const err = e as Error & { code?: string; writableProjectIds?: string[] };
+      if (err.code === 'FREE_TIER_PROJECT_READONLY') {
+        return NextResponse.json(
+          {
+            error: FREE_TIER_PROJECT_READONLY_API_MESSAGE,
+            writable_project_ids: err.writableProjectIds ?? [],
+          },
+          { status: 403 }
+        );
+      }
+      throw e;
+    }
+
+    // The timer the interval ran on must be one of the task's entries
+    if (timeEntryId) {
+      const { data: timeEntry } = await supabase
+        .from('time_entries')
+        .select('id')
+        .eq('id', timeEntryId)
+        .eq('task_id', taskId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!timeEntry) {
+        return NextResponse.json(
+          { error: 'Time entry not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const now = new Date();
+    const { data: focusInterval, error: createError } = await supabase
+      .from('focus_intervals')
+      .insert({
+        user_id: user.id,
+        task_id: taskId,
+        project_id: task.project_id,
+        time_entry_id: timeEntryId || null,
+        started_at: resolveTimerActionTime(startedAt, null, now).toISOString(),
+        completed_at: now.toISOString(),
+      })
+      .select('id, task_id, time_entry_id, started_at, completed_at')
+      .single();
+
+    if (createError) {
+      console.error('Error recording focus interval:', createError);
+      return NextResponse.json({ error: createError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      {
+        focus_interval: focusInterval,
+        message: 'Focus interval recorded successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in focus intervals POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getInvoiceBalanceDue } from '@/lib/invoice-payments';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getInvoiceWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tier } = await getUserSubscription(supabase, user.id);
+    if (!invoiceMutationAllowedForTier(tier)) {
+      return NextResponse.json(
+        { error: INVOICE_PRO_ONLY_ERROR_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    const { id: invoiceId, paymentId } = await params;
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('invoice_payments')
+      .delete()
+      .eq('id', paymentId)
+      .eq('invoice_id', invoiceId)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting invoice payment:', deleteError);
+      return NextResponse.json({ error: deleteError.message }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    // Removing a payment from a settled invoice reopens it
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('status, total_amount, payments:invoice_payments(amount)')
+      .eq('id', invoiceId)
+      .single();
+
+    let invoiceStatus = invoice?.status ?? null;
+    if (
+      invoice?.status === 'paid' &&
+      getInvoiceBalanceDue(invoice.total_amount, invoice.payments) > 0
+    ) {
+      const { error: reopenError } = await supabase
+        .from('invoices')
+        .update({ status: 'sent' })
+        .eq('id', invoiceId)
+        .eq('status', 'paid');
+
+      if (reopenError) {
+        console.error('Error reopening invoice:', reopenError);
+      } else {
+        invoiceStatus = 'sent';
+      }
+    }
+
+    return NextResponse.json({
+      invoice_status: invoiceStatus,
+      message: 'Payment deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error in invoice payment DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getInvoiceBalanceDue,
+  markInvoicePaidIfSettled,
+  PAYABLE_INVOICE_STATUSES,
+  validateInvoicePaymentInput,
+} from '@/lib/invoice-payments';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getInvoiceWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { CreateInvoicePaymentRequest, InvoiceStatus } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: invoiceId } = await params;
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('invoice_payments')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('paid_on', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (paymentsError) {
+      console.error('Error fetching invoice payments:', paymentsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch invoice payments' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ payments: payments || [] });
+  } catch (error) {
+    console.error('Error in invoice payments GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tier } = await getUserSubscription(supabase, user.id);
+    if (!invoiceMutationAllowedForTier(tier)) {
+      return NextResponse.json(
+        { error: INVOICE_PRO_ONLY_ERROR_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    const { id: invoiceId } = await params;
+    const body: CreateInvoicePaymentRequest = await request.json();
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
+
+    const { data: invoice, error: fetchError } = await supabase
+      .from('invoices')
+      .select('id, status, total_amount, payments:invoice_payments(amount)')
+      .eq('id', invoiceId)
+      .single();
+
+    if (fetchError || !invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const currentStatus = invoice.status as InvoiceStatus;
+    if (!PAYABLE_INVOICE_STATUSES.includes(currentStatus)) {
+      return NextResponse.json(
+        {
+          error: `Cannot record a payment on a ${currentStatus} invoice`,
+          current_status: currentStatus,
+        },
+        { status: 400 }
+      );
+    }
+
+    const balanceDue = getInvoiceBalanceDue(
+      invoice.total_amount,
+      invoice.payments
+    );
+    const validationError = validateInvoicePaymentInput(body, balanceDue);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data: payment, error: insertError } = await supabase
+      .from('invoice_payments')
+      .insert({
+        user_id: user.id,
+        invoice_id: invoiceId,
+        amount: body.amount,
+        paid_on: body.paid_on,
+        method: body.method ?? 'bank_transfer',
+        reference: body.reference?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error recording invoice payment:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to record payment' },
+        { status: 500 }
+      );
+    }
+
+    const newStatus = await markInvoicePaidIfSettled(supabase, invoiceId);
+
+    return NextResponse.json(
+      {
+        payment,
+        invoice_status: newStatus ?? currentStatus,
+        message:
+          newStatus === 'paid'
+            ? 'Payment recorded; invoice is now paid'
+            : 'Payment recorded successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in invoice payments POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,132 +1,106 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { generateInvoicePdf, InvoicePdfData } from '@/lib/invoice-pdf';
+import {
+  findClientPortalInvoiceOwner,
+  findClientPortalLink,
+  recordClientPortalView,
+} from '@/lib/client-portal-data';
+import { generateInvoicePdf } from '@/lib/invoice-pdf';
+import {
+  fetchInvoicePdfData,
+  findInvoiceIssuer,
+  getInvoicePdfFilename,
+  InvoicePdfDataResult,
+} from '@/lib/invoice-pdf-data';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { createClient } from '@/lib/supabase/server';
 
+/**
+ * Downloads an invoice PDF. Workspace members sign in; clients pass their
+ * portal token as ?portal= and get their own invoices that are not drafts.
+ * Either way the PDF carries the business details of the invoice's issuer.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient();
+    const { id: invoiceId } = await params;
+    const portalToken = request.nextUrl.searchParams.get('portal');
 
-    const {
-      data: { user: authUser },
-      error: authError,
-    } = await supabase.auth.getUser();
+    let result: InvoicePdfDataResult;
+    if (portalToken) {
+      const supabase = createAdminClient();
+      const lookup = await findClientPortalLink(supabase, portalToken);
+      if (lookup.error !== undefined) {
+        return NextResponse.json(
+          { error: lookup.error },
+          { status: lookup.status }
+        );
+      }
 
-    if (authError || !authUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+      const ownerId = await findClientPortalInvoiceOwner(
+        supabase,
+        lookup.link.client_id,
+        invoiceId
+      );
+      if (!ownerId) {
+        return NextResponse.json(
+          { error: 'Invoice not found' },
+          { status: 404 }
+        );
+      }
 
-    const { id: invoiceId } = await params;
+      result = await fetchInvoicePdfData(supabase, ownerId, invoiceId);
+      if (!('error' in result)) {
+        await recordClientPortalView(
+          supabase,
+          lookup.link,
+          'invoice',
+          invoiceId
+        );
+      }
+    } else {
+      const supabase = await createClient();
 
-    // Fetch invoice with project and items (same shape as GET /api/invoices/[id])
-    const { data: invoiceRow, error: invoiceError } = await supabase
-      .from('invoices')
-      .select(
-        `
-        *,
-        project:project_id (
-          id,
-          name,
-          client_name,
-          client_email,
-          client_address,
-          client_phone
-        ),
-        items:invoice_items (
-          name,
-          quantity,
-          rate_type,
-          unit_price,
-          total_cost
-        )
-      `
-      )
-      .eq('id', invoiceId)
-      .eq('user_id', authUser.id)
-      .single();
+      const {
+        data: { user: authUser },
+        error: authError,
+      } = await supabase.auth.getUser();
 
-    if (invoiceError || !invoiceRow) {
-      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
-    }
+      if (authError || !authUser) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
 
-    // Fetch business info (user profile)
-    const { data: userRow, error: userError } = await supabase
-      .from('users')
-      .select(
-        'business_name, business_email, business_address, business_phone, tax_id'
-      )
-      .eq('id', authUser.id)
-      .single();
+      // The issuer's business details go on the PDF, whoever downloads it
+      const issuerId = await findInvoiceIssuer(supabase, invoiceId);
+      if (!issuerId) {
+        return NextResponse.json(
+          { error: 'Invoice not found' },
+          { status: 404 }
+        );
+      }
 
-    if (userError || !userRow) {
-      return NextResponse.json(
-        { error: 'User profile not found' },
-        { status: 500 }
+      result = await fetchInvoicePdfData(
+        createAdminClient(),
+        issuerId,
+        invoiceId
       );
     }
 
-    const project = invoiceRow.project as {
-      name: string;
-      client_name?: string;
-      client_email?: string;
-      client_address?: string;
-      client_phone?: string;
-    } | null;
-    const items = (invoiceRow.items ?? []) as Array<{
-      name: string;
-      quantity: number;
-      rate_type?: string | null;
-      unit_price: number;
-      total_cost: number;
-    }>;
-
-    const pdfData: InvoicePdfData = {
-      invoice: {
-        invoice_number: invoiceRow.invoice_number,
-        status: invoiceRow.status,
-        issue_date: invoiceRow.issue_date,
-        due_date: invoiceRow.due_date ?? null,
-        subtotal: Number(invoiceRow.subtotal),
-        tax_rate: Number(invoiceRow.tax_rate ?? 0),
-        tax_amount: Number(invoiceRow.tax_amount ?? 0),
-        total_amount: Number(invoiceRow.total_amount),
-        currency_code: invoiceRow.currency_code ?? 'USD',
-        notes: invoiceRow.notes ?? null,
-      },
-      items: items.map(
-        ({ name, quantity, rate_type, unit_price, total_cost }) => ({
-          name,
-          quantity,
-          rate_type: rate_type ?? null,
-          unit_price,
-          total_cost,
-        })
-      ),
-      business: {
-        business_name: userRow.business_name ?? null,
-        business_email: userRow.business_email ?? null,
-        business_address: userRow.business_address ?? null,
-        business_phone: userRow.business_phone ?? null,
-        tax_id: userRow.tax_id ?? null,
-      },
-      client: {
-        name: project?.name ?? '—',
-        client_name: project?.client_name ?? null,
-        client_email: project?.client_email ?? null,
-        client_address: project?.client_address ?? null,
-        client_phone: project?.client_phone ?? null,
-      },
-    };
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
 
+    const { pdfData } = result;
     const buffer = await generateInvoicePdf(pdfData);
-    const filename =
-      `invoice-${invoiceRow.invoice_number ?? invoiceId}.pdf`.replace(
-        /[^a-zA-Z0-9.-]/g,
-        '_'
-      );
+    const filename = getInvoicePdfFilename(
+      pdfData.invoice.invoice_number,
+      invoiceId
+    );
 
     return new NextResponse(new Uint8Array(buffer), {
       status: 200,
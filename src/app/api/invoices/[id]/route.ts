@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { markInvoicePaidIfSettled } from '@/lib/invoice-payments';
+import {
+  calculateInvoiceTotals,
+  getInvoiceDiscount,
+  getInvoiceTaxes,
+  normalizeInvoiceTaxes,
+  validateInvoiceDiscount,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
+import { canTransitionInvoiceStatus } from '@/lib/invoice-utils';
 import {
   getUserSubscription,
   INVOICE_PRO_ONLY_ERROR_MESSAGE,
   invoiceMutationAllowedForTier,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
+import {
+  getInvoiceWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 import { UpdateInvoiceRequest } from '@/types';
 
 export async function GET(
@@ -27,7 +42,7 @@ export async function GET(
 
     const { id: invoiceId } = await params;
 
-    // Fetch the invoice with items and verify ownership
+    // Fetch the invoice with items (RLS limits it to the user's workspaces)
     const { data: invoice, error: invoiceError } = await supabase
       .from('invoices')
       .select(
@@ -36,6 +51,7 @@ export async function GET(
         project:project_id (
           id,
           name,
+          client_id,
           client_name,
           client_email,
           client_address,
@@ -43,11 +59,13 @@ export async function GET(
         ),
         items:invoice_items (
           *
+        ),
+        payments:invoice_payments (
+          *
         )
       `
       )
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .single();
 
     if (invoiceError || !invoice) {
@@ -90,6 +108,16 @@ export async function PUT(
     }
 
     const { id: invoiceId } = await params;
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
     const updateData: UpdateInvoiceRequest = await request.json();
 
     // Validate that at least one field is being updated
@@ -100,12 +128,30 @@ export async function PUT(
       );
     }
 
-    // First check if the invoice exists and belongs to the user
+    // First check if the invoice exists
     const { data: existingInvoice, error: fetchError } = await supabase
       .from('invoices')
-      .select('id, status, invoice_number, subtotal, tax_rate, currency_code')
+      .select(
+        `
+        id,
+        user_id,
+        status,
+        invoice_number,
+        discount_type,
+        discount_value,
+        taxes,
+        tax_inclusive,
+        tax_rate,
+        currency_code,
+        items:invoice_items (
+          quantity,
+          unit_price,
+          discount_type,
+          discount_value
+        )
+      `
+      )
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError || !existingInvoice) {
@@ -141,7 +187,7 @@ export async function PUT(
         await supabase
           .from('invoices')
           .select('id')
-          .eq('user_id', user.id)
+          .eq('user_id', existingInvoice.user_id)
           .eq('invoice_number', trimmedNumber)
           .neq('id', invoiceId)
           .single();
@@ -168,8 +214,29 @@ export async function PUT(
       updateData.invoice_number = trimmedNumber;
     }
 
+    if (updateData.taxes !== undefined) {
+      const taxesError = validateInvoiceTaxes(updateData.taxes);
+      if (taxesError) {
+        return NextResponse.json({ error: taxesError }, { status: 400 });
+      }
+    }
+
+    if (
+      updateData.tax_inclusive !== undefined &&
+      typeof updateData.tax_inclusive !== 'boolean'
+    ) {
+      return NextResponse.json(
+        { error: 'tax_inclusive must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const discountError = validateInvoiceDiscount(updateData.discount);
+    if (discountError) {
+      return NextResponse.json({ error: discountError }, { status: 400 });
+    }
+
     // Handle invoice items update if provided
-    let newSubtotal = existingInvoice.subtotal || 0;
     if (updateData.items !== undefined) {
       // Validate items
       if (!Array.isArray(updateData.items)) {
@@ -218,30 +285,40 @@ export async function PUT(
             { status: 400 }
           );
         }
+        const itemDiscountError = validateInvoiceDiscount(item.discount);
+        if (itemDiscountError) {
+          return NextResponse.json(
+            { error: `Item "${item.name}": ${itemDiscountError}` },
+            { status: 400 }
+          );
+        }
       }
-
-      // Normalize items so total_cost = quantity × unit_price (for DB constraint)
-      const normalizedItems = updateData.items.map(item => {
-        const q = Math.round(item.quantity * 100) / 100;
-        const u = Math.round(item.unit_price * 100) / 100;
-        const total = Math.round(q * u * 100) / 100;
-        return {
-          ...item,
-          quantity: q,
-          unit_price: u,
-          total_cost: total,
-          rate_type: item.rate_type ?? null,
-        };
-      });
-      newSubtotal = normalizedItems.reduce(
-        (sum, item) => sum + item.total_cost,
-        0
-      );
-      newSubtotal = Math.round(newSubtotal * 100) / 100;
-      // Keep normalized items for insert below
-      (updateData as { items: typeof normalizedItems }).items = normalizedItems;
     }
 
+    // Recalculate totals from the new values, falling back to the stored ones
+    const totals = calculateInvoiceTotals({
+      items:
+        updateData.items !== undefined
+          ? updateData.items
+          : (existingInvoice.items ?? []).map(item => ({
+              quantity: item.quantity,
+              unit_price: item.unit_price,
+              discount: getInvoiceDiscount(item),
+            })),
+      discount:
+        updateData.discount !== undefined
+          ? updateData.discount
+          : getInvoiceDiscount(existingInvoice),
+      taxes:
+        updateData.taxes !== undefined
+          ? normalizeInvoiceTaxes(updateData.taxes)
+          : updateData.tax_rate !== undefined
+            ? getInvoiceTaxes({ tax_rate: updateData.tax_rate })
+            : getInvoiceTaxes(existingInvoice),
+      tax_inclusive:
+        updateData.tax_inclusive ?? existingInvoice.tax_inclusive === true,
+    });
+
     // Prepare update payload (exclude items from invoice update, handle separately)
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { items: _items, ...invoiceUpdateData } = updateData;
@@ -250,22 +327,19 @@ export async function PUT(
         ([, value]) => value !== undefined
       )
     ) as Record<string, unknown>;
-
-    // Calculate tax and total based on new subtotal
-    const taxRate =
-      updateData.tax_rate !== undefined
-        ? updateData.tax_rate
-        : existingInvoice.tax_rate || 0;
-    const taxAmount = Math.round(((newSubtotal * taxRate) / 100) * 100) / 100;
-    const totalAmount = Math.round((newSubtotal + taxAmount) * 100) / 100;
+    // Stored as discount_type and discount_value below
+    delete updatePayload.discount;
 
     // Add calculated fields to update payload
-    updatePayload.subtotal = newSubtotal;
-    if (updateData.tax_rate !== undefined) {
-      updatePayload.tax_rate = taxRate;
-    }
-    updatePayload.tax_amount = taxAmount;
-    updatePayload.total_amount = totalAmount;
+    updatePayload.subtotal = totals.subtotal;
+    updatePayload.discount_type = totals.discount_type;
+    updatePayload.discount_value = totals.discount_value;
+    updatePayload.discount_amount = totals.discount_amount;
+    updatePayload.taxes = totals.taxes;
+    updatePayload.tax_inclusive = totals.tax_inclusive;
+    updatePayload.tax_rate = totals.tax_rate;
+    updatePayload.tax_amount = totals.tax_amount;
+    updatePayload.total_amount = totals.total_amount;
 
     // Update invoice items if provided
     if (updateData.items !== undefined) {
@@ -286,15 +360,13 @@ export async function PUT(
         );
       }
 
-      // Insert new items (already normalized above: total_cost = quantity × unit_price)
-      const itemsToInsert = updateData.items.map(item => ({
+      // Insert new items (normalized by calculateInvoiceTotals: total_cost = quantity × unit_price)
+      const itemsToInsert = updateData.items.map((item, index) => ({
         invoice_id: invoiceId,
         task_id: item.task_id || null,
         name: item.name.trim(),
         description: item.description?.trim() || null,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        total_cost: item.total_cost,
+        ...totals.items[index],
         rate_type: item.rate_type ?? null,
       }));
 
@@ -316,7 +388,6 @@ export async function PUT(
       .from('invoices')
       .update(updatePayload)
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .select()
       .single();
 
@@ -325,6 +396,9 @@ export async function PUT(
       return NextResponse.json({ error: updateError.message }, { status: 500 });
     }
 
+    // A lower total can settle an invoice that already has payments
+    await markInvoicePaidIfSettled(supabase, invoiceId);
+
     // Fetch the complete invoice with items
     const { data: invoiceWithItems, error: fetchUpdatedError } = await supabase
       .from('invoices')
@@ -341,6 +415,9 @@ export async function PUT(
         ),
         items:invoice_items (
           *
+        ),
+        payments:invoice_payments (
+          *
         )
       `
       )
@@ -369,15 +446,6 @@ export async function PUT(
   }
 }
 
-/** Allowed status transitions (paid and cancelled are terminal) */
-const ALLOWED_STATUS_TRANSITIONS: Record<string, string[]> = {
-  draft: ['sent', 'paid', 'overdue', 'cancelled'],
-  sent: ['paid', 'overdue', 'cancelled'],
-  overdue: ['paid', 'cancelled'],
-  cancelled: [],
-  paid: [],
-};
-
 const PATCH_ALLOWED_STATUSES = ['sent', 'paid', 'overdue', 'cancelled'];
 
 export async function PATCH(
@@ -405,6 +473,16 @@ export async function PATCH(
     }
 
     const { id: invoiceId } = await params;
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
     const body = await request.json();
     const newStatus = body?.status as string | undefined;
 
@@ -421,7 +499,6 @@ export async function PATCH(
       .from('invoices')
       .select('id, status')
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError || !existingInvoice) {
@@ -429,8 +506,7 @@ export async function PATCH(
     }
 
     const currentStatus = existingInvoice.status as string;
-    const allowed = ALLOWED_STATUS_TRANSITIONS[currentStatus];
-    if (!allowed || !allowed.includes(newStatus)) {
+    if (!canTransitionInvoiceStatus(currentStatus, newStatus)) {
       return NextResponse.json(
         {
           error: `Cannot change status from "${currentStatus}" to "${newStatus}"`,
@@ -444,7 +520,6 @@ export async function PATCH(
       .from('invoices')
       .update({ status: newStatus })
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .select()
       .single();
 
@@ -492,13 +567,22 @@ export async function DELETE(
     }
 
     const { id: invoiceId } = await params;
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
 
-    // First check if the invoice exists and belongs to the user
+    // First check if the invoice exists
     const { data: existingInvoice, error: fetchError } = await supabase
       .from('invoices')
       .select('id, invoice_number')
       .eq('id', invoiceId)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError || !existingInvoice) {
@@ -509,8 +593,7 @@ export async function DELETE(
     const { error: deleteError } = await supabase
       .from('invoices')
       .delete()
-      .eq('id', invoiceId)
-      .eq('user_id', user.id);
+      .eq('id', invoiceId);
 
     if (deleteError) {
       console.error('Error deleting invoice:', deleteError);
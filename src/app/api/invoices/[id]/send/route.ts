@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import validator from 'validator';
+
+import { sendInvoiceEmail } from '@/lib/email';
+import {
+  createInvoiceEmailHtml,
+  DEFAULT_INVOICE_EMAIL_MESSAGE,
+  DEFAULT_INVOICE_EMAIL_SUBJECT,
+  INVOICE_EMAIL_MAX_MESSAGE_LENGTH,
+  INVOICE_EMAIL_MAX_SUBJECT_LENGTH,
+  getInvoiceEmailValues,
+  renderInvoiceEmailText,
+} from '@/lib/email-templates/invoice';
+import { generateInvoicePdf } from '@/lib/invoice-pdf';
+import {
+  fetchInvoicePdfData,
+  findInvoiceIssuer,
+  getInvoicePdfFilename,
+} from '@/lib/invoice-pdf-data';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getInvoiceWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { SendInvoiceRequest } from '@/types';
+
+// Paid and cancelled invoices are final; overdue invoices can be resent as a reminder
+const SENDABLE_STATUSES = ['draft', 'sent', 'overdue'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tier } = await getUserSubscription(supabase, user.id);
+    if (!invoiceMutationAllowedForTier(tier)) {
+      return NextResponse.json(
+        { error: INVOICE_PRO_ONLY_ERROR_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    const { id: invoiceId } = await params;
+    const role = await getInvoiceWorkspaceRole(supabase, user.id, invoiceId);
+    if (!role) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
+    const body: SendInvoiceRequest = await request.json().catch(() => ({}));
+
+    // The issuer's business details go on the invoice, whoever sends it
+    const issuerId = await findInvoiceIssuer(supabase, invoiceId);
+    if (!issuerId) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    const result = await fetchInvoicePdfData(
+      createAdminClient(),
+      issuerId,
+      invoiceId
+    );
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { pdfData } = result;
+    const currentStatus = pdfData.invoice.status;
+    if (!SENDABLE_STATUSES.includes(currentStatus)) {
+      return NextResponse.json(
+        {
+          error: `Cannot send an invoice with status "${currentStatus}"`,
+          current_status: currentStatus,
+        },
+        { status: 400 }
+      );
+    }
+
+    const recipient = (
+      body.to?.trim() ||
+      pdfData.client.client_email?.trim() ||
+      ''
+    ).toLowerCase();
+    if (!recipient) {
+      return NextResponse.json(
+        {
+          error:
+            'Add a client email to the project or enter a recipient to send this invoice',
+        },
+        { status: 400 }
+      );
+    }
+    if (!validator.isEmail(recipient)) {
+      return NextResponse.json(
+        { error: 'Recipient must be a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const subjectTemplate =
+      body.subject?.trim() || DEFAULT_INVOICE_EMAIL_SUBJECT;
+    const messageTemplate =
+      body.message?.trim() || DEFAULT_INVOICE_EMAIL_MESSAGE;
+    if (subjectTemplate.length > INVOICE_EMAIL_MAX_SUBJECT_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Subject cannot exceed ${INVOICE_EMAIL_MAX_SUBJECT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+    if (messageTemplate.length > INVOICE_EMAIL_MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Message cannot exceed ${INVOICE_EMAIL_MAX_MESSAGE_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const values = getInvoiceEmailValues(pdfData, user.email || 'Orasan');
+
+    const buffer = await generateInvoicePdf(pdfData);
+    const emailResult = await sendInvoiceEmail({
+      to: recipient,
+      replyTo: pdfData.business.business_email || user.email,
+      senderName: values.businessName,
+      subject: renderInvoiceEmailText(subjectTemplate, values),
+      html: createInvoiceEmailHtml(
+        renderInvoiceEmailText(messageTemplate, values),
+        values
+      ),
+      attachment: {
+        filename: getInvoicePdfFilename(
+          pdfData.invoice.invoice_number,
+          invoiceId
+        ),
+        content: buffer,
+      },
+    });
+
+    if (!emailResult.success) {
+      return NextResponse.json(
+        { error: emailResult.error ?? 'Failed to send invoice email' },
+        { status: 502 }
+      );
+    }
+
+    // Record the send and move drafts to sent in one update, guarded on the
+    // status we checked so a concurrent change (e.g. marked paid) is not overwritten
+    const { data: updatedRows, error: updateError } = await supabase
+      .from('invoices')
+      .update({
+        status: currentStatus === 'overdue' ? 'overdue' : 'sent',
+        sent_to_email: recipient,
+        sent_at: new Date().toISOString(),
+        sent_message_id: emailResult.messageId ?? null,
+      })
+      .eq('id', invoiceId)
+      .eq('status', currentStatus)
+      .select();
+
+    if (updateError) {
+      console.error('Error recording invoice send:', updateError);
+      return NextResponse.json(
+        { error: 'Invoice was emailed but could not be marked as sent' },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedRows || updatedRows.length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            'Invoice was emailed but its status changed while sending; refresh to see the latest status',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      invoice: updatedRows[0],
+      message: `Invoice sent to ${recipient}`,
+    });
+  } catch (error) {
+    console.error('Error in invoice send API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
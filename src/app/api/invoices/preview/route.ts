@@ -1,17 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getProjectClientDetails } from '@/lib/clients';
 import { fetchActiveTimerEntriesOnCompletedTasksInRange } from '@/lib/invoice-active-completed-task-timers';
+import {
+  calculateInvoiceTotals,
+  getInvoiceTaxes,
+  normalizeInvoiceTaxes,
+  validateInvoiceDiscount,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
 import {
   getUserSubscription,
   INVOICE_PRO_ONLY_ERROR_MESSAGE,
   invoiceMutationAllowedForTier,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
+import {
+  getTimeEntryRangePieces,
+  getTimeEntrySecondsInRange,
+  SegmentedTimeEntry,
+  TIME_ENTRY_SEGMENTS_SELECT,
+} from '@/lib/time-entry-segments';
+import {
+  fetchUserDateSettings,
+  getZonedDayRange,
+  parseCalendarDay,
+} from '@/lib/time-zones';
+import { CreateInvoiceRequest, InvoiceDiscount, InvoiceTax } from '@/types';
 
 export interface InvoicePreviewRequest {
   project_id: string;
-  date_range: { from: string; to: string };
+  date_range: CreateInvoiceRequest['date_range'];
+  /** Single unnamed tax; ignored when taxes is set */
   tax_rate?: number;
+  taxes?: InvoiceTax[];
+  tax_inclusive?: boolean;
+  discount?: InvoiceDiscount | null;
   currency_code?: string;
 }
 
@@ -37,7 +61,15 @@ export async function POST(request: NextRequest) {
     }
 
     const body: InvoicePreviewRequest = await request.json();
-    const { project_id, date_range, tax_rate = 0, currency_code } = body;
+    const {
+      project_id,
+      date_range,
+      tax_rate = 0,
+      taxes,
+      tax_inclusive,
+      discount,
+      currency_code,
+    } = body;
 
     if (!project_id || !date_range?.from || !date_range?.to) {
       return NextResponse.json(
@@ -46,22 +78,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const adjustmentsError =
+      (taxes !== undefined ? validateInvoiceTaxes(taxes) : null) ??
+      validateInvoiceDiscount(discount);
+    if (adjustmentsError) {
+      return NextResponse.json({ error: adjustmentsError }, { status: 400 });
+    }
+
     const { data: project, error: projectError } = await supabase
       .from('projects')
       .select(
-        'id, name, rate_type, price, currency_code, client_name, client_email, client_address, client_phone'
+        'id, name, rate_type, price, currency_code, client_name, client_email, client_address, client_phone, client:client_id (name, email, address, phone)'
       )
       .eq('id', project_id)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    const fromDate = new Date(date_range.from);
-    const toDate = new Date(date_range.to);
-    toDate.setHours(23, 59, 59, 999);
+    // Whole calendar days in the user's time zone
+    const fromKey = parseCalendarDay(date_range.from);
+    const toKey = parseCalendarDay(date_range.to);
+    if (!fromKey || !toKey || fromKey > toKey) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+    const { timeZone } = await fetchUserDateSettings(
+      supabase,
+      user.id,
+      date_range.time_zone
+    );
+    const { start: fromDate, end: toDate } = getZonedDayRange(
+      fromKey,
+      timeZone,
+      toKey
+    );
 
     const { data: timeEntriesRaw, error: timeEntriesError } = await supabase
       .from('time_entries')
@@ -70,6 +124,8 @@ export async function POST(request: NextRequest) {
         id,
         task_id,
         duration_seconds,
+        end_time,
+        ${TIME_ENTRY_SEGMENTS_SELECT},
         task:task_id (
           id,
           name,
@@ -80,11 +136,11 @@ export async function POST(request: NextRequest) {
         )
       `
       )
+      // Everyone's time in the project's workspace, as on the invoice
       .eq('project_id', project_id)
-      .eq('user_id', user.id)
       .eq('timer_status', 'stopped')
       .gte('end_time', fromDate.toISOString())
-      .lte('end_time', toDate.toISOString())
+      .or(`start_time.is.null,start_time.lte.${toDate.toISOString()}`)
       .order('end_time', { ascending: true });
 
     if (timeEntriesError) {
@@ -94,10 +150,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Entries count for the time they were worked inside the range
     const timeEntries = (timeEntriesRaw || []).filter(
       (entry: unknown) =>
         (entry as { task?: { status?: string } | null }).task?.status ===
-        'completed'
+          'completed' &&
+        getTimeEntryRangePieces(entry as SegmentedTimeEntry, fromDate, toDate)
+          .length > 0
     );
 
     const taskGroups = new Map<
@@ -115,9 +174,8 @@ export async function POST(request: NextRequest) {
     >();
 
     for (const entry of timeEntries) {
-      const rawEntry = entry as {
+      const rawEntry = entry as SegmentedTimeEntry & {
         task_id: string;
-        duration_seconds: number;
         task?: unknown;
       };
       const task = rawEntry.task as {
@@ -139,7 +197,11 @@ export async function POST(request: NextRequest) {
       }
 
       const group = taskGroups.get(rawEntry.task_id)!;
-      group.totalDurationSeconds += rawEntry.duration_seconds;
+      group.totalDurationSeconds += getTimeEntrySecondsInRange(
+        rawEntry,
+        fromDate,
+        toDate
+      );
     }
 
     const resolvedCurrency = currency_code || project.currency_code || 'USD';
@@ -151,7 +213,6 @@ export async function POST(request: NextRequest) {
       total_cost: number;
       rate_type: 'hourly' | 'fixed' | null;
     }> = [];
-    let subtotal = 0;
 
     for (const [, group] of taskGroups) {
       const { task, totalDurationSeconds } = group;
@@ -193,12 +254,17 @@ export async function POST(request: NextRequest) {
         total_cost: itemTotal,
         rate_type: rateType ?? null,
       });
-
-      subtotal += itemTotal;
     }
 
-    const taxAmount = Math.round(((subtotal * tax_rate) / 100) * 100) / 100;
-    const totalAmount = Math.round((subtotal + taxAmount) * 100) / 100;
+    const totals = calculateInvoiceTotals({
+      items,
+      discount,
+      taxes:
+        taxes !== undefined
+          ? normalizeInvoiceTaxes(taxes)
+          : getInvoiceTaxes({ tax_rate }),
+      tax_inclusive: tax_inclusive === true,
+    });
 
     const activeOnCompleted =
       await fetchActiveTimerEntriesOnCompletedTasksInRange(
@@ -211,19 +277,21 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       items,
-      subtotal,
-      tax_rate: tax_rate,
-      tax_amount: taxAmount,
-      total_amount: totalAmount,
+      subtotal: totals.subtotal,
+      discount_type: totals.discount_type,
+      discount_value: totals.discount_value,
+      discount_amount: totals.discount_amount,
+      taxes: totals.taxes,
+      tax_inclusive: totals.tax_inclusive,
+      tax_rate: totals.tax_rate,
+      tax_amount: totals.tax_amount,
+      total_amount: totals.total_amount,
       currency_code: resolvedCurrency,
       active_completed_task_timer_count: activeOnCompleted.length,
       active_completed_task_timer_ids: activeOnCompleted.map(e => e.id),
       project: {
         name: project.name,
-        client_name: project.client_name,
-        client_email: project.client_email,
-        client_address: project.client_address,
-        client_phone: project.client_phone,
+        ...getProjectClientDetails(project),
       },
     });
   } catch (error) {
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { validateInvoiceScheduleInput } from '@/lib/invoice-schedules';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import { InvoiceSchedule, UpdateInvoiceScheduleRequest } from '@/types';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tier } = await getUserSubscription(supabase, user.id);
+    if (!invoiceMutationAllowedForTier(tier)) {
+      return NextResponse.json(
+        { error: INVOICE_PRO_ONLY_ERROR_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+    const body: UpdateInvoiceScheduleRequest = await request.json();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('invoice_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Invoice schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = existing as InvoiceSchedule;
+    const validationError = validateInvoiceScheduleInput(body, schedule);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (body.frequency !== undefined) updateData.frequency = body.frequency;
+    if (body.interval_days !== undefined || body.frequency !== undefined) {
+      const frequency = body.frequency ?? schedule.frequency;
+      updateData.interval_days =
+        frequency === 'custom'
+          ? (body.interval_days ?? schedule.interval_days)
+          : null;
+    }
+    if (body.date_range_rule !== undefined)
+      updateData.date_range_rule = body.date_range_rule;
+    if (body.tax_rate !== undefined) updateData.tax_rate = body.tax_rate;
+    if (body.due_in_days !== undefined)
+      updateData.due_in_days = body.due_in_days;
+    if (body.notes_template !== undefined)
+      updateData.notes_template = body.notes_template?.trim() || null;
+    if (body.include_time_entry_notes !== undefined)
+      updateData.include_time_entry_notes =
+        body.include_time_entry_notes === true;
+    if (body.is_active !== undefined)
+      updateData.is_active = body.is_active === true;
+    if (
+      body.next_run_on !== undefined &&
+      body.next_run_on !== schedule.next_run_on
+    ) {
+      updateData.next_run_on = body.next_run_on;
+      // A rescheduled run starts clean
+      updateData.last_error = null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('invoice_schedules')
+      .update(updateData)
+      .eq('id', scheduleId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Error updating invoice schedule:', updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      schedule: updated,
+      message: 'Invoice schedule updated successfully',
+    });
+  } catch (error) {
+    console.error('Error in invoice schedule PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Deleting is allowed on every plan so a downgraded account can clear old schedules
+    const { id: scheduleId } = await params;
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('invoice_schedules')
+      .delete()
+      .eq('id', scheduleId)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting invoice schedule:', deleteError);
+      return NextResponse.json({ error: deleteError.message }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Invoice schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Invoice schedule deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error in invoice schedule DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
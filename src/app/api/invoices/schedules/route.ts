@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getTodayScheduleDate,
+  validateInvoiceScheduleInput,
+} from '@/lib/invoice-schedules';
+import {
+  getUserSubscription,
+  INVOICE_PRO_ONLY_ERROR_MESSAGE,
+  invoiceMutationAllowedForTier,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getProjectWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { CreateInvoiceScheduleRequest } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('project_id');
+
+    let query = supabase
+      .from('invoice_schedules')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (projectId) {
+      query = query.eq('project_id', projectId);
+    }
+
+    const { data: schedules, error: schedulesError } = await query;
+
+    if (schedulesError) {
+      console.error('Error fetching invoice schedules:', schedulesError);
+      return NextResponse.json(
+        { error: 'Failed to fetch invoice schedules' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ schedules: schedules || [] });
+  } catch (error) {
+    console.error('Error in invoice schedules GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tier } = await getUserSubscription(supabase, user.id);
+    if (!invoiceMutationAllowedForTier(tier)) {
+      return NextResponse.json(
+        { error: INVOICE_PRO_ONLY_ERROR_MESSAGE },
+        { status: 403 }
+      );
+    }
+
+    const body: CreateInvoiceScheduleRequest = await request.json();
+
+    if (!body.project_id) {
+      return NextResponse.json(
+        { error: 'project_id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.next_run_on) {
+      return NextResponse.json(
+        { error: 'First run date is required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateInvoiceScheduleInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (body.next_run_on < getTodayScheduleDate()) {
+      return NextResponse.json(
+        { error: 'First run date cannot be in the past' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the project exists and the user may invoice it
+    const role = await getProjectWorkspaceRole(
+      supabase,
+      user.id,
+      body.project_id
+    );
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_invoices')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      );
+    }
+
+    const { data: schedule, error: insertError } = await supabase
+      .from('invoice_schedules')
+      .insert({
+        user_id: user.id,
+        project_id: body.project_id,
+        frequency: body.frequency,
+        interval_days:
+          body.frequency === 'custom' ? (body.interval_days ?? null) : null,
+        date_range_rule: body.date_range_rule ?? 'previous_period',
+        tax_rate: body.tax_rate ?? 0,
+        due_in_days: body.due_in_days ?? null,
+        notes_template: body.notes_template?.trim() || null,
+        include_time_entry_notes: body.include_time_entry_notes === true,
+        next_run_on: body.next_run_on,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating invoice schedule:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to create invoice schedule' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { schedule, message: 'Invoice schedule created successfully' },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in invoice schedules POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
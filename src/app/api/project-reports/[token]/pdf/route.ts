@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  fetchProjectReport,
+  findProjectReportShare,
+} from '@/lib/project-report-data';
+import { generateProjectReportPdf } from '@/lib/project-report-pdf';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * PDF of a shared project time report. Viewers have no account, so the
+ * secret token in the URL identifies the share.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createAdminClient();
+
+    const lookup = await findProjectReportShare(supabase, token);
+    if (lookup.error !== undefined) {
+      return NextResponse.json(
+        { error: lookup.error },
+        { status: lookup.status }
+      );
+    }
+
+    const report = await fetchProjectReport(supabase, lookup.share);
+    if (!report) {
+      return NextResponse.json(
+        { error: 'This link is no longer valid' },
+        { status: 404 }
+      );
+    }
+
+    const buffer = await generateProjectReportPdf(report);
+    const filename = `orasan-project-report-${report.from_date}-${report.to_date}.pdf`;
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in project report PDF API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getWorkspaceAssignees } from '@/lib/assignees';
+import { createClient } from '@/lib/supabase/server';
+import { getWorkspaceRole, hasWorkspacePermission } from '@/lib/workspaces';
+import { ProjectAssigneesResponse } from '@/types';
+
+/**
+ * Assignee directory of a project: the members of its workspace. Owners and
+ * admins of a team workspace grow it by inviting collaborators by email.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, workspace_id, workspace:workspaces(is_personal)')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const workspace = project.workspace as unknown as {
+      is_personal: boolean;
+    } | null;
+    const [assignees, role] = await Promise.all([
+      getWorkspaceAssignees(supabase, project.workspace_id),
+      getWorkspaceRole(supabase, user.id, project.workspace_id),
+    ]);
+
+    const response: ProjectAssigneesResponse = {
+      assignees,
+      can_invite:
+        !!workspace &&
+        !workspace.is_personal &&
+        hasWorkspacePermission(role, 'manage_members'),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in project assignees GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
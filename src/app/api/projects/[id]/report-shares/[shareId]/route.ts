@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getProjectReportSharesAccess } from '@/lib/project-report-data';
+import { UpdateProjectReportShareRequest } from '@/types';
+
+/**
+ * Revokes a report share. Revoked shares stop working at once and cannot be
+ * restored.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const { id: projectId, shareId } = await params;
+    const access = await getProjectReportSharesAccess(projectId);
+    if (access.response) return access.response;
+
+    const body: UpdateProjectReportShareRequest = await request.json();
+    if (body.revoked !== true) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const { data: share, error } = await access.supabase
+      .from('project_report_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId)
+      .eq('project_id', projectId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error revoking project report share:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Report share not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ share });
+  } catch (error) {
+    console.error('Error in project report share PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getProjectReportSharesAccess } from '@/lib/project-report-data';
+import {
+  generateProjectReportShareToken,
+  parseProjectReportShareRange,
+} from '@/lib/project-report-shares';
+import { fetchUserDateSettings } from '@/lib/time-zones';
+import { CreateProjectReportShareRequest } from '@/types';
+
+/** Report shares of a project that have not been revoked, newest first */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const access = await getProjectReportSharesAccess(projectId);
+    if (access.response) return access.response;
+
+    const { data: shares, error } = await access.supabase
+      .from('project_report_shares')
+      .select('*')
+      .eq('project_id', projectId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching project report shares:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ shares: shares ?? [] });
+  } catch (error) {
+    console.error('Error in project report shares GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Shares a project's time report for whole calendar days, read in the
+ * creator's time zone
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const access = await getProjectReportSharesAccess(projectId);
+    if (access.response) return access.response;
+
+    const body: CreateProjectReportShareRequest = await request.json();
+    const range = parseProjectReportShareRange(body.from_date, body.to_date);
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 });
+    }
+
+    const { timeZone } = await fetchUserDateSettings(
+      access.supabase,
+      access.userId,
+      body.time_zone
+    );
+
+    const { data: share, error } = await access.supabase
+      .from('project_report_shares')
+      .insert({
+        workspace_id: access.project.workspace_id,
+        project_id: projectId,
+        token: generateProjectReportShareToken(),
+        created_by: access.userId,
+        from_date: range.fromDate,
+        to_date: range.toDate,
+        time_zone: timeZone,
+        hide_rates: body.hide_rates === true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating project report share:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ share }, { status: 201 });
+  } catch (error) {
+    console.error('Error in project report shares POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { isClientInWorkspace } from '@/lib/clients';
 import {
   assertProjectWritableOrThrow,
   FREE_TIER_PROJECT_READONLY_API_MESSAGE,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
 import { validatePricingConsistency } from '@/lib/utils';
+import {
+  getProjectWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 import { UpdateProjectData } from '@/types/projects';
 
 export async function GET(
@@ -27,12 +33,11 @@ export async function GET(
 
     const { id: projectId } = await params;
 
-    // Fetch the project and verify ownership
+    // Fetch the project (RLS limits it to the user's workspaces)
     const { data: project, error } = await supabase
       .from('projects')
       .select('*')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (error || !project) {
@@ -69,8 +74,19 @@ export async function PATCH(
     const { id: projectId } = await params;
     const updateData: UpdateProjectData = await request.json();
 
+    const role = await getProjectWorkspaceRole(supabase, user.id, projectId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
     try {
-      await assertProjectWritableOrThrow(supabase, user.id, projectId);
+      await assertProjectWritableOrThrow(supabase, projectId);
     } catch (e) {
       const err = e as Error & { code?: string; writableProjectIds?: string[] };
       if (err.code === 'FREE_TIER_PROJECT_READONLY') {
@@ -101,18 +117,31 @@ export async function PATCH(
       );
     }
 
-    // First check if the project exists and belongs to the user
+    // First check if the project exists
     const { data: existingProject, error: fetchError } = await supabase
       .from('projects')
-      .select('id, name, rate_type, price, currency_code')
+      .select('id, name, rate_type, price, currency_code, workspace_id')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError || !existingProject) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
+    if (
+      updateData.client_id &&
+      !(await isClientInWorkspace(
+        supabase,
+        updateData.client_id,
+        existingProject.workspace_id
+      ))
+    ) {
+      return NextResponse.json(
+        { error: 'Client not found in this workspace' },
+        { status: 400 }
+      );
+    }
+
     // Validate pricing fields consistency if any pricing field is being updated
     const hasPricingUpdate =
       updateData.rate_type !== undefined ||
@@ -154,15 +183,8 @@ export async function PATCH(
         .filter(([, value]) => value !== undefined)
         .map(([key, value]) => [
           key,
-          [
-            'name',
-            'description',
-            'client_name',
-            'client_email',
-            'client_address',
-            'client_phone',
-            'currency_code',
-          ].includes(key) && typeof value === 'string'
+          ['name', 'description', 'client_id', 'currency_code'].includes(key) &&
+          typeof value === 'string'
             ? value.trim() || null
             : value,
         ])
@@ -173,7 +195,6 @@ export async function PATCH(
       .from('projects')
       .update(updatePayload)
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .select()
       .single();
 
@@ -216,12 +237,22 @@ export async function DELETE(
 
     // Free-tier read-only does not block project deletion (user can remove excess projects).
 
-    // First check if the project exists and belongs to the user
+    const role = await getProjectWorkspaceRole(supabase, user.id, projectId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
+    // First check if the project exists
     const { data: existingProject, error: fetchError } = await supabase
       .from('projects')
       .select('id, name')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError || !existingProject) {
@@ -232,8 +263,7 @@ export async function DELETE(
     const { error: deleteError } = await supabase
       .from('projects')
       .delete()
-      .eq('id', projectId)
-      .eq('user_id', user.id);
+      .eq('id', projectId);
 
     if (deleteError) {
       console.error('Error deleting project:', deleteError);
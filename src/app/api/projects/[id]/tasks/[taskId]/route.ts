@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { withAssigneeUsers } from '@/lib/assignees';
 import {
   assertProjectWritableOrThrow,
   FREE_TIER_PROJECT_READONLY_API_MESSAGE,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
 import { validatePricingConsistency } from '@/lib/utils';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 import { UpdateTaskRequest } from '@/types';
 
 export async function GET(
@@ -26,12 +32,11 @@ export async function GET(
 
     const { id: projectId, taskId } = await params;
 
-    // First verify the project exists and belongs to the user
+    // First verify the project exists in one of the user's workspaces
     const { data: project, error: projectError } = await supabase
       .from('projects')
       .select('id, currency_code')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
@@ -44,12 +49,10 @@ export async function GET(
       .select(
         `
         *,
-        project:projects(name, client_name, status, currency_code, rate_type, price),
-        assignee_user:users!tasks_assignee_fkey(name, email)
+        project:projects(name, client_name, status, currency_code, rate_type, price)
       `
       )
       .eq('id', taskId)
-      .eq('user_id', user.id)
       .eq('project_id', projectId)
       .single();
 
@@ -61,7 +64,8 @@ export async function GET(
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ task });
+    const [taskWithAssignee] = await withAssigneeUsers([task]);
+    return NextResponse.json({ task: taskWithAssignee });
   } catch (error) {
     console.error('Error in project task GET API:', error);
     return NextResponse.json(
@@ -91,7 +95,7 @@ export async function PATCH(
     const updateData: UpdateTaskRequest = await request.json();
 
     try {
-      await assertProjectWritableOrThrow(supabase, user.id, projectId);
+      await assertProjectWritableOrThrow(supabase, projectId);
     } catch (e) {
       const err = e as Error & { code?: string; writableProjectIds?: string[] };
       if (err.code === 'FREE_TIER_PROJECT_READONLY') {
@@ -122,24 +126,34 @@ export async function PATCH(
       );
     }
 
-    // First verify the project exists and belongs to the user
+    // First verify the project exists in one of the user's workspaces
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('id')
+      .select('id, workspace_id, currency_code')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Then check if the task exists and belongs to the user and project
+    const role = await getWorkspaceRole(
+      supabase,
+      user.id,
+      project.workspace_id
+    );
+    if (!hasWorkspacePermission(role, 'edit_tasks')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.edit_tasks },
+        { status: 403 }
+      );
+    }
+
+    // Then check if the task exists and belongs to the project
     const { data: existingTask, error: fetchError } = await supabase
       .from('tasks')
       .select('id, name, user_id, project_id, status, rate_type, price')
       .eq('id', taskId)
-      .eq('user_id', user.id)
       .eq('project_id', projectId)
       .single();
 
@@ -152,16 +166,26 @@ export async function PATCH(
       );
     }
 
+    if (
+      updateData.assignee &&
+      !(await getWorkspaceRole(
+        supabase,
+        updateData.assignee,
+        project.workspace_id
+      ))
+    ) {
+      return NextResponse.json(
+        { error: 'Tasks can only be assigned to members of the workspace' },
+        { status: 400 }
+      );
+    }
+
     // Validate pricing fields consistency if any pricing field is being updated
     const hasPricingUpdate =
       updateData.rate_type !== undefined || updateData.price !== undefined;
 
     if (hasPricingUpdate) {
-      const projectCurrencyCode = (
-        project as {
-          currency_code?: string | null;
-        }
-      ).currency_code;
+      const projectCurrencyCode = project.currency_code;
       // Get the final values (existing values for unchanged fields, new values for changed fields)
       const finalRateType =
         updateData.rate_type !== undefined
@@ -207,13 +231,11 @@ export async function PATCH(
       .from('tasks')
       .update(updatePayload)
       .eq('id', taskId)
-      .eq('user_id', user.id)
       .eq('project_id', projectId)
       .select(
         `
         *,
-        project:projects(name, client_name, status, currency_code, rate_type, price),
-        assignee_user:users!tasks_assignee_fkey(name, email)
+        project:projects(name, client_name, status, currency_code, rate_type, price)
       `
       )
       .single();
@@ -246,7 +268,7 @@ export async function PATCH(
           .insert({
             task_id: taskId,
             project_id: existingTask.project_id,
-            user_id: existingTask.user_id,
+            user_id: user.id,
             start_time: now,
             end_time: now,
             duration_seconds: 0,
@@ -263,9 +285,10 @@ export async function PATCH(
       }
     }
 
+    const [task] = await withAssigneeUsers([updatedTask]);
     return NextResponse.json({
       message: 'Task updated successfully',
-      task: updatedTask,
+      task,
     });
   } catch (error) {
     console.error('Error in project task PATCH API:', error);
@@ -295,7 +318,7 @@ export async function DELETE(
     const { id: projectId, taskId } = await params;
 
     try {
-      await assertProjectWritableOrThrow(supabase, user.id, projectId);
+      await assertProjectWritableOrThrow(supabase, projectId);
     } catch (e) {
       const err = e as Error & { code?: string; writableProjectIds?: string[] };
       if (err.code === 'FREE_TIER_PROJECT_READONLY') {
@@ -310,24 +333,34 @@ export async function DELETE(
       throw e;
     }
 
-    // First verify the project exists and belongs to the user
+    // First verify the project exists in one of the user's workspaces
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('id')
+      .select('id, workspace_id')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Check if the task exists and belongs to the user and project
+    const role = await getWorkspaceRole(
+      supabase,
+      user.id,
+      project.workspace_id
+    );
+    if (!hasWorkspacePermission(role, 'edit_tasks')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.edit_tasks },
+        { status: 403 }
+      );
+    }
+
+    // Check if the task exists and belongs to the project
     const { data: existingTask, error: fetchError } = await supabase
       .from('tasks')
       .select('id, name')
       .eq('id', taskId)
-      .eq('user_id', user.id)
       .eq('project_id', projectId)
       .single();
 
@@ -345,7 +378,6 @@ export async function DELETE(
       .from('tasks')
       .delete()
       .eq('id', taskId)
-      .eq('user_id', user.id)
       .eq('project_id', projectId);
 
     if (deleteError) {
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { withAssigneeUsers } from '@/lib/assignees';
 import {
   assertProjectWritableOrThrow,
   FREE_TIER_PROJECT_READONLY_API_MESSAGE,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
 import { validatePricingConsistency } from '@/lib/utils';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 import { CreateTaskRequest } from '@/types';
 
 export async function GET(
@@ -32,12 +38,11 @@ export async function GET(
     const priority = searchParams.get('priority');
     const assignee = searchParams.get('assignee');
 
-    // First verify the project exists and belongs to the user
+    // First verify the project exists in one of the user's workspaces
     const { data: project, error: projectError } = await supabase
       .from('projects')
       .select('id')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
@@ -50,11 +55,9 @@ export async function GET(
       .select(
         `
         *,
-        project:projects(name, client_name),
-        assignee_user:users!tasks_assignee_fkey(name, email)
+        project:projects(name, client_name)
       `
       )
-      .eq('user_id', user.id)
       .eq('project_id', projectId);
 
     // Apply filters
@@ -72,7 +75,7 @@ export async function GET(
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ tasks });
+    return NextResponse.json({ tasks: await withAssigneeUsers(tasks ?? []) });
   } catch (error) {
     console.error('Error in project tasks GET API:', error);
     return NextResponse.json(
@@ -101,7 +104,7 @@ export async function POST(
     const { id: projectId } = await params;
 
     try {
-      await assertProjectWritableOrThrow(supabase, user.id, projectId);
+      await assertProjectWritableOrThrow(supabase, projectId);
     } catch (e) {
       const err = e as Error & { code?: string; writableProjectIds?: string[] };
       if (err.code === 'FREE_TIER_PROJECT_READONLY') {
@@ -148,18 +151,39 @@ export async function POST(
       );
     }
 
-    // First verify the project exists and belongs to the user
+    // First verify the project exists in one of the user's workspaces
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('id, rate_type, price, currency_code')
+      .select('id, workspace_id, rate_type, price, currency_code')
       .eq('id', projectId)
-      .eq('user_id', user.id)
       .single();
 
     if (projectError || !project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
+    const role = await getWorkspaceRole(
+      supabase,
+      user.id,
+      project.workspace_id
+    );
+    if (!hasWorkspacePermission(role, 'edit_tasks')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.edit_tasks },
+        { status: 403 }
+      );
+    }
+
+    if (
+      assignee &&
+      !(await getWorkspaceRole(supabase, assignee, project.workspace_id))
+    ) {
+      return NextResponse.json(
+        { error: 'Tasks can only be assigned to members of the workspace' },
+        { status: 400 }
+      );
+    }
+
     // Determine pricing data: use task's explicit pricing if provided, otherwise inherit from project
     const taskRateType =
       rate_type !== undefined ? rate_type : project.rate_type;
@@ -204,8 +228,7 @@ export async function POST(
       .select(
         `
         *,
-        project:projects(name, client_name),
-        assignee_user:users!tasks_assignee_fkey(name, email)
+        project:projects(name, client_name)
       `
       )
       .single();
@@ -215,7 +238,8 @@ export async function POST(
       return NextResponse.json({ error: createError.message }, { status: 500 });
     }
 
-    return NextResponse.json({ task: newTask }, { status: 201 });
+    const [task] = await withAssigneeUsers([newTask]);
+    return NextResponse.json({ task }, { status: 201 });
   } catch (error) {
     console.error('Error in project tasks POST API:', error);
     return NextResponse.json(
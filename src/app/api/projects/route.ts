@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { isClientInWorkspace } from '@/lib/clients';
 import {
+  FREE_TIER_MAX_ACTIVE_PROJECTS,
   getFreeTierProjectLimitState,
-  getUserSubscription,
+  getWorkspaceSubscriptionTier,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
 import { validatePricingConsistency } from '@/lib/utils';
+import {
+  getActiveWorkspace,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 import { CreateProjectData } from '@/types/projects';
 
 export async function GET() {
@@ -22,19 +29,26 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get user's projects
-    const { data: projects, error } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    // Get the active workspace's projects, and the plan they fall under
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    const [{ data: projects, error }, subscriptionTier] = await Promise.all([
+      supabase
+        .from('projects')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .order('created_at', { ascending: false }),
+      getWorkspaceSubscriptionTier(supabase, workspace.id),
+    ]);
 
     if (error) {
       console.error('Error fetching projects:', error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ projects: projects || [] });
+    return NextResponse.json({
+      projects: projects || [],
+      subscription_tier: subscriptionTier,
+    });
   } catch (error) {
     console.error('Error in projects GET API:', error);
     return NextResponse.json(
@@ -58,6 +72,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    if (!hasWorkspacePermission(workspace.role, 'manage_projects')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      );
+    }
+
     const projectData: CreateProjectData = await request.json();
 
     // Enhanced validation with better error messages
@@ -97,6 +119,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      projectData.client_id &&
+      !(await isClientInWorkspace(
+        supabase,
+        projectData.client_id,
+        workspace.id
+      ))
+    ) {
+      validationErrors.push('Client not found in this workspace');
+    }
+
     if (validationErrors.length > 0) {
       return NextResponse.json(
         {
@@ -107,23 +140,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check project limit for Free tier users (2 active projects).
-    const { tier } = await getUserSubscription(supabase, user.id);
+    // Check project limit for Free tier workspaces (2 active projects). The
+    // owner's plan applies to every member.
+    const tier = await getWorkspaceSubscriptionTier(supabase, workspace.id);
     if (tier === 'free') {
       const { activeProjectCount } = await getFreeTierProjectLimitState(
         supabase,
-        user.id
+        workspace.id
       );
-      const maxActiveProjects = 2;
-      if (activeProjectCount >= maxActiveProjects) {
+      if (activeProjectCount >= FREE_TIER_MAX_ACTIVE_PROJECTS) {
         return NextResponse.json(
           {
             error: 'Project limit reached',
             details: {
               current_active: activeProjectCount,
-              limit_active: maxActiveProjects,
-              message:
-                'Free tier allows up to 2 active projects. Complete or delete a project, or upgrade to Pro.',
+              limit_active: FREE_TIER_MAX_ACTIVE_PROJECTS,
+              message: `Free tier allows up to ${FREE_TIER_MAX_ACTIVE_PROJECTS} active projects. Complete or delete a project, or upgrade to Pro.`,
             },
           },
           { status: 403 }
@@ -135,14 +167,13 @@ export async function POST(request: NextRequest) {
     const projectInsertData = {
       name: projectData.name.trim(),
       description: projectData.description?.trim() || null,
-      client_name: projectData.client_name?.trim() || null,
-      client_email: projectData.client_email?.trim() || null,
-      client_address: projectData.client_address?.trim() || null,
-      client_phone: projectData.client_phone?.trim() || null,
+      // The database copies the client's details onto the project
+      client_id: projectData.client_id || null,
       rate_type: projectData.rate_type || null,
       price: projectData.price !== undefined ? projectData.price : null,
       currency_code: projectData.currency_code || null,
       user_id: user.id,
+      workspace_id: workspace.id,
       status: 'new' as const,
     };
 
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { generateTimeReportPdf } from '@/lib/report-pdf';
+import {
+  buildTimeReport,
+  isReportGroupBy,
+  ReportFocusInterval,
+  ReportTimeEntry,
+  timeReportToCsv,
+} from '@/lib/reports';
+import { fetchAllPages } from '@/lib/supabase/pagination';
+import { createClient } from '@/lib/supabase/server';
+import { TIME_ENTRY_SEGMENTS_SELECT } from '@/lib/time-entry-segments';
+import { fetchUserDateSettings, parseIsoDate } from '@/lib/time-zones';
+
+// Upper bound on a report range, to keep the query and PDF reasonable
+const MAX_RANGE_DAYS = 366;
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Range bounds are computed in the browser, in the user's time zone
+    const { searchParams } = new URL(request.url);
+    const from = parseIsoDate(searchParams.get('from'));
+    const to = parseIsoDate(searchParams.get('to'));
+
+    if (!from || !to || from >= to) {
+      return NextResponse.json(
+        { error: 'Valid from and to dates are required' },
+        { status: 400 }
+      );
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const groupBy = searchParams.get('group_by') ?? 'project';
+    if (!isReportGroupBy(groupBy)) {
+      return NextResponse.json(
+        { error: 'Invalid group_by parameter' },
+        { status: 400 }
+      );
+    }
+
+    const format = searchParams.get('format') ?? 'json';
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format parameter' },
+        { status: 400 }
+      );
+    }
+
+    // Days are grouped in the saved time zone, else the browser's
+    const { timeZone } = await fetchUserDateSettings(
+      supabase,
+      user.id,
+      searchParams.get('time_zone')
+    );
+
+    // Only stopped entries count. Those that ran into the range count the part
+    // of their recorded segments inside it, like invoices. A year of entries
+    // can run past one page, so every page is loaded (ordered with the id
+    // breaking ties, so pages never overlap).
+    let entries: ReportTimeEntry[];
+    let focusIntervals: ReportFocusInterval[];
+    try {
+      entries = (await fetchAllPages((rangeFrom, rangeTo) =>
+        supabase
+          .from('time_entries')
+          .select(
+            `
+            id,
+            task_id,
+            project_id,
+            duration_seconds,
+            end_time,
+            ${TIME_ENTRY_SEGMENTS_SELECT},
+            task:task_id (
+              id,
+              name,
+              priority,
+              rate_type,
+              price
+            ),
+            project:project_id (
+              id,
+              name,
+              client_name,
+              rate_type,
+              price,
+              currency_code
+            )
+          `
+          )
+          .eq('user_id', user.id)
+          .eq('timer_status', 'stopped')
+          .gte('end_time', from.toISOString())
+          .or(`start_time.is.null,start_time.lte.${to.toISOString()}`)
+          .order('end_time', { ascending: true })
+          .order('id', { ascending: true })
+          .range(rangeFrom, rangeTo)
+      )) as unknown as ReportTimeEntry[];
+
+      focusIntervals = (await fetchAllPages((rangeFrom, rangeTo) =>
+        supabase
+          .from('focus_intervals')
+          .select(
+            `
+              task_id,
+              project_id,
+              completed_at,
+              task:task_id (
+                id,
+                name,
+                priority
+              ),
+              project:project_id (
+                id,
+                name,
+                client_name
+              )
+            `
+          )
+          .eq('user_id', user.id)
+          .gte('completed_at', from.toISOString())
+          .lte('completed_at', to.toISOString())
+          .order('completed_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(rangeFrom, rangeTo)
+      )) as unknown as ReportFocusInterval[];
+    } catch (error) {
+      console.error('Error fetching report data:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Query failed' },
+        { status: 500 }
+      );
+    }
+
+    const report = buildTimeReport(
+      entries,
+      {
+        groupBy,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        timeZone,
+      },
+      focusIntervals
+    );
+
+    if (format === 'json') {
+      return NextResponse.json({ report });
+    }
+
+    const basename = `orasan-report-${groupBy}-${from
+      .toISOString()
+      .slice(0, 10)}-${to.toISOString().slice(0, 10)}`;
+
+    if (format === 'csv') {
+      return new NextResponse(timeReportToCsv(report), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${basename}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const buffer = await generateTimeReportPdf(report);
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${basename}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in reports GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
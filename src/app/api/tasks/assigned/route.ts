@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * Tasks assigned to the current user across every project and workspace they
+ * belong to, soonest due first. Completed tasks are left out unless
+ * include_completed=true.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeCompleted = searchParams.get('include_completed') === 'true';
+
+    let query = supabase
+      .from('tasks')
+      .select(
+        `
+        *,
+        project:projects(name, client_name, status),
+        workspace:workspaces(name, is_personal)
+      `
+      )
+      .eq('assignee', user.id);
+
+    if (!includeCompleted) query = query.neq('status', 'completed');
+
+    const { data: tasks, error } = await query
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assigned tasks:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ tasks: tasks ?? [] });
+  } catch (error) {
+    console.error('Error in assigned tasks GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
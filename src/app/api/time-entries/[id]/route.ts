@@ -5,6 +5,28 @@ import {
   FREE_TIER_PROJECT_READONLY_API_MESSAGE,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
+import {
+  recordTimerSegment,
+  TIME_ENTRY_SEGMENTS_SELECT,
+} from '@/lib/time-entry-segments';
+import { buildTimerTransition, TimerStatus } from '@/lib/time-entry-timer';
+import { validateTimeEntryDescription } from '@/lib/validation';
+
+const TIMER_STATUSES: TimerStatus[] = ['running', 'paused', 'stopped'];
+
+const TIME_ENTRY_SELECT = `
+  *,
+  ${TIME_ENTRY_SEGMENTS_SELECT},
+  task:task_id (
+    id,
+    name,
+    project_id,
+    project:project_id (
+      id,
+      name
+    )
+  )
+`;
 
 export async function GET(
   request: NextRequest,
@@ -28,20 +50,7 @@ export async function GET(
     // Fetch the time entry and verify ownership
     const { data: timeEntry, error } = await supabase
       .from('time_entries')
-      .select(
-        `
-        *,
-        task:task_id (
-          id,
-          name,
-          project_id,
-          project:project_id (
-            id,
-            name
-          )
-        )
-      `
-      )
+      .select(TIME_ENTRY_SELECT)
       .eq('id', timeEntryId)
       .eq('user_id', user.id)
       .single();
@@ -53,7 +62,10 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ time_entry: timeEntry });
+    return NextResponse.json({
+      time_entry: timeEntry,
+      server_time: new Date().toISOString(),
+    });
   } catch (error) {
     console.error('Error in time entry GET API:', error);
     return NextResponse.json(
@@ -91,21 +103,59 @@ export async function PATCH(
       );
     }
 
+    if (
+      updateData.timer_status !== undefined &&
+      !TIMER_STATUSES.includes(updateData.timer_status)
+    ) {
+      return NextResponse.json(
+        { error: "timer_status must be 'running', 'paused' or 'stopped'" },
+        { status: 400 }
+      );
+    }
+
     // Validate duration if it's being updated
     if (
       updateData.duration_seconds !== undefined &&
-      updateData.duration_seconds < 0
+      (!Number.isInteger(updateData.duration_seconds) ||
+        updateData.duration_seconds < 0)
     ) {
       return NextResponse.json(
-        { error: 'Duration cannot be negative' },
+        { error: 'Duration must be a whole number of seconds, 0 or more' },
         { status: 400 }
       );
     }
 
+    // Validate and normalize the note if it's being updated (empty clears it)
+    if (updateData.description !== undefined) {
+      if (
+        updateData.description !== null &&
+        typeof updateData.description !== 'string'
+      ) {
+        return NextResponse.json(
+          { error: 'Description must be a string' },
+          { status: 400 }
+        );
+      }
+      if (typeof updateData.description === 'string') {
+        const descriptionError = validateTimeEntryDescription(
+          updateData.description
+        );
+        if (descriptionError) {
+          return NextResponse.json(
+            { error: descriptionError },
+            { status: 400 }
+          );
+        }
+      }
+      updateData.description = updateData.description?.trim() || null;
+    }
+
     // First check if the time entry exists and belongs to the user
     const { data: existingTimeEntry, error: fetchError } = await supabase
       .from('time_entries')
-      .select('id, task_id, timer_status, project_id')
+      .select(
+        'id, task_id, timer_status, project_id, start_time, duration_seconds, running_since, updated_at'
+      )
       .eq('id', timeEntryId)
       .eq('user_id', user.id)
       .single();
@@ -120,7 +170,6 @@ export async function PATCH(
     try {
       await assertProjectWritableOrThrow(
         supabase,
-        user.id,
         existingTimeEntry.project_id
       );
     } catch (e) {
@@ -137,6 +186,36 @@ export async function PATCH(
       throw e;
     }
 
+    // Status changes derive the duration from server timestamps; the client
+    // may only send the time a pause or stop queued offline happened
+    // (occurred_at). Resumes always count from now.
+    const now = new Date();
+    const transition =
+      updateData.timer_status !== undefined
+        ? buildTimerTransition(
+            existingTimeEntry,
+            updateData.timer_status,
+            now,
+            updateData.occurred_at
+          )
+        : null;
+
+    if (transition && 'error' in transition) {
+      return NextResponse.json({ error: transition.error }, { status: 400 });
+    }
+
+    // A manual duration edit only applies to a timer that is not running
+    if (
+      updateData.duration_seconds !== undefined &&
+      !transition &&
+      existingTimeEntry.timer_status === 'running'
+    ) {
+      return NextResponse.json(
+        { error: 'Pause the timer before editing its duration' },
+        { status: 400 }
+      );
+    }
+
     // If starting a timer, check for running timers on the same task
     if (updateData.timer_status === 'running') {
       const { data: runningTimer } = await supabase
@@ -156,40 +235,71 @@ export async function PATCH(
       }
     }
 
-    // Prepare update data (only include defined fields)
-    const updatePayload = Object.fromEntries(
-      Object.entries(updateData).filter(([, value]) => value !== undefined)
-    );
+    // Only the note, a manual duration and the status are client-writable
+    const updatePayload: Record<string, unknown> = transition
+      ? { ...transition.update }
+      : {};
+    if (updateData.description !== undefined) {
+      updatePayload.description = updateData.description;
+    }
+    if (updateData.duration_seconds !== undefined && !transition) {
+      updatePayload.duration_seconds = updateData.duration_seconds;
+    }
+
+    if (Object.keys(updatePayload).length === 0) {
+      const { data: unchangedTimeEntry } = await supabase
+        .from('time_entries')
+        .select(TIME_ENTRY_SELECT)
+        .eq('id', timeEntryId)
+        .eq('user_id', user.id)
+        .single();
+
+      return NextResponse.json({
+        time_entry: unchangedTimeEntry,
+        server_time: now.toISOString(),
+        message: 'Time entry updated successfully',
+      });
+    }
 
-    // Update the time entry
+    // Guard on the status read above so a concurrent pause or stop cannot be
+    // applied twice from stale timestamps
     const { data: updatedTimeEntry, error: updateError } = await supabase
       .from('time_entries')
       .update(updatePayload)
       .eq('id', timeEntryId)
       .eq('user_id', user.id)
-      .select(
-        `
-        *,
-        task:task_id (
-          id,
-          name,
-          project_id,
-          project:project_id (
-            id,
-            name
-          )
-        )
-      `
-      )
-      .single();
+      .eq('timer_status', existingTimeEntry.timer_status)
+      .select(TIME_ENTRY_SELECT)
+      .maybeSingle();
 
     if (updateError) {
       console.error('Error updating time entry:', updateError);
       return NextResponse.json({ error: updateError.message }, { status: 500 });
     }
 
+    if (!updatedTimeEntry) {
+      return NextResponse.json(
+        {
+          error:
+            'This timer was changed on another device. Refresh and try again.',
+        },
+        { status: 409 }
+      );
+    }
+
+    if (transition) {
+      await recordTimerSegment(
+        supabase,
+        user.id,
+        timeEntryId,
+        existingTimeEntry.timer_status,
+        transition
+      );
+    }
+
     return NextResponse.json({
       time_entry: updatedTimeEntry,
+      server_time: now.toISOString(),
       message: 'Time entry updated successfully',
     });
   } catch (error) {
@@ -238,7 +348,6 @@ export async function DELETE(
     try {
       await assertProjectWritableOrThrow(
         supabase,
-        user.id,
         existingTimeEntry.project_id
       );
     } catch (e) {
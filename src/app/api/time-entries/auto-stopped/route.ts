@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@/lib/supabase/server';
+
+/** Entries a timer limit stopped that the user has not been told about yet */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: entries, error } = await supabase
+      .from('time_entries')
+      .select(
+        `
+        id,
+        task_id,
+        end_time,
+        auto_stop_reason,
+        task:task_id (
+          name
+        )
+      `
+      )
+      .eq('user_id', user.id)
+      .not('auto_stop_reason', 'is', null)
+      .is('auto_stop_notified_at', null)
+      .order('end_time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching auto-stopped time entries:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ time_entries: entries || [] });
+  } catch (error) {
+    console.error('Error in auto-stopped time entries GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Marks auto-stop notices as seen */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { timer_ids: timerIds } = await request.json();
+
+    if (
+      !Array.isArray(timerIds) ||
+      timerIds.length === 0 ||
+      !timerIds.every(id => typeof id === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'timer_ids must be a non-empty array of ids' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('time_entries')
+      .update({ auto_stop_notified_at: new Date().toISOString() })
+      .in('id', timerIds)
+      .eq('user_id', user.id)
+      .not('auto_stop_reason', 'is', null)
+      .is('auto_stop_notified_at', null);
+
+    if (error) {
+      console.error('Error acknowledging auto-stopped time entries:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in auto-stopped time entries POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
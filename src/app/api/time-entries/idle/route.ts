@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { IDLE_TIME_ENTRY_DESCRIPTION } from '@/lib/idle-detection';
+import { getProjectIdsAllowedForTimeEntryMutation } from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import { recordTimerSegment } from '@/lib/time-entry-segments';
+import { buildIdleTransition } from '@/lib/time-entry-timer';
+
+const IDLE_API_ACTIONS = ['discard', 'split'];
+
+/**
+ * Removes a period the user was away from their running timers. With
+ * `discard` the time is dropped; with `split` it is moved to a stopped entry
+ * on the same task. Keeping the time needs no request.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const {
+      timer_ids: timerIds,
+      idle_from: idleFrom,
+      idle_until: idleUntil,
+      action,
+    } = await request.json();
+
+    // Validate input
+    if (
+      !Array.isArray(timerIds) ||
+      timerIds.length === 0 ||
+      !timerIds.every(id => typeof id === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'timer_ids must be a non-empty array of ids' },
+        { status: 400 }
+      );
+    }
+
+    if (!IDLE_API_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: "action must be 'discard' or 'split'" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof idleFrom !== 'string' ||
+      typeof idleUntil !== 'string' ||
+      Number.isNaN(Date.parse(idleFrom)) ||
+      Number.isNaN(Date.parse(idleUntil)) ||
+      Date.parse(idleUntil) <= Date.parse(idleFrom)
+    ) {
+      return NextResponse.json(
+        { error: 'idle_from and idle_until must be times, in order' },
+        { status: 400 }
+      );
+    }
+
+    // Step 1: Validate timers exist, are running, and belong to the user
+    const { data: validTimersRaw, error: validationError } = await supabase
+      .from('time_entries')
+      .select(
+        'id, user_id, timer_status, task_id, project_id, start_time, duration_seconds, running_since, updated_at'
+      )
+      .in('id', timerIds)
+      .eq('user_id', user.id)
+      .eq('timer_status', 'running');
+
+    if (validationError) {
+      console.error('Validation error:', validationError);
+      return NextResponse.json(
+        { error: 'Failed to validate timers' },
+        { status: 500 }
+      );
+    }
+
+    let validTimers = validTimersRaw || [];
+
+    const allowedProjectIds = await getProjectIdsAllowedForTimeEntryMutation(
+      supabase,
+      validTimers.flatMap(t => (t.project_id ? [t.project_id] : []))
+    );
+    if (allowedProjectIds !== null) {
+      validTimers = validTimers.filter(
+        t => t.project_id && allowedProjectIds.has(t.project_id)
+      );
+    }
+
+    // Step 2: Cut the idle period out of each timer. The times are clamped to
+    // the open segment and now, and the update is guarded on that segment so
+    // a timer paused or resumed elsewhere in the meantime is left alone
+    const now = new Date();
+    const updatedTimers: string[] = [];
+    const splitEntryIds: string[] = [];
+    let idleSeconds = 0;
+
+    for (const timer of validTimers) {
+      const idle = buildIdleTransition(timer, idleFrom, idleUntil, now);
+      if (!idle) continue;
+
+      const { data: updated, error: updateError } = await supabase
+        .from('time_entries')
+        .update(idle.update)
+        .eq('id', timer.id)
+        .eq('user_id', user.id)
+        .eq('timer_status', 'running')
+        .eq('running_since', timer.running_since)
+        .select('id');
+
+      if (updateError) {
+        console.error('Update error:', updateError);
+        return NextResponse.json(
+          { error: 'Failed to remove idle time' },
+          { status: 500 }
+        );
+      }
+
+      if (!updated || updated.length === 0) continue;
+
+      updatedTimers.push(timer.id);
+      idleSeconds = Math.max(idleSeconds, idle.idle_seconds);
+      await recordTimerSegment(
+        supabase,
+        user.id,
+        timer.id,
+        'running',
+        idle.pause
+      );
+      await recordTimerSegment(
+        supabase,
+        user.id,
+        timer.id,
+        'paused',
+        idle.resume
+      );
+
+      if (action !== 'split') continue;
+
+      const { data: splitEntry, error: splitError } = await supabase
+        .from('time_entries')
+        .insert({
+          task_id: timer.task_id,
+          project_id: timer.project_id,
+          user_id: user.id,
+          start_time: idle.pause.at.toISOString(),
+          end_time: idle.resume.at.toISOString(),
+          duration_seconds: idle.idle_seconds,
+          timer_status: 'stopped',
+          running_since: null,
+          description: IDLE_TIME_ENTRY_DESCRIPTION,
+        })
+        .select('id')
+        .single();
+
+      if (splitError || !splitEntry) {
+        console.error(
+          `Error creating idle entry for time entry ${timer.id}:`,
+          splitError
+        );
+        continue;
+      }
+
+      splitEntryIds.push(splitEntry.id);
+      const { error: segmentError } = await supabase
+        .from('time_entry_segments')
+        .insert({
+          time_entry_id: splitEntry.id,
+          user_id: user.id,
+          started_at: idle.pause.at.toISOString(),
+          ended_at: idle.resume.at.toISOString(),
+        });
+      if (segmentError) {
+        console.error(
+          `Error recording segment for time entry ${splitEntry.id}:`,
+          segmentError
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      updatedCount: updatedTimers.length,
+      idle_seconds: idleSeconds,
+      split_entry_ids: splitEntryIds,
+      server_time: now.toISOString(),
+      message: `Removed idle time from ${updatedTimers.length} timer(s)`,
+    });
+  } catch (error) {
+    console.error('Error in idle time endpoint:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { logCreateMany } from '@/lib/activity-log';
+import { getCurrencyByCode } from '@/lib/currencies';
+import {
+  FREE_TIER_MAX_ACTIVE_PROJECTS,
+  getFreeTierProjectLimitState,
+  getWorkspaceSubscriptionTier,
+} from '@/lib/subscription-enforcement';
+import { fetchAllPages } from '@/lib/supabase/pagination';
+import { createClient } from '@/lib/supabase/server';
+import {
+  planTimeEntryImport,
+  TIME_ENTRY_IMPORT_MAX_ROWS,
+  validateTimeEntryImportRow,
+} from '@/lib/time-entry-import';
+import {
+  getActiveWorkspace,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import {
+  ProjectStatus,
+  RateType,
+  TimeEntryImportRequest,
+  TimeEntryImportResponse,
+  TimeEntryImportRow,
+} from '@/types';
+
+async function loadImportContext(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string,
+  rows: TimeEntryImportRow[]
+) {
+  const starts = rows.map(row => row.start_time).sort();
+  const ends = rows.map(row => row.end_time).sort();
+
+  const [projects, tasks, existingEntries] = await Promise.all([
+    fetchAllPages<{
+      id: string;
+      name: string;
+      client_name: string | null;
+      currency_code: string | null;
+      status: ProjectStatus;
+      rate_type: RateType | null;
+      price: number | null;
+    }>((from, to) =>
+      supabase
+        .from('projects')
+        .select(
+          'id, name, client_name, currency_code, status, rate_type, price'
+        )
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllPages<{ id: string; name: string; project_id: string }>(
+      (from, to) =>
+        supabase
+          .from('tasks')
+          .select('id, name, project_id')
+          .eq('workspace_id', workspaceId)
+          .order('created_at', { ascending: true })
+          .range(from, to)
+    ),
+    // Entries that could overlap the file's time span
+    fetchAllPages<{ start_time: string; end_time: string }>((from, to) =>
+      supabase
+        .from('time_entries')
+        .select('start_time, end_time')
+        .eq('user_id', userId)
+        .eq('timer_status', 'stopped')
+        .not('start_time', 'is', null)
+        .gte('end_time', starts[0])
+        .lte('start_time', ends[ends.length - 1])
+        .order('start_time', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  return { projects, tasks, existingEntries };
+}
+
+/**
+ * Imports time entries from a CSV file the wizard has already mapped to rows.
+ * With dry_run the rows are only checked and previewed. Otherwise missing
+ * projects and tasks are created and the rows without errors are saved as
+ * stopped entries, all in one transaction. Free-tier project limits apply.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: TimeEntryImportRequest = await request.json();
+    const rows = body.rows;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'There are no rows to import' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > TIME_ENTRY_IMPORT_MAX_ROWS) {
+      return NextResponse.json(
+        {
+          error: `Import at most ${TIME_ENTRY_IMPORT_MAX_ROWS} rows at a time; split the file and import each part`,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const row of rows) {
+      const rowError = validateTimeEntryImportRow(row);
+      if (rowError) {
+        return NextResponse.json({ error: rowError }, { status: 400 });
+      }
+    }
+
+    if (
+      typeof body.default_currency !== 'string' ||
+      !getCurrencyByCode(body.default_currency)
+    ) {
+      return NextResponse.json(
+        { error: 'Choose a currency for new projects' },
+        { status: 400 }
+      );
+    }
+
+    // Entries go into the active workspace's projects
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    if (!hasWorkspacePermission(workspace.role, 'track_time')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.track_time },
+        { status: 403 }
+      );
+    }
+
+    const tier = await getWorkspaceSubscriptionTier(supabase, workspace.id);
+    let newProjectLimit: number | null = null;
+    let writableProjectIds: Set<string> | null = null;
+    if (tier === 'free') {
+      const limitState = await getFreeTierProjectLimitState(
+        supabase,
+        workspace.id
+      );
+      newProjectLimit = Math.max(
+        0,
+        FREE_TIER_MAX_ACTIVE_PROJECTS - limitState.activeProjectCount
+      );
+      writableProjectIds = limitState.overLimit
+        ? new Set(limitState.writableProjectIds)
+        : null;
+    }
+
+    const { projects, tasks, existingEntries } = await loadImportContext(
+      supabase,
+      user.id,
+      workspace.id,
+      rows
+    );
+
+    const plan = planTimeEntryImport(rows, {
+      projects,
+      tasks,
+      existingEntries,
+      defaultCurrency: body.default_currency,
+      newProjectLimit,
+      newProjectsBlockedReason: hasWorkspacePermission(
+        workspace.role,
+        'manage_projects'
+      )
+        ? null
+        : WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects,
+      writableProjectIds,
+      now: new Date(),
+    });
+
+    const preview: TimeEntryImportResponse = {
+      summary: plan.summary,
+      rows: plan.rows,
+    };
+
+    if (body.dry_run || plan.entries.length === 0) {
+      return NextResponse.json(preview);
+    }
+
+    // Give new projects, tasks and entries their ids here so the rows can
+    // reference each other, then save everything in one transaction
+    const projectIds = new Map<string, string>(
+      projects.map(project => [`id:${project.id}`, project.id])
+    );
+    const projectRates = new Map(
+      projects.map(project => [
+        project.id,
+        { rate_type: project.rate_type, price: project.price },
+      ])
+    );
+    const newProjectRows = plan.newProjects.map(newProject => {
+      const id = crypto.randomUUID();
+      projectIds.set(newProject.key, id);
+      projectRates.set(id, { rate_type: 'hourly', price: 0 });
+      return {
+        id,
+        name: newProject.name,
+        client_name: newProject.client_name,
+        rate_type: 'hourly' as const,
+        price: 0,
+        currency_code: newProject.currency_code,
+        user_id: user.id,
+        workspace_id: workspace.id,
+        status: 'new' as const,
+      };
+    });
+
+    const taskIds = new Map<string, string>(
+      tasks.map(task => [`id:${task.id}`, task.id])
+    );
+    const newTaskRows = plan.newTasks.map(newTask => {
+      const id = crypto.randomUUID();
+      const projectId = projectIds.get(newTask.projectKey) as string;
+      const rate = projectRates.get(projectId);
+      taskIds.set(newTask.key, id);
+      return {
+        id,
+        name: newTask.name,
+        project_id: projectId,
+        user_id: user.id,
+        status: 'new' as const,
+        // Tasks inherit the project's rate
+        rate_type: rate?.rate_type ?? 'hourly',
+        price: rate?.price ?? 0,
+      };
+    });
+
+    const entryRows = plan.entries.map(({ row, projectKey, taskKey }) => ({
+      id: crypto.randomUUID(),
+      task_id: taskIds.get(taskKey),
+      project_id: projectIds.get(projectKey),
+      user_id: user.id,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      duration_seconds: row.duration_seconds,
+      timer_status: 'stopped' as const,
+      description: row.description?.trim() || null,
+    }));
+
+    const { error: importError } = await supabase.rpc('import_time_entries', {
+      payload: {
+        projects: newProjectRows,
+        tasks: newTaskRows,
+        time_entries: entryRows,
+      },
+    });
+
+    if (importError) {
+      // The transaction rolled back, so nothing was saved
+      console.error('Error importing time entries:', importError);
+      return NextResponse.json(
+        { error: `Nothing was imported: ${importError.message}` },
+        { status: 500 }
+      );
+    }
+
+    await Promise.all([
+      logCreateMany(
+        user.id,
+        'project',
+        newProjectRows.map(project => project.id)
+      ),
+      logCreateMany(
+        user.id,
+        'task',
+        newTaskRows.map(task => task.id)
+      ),
+      logCreateMany(
+        user.id,
+        'time_entry',
+        entryRows.map(entry => entry.id)
+      ),
+    ]);
+
+    return NextResponse.json({
+      ...preview,
+      imported: {
+        time_entries: entryRows.length,
+        projects: newProjectRows.length,
+        tasks: newTaskRows.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error in time entries import API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,18 @@ import {
   FREE_TIER_PROJECT_READONLY_API_MESSAGE,
 } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
+import { TIME_ENTRY_SEGMENTS_SELECT } from '@/lib/time-entry-segments';
+import {
+  fetchUserDateSettings,
+  getZonedDayRange,
+  parseCalendarDay,
+} from '@/lib/time-zones';
+import { validateTimeEntryDescription } from '@/lib/validation';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,12 +39,16 @@ export async function GET(request: NextRequest) {
     const date = searchParams.get('date');
     const running = searchParams.get('running');
 
+    // A single task's history also lists each run of its timers
+    const segmentsSelect = taskId ? `${TIME_ENTRY_SEGMENTS_SELECT},` : '';
+
     // Build the query
     let query = supabase
       .from('time_entries')
       .select(
         `
         *,
+        ${segmentsSelect}
         task:task_id (
           id,
           name,
@@ -57,15 +73,22 @@ export async function GET(request: NextRequest) {
       query = query.eq('task.project_id', projectId);
     }
 
+    // The day runs midnight to midnight in the user's zone
     if (date) {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
+      const day = parseCalendarDay(date);
+      if (!day) {
+        return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+      }
+      const { timeZone } = await fetchUserDateSettings(
+        supabase,
+        user.id,
+        searchParams.get('time_zone')
+      );
+      const { start, end } = getZonedDayRange(day, timeZone);
 
       query = query
-        .gte('created_at', startOfDay.toISOString())
-        .lte('created_at', endOfDay.toISOString());
+        .gte('created_at', start.toISOString())
+        .lte('created_at', end.toISOString());
     }
 
     if (running === 'true') {
@@ -79,7 +102,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ time_entries: timeEntries || [] });
+    return NextResponse.json({
+      time_entries: timeEntries || [],
+      server_time: new Date().toISOString(),
+    });
   } catch (error) {
     console.error('Error in time entries GET API:', error);
     return NextResponse.json(
@@ -123,20 +149,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the task exists and belongs to the user
+    if (
+      timeEntryData.description !== undefined &&
+      timeEntryData.description !== null &&
+      typeof timeEntryData.description !== 'string'
+    ) {
+      return NextResponse.json(
+        { error: 'Description must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const descriptionError =
+      typeof timeEntryData.description === 'string'
+        ? validateTimeEntryDescription(timeEntryData.description)
+        : null;
+    if (descriptionError) {
+      return NextResponse.json({ error: descriptionError }, { status: 400 });
+    }
+
+    // Verify the task exists in one of the user's workspaces
     const { data: task, error: taskError } = await supabase
       .from('tasks')
-      .select('id, project_id, rate_type')
+      .select('id, project_id, rate_type, workspace_id')
       .eq('id', timeEntryData.task_id)
-      .eq('user_id', user.id)
       .single();
 
     if (taskError || !task) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
+    const role = await getWorkspaceRole(supabase, user.id, task.workspace_id);
+    if (!hasWorkspacePermission(role, 'track_time')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.track_time },
+        { status: 403 }
+      );
+    }
+
     try {
-      await assertProjectWritableOrThrow(supabase, user.id, task.project_id);
+      await assertProjectWritableOrThrow(supabase, task.project_id);
     } catch (e) {
       const err = e as Error & { code?: string; writableProjectIds?: string[] };
       if (err.code === 'FREE_TIER_PROJECT_READONLY') {
@@ -175,6 +227,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // A running timer starts from zero at server time, even when it was
+    // started offline: a client-sent start would count time the server never
+    // saw running. Its duration is derived on pause/stop.
+    const now = new Date();
+    const isRunning = timeEntryData.timer_status === 'running';
+    const runningSince = isRunning ? now.toISOString() : null;
+
     // Create the time entry
     const { data: newTimeEntry, error: createError } = await supabase
       .from('time_entries')
@@ -182,10 +241,12 @@ export async function POST(request: NextRequest) {
         task_id: timeEntryData.task_id,
         project_id: task.project_id,
         user_id: user.id,
-        start_time: timeEntryData.start_time || null,
-        end_time: timeEntryData.end_time || null,
-        duration_seconds: timeEntryData.duration_seconds || 0,
+        start_time: runningSince ?? (timeEntryData.start_time || null),
+        end_time: isRunning ? null : timeEntryData.end_time || null,
+        duration_seconds: isRunning ? 0 : timeEntryData.duration_seconds || 0,
         timer_status: timeEntryData.timer_status || 'paused',
+        running_since: runningSince,
+        description: timeEntryData.description?.trim() || null,
       })
       .select(
         `
@@ -208,9 +269,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: createError.message }, { status: 500 });
     }
 
+    // A running timer's first segment opens with it
+    if (runningSince) {
+      const { error: segmentError } = await supabase
+        .from('time_entry_segments')
+        .insert({
+          time_entry_id: newTimeEntry.id,
+          user_id: user.id,
+          started_at: runningSince,
+        });
+      if (segmentError) {
+        console.error(
+          `Error opening segment for time entry ${newTimeEntry.id}:`,
+          segmentError
+        );
+      }
+    }
+
     return NextResponse.json(
       {
         time_entry: newTimeEntry,
+        server_time: now.toISOString(),
         message: 'Time entry created successfully',
       },
       { status: 201 }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getProjectIdsAllowedForTimeEntryMutation } from '@/lib/subscription-enforcement';
 import { createClient } from '@/lib/supabase/server';
+import { recordTimerSegment } from '@/lib/time-entry-segments';
+import { buildTimerTransition } from '@/lib/time-entry-timer';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,23 +19,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { updates } = await request.json();
+    const { timer_ids: timerIds } = await request.json();
 
     // Validate input
-    if (!Array.isArray(updates) || updates.length === 0) {
+    if (
+      !Array.isArray(timerIds) ||
+      timerIds.length === 0 ||
+      !timerIds.every(id => typeof id === 'string')
+    ) {
       return NextResponse.json(
-        { error: 'updates must be a non-empty array' },
+        { error: 'timer_ids must be a non-empty array of ids' },
         { status: 400 }
       );
     }
 
-    // Extract timer IDs from updates
-    const timerIds = updates.map(update => update.id);
-
     // Step 1: Validate timers exist, are active (running or paused), and belong to the user
     const { data: validTimersRaw, error: validationError } = await supabase
       .from('time_entries')
-      .select('id, user_id, timer_status, task_id, project_id')
+      .select(
+        'id, user_id, timer_status, task_id, project_id, start_time, duration_seconds, running_since, updated_at'
+      )
       .in('id', timerIds)
       .eq('user_id', user.id)
       .in('timer_status', ['running', 'paused']);
@@ -50,7 +55,7 @@ export async function POST(request: NextRequest) {
 
     const allowedProjectIds = await getProjectIdsAllowedForTimeEntryMutation(
       supabase,
-      user.id
+      validTimers.flatMap(t => (t.project_id ? [t.project_id] : []))
     );
     // Free over active-project limit: writable projects always allowed. For
     // read-only projects, allow stop only for active timers (running/paused),
@@ -73,43 +78,41 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Create a map of timer ID to task_id and project_id for upsert
-    const validIds = new Set(validTimers.map(t => t.id));
-    const timerToTaskMap = new Map(
-      validTimers.map(timer => [timer.id, timer.task_id])
-    );
-    const timerToProjectMap = new Map(
-      validTimers.map(timer => [timer.id, timer.project_id])
-    );
-
-    // Step 2: Use upsert for batch update
-    const updatesToApply = updates.filter(update => validIds.has(update.id));
-    const { data: updatedTimers, error: updateError } = await supabase
-      .from('time_entries')
-      .upsert(
-        updatesToApply.map(update => ({
-          id: update.id,
-          task_id: timerToTaskMap.get(update.id), // Add task_id for NOT NULL constraint
-          project_id: timerToProjectMap.get(update.id), // Add project_id for NOT NULL constraint
-          duration_seconds: update.duration_seconds,
-          timer_status: 'stopped',
-          end_time: update.end_time,
-          updated_at: update.updated_at,
-          user_id: user.id, // Add user_id for RLS compliance
-        })),
-        {
-          onConflict: 'id',
-          ignoreDuplicates: false,
-        }
-      )
-      .select('id, duration_seconds, timer_status');
-
-    if (updateError) {
-      console.error('Update error:', updateError);
-      return NextResponse.json(
-        { error: 'Failed to stop timers' },
-        { status: 500 }
-      );
+    // Step 2: Stop each timer at server time, closing a running timer's open
+    // segment. Guard on the status so a timer changed elsewhere is left alone
+    const now = new Date();
+    const updatedTimers: string[] = [];
+
+    for (const timer of validTimers) {
+      const transition = buildTimerTransition(timer, 'stopped', now);
+      if (!transition || 'error' in transition) continue;
+
+      const { data: updated, error: updateError } = await supabase
+        .from('time_entries')
+        .update(transition.update)
+        .eq('id', timer.id)
+        .eq('user_id', user.id)
+        .eq('timer_status', timer.timer_status)
+        .select('id');
+
+      if (updateError) {
+        console.error('Update error:', updateError);
+        return NextResponse.json(
+          { error: 'Failed to stop timers' },
+          { status: 500 }
+        );
+      }
+
+      if (updated && updated.length > 0) {
+        updatedTimers.push(timer.id);
+        await recordTimerSegment(
+          supabase,
+          user.id,
+          timer.id,
+          timer.timer_status,
+          transition
+        );
+      }
     }
 
     return NextResponse.json({
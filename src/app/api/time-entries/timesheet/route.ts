@@ -0,0 +1,342 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  assertProjectWritableOrThrow,
+  FREE_TIER_PROJECT_READONLY_API_MESSAGE,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import { parseIsoDate } from '@/lib/time-zones';
+import {
+  planTimesheetCellChange,
+  TIMESHEET_MAX_CELL_SECONDS,
+} from '@/lib/timesheet';
+import {
+  getActiveWorkspace,
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import {
+  SetTimesheetCellRequest,
+  TimesheetEntry,
+  TimesheetTask,
+  TaskStatus,
+} from '@/types';
+
+// A local calendar day is at most 25 hours long (DST change)
+const MAX_DAY_SPAN_MS = 25 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Week bounds are computed in the browser, in the user's time zone
+    const { searchParams } = new URL(request.url);
+    const from = parseIsoDate(searchParams.get('from'));
+    const to = parseIsoDate(searchParams.get('to'));
+
+    if (!from || !to || from >= to) {
+      return NextResponse.json(
+        { error: 'Valid from and to dates are required' },
+        { status: 400 }
+      );
+    }
+
+    // Rows are the active workspace's tasks
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    const [tasksResult, entriesResult] = await Promise.all([
+      supabase
+        .from('tasks')
+        .select(
+          `
+          id,
+          name,
+          status,
+          project_id,
+          project:project_id (
+            id,
+            name,
+            status
+          )
+        `
+        )
+        .eq('workspace_id', workspace.id),
+      // Only stopped entries count, bucketed by end_time like invoices
+      supabase
+        .from('time_entries')
+        .select(
+          'id, task_id, project_id, end_time, duration_seconds, timesheet_adjustment'
+        )
+        .eq('user_id', user.id)
+        .eq('workspace_id', workspace.id)
+        .eq('timer_status', 'stopped')
+        .gte('end_time', from.toISOString())
+        .lte('end_time', to.toISOString()),
+    ]);
+
+    if (tasksResult.error) {
+      console.error('Error fetching timesheet tasks:', tasksResult.error);
+      return NextResponse.json(
+        { error: tasksResult.error.message },
+        { status: 500 }
+      );
+    }
+
+    if (entriesResult.error) {
+      console.error('Error fetching timesheet entries:', entriesResult.error);
+      return NextResponse.json(
+        { error: entriesResult.error.message },
+        { status: 500 }
+      );
+    }
+
+    const timeEntries = (entriesResult.data ?? []) as TimesheetEntry[];
+    const taskIdsWithTime = new Set(timeEntries.map(entry => entry.task_id));
+
+    // Open tasks in open projects, plus any task that has time this week
+    const tasks: TimesheetTask[] = [];
+    for (const task of tasksResult.data ?? []) {
+      const project = task.project as unknown as {
+        name: string;
+        status: string;
+      } | null;
+      const isOpen =
+        task.status !== 'completed' && project?.status !== 'completed';
+      if (!isOpen && !taskIdsWithTime.has(task.id)) continue;
+
+      tasks.push({
+        id: task.id,
+        name: task.name,
+        status: task.status as TaskStatus,
+        project_id: task.project_id,
+        project_name: project?.name ?? '—',
+      });
+    }
+    tasks.sort(
+      (a, b) =>
+        a.project_name.localeCompare(b.project_name) ||
+        a.name.localeCompare(b.name)
+    );
+
+    return NextResponse.json({ tasks, time_entries: timeEntries });
+  } catch (error) {
+    console.error('Error in timesheet GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = (await request.json()) as Partial<SetTimesheetCellRequest>;
+
+    if (!body.task_id) {
+      return NextResponse.json(
+        { error: 'Task ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const dayStart = parseIsoDate(body.day_start);
+    const dayEnd = parseIsoDate(body.day_end);
+    if (
+      !dayStart ||
+      !dayEnd ||
+      dayEnd <= dayStart ||
+      dayEnd.getTime() - dayStart.getTime() > MAX_DAY_SPAN_MS
+    ) {
+      return NextResponse.json(
+        { error: 'A valid day range is required' },
+        { status: 400 }
+      );
+    }
+
+    const targetSeconds = body.duration_seconds;
+    if (
+      typeof targetSeconds !== 'number' ||
+      !Number.isInteger(targetSeconds) ||
+      targetSeconds < 0 ||
+      targetSeconds > TIMESHEET_MAX_CELL_SECONDS
+    ) {
+      return NextResponse.json(
+        { error: 'Duration must be between 0 and 24 hours' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the task exists in one of the user's workspaces
+    const { data: task, error: taskError } = await supabase
+      .from('tasks')
+      .select('id, project_id, workspace_id')
+      .eq('id', body.task_id)
+      .single();
+
+    if (taskError || !task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const role = await getWorkspaceRole(supabase, user.id, task.workspace_id);
+    if (!hasWorkspacePermission(role, 'track_time')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.track_time },
+        { status: 403 }
+      );
+    }
+
+    try {
+      await assertProjectWritableOrThrow(supabase, task.project_id);
+    } catch (e) {
+      const err = e as Error & { code?: string; writableProjectIds?: string[] };
+      if (err.code === 'FREE_TIER_PROJECT_READONLY') {
+        return NextResponse.json(
+          {
+            error: FREE_TIER_PROJECT_READONLY_API_MESSAGE,
+            writable_project_ids: err.writableProjectIds ?? [],
+          },
+          { status: 403 }
+        );
+      }
+      throw e;
+    }
+
+    const fetchCellEntries = () =>
+      supabase
+        .from('time_entries')
+        .select(
+          'id, task_id, project_id, end_time, duration_seconds, timesheet_adjustment'
+        )
+        .eq('user_id', user.id)
+        .eq('task_id', task.id)
+        .eq('timer_status', 'stopped')
+        .gte('end_time', dayStart.toISOString())
+        .lte('end_time', dayEnd.toISOString())
+        .order('end_time', { ascending: false });
+
+    const { data: existingEntries, error: fetchError } =
+      await fetchCellEntries();
+
+    if (fetchError) {
+      console.error('Error fetching timesheet cell entries:', fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    const change = planTimesheetCellChange(
+      (existingEntries ?? []) as TimesheetEntry[],
+      targetSeconds
+    );
+    if ('error' in change) {
+      return NextResponse.json({ error: change.error }, { status: 400 });
+    }
+
+    // Only the cell's adjustment entries change; tracked entries stay as they are
+    if (change.extraAdjustmentIds.length > 0) {
+      const { error: cleanupError } = await supabase
+        .from('time_entries')
+        .delete()
+        .in('id', change.extraAdjustmentIds)
+        .eq('user_id', user.id)
+        .eq('timesheet_adjustment', true);
+
+      if (cleanupError) {
+        console.error('Error removing timesheet adjustments:', cleanupError);
+        return NextResponse.json(
+          { error: cleanupError.message },
+          { status: 500 }
+        );
+      }
+    }
+
+    // The adjustment starts at the day start so it stays in this cell
+    const endTime = new Date(
+      Math.min(
+        dayStart.getTime() + change.adjustmentSeconds * 1000,
+        dayEnd.getTime()
+      )
+    );
+    const adjustmentTimes = {
+      start_time: dayStart.toISOString(),
+      end_time: endTime.toISOString(),
+      duration_seconds: change.adjustmentSeconds,
+    };
+
+    let adjustmentError;
+    if (change.adjustmentId && change.adjustmentSeconds === 0) {
+      ({ error: adjustmentError } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', change.adjustmentId)
+        .eq('user_id', user.id)
+        .eq('timesheet_adjustment', true));
+    } else if (change.adjustmentId) {
+      ({ error: adjustmentError } = await supabase
+        .from('time_entries')
+        .update(adjustmentTimes)
+        .eq('id', change.adjustmentId)
+        .eq('user_id', user.id)
+        .eq('timesheet_adjustment', true));
+    } else if (change.adjustmentSeconds > 0) {
+      ({ error: adjustmentError } = await supabase.from('time_entries').insert({
+        ...adjustmentTimes,
+        task_id: task.id,
+        project_id: task.project_id,
+        user_id: user.id,
+        timer_status: 'stopped',
+        timesheet_adjustment: true,
+      }));
+    }
+
+    if (adjustmentError) {
+      console.error('Error saving timesheet adjustment:', adjustmentError);
+      return NextResponse.json(
+        { error: adjustmentError.message },
+        { status: 500 }
+      );
+    }
+
+    const { data: updatedEntries, error: refetchError } =
+      await fetchCellEntries();
+
+    if (refetchError) {
+      console.error('Error fetching updated timesheet cell:', refetchError);
+      return NextResponse.json(
+        { error: refetchError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      time_entries: (updatedEntries ?? []) as TimesheetEntry[],
+      message: 'Timesheet updated successfully',
+    });
+  } catch (error) {
+    console.error('Error in timesheet PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+
+import { generateCalendarFeedToken } from '@/lib/calendar-feed';
+import { createClient } from '@/lib/supabase/server';
+
+/** Turns the calendar feed on, or replaces its token so old URLs stop working */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: updatedUser, error } = await supabase
+      .from('users')
+      .update({
+        calendar_feed_token: generateCalendarFeedToken(),
+      })
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error regenerating calendar feed token:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ user: updatedUser });
+  } catch (error) {
+    console.error('Error in calendar feed POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Turns the calendar feed off */
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: updatedUser, error } = await supabase
+      .from('users')
+      .update({
+        calendar_feed_token: null,
+      })
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error turning off calendar feed:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ user: updatedUser });
+  } catch (error) {
+    console.error('Error in calendar feed DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  ACCOUNT_RESTORE_MAX_FILE_BYTES,
+  planAccountRestore,
+  readAccountExport,
+} from '@/lib/account-restore';
+import { logCreateMany } from '@/lib/activity-log';
+import {
+  getFreeTierProjectLimitState,
+  getWorkspaceSubscriptionTier,
+} from '@/lib/subscription-enforcement';
+import { createClient } from '@/lib/supabase/server';
+import { getActiveWorkspace } from '@/lib/workspaces';
+import { AccountRestoreResponse } from '@/types';
+
+/**
+ * Restores an Orasan export, the ZIP or the JSON document (multipart field
+ * "file"), into the current account. Every row gets a new id, so the same
+ * export can be loaded into any account. With dry_run=true the file is only
+ * checked. Otherwise nothing is saved while conflicts remain, and the rows are
+ * inserted in one database transaction, so a failure leaves the account
+ * unchanged.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Choose an export file to restore' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > ACCOUNT_RESTORE_MAX_FILE_BYTES) {
+      return NextResponse.json(
+        {
+          error: `The file is larger than ${ACCOUNT_RESTORE_MAX_FILE_BYTES / 1024 / 1024} MB`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await readAccountExport(await file.arrayBuffer());
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Restored projects land in the active workspace, under its owner's plan
+    const workspace = await getActiveWorkspace(supabase, user.id);
+    const [tier, limitState, projectsResult, invoicesResult] =
+      await Promise.all([
+        getWorkspaceSubscriptionTier(supabase, workspace.id),
+        getFreeTierProjectLimitState(supabase, workspace.id),
+        supabase
+          .from('projects')
+          .select('name, client_name')
+          .eq('user_id', user.id),
+        supabase
+          .from('invoices')
+          .select('invoice_number')
+          .eq('user_id', user.id),
+      ]);
+
+    if (projectsResult.error || invoicesResult.error) {
+      console.error(
+        'Error loading account for restore:',
+        projectsResult.error ?? invoicesResult.error
+      );
+      return NextResponse.json(
+        { error: 'Failed to load your account' },
+        { status: 500 }
+      );
+    }
+
+    const plan = planAccountRestore(result.data, {
+      userId: user.id,
+      tier,
+      projects: projectsResult.data ?? [],
+      activeProjectCount: limitState.activeProjectCount,
+      invoiceNumbers: (invoicesResult.data ?? []).map(
+        invoice => invoice.invoice_number
+      ),
+      now: new Date(),
+    });
+
+    const response: AccountRestoreResponse = {
+      counts: plan.counts,
+      conflicts: plan.conflicts,
+      warnings: plan.warnings,
+      restored: false,
+    };
+
+    if (formData?.get('dry_run') === 'true') {
+      return NextResponse.json(response);
+    }
+
+    if (plan.conflicts.length > 0) {
+      return NextResponse.json(
+        { ...response, error: 'Resolve the conflicts before restoring' },
+        { status: 409 }
+      );
+    }
+
+    const { error: restoreError } = await supabase.rpc('restore_account_data', {
+      payload: plan.payload,
+    });
+
+    if (restoreError) {
+      // The transaction rolled back, so nothing was saved
+      console.error('Error restoring account data:', restoreError);
+      return NextResponse.json(
+        {
+          ...response,
+          error: `Nothing was restored: ${restoreError.message}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const payload = plan.payload;
+    await Promise.all([
+      logCreateMany(
+        user.id,
+        'project',
+        payload.projects.map(row => row.id)
+      ),
+      logCreateMany(
+        user.id,
+        'task',
+        payload.tasks.map(row => row.id)
+      ),
+      logCreateMany(
+        user.id,
+        'time_entry',
+        payload.time_entries.map(row => row.id)
+      ),
+      logCreateMany(
+        user.id,
+        'work_session',
+        payload.work_sessions.map(row => row.id)
+      ),
+      logCreateMany(
+        user.id,
+        'invoice',
+        payload.invoices.map(row => row.id)
+      ),
+    ]);
+
+    return NextResponse.json({ ...response, restored: true });
+  } catch (error) {
+    console.error('Error in account restore API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
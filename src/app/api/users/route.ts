@@ -6,7 +6,18 @@ import {
   logAccountDeletionRequest,
 } from '@/lib/activity-log';
 import { sendDeletionConfirmationEmail } from '@/lib/email';
+import { validateFocusSettingsInput } from '@/lib/focus-mode';
+import { validateIdleTimeoutMinutes } from '@/lib/idle-detection';
+import { validateInvoiceNumberingInput } from '@/lib/invoice-numbering';
+import {
+  INVOICE_REMINDER_MAX_DAYS,
+  INVOICE_REMINDER_MAX_STEPS,
+  normalizeInvoiceReminderDays,
+} from '@/lib/invoice-reminders';
 import { createClient } from '@/lib/supabase/server';
+import { validateDateSettingsInput } from '@/lib/time-zones';
+import { validateTimerLimitInput } from '@/lib/timer-limits';
+import { findWorkspaceBlockingAccountDeletion } from '@/lib/workspaces';
 import { UpdateUserRequest } from '@/types';
 
 interface UpdateData {
@@ -176,6 +187,60 @@ export async function PATCH(request: NextRequest) {
         ])
     ) as Partial<UpdateUserRequest>;
 
+    if (
+      updatePayload.invoice_reminders_enabled !== undefined &&
+      typeof updatePayload.invoice_reminders_enabled !== 'boolean'
+    ) {
+      return NextResponse.json(
+        { error: 'invoice_reminders_enabled must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (updatePayload.invoice_reminder_days !== undefined) {
+      const reminderDays = normalizeInvoiceReminderDays(
+        updatePayload.invoice_reminder_days
+      );
+      if (!reminderDays) {
+        return NextResponse.json(
+          {
+            error: `Reminder days must be 1 to ${INVOICE_REMINDER_MAX_STEPS} whole numbers between 1 and ${INVOICE_REMINDER_MAX_DAYS}`,
+          },
+          { status: 400 }
+        );
+      }
+      updatePayload.invoice_reminder_days = reminderDays;
+    }
+
+    const numberingError = validateInvoiceNumberingInput(updatePayload);
+    if (numberingError) {
+      return NextResponse.json({ error: numberingError }, { status: 400 });
+    }
+
+    const focusError = validateFocusSettingsInput(updatePayload);
+    if (focusError) {
+      return NextResponse.json({ error: focusError }, { status: 400 });
+    }
+
+    const dateSettingsError = validateDateSettingsInput(updatePayload);
+    if (dateSettingsError) {
+      return NextResponse.json({ error: dateSettingsError }, { status: 400 });
+    }
+
+    const timerLimitError = validateTimerLimitInput(updatePayload);
+    if (timerLimitError) {
+      return NextResponse.json({ error: timerLimitError }, { status: 400 });
+    }
+
+    if (updatePayload.idle_timeout_minutes !== undefined) {
+      const idleTimeoutError = validateIdleTimeoutMinutes(
+        updatePayload.idle_timeout_minutes
+      );
+      if (idleTimeoutError) {
+        return NextResponse.json({ error: idleTimeoutError }, { status: 400 });
+      }
+    }
+
     // Check if there are any fields to update
     if (Object.keys(updatePayload).length === 0) {
       return NextResponse.json({
@@ -269,6 +334,20 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const blockingWorkspace = await findWorkspaceBlockingAccountDeletion(
+      supabase,
+      user.id
+    );
+    if (blockingWorkspace) {
+      return NextResponse.json(
+        {
+          error: `Make another member of "${blockingWorkspace}" an admin, or delete that workspace, before deleting your account. Shared workspaces pass to an admin when your account is deleted.`,
+          code: 'WORKSPACE_NEEDS_ADMIN',
+        },
+        { status: 409 }
+      );
+    }
+
     // Step 1: Generate deletion token and set expiration
     const deletionToken = generateDeletionToken();
     const tokenExpiresAt = new Date();
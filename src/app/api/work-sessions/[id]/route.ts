@@ -85,6 +85,18 @@ export async function PATCH(
       );
     }
 
+    // Validate idle time if it's being updated
+    if (
+      updateData.idle_seconds !== undefined &&
+      (!Number.isInteger(updateData.idle_seconds) ||
+        updateData.idle_seconds < 0)
+    ) {
+      return NextResponse.json(
+        { error: 'Idle time must be a whole number of seconds, 0 or more' },
+        { status: 400 }
+      );
+    }
+
     // Validate end_time if it's being updated
     if (updateData.end_time && updateData.start_time) {
       const startTime = new Date(updateData.start_time);
@@ -100,7 +112,7 @@ export async function PATCH(
     // First check if the work session exists and belongs to the user
     const { data: existingWorkSession, error: fetchError } = await supabase
       .from('work_sessions')
-      .select('id, status, start_time')
+      .select('id, status, start_time, idle_seconds')
       .eq('id', workSessionId)
       .eq('user_id', user.id)
       .single();
@@ -117,12 +129,17 @@ export async function PATCH(
       updateData.end_time = new Date().toISOString();
     }
 
-    // If setting end_time, calculate duration if not provided
+    // If setting end_time, calculate duration if not provided (discarded idle
+    // time is not counted)
     if (updateData.end_time && !updateData.duration_seconds) {
       const startTime = new Date(existingWorkSession.start_time);
       const endTime = new Date(updateData.end_time);
-      updateData.duration_seconds = Math.floor(
-        (endTime.getTime() - startTime.getTime()) / 1000
+      const idleSeconds =
+        updateData.idle_seconds ?? existingWorkSession.idle_seconds ?? 0;
+      updateData.duration_seconds = Math.max(
+        0,
+        Math.floor((endTime.getTime() - startTime.getTime()) / 1000) -
+          idleSeconds
       );
     }
 
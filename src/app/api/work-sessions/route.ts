@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { createClient } from '@/lib/supabase/server';
+import {
+  fetchUserDateSettings,
+  getZonedDayRange,
+  parseCalendarDay,
+} from '@/lib/time-zones';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,16 +33,22 @@ export async function GET(request: NextRequest) {
       .eq('user_id', user.id)
       .order('start_time', { ascending: false });
 
-    // Apply filters
+    // Apply filters. The day runs midnight to midnight in the user's zone
     if (date) {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
+      const day = parseCalendarDay(date);
+      if (!day) {
+        return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+      }
+      const { timeZone } = await fetchUserDateSettings(
+        supabase,
+        user.id,
+        searchParams.get('time_zone')
+      );
+      const { start, end } = getZonedDayRange(day, timeZone);
 
       query = query
-        .gte('start_time', startOfDay.toISOString())
-        .lte('start_time', endOfDay.toISOString());
+        .gte('start_time', start.toISOString())
+        .lte('start_time', end.toISOString());
     }
 
     if (status) {
@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import validator from 'validator';
+
+import { sendWorkspaceInvitationEmail } from '@/lib/email';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import {
+  generateWorkspaceInvitationToken,
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  isInvitableWorkspaceRole,
+  WORKSPACE_INVITATION_EXPIRY_DAYS,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+  workspaceInvitationExpiresAt,
+} from '@/lib/workspaces';
+import { CreateWorkspaceInvitationRequest } from '@/types';
+
+async function requireMemberManager(workspaceId: string) {
+  const supabase = await createClient();
+
+  // Get the current user from the session
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const role = await getWorkspaceRole(supabase, user.id, workspaceId);
+  if (!role) {
+    return {
+      response: NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      ),
+    };
+  }
+  if (!hasWorkspacePermission(role, 'manage_members')) {
+    return {
+      response: NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_members },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { supabase, user };
+}
+
+/** Pending invitations (owners and admins) */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workspaceId } = await params;
+    const access = await requireMemberManager(workspaceId);
+    if (access.response) return access.response;
+
+    const { data: invitations, error } = await access.supabase
+      .from('workspace_invitations')
+      .select(
+        'id, workspace_id, email, role, invited_by, expires_at, accepted_at, created_at'
+      )
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching workspace invitations:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ invitations: invitations ?? [] });
+  } catch (error) {
+    console.error('Error in workspace invitations GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invites someone by email (owners and admins). Inviting the same address
+ * again replaces the pending invitation and sends a new link.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workspaceId } = await params;
+    const access = await requireMemberManager(workspaceId);
+    if (access.response) return access.response;
+    const { supabase, user } = access;
+
+    const body: CreateWorkspaceInvitationRequest = await request.json();
+    const email =
+      typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    if (!validator.isEmail(email)) {
+      return NextResponse.json(
+        { error: 'Enter a valid email address' },
+        { status: 400 }
+      );
+    }
+    if (!isInvitableWorkspaceRole(body.role)) {
+      return NextResponse.json(
+        { error: 'Role must be admin, member or viewer' },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+    const [{ data: workspace }, { data: inviter }, { data: invitee }] =
+      await Promise.all([
+        supabase
+          .from('workspaces')
+          .select('name, is_personal')
+          .eq('id', workspaceId)
+          .single(),
+        supabase.from('users').select('name, email').eq('id', user.id).single(),
+        admin.from('users').select('id').eq('email', email).maybeSingle(),
+      ]);
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      );
+    }
+    if (workspace.is_personal) {
+      return NextResponse.json(
+        {
+          error:
+            'Personal workspaces cannot be shared. Create a workspace for your team first.',
+        },
+        { status: 400 }
+      );
+    }
+    if (
+      invitee &&
+      (await getWorkspaceRole(supabase, invitee.id, workspaceId))
+    ) {
+      return NextResponse.json(
+        { error: 'This person is already a member of the workspace' },
+        { status: 409 }
+      );
+    }
+
+    // Replace a pending invitation for the same address
+    await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('email', email)
+      .is('accepted_at', null);
+
+    const token = generateWorkspaceInvitationToken();
+    const { data: invitation, error } = await supabase
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: workspaceId,
+        email,
+        role: body.role,
+        token,
+        invited_by: user.id,
+        expires_at: workspaceInvitationExpiresAt().toISOString(),
+      })
+      .select(
+        'id, workspace_id, email, role, invited_by, expires_at, accepted_at, created_at'
+      )
+      .single();
+
+    if (error) {
+      console.error('Error creating workspace invitation:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const baseUrl =
+      process.env.NODE_ENV === 'production'
+        ? process.env.NEXT_PUBLIC_APP_URL
+        : 'http://localhost:3000';
+    const emailResult = await sendWorkspaceInvitationEmail({
+      to: email,
+      inviterName: inviter?.name || inviter?.email || 'A teammate',
+      workspaceName: workspace.name,
+      role: body.role,
+      acceptLink: `${baseUrl}/invitations/${token}`,
+      expiresInDays: WORKSPACE_INVITATION_EXPIRY_DAYS,
+    });
+
+    if (!emailResult.success) {
+      console.error('Failed to send invitation email:', emailResult.error);
+      return NextResponse.json(
+        {
+          invitation,
+          error: 'The invitation was saved but the email could not be sent',
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    console.error('Error in workspace invitations POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Cancels a pending invitation (?invitation_id=) */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workspaceId } = await params;
+    const access = await requireMemberManager(workspaceId);
+    if (access.response) return access.response;
+
+    const invitationId = request.nextUrl.searchParams.get('invitation_id');
+    if (!invitationId) {
+      return NextResponse.json(
+        { error: 'invitation_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await access.supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', invitationId)
+      .eq('workspace_id', workspaceId);
+
+    if (error) {
+      console.error('Error cancelling workspace invitation:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Invitation cancelled' });
+  } catch (error) {
+    console.error('Error in workspace invitations DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
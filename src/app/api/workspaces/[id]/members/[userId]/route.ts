@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@/lib/supabase/server';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  isInvitableWorkspaceRole,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { UpdateWorkspaceMemberRequest } from '@/types';
+
+/** Changes a member's role (owners and admins; the owner's role is fixed) */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, userId: memberId } = await params;
+    const [role, memberRole] = await Promise.all([
+      getWorkspaceRole(supabase, user.id, workspaceId),
+      getWorkspaceRole(supabase, memberId, workspaceId),
+    ]);
+
+    if (!role || !memberRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (!hasWorkspacePermission(role, 'manage_members')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_members },
+        { status: 403 }
+      );
+    }
+
+    const body: UpdateWorkspaceMemberRequest = await request.json();
+    if (!isInvitableWorkspaceRole(body.role)) {
+      return NextResponse.json(
+        { error: 'Role must be admin, member or viewer' },
+        { status: 400 }
+      );
+    }
+    if (memberRole === 'owner') {
+      return NextResponse.json(
+        { error: "The owner's role cannot be changed" },
+        { status: 400 }
+      );
+    }
+
+    const { data: member, error } = await supabase
+      .from('workspace_members')
+      .update({ role: body.role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating workspace member:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ member });
+  } catch (error) {
+    console.error('Error in workspace member PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Removes a member (owners and admins), or leaves the workspace when the
+ * member is the current user. Their time entries stay in the workspace.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, userId: memberId } = await params;
+    const [role, memberRole] = await Promise.all([
+      getWorkspaceRole(supabase, user.id, workspaceId),
+      getWorkspaceRole(supabase, memberId, workspaceId),
+    ]);
+
+    if (!role || !memberRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (memberRole === 'owner') {
+      return NextResponse.json(
+        { error: 'The owner cannot leave or be removed from a workspace' },
+        { status: 400 }
+      );
+    }
+    if (
+      memberId !== user.id &&
+      !hasWorkspacePermission(role, 'manage_members')
+    ) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_members },
+        { status: 403 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId);
+
+    if (error) {
+      console.error('Error removing workspace member:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Error in workspace member DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getUserProfileSummaries } from '@/lib/assignees';
+import { createClient } from '@/lib/supabase/server';
+import { getWorkspaceRole } from '@/lib/workspaces';
+import { WorkspaceMember } from '@/types';
+
+/** Members of a workspace with their names and emails (any member can list) */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId } = await params;
+    const role = await getWorkspaceRole(supabase, user.id, workspaceId);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: members, error } = await supabase
+      .from('workspace_members')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching workspace members:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const profiles = await getUserProfileSummaries(
+      (members ?? []).map(member => member.user_id)
+    );
+    const result: WorkspaceMember[] = (members ?? []).map(member => ({
+      ...member,
+      user: profiles.get(member.user_id),
+    }));
+
+    return NextResponse.json({ members: result, role });
+  } catch (error) {
+    console.error('Error in workspace members GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@/lib/supabase/server';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { UpdateWorkspaceRequest } from '@/types';
+
+/** Renames a workspace (owners and admins) */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId } = await params;
+    const role = await getWorkspaceRole(supabase, user.id, workspaceId);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      );
+    }
+    if (!hasWorkspacePermission(role, 'manage_workspace')) {
+      return NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_workspace },
+        { status: 403 }
+      );
+    }
+
+    const body: UpdateWorkspaceRequest = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Workspace name must be 1 to 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .update({ name })
+      .eq('id', workspaceId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating workspace:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error('Error in workspace PATCH API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deletes a shared workspace with its projects, tasks, time entries and
+ * invoices (owner only). Personal workspaces cannot be deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId } = await params;
+
+    const { data: workspace, error: fetchError } = await supabase
+      .from('workspaces')
+      .select('id, owner_id, is_personal')
+      .eq('id', workspaceId)
+      .maybeSingle();
+
+    if (fetchError || !workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      );
+    }
+    if (workspace.owner_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the workspace owner can delete it' },
+        { status: 403 }
+      );
+    }
+    if (workspace.is_personal) {
+      return NextResponse.json(
+        { error: 'Your personal workspace cannot be deleted' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('id', workspaceId);
+
+    if (error) {
+      console.error('Error deleting workspace:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Workspace deleted successfully' });
+  } catch (error) {
+    console.error('Error in workspace DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
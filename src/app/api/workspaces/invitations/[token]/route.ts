@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+
+type InvitationLookup =
+  | { response: NextResponse }
+  | {
+      response?: undefined;
+      userId: string;
+      invitation: {
+        id: string;
+        workspace_id: string;
+        email: string;
+        role: string;
+        workspace: { name: string } | null;
+      };
+    };
+
+/**
+ * Finds a pending invitation for the signed-in user. Invitees cannot read
+ * invitations through RLS, so the lookup by token uses the admin client and
+ * the email must match the account.
+ */
+async function findInvitation(token: string): Promise<InvitationLookup> {
+  const supabase = await createClient();
+
+  // Get the current user from the session
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const admin = createAdminClient();
+  const { data: invitation } = await admin
+    .from('workspace_invitations')
+    .select(
+      'id, workspace_id, email, role, expires_at, accepted_at, workspace:workspaces(name)'
+    )
+    .eq('token', token)
+    .maybeSingle();
+
+  if (!invitation || invitation.accepted_at) {
+    return {
+      response: NextResponse.json(
+        { error: 'This invitation is no longer valid' },
+        { status: 404 }
+      ),
+    };
+  }
+  if (new Date(invitation.expires_at) < new Date()) {
+    return {
+      response: NextResponse.json(
+        {
+          error:
+            'This invitation has expired. Ask the workspace admin for a new one.',
+        },
+        { status: 400 }
+      ),
+    };
+  }
+  if ((user.email ?? '').toLowerCase() !== invitation.email) {
+    return {
+      response: NextResponse.json(
+        {
+          error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return {
+    userId: user.id,
+    invitation: {
+      ...invitation,
+      workspace: invitation.workspace as unknown as { name: string } | null,
+    },
+  };
+}
+
+/** Workspace name and role of a pending invitation */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const lookup = await findInvitation(token);
+    if (lookup.response) return lookup.response;
+
+    return NextResponse.json({
+      invitation: {
+        workspace_name: lookup.invitation.workspace?.name ?? '',
+        role: lookup.invitation.role,
+        email: lookup.invitation.email,
+      },
+    });
+  } catch (error) {
+    console.error('Error in workspace invitation GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Accepts the invitation and switches to the workspace */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const lookup = await findInvitation(token);
+    if (lookup.response) return lookup.response;
+    const { userId, invitation } = lookup;
+
+    const admin = createAdminClient();
+    const { error: memberError } = await admin.from('workspace_members').upsert(
+      {
+        workspace_id: invitation.workspace_id,
+        user_id: userId,
+        role: invitation.role,
+      },
+      { onConflict: 'workspace_id,user_id', ignoreDuplicates: true }
+    );
+
+    if (memberError) {
+      console.error('Error adding workspace member:', memberError);
+      return NextResponse.json({ error: memberError.message }, { status: 500 });
+    }
+
+    const now = new Date().toISOString();
+    const [{ error: acceptError }, { error: switchError }] = await Promise.all([
+      admin
+        .from('workspace_invitations')
+        .update({ accepted_at: now })
+        .eq('id', invitation.id),
+      admin
+        .from('users')
+        .update({ active_workspace_id: invitation.workspace_id })
+        .eq('id', userId),
+    ]);
+
+    if (acceptError || switchError) {
+      console.error(
+        'Error finishing workspace invitation:',
+        acceptError ?? switchError
+      );
+    }
+
+    return NextResponse.json({
+      workspace_id: invitation.workspace_id,
+      message: 'Invitation accepted',
+    });
+  } catch (error) {
+    console.error('Error in workspace invitation POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getActiveWorkspace } from '@/lib/workspaces';
+import {
+  CreateWorkspaceRequest,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/types';
+
+/** Workspaces the user belongs to, with their role and the active one marked */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [active, { data: memberships, error }] = await Promise.all([
+      getActiveWorkspace(supabase, user.id),
+      supabase
+        .from('workspace_members')
+        .select('role, workspace:workspaces(*)')
+        .eq('user_id', user.id),
+    ]);
+
+    if (error) {
+      console.error('Error fetching workspaces:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const workspaces: WorkspaceWithRole[] = (memberships ?? [])
+      .flatMap(row => {
+        const workspace = row.workspace as unknown as Workspace | null;
+        return workspace
+          ? [
+              {
+                ...workspace,
+                role: row.role as WorkspaceRole,
+                is_active: workspace.id === active.id,
+              },
+            ]
+          : [];
+      })
+      // Personal workspace first, then by name
+      .sort(
+        (a, b) =>
+          Number(b.is_personal) - Number(a.is_personal) ||
+          a.name.localeCompare(b.name)
+      );
+
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    console.error('Error in workspaces GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Creates a shared workspace owned by the user */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Get the current user from the session
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: CreateWorkspaceRequest = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Workspace name must be 1 to 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .insert({ name, owner_id: user.id, is_personal: false })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating workspace:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      {
+        workspace: { ...workspace, role: 'owner', is_active: false },
+        message: 'Workspace created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in workspaces POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { createClient } from '@/lib/supabase/server';
+import { getSafeNextPath } from '@/lib/utils';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const code = searchParams.get('code');
-  const next = searchParams.get('next') ?? '/dashboard';
+  const next = getSafeNextPath(searchParams.get('next'));
 
   // Use canonical app URL in production so redirect always goes to orasan.app
   // even if request host is wrong (e.g. proxy or Supabase redirecting to localhost).
@@ -19,7 +20,7 @@ export async function GET(request: NextRequest) {
     const { error } = await supabase.auth.exchangeCodeForSession(code);
 
     if (!error) {
-      // Successful authentication, redirect to dashboard
+      // Successful authentication, redirect to where sign-in started
       return NextResponse.redirect(`${baseUrl}${next}`);
     }
   }
@@ -4,12 +4,13 @@ import { type NextRequest } from 'next/server';
 import { type EmailOtpType } from '@supabase/supabase-js';
 
 import { createClient } from '@/lib/supabase/server';
+import { getSafeNextPath } from '@/lib/utils';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const token_hash = searchParams.get('token_hash');
   const type = searchParams.get('type') as EmailOtpType | null;
-  const next = searchParams.get('next') ?? '/dashboard';
+  const next = getSafeNextPath(searchParams.get('next'));
 
   if (token_hash && type) {
     const supabase = await createClient();
@@ -17,12 +17,14 @@ import {
 } from '@/components/ui/card';
 import { useAuth } from '@/contexts/auth-context';
 import { useErrorDisplay } from '@/hooks/useErrorDisplay';
+import { getSafeNextPath } from '@/lib/utils';
 
 function LoginPageContent() {
   const [isLoading, setIsLoading] = useState<string | null>(null);
   const { signIn } = useAuth();
   const searchParams = useSearchParams();
   const error = searchParams.get('error');
+  const next = searchParams.get('next');
 
   // Handle errors with the new error display hook
   const { shouldShowErrorDisplay, ErrorDisplayComponent, inlineErrorMessage } =
@@ -36,7 +38,7 @@ function LoginPageContent() {
   const handleOAuthSignIn = async (provider: 'github' | 'google') => {
     try {
       setIsLoading(provider);
-      await signIn(provider);
+      await signIn(provider, next ? getSafeNextPath(next) : undefined);
     } catch (error) {
       console.error(`Error signing in with ${provider}:`, error);
       setIsLoading(null);
@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useParams } from 'next/navigation';
+
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import { formatDate } from '@/lib/utils';
+import { ClientPortalInvoice, ClientPortalResponse } from '@/types';
+
+type PortalState =
+  | { status: 'loading' }
+  | { status: 'ready'; portal: ClientPortalResponse }
+  | { status: 'error'; message: string };
+
+/** Amount still owed per currency, for the summary above the list */
+function getBalancesByCurrency(
+  invoices: ClientPortalInvoice[]
+): Array<{ currency_code: string; balance_due: number }> {
+  const balances = new Map<string, number>();
+  for (const invoice of invoices) {
+    if (invoice.balance_due <= 0) continue;
+    balances.set(
+      invoice.currency_code,
+      (balances.get(invoice.currency_code) ?? 0) + invoice.balance_due
+    );
+  }
+  return [...balances]
+    .map(([currency_code, balance_due]) => ({ currency_code, balance_due }))
+    .sort((a, b) => a.currency_code.localeCompare(b.currency_code));
+}
+
+export default function ClientPortalPage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<PortalState>({ status: 'loading' });
+
+  useEffect(() => {
+    const loadPortal = async () => {
+      try {
+        const response = await fetch(
+          `/api/client-portal/${encodeURIComponent(token)}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          setState({
+            status: 'error',
+            message: data.error || 'This link is no longer valid',
+          });
+          return;
+        }
+
+        setState({ status: 'ready', portal: data });
+      } catch (error) {
+        console.error('Client portal error:', error);
+        setState({
+          status: 'error',
+          message:
+            'Unable to load your invoices. Please check your internet connection and try again.',
+        });
+      }
+    };
+
+    loadPortal();
+  }, [token]);
+
+  if (state.status !== 'ready') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center space-y-4">
+            {state.status === 'loading' ? (
+              <>
+                <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto" />
+                <p className="text-gray-600">Loading invoices...</p>
+              </>
+            ) : (
+              <>
+                <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
+                <p className="text-gray-600 text-sm">{state.message}</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { portal } = state;
+  const balances = getBalancesByCurrency(portal.invoices);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Invoices for {portal.client_name}
+          </h1>
+          {portal.business_name && (
+            <p className="text-gray-600">From {portal.business_name}</p>
+          )}
+          {portal.expires_at && (
+            <p className="text-sm text-muted-foreground">
+              This link works until {formatDate(portal.expires_at)}.
+            </p>
+          )}
+        </div>
+
+        {balances.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Outstanding balance</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {balances.map(balance => (
+                <p
+                  key={balance.currency_code}
+                  className="text-xl font-semibold"
+                >
+                  {formatPriceWithCurrency(
+                    balance.balance_due,
+                    balance.currency_code
+                  )}
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            {portal.invoices.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No invoices yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Invoice</th>
+                    <th className="px-4 py-3 font-medium">Issued</th>
+                    <th className="px-4 py-3 font-medium">Due</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Total</th>
+                    <th className="px-4 py-3 font-medium text-right">Paid</th>
+                    <th className="px-4 py-3 font-medium text-right">
+                      Balance
+                    </th>
+                    <th className="px-4 py-3" aria-label="Download" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {portal.invoices.map(invoice => (
+                    <tr key={invoice.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">
+                          {invoice.invoice_number}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {invoice.project_name}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatDate(invoice.issue_date)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {invoice.due_date ? formatDate(invoice.due_date) : '—'}
+                      </td>
+                      <td className="px-4 py-3 capitalize">{invoice.status}</td>
+                      <td className="px-4 py-3 text-right">
+                        {formatPriceWithCurrency(
+                          invoice.total_amount,
+                          invoice.currency_code
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {formatPriceWithCurrency(
+                          invoice.amount_paid,
+                          invoice.currency_code
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium">
+                        {formatPriceWithCurrency(
+                          invoice.balance_due,
+                          invoice.currency_code
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <a
+                          href={`/api/invoices/${invoice.id}/pdf?portal=${encodeURIComponent(token)}`}
+                          className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+                        >
+                          <Download className="h-4 w-4" />
+                          PDF
+                        </a>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+import { ClientModal } from '@/components/clients/ClientModal';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Header } from '@/components/ui/header';
+import { useAuth } from '@/contexts/auth-context';
+import { useClients } from '@/hooks/useClients';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import { formatReportHours } from '@/lib/reports';
+import { truncateTextSmart } from '@/lib/utils';
+import { hasWorkspacePermission } from '@/lib/workspaces';
+import { Client, CreateClientRequest } from '@/types';
+
+export default function ClientsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { activeWorkspace } = useWorkspaces();
+  const { clients, loading, error, createClient, updateClient, deleteClient } =
+    useClients();
+
+  const [showClientModal, setShowClientModal] = useState(false);
+  const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const canManageClients = hasWorkspacePermission(
+    activeWorkspace?.role,
+    'manage_projects'
+  );
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
+    }
+  }, [user, authLoading, router]);
+
+  const openClientModal = (client: Client | null) => {
+    setEditingClient(client);
+    setShowClientModal(true);
+  };
+
+  const handleSave = (data: CreateClientRequest) =>
+    editingClient ? updateClient(editingClient.id, data) : createClient(data);
+
+  const handleDelete = async (client: Client) => {
+    if (!window.confirm(`Delete client "${client.name}"?`)) return;
+    setActionError(null);
+    const result = await deleteClient(client.id);
+    if (!result.success) {
+      setActionError(result.error ?? 'Failed to delete client');
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to signin
+  }
+
+  const displayError = actionError ?? error;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Breadcrumb
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Clients', href: '/dashboard/clients' },
+          ]}
+          className="mb-6"
+        />
+
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Clients</h1>
+            <p className="text-gray-600">
+              Clients shared by the projects in{' '}
+              {activeWorkspace && !activeWorkspace.is_personal
+                ? activeWorkspace.name
+                : 'your workspace'}
+              , with tracked time and invoiced amounts.
+            </p>
+          </div>
+          {canManageClients && (
+            <Button onClick={() => openClientModal(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Client
+            </Button>
+          )}
+        </div>
+
+        {displayError && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <p className="text-red-600 text-sm">{displayError}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm">Loading clients...</p>
+        ) : clients.length === 0 ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-gray-500 text-sm">
+                No clients yet. Create one here or from a project&apos;s
+                settings.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Client</th>
+                    <th className="px-4 py-3 font-medium text-right">
+                      Projects
+                    </th>
+                    <th className="px-4 py-3 font-medium text-right">Hours</th>
+                    <th className="px-4 py-3 font-medium text-right">
+                      Invoiced
+                    </th>
+                    <th className="px-4 py-3 font-medium text-right">Paid</th>
+                    {canManageClients && <th className="px-4 py-3"></th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {clients.map(client => (
+                    <tr key={client.id} className="align-top">
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">
+                          {truncateTextSmart(client.name, 50)}
+                        </div>
+                        {(client.email || client.phone) && (
+                          <div className="text-xs text-gray-500">
+                            {[client.email, client.phone]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {client.totals.project_count}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {formatReportHours(client.totals.tracked_seconds)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {client.totals.invoiced.length === 0
+                          ? '—'
+                          : client.totals.invoiced.map(total => (
+                              <div key={total.currency_code}>
+                                {formatPriceWithCurrency(
+                                  total.invoiced,
+                                  total.currency_code
+                                )}
+                              </div>
+                            ))}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {client.totals.invoiced.length === 0
+                          ? '—'
+                          : client.totals.invoiced.map(total => (
+                              <div key={total.currency_code}>
+                                {formatPriceWithCurrency(
+                                  total.paid,
+                                  total.currency_code
+                                )}
+                              </div>
+                            ))}
+                      </td>
+                      {canManageClients && (
+                        <td className="px-4 py-3">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openClientModal(client)}
+                              aria-label={`Edit ${client.name}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(client)}
+                              aria-label={`Delete ${client.name}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <ClientModal
+        open={showClientModal}
+        onOpenChange={setShowClientModal}
+        client={editingClient}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,572 @@
+'use client';
+
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+import { Upload } from 'lucide-react';
+
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Header } from '@/components/ui/header';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/auth-context';
+import { useProjects } from '@/hooks/useProjects';
+import { useUser } from '@/hooks/useUser';
+import { currencies } from '@/lib/currencies';
+import { formatReportHours } from '@/lib/reports';
+import {
+  buildTimeEntryImportRows,
+  detectTimeEntryImportSource,
+  getTimeEntryImportDefaults,
+  isTimeEntryImportSource,
+  parseCsv,
+  TIME_ENTRY_IMPORT_FALLBACK_TASK,
+  TIME_ENTRY_IMPORT_FIELDS,
+  TIME_ENTRY_IMPORT_MAX_ROWS,
+  TIME_ENTRY_IMPORT_SOURCES,
+  TimeEntryImportDateOrder,
+  TimeEntryImportField,
+  TimeEntryImportMapping,
+  TimeEntryImportSource,
+} from '@/lib/time-entry-import';
+import { getBrowserTimeZone, getDateSettings } from '@/lib/time-zones';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { TimeEntryImportResponse, TimeEntryImportRowStatus } from '@/types';
+
+// Select value for fields the file does not have
+const NOT_IN_FILE = '__none__';
+// Rows listed in the preview table; the summary counts all of them
+const PREVIEW_ROW_LIMIT = 200;
+
+const STATUS_STYLES: Record<TimeEntryImportRowStatus, string> = {
+  ok: 'text-green-700',
+  warning: 'text-yellow-700',
+  error: 'text-red-700',
+};
+
+const STATUS_LABELS: Record<TimeEntryImportRowStatus, string> = {
+  ok: 'Ready',
+  warning: 'Warning',
+  error: 'Skipped',
+};
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  records: string[][];
+}
+
+export default function ImportTimeEntriesPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { user: userProfile } = useUser();
+  const { projects, refreshProjects } = useProjects();
+  const router = useRouter();
+
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [source, setSource] = useState<TimeEntryImportSource>('other');
+  const [mapping, setMapping] = useState<TimeEntryImportMapping>({});
+  const [dateOrder, setDateOrder] = useState<TimeEntryImportDateOrder>('mdy');
+  const [defaultCurrency, setDefaultCurrency] = useState('USD');
+  const [preview, setPreview] = useState<TimeEntryImportResponse | null>(null);
+  const [result, setResult] = useState<TimeEntryImportResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const timeZone = getDateSettings(userProfile, getBrowserTimeZone()).timeZone;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
+    }
+  }, [user, authLoading, router]);
+
+  // New projects default to the currency most existing projects use
+  useEffect(() => {
+    const counts = new Map<string, number>();
+    for (const project of projects) {
+      if (!project.currency_code) continue;
+      counts.set(
+        project.currency_code,
+        (counts.get(project.currency_code) ?? 0) + 1
+      );
+    }
+    const [mostUsed] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (mostUsed) setDefaultCurrency(mostUsed[0]);
+  }, [projects]);
+
+  const parsed = useMemo(
+    () =>
+      file
+        ? buildTimeEntryImportRows(file.headers, file.records, mapping, {
+            timeZone,
+            dateOrder,
+          })
+        : null,
+    [file, mapping, timeZone, dateOrder]
+  );
+
+  function resetResults() {
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  }
+
+  async function handleFileChange(event: ChangeEvent<HTMLInputElement>) {
+    const selected = event.target.files?.[0];
+    resetResults();
+    if (!selected) return;
+
+    const { headers, records } = parseCsv(await selected.text());
+    if (headers.length === 0 || records.length === 0) {
+      setFile(null);
+      setError('The file has no rows to import');
+      return;
+    }
+    const detected = detectTimeEntryImportSource(headers);
+    const defaults = getTimeEntryImportDefaults(detected, headers);
+    setFile({ name: selected.name, headers, records });
+    setSource(detected);
+    setMapping(defaults.mapping);
+    setDateOrder(defaults.dateOrder);
+  }
+
+  function handleSourceChange(value: string) {
+    if (!file || !isTimeEntryImportSource(value)) return;
+    const defaults = getTimeEntryImportDefaults(value, file.headers);
+    setSource(value);
+    setMapping(defaults.mapping);
+    setDateOrder(defaults.dateOrder);
+    resetResults();
+  }
+
+  function handleMappingChange(field: TimeEntryImportField, header: string) {
+    setMapping(current => {
+      const next = { ...current };
+      if (header === NOT_IN_FILE) delete next[field];
+      else next[field] = header;
+      return next;
+    });
+    resetResults();
+  }
+
+  async function submit(dryRun: boolean) {
+    if (!parsed) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/time-entries/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: parsed.rows,
+          default_currency: defaultCurrency,
+          dry_run: dryRun,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        setError(data.error || 'Import failed');
+        return;
+      }
+      if (dryRun) {
+        setPreview(data as TimeEntryImportResponse);
+      } else {
+        setResult(data as TimeEntryImportResponse);
+        setPreview(null);
+        void refreshProjects();
+      }
+    } catch {
+      setError('Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to signin
+  }
+
+  const previewRows = preview
+    ? [...preview.rows]
+        .sort(
+          (a, b) =>
+            Number(b.status !== 'ok') - Number(a.status !== 'ok') ||
+            a.line - b.line
+        )
+        .slice(0, PREVIEW_ROW_LIMIT)
+    : [];
+  const tooManyRows =
+    !!parsed && parsed.rows.length > TIME_ENTRY_IMPORT_MAX_ROWS;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Breadcrumb
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Import', href: '/dashboard/import' },
+          ]}
+          className="mb-6"
+        />
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Import time entries
+          </h1>
+          <p className="text-gray-600">
+            Bring in history from Toggl Track, Clockify, Harvest, another CSV,
+            or an Orasan export. Projects and tasks that do not exist yet are
+            created for you.
+          </p>
+        </div>
+
+        {error && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {result?.imported ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import complete</CardTitle>
+              <CardDescription>
+                {result.imported.time_entries} time entries imported
+                {result.imported.projects > 0 &&
+                  `, ${result.imported.projects} projects created`}
+                {result.imported.tasks > 0 &&
+                  `, ${result.imported.tasks} tasks created`}
+                .
+                {result.summary.error_rows > 0 &&
+                  ` ${result.summary.error_rows} rows with errors were skipped.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              <Button asChild>
+                <Link href="/dashboard/reports">View reports</Link>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setFile(null);
+                  resetResults();
+                }}
+              >
+                Import another file
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>1. Choose a file</CardTitle>
+                <CardDescription>
+                  Export a detailed report as CSV from your old tracker. For an
+                  Orasan export, use csv/time_entries.csv from the downloaded
+                  ZIP.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="import-file">CSV file</Label>
+                  <Input
+                    id="import-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={handleFileChange}
+                    disabled={isWorking}
+                  />
+                </div>
+                {file && (
+                  <p className="text-sm text-muted-foreground">
+                    {file.records.length} rows in {file.name}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {file && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>2. Match the columns</CardTitle>
+                  <CardDescription>
+                    Dates without a time zone are read in {timeZone}. Rows
+                    without a clock time (such as Harvest&apos;s) are placed
+                    back to back from 9:00 on their day, and rows without a task
+                    go to &ldquo;{TIME_ENTRY_IMPORT_FALLBACK_TASK}&rdquo;.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="flex flex-wrap gap-4">
+                    <div className="space-y-2">
+                      <Label>Format</Label>
+                      <Select value={source} onValueChange={handleSourceChange}>
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TIME_ENTRY_IMPORT_SOURCES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Dates like 03/04/2025 are</Label>
+                      <Select
+                        value={dateOrder}
+                        onValueChange={value => {
+                          setDateOrder(value as TimeEntryImportDateOrder);
+                          resetResults();
+                        }}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="mdy">Month/day/year</SelectItem>
+                          <SelectItem value="dmy">Day/month/year</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Currency for new projects</Label>
+                      <Select
+                        value={defaultCurrency}
+                        onValueChange={value => {
+                          setDefaultCurrency(value);
+                          resetResults();
+                        }}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {currencies.map(currency => (
+                            <SelectItem
+                              key={currency.code}
+                              value={currency.code}
+                            >
+                              {currency.code} - {currency.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {TIME_ENTRY_IMPORT_FIELDS.map(field => (
+                      <div key={field.value} className="space-y-2">
+                        <Label>{field.label}</Label>
+                        <Select
+                          value={mapping[field.value] ?? NOT_IN_FILE}
+                          onValueChange={value =>
+                            handleMappingChange(field.value, value)
+                          }
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_IN_FILE}>
+                              Not in file
+                            </SelectItem>
+                            {file.headers
+                              .filter(Boolean)
+                              .map((header, index) => (
+                                <SelectItem
+                                  key={`${header}-${index}`}
+                                  value={header}
+                                >
+                                  {header}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  {parsed && parsed.errors.length > 0 && (
+                    <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                      <p className="font-medium">
+                        {parsed.errors.length} rows cannot be read and will be
+                        skipped:
+                      </p>
+                      <ul className="mt-1 list-disc pl-5">
+                        {parsed.errors.slice(0, 10).map(rowError => (
+                          <li key={rowError.line}>
+                            Line {rowError.line}: {rowError.message}
+                          </li>
+                        ))}
+                        {parsed.errors.length > 10 && (
+                          <li>and {parsed.errors.length - 10} more</li>
+                        )}
+                      </ul>
+                    </div>
+                  )}
+
+                  {tooManyRows && (
+                    <p className="text-sm text-red-600">
+                      Import at most {TIME_ENTRY_IMPORT_MAX_ROWS} rows at a
+                      time; split the file and import each part.
+                    </p>
+                  )}
+
+                  <Button
+                    onClick={() => submit(true)}
+                    disabled={
+                      isWorking ||
+                      !parsed ||
+                      parsed.rows.length === 0 ||
+                      tooManyRows
+                    }
+                  >
+                    {isWorking && !preview ? 'Checking...' : 'Preview import'}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {preview && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>3. Review and import</CardTitle>
+                  <CardDescription>
+                    {preview.summary.importable_rows} of{' '}
+                    {preview.summary.total_rows} rows will be imported (
+                    {formatReportHours(preview.summary.total_seconds)} hours)
+                    {preview.summary.new_projects > 0 &&
+                      `, creating ${preview.summary.new_projects} projects`}
+                    {preview.summary.new_tasks > 0 &&
+                      ` and ${preview.summary.new_tasks} tasks`}
+                    . {preview.summary.warning_rows} rows have warnings and
+                    still import; {preview.summary.error_rows} rows with errors
+                    are skipped. New projects bill hourly at 0 until you set a
+                    rate.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-gray-500">
+                          <th className="py-2 px-3 font-medium">Line</th>
+                          <th className="py-2 px-3 font-medium">Status</th>
+                          <th className="py-2 px-3 font-medium">
+                            Project / task
+                          </th>
+                          <th className="py-2 px-3 font-medium">Start</th>
+                          <th className="py-2 px-3 text-right font-medium">
+                            Hours
+                          </th>
+                          <th className="py-2 px-3 font-medium">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {previewRows.map(row => (
+                          <tr key={row.line} className="border-b align-top">
+                            <td className="py-2 px-3 text-gray-500">
+                              {row.line}
+                            </td>
+                            <td
+                              className={`py-2 px-3 font-medium ${STATUS_STYLES[row.status]}`}
+                            >
+                              {STATUS_LABELS[row.status]}
+                            </td>
+                            <td className="py-2 px-3">
+                              <div className="text-gray-900">
+                                {row.project_name ?? '—'}
+                                {row.new_project && (
+                                  <span className="ml-1 text-xs text-blue-600">
+                                    new
+                                  </span>
+                                )}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {row.task_name ?? '—'}
+                                {row.new_task && (
+                                  <span className="ml-1 text-blue-600">
+                                    new
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+                            <td className="py-2 px-3 whitespace-nowrap">
+                              {new Date(row.start_time).toLocaleString(
+                                undefined,
+                                { timeZone }
+                              )}
+                            </td>
+                            <td className="py-2 px-3 text-right font-mono">
+                              {formatReportHours(row.duration_seconds)}
+                            </td>
+                            <td className="py-2 px-3 text-gray-600">
+                              {row.messages.join('; ')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {preview.rows.length > previewRows.length && (
+                    <p className="text-xs text-muted-foreground">
+                      Showing {previewRows.length} of {preview.rows.length}{' '}
+                      rows, those with problems first.
+                    </p>
+                  )}
+                  <Button
+                    onClick={() => submit(false)}
+                    disabled={
+                      isWorking || preview.summary.importable_rows === 0
+                    }
+                  >
+                    <Upload className="h-4 w-4" />
+                    {isWorking
+                      ? 'Importing...'
+                      : `Import ${preview.summary.importable_rows} time entries`}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
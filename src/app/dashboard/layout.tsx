@@ -2,6 +2,7 @@
 
 import { ReactNode } from 'react';
 
+import { IdleTimeModal } from '@/components/dashboard/IdleTimeModal';
 import { TimerLimitDisplay } from '@/components/ui/timer-limit-display';
 import { useWorkSessionManager } from '@/hooks/useWorkSessionManager';
 
@@ -9,10 +10,18 @@ interface DashboardLayoutProps {
   children: ReactNode;
 }
 
-// Simple component that initializes work session manager
+// Initializes the work session manager and asks about idle time
 function WorkSessionManager() {
-  useWorkSessionManager();
-  return null;
+  const { idlePeriod, isResolvingIdle, idleError, resolveIdlePeriod } =
+    useWorkSessionManager();
+  return (
+    <IdleTimeModal
+      idlePeriod={idlePeriod}
+      isResolving={isResolvingIdle}
+      error={idleError}
+      onResolve={action => void resolveIdlePeriod(action)}
+    />
+  );
 }
 
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
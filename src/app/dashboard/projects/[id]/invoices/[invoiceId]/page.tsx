@@ -7,15 +7,32 @@ import { useParams, useRouter } from 'next/navigation';
 
 import { ChevronLeft, ChevronRight, MoreVertical, Trash2 } from 'lucide-react';
 
+import { ClientPortalLinksCard } from '@/components/invoices/ClientPortalLinksCard';
 import { DeleteInvoiceModal } from '@/components/invoices/DeleteInvoiceModal';
 import { EditInvoiceModal } from '@/components/invoices/EditInvoiceModal';
+import { RecordPaymentModal } from '@/components/invoices/RecordPaymentModal';
+import { SendInvoiceModal } from '@/components/invoices/SendInvoiceModal';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 import { Header } from '@/components/ui/header';
 import { useAuth } from '@/contexts/auth-context';
 import { useUser } from '@/hooks/useUser';
 import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  formatPaymentMethod,
+  getInvoiceAmountPaid,
+  getInvoiceBalanceDue,
+  PAYABLE_INVOICE_STATUSES,
+} from '@/lib/invoice-payments';
+import {
+  formatInvoiceAdjustment,
+  formatInvoiceDiscount,
+  getInvoiceAdjustmentRows,
+  getInvoiceDiscount,
+  getInvoiceItemAmount,
+} from '@/lib/invoice-totals';
 import { INVOICE_ITEMS_PER_PAGE } from '@/lib/invoice-utils';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
 import { formatDate } from '@/lib/utils';
 import { InvoiceWithDetails } from '@/types';
 
@@ -41,6 +58,11 @@ export default function InvoiceDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [showOptionsMenu, setShowOptionsMenu] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isSendModalOpen, setIsSendModalOpen] = useState(false);
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+  const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(
+    null
+  );
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -130,6 +152,27 @@ export default function InvoiceDetailPage() {
     }
   }
 
+  async function handleDeletePayment(paymentId: string) {
+    setDeletingPaymentId(paymentId);
+    try {
+      const res = await fetch(
+        `/api/invoices/${invoiceId}/payments/${paymentId}`,
+        { method: 'DELETE' }
+      );
+      if (!res.ok) {
+        const handled = await checkAndHandleUnauthorized(res);
+        if (handled) return;
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? 'Failed to delete payment');
+      }
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete payment');
+    } finally {
+      setDeletingPaymentId(null);
+    }
+  }
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -173,6 +216,21 @@ export default function InvoiceDetailPage() {
   const pageItems = items.slice(startIdx, startIdx + INVOICE_ITEMS_PER_PAGE);
   const isLastPage = currentPage === totalPages;
   const isPro = profile?.subscription_tier === 'pro';
+  const payments = [...(invoice.payments ?? [])].sort((a, b) =>
+    a.paid_on === b.paid_on
+      ? a.created_at.localeCompare(b.created_at)
+      : a.paid_on.localeCompare(b.paid_on)
+  );
+  const amountPaid = getInvoiceAmountPaid(payments);
+  const balanceDue = getInvoiceBalanceDue(invoice.total_amount, payments);
+  const canRecordPayment =
+    isPro &&
+    PAYABLE_INVOICE_STATUSES.includes(invoice.status) &&
+    balanceDue > 0;
+  const canSend =
+    invoice.status === 'draft' ||
+    invoice.status === 'sent' ||
+    invoice.status === 'overdue';
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -221,6 +279,18 @@ export default function InvoiceDetailPage() {
                     >
                       Edit
                     </button>
+                    {canSend && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setIsSendModalOpen(true);
+                          setShowOptionsMenu(false);
+                        }}
+                        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-gray-100"
+                      >
+                        {invoice.sent_at ? 'Resend' : 'Send'} Invoice
+                      </button>
+                    )}
                     <a
                       href={`/api/invoices/${invoiceId}/pdf`}
                       target="_blank"
@@ -286,6 +356,16 @@ export default function InvoiceDetailPage() {
                       {invoice.due_date ? formatDate(invoice.due_date) : '—'}
                     </td>
                   </tr>
+                  {invoice.sent_at && (
+                    <tr>
+                      <td className="pr-4 text-left">Sent</td>
+                      <td>
+                        {formatDate(invoice.sent_at)}
+                        {invoice.sent_to_email &&
+                          ` to ${invoice.sent_to_email}`}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -336,29 +416,51 @@ export default function InvoiceDetailPage() {
                 </tr>
               </thead>
               <tbody>
-                {pageItems.map(item => (
-                  <tr key={item.id} className="border-b">
-                    <td className="py-2">{item.name}</td>
-                    <td className="py-2 text-right">{item.quantity}</td>
-                    <td className="py-2 text-right">
-                      {formatPriceWithCurrency(
-                        item.unit_price,
-                        currencyCode,
-                        false
-                      )}
-                    </td>
-                    <td className="py-2 text-right">
-                      {formatRateType(item.rate_type ?? null)}
-                    </td>
-                    <td className="py-2 text-right">
-                      {formatPriceWithCurrency(
-                        item.total_cost,
-                        currencyCode,
-                        false
-                      )}
-                    </td>
-                  </tr>
-                ))}
+                {pageItems.map(item => {
+                  const itemDiscount = getInvoiceDiscount(item);
+                  return (
+                    <tr key={item.id} className="border-b">
+                      <td className="py-2">
+                        <div>{item.name}</div>
+                        {item.description && (
+                          <p className="whitespace-pre-line text-xs text-muted-foreground">
+                            {item.description}
+                          </p>
+                        )}
+                        {itemDiscount && item.discount_amount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Discount{' '}
+                            {formatInvoiceDiscount(itemDiscount, currencyCode)}:
+                            -
+                            {formatPriceWithCurrency(
+                              item.discount_amount,
+                              currencyCode,
+                              false
+                            )}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{item.quantity}</td>
+                      <td className="py-2 text-right">
+                        {formatPriceWithCurrency(
+                          item.unit_price,
+                          currencyCode,
+                          false
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatRateType(item.rate_type ?? null)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatPriceWithCurrency(
+                          getInvoiceItemAmount(item),
+                          currencyCode,
+                          false
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -373,15 +475,17 @@ export default function InvoiceDetailPage() {
                       {formatPriceWithCurrency(invoice.subtotal, currencyCode)}
                     </dd>
                   </div>
-                  <div className="flex justify-between border-t pt-2">
-                    <dt>Tax ({invoice.tax_rate ?? 0}%)</dt>
-                    <dd>
-                      {formatPriceWithCurrency(
-                        invoice.tax_amount ?? 0,
-                        currencyCode
-                      )}
-                    </dd>
-                  </div>
+                  {getInvoiceAdjustmentRows(invoice).map((row, index) => (
+                    <div
+                      key={`${row.label}-${index}`}
+                      className="flex justify-between border-t pt-2"
+                    >
+                      <dt>{row.label}</dt>
+                      <dd>
+                        {formatInvoiceAdjustment(row.amount, currencyCode)}
+                      </dd>
+                    </div>
+                  ))}
                   <div className="flex justify-between border-t pt-2">
                     <dt>Total</dt>
                     <dd>
@@ -391,14 +495,17 @@ export default function InvoiceDetailPage() {
                       )}
                     </dd>
                   </div>
+                  {amountPaid > 0 && (
+                    <div className="flex justify-between border-t pt-2">
+                      <dt>Amount paid</dt>
+                      <dd>
+                        -{formatPriceWithCurrency(amountPaid, currencyCode)}
+                      </dd>
+                    </div>
+                  )}
                   <div className="flex justify-between border-t pt-2 font-semibold">
                     <dt>Amount due</dt>
-                    <dd>
-                      {formatPriceWithCurrency(
-                        invoice.total_amount,
-                        currencyCode
-                      )}
-                    </dd>
+                    <dd>{formatPriceWithCurrency(balanceDue, currencyCode)}</dd>
                   </div>
                 </dl>
               </div>
@@ -413,6 +520,82 @@ export default function InvoiceDetailPage() {
           </div>
         )}
 
+        {isLastPage && (payments.length > 0 || canRecordPayment) && (
+          <div className="mb-8">
+            <div className="mb-2 flex items-center justify-between gap-4">
+              <h2 className="font-semibold">Payments</h2>
+              {canRecordPayment && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsPaymentModalOpen(true)}
+                >
+                  Record Payment
+                </Button>
+              )}
+            </div>
+            {payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No payments recorded.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 font-semibold">Date</th>
+                      <th className="text-left py-2 font-semibold">Method</th>
+                      <th className="text-left py-2 font-semibold">
+                        Reference
+                      </th>
+                      <th className="text-right py-2 font-semibold">
+                        Amount ({currencyCode})
+                      </th>
+                      {isPro && <th className="py-2" aria-label="Actions" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payments.map(payment => (
+                      <tr key={payment.id} className="border-b">
+                        <td className="py-2">
+                          {formatDate(new Date(`${payment.paid_on}T00:00:00`))}
+                        </td>
+                        <td className="py-2">
+                          {formatPaymentMethod(payment.method)}
+                        </td>
+                        <td className="py-2">{payment.reference || '—'}</td>
+                        <td className="py-2 text-right">
+                          {formatPriceWithCurrency(
+                            payment.amount,
+                            currencyCode,
+                            false
+                          )}
+                        </td>
+                        {isPro && (
+                          <td className="py-2 text-right">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                              onClick={() => handleDeletePayment(payment.id)}
+                              disabled={deletingPaymentId === payment.id}
+                              aria-label="Delete payment"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {totalPages > 1 && (
           <div className="flex items-center justify-end gap-2">
             <Button
@@ -439,6 +622,13 @@ export default function InvoiceDetailPage() {
           </div>
         )}
 
+        <div className="mt-8">
+          <ClientPortalLinksCard
+            clientId={project?.client_id}
+            clientName={clientName}
+          />
+        </div>
+
         {isPro && (
           <>
             <EditInvoiceModal
@@ -448,6 +638,22 @@ export default function InvoiceDetailPage() {
               onSaved={() => setRefreshTrigger(prev => prev + 1)}
             />
 
+            <RecordPaymentModal
+              open={isPaymentModalOpen}
+              onOpenChange={setIsPaymentModalOpen}
+              invoice={invoice}
+              balanceDue={balanceDue}
+              onRecorded={() => setRefreshTrigger(prev => prev + 1)}
+            />
+
+            <SendInvoiceModal
+              open={isSendModalOpen}
+              onOpenChange={setIsSendModalOpen}
+              invoice={invoice}
+              clientEmail={project?.client_email}
+              onSent={() => setRefreshTrigger(prev => prev + 1)}
+            />
+
             <DeleteInvoiceModal
               open={showDeleteModal}
               onOpenChange={setShowDeleteModal}
@@ -8,6 +8,8 @@ import { ChevronLeft, ChevronRight, MoreVertical, Trash2 } from 'lucide-react';
 
 import { CreateInvoiceModal } from '@/components/invoices/CreateInvoiceModal';
 import { DeleteInvoiceModal } from '@/components/invoices/DeleteInvoiceModal';
+import { InvoiceSchedulesCard } from '@/components/invoices/InvoiceSchedulesCard';
+import { SendInvoiceModal } from '@/components/invoices/SendInvoiceModal';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -35,6 +37,7 @@ export default function ProjectInvoicesPage() {
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [invoiceToDelete, setInvoiceToDelete] = useState<Invoice | null>(null);
+  const [invoiceToSend, setInvoiceToSend] = useState<Invoice | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [invoicesPage, setInvoicesPage] = useState(1);
@@ -325,6 +328,20 @@ export default function ProjectInvoicesPage() {
                               </Button>
                               {openMenuId === inv.id && (
                                 <div className="absolute right-0 top-full z-10 mt-1 min-w-[130px] rounded-md border bg-white py-1 shadow-lg">
+                                  {(inv.status === 'draft' ||
+                                    inv.status === 'sent' ||
+                                    inv.status === 'overdue') && (
+                                    <button
+                                      type="button"
+                                      onClick={() => {
+                                        setInvoiceToSend(inv);
+                                        setOpenMenuId(null);
+                                      }}
+                                      className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-gray-100"
+                                    >
+                                      {inv.sent_at ? 'Resend' : 'Send'} Invoice
+                                    </button>
+                                  )}
                                   {inv.status === 'draft' && (
                                     <button
                                       type="button"
@@ -432,6 +449,20 @@ export default function ProjectInvoicesPage() {
           </CardContent>
         </Card>
 
+        {project && <InvoiceSchedulesCard project={project} isPro={isPro} />}
+
+        <SendInvoiceModal
+          open={!!invoiceToSend}
+          onOpenChange={open => !open && setInvoiceToSend(null)}
+          invoice={invoiceToSend}
+          clientEmail={project?.client_email}
+          onSent={sent =>
+            setInvoices(prev =>
+              prev.map(inv => (inv.id === sent.id ? { ...inv, ...sent } : inv))
+            )
+          }
+        />
+
         <DeleteInvoiceModal
           open={!!invoiceToDelete}
           onOpenChange={open => !open && setInvoiceToDelete(null)}
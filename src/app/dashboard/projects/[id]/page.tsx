@@ -10,6 +10,7 @@ import { MoreVertical, Plus, Trash2 } from 'lucide-react';
 import { CreateInvoiceModal } from '@/components/invoices/CreateInvoiceModal';
 import { DeleteProjectModal } from '@/components/projects/DeleteProjectModal';
 import { ProjectModal } from '@/components/projects/ProjectModal';
+import { ProjectReportSharesCard } from '@/components/projects/ProjectReportSharesCard';
 import { DeleteTaskModal } from '@/components/tasks/DeleteTaskModal';
 import { TaskList } from '@/components/tasks/TaskList';
 import { TaskModal } from '@/components/tasks/TaskModal';
@@ -814,6 +815,9 @@ export default function ProjectDetailPage() {
             />
           </CardContent>
         </Card>
+
+        {/* Shared Reports Section */}
+        <ProjectReportSharesCard projectId={projectId} />
       </div>
 
       {/* Delete Project Modal */}
@@ -839,7 +843,6 @@ export default function ProjectDetailPage() {
           open={isCreateTaskModalOpen}
           onOpenChange={setIsCreateTaskModalOpen}
           project={project}
-          users={[]} // Currently only supports current user assignment
           onSubmit={handleCreateTask}
         />
       )}
@@ -16,7 +16,9 @@ import { CreateTimeEntryModal } from '@/components/tasks/CreateTimeEntryModal';
 import { DeleteTaskModal } from '@/components/tasks/DeleteTaskModal';
 import { DeleteTimeEntryModal } from '@/components/tasks/DeleteTimeEntryModal';
 import { EditTimeEntryModal } from '@/components/tasks/EditTimeEntryModal';
+import { TaskDetailTimer } from '@/components/tasks/TaskDetailTimer';
 import { TaskModal } from '@/components/tasks/TaskModal';
+import { TimeEntrySegments } from '@/components/tasks/TimeEntrySegments';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 import {
@@ -32,11 +34,12 @@ import { InlineEdit } from '@/components/ui/inline-edit';
 import { Label } from '@/components/ui/label';
 import { TimerDisplay } from '@/components/ui/timer-display';
 import { useAuth } from '@/contexts/auth-context';
+import { useFocusModeContext } from '@/contexts/focus-mode-context';
 import { useErrorDisplay } from '@/hooks/useErrorDisplay';
 import { useFreeTierWritableProjects } from '@/hooks/useFreeTierWritableProjects';
+import { useProjectAssignees } from '@/hooks/useProjectAssignees';
 import { useTasks } from '@/hooks/useTasks';
 import { useTimerActions } from '@/hooks/useTimerActions';
-import { useUser } from '@/hooks/useUser';
 import {
   FREE_TIER_PROJECT_READONLY_BANNER_BASE,
   FREE_TIER_PROJECT_READONLY_SHORT_MESSAGE,
@@ -49,7 +52,6 @@ const TIME_ENTRIES_PER_PAGE = 10;
 
 export default function TaskDetailPage() {
   const { user, loading } = useAuth();
-  const { user: userProfile } = useUser();
   const params = useParams();
   const router = useRouter();
 
@@ -80,6 +82,7 @@ export default function TaskDetailPage() {
   );
   const [showCreateEntryModal, setShowCreateEntryModal] = useState(false);
   const [showEditEntryModal, setShowEditEntryModal] = useState(false);
+  const [focusCount, setFocusCount] = useState<number | undefined>(undefined);
   const actionsRef = useRef<HTMLDivElement>(null);
   const rowMenuRef = useRef<HTMLDivElement>(null);
 
@@ -90,7 +93,10 @@ export default function TaskDetailPage() {
 
   // Task management
   const { updateTask, deleteTask } = useTasks({ projectId });
+  const { assignees, canInvite, refreshAssignees, inviteCollaborator } =
+    useProjectAssignees(projectId, task?.workspace_id);
   const timerActions = useTimerActions(taskId, projectId);
+  const { completedFocusCount } = useFocusModeContext();
 
   // Fetch task data - same pattern as Project page
   useEffect(() => {
@@ -154,6 +160,22 @@ export default function TaskDetailPage() {
     fetchTimeEntries();
   }, [taskId, fetchTimeEntries]);
 
+  // Completed focus intervals (refreshed when one completes in this browser)
+  useEffect(() => {
+    if (!taskId) return;
+    const fetchFocusCount = async () => {
+      try {
+        const res = await fetch(`/api/focus-intervals?task_id=${taskId}`);
+        if (!res.ok) throw new Error('Failed to fetch focus intervals');
+        const data = await res.json();
+        setFocusCount((data.focus_intervals ?? []).length);
+      } catch {
+        setFocusCount(undefined);
+      }
+    };
+    fetchFocusCount();
+  }, [taskId, completedFocusCount]);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!loading && !user) {
@@ -476,45 +498,33 @@ export default function TaskDetailPage() {
             ) : null}
 
             {/* Assignee */}
-            {task.assignee && task.assignee_user ? (
-              <div className="space-y-2">
-                <Label className="text-sm font-medium text-gray-500">
-                  Assignee
-                </Label>
-                <InlineEdit
-                  value={task.assignee}
-                  type="assignee"
-                  readOnly={isReadOnly}
-                  onSave={async value =>
-                    await handleSaveField('assignee', value)
-                  }
-                  onError={error =>
-                    setFieldErrors(prev => ({ ...prev, assignee: error }))
-                  }
-                  error={fieldErrors.assignee}
-                  placeholder="Unassigned"
-                  className="text-gray-700"
-                  assigneeData={{
-                    users: user
-                      ? [
-                          {
-                            id: user.id,
-                            email: user.email || '',
-                            name:
-                              userProfile?.name ||
-                              user.user_metadata?.full_name ||
-                              user.user_metadata?.name,
-                            created_at: new Date().toISOString(),
-                            updated_at: new Date().toISOString(),
-                          },
-                        ]
-                      : [],
-                    currentUserId: user?.id,
-                    assigneeUser: task.assignee_user,
-                  }}
-                />
-              </div>
-            ) : null}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-500">
+                Assignee
+              </Label>
+              <InlineEdit
+                value={task.assignee}
+                type="assignee"
+                readOnly={isReadOnly}
+                onSave={async value => await handleSaveField('assignee', value)}
+                onError={error =>
+                  setFieldErrors(prev => ({ ...prev, assignee: error }))
+                }
+                error={fieldErrors.assignee}
+                placeholder="Unassigned"
+                className="text-gray-700"
+                assigneeData={{
+                  assignees,
+                  currentUserId: user?.id,
+                  assigneeUser: task.assignee_user,
+                  canInvite,
+                  onInvite: async email => {
+                    await inviteCollaborator(email);
+                    await refreshAssignees();
+                  },
+                }}
+              />
+            </div>
 
             {/* Task Rate Type and Price (uses project currency) */}
             {task.rate_type && task.price !== null ? (
@@ -611,6 +621,15 @@ export default function TaskDetailPage() {
               />
             </div>
 
+            {/* Timer and focus mode */}
+            <TaskDetailTimer
+              taskId={taskId}
+              projectId={projectId}
+              disabled={isReadOnly || isTaskCompleted}
+              focusCount={focusCount}
+              onTimerChange={fetchTimeEntries}
+            />
+
             {/* Created/Updated Info */}
             <div className="pt-4 border-t">
               <div className="text-sm text-gray-500 space-y-1">
@@ -632,9 +651,10 @@ export default function TaskDetailPage() {
               <div>
                 <CardTitle>Time Entries</CardTitle>
                 <CardDescription>
-                  Logged time for this task, latest first. Start the timer to
-                  add more. Time tracking for fixed-rate tasks is for internal
-                  use only and is not used in invoicing.
+                  Logged time for this task, latest first, with the runs each
+                  timer was tracked in. Start the timer to add more. Time
+                  tracking for fixed-rate tasks is for internal use only and is
+                  not used in invoicing.
                 </CardDescription>
               </div>
               <div className="shrink-0">
@@ -683,6 +703,9 @@ export default function TaskDetailPage() {
                         <th className="text-left py-3 px-4 font-medium">
                           Date-Time
                         </th>
+                        <th className="text-left py-3 px-4 font-medium">
+                          Note
+                        </th>
                         <th className="py-3 px-4 font-medium">Timer</th>
                         <th className="w-10 py-3 px-4" aria-label="Actions" />
                       </tr>
@@ -712,6 +735,18 @@ export default function TaskDetailPage() {
                                     minute: '2-digit',
                                   }
                                 )}
+                                <TimeEntrySegments segments={entry.segments} />
+                              </td>
+                              <td className="py-3 px-4 max-w-xs">
+                                {entry.description ? (
+                                  <p className="whitespace-pre-line break-words text-gray-700">
+                                    {entry.description}
+                                  </p>
+                                ) : (
+                                  <span className="text-muted-foreground">
+                                    —
+                                  </span>
+                                )}
                               </td>
                               <td className="py-3 px-4">
                                 {isActiveTimer ? (
@@ -754,6 +789,7 @@ export default function TaskDetailPage() {
                                       fetchTimeEntries();
                                     }}
                                     hasTimer={!!timerActions.timer}
+                                    syncStatus={timerActions.syncStatus}
                                     compact
                                   />
                                 ) : (
@@ -903,6 +939,7 @@ export default function TaskDetailPage() {
             name: task.project?.name || 'Unknown Project',
             status: (task.project?.status as ProjectStatus) ?? 'new',
             user_id: user?.id || '',
+            workspace_id: task.workspace_id,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
             rate_type: task.project?.rate_type ?? undefined,
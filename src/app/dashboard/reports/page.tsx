@@ -0,0 +1,376 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Download } from 'lucide-react';
+
+import { ReportBarChart } from '@/components/reports/ReportBarChart';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Header } from '@/components/ui/header';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/auth-context';
+import { useUser } from '@/hooks/useUser';
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  formatReportHours,
+  isReportGroupBy,
+  REPORT_GROUP_BY_OPTIONS,
+} from '@/lib/reports';
+import {
+  getBrowserTimeZone,
+  getDateSettings,
+  getZonedDayRange,
+} from '@/lib/time-zones';
+import { formatTimesheetDuration, toDateKey } from '@/lib/timesheet';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { ReportCurrencyAmount, ReportGroupBy, TimeReport } from '@/types';
+
+function formatBillable(amounts: ReportCurrencyAmount[]): string {
+  if (amounts.length === 0) return '—';
+  return amounts
+    .map(a => formatPriceWithCurrency(a.amount, a.currency_code))
+    .join(', ');
+}
+
+export default function ReportsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { user: userProfile, loading: userLoading } = useUser();
+  const router = useRouter();
+
+  // Default to the current month so far
+  const [fromKey, setFromKey] = useState(() => {
+    const now = new Date();
+    return toDateKey(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [toKey, setToKey] = useState(() => toDateKey(new Date()));
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>('project');
+  const [report, setReport] = useState<TimeReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeZone = getDateSettings(userProfile, getBrowserTimeZone()).timeZone;
+
+  // Calendar days in the user's time zone, sent to the API as ISO bounds
+  const queryString = useMemo(() => {
+    if (!fromKey || !toKey || fromKey > toKey) return null;
+    const range = getZonedDayRange(fromKey, timeZone, toKey);
+    return new URLSearchParams({
+      from: range.start.toISOString(),
+      to: range.end.toISOString(),
+      group_by: groupBy,
+      time_zone: timeZone,
+    }).toString();
+  }, [fromKey, toKey, groupBy, timeZone]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
+      return;
+    }
+    if (!user || userLoading) return;
+
+    if (!queryString) {
+      setError('Start date must be on or before end date');
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchReport() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/reports?${queryString}`);
+        if (cancelled) return;
+
+        if (!res.ok) {
+          const handled = await checkAndHandleUnauthorized(res);
+          if (handled) return;
+          const data = await res.json().catch(() => ({}));
+          setError(data.error || 'Failed to load report');
+          return;
+        }
+
+        const data = (await res.json()) as { report: TimeReport };
+        if (!cancelled) setReport(data.report);
+      } catch {
+        if (!cancelled) setError('Failed to load report');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading, userLoading, router, queryString]);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to signin
+  }
+
+  const groupLabel =
+    REPORT_GROUP_BY_OPTIONS.find(option => option.value === groupBy)?.label ??
+    'Group';
+  const hasRows = !!report && report.rows.length > 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Breadcrumb
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Reports', href: '/dashboard/reports' },
+          ]}
+          className="mb-6"
+        />
+
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Reports</h1>
+            <p className="text-gray-600">
+              Tracked time and billable amounts for any date range. Only stopped
+              time entries are counted, on the days the time was worked.
+            </p>
+          </div>
+          {queryString && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/reports?${queryString}&format=csv`}>
+                  <Download className="h-4 w-4" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={`/api/reports?${queryString}&format=pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Download className="h-4 w-4" />
+                  PDF
+                </a>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="flex flex-wrap items-end gap-4 p-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-from">From</Label>
+              <Input
+                id="report-from"
+                type="date"
+                value={fromKey}
+                max={toKey || undefined}
+                onChange={e => setFromKey(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-to">To</Label>
+              <Input
+                id="report-to"
+                type="date"
+                value={toKey}
+                min={fromKey || undefined}
+                onChange={e => setToKey(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Group by</Label>
+              <Select
+                value={groupBy}
+                onValueChange={value => {
+                  if (isReportGroupBy(value)) setGroupBy(value);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Group by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_GROUP_BY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {report && (
+          <div className="mb-6 grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-500">
+                  Total time
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold font-mono text-gray-900">
+                  {formatTimesheetDuration(report.total_seconds) || '0:00'}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-500">
+                  Time entries
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-gray-900">
+                  {report.entry_count}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-500">
+                  Billable
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.billable_totals.length === 0 ? (
+                  <p className="text-2xl font-bold text-gray-900">—</p>
+                ) : (
+                  report.billable_totals.map(total => (
+                    <p
+                      key={total.currency_code}
+                      className="text-2xl font-bold text-gray-900"
+                    >
+                      {formatPriceWithCurrency(
+                        total.amount,
+                        total.currency_code
+                      )}
+                    </p>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Time by {groupLabel.toLowerCase()}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-gray-500 text-sm">Loading report...</p>
+            ) : !hasRows ? (
+              <p className="text-gray-500 text-sm">
+                No time tracked in this period.
+              </p>
+            ) : (
+              <div className="space-y-8">
+                <ReportBarChart
+                  rows={report.rows}
+                  layout={report.group_by === 'day' ? 'columns' : 'bars'}
+                />
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-3 px-4 font-medium">{groupLabel}</th>
+                        <th className="py-3 px-4 text-right font-medium">
+                          Hours
+                        </th>
+                        <th className="py-3 px-4 text-right font-medium">
+                          Entries
+                        </th>
+                        <th className="py-3 px-4 text-right font-medium">
+                          Focus
+                        </th>
+                        <th className="py-3 px-4 text-right font-medium">
+                          Billable
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rows.map(row => (
+                        <tr key={row.key} className="border-b">
+                          <td className="py-2 px-4">
+                            <div className="font-medium text-gray-900">
+                              {row.label}
+                            </div>
+                            {row.sublabel && (
+                              <div className="text-xs text-gray-500">
+                                {row.sublabel}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 px-4 text-right font-mono">
+                            {formatReportHours(row.duration_seconds)}
+                          </td>
+                          <td className="py-2 px-4 text-right">
+                            {row.entry_count}
+                          </td>
+                          <td className="py-2 px-4 text-right">
+                            {row.focus_count}
+                          </td>
+                          <td className="py-2 px-4 text-right">
+                            {formatBillable(row.billable)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="text-gray-900">
+                        <td className="py-3 px-4 font-medium">Total</td>
+                        <td className="py-3 px-4 text-right font-mono font-semibold">
+                          {formatReportHours(report.total_seconds)}
+                        </td>
+                        <td className="py-3 px-4 text-right font-medium">
+                          {report.entry_count}
+                        </td>
+                        <td className="py-3 px-4 text-right font-medium">
+                          {report.focus_count}
+                        </td>
+                        <td className="py-3 px-4 text-right font-semibold">
+                          {formatBillable(report.billable_totals)}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
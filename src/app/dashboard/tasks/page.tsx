@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Header } from '@/components/ui/header';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/auth-context';
+import { useUser } from '@/hooks/useUser';
+import { groupMyTasks, MyTasksGrouping } from '@/lib/my-tasks';
+import { getPriorityColor, getPriorityLabel } from '@/lib/priority';
+import { getStatusColor, getStatusLabel } from '@/lib/status';
+import {
+  getBrowserTimeZone,
+  getDateSettings,
+  getZonedDayKey,
+} from '@/lib/time-zones';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { formatDate, truncateTextSmart } from '@/lib/utils';
+import { AssignedTask } from '@/types';
+
+const GROUPING_OPTIONS: { value: MyTasksGrouping; label: string }[] = [
+  { value: 'due_date', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+];
+
+export default function MyTasksPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { user: userProfile } = useUser();
+
+  // "Today" and "this week" are the user's own calendar days
+  const { timeZone, weekStart } = getDateSettings(
+    userProfile,
+    getBrowserTimeZone()
+  );
+  const todayKey = getZonedDayKey(new Date(), timeZone);
+
+  const [tasks, setTasks] = useState<AssignedTask[]>([]);
+  const [grouping, setGrouping] = useState<MyTasksGrouping>('due_date');
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
+      return;
+    }
+    if (!user) return;
+
+    let cancelled = false;
+    async function fetchTasks() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (includeCompleted) params.set('include_completed', 'true');
+        const res = await fetch(`/api/tasks/assigned?${params}`);
+        if (cancelled) return;
+
+        if (!res.ok) {
+          const handled = await checkAndHandleUnauthorized(res);
+          if (handled) return;
+          setError('Failed to load your tasks');
+          return;
+        }
+
+        const data = (await res.json()) as { tasks: AssignedTask[] };
+        if (cancelled) return;
+        setTasks(data.tasks ?? []);
+      } catch {
+        if (!cancelled) setError('Failed to load your tasks');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchTasks();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading, router, includeCompleted]);
+
+  const groups = useMemo(
+    () => groupMyTasks(tasks, grouping, todayKey, weekStart),
+    [tasks, grouping, todayKey, weekStart]
+  );
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to signin
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Breadcrumb
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'My Tasks', href: '/dashboard/tasks' },
+          ]}
+          className="mb-6"
+        />
+
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">My Tasks</h1>
+            <p className="text-gray-600">
+              Tasks assigned to you in every project and workspace.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Group by</span>
+              {GROUPING_OPTIONS.map(option => (
+                <Button
+                  key={option.value}
+                  variant={grouping === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setGrouping(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="include-completed"
+                checked={includeCompleted}
+                onCheckedChange={checked => setIncludeCompleted(!!checked)}
+              />
+              <Label htmlFor="include-completed" className="text-sm">
+                Show completed
+              </Label>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm">Loading your tasks...</p>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-gray-500 text-sm">
+                Nothing is assigned to you. Tasks you are assigned to in any
+                project show up here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <Card key={group.key}>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    {group.label}{' '}
+                    <span className="text-sm font-normal text-gray-500">
+                      ({group.tasks.length})
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y">
+                    {group.tasks.map(task => (
+                      <li
+                        key={task.id}
+                        className="flex flex-wrap items-center justify-between gap-3 py-3"
+                      >
+                        <div className="min-w-0">
+                          <Link
+                            href={`/dashboard/projects/${task.project_id}/tasks/${task.id}`}
+                            className="font-medium text-gray-900 hover:underline"
+                          >
+                            {truncateTextSmart(task.name, 60)}
+                          </Link>
+                          <div className="text-xs text-gray-500">
+                            {truncateTextSmart(task.project?.name ?? '', 40)}
+                            {task.workspace && !task.workspace.is_personal && (
+                              <> · {task.workspace.name}</>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          {task.due_date && (
+                            <span className="text-gray-600">
+                              {formatDate(task.due_date)}
+                            </span>
+                          )}
+                          <span
+                            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${getPriorityColor(task.priority)}`}
+                          >
+                            {getPriorityLabel(task.priority)}
+                          </span>
+                          <span
+                            className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-medium ${getStatusColor(task.status)}`}
+                          >
+                            {getStatusLabel(task.status)}
+                          </span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
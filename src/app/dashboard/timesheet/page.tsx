@@ -0,0 +1,393 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+import { ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+
+import { TimesheetCell } from '@/components/timesheet/TimesheetCell';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Header } from '@/components/ui/header';
+import { useAuth } from '@/contexts/auth-context';
+import { useFreeTierWritableProjects } from '@/hooks/useFreeTierWritableProjects';
+import { useUser } from '@/hooks/useUser';
+import { FREE_TIER_PROJECT_READONLY_SHORT_MESSAGE } from '@/lib/subscription-enforcement';
+import {
+  getBrowserTimeZone,
+  getDateSettings,
+  getZonedDayKey,
+  getZonedDayRange,
+} from '@/lib/time-zones';
+import {
+  addDays,
+  formatTimesheetDuration,
+  formatWeekRange,
+  fromDateKey,
+  getWeekDays,
+  getWeekStart,
+  TIMESHEET_DAYS_PER_WEEK,
+  toDateKey,
+} from '@/lib/timesheet';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { truncateTextSmart } from '@/lib/utils';
+import { TimesheetEntry, TimesheetTask, TimesheetWeek } from '@/types';
+
+const cellKey = (taskId: string, dateKey: string) => `${taskId}|${dateKey}`;
+
+export default function TimesheetPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const freeTier = useFreeTierWritableProjects();
+  const { user: userProfile, loading: userLoading } = useUser();
+
+  // Days are the user's calendar days; each column shows one as a local date
+  const { timeZone, weekStart: firstDayOfWeek } = getDateSettings(
+    userProfile,
+    getBrowserTimeZone()
+  );
+  const todayKey = getZonedDayKey(new Date(), timeZone);
+  const currentWeekStart = getWeekStart(fromDateKey(todayKey), firstDayOfWeek);
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [tasks, setTasks] = useState<TimesheetTask[]>([]);
+  const [entries, setEntries] = useState<TimesheetEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const weekDays = useMemo(() => getWeekDays(weekStart), [weekStart]);
+  const isCurrentWeek = weekStart.getTime() === currentWeekStart.getTime();
+
+  // Open on the current week once the user's settings are known
+  useEffect(() => {
+    if (!userLoading) setWeekStart(currentWeekStart);
+  }, [userLoading, todayKey, firstDayOfWeek]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
+      return;
+    }
+    if (!user || userLoading) return;
+
+    let cancelled = false;
+    async function fetchWeek() {
+      setLoading(true);
+      setError(null);
+      try {
+        const range = getZonedDayRange(
+          toDateKey(weekStart),
+          timeZone,
+          toDateKey(addDays(weekStart, TIMESHEET_DAYS_PER_WEEK - 1))
+        );
+        const params = new URLSearchParams({
+          from: range.start.toISOString(),
+          to: range.end.toISOString(),
+        });
+        const res = await fetch(`/api/time-entries/timesheet?${params}`);
+        if (cancelled) return;
+
+        if (!res.ok) {
+          const handled = await checkAndHandleUnauthorized(res);
+          if (handled) return;
+          setError('Failed to load timesheet');
+          return;
+        }
+
+        const data = (await res.json()) as TimesheetWeek;
+        if (cancelled) return;
+        setTasks(data.tasks ?? []);
+        setEntries(data.time_entries ?? []);
+      } catch {
+        if (!cancelled) setError('Failed to load timesheet');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchWeek();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading, userLoading, router, weekStart, timeZone]);
+
+  // Seconds per task per day (entries are bucketed by end_time, like invoices)
+  const cellSeconds = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const entry of entries) {
+      const key = cellKey(
+        entry.task_id,
+        getZonedDayKey(entry.end_time, timeZone)
+      );
+      totals.set(key, (totals.get(key) ?? 0) + (entry.duration_seconds || 0));
+    }
+    return totals;
+  }, [entries, timeZone]);
+
+  const getCellSeconds = (taskId: string, day: Date) =>
+    cellSeconds.get(cellKey(taskId, toDateKey(day))) ?? 0;
+
+  const rowTotal = (taskId: string) =>
+    weekDays.reduce((sum, day) => sum + getCellSeconds(taskId, day), 0);
+
+  const columnTotal = (day: Date) =>
+    tasks.reduce((sum, task) => sum + getCellSeconds(task.id, day), 0);
+
+  const weekTotal = entries.reduce(
+    (sum, entry) => sum + (entry.duration_seconds || 0),
+    0
+  );
+
+  const saveCell = useCallback(
+    async (task: TimesheetTask, day: Date, seconds: number) => {
+      const dateKey = toDateKey(day);
+      const { start: dayStart, end: dayEnd } = getZonedDayRange(
+        dateKey,
+        timeZone
+      );
+
+      try {
+        const res = await fetch('/api/time-entries/timesheet', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            task_id: task.id,
+            day_start: dayStart.toISOString(),
+            day_end: dayEnd.toISOString(),
+            duration_seconds: seconds,
+          }),
+        });
+
+        if (!res.ok) {
+          const handled = await checkAndHandleUnauthorized(res);
+          if (handled) return false;
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to update timesheet');
+        }
+
+        // Replace that cell's entries with the server's
+        const data = (await res.json()) as { time_entries: TimesheetEntry[] };
+        setEntries(prev => [
+          ...prev.filter(
+            entry =>
+              entry.task_id !== task.id ||
+              getZonedDayKey(entry.end_time, timeZone) !== dateKey
+          ),
+          ...(data.time_entries ?? []),
+        ]);
+        setError(null);
+        return true;
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to update timesheet'
+        );
+        return false;
+      }
+    },
+    [timeZone]
+  );
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to signin
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <Breadcrumb
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Timesheet', href: '/dashboard/timesheet' },
+          ]}
+          className="mb-6"
+        />
+
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Timesheet</h1>
+            <p className="text-gray-600">
+              Fill in time after the fact. Type h:mm or hours into a cell;
+              clearing a cell removes that day&apos;s time.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setWeekStart(prev => addDays(prev, -7))}
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="min-w-48 text-center text-sm font-medium text-gray-900">
+              {formatWeekRange(weekStart)}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setWeekStart(prev => addDays(prev, 7))}
+              aria-label="Next week"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isCurrentWeek}
+              onClick={() => setWeekStart(currentWeekStart)}
+            >
+              This week
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <p className="text-red-600 text-sm">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Week total: {formatTimesheetDuration(weekTotal) || '0:00'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-gray-500 text-sm">Loading timesheet...</p>
+            ) : tasks.length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                No open tasks. Create a task in a project to log time here.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-3 px-4 font-medium">Task</th>
+                      {weekDays.map(day => (
+                        <th
+                          key={toDateKey(day)}
+                          className={`py-3 px-2 text-center font-medium ${
+                            toDateKey(day) === todayKey ? 'text-gray-900' : ''
+                          }`}
+                        >
+                          <div>
+                            {day.toLocaleDateString('en-US', {
+                              weekday: 'short',
+                            })}
+                          </div>
+                          <div className="text-xs font-normal">
+                            {day.toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                            })}
+                          </div>
+                        </th>
+                      ))}
+                      <th className="py-3 px-4 text-right font-medium">
+                        Total
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tasks.map(task => {
+                      const isReadOnly = !freeTier.isProjectWritable(
+                        task.project_id
+                      );
+                      return (
+                        <tr key={task.id} className="border-b">
+                          <td className="py-2 px-4">
+                            <Link
+                              href={`/dashboard/projects/${task.project_id}/tasks/${task.id}`}
+                              className="font-medium text-gray-900 hover:underline"
+                            >
+                              {truncateTextSmart(task.name, 40)}
+                            </Link>
+                            <div className="flex items-center gap-1 text-xs text-gray-500">
+                              {isReadOnly && (
+                                <Lock
+                                  className="h-3 w-3"
+                                  aria-label={
+                                    FREE_TIER_PROJECT_READONLY_SHORT_MESSAGE
+                                  }
+                                />
+                              )}
+                              <span
+                                title={
+                                  isReadOnly
+                                    ? FREE_TIER_PROJECT_READONLY_SHORT_MESSAGE
+                                    : undefined
+                                }
+                              >
+                                {truncateTextSmart(task.project_name, 40)}
+                              </span>
+                            </div>
+                          </td>
+                          {weekDays.map(day => (
+                            <td
+                              key={toDateKey(day)}
+                              className="py-2 px-2 text-center"
+                            >
+                              <TimesheetCell
+                                seconds={getCellSeconds(task.id, day)}
+                                disabled={isReadOnly}
+                                label={`${task.name}, ${day.toLocaleDateString(
+                                  'en-US',
+                                  {
+                                    weekday: 'long',
+                                    month: 'short',
+                                    day: 'numeric',
+                                  }
+                                )}`}
+                                onSave={seconds => saveCell(task, day, seconds)}
+                              />
+                            </td>
+                          ))}
+                          <td className="py-2 px-4 text-right font-mono font-medium text-gray-900">
+                            {formatTimesheetDuration(rowTotal(task.id)) || '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr className="text-gray-900">
+                      <td className="py-3 px-4 font-medium">Total</td>
+                      {weekDays.map(day => (
+                        <td
+                          key={toDateKey(day)}
+                          className="py-3 px-2 text-center font-mono font-medium"
+                        >
+                          {formatTimesheetDuration(columnTotal(day)) || '—'}
+                        </td>
+                      ))}
+                      <td className="py-3 px-4 text-right font-mono font-semibold">
+                        {formatTimesheetDuration(weekTotal) || '—'}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useParams, useRouter } from 'next/navigation';
+
+import { AlertCircle, Loader2, Users } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface InvitationDetails {
+  workspace_name: string;
+  role: string;
+  email: string;
+}
+
+type InvitationState =
+  | { status: 'loading' }
+  | { status: 'ready'; invitation: InvitationDetails }
+  | { status: 'error'; message: string };
+
+export default function WorkspaceInvitationPage() {
+  const router = useRouter();
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<InvitationState>({ status: 'loading' });
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(
+          `/api/workspaces/invitations/${encodeURIComponent(token)}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          setState({
+            status: 'error',
+            message: data.error || 'This invitation is no longer valid',
+          });
+          return;
+        }
+
+        setState({ status: 'ready', invitation: data.invitation });
+      } catch (error) {
+        console.error('Invitation error:', error);
+        setState({
+          status: 'error',
+          message:
+            'Unable to load the invitation. Please check your internet connection and try again.',
+        });
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      const response = await fetch(
+        `/api/workspaces/invitations/${encodeURIComponent(token)}`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setState({
+          status: 'error',
+          message: data.error || 'Failed to accept the invitation',
+        });
+        return;
+      }
+
+      router.push('/dashboard');
+    } catch (error) {
+      console.error('Invitation error:', error);
+      setState({
+        status: 'error',
+        message:
+          'Unable to accept the invitation. Please check your internet connection and try again.',
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            Workspace Invitation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {state.status === 'loading' && (
+            <div className="text-center space-y-4">
+              <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto" />
+              <p className="text-gray-600">Loading invitation...</p>
+            </div>
+          )}
+
+          {state.status === 'ready' && (
+            <div className="text-center space-y-4">
+              <Users className="h-12 w-12 text-blue-600 mx-auto" />
+              <p className="text-gray-700">
+                You were invited to{' '}
+                <span className="font-semibold">
+                  {state.invitation.workspace_name}
+                </span>{' '}
+                as {state.invitation.role}.
+              </p>
+              <Button onClick={handleAccept} disabled={isAccepting}>
+                {isAccepting ? 'Joining…' : 'Accept Invitation'}
+              </Button>
+            </div>
+          )}
+
+          {state.status === 'error' && (
+            <div className="text-center space-y-4">
+              <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
+              <p className="text-gray-600 text-sm">{state.message}</p>
+              <div className="pt-4">
+                <a
+                  href="/dashboard"
+                  className="inline-block bg-blue-600 text-white px-6 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
+                >
+                  Go to Dashboard
+                </a>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import type { Metadata, Viewport } from 'next';
 
 import './globals.css';
 import { AuthProvider } from '@/contexts/auth-context';
+import { FocusModeProvider } from '@/contexts/focus-mode-context';
 import { TimeTrackingProvider } from '@/contexts/time-tracking-context';
 import { WorkSessionProvider } from '@/contexts/work-session-context';
 
@@ -33,7 +34,9 @@ export default function RootLayout({
         <AuthProvider>
           <TimeTrackingProvider>
             <WorkSessionProvider>
-              <div className="min-h-screen bg-background">{children}</div>
+              <FocusModeProvider>
+                <div className="min-h-screen bg-background">{children}</div>
+              </FocusModeProvider>
             </WorkSessionProvider>
           </TimeTrackingProvider>
         </AuthProvider>
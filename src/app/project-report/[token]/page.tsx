@@ -0,0 +1,237 @@
+import { AlertCircle, Download } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatPrice, formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  fetchProjectReport,
+  findProjectReportShare,
+} from '@/lib/project-report-data';
+import {
+  formatProjectReportDay,
+  formatProjectReportEntryDate,
+} from '@/lib/project-report-shares';
+import { formatReportHours } from '@/lib/reports';
+import { getStatusLabel } from '@/lib/status';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ProjectReport } from '@/types';
+
+// Revoked shares must stop working at once, so never serve a cached render
+export const dynamic = 'force-dynamic';
+
+function ReportUnavailable({ message }: { message: string }) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="pt-6 text-center space-y-4">
+          <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
+          <p className="text-gray-600 text-sm">{message}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+async function loadReport(
+  token: string
+): Promise<{ report: ProjectReport } | { error: string }> {
+  try {
+    const supabase = createAdminClient();
+    const lookup = await findProjectReportShare(supabase, token);
+    if (lookup.error !== undefined) return { error: lookup.error };
+
+    const report = await fetchProjectReport(supabase, lookup.share);
+    return report ? { report } : { error: 'This link is no longer valid' };
+  } catch (error) {
+    console.error('Project report error:', error);
+    return { error: 'Unable to load this report. Please try again later.' };
+  }
+}
+
+/**
+ * Shared project time report, rendered on the server. Viewers have no
+ * account; the secret token in the URL identifies the share.
+ */
+export default async function ProjectReportPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const result = await loadReport(token);
+  if ('error' in result) {
+    return <ReportUnavailable message={result.error} />;
+  }
+
+  const { report } = result;
+  const showRates = !report.hide_rates;
+  const formatAmount = (amount: number | null) =>
+    amount === null
+      ? '—'
+      : formatPriceWithCurrency(amount, report.currency_code);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              {report.project_name}
+            </h1>
+            <p className="text-gray-600">
+              Time report for {formatProjectReportDay(report.from_date)} –{' '}
+              {formatProjectReportDay(report.to_date)}
+            </p>
+            {(report.client_name || report.business_name) && (
+              <p className="text-sm text-muted-foreground">
+                {report.client_name && `For ${report.client_name}`}
+                {report.client_name && report.business_name && ' · '}
+                {report.business_name && `From ${report.business_name}`}
+              </p>
+            )}
+          </div>
+          <a
+            href={`/api/project-reports/${encodeURIComponent(token)}/pdf`}
+            className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+          >
+            <Download className="h-4 w-4" />
+            Download PDF
+          </a>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Total</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <p className="text-xl font-semibold">
+              {formatReportHours(report.total_seconds)} hours
+            </p>
+            {showRates && (
+              <p className="text-gray-600">
+                {formatAmount(report.total_amount)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {report.entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm text-gray-500">
+                No time tracked in this period.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Tasks</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Task</th>
+                      <th className="px-4 py-3 font-medium text-right">
+                        Hours
+                      </th>
+                      <th className="px-4 py-3 font-medium text-right">
+                        Entries
+                      </th>
+                      {showRates && (
+                        <>
+                          <th className="px-4 py-3 font-medium text-right">
+                            Rate
+                          </th>
+                          <th className="px-4 py-3 font-medium text-right">
+                            Amount
+                          </th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.tasks.map(task => (
+                      <tr key={task.task_id}>
+                        <td className="px-4 py-3">
+                          <div className="font-medium text-gray-900">
+                            {task.name}
+                          </div>
+                          {task.status && (
+                            <div className="text-xs text-gray-500">
+                              {getStatusLabel(task.status)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatReportHours(task.duration_seconds)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {task.entry_count}
+                        </td>
+                        {showRates && (
+                          <>
+                            <td className="px-4 py-3 text-right">
+                              {formatPrice(
+                                task.price,
+                                task.rate_type,
+                                report.currency_code
+                              ) ?? '—'}
+                            </td>
+                            <td className="px-4 py-3 text-right font-medium">
+                              {formatAmount(task.amount)}
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Time entries</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Date</th>
+                      <th className="px-4 py-3 font-medium">Task</th>
+                      <th className="px-4 py-3 font-medium">Description</th>
+                      <th className="px-4 py-3 font-medium text-right">
+                        Hours
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.entries.map(entry => (
+                      <tr key={entry.id}>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatProjectReportEntryDate(
+                            entry.end_time,
+                            report.time_zone
+                          )}
+                        </td>
+                        <td className="px-4 py-3">{entry.task_name}</td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {entry.description || '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatReportHours(entry.duration_seconds)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
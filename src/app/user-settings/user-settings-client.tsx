@@ -7,6 +7,15 @@ import { useRouter } from 'next/navigation';
 import type { CheckoutSerialized } from '@freemius/sdk';
 
 import AppCheckoutProvider from '@/components/app-checkout-provider';
+import { AccountRestoreCard } from '@/components/dashboard/AccountRestoreCard';
+import { CalendarFeedCard } from '@/components/dashboard/CalendarFeedCard';
+import { DateSettingsCard } from '@/components/dashboard/DateSettingsCard';
+import { FocusModeCard } from '@/components/dashboard/FocusModeCard';
+import { IdleDetectionCard } from '@/components/dashboard/IdleDetectionCard';
+import { TimerLimitsCard } from '@/components/dashboard/TimerLimitsCard';
+import { WorkspacesCard } from '@/components/dashboard/WorkspacesCard';
+import { InvoiceNumberingCard } from '@/components/invoices/InvoiceNumberingCard';
+import { InvoiceRemindersCard } from '@/components/invoices/InvoiceRemindersCard';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 import {
@@ -29,6 +38,7 @@ import { isAccountDeletionUnderway } from '@/lib/utils';
 import { validateEmail, validatePhone } from '@/lib/validation';
 import { CustomerPortal } from '@/react-starter/components/customer-portal';
 import { useCheckout } from '@/react-starter/hooks/checkout';
+import { DataExportFormat } from '@/types';
 
 function UpgradeToProButton() {
   const checkout = useCheckout();
@@ -82,6 +92,7 @@ export function UserSettingsClient(props: {
     exportUserData,
   } = useDataExport();
   const [includeActivityLog, setIncludeActivityLog] = useState(false);
+  const [exportFormat, setExportFormat] = useState<DataExportFormat>('zip');
   const [timeUntilRetry, setTimeUntilRetry] = useState<string | null>(null);
 
   // Auth redirect effect
@@ -431,6 +442,18 @@ export function UserSettingsClient(props: {
                 </div>
               </CardContent>
             </Card>
+
+            <InvoiceRemindersCard
+              user={user}
+              isPro={user?.subscription_tier === 'pro'}
+              onUpdate={updateUser}
+            />
+
+            <InvoiceNumberingCard
+              user={user}
+              isPro={user?.subscription_tier === 'pro'}
+              onUpdate={updateUser}
+            />
           </div>
 
           {/* Account Information Section */}
@@ -486,6 +509,18 @@ export function UserSettingsClient(props: {
                 </div>
               </CardContent>
             </Card>
+
+            <IdleDetectionCard user={user} onUpdate={updateUser} />
+
+            <FocusModeCard user={user} onUpdate={updateUser} />
+
+            <DateSettingsCard user={user} onUpdate={updateUser} />
+
+            <TimerLimitsCard user={user} onUpdate={updateUser} />
+
+            <CalendarFeedCard user={user} onRefresh={refreshUser} />
+
+            <WorkspacesCard currentUserId={user?.id} />
           </div>
 
           {/* Account Deletion Section */}
@@ -501,8 +536,9 @@ export function UserSettingsClient(props: {
               <CardHeader>
                 <CardTitle>Download your data</CardTitle>
                 <CardDescription>
-                  Export your projects, tasks, time entries, work sessions, and
-                  invoices as JSON and CSV.
+                  Export your projects, tasks, time entries, work sessions,
+                  invoices with their items and payments as a ZIP of JSON and
+                  CSV files, or as one nested JSON document.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -519,6 +555,36 @@ export function UserSettingsClient(props: {
                       )}
                     </div>
                   )}
+                  <div className="flex flex-wrap gap-4">
+                    {(
+                      [
+                        ['zip', 'ZIP (JSON and CSV files)'],
+                        ['json', 'Single JSON document'],
+                      ] as const
+                    ).map(([value, label]) => (
+                      <div key={value} className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          id={`exportFormat-${value}`}
+                          name="exportFormat"
+                          checked={exportFormat === value}
+                          onChange={() => setExportFormat(value)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                          disabled={isExporting || !!retryAfter}
+                        />
+                        <Label
+                          htmlFor={`exportFormat-${value}`}
+                          className={`text-sm font-normal ${
+                            isExporting || retryAfter
+                              ? 'text-gray-400'
+                              : 'cursor-pointer'
+                          }`}
+                        >
+                          {label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
@@ -540,7 +606,9 @@ export function UserSettingsClient(props: {
                     </Label>
                   </div>
                   <Button
-                    onClick={() => exportUserData(includeActivityLog)}
+                    onClick={() =>
+                      exportUserData(includeActivityLog, exportFormat)
+                    }
                     disabled={isExporting || !!retryAfter}
                   >
                     {isExporting
@@ -553,6 +621,8 @@ export function UserSettingsClient(props: {
               </CardContent>
             </Card>
 
+            <AccountRestoreCard onRestored={refreshUser} />
+
             {user &&
               (user.deletion_requested_at || user.deletion_confirmed_at) && (
                 <div className="mb-6">
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ModalError } from '@/components/ui/modal-error';
+import { Textarea } from '@/components/ui/textarea';
+import { CLIENT_NAME_MAX_LENGTH } from '@/lib/clients';
+import { validateEmail, validatePhone } from '@/lib/validation';
+import { Client, CreateClientRequest } from '@/types';
+
+interface ClientModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  client?: Client | null; // If provided, we're editing; if not, we're creating
+  onSave: (
+    data: CreateClientRequest
+  ) => Promise<
+    { success: true; client: Client } | { success: false; error: string }
+  >;
+  onSaved?: (client: Client) => void;
+}
+
+const EMPTY_FORM: CreateClientRequest = {
+  name: '',
+  email: '',
+  address: '',
+  phone: '',
+  notes: '',
+};
+
+export function ClientModal({
+  open,
+  onOpenChange,
+  client,
+  onSave,
+  onSaved,
+}: ClientModalProps) {
+  const isEditMode = !!client;
+  const [formData, setFormData] = useState<CreateClientRequest>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(
+      client
+        ? {
+            name: client.name,
+            email: client.email || '',
+            address: client.address || '',
+            phone: client.phone || '',
+            notes: client.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setErrorMessage(null);
+  }, [open, client]);
+
+  const handleInputChange = (
+    field: keyof CreateClientRequest,
+    value: string
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errorMessage) setErrorMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    if (!formData.name.trim()) {
+      setErrorMessage('Client name is required');
+      return;
+    }
+    const validationError =
+      validateEmail(formData.email || '') ??
+      validatePhone(formData.phone || '');
+    if (validationError) {
+      setErrorMessage(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await onSave({
+      name: formData.name.trim(),
+      email: formData.email?.trim() || null,
+      address: formData.address?.trim() || null,
+      phone: formData.phone?.trim() || null,
+      notes: formData.notes?.trim() || null,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setErrorMessage(result.error);
+      return;
+    }
+    onSaved?.(result.client);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? 'Edit Client' : 'New Client'}</DialogTitle>
+          <DialogDescription>
+            {isEditMode
+              ? 'Changes apply to every project of this client and to invoices generated from now on.'
+              : 'Clients are shared by the projects in this workspace and appear on their invoices.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ModalError
+          errorMessage={errorMessage}
+          onClose={() => setErrorMessage(null)}
+        />
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="client-name">
+              Name <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="client-name"
+              value={formData.name}
+              onChange={e => handleInputChange('name', e.target.value)}
+              placeholder="Client or company name"
+              maxLength={CLIENT_NAME_MAX_LENGTH}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-email">Email</Label>
+            <Input
+              id="client-email"
+              type="email"
+              value={formData.email ?? ''}
+              onChange={e => handleInputChange('email', e.target.value)}
+              placeholder="client@company.com"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-address">Address</Label>
+            <Input
+              id="client-address"
+              value={formData.address ?? ''}
+              onChange={e => handleInputChange('address', e.target.value)}
+              placeholder="Client address"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-phone">Phone</Label>
+            <Input
+              id="client-phone"
+              type="tel"
+              value={formData.phone ?? ''}
+              onChange={e => handleInputChange('phone', e.target.value)}
+              placeholder="+1 (555) 123-4567"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-notes">Notes</Label>
+            <Textarea
+              id="client-notes"
+              value={formData.notes ?? ''}
+              onChange={e => handleInputChange('notes', e.target.value)}
+              placeholder="Internal notes (not shown on invoices)"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter className="flex gap-2">
+            <Button
+              variant="outline"
+              type="button"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !formData.name.trim()}
+            >
+              {isSubmitting
+                ? 'Saving...'
+                : isEditMode
+                  ? 'Update Client'
+                  : 'Create Client'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
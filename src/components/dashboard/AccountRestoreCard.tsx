@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { AccountRestoreResponse, AccountRestoreTable } from '@/types';
+
+interface AccountRestoreCardProps {
+  onRestored: () => Promise<void>;
+}
+
+const TABLE_LABELS: Record<AccountRestoreTable, string> = {
+  projects: 'Projects',
+  tasks: 'Tasks',
+  time_entries: 'Time entries',
+  time_entry_segments: 'Timer runs',
+  focus_intervals: 'Focus intervals',
+  work_sessions: 'Work sessions',
+  invoices: 'Invoices',
+  invoice_items: 'Invoice items',
+  invoice_payments: 'Invoice payments',
+};
+
+/**
+ * Loads an export ZIP back into the account. The file is checked first, and
+ * the restore is only offered once there are no conflicts.
+ */
+export function AccountRestoreCard({ onRestored }: AccountRestoreCardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [check, setCheck] = useState<AccountRestoreResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  async function send(
+    selected: File,
+    dryRun: boolean
+  ): Promise<AccountRestoreResponse | null> {
+    const formData = new FormData();
+    formData.append('file', selected);
+    if (dryRun) formData.append('dry_run', 'true');
+
+    const response = await fetch('/api/users/restore', {
+      method: 'POST',
+      body: formData,
+    });
+    const handled = await checkAndHandleUnauthorized(response);
+    if (handled) return null;
+
+    const data = await response.json().catch(() => ({}));
+    // Conflict responses still carry the check results
+    if (data.counts) setCheck(data);
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to restore the export');
+    }
+    return data;
+  }
+
+  async function handleFileChange(selected: File | null) {
+    setFile(selected);
+    setCheck(null);
+    setError(null);
+    if (!selected) return;
+
+    setIsWorking(true);
+    try {
+      await send(selected, true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to check the export'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleRestore() {
+    if (!file) return;
+    if (
+      !window.confirm(
+        'Add everything in this export to your account? Restoring the same export twice is not possible.'
+      )
+    ) {
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await send(file, false);
+      if (result?.restored) await onRestored();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to restore the export'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  const counts = check
+    ? (Object.keys(TABLE_LABELS) as AccountRestoreTable[]).filter(
+        table => check.counts[table] > 0
+      )
+    : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Restore from an export</CardTitle>
+        <CardDescription>
+          Load a ZIP or JSON file from &quot;Download your data&quot; into this
+          account, for example after deleting an account or moving to another
+          one. Everything is added in one step, or nothing is.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="account-restore-file">Export file</Label>
+          <Input
+            id="account-restore-file"
+            type="file"
+            accept=".zip,.json,application/zip,application/json"
+            disabled={isWorking}
+            onChange={e => handleFileChange(e.target.files?.[0] ?? null)}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-red-700 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {check && (
+          <div className="space-y-3">
+            {counts.length > 0 ? (
+              <ul className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-700 sm:grid-cols-3">
+                {counts.map(table => (
+                  <li key={table}>
+                    {TABLE_LABELS[table]}:{' '}
+                    <span className="font-medium">{check.counts[table]}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-600">The export is empty.</p>
+            )}
+
+            {check.conflicts.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm font-medium mb-1">
+                  Nothing can be restored until these are fixed:
+                </p>
+                <ul className="text-red-700 text-sm space-y-1">
+                  {check.conflicts.map(conflict => (
+                    <li key={`${conflict.code}-${conflict.message}`}>
+                      • {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {check.warnings.length > 0 && (
+              <ul className="text-amber-700 text-sm space-y-1">
+                {check.warnings.map(warning => (
+                  <li key={warning}>• {warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {check.restored ? (
+              <p className="text-sm font-medium text-green-700">
+                The export was restored.
+              </p>
+            ) : (
+              <Button
+                onClick={handleRestore}
+                disabled={
+                  isWorking || check.conflicts.length > 0 || counts.length === 0
+                }
+              >
+                {isWorking ? 'Restoring…' : 'Restore'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
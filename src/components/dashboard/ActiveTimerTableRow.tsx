@@ -2,6 +2,7 @@
 
 import { useRouter } from 'next/navigation';
 
+import { FocusControls } from '@/components/tasks/FocusControls';
 import { TimerDisplay } from '@/components/ui/timer-display';
 import { useFreeTierWritableProjects } from '@/hooks/useFreeTierWritableProjects';
 import { useTimerActions } from '@/hooks/useTimerActions';
@@ -29,6 +30,7 @@ export function ActiveTimerTableRow({
     canResume,
     canPause,
     canStop,
+    syncStatus,
     startTimer,
     pauseTimer,
     resumeTimer,
@@ -73,8 +75,17 @@ export function ActiveTimerTableRow({
           onResume={resumeTimer}
           onStop={stopTimer}
           hasTimer={!!timerData}
+          syncStatus={syncStatus}
           compact
         />
+        <div className="mt-2">
+          <FocusControls
+            taskId={timer.taskId}
+            projectId={projectId}
+            disabled={isReadOnly}
+            compact
+          />
+        </div>
       </td>
     </tr>
   );
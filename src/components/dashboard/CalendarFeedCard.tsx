@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useProjects } from '@/hooks/useProjects';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { User } from '@/types';
+
+interface CalendarFeedCardProps {
+  user: User | null;
+  onRefresh: () => Promise<void>;
+}
+
+/**
+ * Settings for the calendar (ICS) feed: turning it on, limiting it to
+ * projects, and replacing the secret URL when it was shared by mistake.
+ */
+export function CalendarFeedCard({ user, onRefresh }: CalendarFeedCardProps) {
+  const { projects } = useProjects();
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const token = user?.calendar_feed_token;
+  let feedUrl: string | null = null;
+  if (token && typeof window !== 'undefined') {
+    const url = new URL(`/api/calendar/${token}.ics`, window.location.origin);
+    if (projectIds.length > 0) {
+      url.searchParams.set('project_id', projectIds.join(','));
+    }
+    feedUrl = url.toString();
+  }
+
+  async function changeFeed(method: 'POST' | 'DELETE') {
+    setIsSaving(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/users/calendar-feed', { method });
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update the calendar feed');
+      }
+      await onRefresh();
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to update the calendar feed'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleRegenerate() {
+    if (
+      window.confirm(
+        'Calendars subscribed to the current URL will stop updating. Continue?'
+      )
+    ) {
+      void changeFeed('POST');
+    }
+  }
+
+  async function handleCopy() {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the URL; select it and copy it instead');
+    }
+  }
+
+  function toggleProject(projectId: string, checked: boolean) {
+    setCopied(false);
+    setProjectIds(current =>
+      checked ? [...current, projectId] : current.filter(id => id !== projectId)
+    );
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see your
+          tracked time and the due dates of open tasks assigned to you. Anyone
+          with the URL can read the feed, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!token ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => changeFeed('POST')}
+            disabled={isSaving || !user}
+          >
+            Turn on calendar feed
+          </Button>
+        ) : (
+          <>
+            {projects.length > 0 && (
+              <div className="space-y-2">
+                <Label>Projects</Label>
+                <p className="text-xs text-muted-foreground">
+                  Leave all unchecked to include every project.
+                </p>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {projects.map(project => (
+                    <div key={project.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`calendar-feed-project-${project.id}`}
+                        checked={projectIds.includes(project.id)}
+                        onCheckedChange={checked =>
+                          toggleProject(project.id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`calendar-feed-project-${project.id}`}
+                        className="font-normal"
+                      >
+                        {project.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Feed URL</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="calendar-feed-url"
+                  readOnly
+                  value={feedUrl ?? ''}
+                  onFocus={e => e.target.select()}
+                />
+                <Button type="button" variant="outline" onClick={handleCopy}>
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              {feedUrl && (
+                <a
+                  href={feedUrl.replace(/^https?:/, 'webcal:')}
+                  className="text-sm font-medium text-gray-900 underline decoration-gray-400 underline-offset-2 hover:decoration-gray-900"
+                >
+                  Open in your calendar app
+                </a>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={isSaving}
+              >
+                Regenerate URL
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => changeFeed('DELETE')}
+                disabled={isSaving}
+              >
+                Turn off
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getBrowserTimeZone,
+  getDateSettings,
+  getSupportedTimeZones,
+  WEEK_START_OPTIONS,
+} from '@/lib/time-zones';
+import { UpdateUserRequest, User } from '@/types';
+
+// Select value for "no saved zone"
+const AUTOMATIC_TIME_ZONE = 'automatic';
+
+interface DateSettingsCardProps {
+  user: User | null;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for where days and weeks begin: the time zone and first day of the
+ * week used by stats, filters, the timesheet, reports and invoice ranges.
+ */
+export function DateSettingsCard({ user, onUpdate }: DateSettingsCardProps) {
+  const browserTimeZone = getBrowserTimeZone();
+  const settings = getDateSettings(user, browserTimeZone);
+  const timeZones = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    // A saved zone the runtime does not list still shows as selected
+    return user?.time_zone && !zones.includes(user.time_zone)
+      ? [user.time_zone, ...zones]
+      : zones;
+  }, [user?.time_zone]);
+
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function save(updates: UpdateUserRequest) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save date settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Time Zone &amp; Week</CardTitle>
+        <CardDescription>
+          Where your days and weeks begin in work stats, the timesheet, reports
+          and invoice date ranges.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor="date-settings-time-zone">Time zone</Label>
+          <Select
+            value={user?.time_zone || AUTOMATIC_TIME_ZONE}
+            onValueChange={value =>
+              save({
+                time_zone: value === AUTOMATIC_TIME_ZONE ? null : value,
+              })
+            }
+            disabled={isSaving || !user}
+          >
+            <SelectTrigger id="date-settings-time-zone" className="max-w-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC_TIME_ZONE}>
+                This device&apos;s time zone ({browserTimeZone})
+              </SelectItem>
+              {timeZones.map(zone => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Background jobs such as timer limits use UTC when no time zone is
+            saved.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="date-settings-week-start">
+            First day of the week
+          </Label>
+          <Select
+            value={String(settings.weekStart)}
+            onValueChange={value => save({ week_start: Number(value) })}
+            disabled={isSaving || !user}
+          >
+            <SelectTrigger id="date-settings-week-start" className="max-w-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_START_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
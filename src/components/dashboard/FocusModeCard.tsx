@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  FOCUS_BREAK_MAX_MINUTES,
+  FOCUS_WORK_MAX_MINUTES,
+  getFocusSettings,
+  validateFocusSettingsInput,
+} from '@/lib/focus-mode';
+import { UpdateUserRequest, User } from '@/types';
+
+interface FocusModeCardProps {
+  user: User | null;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for focus mode: how long focus intervals and breaks last, and
+ * whether the browser notifies when one ends.
+ */
+export function FocusModeCard({ user, onUpdate }: FocusModeCardProps) {
+  const settings = getFocusSettings(user);
+  const savedWork = String(settings.workMinutes);
+  const savedBreak = String(settings.breakMinutes);
+
+  const [workMinutes, setWorkMinutes] = useState(savedWork);
+  const [breakMinutes, setBreakMinutes] = useState(savedBreak);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setWorkMinutes(savedWork);
+  }, [savedWork]);
+
+  useEffect(() => {
+    setBreakMinutes(savedBreak);
+  }, [savedBreak]);
+
+  async function save(updates: UpdateUserRequest) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save focus mode settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSaveLengths() {
+    const updates = {
+      focus_work_minutes: Number(workMinutes),
+      focus_break_minutes: Number(breakMinutes),
+    };
+    const validationError = validateFocusSettingsInput(updates);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    await save(updates);
+  }
+
+  const isUnchanged = workMinutes === savedWork && breakMinutes === savedBreak;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Focus Mode</CardTitle>
+        <CardDescription>
+          Focus mode runs a task&apos;s timer for a set interval, pauses it when
+          the interval ends, then counts down a break. Completed intervals are
+          counted on the task and in reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="focus-work-minutes">Focus minutes</Label>
+            <Input
+              id="focus-work-minutes"
+              type="number"
+              min={1}
+              max={FOCUS_WORK_MAX_MINUTES}
+              step={1}
+              value={workMinutes}
+              onChange={e => {
+                setWorkMinutes(e.target.value);
+                if (error) setError(null);
+              }}
+              className="max-w-[120px]"
+              disabled={isSaving || !user}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="focus-break-minutes">Break minutes</Label>
+            <Input
+              id="focus-break-minutes"
+              type="number"
+              min={1}
+              max={FOCUS_BREAK_MAX_MINUTES}
+              step={1}
+              value={breakMinutes}
+              onChange={e => {
+                setBreakMinutes(e.target.value);
+                if (error) setError(null);
+              }}
+              className="max-w-[120px]"
+              disabled={isSaving || !user}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSaveLengths}
+            disabled={isSaving || !user || isUnchanged}
+          >
+            Save
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="focus-notifications-enabled"
+            checked={settings.notificationsEnabled}
+            onCheckedChange={checked =>
+              save({ focus_notifications_enabled: checked === true })
+            }
+            disabled={isSaving || !user}
+          />
+          <Label htmlFor="focus-notifications-enabled">
+            Show a browser notification when a focus interval or break ends
+          </Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DEFAULT_IDLE_TIMEOUT_MINUTES,
+  IDLE_TIMEOUT_MAX_MINUTES,
+  IDLE_TIMEOUT_MIN_MINUTES,
+  validateIdleTimeoutMinutes,
+} from '@/lib/idle-detection';
+import { UpdateUserRequest, User } from '@/types';
+
+interface IdleDetectionCardProps {
+  user: User | null;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for idle detection: after how many minutes without input running
+ * timers ask whether to keep, discard or split the time away.
+ */
+export function IdleDetectionCard({ user, onUpdate }: IdleDetectionCardProps) {
+  const savedTimeout =
+    user?.idle_timeout_minutes === undefined
+      ? DEFAULT_IDLE_TIMEOUT_MINUTES
+      : user.idle_timeout_minutes;
+  const enabled = savedTimeout !== null;
+  const savedMinutes = String(savedTimeout ?? DEFAULT_IDLE_TIMEOUT_MINUTES);
+
+  const [minutes, setMinutes] = useState(savedMinutes);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setMinutes(savedMinutes);
+  }, [savedMinutes]);
+
+  async function save(updates: UpdateUserRequest) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save idle detection settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSaveMinutes() {
+    const value = Number(minutes);
+    const validationError = validateIdleTimeoutMinutes(value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    await save({ idle_timeout_minutes: value });
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Idle Detection</CardTitle>
+        <CardDescription>
+          When you come back to the app after a while without using it, running
+          timers ask whether to keep the time you were away, discard it, or
+          split it into a separate entry.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="idle-detection-enabled"
+            checked={enabled}
+            onCheckedChange={checked =>
+              save({
+                idle_timeout_minutes:
+                  checked === true ? Number(savedMinutes) : null,
+              })
+            }
+            disabled={isSaving || !user}
+          />
+          <Label htmlFor="idle-detection-enabled">Detect idle time</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="idle-timeout-minutes">
+            Minutes without input (or with the app in the background)
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="idle-timeout-minutes"
+              type="number"
+              min={IDLE_TIMEOUT_MIN_MINUTES}
+              max={IDLE_TIMEOUT_MAX_MINUTES}
+              step={1}
+              value={minutes}
+              onChange={e => {
+                setMinutes(e.target.value);
+                if (error) setError(null);
+              }}
+              className="max-w-[120px]"
+              disabled={!enabled || isSaving}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveMinutes}
+              disabled={!enabled || isSaving || minutes === savedMinutes}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
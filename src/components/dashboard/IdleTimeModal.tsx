@@ -0,0 +1,105 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  IDLE_TIME_ENTRY_DESCRIPTION,
+  IdlePeriod,
+  IdleTimeAction,
+} from '@/lib/idle-detection';
+import { formatDuration } from '@/lib/utils';
+
+interface IdleTimeModalProps {
+  idlePeriod: IdlePeriod | null;
+  isResolving: boolean;
+  error: string | null;
+  onResolve: (action: IdleTimeAction) => void;
+}
+
+function formatClockTime(time: number): string {
+  return new Date(time).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Asks what to do with time running timers counted while the user was away.
+ * Closing the dialog keeps the time.
+ */
+export function IdleTimeModal({
+  idlePeriod,
+  isResolving,
+  error,
+  onResolve,
+}: IdleTimeModalProps) {
+  if (!idlePeriod) return null;
+
+  const idleSeconds = Math.floor((idlePeriod.until - idlePeriod.from) / 1000);
+
+  return (
+    <Dialog
+      open
+      onOpenChange={open => {
+        if (!open && !isResolving) onResolve('keep');
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <Clock className="h-5 w-5 text-amber-600" />
+            </div>
+            <DialogTitle>
+              You were away for {formatDuration(idleSeconds)}
+            </DialogTitle>
+          </div>
+          <DialogDescription>
+            Your running timers kept counting from{' '}
+            {formatClockTime(idlePeriod.from)} to{' '}
+            {formatClockTime(idlePeriod.until)}. Keep that time, discard it, or
+            split it into a separate &quot;{IDLE_TIME_ENTRY_DESCRIPTION}&quot;
+            entry on each task.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onResolve('keep')}
+            disabled={isResolving}
+            className="w-full sm:w-auto"
+          >
+            Keep time
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onResolve('split')}
+            disabled={isResolving}
+            className="w-full sm:w-auto"
+          >
+            Split into new entry
+          </Button>
+          <Button
+            onClick={() => onResolve('discard')}
+            disabled={isResolving}
+            className="w-full sm:w-auto"
+          >
+            {isResolving ? 'Processing...' : 'Discard idle time'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
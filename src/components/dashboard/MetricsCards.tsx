@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useWorkSessionContext } from '@/contexts/work-session-context';
-import { useUser } from '@/hooks/useUser';
+import { useFreeTierWritableProjects } from '@/hooks/useFreeTierWritableProjects';
 import { formatDuration } from '@/lib/utils';
 
 interface MetricsCardsProps {
@@ -16,12 +16,12 @@ export function MetricsCards({
   activeProjectCount,
 }: MetricsCardsProps) {
   const { stats, statsLoading } = useWorkSessionContext();
-  const { user, loading: userLoading } = useUser();
+  const freeTier = useFreeTierWritableProjects();
 
   const totalProjectsCaption = (() => {
     if (projectCount === 0) return 'No projects yet';
-    if (userLoading) return '';
-    if (user?.subscription_tier === 'pro') {
+    if (freeTier.loading) return '';
+    if (!freeTier.isFree) {
       return 'Unlimited on Pro';
     }
     if (activeProjectCount > 2) {
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getBrowserTimeZone } from '@/lib/time-zones';
+import {
+  getTimerLimitRules,
+  TIMER_MAX_RUN_MAX_HOURS,
+  TimerWeekendBehavior,
+  validateTimerLimitInput,
+} from '@/lib/timer-limits';
+import { UpdateUserRequest, User } from '@/types';
+
+const DEFAULT_MAX_RUN_HOURS = 8;
+const DEFAULT_AUTO_STOP_TIME = '18:00';
+
+interface TimerLimitsCardProps {
+  user: User | null;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for timers left running: a maximum continuous run length and a
+ * local time of day at which the server stops them.
+ */
+export function TimerLimitsCard({ user, onUpdate }: TimerLimitsCardProps) {
+  const rules = getTimerLimitRules(user);
+  const savedMaxRunEnabled = rules.maxRunHours !== null;
+  const savedMaxRunHours = String(rules.maxRunHours ?? DEFAULT_MAX_RUN_HOURS);
+  const savedAutoStopEnabled = rules.autoStopTime !== null;
+  const savedAutoStopTime = rules.autoStopTime ?? DEFAULT_AUTO_STOP_TIME;
+
+  const [maxRunEnabled, setMaxRunEnabled] = useState(savedMaxRunEnabled);
+  const [maxRunHours, setMaxRunHours] = useState(savedMaxRunHours);
+  const [autoStopEnabled, setAutoStopEnabled] = useState(savedAutoStopEnabled);
+  const [autoStopTime, setAutoStopTime] = useState(savedAutoStopTime);
+  const [weekendBehavior, setWeekendBehavior] = useState<TimerWeekendBehavior>(
+    rules.weekendBehavior
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setMaxRunEnabled(savedMaxRunEnabled);
+    setMaxRunHours(savedMaxRunHours);
+    setAutoStopEnabled(savedAutoStopEnabled);
+    setAutoStopTime(savedAutoStopTime);
+    setWeekendBehavior(rules.weekendBehavior);
+  }, [
+    savedMaxRunEnabled,
+    savedMaxRunHours,
+    savedAutoStopEnabled,
+    savedAutoStopTime,
+    rules.weekendBehavior,
+  ]);
+
+  // The server needs a zone for the time of day; without a saved one the
+  // browser's zone is saved with the limits
+  const timeZone = user?.time_zone || getBrowserTimeZone();
+  const isUnchanged =
+    maxRunEnabled === savedMaxRunEnabled &&
+    maxRunHours === savedMaxRunHours &&
+    autoStopEnabled === savedAutoStopEnabled &&
+    autoStopTime === savedAutoStopTime &&
+    weekendBehavior === rules.weekendBehavior;
+
+  async function handleSave() {
+    const updates: UpdateUserRequest = {
+      timer_max_run_hours: maxRunEnabled ? Number(maxRunHours) : null,
+      timer_auto_stop_time: autoStopEnabled ? autoStopTime : null,
+      timer_weekend_behavior: weekendBehavior,
+      ...(user?.time_zone ? {} : { time_zone: timeZone }),
+    };
+    const validationError = validateTimerLimitInput(updates);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save timer limits');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Timer Limits</CardTitle>
+        <CardDescription>
+          Stop timers you forgot to stop. A timer that goes past a limit is
+          stopped at the limit, so the time after it is not counted, and you are
+          told the next time you open the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Checkbox
+            id="timer-max-run-enabled"
+            checked={maxRunEnabled}
+            onCheckedChange={checked => setMaxRunEnabled(checked === true)}
+            disabled={isSaving || !user}
+          />
+          <Label htmlFor="timer-max-run-enabled">
+            Stop a timer after it runs without a pause for
+          </Label>
+          <Input
+            id="timer-max-run-hours"
+            type="number"
+            min={1}
+            max={TIMER_MAX_RUN_MAX_HOURS}
+            step={1}
+            value={maxRunHours}
+            onChange={e => {
+              setMaxRunHours(e.target.value);
+              if (error) setError(null);
+            }}
+            className="max-w-[90px]"
+            disabled={!maxRunEnabled || isSaving}
+            aria-label="Maximum run length in hours"
+          />
+          <span className="text-sm text-muted-foreground">hours</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Checkbox
+            id="timer-auto-stop-enabled"
+            checked={autoStopEnabled}
+            onCheckedChange={checked => setAutoStopEnabled(checked === true)}
+            disabled={isSaving || !user}
+          />
+          <Label htmlFor="timer-auto-stop-enabled">
+            Stop running timers at
+          </Label>
+          <Input
+            id="timer-auto-stop-time"
+            type="time"
+            value={autoStopTime}
+            onChange={e => {
+              setAutoStopTime(e.target.value);
+              if (error) setError(null);
+            }}
+            className="max-w-[130px]"
+            disabled={!autoStopEnabled || isSaving}
+            aria-label="Auto-stop time of day"
+          />
+          <span className="text-sm text-muted-foreground">({timeZone})</span>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="timer-weekend-behavior">Weekends</Label>
+          <Select
+            value={weekendBehavior}
+            onValueChange={value =>
+              setWeekendBehavior(value as TimerWeekendBehavior)
+            }
+            disabled={isSaving || !user}
+          >
+            <SelectTrigger id="timer-weekend-behavior" className="max-w-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="same">Apply the same limits</SelectItem>
+              <SelectItem value="skip">Never stop timers</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSave}
+          disabled={isSaving || !user || isUnchanged}
+        >
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,476 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import {
+  hasWorkspacePermission,
+  INVITABLE_WORKSPACE_ROLES,
+} from '@/lib/workspaces';
+import {
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/types';
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+interface WorkspacesCardProps {
+  currentUserId: string | undefined;
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const handled = await checkAndHandleUnauthorized(response);
+  if (handled) return null;
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+/**
+ * Workspaces: create a shared one, switch between them, and for the active
+ * shared workspace manage members, roles and email invitations.
+ */
+export function WorkspacesCard({ currentUserId }: WorkspacesCardProps) {
+  const {
+    workspaces,
+    activeWorkspace,
+    error: workspacesError,
+    refreshWorkspaces,
+    createWorkspace,
+    switchWorkspace,
+  } = useWorkspaces();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] =
+    useState<WorkspaceInvitation['role']>('member');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const shared: WorkspaceWithRole | null =
+    activeWorkspace && !activeWorkspace.is_personal ? activeWorkspace : null;
+  const canManageMembers = hasWorkspacePermission(
+    shared?.role,
+    'manage_members'
+  );
+
+  const loadMembers = useCallback(async () => {
+    if (!shared) {
+      setMembers([]);
+      setInvitations([]);
+      return;
+    }
+    try {
+      const [membersData, invitationsData] = await Promise.all([
+        requestJson(`/api/workspaces/${shared.id}/members`),
+        canManageMembers
+          ? requestJson(`/api/workspaces/${shared.id}/invitations`)
+          : Promise.resolve({ invitations: [] }),
+      ]);
+      setMembers(membersData?.members ?? []);
+      setInvitations(invitationsData?.invitations ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    }
+  }, [shared, canManageMembers]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  useEffect(() => {
+    setWorkspaceName(shared?.name ?? '');
+  }, [shared?.name]);
+
+  async function run(action: () => Promise<void>) {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSwitch(workspaceId: string) {
+    if (await switchWorkspace(workspaceId)) {
+      window.location.reload();
+    }
+  }
+
+  function handleCreate() {
+    void run(async () => {
+      const workspace = await createWorkspace(newWorkspaceName.trim());
+      if (workspace) {
+        setNewWorkspaceName('');
+        await handleSwitch(workspace.id);
+      }
+    });
+  }
+
+  function handleRename() {
+    if (!shared) return;
+    void run(async () => {
+      await requestJson(`/api/workspaces/${shared.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: workspaceName.trim() }),
+      });
+      await refreshWorkspaces();
+    });
+  }
+
+  function handleDelete() {
+    if (!shared) return;
+    if (
+      !window.confirm(
+        `Delete "${shared.name}" with all of its projects, tasks, time entries and invoices? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    void run(async () => {
+      await requestJson(`/api/workspaces/${shared.id}`, { method: 'DELETE' });
+      window.location.reload();
+    });
+  }
+
+  function handleInvite() {
+    if (!shared) return;
+    void run(async () => {
+      try {
+        await requestJson(`/api/workspaces/${shared.id}/invitations`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+        });
+        setNotice(`Invitation sent to ${inviteEmail.trim()}`);
+        setInviteEmail('');
+      } finally {
+        // A failed email still leaves a pending invitation
+        await loadMembers();
+      }
+    });
+  }
+
+  function handleCancelInvitation(invitationId: string) {
+    if (!shared) return;
+    void run(async () => {
+      await requestJson(
+        `/api/workspaces/${shared.id}/invitations?invitation_id=${invitationId}`,
+        { method: 'DELETE' }
+      );
+      await loadMembers();
+    });
+  }
+
+  function handleRoleChange(userId: string, role: WorkspaceRole) {
+    if (!shared) return;
+    void run(async () => {
+      await requestJson(`/api/workspaces/${shared.id}/members/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      await loadMembers();
+    });
+  }
+
+  function handleRemove(member: WorkspaceMember) {
+    if (!shared) return;
+    const isSelf = member.user_id === currentUserId;
+    if (
+      !window.confirm(
+        isSelf
+          ? `Leave "${shared.name}"? You will need a new invitation to come back.`
+          : `Remove ${member.user?.name || member.user?.email || 'this member'} from "${shared.name}"?`
+      )
+    ) {
+      return;
+    }
+    void run(async () => {
+      await requestJson(
+        `/api/workspaces/${shared.id}/members/${member.user_id}`,
+        { method: 'DELETE' }
+      );
+      if (isSelf) {
+        window.location.reload();
+      } else {
+        await loadMembers();
+      }
+    });
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Workspaces</CardTitle>
+        <CardDescription>
+          Share projects, tasks and invoices with your team. Everyone tracks
+          their own time; owners and admins manage projects, invoices and
+          members, members work on tasks and viewers can only look.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error || workspacesError) && (
+          <p className="text-sm text-destructive">{error || workspacesError}</p>
+        )}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor="workspace-active">Active workspace</Label>
+          <Select
+            value={activeWorkspace?.id ?? ''}
+            onValueChange={handleSwitch}
+            disabled={isSaving || workspaces.length < 2}
+          >
+            <SelectTrigger id="workspace-active" className="max-w-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map(workspace => (
+                <SelectItem key={workspace.id} value={workspace.id}>
+                  {workspace.name} ({ROLE_LABELS[workspace.role]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="workspace-new-name">New workspace</Label>
+          <div className="flex max-w-sm gap-2">
+            <Input
+              id="workspace-new-name"
+              value={newWorkspaceName}
+              maxLength={100}
+              placeholder="Team name"
+              onChange={e => setNewWorkspaceName(e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCreate}
+              disabled={isSaving || !newWorkspaceName.trim()}
+            >
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {shared && (
+          <div className="space-y-6 border-t pt-6">
+            {hasWorkspacePermission(shared.role, 'manage_workspace') && (
+              <div className="space-y-2">
+                <Label htmlFor="workspace-name">Name</Label>
+                <div className="flex max-w-sm gap-2">
+                  <Input
+                    id="workspace-name"
+                    value={workspaceName}
+                    maxLength={100}
+                    onChange={e => setWorkspaceName(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleRename}
+                    disabled={
+                      isSaving ||
+                      !workspaceName.trim() ||
+                      workspaceName.trim() === shared.name
+                    }
+                  >
+                    Rename
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <ul className="divide-y rounded-md border">
+                {members.map(member => (
+                  <li
+                    key={member.user_id}
+                    className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium text-gray-900">
+                        {member.user?.name || member.user?.email || 'Unknown'}
+                        {member.user_id === currentUserId && ' (you)'}
+                      </p>
+                      {member.user?.name && (
+                        <p className="truncate text-xs text-gray-500">
+                          {member.user.email}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {canManageMembers && member.role !== 'owner' ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={value =>
+                            handleRoleChange(
+                              member.user_id,
+                              value as WorkspaceRole
+                            )
+                          }
+                          disabled={isSaving}
+                        >
+                          <SelectTrigger className="h-8 w-28 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_WORKSPACE_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-sm text-gray-600">
+                          {ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                      {member.role !== 'owner' &&
+                        (canManageMembers ||
+                          member.user_id === currentUserId) && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(member)}
+                            disabled={isSaving}
+                          >
+                            {member.user_id === currentUserId
+                              ? 'Leave'
+                              : 'Remove'}
+                          </Button>
+                        )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {canManageMembers && (
+              <div className="space-y-2">
+                <Label htmlFor="workspace-invite-email">Invite by email</Label>
+                <div className="flex max-w-lg flex-wrap gap-2">
+                  <Input
+                    id="workspace-invite-email"
+                    type="email"
+                    className="min-w-0 flex-1"
+                    value={inviteEmail}
+                    placeholder="teammate@example.com"
+                    onChange={e => setInviteEmail(e.target.value)}
+                  />
+                  <Select
+                    value={inviteRole}
+                    onValueChange={value =>
+                      setInviteRole(value as WorkspaceInvitation['role'])
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVITABLE_WORKSPACE_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleInvite}
+                    disabled={isSaving || !inviteEmail.trim()}
+                  >
+                    Invite
+                  </Button>
+                </div>
+
+                {invitations.length > 0 && (
+                  <ul className="space-y-1 text-sm text-gray-700">
+                    {invitations.map(invitation => (
+                      <li
+                        key={invitation.id}
+                        className="flex items-center justify-between gap-2"
+                      >
+                        <span className="truncate">
+                          {invitation.email} · {ROLE_LABELS[invitation.role]}
+                          {new Date(invitation.expires_at) < new Date()
+                            ? ' · expired'
+                            : ' · pending'}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancelInvitation(invitation.id)}
+                          disabled={isSaving}
+                        >
+                          Cancel
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {shared.role === 'owner' && (
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={handleDelete}
+                disabled={isSaving}
+              >
+                Delete workspace
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
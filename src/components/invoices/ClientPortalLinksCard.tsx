@@ -0,0 +1,286 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CLIENT_PORTAL_EXPIRY_OPTIONS,
+  DEFAULT_CLIENT_PORTAL_EXPIRY_DAYS,
+  isClientPortalLinkExpired,
+} from '@/lib/client-portal';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { formatDate } from '@/lib/utils';
+import { ClientPortalLink } from '@/types';
+
+// Select values are strings; "never" stands for a link without expiry
+const NEVER = 'never';
+
+function toExpiryValue(days: number | null): string {
+  return days === null ? NEVER : String(days);
+}
+
+function fromExpiryValue(value: string): number | null {
+  return value === NEVER ? null : Number(value);
+}
+
+function getPortalUrl(token: string): string {
+  return new URL(`/client-portal/${token}`, window.location.origin).toString();
+}
+
+interface ClientPortalLinksCardProps {
+  clientId: string | null | undefined;
+  clientName: string;
+}
+
+/**
+ * Portal links of the invoice's client: create one with an expiry, copy it,
+ * change its expiry or revoke it. Only owners and admins see the section.
+ */
+export function ClientPortalLinksCard({
+  clientId,
+  clientName,
+}: ClientPortalLinksCardProps) {
+  const [links, setLinks] = useState<ClientPortalLink[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [expiry, setExpiry] = useState(
+    toExpiryValue(DEFAULT_CLIENT_PORTAL_EXPIRY_DAYS)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    if (!clientId) return;
+    try {
+      const response = await fetch(`/api/clients/${clientId}/portal-links`);
+      // Members and viewers cannot share invoices
+      if (response.status === 403) {
+        setCanManage(false);
+        return;
+      }
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load portal links');
+      }
+      const data = await response.json();
+      setLinks(data.links ?? []);
+      setCanManage(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load portal links'
+      );
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  async function saveLink(url: string, method: 'POST' | 'PATCH', body: object) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update the portal link');
+      }
+      await loadLinks();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update the portal link'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleCreate() {
+    void saveLink(`/api/clients/${clientId}/portal-links`, 'POST', {
+      expires_in_days: fromExpiryValue(expiry),
+    });
+  }
+
+  function handleChangeExpiry(linkId: string, value: string) {
+    void saveLink(`/api/clients/${clientId}/portal-links/${linkId}`, 'PATCH', {
+      expires_in_days: fromExpiryValue(value),
+    });
+  }
+
+  function handleRevoke(linkId: string) {
+    if (
+      window.confirm(
+        'The client will no longer be able to open this link. Continue?'
+      )
+    ) {
+      void saveLink(
+        `/api/clients/${clientId}/portal-links/${linkId}`,
+        'PATCH',
+        { revoked: true }
+      );
+    }
+  }
+
+  async function handleCopy(link: ClientPortalLink) {
+    try {
+      await navigator.clipboard.writeText(getPortalUrl(link.token));
+      setCopiedId(link.id);
+    } catch {
+      setError('Could not copy the link; select it and copy it instead');
+    }
+  }
+
+  if (!clientId) {
+    return (
+      <div className="mb-8">
+        <h2 className="font-semibold mb-2">Client portal</h2>
+        <p className="text-sm text-muted-foreground">
+          Link this project to a client to share a portal where they can see and
+          download their invoices.
+        </p>
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return error ? (
+      <p className="mb-8 text-sm text-destructive">{error}</p>
+    ) : null;
+  }
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div>
+        <h2 className="font-semibold">Client portal</h2>
+        <p className="text-sm text-muted-foreground">
+          {clientName} can see every invoice you have sent them and download the
+          PDFs, without an account. Anyone with the link can open it, so revoke
+          links you no longer need.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600">Expires after</span>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLIENT_PORTAL_EXPIRY_OPTIONS.map(option => (
+              <SelectItem
+                key={option.label}
+                value={toExpiryValue(option.value)}
+              >
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={isSaving}
+        >
+          Create link
+        </Button>
+      </div>
+
+      {links.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {links.map(link => {
+            const expired = isClientPortalLinkExpired(link);
+            return (
+              <li key={link.id} className="space-y-2 p-3">
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={getPortalUrl(link.token)}
+                    onFocus={e => e.target.select()}
+                    aria-label="Portal link"
+                    className={expired ? 'text-muted-foreground' : ''}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleCopy(link)}
+                  >
+                    {copiedId === link.id ? 'Copied' : 'Copy'}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {expired
+                      ? `Expired ${formatDate(link.expires_at!)}`
+                      : link.expires_at
+                        ? `Works until ${formatDate(link.expires_at)}`
+                        : 'Never expires'}
+                    {' · '}
+                    {link.view_count === 0
+                      ? 'Not opened yet'
+                      : `Opened ${link.view_count} time${link.view_count === 1 ? '' : 's'}, last ${formatDate(link.last_viewed_at!)}`}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value=""
+                      onValueChange={value =>
+                        handleChangeExpiry(link.id, value)
+                      }
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger className="h-8 w-[150px] text-xs">
+                        <SelectValue
+                          placeholder={expired ? 'Renew' : 'Change expiry'}
+                        />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CLIENT_PORTAL_EXPIRY_OPTIONS.map(option => (
+                          <SelectItem
+                            key={option.label}
+                            value={toExpiryValue(option.value)}
+                          >
+                            {option.value === null
+                              ? 'Never expire'
+                              : `${option.label} from today`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleRevoke(link.id)}
+                      disabled={isSaving}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,13 @@ import { useCallback, useEffect, useState } from 'react';
 
 import { CalendarIcon, XIcon } from 'lucide-react';
 
+import {
+  InvoiceAdjustmentsFields,
+  InvoiceDiscountInput,
+} from '@/components/invoices/InvoiceAdjustmentsFields';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -26,8 +31,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
 import { useUser } from '@/hooks/useUser';
 import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  calculateInvoiceTotals,
+  formatInvoiceAdjustment,
+  getInvoiceAdjustmentRows,
+  getInvoiceItemAmount,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
+import { getBrowserTimeZone } from '@/lib/time-zones';
 import { cn, formatDate } from '@/lib/utils';
-import { CreateInvoiceRequest, Project } from '@/types';
+import { CreateInvoiceRequest, InvoiceDiscount, Project } from '@/types';
 
 interface CreateInvoiceModalProps {
   open: boolean;
@@ -44,6 +57,7 @@ interface InvoicePreviewItem {
   unit_price: number;
   total_cost: number;
   rate_type: 'hourly' | 'fixed' | null;
+  discount?: InvoiceDiscount | null;
 }
 
 function formatRateType(rateType: string | null | undefined): string {
@@ -68,7 +82,9 @@ export function CreateInvoiceModal({
     invoice_number: '',
     issue_date: formatDate(new Date()),
     due_date: undefined,
-    tax_rate: 0,
+    taxes: [],
+    tax_inclusive: false,
+    discount: null,
     currency_code: project.currency_code || 'USD',
     notes: '',
     date_range: {
@@ -89,6 +105,7 @@ export function CreateInvoiceModal({
     useState<string[]>([]);
   const [isStoppingCompletedTimers, setIsStoppingCompletedTimers] =
     useState(false);
+  const [includeTimeEntryNotes, setIncludeTimeEntryNotes] = useState(false);
 
   // Calendar states
   const [fromDateOpen, setFromDateOpen] = useState(false);
@@ -106,7 +123,9 @@ export function CreateInvoiceModal({
         invoice_number: '',
         issue_date: formatDate(new Date()),
         due_date: undefined,
-        tax_rate: 0,
+        taxes: [],
+        tax_inclusive: false,
+        discount: null,
         currency_code: project.currency_code || 'USD',
         notes: '',
         date_range: {
@@ -118,6 +137,7 @@ export function CreateInvoiceModal({
       setPreviewItems([]);
       setExcludedTaskIds(new Set());
       setActiveCompletedTaskTimerIds([]);
+      setIncludeTimeEntryNotes(false);
     }
   }, [open, project, refreshUser]);
 
@@ -133,8 +153,8 @@ export function CreateInvoiceModal({
           date_range: {
             from: formData.date_range.from,
             to: formData.date_range.to,
+            time_zone: getBrowserTimeZone(),
           },
-          tax_rate: formData.tax_rate ?? 0,
           currency_code:
             formData.currency_code || project.currency_code || 'USD',
         }),
@@ -166,9 +186,6 @@ export function CreateInvoiceModal({
     } finally {
       setIsLoadingPreview(false);
     }
-    // formData.tax_rate intentionally excluded: including it would trigger refetch on tax
-    // change and reset excludedTaskIds (user's removed items would reappear)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     formData.date_range.from,
     formData.date_range.to,
@@ -198,10 +215,13 @@ export function CreateInvoiceModal({
   const visibleItems = previewItems.filter(
     item => !excludedTaskIds.has(item.task_id)
   );
-  const subtotal = visibleItems.reduce((sum, i) => sum + i.total_cost, 0);
-  const taxRate = formData.tax_rate ?? 0;
-  const taxAmount = Math.round(((subtotal * taxRate) / 100) * 100) / 100;
-  const totalAmount = Math.round((subtotal + taxAmount) * 100) / 100;
+  // Same calculation the API runs when the invoice is created
+  const totals = calculateInvoiceTotals({
+    items: visibleItems,
+    discount: formData.discount,
+    taxes: formData.taxes,
+    tax_inclusive: formData.tax_inclusive,
+  });
 
   const removeItem = (taskId: string) => {
     setExcludedTaskIds(prev => new Set([...prev, taskId]));
@@ -251,6 +271,15 @@ export function CreateInvoiceModal({
     );
   };
 
+  const updateItemDiscount = (
+    taskId: string,
+    discount: InvoiceDiscount | null
+  ) => {
+    setPreviewItems(prev =>
+      prev.map(item => (item.task_id === taskId ? { ...item, discount } : item))
+    );
+  };
+
   const handleInputChange = (
     field: keyof CreateInvoiceRequest,
     value: string | number | undefined
@@ -313,6 +342,12 @@ export function CreateInvoiceModal({
       return;
     }
 
+    const taxesError = validateInvoiceTaxes(formData.taxes ?? []);
+    if (taxesError) {
+      setErrorMessage(taxesError);
+      return;
+    }
+
     const invalidTaskIds = visibleItems
       .filter(item => item.quantity <= 0 || item.unit_price < 0)
       .map(item => item.task_id);
@@ -327,12 +362,15 @@ export function CreateInvoiceModal({
         invoice_number: formData.invoice_number?.trim() || undefined,
         issue_date: formData.issue_date,
         due_date: formData.due_date || undefined,
-        tax_rate: formData.tax_rate || 0,
+        taxes: formData.taxes,
+        tax_inclusive: formData.tax_inclusive,
+        discount: formData.discount,
         currency_code: formData.currency_code || project.currency_code || 'USD',
         notes: formData.notes?.trim() || undefined,
         date_range: {
           from: formData.date_range.from,
           to: formData.date_range.to,
+          time_zone: getBrowserTimeZone(),
         },
         exclude_task_ids:
           allExcludedTaskIds.size > 0
@@ -344,9 +382,11 @@ export function CreateInvoiceModal({
             {
               quantity: Math.round(item.quantity * 100) / 100,
               unit_price: Math.round(item.unit_price * 100) / 100,
+              discount: item.discount ?? null,
             },
           ])
         ),
+        include_time_entry_notes: includeTimeEntryNotes || undefined,
       };
 
       const response = await fetch('/api/invoices', {
@@ -382,7 +422,7 @@ export function CreateInvoiceModal({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Invoice</DialogTitle>
           <DialogDescription>
@@ -591,6 +631,9 @@ export function CreateInvoiceModal({
                         <th className="px-2 py-2 text-right font-medium w-24">
                           Rate Type
                         </th>
+                        <th className="px-2 py-2 text-right font-medium w-36">
+                          Discount
+                        </th>
                         <th className="px-2 py-2 text-right font-medium w-24">
                           Amount
                         </th>
@@ -598,7 +641,7 @@ export function CreateInvoiceModal({
                       </tr>
                     </thead>
                     <tbody>
-                      {visibleItems.map(item => (
+                      {visibleItems.map((item, index) => (
                         <tr key={item.task_id} className="border-b">
                           <td className="px-2 py-1 text-left text-sm">
                             <div>{item.name || '—'}</div>
@@ -638,9 +681,19 @@ export function CreateInvoiceModal({
                           <td className="px-2 py-1 text-right text-sm capitalize">
                             <div>{formatRateType(item.rate_type) || '—'}</div>
                           </td>
+                          <td className="px-2 py-1">
+                            <InvoiceDiscountInput
+                              value={item.discount ?? null}
+                              currencyCode={previewCurrency}
+                              size="sm"
+                              onChange={discount =>
+                                updateItemDiscount(item.task_id, discount)
+                              }
+                            />
+                          </td>
                           <td className="px-2 py-1 text-right">
                             {formatPriceWithCurrency(
-                              item.total_cost,
+                              getInvoiceItemAmount(totals.items[index]),
                               previewCurrency,
                               false
                             )}
@@ -663,31 +716,39 @@ export function CreateInvoiceModal({
                   </table>
                 </div>
                 <div className="flex justify-end">
-                  <dl className="w-full max-w-[200px] space-y-1 text-sm">
+                  <dl className="w-full max-w-[240px] space-y-1 text-sm">
                     <div className="flex justify-between border-t pt-2">
                       <dt>Subtotal</dt>
                       <dd>
                         {formatPriceWithCurrency(
-                          subtotal,
-                          previewCurrency,
-                          false
-                        )}
-                      </dd>
-                    </div>
-                    <div className="flex justify-between border-t pt-2">
-                      <dt>Tax ({taxRate}%)</dt>
-                      <dd>
-                        {formatPriceWithCurrency(
-                          taxAmount,
+                          totals.subtotal,
                           previewCurrency,
                           false
                         )}
                       </dd>
                     </div>
+                    {getInvoiceAdjustmentRows(totals).map((row, index) => (
+                      <div
+                        key={`${row.label}-${index}`}
+                        className="flex justify-between gap-2 border-t pt-2"
+                      >
+                        <dt>{row.label}</dt>
+                        <dd>
+                          {formatInvoiceAdjustment(
+                            row.amount,
+                            previewCurrency,
+                            false
+                          )}
+                        </dd>
+                      </div>
+                    ))}
                     <div className="flex justify-between border-t pt-2 font-medium">
                       <dt>Total</dt>
                       <dd>
-                        {formatPriceWithCurrency(totalAmount, previewCurrency)}
+                        {formatPriceWithCurrency(
+                          totals.total_amount,
+                          previewCurrency
+                        )}
                       </dd>
                     </div>
                   </dl>
@@ -797,20 +858,43 @@ export function CreateInvoiceModal({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="tax-rate">Tax Rate (%)</Label>
-            <Input
-              id="tax-rate"
-              type="number"
-              min="0"
-              max="100"
-              step="0.01"
-              value={formData.tax_rate || 0}
-              onChange={e =>
-                handleInputChange('tax_rate', parseFloat(e.target.value) || 0)
+          <InvoiceAdjustmentsFields
+            idPrefix="create-invoice"
+            currencyCode={previewCurrency}
+            discount={formData.discount ?? null}
+            taxes={formData.taxes ?? []}
+            taxInclusive={formData.tax_inclusive === true}
+            onDiscountChange={discount =>
+              setFormData(prev => ({ ...prev, discount }))
+            }
+            onTaxesChange={taxes => {
+              setFormData(prev => ({ ...prev, taxes }));
+              setErrorMessage(null);
+            }}
+            onTaxInclusiveChange={taxInclusive =>
+              setFormData(prev => ({ ...prev, tax_inclusive: taxInclusive }))
+            }
+          />
+
+          {/* Time entry notes */}
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="include-time-entry-notes"
+              checked={includeTimeEntryNotes}
+              onCheckedChange={checked =>
+                setIncludeTimeEntryNotes(checked === true)
               }
-              placeholder="0"
+              className="mt-0.5"
             />
+            <div className="space-y-1">
+              <Label htmlFor="include-time-entry-notes">
+                Include time entry notes
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Adds each time entry&apos;s note to its item description so your
+                client can see what the time was spent on.
+              </p>
+            </div>
           </div>
 
           {/* Notes */}
@@ -4,6 +4,10 @@ import { useEffect, useMemo, useState } from 'react';
 
 import { CalendarIcon, XIcon } from 'lucide-react';
 
+import {
+  InvoiceAdjustmentsFields,
+  InvoiceDiscountInput,
+} from '@/components/invoices/InvoiceAdjustmentsFields';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import {
@@ -31,10 +35,22 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  calculateInvoiceTotals,
+  formatInvoiceAdjustment,
+  getInvoiceAdjustmentRows,
+  getInvoiceDiscount,
+  getInvoiceItemAmount,
+  getInvoiceTaxes,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
+import { INVOICE_STATUS_TRANSITIONS } from '@/lib/invoice-utils';
 import { cn, formatDate } from '@/lib/utils';
 import {
+  InvoiceDiscount,
   InvoiceItem,
   InvoiceStatus,
+  InvoiceTax,
   InvoiceWithDetails,
   RateType,
   UpdateInvoiceRequest,
@@ -45,6 +61,7 @@ type EditInvoiceFormItem = {
   name: string;
   quantity: number;
   unit_price: number;
+  discount: InvoiceDiscount | null;
   rate_type?: RateType | null;
 };
 
@@ -56,17 +73,19 @@ function formatRateType(rateType: string | null | undefined): string {
   return s;
 }
 
-/** Allowed status transitions (must match API). Terminal: paid, cancelled. */
-const ALLOWED_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
-  draft: ['sent', 'paid', 'overdue', 'cancelled'],
-  sent: ['paid', 'overdue', 'cancelled'],
-  overdue: ['paid', 'cancelled'],
-  cancelled: [],
-  paid: [],
-};
+// A zero discount counts as no discount
+function isSameDiscount(
+  a: InvoiceDiscount | null,
+  b: InvoiceDiscount | null
+): boolean {
+  const aValue = a?.value || 0;
+  const bValue = b?.value || 0;
+  if (aValue === 0 && bValue === 0) return true;
+  return a?.type === b?.type && aValue === bValue;
+}
 
 function getStatusOptions(currentStatus: InvoiceStatus): InvoiceStatus[] {
-  const next = ALLOWED_STATUS_TRANSITIONS[currentStatus] ?? [];
+  const next = INVOICE_STATUS_TRANSITIONS[currentStatus] ?? [];
   return [...new Set([currentStatus, ...next])];
 }
 
@@ -94,7 +113,9 @@ export function EditInvoiceModal({
   const [invoiceNumber, setInvoiceNumber] = useState('');
   const [issueDate, setIssueDate] = useState('');
   const [dueDate, setDueDate] = useState('');
-  const [taxRate, setTaxRate] = useState(0);
+  const [taxes, setTaxes] = useState<InvoiceTax[]>([]);
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [discount, setDiscount] = useState<InvoiceDiscount | null>(null);
   const [notes, setNotes] = useState('');
   const [status, setStatus] = useState<InvoiceStatus>('draft');
   const [items, setItems] = useState<EditInvoiceFormItem[]>([]);
@@ -111,7 +132,9 @@ export function EditInvoiceModal({
       setInvoiceNumber(invoice.invoice_number ?? '');
       setIssueDate(invoice.issue_date ?? '');
       setDueDate(invoice.due_date ?? '');
-      setTaxRate(invoice.tax_rate ?? 0);
+      setTaxes(getInvoiceTaxes(invoice));
+      setTaxInclusive(invoice.tax_inclusive === true);
+      setDiscount(getInvoiceDiscount(invoice));
       setNotes(invoice.notes ?? '');
       setStatus(invoice.status ?? 'draft');
       setItems(
@@ -120,6 +143,7 @@ export function EditInvoiceModal({
           name: item.name,
           quantity: item.quantity,
           unit_price: item.unit_price,
+          discount: getInvoiceDiscount(item),
           rate_type: item.rate_type ?? null,
         }))
       );
@@ -132,7 +156,11 @@ export function EditInvoiceModal({
     if (invoiceNumber !== (invoice.invoice_number ?? '')) return true;
     if (issueDate !== (invoice.issue_date ?? '')) return true;
     if (dueDate !== (invoice.due_date ?? '')) return true;
-    if (taxRate !== (invoice.tax_rate ?? 0)) return true;
+    if (JSON.stringify(taxes) !== JSON.stringify(getInvoiceTaxes(invoice))) {
+      return true;
+    }
+    if (taxInclusive !== (invoice.tax_inclusive === true)) return true;
+    if (!isSameDiscount(discount, getInvoiceDiscount(invoice))) return true;
     if (notes !== (invoice.notes ?? '')) return true;
     if (status !== (invoice.status ?? 'draft')) return true;
     const origItems = invoice.items ?? [];
@@ -140,7 +168,8 @@ export function EditInvoiceModal({
     return items.some(
       (a, i) =>
         Number(a.quantity) !== Number(origItems[i].quantity) ||
-        Number(a.unit_price) !== Number(origItems[i].unit_price)
+        Number(a.unit_price) !== Number(origItems[i].unit_price) ||
+        !isSameDiscount(a.discount, getInvoiceDiscount(origItems[i]))
     );
   }, [
     invoice,
@@ -148,7 +177,9 @@ export function EditInvoiceModal({
     invoiceNumber,
     issueDate,
     dueDate,
-    taxRate,
+    taxes,
+    taxInclusive,
+    discount,
     notes,
     status,
     items,
@@ -161,7 +192,7 @@ export function EditInvoiceModal({
   function updateItem(
     index: number,
     field: keyof EditInvoiceFormItem,
-    value: string | number | RateType | null
+    value: string | number | InvoiceDiscount | RateType | null
   ) {
     setItems(prev =>
       prev.map((row, i) => (i !== index ? row : { ...row, [field]: value }))
@@ -194,6 +225,11 @@ export function EditInvoiceModal({
         return;
       }
     }
+    const taxesError = validateInvoiceTaxes(taxes);
+    if (taxesError) {
+      setErrorMessage(taxesError);
+      return;
+    }
 
     setIsSubmitting(true);
     setErrorMessage(null);
@@ -202,7 +238,9 @@ export function EditInvoiceModal({
         invoice_number: invoiceNumber.trim() || undefined,
         issue_date: issueDate,
         due_date: dueDate.trim() || undefined,
-        tax_rate: taxRate,
+        taxes,
+        tax_inclusive: taxInclusive,
+        discount,
         notes: notes.trim() || undefined,
         items: validItems.map(row => {
           const q = Math.round(Number(row.quantity) * 100) / 100;
@@ -213,6 +251,7 @@ export function EditInvoiceModal({
             quantity: q,
             unit_price: u,
             total_cost,
+            discount: row.discount,
             rate_type: row.rate_type ?? null,
           };
         }),
@@ -258,18 +297,17 @@ export function EditInvoiceModal({
   if (!invoice) return null;
 
   const currencyCode = invoice.currency_code ?? 'USD';
-  const subtotal = items.reduce(
-    (sum, row) =>
-      sum +
-      Math.round(Number(row.quantity) * Number(row.unit_price) * 100) / 100,
-    0
-  );
-  const taxAmount = Math.round(((subtotal * (taxRate ?? 0)) / 100) * 100) / 100;
-  const totalAmount = Math.round((subtotal + taxAmount) * 100) / 100;
+  // Same calculation the API runs when the invoice is saved
+  const totals = calculateInvoiceTotals({
+    items,
+    discount,
+    taxes,
+    tax_inclusive: taxInclusive,
+  });
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Invoice</DialogTitle>
           <DialogDescription>
@@ -324,6 +362,9 @@ export function EditInvoiceModal({
                     <th className="px-2 py-2 text-right font-medium w-24">
                       Rate Type
                     </th>
+                    <th className="px-2 py-2 text-right font-medium w-36">
+                      Discount
+                    </th>
                     <th className="px-2 py-2 text-right font-medium w-24">
                       Amount
                     </th>
@@ -375,11 +416,20 @@ export function EditInvoiceModal({
                       <td className="px-2 py-1 text-right text-sm capitalize">
                         <div>{formatRateType(row.rate_type) || '—'}</div>
                       </td>
+                      <td className="px-2 py-1">
+                        <InvoiceDiscountInput
+                          value={row.discount}
+                          currencyCode={currencyCode}
+                          size="sm"
+                          disabled={isLocked}
+                          onChange={value =>
+                            updateItem(index, 'discount', value)
+                          }
+                        />
+                      </td>
                       <td className="px-2 py-1 text-right">
                         {formatPriceWithCurrency(
-                          Math.round(
-                            Number(row.quantity) * Number(row.unit_price) * 100
-                          ) / 100,
+                          getInvoiceItemAmount(totals.items[index]),
                           currencyCode,
                           false
                         )}
@@ -410,22 +460,33 @@ export function EditInvoiceModal({
               </table>
             </div>
             <div className="flex justify-end">
-              <dl className="w-full max-w-[200px] space-y-1 text-sm">
+              <dl className="w-full max-w-[240px] space-y-1 text-sm">
                 <div className="flex justify-between border-t pt-2">
                   <dt>Subtotal</dt>
                   <dd>
-                    {formatPriceWithCurrency(subtotal, currencyCode, false)}
-                  </dd>
-                </div>
-                <div className="flex justify-between border-t pt-2">
-                  <dt>Tax ({taxRate ?? 0}%)</dt>
-                  <dd>
-                    {formatPriceWithCurrency(taxAmount, currencyCode, false)}
+                    {formatPriceWithCurrency(
+                      totals.subtotal,
+                      currencyCode,
+                      false
+                    )}
                   </dd>
                 </div>
+                {getInvoiceAdjustmentRows(totals).map((row, index) => (
+                  <div
+                    key={`${row.label}-${index}`}
+                    className="flex justify-between gap-2 border-t pt-2"
+                  >
+                    <dt>{row.label}</dt>
+                    <dd>
+                      {formatInvoiceAdjustment(row.amount, currencyCode, false)}
+                    </dd>
+                  </div>
+                ))}
                 <div className="flex justify-between border-t pt-2 font-medium">
                   <dt>Total</dt>
-                  <dd>{formatPriceWithCurrency(totalAmount, currencyCode)}</dd>
+                  <dd>
+                    {formatPriceWithCurrency(totals.total_amount, currencyCode)}
+                  </dd>
                 </div>
               </dl>
             </div>
@@ -507,19 +568,20 @@ export function EditInvoiceModal({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="edit-tax-rate">Tax Rate (%)</Label>
-            <Input
-              id="edit-tax-rate"
-              type="number"
-              min={0}
-              max={100}
-              step={0.01}
-              value={taxRate}
-              onChange={e => setTaxRate(parseFloat(e.target.value) || 0)}
-              disabled={isLocked}
-            />
-          </div>
+          <InvoiceAdjustmentsFields
+            idPrefix="edit-invoice"
+            currencyCode={currencyCode}
+            discount={discount}
+            taxes={taxes}
+            taxInclusive={taxInclusive}
+            disabled={isLocked}
+            onDiscountChange={setDiscount}
+            onTaxesChange={value => {
+              setTaxes(value);
+              setErrorMessage(null);
+            }}
+            onTaxInclusiveChange={setTaxInclusive}
+          />
 
           <div className="space-y-2">
             <Label htmlFor="edit-notes">Notes (optional)</Label>
@@ -0,0 +1,230 @@
+'use client';
+
+import { PlusIcon, XIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  INVOICE_MAX_TAXES,
+  INVOICE_TAX_NAME_MAX_LENGTH,
+} from '@/lib/invoice-totals';
+import { cn } from '@/lib/utils';
+import { InvoiceDiscount, InvoiceDiscountType, InvoiceTax } from '@/types';
+
+interface InvoiceDiscountInputProps {
+  id?: string;
+  /** A zero value keeps the chosen type; it is saved as no discount */
+  value: InvoiceDiscount | null;
+  currencyCode: string;
+  disabled?: boolean;
+  size?: 'sm' | 'default';
+  className?: string;
+  onChange: (discount: InvoiceDiscount | null) => void;
+}
+
+/** Discount amount with a percent / fixed amount toggle */
+export function InvoiceDiscountInput({
+  id,
+  value,
+  currencyCode,
+  disabled,
+  size = 'default',
+  className,
+  onChange,
+}: InvoiceDiscountInputProps) {
+  const type = value?.type ?? 'percentage';
+
+  return (
+    <div className={cn('flex gap-1', className)}>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={type === 'percentage' ? 100 : undefined}
+        step={0.01}
+        value={value?.value || ''}
+        onChange={e =>
+          onChange({ type, value: parseFloat(e.target.value) || 0 })
+        }
+        placeholder="0"
+        disabled={disabled}
+        className={cn('text-right', size === 'sm' && 'h-8')}
+      />
+      <Select
+        value={type}
+        onValueChange={next =>
+          onChange({
+            type: next as InvoiceDiscountType,
+            value: value?.value ?? 0,
+          })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size={size} className="shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="percentage">%</SelectItem>
+          <SelectItem value="fixed">{currencyCode}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface InvoiceAdjustmentsFieldsProps {
+  /** Keeps input ids unique when both invoice modals are mounted */
+  idPrefix: string;
+  currencyCode: string;
+  discount: InvoiceDiscount | null;
+  taxes: InvoiceTax[];
+  taxInclusive: boolean;
+  disabled?: boolean;
+  onDiscountChange: (discount: InvoiceDiscount | null) => void;
+  onTaxesChange: (taxes: InvoiceTax[]) => void;
+  onTaxInclusiveChange: (taxInclusive: boolean) => void;
+}
+
+/**
+ * Invoice-level discount, named taxes and tax-inclusive pricing, shared by the
+ * create and edit invoice modals
+ */
+export function InvoiceAdjustmentsFields({
+  idPrefix,
+  currencyCode,
+  discount,
+  taxes,
+  taxInclusive,
+  disabled,
+  onDiscountChange,
+  onTaxesChange,
+  onTaxInclusiveChange,
+}: InvoiceAdjustmentsFieldsProps) {
+  function updateTax(index: number, updates: Partial<InvoiceTax>) {
+    onTaxesChange(
+      taxes.map((tax, i) => (i === index ? { ...tax, ...updates } : tax))
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-discount`}>Discount (optional)</Label>
+        <InvoiceDiscountInput
+          id={`${idPrefix}-discount`}
+          value={discount}
+          currencyCode={currencyCode}
+          disabled={disabled}
+          onChange={onDiscountChange}
+          className="max-w-[200px]"
+        />
+        <p className="text-xs text-muted-foreground">
+          Applied to the subtotal, after any item discounts.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Taxes</Label>
+        {taxes.map((tax, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={tax.name}
+              onChange={e => updateTax(index, { name: e.target.value })}
+              placeholder="Name, e.g. VAT"
+              maxLength={INVOICE_TAX_NAME_MAX_LENGTH}
+              disabled={disabled}
+              aria-label="Tax name"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step={0.01}
+              value={tax.rate}
+              onChange={e =>
+                updateTax(index, { rate: parseFloat(e.target.value) || 0 })
+              }
+              disabled={disabled}
+              className="w-24 shrink-0 text-right"
+              aria-label="Tax rate (%)"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+            <div className="flex shrink-0 items-center gap-1.5">
+              <Checkbox
+                id={`${idPrefix}-tax-${index}-withholding`}
+                checked={tax.is_withholding === true}
+                onCheckedChange={checked =>
+                  updateTax(index, { is_withholding: checked === true })
+                }
+                disabled={disabled}
+              />
+              <Label
+                htmlFor={`${idPrefix}-tax-${index}-withholding`}
+                className="text-sm font-normal"
+              >
+                Withheld
+              </Label>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 shrink-0 p-0 text-destructive hover:text-destructive"
+              onClick={() => onTaxesChange(taxes.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label="Remove tax"
+            >
+              <XIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onTaxesChange([
+              ...taxes,
+              { name: '', rate: 0, is_withholding: false },
+            ])
+          }
+          disabled={disabled || taxes.length >= INVOICE_MAX_TAXES}
+        >
+          <PlusIcon className="mr-1 h-4 w-4" />
+          Add tax
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Withheld taxes (e.g. withholding tax your client pays on your behalf)
+          are deducted from the total.
+        </p>
+      </div>
+
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id={`${idPrefix}-tax-inclusive`}
+          checked={taxInclusive}
+          onCheckedChange={checked => onTaxInclusiveChange(checked === true)}
+          disabled={disabled}
+          className="mt-0.5"
+        />
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-tax-inclusive`}>
+            Prices include tax
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Taxes are calculated from the amounts instead of being added on top.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  formatInvoiceNumber,
+  INVOICE_NUMBER_MAX_COUNTER,
+  INVOICE_NUMBER_MAX_PADDING,
+  INVOICE_NUMBER_MAX_PREFIX_LENGTH,
+  INVOICE_NUMBER_TOKENS,
+  validateInvoiceNumberingInput,
+} from '@/lib/invoice-numbering';
+import { INVOICE_PRO_ONLY_ERROR_MESSAGE } from '@/lib/subscription-enforcement';
+import { UpdateUserRequest, User } from '@/types';
+
+interface InvoiceNumberingCardProps {
+  user: User | null;
+  isPro: boolean;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for auto-generated invoice numbers: prefix with date tokens,
+ * zero-padding, the next counter value and an optional yearly reset.
+ */
+export function InvoiceNumberingCard({
+  user,
+  isPro,
+  onUpdate,
+}: InvoiceNumberingCardProps) {
+  const savedPrefix = user?.invoice_number_prefix ?? '';
+  const savedPadding = String(user?.invoice_number_padding ?? 1);
+  const savedNext =
+    user?.invoice_number_next != null ? String(user.invoice_number_next) : '';
+  const savedResetYearly = user?.invoice_number_reset_yearly === true;
+
+  const [prefix, setPrefix] = useState(savedPrefix);
+  const [padding, setPadding] = useState(savedPadding);
+  const [next, setNext] = useState(savedNext);
+  const [resetYearly, setResetYearly] = useState(savedResetYearly);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setPrefix(savedPrefix);
+    setPadding(savedPadding);
+    setNext(savedNext);
+    setResetYearly(savedResetYearly);
+  }, [savedPrefix, savedPadding, savedNext, savedResetYearly]);
+
+  const hasChanges =
+    prefix !== savedPrefix ||
+    padding !== savedPadding ||
+    next !== savedNext ||
+    resetYearly !== savedResetYearly;
+
+  const paddingValue = parseInt(padding, 10);
+  const nextValue = parseInt(next, 10);
+  const preview = formatInvoiceNumber(
+    {
+      invoice_number_prefix: prefix,
+      invoice_number_padding:
+        paddingValue >= 1 && paddingValue <= INVOICE_NUMBER_MAX_PADDING
+          ? paddingValue
+          : 1,
+    },
+    nextValue >= 1 ? nextValue : 1
+  );
+
+  async function handleSave() {
+    const updates: UpdateUserRequest = {
+      invoice_number_prefix: prefix,
+      invoice_number_padding: Number(padding),
+      invoice_number_reset_yearly: resetYearly,
+    };
+    // Left empty, numbering continues after the highest existing invoice number
+    if (next.trim() !== '') {
+      updates.invoice_number_next = Number(next);
+    }
+
+    const validationError = validateInvoiceNumberingInput(updates);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save numbering settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const disabled = !isPro || isSaving;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Invoice Numbering</CardTitle>
+        <CardDescription>
+          Used when an invoice is created without a number. You can still type a
+          custom number when creating an invoice. The sequence is yours and
+          continues across every workspace you invoice from.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPro && (
+          <p className="text-sm text-muted-foreground">
+            {INVOICE_PRO_ONLY_ERROR_MESSAGE}
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number-prefix">Prefix</Label>
+            <Input
+              id="invoice-number-prefix"
+              value={prefix}
+              onChange={e => {
+                setPrefix(e.target.value);
+                if (error) setError(null);
+              }}
+              placeholder="INV-{YYYY}-"
+              maxLength={INVOICE_NUMBER_MAX_PREFIX_LENGTH}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number-padding">Digits</Label>
+            <Input
+              id="invoice-number-padding"
+              type="number"
+              min={1}
+              max={INVOICE_NUMBER_MAX_PADDING}
+              step={1}
+              value={padding}
+              onChange={e => {
+                setPadding(e.target.value);
+                if (error) setError(null);
+              }}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number-next">Next number</Label>
+            <Input
+              id="invoice-number-next"
+              type="number"
+              min={1}
+              max={INVOICE_NUMBER_MAX_COUNTER}
+              step={1}
+              value={next}
+              onChange={e => {
+                setNext(e.target.value);
+                if (error) setError(null);
+              }}
+              placeholder="After last invoice"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The prefix may use {INVOICE_NUMBER_TOKENS.join(', ')} for the issue
+          year and month. Next invoice: <strong>{preview}</strong>
+        </p>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="invoice-number-reset-yearly"
+            checked={resetYearly}
+            onCheckedChange={checked => setResetYearly(checked === true)}
+            disabled={disabled}
+            className="mt-0.5"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="invoice-number-reset-yearly">
+              Restart numbering every year
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              The first invoice issued in a new year starts again at 1.
+            </p>
+          </div>
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSave}
+          disabled={disabled || !hasChanges}
+        >
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DEFAULT_INVOICE_REMINDER_DAYS,
+  INVOICE_REMINDER_MAX_DAYS,
+  INVOICE_REMINDER_MAX_STEPS,
+  parseInvoiceReminderDays,
+} from '@/lib/invoice-reminders';
+import { INVOICE_PRO_ONLY_ERROR_MESSAGE } from '@/lib/subscription-enforcement';
+import { UpdateUserRequest, User } from '@/types';
+
+interface InvoiceRemindersCardProps {
+  user: User | null;
+  isPro: boolean;
+  onUpdate: (updates: UpdateUserRequest) => Promise<boolean>;
+}
+
+/**
+ * Settings for the overdue invoices cron: which days past the due date a
+ * reminder is emailed to the project's client email.
+ */
+export function InvoiceRemindersCard({
+  user,
+  isPro,
+  onUpdate,
+}: InvoiceRemindersCardProps) {
+  const savedDays = (
+    user?.invoice_reminder_days ?? DEFAULT_INVOICE_REMINDER_DAYS
+  ).join(', ');
+  const [daysInput, setDaysInput] = useState(savedDays);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDaysInput(savedDays);
+  }, [savedDays]);
+
+  const enabled = user?.invoice_reminders_enabled === true;
+
+  async function save(updates: UpdateUserRequest) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const success = await onUpdate(updates);
+      if (!success) setError('Failed to save reminder settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSaveDays() {
+    const days = parseInvoiceReminderDays(daysInput);
+    if (!days) {
+      setError(
+        `Enter up to ${INVOICE_REMINDER_MAX_STEPS} numbers between 1 and ${INVOICE_REMINDER_MAX_DAYS}, separated by commas`
+      );
+      return;
+    }
+    await save({ invoice_reminder_days: days });
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Payment Reminders</CardTitle>
+        <CardDescription>
+          Sent invoices are marked overdue the day after their due date. Turn on
+          reminders to email the client a copy of an overdue invoice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPro && (
+          <p className="text-sm text-muted-foreground">
+            {INVOICE_PRO_ONLY_ERROR_MESSAGE}
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="invoice-reminders-enabled"
+            checked={enabled}
+            onCheckedChange={checked =>
+              save({ invoice_reminders_enabled: checked === true })
+            }
+            disabled={!isPro || isSaving}
+            className="mt-0.5"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="invoice-reminders-enabled">
+              Email overdue reminders to clients
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Reminders go to the project&apos;s client email and reply to your
+              business email.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="invoice-reminder-days">Days overdue</Label>
+          <div className="flex max-w-sm gap-2">
+            <Input
+              id="invoice-reminder-days"
+              value={daysInput}
+              onChange={e => {
+                setDaysInput(e.target.value);
+                if (error) setError(null);
+              }}
+              placeholder="3, 7, 14"
+              disabled={!isPro || !enabled || isSaving}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveDays}
+              disabled={
+                !isPro || !enabled || isSaving || daysInput === savedDays
+              }
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
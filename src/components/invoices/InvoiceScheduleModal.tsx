@@ -0,0 +1,371 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ModalError } from '@/components/ui/modal-error';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  addScheduleDays,
+  getTodayScheduleDate,
+  INVOICE_DATE_RANGE_RULE_OPTIONS,
+  INVOICE_SCHEDULE_FREQUENCY_OPTIONS,
+  INVOICE_SCHEDULE_MAX_NOTES_LENGTH,
+  validateInvoiceScheduleInput,
+} from '@/lib/invoice-schedules';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import {
+  CreateInvoiceScheduleRequest,
+  InvoiceDateRangeRule,
+  InvoiceSchedule,
+  InvoiceScheduleFrequency,
+  Project,
+} from '@/types';
+
+interface InvoiceScheduleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+  /** Schedule to edit; omit to create a new one */
+  schedule?: InvoiceSchedule | null;
+  onSaved: (schedule: InvoiceSchedule) => void;
+}
+
+type ScheduleFormState = Omit<CreateInvoiceScheduleRequest, 'project_id'>;
+
+function getInitialFormState(
+  schedule: InvoiceSchedule | null | undefined
+): ScheduleFormState {
+  if (schedule) {
+    return {
+      frequency: schedule.frequency,
+      interval_days: schedule.interval_days,
+      date_range_rule: schedule.date_range_rule,
+      tax_rate: Number(schedule.tax_rate) || 0,
+      due_in_days: schedule.due_in_days,
+      notes_template: schedule.notes_template ?? '',
+      include_time_entry_notes: schedule.include_time_entry_notes,
+      next_run_on: schedule.next_run_on,
+    };
+  }
+  return {
+    frequency: 'monthly',
+    interval_days: null,
+    date_range_rule: 'previous_period',
+    tax_rate: 0,
+    due_in_days: 14,
+    notes_template: '',
+    include_time_entry_notes: false,
+    next_run_on: addScheduleDays(getTodayScheduleDate(), 1),
+  };
+}
+
+export function InvoiceScheduleModal({
+  open,
+  onOpenChange,
+  project,
+  schedule,
+  onSaved,
+}: InvoiceScheduleModalProps) {
+  const [formData, setFormData] = useState<ScheduleFormState>(() =>
+    getInitialFormState(schedule)
+  );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditing = !!schedule;
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setFormData(getInitialFormState(schedule));
+      setErrorMessage(null);
+    }
+  }, [open, schedule]);
+
+  const handleInputChange = <K extends keyof ScheduleFormState>(
+    field: K,
+    value: ScheduleFormState[K]
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errorMessage) setErrorMessage(null);
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateInvoiceScheduleInput(formData);
+    if (validationError) {
+      setErrorMessage(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch(
+        isEditing
+          ? `/api/invoices/schedules/${schedule.id}`
+          : '/api/invoices/schedules',
+        {
+          method: isEditing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            isEditing ? formData : { ...formData, project_id: project.id }
+          ),
+        }
+      );
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save invoice schedule');
+      }
+
+      const data = (await response.json()) as { schedule: InvoiceSchedule };
+      onSaved(data.schedule);
+      onOpenChange(false);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save invoice schedule'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const notesLength = (formData.notes_template || '').length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit Invoice Schedule' : 'New Invoice Schedule'}
+          </DialogTitle>
+          <DialogDescription>
+            A draft invoice for {project.name} is created automatically on each
+            run from stopped time on completed tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ModalError
+          errorMessage={errorMessage}
+          onClose={() => setErrorMessage(null)}
+        />
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select
+                value={formData.frequency}
+                onValueChange={value =>
+                  handleInputChange(
+                    'frequency',
+                    value as InvoiceScheduleFrequency
+                  )
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVOICE_SCHEDULE_FREQUENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.frequency === 'custom' && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval">Every (days)</Label>
+                <Input
+                  id="schedule-interval"
+                  type="number"
+                  min="1"
+                  max="365"
+                  step="1"
+                  value={formData.interval_days ?? ''}
+                  onChange={e =>
+                    handleInputChange(
+                      'interval_days',
+                      e.target.value === ''
+                        ? null
+                        : parseInt(e.target.value, 10)
+                    )
+                  }
+                  placeholder="30"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-next-run">
+              {isEditing ? 'Next run' : 'First run'}
+            </Label>
+            <Input
+              id="schedule-next-run"
+              type="date"
+              value={formData.next_run_on}
+              onChange={e => handleInputChange('next_run_on', e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              The invoice is issued on this date and covers time up to the day
+              before.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date range</Label>
+            <Select
+              value={formData.date_range_rule}
+              onValueChange={value =>
+                handleInputChange(
+                  'date_range_rule',
+                  value as InvoiceDateRangeRule
+                )
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select date range" />
+              </SelectTrigger>
+              <SelectContent>
+                {INVOICE_DATE_RANGE_RULE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {
+                INVOICE_DATE_RANGE_RULE_OPTIONS.find(
+                  option => option.value === formData.date_range_rule
+                )?.description
+              }
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-tax-rate">Tax Rate (%)</Label>
+              <Input
+                id="schedule-tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.tax_rate || 0}
+                onChange={e =>
+                  handleInputChange('tax_rate', parseFloat(e.target.value) || 0)
+                }
+                placeholder="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-due-in-days">Due in (days)</Label>
+              <Input
+                id="schedule-due-in-days"
+                type="number"
+                min="0"
+                max="365"
+                step="1"
+                value={formData.due_in_days ?? ''}
+                onChange={e =>
+                  handleInputChange(
+                    'due_in_days',
+                    e.target.value === '' ? null : parseInt(e.target.value, 10)
+                  )
+                }
+                placeholder="No due date"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="schedule-include-time-entry-notes"
+              checked={formData.include_time_entry_notes === true}
+              onCheckedChange={checked =>
+                handleInputChange('include_time_entry_notes', checked === true)
+              }
+              className="mt-0.5"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="schedule-include-time-entry-notes">
+                Include time entry notes
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Adds each time entry&apos;s note to its item description.
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-notes">Notes template (optional)</Label>
+            <Textarea
+              id="schedule-notes"
+              value={formData.notes_template || ''}
+              onChange={e =>
+                handleInputChange('notes_template', e.target.value)
+              }
+              placeholder="Retainer for {period_start} – {period_end}"
+              rows={3}
+              maxLength={INVOICE_SCHEDULE_MAX_NOTES_LENGTH}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use {'{period_start}'}, {'{period_end}'} and {'{project_name}'}.{' '}
+              {notesLength}/{INVOICE_SCHEDULE_MAX_NOTES_LENGTH}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button
+            variant="outline"
+            type="button"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting || !formData.next_run_on}
+          >
+            {isSubmitting
+              ? 'Saving...'
+              : isEditing
+                ? 'Save Changes'
+                : 'Create Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import Link from 'next/link';
+
+import { AlertTriangle, Pencil, Repeat, Trash2 } from 'lucide-react';
+
+import { InvoiceScheduleModal } from '@/components/invoices/InvoiceScheduleModal';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  formatScheduleFrequency,
+  INVOICE_DATE_RANGE_RULE_OPTIONS,
+} from '@/lib/invoice-schedules';
+import { INVOICE_PRO_ONLY_ERROR_MESSAGE } from '@/lib/subscription-enforcement';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { formatDate } from '@/lib/utils';
+import { InvoiceSchedule, Project } from '@/types';
+
+interface InvoiceSchedulesCardProps {
+  project: Project;
+  isPro: boolean;
+}
+
+// Schedule dates are calendar days; format them without shifting to the local time zone
+function formatScheduleDate(dateKey: string): string {
+  return formatDate(new Date(`${dateKey}T00:00:00`));
+}
+
+/**
+ * Recurring invoice schedules for a project. The invoice schedules cron creates a
+ * draft invoice on each schedule's next run date.
+ */
+export function InvoiceSchedulesCard({
+  project,
+  isPro,
+}: InvoiceSchedulesCardProps) {
+  const [schedules, setSchedules] = useState<InvoiceSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] =
+    useState<InvoiceSchedule | null>(null);
+  const [scheduleToDelete, setScheduleToDelete] =
+    useState<InvoiceSchedule | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchSchedules() {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/invoices/schedules?project_id=${project.id}`
+        );
+        if (cancelled) return;
+        if (!res.ok) {
+          const handled = await checkAndHandleUnauthorized(res);
+          if (handled) return;
+          setError('Failed to load invoice schedules');
+          return;
+        }
+        const data = await res.json();
+        if (!cancelled) {
+          setSchedules(Array.isArray(data.schedules) ? data.schedules : []);
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load invoice schedules');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchSchedules();
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
+
+  const upsertSchedule = (schedule: InvoiceSchedule) => {
+    setSchedules(prev =>
+      prev.some(s => s.id === schedule.id)
+        ? prev.map(s => (s.id === schedule.id ? schedule : s))
+        : [...prev, schedule]
+    );
+  };
+
+  async function toggleActive(schedule: InvoiceSchedule) {
+    setBusyId(schedule.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/invoices/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !schedule.is_active }),
+      });
+      if (!res.ok) {
+        const handled = await checkAndHandleUnauthorized(res);
+        if (handled) return;
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update invoice schedule');
+      }
+      const data = await res.json();
+      upsertSchedule(data.schedule);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update invoice schedule'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleConfirmDelete() {
+    if (!scheduleToDelete) return;
+    setBusyId(scheduleToDelete.id);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/invoices/schedules/${scheduleToDelete.id}`,
+        { method: 'DELETE' }
+      );
+      if (!res.ok) {
+        const handled = await checkAndHandleUnauthorized(res);
+        if (handled) return;
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete invoice schedule');
+      }
+      setSchedules(prev => prev.filter(s => s.id !== scheduleToDelete.id));
+      setScheduleToDelete(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to delete invoice schedule'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Recurring invoices
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Create a draft invoice automatically on a schedule, e.g. for
+              monthly retainers.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setEditingSchedule(null);
+              setIsModalOpen(true);
+            }}
+            className="shrink-0"
+            disabled={!isPro}
+            title={!isPro ? INVOICE_PRO_ONLY_ERROR_MESSAGE : undefined}
+          >
+            New schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+        {loading ? (
+          <p className="text-muted-foreground py-2">Loading…</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-muted-foreground py-2">No invoice schedules.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium">Frequency</th>
+                  <th className="text-left py-3 px-4 font-medium">
+                    Date range
+                  </th>
+                  <th className="text-left py-3 px-4 font-medium">Next run</th>
+                  <th className="text-left py-3 px-4 font-medium">
+                    Last invoice
+                  </th>
+                  <th className="text-left py-3 px-4 font-medium">Status</th>
+                  <th className="py-3 px-4" aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map(schedule => (
+                  <tr key={schedule.id} className="border-b">
+                    <td className="py-3 px-4">
+                      {formatScheduleFrequency(schedule)}
+                    </td>
+                    <td className="py-3 px-4">
+                      {INVOICE_DATE_RANGE_RULE_OPTIONS.find(
+                        option => option.value === schedule.date_range_rule
+                      )?.label ?? schedule.date_range_rule}
+                    </td>
+                    <td className="py-3 px-4">
+                      {schedule.is_active
+                        ? formatScheduleDate(schedule.next_run_on)
+                        : '—'}
+                    </td>
+                    <td className="py-3 px-4">
+                      {schedule.last_invoice_id && schedule.last_run_on ? (
+                        <Link
+                          href={`/dashboard/projects/${project.id}/invoices/${schedule.last_invoice_id}`}
+                          className="text-primary underline-offset-2 hover:underline"
+                        >
+                          {formatScheduleDate(schedule.last_run_on)}
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                      {schedule.last_error && (
+                        <p
+                          className="mt-1 flex items-start gap-1 text-xs text-amber-600"
+                          title={schedule.last_error}
+                        >
+                          <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                          Last run skipped: {schedule.last_error}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      {schedule.is_active ? 'Active' : 'Paused'}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex justify-end gap-1">
+                        {isPro && (
+                          <>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleActive(schedule)}
+                              disabled={busyId === schedule.id}
+                            >
+                              {schedule.is_active ? 'Pause' : 'Resume'}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => {
+                                setEditingSchedule(schedule);
+                                setIsModalOpen(true);
+                              }}
+                              aria-label="Edit schedule"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setScheduleToDelete(schedule)}
+                          disabled={busyId === schedule.id}
+                          aria-label="Delete schedule"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <InvoiceScheduleModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        project={project}
+        schedule={editingSchedule}
+        onSaved={upsertSchedule}
+      />
+
+      <Dialog
+        open={!!scheduleToDelete}
+        onOpenChange={open => !open && setScheduleToDelete(null)}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Invoice Schedule</DialogTitle>
+            <DialogDescription>
+              No more invoices will be created by this schedule. Invoices it
+              already created are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setScheduleToDelete(null)}
+              disabled={!!busyId}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              disabled={!!busyId}
+            >
+              {busyId ? 'Deleting...' : 'Delete Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ModalError } from '@/components/ui/modal-error';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  INVOICE_PAYMENT_MAX_REFERENCE_LENGTH,
+  INVOICE_PAYMENT_METHOD_OPTIONS,
+  validateInvoicePaymentInput,
+} from '@/lib/invoice-payments';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import {
+  CreateInvoicePaymentRequest,
+  Invoice,
+  InvoicePayment,
+  InvoicePaymentMethod,
+  InvoiceStatus,
+} from '@/types';
+
+interface RecordPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice;
+  balanceDue: number;
+  onRecorded: (payment: InvoicePayment, invoiceStatus: InvoiceStatus) => void;
+}
+
+function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function RecordPaymentModal({
+  open,
+  onOpenChange,
+  invoice,
+  balanceDue,
+  onRecorded,
+}: RecordPaymentModalProps) {
+  const [formData, setFormData] = useState<CreateInvoicePaymentRequest>({
+    amount: balanceDue,
+    paid_on: getToday(),
+    method: 'bank_transfer',
+    reference: '',
+  });
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const currencyCode = invoice.currency_code ?? 'USD';
+
+  // Reset form when modal opens; default to paying the full balance
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        amount: balanceDue,
+        paid_on: getToday(),
+        method: 'bank_transfer',
+        reference: '',
+      });
+      setErrorMessage(null);
+    }
+  }, [open, balanceDue]);
+
+  const handleInputChange = <K extends keyof CreateInvoicePaymentRequest>(
+    field: K,
+    value: CreateInvoicePaymentRequest[K]
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errorMessage) setErrorMessage(null);
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateInvoicePaymentInput(formData, balanceDue);
+    if (validationError) {
+      setErrorMessage(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to record payment');
+      }
+
+      const data = (await response.json()) as {
+        payment: InvoicePayment;
+        invoice_status: InvoiceStatus;
+      };
+      onRecorded(data.payment, data.invoice_status);
+      onOpenChange(false);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Failed to record payment'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Balance due on invoice {invoice.invoice_number}:{' '}
+            {formatPriceWithCurrency(balanceDue, currencyCode)}. The invoice is
+            marked as paid once the balance reaches zero.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ModalError
+          errorMessage={errorMessage}
+          onClose={() => setErrorMessage(null)}
+        />
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount ({currencyCode})</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0.01"
+                max={balanceDue}
+                step="0.01"
+                value={formData.amount || ''}
+                onChange={e =>
+                  handleInputChange('amount', parseFloat(e.target.value) || 0)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date received</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={formData.paid_on}
+                onChange={e => handleInputChange('paid_on', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select
+              value={formData.method}
+              onValueChange={value =>
+                handleInputChange('method', value as InvoicePaymentMethod)
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select method" />
+              </SelectTrigger>
+              <SelectContent>
+                {INVOICE_PAYMENT_METHOD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-reference">Reference (optional)</Label>
+            <Input
+              id="payment-reference"
+              value={formData.reference || ''}
+              onChange={e => handleInputChange('reference', e.target.value)}
+              placeholder="Transaction ID, check number…"
+              maxLength={INVOICE_PAYMENT_MAX_REFERENCE_LENGTH}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button
+            variant="outline"
+            type="button"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ModalError } from '@/components/ui/modal-error';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DEFAULT_INVOICE_EMAIL_MESSAGE,
+  DEFAULT_INVOICE_EMAIL_SUBJECT,
+  INVOICE_EMAIL_MAX_MESSAGE_LENGTH,
+  INVOICE_EMAIL_MAX_SUBJECT_LENGTH,
+  INVOICE_EMAIL_PLACEHOLDERS,
+} from '@/lib/email-templates/invoice';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { formatDate } from '@/lib/utils';
+import { validateEmail } from '@/lib/validation';
+import { Invoice, SendInvoiceRequest } from '@/types';
+
+interface SendInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice | null;
+  /** Project client email used as the default recipient */
+  clientEmail?: string | null;
+  onSent: (invoice: Invoice) => void;
+}
+
+export function SendInvoiceModal({
+  open,
+  onOpenChange,
+  invoice,
+  clientEmail,
+  onSent,
+}: SendInvoiceModalProps) {
+  const [formData, setFormData] = useState<Required<SendInvoiceRequest>>({
+    to: '',
+    subject: DEFAULT_INVOICE_EMAIL_SUBJECT,
+    message: DEFAULT_INVOICE_EMAIL_MESSAGE,
+  });
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        to: clientEmail ?? '',
+        subject: DEFAULT_INVOICE_EMAIL_SUBJECT,
+        message: DEFAULT_INVOICE_EMAIL_MESSAGE,
+      });
+      setErrorMessage(null);
+    }
+  }, [open, clientEmail]);
+
+  const handleInputChange = (
+    field: keyof SendInvoiceRequest,
+    value: string
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errorMessage) setErrorMessage(null);
+  };
+
+  const handleSend = async () => {
+    if (!invoice) return;
+
+    if (!formData.to.trim()) {
+      setErrorMessage('Recipient email is required');
+      return;
+    }
+    const emailError = validateEmail(formData.to);
+    if (emailError) {
+      setErrorMessage(emailError);
+      return;
+    }
+
+    setIsSending(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to send invoice');
+      }
+
+      const data = (await response.json()) as { invoice: Invoice };
+      onSent(data.invoice);
+      onOpenChange(false);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Failed to send invoice'
+      );
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send Invoice {invoice.invoice_number}</DialogTitle>
+          <DialogDescription>
+            The invoice PDF is attached to the email.{' '}
+            {invoice.status === 'draft'
+              ? 'The invoice will be marked as sent.'
+              : invoice.sent_at
+                ? `Last sent to ${invoice.sent_to_email} on ${formatDate(invoice.sent_at)}.`
+                : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ModalError
+          errorMessage={errorMessage}
+          onClose={() => setErrorMessage(null)}
+        />
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="send-invoice-to">To</Label>
+            <Input
+              id="send-invoice-to"
+              type="email"
+              value={formData.to}
+              onChange={e => handleInputChange('to', e.target.value)}
+              placeholder="client@example.com"
+            />
+            {!clientEmail && (
+              <p className="text-xs text-muted-foreground">
+                Tip: add a client email to the project to fill this in
+                automatically.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="send-invoice-subject">Subject</Label>
+            <Input
+              id="send-invoice-subject"
+              value={formData.subject}
+              onChange={e => handleInputChange('subject', e.target.value)}
+              maxLength={INVOICE_EMAIL_MAX_SUBJECT_LENGTH}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="send-invoice-message">Message</Label>
+            <Textarea
+              id="send-invoice-message"
+              value={formData.message}
+              onChange={e => handleInputChange('message', e.target.value)}
+              rows={7}
+              maxLength={INVOICE_EMAIL_MAX_MESSAGE_LENGTH}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use {INVOICE_EMAIL_PLACEHOLDERS.join(', ')}.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button
+            variant="outline"
+            type="button"
+            onClick={() => onOpenChange(false)}
+            disabled={isSending}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSend} disabled={isSending}>
+            {isSending ? 'Sending...' : 'Send Invoice'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
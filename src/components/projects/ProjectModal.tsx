@@ -2,6 +2,9 @@
 
 import { useEffect, useMemo, useState } from 'react';
 
+import { Plus } from 'lucide-react';
+
+import { ClientModal } from '@/components/clients/ClientModal';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -22,6 +25,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { useClients } from '@/hooks/useClients';
 import { currencies } from '@/lib/currencies';
 import { getStatusOptions } from '@/lib/status';
 import {
@@ -29,7 +33,6 @@ import {
   convertRateTypeEmptyToNull,
   validatePricingConsistency,
 } from '@/lib/utils';
-import { validateEmail, validatePhone } from '@/lib/validation';
 import {
   CreateProjectRequest,
   Project,
@@ -38,6 +41,9 @@ import {
   UpdateProjectRequest,
 } from '@/types/index';
 
+// Radix Select items cannot have an empty value
+const NO_CLIENT = 'none';
+
 interface ProjectModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -62,6 +68,8 @@ export function ProjectModal({
   currentProjectCount = 0,
 }: ProjectModalProps) {
   const isEditMode = !!project;
+  const { clients, loading: clientsLoading, createClient } = useClients();
+  const [showClientModal, setShowClientModal] = useState(false);
 
   // Default values for create mode (these are placeholders, not actual values)
   const defaultFormData = useMemo<
@@ -70,10 +78,7 @@ export function ProjectModal({
     () => ({
       name: '',
       description: '',
-      client_name: '',
-      client_email: '',
-      client_address: '',
-      client_phone: '',
+      client_id: null,
       rate_type: undefined,
       price: undefined,
       currency_code: undefined,
@@ -90,7 +95,7 @@ export function ProjectModal({
         setFormData({
           name: project.name,
           description: project.description || '',
-          client_name: project.client_name || '',
+          client_id: project.client_id ?? null,
           rate_type: project.rate_type || undefined,
           price: project.price,
           currency_code: project.currency_code || undefined,
@@ -141,10 +146,7 @@ export function ProjectModal({
       setFormData({
         name: project.name,
         description: project.description || '',
-        client_name: project.client_name || '',
-        client_email: project.client_email || '',
-        client_address: project.client_address || '',
-        client_phone: project.client_phone || '',
+        client_id: project.client_id ?? null,
         rate_type: project.rate_type || undefined,
         price: project.price,
         currency_code: project.currency_code || undefined,
@@ -171,20 +173,6 @@ export function ProjectModal({
       return;
     }
 
-    // Validate email if provided
-    const emailError = validateEmail(formData.client_email || '');
-    if (emailError) {
-      setErrorMessage(emailError);
-      return;
-    }
-
-    // Validate phone if provided
-    const phoneError = validatePhone(formData.client_phone || '');
-    if (phoneError) {
-      setErrorMessage(phoneError);
-      return;
-    }
-
     // Validate pricing fields consistency and require all pricing fields
     const rateType = convertRateTypeEmptyToNull(formData.rate_type);
     const price = formData.price !== undefined ? formData.price : undefined;
@@ -218,10 +206,7 @@ export function ProjectModal({
       const fieldMappings = {
         name: () => formData.name.trim(),
         description: () => formData.description?.trim() || '',
-        client_name: () => formData.client_name?.trim() || '',
-        client_email: () => formData.client_email?.trim() || '',
-        client_address: () => formData.client_address?.trim() || '',
-        client_phone: () => formData.client_phone?.trim() || '',
+        client_id: () => formData.client_id ?? null,
         rate_type: () => convertRateTypeEmptyToNull(formData.rate_type),
         price: () =>
           formData.price !== undefined ? formData.price : undefined,
@@ -237,16 +222,7 @@ export function ProjectModal({
         const formValue = formData[field as keyof typeof formData];
 
         // For string fields, compare raw values (before conversion)
-        if (
-          [
-            'description',
-            'client_name',
-            'client_email',
-            'client_address',
-            'client_phone',
-            'name',
-          ].includes(field)
-        ) {
+        if (['description', 'client_id', 'name'].includes(field)) {
           const originalStr = originalValue || '';
           const formStr = formValue || '';
           return originalStr !== formStr;
@@ -268,10 +244,7 @@ export function ProjectModal({
       const createData = {
         name: formData.name.trim(),
         description: formData.description?.trim() || undefined,
-        client_name: formData.client_name?.trim() || undefined,
-        client_email: formData.client_email?.trim() || undefined,
-        client_address: formData.client_address?.trim() || undefined,
-        client_phone: formData.client_phone?.trim() || undefined,
+        client_id: formData.client_id || undefined,
         rate_type: convertRateTypeEmptyToNull(formData.rate_type),
         price: formData.price !== undefined ? formData.price : undefined,
         currency_code: convertCurrencyEmptyToNull(formData.currency_code),
@@ -303,7 +276,7 @@ export function ProjectModal({
 
   const handleInputChange = (
     field: keyof (CreateProjectRequest & { status?: ProjectStatus }),
-    value: string | number | undefined
+    value: string | number | null | undefined
   ) => {
     setFormData(prev => ({
       ...prev,
@@ -419,47 +392,45 @@ export function ProjectModal({
           <div className="border-t"></div>
 
           <div className="space-y-2">
-            <Label htmlFor="client_name">Client Name</Label>
-            <Input
-              id="client_name"
-              value={formData.client_name}
-              onChange={e => handleInputChange('client_name', e.target.value)}
-              placeholder="Client or company name"
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="client_email">Client Email</Label>
-            <Input
-              id="client_email"
-              type="email"
-              value={formData.client_email}
-              onChange={e => handleInputChange('client_email', e.target.value)}
-              placeholder="client@company.com"
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="client_address">Client Address</Label>
-            <Input
-              id="client_address"
-              value={formData.client_address}
-              onChange={e =>
-                handleInputChange('client_address', e.target.value)
-              }
-              placeholder="Client address"
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="client_phone">Client Phone</Label>
-            <Input
-              id="client_phone"
-              type="tel"
-              value={formData.client_phone}
-              onChange={e => handleInputChange('client_phone', e.target.value)}
-              placeholder="+1 (555) 123-4567"
-            />
+            <Label htmlFor="client_id">Client</Label>
+            <div className="flex gap-2">
+              <Select
+                value={formData.client_id ?? NO_CLIENT}
+                onValueChange={value =>
+                  handleInputChange(
+                    'client_id',
+                    value === NO_CLIENT ? null : value
+                  )
+                }
+                disabled={clientsLoading}
+              >
+                <SelectTrigger id="client_id" className="flex-1">
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CLIENT}>
+                    <span className="text-gray-500">No client</span>
+                  </SelectItem>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowClientModal(true)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New client
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Invoices for this project use the client&apos;s name and contact
+              details.
+            </p>
           </div>
 
           <div className="border-t"></div>
@@ -572,6 +543,13 @@ export function ProjectModal({
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <ClientModal
+        open={showClientModal}
+        onOpenChange={setShowClientModal}
+        onSave={createClient}
+        onSaved={client => handleInputChange('client_id', client.id)}
+      />
     </Dialog>
   );
 }
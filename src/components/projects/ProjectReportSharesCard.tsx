@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  formatProjectReportDay,
+  getProjectReportSharePath,
+} from '@/lib/project-report-shares';
+import {
+  addDaysToKey,
+  getBrowserTimeZone,
+  getZonedDayKey,
+} from '@/lib/time-zones';
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { ProjectReportShare } from '@/types';
+
+function getShareUrl(token: string): string {
+  return new URL(
+    getProjectReportSharePath(token),
+    window.location.origin
+  ).toString();
+}
+
+interface ProjectReportSharesCardProps {
+  projectId: string;
+}
+
+/**
+ * Read-only time report links of a project: share a date range (optionally
+ * without rates), copy the link or revoke it. Only owners and admins see the
+ * section.
+ */
+export function ProjectReportSharesCard({
+  projectId,
+}: ProjectReportSharesCardProps) {
+  const [shares, setShares] = useState<ProjectReportShare[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [fromDate, setFromDate] = useState(() =>
+    addDaysToKey(getZonedDayKey(new Date(), getBrowserTimeZone()), -29)
+  );
+  const [toDate, setToDate] = useState(() =>
+    getZonedDayKey(new Date(), getBrowserTimeZone())
+  );
+  const [hideRates, setHideRates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/report-shares`);
+      // Members and viewers cannot share reports
+      if (response.status === 403) {
+        setCanManage(false);
+        return;
+      }
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load report links');
+      }
+      const data = await response.json();
+      setShares(data.shares ?? []);
+      setCanManage(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load report links'
+      );
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  async function saveShare(
+    url: string,
+    method: 'POST' | 'PATCH',
+    body: object
+  ) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update the report link');
+      }
+      await loadShares();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update the report link'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleCreate() {
+    void saveShare(`/api/projects/${projectId}/report-shares`, 'POST', {
+      from_date: fromDate,
+      to_date: toDate,
+      hide_rates: hideRates,
+      time_zone: getBrowserTimeZone(),
+    });
+  }
+
+  function handleRevoke(shareId: string) {
+    if (
+      window.confirm(
+        'Anyone with this link will no longer be able to open the report. Continue?'
+      )
+    ) {
+      void saveShare(
+        `/api/projects/${projectId}/report-shares/${shareId}`,
+        'PATCH',
+        { revoked: true }
+      );
+    }
+  }
+
+  async function handleCopy(share: ProjectReportShare) {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopiedId(share.id);
+    } catch {
+      setError('Could not copy the link; select it and copy it instead');
+    }
+  }
+
+  if (!canManage) {
+    return error ? (
+      <p className="mt-6 text-sm text-destructive">{error}</p>
+    ) : null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Shared Reports</CardTitle>
+        <CardDescription>
+          Share a read-only report of the tasks and time tracked in a date
+          range, with a PDF download. Anyone with the link can open it, so
+          revoke links you no longer need.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="report-share-from">From</Label>
+            <Input
+              id="report-share-from"
+              type="date"
+              value={fromDate}
+              onChange={e => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-share-to">To</Label>
+            <Input
+              id="report-share-to"
+              type="date"
+              value={toDate}
+              onChange={e => setToDate(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox
+              id="report-share-hide-rates"
+              checked={hideRates}
+              onCheckedChange={checked => setHideRates(checked === true)}
+            />
+            <Label htmlFor="report-share-hide-rates">Hide rates</Label>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCreate}
+            disabled={isSaving || !fromDate || !toDate}
+          >
+            Create link
+          </Button>
+        </div>
+
+        {shares.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {shares.map(share => (
+              <li key={share.id} className="space-y-2 p-3">
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={getShareUrl(share.token)}
+                    onFocus={e => e.target.select()}
+                    aria-label="Report link"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleCopy(share)}
+                  >
+                    {copiedId === share.id ? 'Copied' : 'Copy'}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {formatProjectReportDay(share.from_date)} –{' '}
+                    {formatProjectReportDay(share.to_date)}
+                    {share.hide_rates && ' · Rates hidden'}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleRevoke(share.id)}
+                    disabled={isSaving}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { formatTimesheetDuration } from '@/lib/timesheet';
+import { truncateTextSmart } from '@/lib/utils';
+import { TimeReportRow } from '@/types';
+
+interface ReportBarChartProps {
+  rows: TimeReportRow[];
+  /** Columns read better for a timeline (days); bars for named groups. */
+  layout?: 'bars' | 'columns';
+}
+
+// Named groups beyond this are folded into a single "Other" bar
+const MAX_BARS = 10;
+
+/**
+ * Tracked time per report row, scaled to the largest row.
+ * Plain CSS bars so the dashboard does not pull in a charting library.
+ */
+export function ReportBarChart({ rows, layout = 'bars' }: ReportBarChartProps) {
+  if (rows.length === 0) return null;
+
+  if (layout === 'columns') {
+    const max = Math.max(...rows.map(row => row.duration_seconds), 1);
+    return (
+      <div className="flex h-48 items-end gap-1 overflow-x-auto pb-6">
+        {rows.map(row => {
+          const duration = formatTimesheetDuration(row.duration_seconds);
+          return (
+            <div
+              key={row.key}
+              className="relative flex h-full min-w-6 flex-1 flex-col justify-end"
+              title={`${row.label}: ${duration || '0:00'}`}
+            >
+              <div
+                className="rounded-t bg-blue-500"
+                style={{ height: `${(row.duration_seconds / max) * 100}%` }}
+              />
+              <span className="absolute -bottom-5 left-1/2 -translate-x-1/2 text-xs text-gray-500">
+                {new Date(`${row.key}T00:00:00`).getDate()}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const bars = rows.slice(0, MAX_BARS);
+  const rest = rows.slice(MAX_BARS);
+  if (rest.length > 0) {
+    bars.push({
+      key: '__other__',
+      label: `Other (${rest.length})`,
+      duration_seconds: rest.reduce(
+        (sum, row) => sum + row.duration_seconds,
+        0
+      ),
+      entry_count: rest.reduce((sum, row) => sum + row.entry_count, 0),
+      focus_count: rest.reduce((sum, row) => sum + row.focus_count, 0),
+      billable: [],
+    });
+  }
+  const max = Math.max(...bars.map(row => row.duration_seconds), 1);
+
+  return (
+    <div className="space-y-2">
+      {bars.map(row => (
+        <div key={row.key} className="flex items-center gap-3 text-sm">
+          <span
+            className="w-40 shrink-0 truncate text-gray-700"
+            title={row.label}
+          >
+            {truncateTextSmart(row.label, 30)}
+          </span>
+          <div className="h-4 flex-1 rounded bg-gray-100">
+            <div
+              className="h-4 rounded bg-blue-500"
+              style={{ width: `${(row.duration_seconds / max) * 100}%` }}
+            />
+          </div>
+          <span className="w-16 shrink-0 text-right font-mono text-gray-900">
+            {formatTimesheetDuration(row.duration_seconds) || '0:00'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Check, ChevronsUpDown, Mail } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { cn, getAssigneeDisplayName } from '@/lib/utils';
+import { validateEmail } from '@/lib/validation';
+import { Assignee } from '@/types';
+
+const UNASSIGNED = 'none';
+
+interface AssigneeComboboxProps {
+  /** Assignee user id, or "none" */
+  value: string | undefined;
+  onValueChange: (value: string) => void;
+  assignees: Assignee[];
+  currentUserId?: string;
+  /** Shown while the selected user is not in the directory (still loading) */
+  selectedUser?: { name?: string; email: string };
+  canInvite?: boolean;
+  onInvite?: (email: string) => Promise<void>;
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Searchable assignee picker over a project's assignee directory. When the
+ * caller may invite, typing an email that is not in the directory offers to
+ * invite that person to the workspace.
+ */
+export function AssigneeCombobox({
+  value,
+  onValueChange,
+  assignees,
+  currentUserId,
+  selectedUser,
+  canInvite = false,
+  onInvite,
+  id,
+  className,
+  disabled = false,
+}: AssigneeComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteMessage, setInviteMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const selectedValue = value || UNASSIGNED;
+  const selected = assignees.find(assignee => assignee.id === selectedValue);
+  const selectedLabel =
+    selectedValue === UNASSIGNED
+      ? 'No assignee'
+      : getAssigneeDisplayName(
+          selected ?? selectedUser,
+          currentUserId,
+          selectedValue
+        ) || 'Unknown user';
+
+  const inviteEmail = search.trim().toLowerCase();
+  const showInvite =
+    canInvite &&
+    !!onInvite &&
+    inviteEmail !== '' &&
+    validateEmail(inviteEmail) === null &&
+    !assignees.some(assignee => assignee.email.toLowerCase() === inviteEmail);
+
+  const handleSelect = (nextValue: string) => {
+    onValueChange(nextValue);
+    setOpen(false);
+  };
+
+  const handleInvite = async () => {
+    if (!onInvite) return;
+    setIsInviting(true);
+    setInviteMessage(null);
+    try {
+      await onInvite(inviteEmail);
+      setInviteMessage({
+        text: `Invitation sent to ${inviteEmail}. You can assign them once they accept.`,
+        isError: false,
+      });
+      setSearch('');
+    } catch (err) {
+      setInviteMessage({
+        text: err instanceof Error ? err.message : 'Failed to send invitation',
+        isError: true,
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={nextOpen => {
+        setOpen(nextOpen);
+        if (!nextOpen) {
+          setSearch('');
+          setInviteMessage(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('justify-between font-normal', className)}
+          disabled={disabled}
+        >
+          <span className="truncate">{selectedLabel}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] min-w-64 p-0">
+        <Command>
+          <CommandInput
+            placeholder={
+              canInvite ? 'Search or invite by email...' : 'Search people...'
+            }
+            value={search}
+            onValueChange={setSearch}
+            className="h-9"
+          />
+          <CommandList>
+            <CommandEmpty>
+              {showInvite ? 'Not in this workspace yet.' : 'No one found.'}
+            </CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value={UNASSIGNED}
+                keywords={['No assignee', 'Unassigned']}
+                onSelect={handleSelect}
+              >
+                No assignee
+                <Check
+                  className={cn(
+                    'ml-auto h-4 w-4',
+                    selectedValue === UNASSIGNED ? 'opacity-100' : 'opacity-0'
+                  )}
+                />
+              </CommandItem>
+              {assignees.map(assignee => (
+                <CommandItem
+                  key={assignee.id}
+                  value={assignee.id}
+                  keywords={[assignee.name ?? '', assignee.email]}
+                  onSelect={handleSelect}
+                >
+                  <div className="min-w-0">
+                    <div className="truncate">
+                      {getAssigneeDisplayName(
+                        assignee,
+                        currentUserId,
+                        assignee.id
+                      )}
+                    </div>
+                    {assignee.name && (
+                      <div className="truncate text-xs text-muted-foreground">
+                        {assignee.email}
+                      </div>
+                    )}
+                  </div>
+                  <Check
+                    className={cn(
+                      'ml-auto h-4 w-4',
+                      selectedValue === assignee.id
+                        ? 'opacity-100'
+                        : 'opacity-0'
+                    )}
+                  />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {showInvite && (
+              <>
+                <CommandSeparator />
+                <CommandGroup forceMount>
+                  <CommandItem
+                    value={`invite:${inviteEmail}`}
+                    forceMount
+                    disabled={isInviting}
+                    onSelect={handleInvite}
+                  >
+                    <Mail className="h-4 w-4" />
+                    <span className="truncate">
+                      {isInviting ? 'Sending...' : `Invite ${inviteEmail}`}
+                    </span>
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+          {inviteMessage && (
+            <p
+              className={cn(
+                'border-t px-3 py-2 text-xs',
+                inviteMessage.isError ? 'text-destructive' : 'text-green-700'
+              )}
+            >
+              {inviteMessage.text}
+            </p>
+          )}
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
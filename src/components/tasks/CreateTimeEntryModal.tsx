@@ -16,8 +16,13 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ModalError } from '@/components/ui/modal-error';
+import { Textarea } from '@/components/ui/textarea';
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
 import { formatDuration } from '@/lib/utils';
+import {
+  TIME_ENTRY_DESCRIPTION_MAX_LENGTH,
+  validateTimeEntryDescription,
+} from '@/lib/validation';
 
 interface CreateTimeEntryModalProps {
   open: boolean;
@@ -29,27 +34,29 @@ interface CreateTimeEntryModalProps {
 }
 
 /**
- * Modal to create a new time entry (paused, optional initial duration).
+ * Modal to create a new time entry (paused, optional initial duration and note).
  * If an active timer exists for this task, warns and stops it before creating.
+ * While offline the entry is queued and synced once the connection returns.
  */
 export function CreateTimeEntryModal({
   open,
   onOpenChange,
   taskName,
   taskId,
-  projectId: _projectId,
+  projectId,
   onCreated,
 }: CreateTimeEntryModalProps) {
-  void _projectId;
-  const { getTimerForTask, stopTimer, refreshTimerForTask } =
+  const { getTimerForTask, stopTimer, createTimeEntry } =
     useTimeTrackingContext();
   const [durationInput, setDurationInput] = useState('');
+  const [descriptionInput, setDescriptionInput] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const activeTimer = getTimerForTask(taskId);
   const hasActiveTimer = !!activeTimer;
-  const isDefaultValue = durationInput.trim() === '';
+  const isDefaultValue =
+    durationInput.trim() === '' && descriptionInput.trim() === '';
   const canSubmit = !isSubmitting && (!isDefaultValue || hasActiveTimer);
 
   const parsedDuration = useMemo(() => {
@@ -63,6 +70,7 @@ export function CreateTimeEntryModal({
   useEffect(() => {
     if (open) {
       setDurationInput('');
+      setDescriptionInput('');
       setErrorMessage(null);
     }
   }, [open]);
@@ -75,6 +83,12 @@ export function CreateTimeEntryModal({
     }
     const durationSeconds = Math.floor(parsed);
 
+    const descriptionError = validateTimeEntryDescription(descriptionInput);
+    if (descriptionError) {
+      setErrorMessage(descriptionError);
+      return;
+    }
+
     setIsSubmitting(true);
     setErrorMessage(null);
 
@@ -87,22 +101,11 @@ export function CreateTimeEntryModal({
         }
       }
 
-      const res = await fetch('/api/time-entries', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          task_id: taskId,
-          duration_seconds: durationSeconds,
-          timer_status: 'paused',
-        }),
+      await createTimeEntry(taskId, projectId, {
+        durationSeconds,
+        description: descriptionInput.trim() || null,
       });
 
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.error ?? 'Failed to create time entry');
-      }
-
-      await refreshTimerForTask(taskId);
       onCreated?.();
       onOpenChange(false);
     } catch (err) {
@@ -161,6 +164,22 @@ export function CreateTimeEntryModal({
           )}
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="create-entry-description">Note (optional)</Label>
+          <Textarea
+            id="create-entry-description"
+            value={descriptionInput}
+            onChange={e => setDescriptionInput(e.target.value)}
+            placeholder="What is this time being spent on?"
+            rows={3}
+            maxLength={TIME_ENTRY_DESCRIPTION_MAX_LENGTH}
+            disabled={isSubmitting}
+          />
+          <p className="text-xs text-muted-foreground">
+            {descriptionInput.length}/{TIME_ENTRY_DESCRIPTION_MAX_LENGTH}
+          </p>
+        </div>
+
         <ModalError
           errorMessage={errorMessage}
           onClose={() => setErrorMessage(null)}
@@ -14,8 +14,13 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ModalError } from '@/components/ui/modal-error';
+import { Textarea } from '@/components/ui/textarea';
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
 import { formatDuration } from '@/lib/utils';
+import {
+  TIME_ENTRY_DESCRIPTION_MAX_LENGTH,
+  validateTimeEntryDescription,
+} from '@/lib/validation';
 import { TimeEntry } from '@/types';
 
 interface EditTimeEntryModalProps {
@@ -26,7 +31,7 @@ interface EditTimeEntryModalProps {
 }
 
 /**
- * Modal to edit an existing (stopped) time entry: change duration or reset to 0.
+ * Modal to edit an existing (stopped) time entry: change duration or note, or reset to 0.
  */
 export function EditTimeEntryModal({
   open,
@@ -36,6 +41,7 @@ export function EditTimeEntryModal({
 }: EditTimeEntryModalProps) {
   const { refreshTimerForTask } = useTimeTrackingContext();
   const [durationInput, setDurationInput] = useState('');
+  const [descriptionInput, setDescriptionInput] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -43,9 +49,10 @@ export function EditTimeEntryModal({
   useEffect(() => {
     if (!open) return;
     setDurationInput(String(timeEntry?.duration_seconds ?? 0));
+    setDescriptionInput(timeEntry?.description ?? '');
     setErrorMessage(null);
     setValidationError(null);
-  }, [open, timeEntry?.duration_seconds]);
+  }, [open, timeEntry?.duration_seconds, timeEntry?.description]);
 
   const parsedDuration = useMemo(() => {
     const raw = durationInput.trim();
@@ -70,11 +77,15 @@ export function EditTimeEntryModal({
   const entry = timeEntry;
   const isRunning = entry.timer_status === 'running';
   const isPaused = entry.timer_status === 'paused';
-  const isStopped = entry.timer_status === 'stopped';
   const hasDurationChange =
     parsedDuration !== null &&
     !validationError &&
     parsedDuration !== (entry.duration_seconds ?? 0);
+  const descriptionError = validateTimeEntryDescription(descriptionInput);
+  const hasDescriptionChange =
+    descriptionInput.trim() !== (entry.description ?? '').trim();
+  const hasChanges =
+    (hasDurationChange || hasDescriptionChange) && !descriptionError;
 
   const handleSave = async (nextDurationSeconds: number) => {
     setIsSubmitting(true);
@@ -85,10 +96,8 @@ export function EditTimeEntryModal({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           duration_seconds: nextDurationSeconds,
+          description: descriptionInput.trim() || null,
           timer_status: isPaused ? 'paused' : 'stopped',
-          end_time: isStopped
-            ? (entry.end_time ?? new Date().toISOString())
-            : null,
         }),
       });
       if (!res.ok) {
@@ -113,7 +122,7 @@ export function EditTimeEntryModal({
         <DialogHeader>
           <DialogTitle>Edit timer</DialogTitle>
           <DialogDescription>
-            Update the duration for this time entry, or reset it to 0.
+            Update the duration or note for this time entry, or reset it to 0.
           </DialogDescription>
         </DialogHeader>
 
@@ -165,6 +174,25 @@ export function EditTimeEntryModal({
               </p>
             )}
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-entry-description">Note (optional)</Label>
+            <Textarea
+              id="edit-entry-description"
+              value={descriptionInput}
+              onChange={e => {
+                setDescriptionInput(e.target.value);
+                setErrorMessage(null);
+              }}
+              placeholder="What was this time spent on?"
+              rows={3}
+              maxLength={TIME_ENTRY_DESCRIPTION_MAX_LENGTH}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-muted-foreground">
+              {descriptionInput.length}/{TIME_ENTRY_DESCRIPTION_MAX_LENGTH}
+            </p>
+          </div>
         </div>
 
         <DialogFooter>
@@ -189,11 +217,11 @@ export function EditTimeEntryModal({
               }
               handleSave(Number(durationInput));
             }}
-            disabled={isSubmitting || isRunning || !hasDurationChange}
+            disabled={isSubmitting || isRunning || !hasChanges}
           >
             {isSubmitting
               ? 'Updating...'
-              : hasDurationChange
+              : hasChanges
                 ? 'Update Time Entry'
                 : 'No Changes'}
           </Button>
@@ -0,0 +1,87 @@
+'use client';
+
+import { Coffee, Target, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useFocusModeContext } from '@/contexts/focus-mode-context';
+import { formatFocusCountdown } from '@/lib/focus-mode';
+
+interface FocusControlsProps {
+  taskId: string;
+  projectId: string;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+/**
+ * Starts focus mode on a task's timer, or shows the work/break countdown when
+ * the task is in focus.
+ */
+export function FocusControls({
+  taskId,
+  projectId,
+  disabled = false,
+  compact = false,
+}: FocusControlsProps) {
+  const { focusSession, remainingSeconds, settings, startFocus, endFocus } =
+    useFocusModeContext();
+  const isFocused = focusSession?.taskId === taskId;
+  const buttonSize = compact ? 'sm' : 'default';
+
+  if (!isFocused) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        size={buttonSize}
+        onClick={() => void startFocus(taskId, projectId)}
+        disabled={disabled}
+        title={`Run the timer for ${settings.workMinutes} minutes, then take a ${settings.breakMinutes}-minute break`}
+        className="w-fit"
+      >
+        <Target className="h-4 w-4 mr-1" />
+        Focus {settings.workMinutes}m
+      </Button>
+    );
+  }
+
+  const isBreak = focusSession.phase === 'break';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span
+        className={`flex items-center gap-1 font-mono text-sm font-semibold ${
+          isBreak ? 'text-blue-600' : 'text-purple-600'
+        }`}
+      >
+        {isBreak ? (
+          <Coffee className="h-4 w-4" />
+        ) : (
+          <Target className="h-4 w-4" />
+        )}
+        {isBreak ? 'Break' : 'Focus'} {formatFocusCountdown(remainingSeconds)}
+      </span>
+      {isBreak && (
+        <Button
+          type="button"
+          variant="outline"
+          size={buttonSize}
+          onClick={() => void startFocus(taskId, projectId)}
+          disabled={disabled}
+        >
+          Skip break
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        size={compact ? 'icon-sm' : 'icon'}
+        onClick={endFocus}
+        title="Leave focus mode (the timer keeps its state)"
+        aria-label="Leave focus mode"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -1,16 +1,34 @@
 'use client';
 
+import { FocusControls } from '@/components/tasks/FocusControls';
 import { TimerDisplay } from '@/components/ui/timer-display';
 import { useTimerActions } from '@/hooks/useTimerActions';
 
 interface TaskDetailTimerProps {
   taskId: string;
   projectId: string;
+  /** Read-only project or completed task: the timer is shown but not changed */
+  disabled?: boolean;
+  /** Focus intervals completed on the task */
+  focusCount?: number;
+  /** Called after the timer is started, paused, resumed or stopped */
+  onTimerChange?: () => void;
 }
 
-export function TaskDetailTimer({ taskId, projectId }: TaskDetailTimerProps) {
+export function TaskDetailTimer({
+  taskId,
+  projectId,
+  disabled = false,
+  focusCount,
+  onTimerChange,
+}: TaskDetailTimerProps) {
   const timerActions = useTimerActions(taskId, projectId);
 
+  const withRefresh = (action: () => Promise<void>) => async () => {
+    await action();
+    onTimerChange?.();
+  };
+
   return (
     <div className="space-y-2">
       <label className="text-sm font-medium text-gray-500">Timer</label>
@@ -18,16 +36,29 @@ export function TaskDetailTimer({ taskId, projectId }: TaskDetailTimerProps) {
         duration={timerActions.duration}
         isRunning={timerActions.timer?.isRunning || false}
         isPaused={timerActions.timer?.isPaused || false}
-        canStart={timerActions.canStart}
-        canResume={timerActions.canResume}
-        canPause={timerActions.canPause}
-        canStop={timerActions.canStop}
-        onStart={timerActions.startTimer}
-        onPause={timerActions.pauseTimer}
-        onResume={timerActions.resumeTimer}
-        onStop={timerActions.stopTimer}
+        canStart={!disabled && timerActions.canStart}
+        canResume={!disabled && timerActions.canResume}
+        canPause={!disabled && timerActions.canPause}
+        canStop={!disabled && timerActions.canStop}
+        onStart={withRefresh(timerActions.startTimer)}
+        onPause={withRefresh(timerActions.pauseTimer)}
+        onResume={withRefresh(timerActions.resumeTimer)}
+        onStop={withRefresh(timerActions.stopTimer)}
         hasTimer={!!timerActions.timer}
+        syncStatus={timerActions.syncStatus}
+      />
+      <FocusControls
+        taskId={taskId}
+        projectId={projectId}
+        disabled={disabled}
       />
+      {focusCount !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          {focusCount === 1
+            ? '1 focus interval completed'
+            : `${focusCount} focus intervals completed`}
+        </p>
+      )}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState } from 'react';
 
 import { CalendarIcon } from 'lucide-react';
 
+import { AssigneeCombobox } from '@/components/tasks/AssigneeCombobox';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import {
@@ -31,6 +32,7 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/contexts/auth-context';
+import { useProjectAssignees } from '@/hooks/useProjectAssignees';
 import { useUser } from '@/hooks/useUser';
 import { getPriorityOptions } from '@/lib/priority';
 import { getStatusOptions } from '@/lib/status';
@@ -38,7 +40,6 @@ import {
   cn,
   convertRateTypeEmptyToNull,
   formatDate,
-  getAssigneeDisplayName,
   validatePricingConsistency,
 } from '@/lib/utils';
 import {
@@ -49,14 +50,12 @@ import {
   TaskStatus,
   TaskWithDetails,
   UpdateTaskRequest,
-  User,
 } from '@/types';
 
 interface TaskModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   project: Project;
-  users?: User[];
   task?: TaskWithDetails; // For edit mode
   onSubmit: (taskData: CreateTaskRequest | UpdateTaskRequest) => Promise<void>;
 }
@@ -65,12 +64,13 @@ export function TaskModal({
   open,
   onOpenChange,
   project,
-  users = [],
   task,
   onSubmit,
 }: TaskModalProps) {
   const { user: currentUser } = useAuth();
   const { user: userProfile } = useUser();
+  const { assignees, canInvite, refreshAssignees, inviteCollaborator } =
+    useProjectAssignees(open ? project.id : undefined, project.workspace_id);
   const isEditMode = !!task;
 
   // Default form data for create mode (pricing pre-filled from project)
@@ -427,42 +427,32 @@ export function TaskModal({
             {/* Assignee */}
             <div className="space-y-2">
               <Label htmlFor="assignee">Assignee</Label>
-              <Select
-                value={formData.assignee || 'none'}
+              <AssigneeCombobox
+                id="assignee"
+                className="w-full"
+                value={formData.assignee ?? undefined}
                 onValueChange={value => handleInputChange('assignee', value)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select assignee (optional)" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No assignee</SelectItem>
-                  {currentUser && (
-                    <SelectItem value={currentUser.id}>
-                      {getAssigneeDisplayName(
-                        {
+                assignees={assignees}
+                currentUserId={currentUser?.id}
+                selectedUser={
+                  formData.assignee === task?.assignee
+                    ? task?.assignee_user
+                    : formData.assignee === currentUser?.id
+                      ? {
                           name:
                             userProfile?.name ||
-                            currentUser.user_metadata?.full_name ||
-                            currentUser.user_metadata?.name,
-                          email: currentUser.email || '',
-                        },
-                        currentUser.id,
-                        currentUser.id
-                      )}
-                    </SelectItem>
-                  )}
-                  {users
-                    .filter(user => user.id !== currentUser?.id)
-                    .map(user => (
-                      <SelectItem key={user.id} value={user.id}>
-                        {getAssigneeDisplayName({
-                          name: user.name,
-                          email: user.email,
-                        })}
-                      </SelectItem>
-                    ))}
-                </SelectContent>
-              </Select>
+                            currentUser?.user_metadata?.full_name ||
+                            currentUser?.user_metadata?.name,
+                          email: currentUser?.email || '',
+                        }
+                      : undefined
+                }
+                canInvite={canInvite}
+                onInvite={async email => {
+                  await inviteCollaborator(email);
+                  await refreshAssignees();
+                }}
+              />
             </div>
           </div>
 
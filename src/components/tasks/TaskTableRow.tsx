@@ -44,6 +44,7 @@ export function TaskTableRow({ task, onDelete, onUpdate }: TaskTableRowProps) {
     canResume,
     canPause,
     canStop,
+    syncStatus,
     startTimer,
     pauseTimer,
     resumeTimer,
@@ -137,6 +138,7 @@ export function TaskTableRow({ task, onDelete, onUpdate }: TaskTableRowProps) {
             onResume={resumeTimer}
             onStop={stopTimer}
             hasTimer={!!timer}
+            syncStatus={syncStatus}
             compact
           />
         )}
@@ -0,0 +1,51 @@
+'use client';
+
+import {
+  getSegmentSeconds,
+  sortTimeEntrySegments,
+} from '@/lib/time-entry-segments';
+import { formatDuration } from '@/lib/utils';
+import { TimeEntrySegment } from '@/types';
+
+interface TimeEntrySegmentsProps {
+  segments?: Pick<TimeEntrySegment, 'id' | 'started_at' | 'ended_at'>[];
+}
+
+function formatSegmentTime(value: string, withDate: boolean): string {
+  return new Date(value).toLocaleString('en-US', {
+    ...(withDate ? { month: 'short', day: '2-digit' } : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * The runs a time entry was tracked in (start to pause or stop), oldest first.
+ * Nothing is shown for entries added by hand or tracked before runs were kept.
+ */
+export function TimeEntrySegments({ segments }: TimeEntrySegmentsProps) {
+  const sorted = sortTimeEntrySegments(segments);
+  if (sorted.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {sorted.map(segment => {
+        const endsOtherDay =
+          !!segment.ended_at &&
+          new Date(segment.ended_at).toDateString() !==
+            new Date(segment.started_at).toDateString();
+        return (
+          <li key={segment.id}>
+            {formatSegmentTime(segment.started_at, true)} –{' '}
+            {segment.ended_at
+              ? formatSegmentTime(segment.ended_at, endsOtherDay)
+              : 'now'}{' '}
+            <span className="font-mono">
+              ({formatDuration(getSegmentSeconds(segment))})
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+import {
+  formatTimesheetDuration,
+  parseTimesheetDuration,
+  TIMESHEET_MAX_CELL_SECONDS,
+} from '@/lib/timesheet';
+import { cn } from '@/lib/utils';
+
+interface TimesheetCellProps {
+  seconds: number;
+  disabled?: boolean;
+  label: string;
+  onSave: (seconds: number) => Promise<boolean>;
+}
+
+/**
+ * Editable timesheet cell. Accepts "h:mm" or decimal hours and saves on blur or Enter;
+ * Escape reverts. An empty cell means no time for that day.
+ */
+export function TimesheetCell({
+  seconds,
+  disabled = false,
+  label,
+  onSave,
+}: TimesheetCellProps) {
+  const [draft, setDraft] = useState(formatTimesheetDuration(seconds));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  // Follow saved value changes (week navigation, refetch)
+  useEffect(() => {
+    setDraft(formatTimesheetDuration(seconds));
+    setIsInvalid(false);
+  }, [seconds]);
+
+  const commit = async () => {
+    const parsed = parseTimesheetDuration(draft);
+    if (parsed === null || parsed > TIMESHEET_MAX_CELL_SECONDS) {
+      setIsInvalid(true);
+      return;
+    }
+    setIsInvalid(false);
+
+    // Compare at the cell's minute precision so re-typing the same value is a no-op
+    if (formatTimesheetDuration(parsed) === formatTimesheetDuration(seconds)) {
+      setDraft(formatTimesheetDuration(seconds));
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave(parsed);
+    setIsSaving(false);
+    if (!saved) {
+      setDraft(formatTimesheetDuration(seconds));
+    }
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={e => {
+        setDraft(e.target.value);
+        setIsInvalid(false);
+      }}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') {
+          e.currentTarget.blur();
+        } else if (e.key === 'Escape') {
+          setDraft(formatTimesheetDuration(seconds));
+          setIsInvalid(false);
+        }
+      }}
+      disabled={disabled || isSaving}
+      aria-label={label}
+      aria-invalid={isInvalid || undefined}
+      title={isInvalid ? 'Enter h:mm (e.g. 1:30) or hours (e.g. 1.5)' : label}
+      placeholder="—"
+      inputMode="decimal"
+      className={cn(
+        'h-8 w-20 text-center font-mono text-sm',
+        isSaving && 'opacity-60'
+      )}
+    />
+  );
+}
@@ -2,7 +2,17 @@
 
 import Link from 'next/link';
 
-import { User, LogOut, LayoutDashboard, UserPen } from 'lucide-react';
+import {
+  User,
+  LogOut,
+  LayoutDashboard,
+  ListChecks,
+  UserPen,
+  CalendarDays,
+  BarChart3,
+  Upload,
+  Building2,
+} from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { PauseTimersModal } from '@/components/ui/pause-timers-modal';
@@ -11,6 +21,8 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
+import { SyncStatusIndicator } from '@/components/ui/sync-status-indicator';
+import { WorkspaceSwitcher } from '@/components/ui/workspace-switcher';
 import { useAuth } from '@/contexts/auth-context';
 import { useSignOutWithTimerCheck } from '@/hooks/useSignOutWithTimerCheck';
 
@@ -46,6 +58,11 @@ export function Header() {
           {user ? (
             // Authenticated user
             <div className="flex items-center space-x-4">
+              {/* Offline timer sync status */}
+              <SyncStatusIndicator />
+
+              <WorkspaceSwitcher />
+
               {/* User Dropdown */}
               <Popover>
                 <PopoverTrigger asChild>
@@ -70,6 +87,56 @@ export function Header() {
                         Dashboard
                       </Button>
                     </Link>
+                    <Link href="/dashboard/tasks">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      >
+                        <ListChecks className="mr-2 h-4 w-4" />
+                        My Tasks
+                      </Button>
+                    </Link>
+                    <Link href="/dashboard/clients">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      >
+                        <Building2 className="mr-2 h-4 w-4" />
+                        Clients
+                      </Button>
+                    </Link>
+                    <Link href="/dashboard/timesheet">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      >
+                        <CalendarDays className="mr-2 h-4 w-4" />
+                        Timesheet
+                      </Button>
+                    </Link>
+                    <Link href="/dashboard/reports">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      >
+                        <BarChart3 className="mr-2 h-4 w-4" />
+                        Reports
+                      </Button>
+                    </Link>
+                    <Link href="/dashboard/import">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+                      >
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import
+                      </Button>
+                    </Link>
                     <Link href="/user-settings">
                       <Button
                         variant="ghost"
@@ -4,6 +4,7 @@ import React, { useEffect, useState } from 'react';
 
 import { CalendarIcon, Check, X } from 'lucide-react';
 
+import { AssigneeCombobox } from '@/components/tasks/AssigneeCombobox';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Input } from '@/components/ui/input';
@@ -24,7 +25,7 @@ import { currencies } from '@/lib/currencies';
 import { getPriorityColor, getPriorityLabel } from '@/lib/priority';
 import { getStatusColor, getStatusLabel } from '@/lib/status';
 import { formatDate, getAssigneeDisplayName } from '@/lib/utils';
-import { Priority, Status, User } from '@/types/index';
+import { Assignee, Priority, Status } from '@/types/index';
 
 // Consolidated state interface
 interface InlineEditState {
@@ -109,9 +110,11 @@ interface InlineEditProps {
   /** When true, value is shown but the user cannot enter edit mode (e.g. Free tier read-only project). */
   readOnly?: boolean;
   assigneeData?: {
-    users: User[];
+    assignees: Assignee[];
     currentUserId?: string;
     assigneeUser?: { name?: string; email: string };
+    canInvite?: boolean;
+    onInvite?: (email: string) => Promise<void>;
   };
 }
 
@@ -485,26 +488,18 @@ export function InlineEdit({
     if (type === 'assignee') {
       return wrapWithError(
         <div className="flex items-center space-x-2">
-          <Select
+          <AssigneeCombobox
+            className="w-56"
             value={editValue}
             onValueChange={value => updateState({ editValue: value })}
-          >
-            <SelectTrigger className="w-48">
-              <SelectValue placeholder="Select assignee" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="none">No assignee</SelectItem>
-              {assigneeData?.users.map(user => (
-                <SelectItem key={user.id} value={user.id}>
-                  {getAssigneeDisplayName(
-                    { name: user.name, email: user.email },
-                    assigneeData.currentUserId,
-                    user.id
-                  )}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+            assignees={assigneeData?.assignees ?? []}
+            currentUserId={assigneeData?.currentUserId}
+            selectedUser={
+              editValue === value ? assigneeData?.assigneeUser : undefined
+            }
+            canInvite={assigneeData?.canInvite}
+            onInvite={assigneeData?.onInvite}
+          />
           <div className="flex items-center space-x-1 inline-edit-buttons">
             <Button
               size="sm"
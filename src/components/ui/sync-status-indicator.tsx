@@ -0,0 +1,125 @@
+'use client';
+
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
+
+/**
+ * Header badge for offline timer changes: offline state, writes waiting to sync,
+ * and failed writes with retry/discard. Renders nothing when everything is synced.
+ */
+export function SyncStatusIndicator() {
+  const {
+    offlineData,
+    isSyncingOfflineQueue,
+    flushOfflineQueue,
+    retryFailedSync,
+    discardFailedSync,
+  } = useTimeTrackingContext();
+
+  const pendingCount = offlineData.pending_sync.length;
+  const failedCount = offlineData.failed_sync.length;
+  const isOnline = offlineData.is_online;
+
+  if (isOnline && pendingCount === 0 && failedCount === 0) {
+    return null;
+  }
+
+  const label =
+    failedCount > 0
+      ? `${failedCount} failed to sync`
+      : !isOnline
+        ? pendingCount > 0
+          ? `Offline · ${pendingCount} pending`
+          : 'Offline'
+        : isSyncingOfflineQueue
+          ? 'Syncing...'
+          : `${pendingCount} pending`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`gap-1 text-xs ${
+            failedCount > 0 ? 'text-red-600' : 'text-amber-600'
+          }`}
+        >
+          {failedCount > 0 ? (
+            <AlertTriangle className="h-4 w-4" />
+          ) : isSyncingOfflineQueue ? (
+            <RefreshCw className="h-4 w-4 animate-spin" />
+          ) : (
+            <CloudOff className="h-4 w-4" />
+          )}
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3 text-sm" align="end">
+        <p className="text-gray-700">
+          {isOnline
+            ? 'Timer changes made offline are syncing.'
+            : 'You are offline. Timer changes are saved on this device and sync when the connection returns. Timers started or resumed offline count from when they sync.'}
+        </p>
+        {pendingCount > 0 && (
+          <p className="text-gray-600">
+            {pendingCount} change{pendingCount === 1 ? '' : 's'} waiting to
+            sync.
+          </p>
+        )}
+        {offlineData.last_sync && (
+          <p className="text-xs text-muted-foreground">
+            Last synced {new Date(offlineData.last_sync).toLocaleString()}
+          </p>
+        )}
+        {isOnline && pendingCount > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => flushOfflineQueue()}
+            disabled={isSyncingOfflineQueue}
+          >
+            Sync now
+          </Button>
+        )}
+        {failedCount > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-red-600">
+              {failedCount} change{failedCount === 1 ? '' : 's'} could not be
+              synced.
+            </p>
+            <ul className="list-disc space-y-1 pl-4 text-xs text-gray-600">
+              {offlineData.failed_sync.slice(0, 3).map(failed => (
+                <li key={failed.mutation.id}>{failed.error}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => retryFailedSync()}
+                disabled={!isOnline || isSyncingOfflineQueue}
+              >
+                Retry
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => discardFailedSync()}
+                disabled={isSyncingOfflineQueue}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
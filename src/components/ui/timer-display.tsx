@@ -1,6 +1,12 @@
-import { Play, Pause, Square, RotateCcw } from 'lucide-react';
+import { Play, Pause, Square, RotateCcw, CloudOff } from 'lucide-react';
 
-import { getTimerStatusColorClass, getTimerStatusText } from '@/lib/timer-ui';
+import { TimerSyncStatus } from '@/lib/offline-queue';
+import {
+  getTimerStatusColorClass,
+  getTimerStatusText,
+  getTimerSyncStatusColorClass,
+  getTimerSyncStatusText,
+} from '@/lib/timer-ui';
 import { formatDuration } from '@/lib/utils';
 
 import { Button } from './button';
@@ -20,6 +26,7 @@ interface TimerDisplayProps {
   className?: string;
   hasTimer?: boolean; // Whether a timer entry exists
   compact?: boolean; // Whether to use compact styling
+  syncStatus?: TimerSyncStatus | null; // Offline writes waiting to sync or failed
 }
 
 export function TimerDisplay({
@@ -37,6 +44,7 @@ export function TimerDisplay({
   className = '',
   hasTimer = false,
   compact = false,
+  syncStatus = null,
 }: TimerDisplayProps) {
   const status = isRunning ? 'running' : isPaused ? 'paused' : 'stopped';
   const statusColor = getTimerStatusColorClass(status);
@@ -58,6 +66,18 @@ export function TimerDisplay({
         </div>
       )}
 
+      {/* Offline sync status (also shown for a stop that hasn't synced yet) */}
+      {syncStatus && (
+        <span
+          className={`flex items-center gap-1 text-xs ${getTimerSyncStatusColorClass(
+            syncStatus
+          )}`}
+        >
+          <CloudOff className="h-3 w-3" />
+          {getTimerSyncStatusText(syncStatus)}
+        </span>
+      )}
+
       {/* Timer Controls */}
       <div className="flex items-center gap-1">
         {canStart && (
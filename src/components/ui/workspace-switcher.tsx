@@ -0,0 +1,43 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+
+/** Picks the workspace the app shows; hidden until the user has a shared one */
+export function WorkspaceSwitcher() {
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspaces();
+
+  if (workspaces.length < 2 || !activeWorkspace) return null;
+
+  async function handleChange(workspaceId: string) {
+    if (workspaceId === activeWorkspace?.id) return;
+    if (await switchWorkspace(workspaceId)) {
+      window.location.reload();
+    }
+  }
+
+  return (
+    <Select value={activeWorkspace.id} onValueChange={handleChange}>
+      <SelectTrigger
+        className="h-8 w-44 text-sm"
+        aria-label="Workspace"
+        title="Workspace"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map(workspace => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
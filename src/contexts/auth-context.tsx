@@ -18,7 +18,7 @@ interface AuthContextType {
   session: Session | null;
   loading: boolean;
   isSigningOut: boolean;
-  signIn: (provider: 'github' | 'google') => Promise<void>;
+  signIn: (provider: 'github' | 'google', next?: string) => Promise<void>;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -150,13 +150,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // No dependencies needed - this effect should only run once
 
-  const signIn = async (provider: 'github' | 'google') => {
+  const signIn = async (provider: 'github' | 'google', next?: string) => {
     try {
       setLoading(true);
       const { error } = await supabase.auth.signInWithOAuth({
         provider,
         options: {
-          redirectTo: `${window.location.origin}/auth/callback`,
+          redirectTo: next
+            ? `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`
+            : `${window.location.origin}/auth/callback`,
         },
       });
 
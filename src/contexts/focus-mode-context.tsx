@@ -0,0 +1,33 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+
+import { useFocusMode, UseFocusModeReturn } from '@/hooks/useFocusMode';
+
+const FocusModeContext = createContext<UseFocusModeReturn | undefined>(
+  undefined
+);
+
+interface FocusModeProviderProps {
+  children: ReactNode;
+}
+
+export function FocusModeProvider({ children }: FocusModeProviderProps) {
+  const focusMode = useFocusMode();
+
+  return (
+    <FocusModeContext.Provider value={focusMode}>
+      {children}
+    </FocusModeContext.Provider>
+  );
+}
+
+export function useFocusModeContext() {
+  const context = useContext(FocusModeContext);
+  if (context === undefined) {
+    throw new Error(
+      'useFocusModeContext must be used within a FocusModeProvider'
+    );
+  }
+  return context;
+}
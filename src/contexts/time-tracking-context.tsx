@@ -3,6 +3,9 @@
 import { createContext, useContext, ReactNode } from 'react';
 
 import { useTimeTracker, LocalTimer } from '@/hooks/useTimeTracker';
+import { IdlePeriod, IdleTimeAction } from '@/lib/idle-detection';
+import { TimerSyncStatus } from '@/lib/offline-queue';
+import { OfflineData } from '@/types';
 
 interface TimeTrackingContextType {
   // Timer state
@@ -16,6 +19,10 @@ interface TimeTrackingContextType {
   pauseAllTimers: (timerIds: string[]) => Promise<boolean>;
   stopAllTimers: (projectId: string) => Promise<boolean>;
   stopTimersForEntryIds: (entryIds: string[]) => Promise<boolean>;
+  removeIdleTime: (
+    period: IdlePeriod,
+    action: Exclude<IdleTimeAction, 'keep'>
+  ) => Promise<number | null>;
   resumeTimer: (taskId: string) => Promise<boolean>;
   stopTimer: (taskId: string) => Promise<boolean>;
   resetTimer: (taskId: string) => Promise<boolean>;
@@ -33,6 +40,20 @@ interface TimeTrackingContextType {
   syncWithDatabase: () => Promise<void>;
   loadTimersFromDatabase: () => Promise<void>;
   refreshTimerForTask: (taskId: string) => Promise<void>;
+  createTimeEntry: (
+    taskId: string,
+    projectId: string,
+    entry: { durationSeconds: number; description?: string | null }
+  ) => Promise<void>;
+
+  // Offline sync
+  /** Writes queued while offline, writes that failed to replay, and connectivity. */
+  offlineData: OfflineData;
+  isSyncingOfflineQueue: boolean;
+  getSyncStatusForTask: (taskId: string) => TimerSyncStatus | null;
+  flushOfflineQueue: () => Promise<void>;
+  retryFailedSync: () => Promise<void>;
+  discardFailedSync: () => Promise<void>;
 
   // State
   isLoading: boolean;
@@ -11,6 +11,7 @@ interface WorkSessionContextType {
   startWorkSession: () => Promise<boolean>;
   endWorkSession: () => Promise<boolean>;
   updateSessionDuration: (duration: number) => Promise<boolean>;
+  excludeIdleTime: (seconds: number) => Promise<boolean>;
   // Stats functionality
   stats: ReturnType<typeof useWorkSession>['stats'];
   statsLoading: boolean;
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import {
+  Client,
+  ClientWithTotals,
+  CreateClientRequest,
+  UpdateClientRequest,
+} from '@/types';
+
+type ClientResult =
+  | { success: true; client: Client }
+  | { success: false; error: string };
+
+interface UseClientsReturn {
+  clients: ClientWithTotals[];
+  loading: boolean;
+  error: string | null;
+  refreshClients: () => Promise<void>;
+  createClient: (data: CreateClientRequest) => Promise<ClientResult>;
+  updateClient: (
+    id: string,
+    data: UpdateClientRequest
+  ) => Promise<ClientResult>;
+  deleteClient: (id: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+function sortClientsByName(clients: ClientWithTotals[]): ClientWithTotals[] {
+  return [...clients].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+  );
+}
+
+/** Clients of the active workspace */
+export function useClients(): UseClientsReturn {
+  const [clients, setClients] = useState<ClientWithTotals[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClients = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/clients');
+      const data = await response.json();
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        throw new Error(data.error || 'Failed to fetch clients');
+      }
+
+      setClients(data.clients || []);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch clients';
+      setError(errorMessage);
+      console.error('Error fetching clients:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createClient = useCallback(
+    async (data: CreateClientRequest): Promise<ClientResult> => {
+      try {
+        const response = await fetch('/api/clients', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(data),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) return { success: false, error: 'Unauthorized' };
+          return {
+            success: false,
+            error: result.error || 'Failed to create client',
+          };
+        }
+
+        setClients(current => sortClientsByName([...current, result.client]));
+        return { success: true, client: result.client };
+      } catch (err) {
+        console.error('Error creating client:', err);
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to create client',
+        };
+      }
+    },
+    []
+  );
+
+  const updateClient = useCallback(
+    async (id: string, data: UpdateClientRequest): Promise<ClientResult> => {
+      try {
+        const response = await fetch(`/api/clients/${id}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(data),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) return { success: false, error: 'Unauthorized' };
+          return {
+            success: false,
+            error: result.error || 'Failed to update client',
+          };
+        }
+
+        // Totals do not change with the client's details
+        setClients(current =>
+          sortClientsByName(
+            current.map(client =>
+              client.id === id ? { ...client, ...result.client } : client
+            )
+          )
+        );
+        return { success: true, client: result.client };
+      } catch (err) {
+        console.error('Error updating client:', err);
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to update client',
+        };
+      }
+    },
+    []
+  );
+
+  const deleteClient = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/clients/${id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return { success: false, error: 'Unauthorized' };
+        return {
+          success: false,
+          error: result.error || 'Failed to delete client',
+        };
+      }
+
+      setClients(current => current.filter(client => client.id !== id));
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting client:', err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to delete client',
+      };
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClients();
+  }, [fetchClients]);
+
+  return {
+    clients,
+    loading,
+    error,
+    refreshClients: fetchClients,
+    createClient,
+    updateClient,
+    deleteClient,
+  };
+}
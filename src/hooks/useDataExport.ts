@@ -1,12 +1,16 @@
 import { useCallback, useState } from 'react';
 
 import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { DataExportFormat } from '@/types';
 
 interface UseDataExportReturn {
   isExporting: boolean;
   error: string | null;
   retryAfter: Date | null;
-  exportUserData: (includeActivityLog?: boolean) => Promise<boolean>;
+  exportUserData: (
+    includeActivityLog?: boolean,
+    format?: DataExportFormat
+  ) => Promise<boolean>;
 }
 
 export function useDataExport(): UseDataExportReturn {
@@ -15,7 +19,10 @@ export function useDataExport(): UseDataExportReturn {
   const [retryAfter, setRetryAfter] = useState<Date | null>(null);
 
   const exportUserData = useCallback(
-    async (includeActivityLog = false): Promise<boolean> => {
+    async (
+      includeActivityLog = false,
+      format: DataExportFormat = 'zip'
+    ): Promise<boolean> => {
       try {
         setIsExporting(true);
         setError(null);
@@ -25,6 +32,9 @@ export function useDataExport(): UseDataExportReturn {
         if (includeActivityLog) {
           exportUrl.searchParams.set('includeActivityLog', 'true');
         }
+        if (format === 'json') {
+          exportUrl.searchParams.set('format', 'json');
+        }
 
         const response = await fetch(exportUrl.toString(), {
           method: 'GET',
@@ -56,7 +66,7 @@ export function useDataExport(): UseDataExportReturn {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `orasan-export-${new Date().toISOString().slice(0, 10)}.zip`;
+        a.download = `orasan-export-${new Date().toISOString().slice(0, 10)}.${format}`;
         document.body.appendChild(a);
         a.click();
         a.remove();
@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useAuth } from '@/contexts/auth-context';
+import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
+import { useUser } from '@/hooks/useUser';
+import {
+  FocusSession,
+  FocusSettings,
+  getFocusSettings,
+  requestFocusNotificationPermission,
+  showFocusNotification,
+} from '@/lib/focus-mode';
+import { isLocalEntryId } from '@/lib/offline-queue';
+
+const STORAGE_KEY = 'orasan_focus_session';
+const TICK_INTERVAL = 1000;
+
+export interface UseFocusModeReturn {
+  focusSession: FocusSession | null;
+  /** Seconds left in the current phase (0 without a session) */
+  remainingSeconds: number;
+  settings: FocusSettings;
+  /** Focus intervals completed in this browser since it loaded */
+  completedFocusCount: number;
+  /** Starts (or resumes) the task's timer and a focus interval on it */
+  startFocus: (taskId: string, projectId: string) => Promise<boolean>;
+  /** Leaves focus mode; the timer is left as it is */
+  endFocus: () => void;
+}
+
+function loadFocusSession(): FocusSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FocusSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveFocusSession(session: FocusSession | null): void {
+  try {
+    if (session) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving focus session:', error);
+  }
+}
+
+/**
+ * Focus mode on top of task timers: a work interval runs the task's timer and
+ * pauses it when the interval ends (through the normal pause), then a break
+ * counts down. Pausing or stopping the timer by hand leaves focus mode.
+ */
+export function useFocusMode(): UseFocusModeReturn {
+  const { user } = useAuth();
+  const { user: userProfile } = useUser();
+  const {
+    getTimerForTask,
+    canStartTimer,
+    canResumeTimer,
+    startTimer,
+    resumeTimer,
+    pauseTimer,
+  } = useTimeTrackingContext();
+
+  const [focusSession, setFocusSessionState] = useState<FocusSession | null>(
+    null
+  );
+  const [now, setNow] = useState(() => Date.now());
+  const [completedFocusCount, setCompletedFocusCount] = useState(0);
+  const isCompletingRef = useRef(false);
+  /** Whether the timer was seen running in the current work phase */
+  const sawRunningRef = useRef(false);
+
+  const settings = useMemo(() => getFocusSettings(userProfile), [userProfile]);
+
+  const setFocusSession = useCallback((session: FocusSession | null) => {
+    sawRunningRef.current = false;
+    setFocusSessionState(session);
+    saveFocusSession(session);
+  }, []);
+
+  // Restore a session from this browser for the signed-in user
+  useEffect(() => {
+    if (user) {
+      setFocusSessionState(loadFocusSession());
+    } else {
+      setFocusSessionState(null);
+      saveFocusSession(null);
+    }
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Tick while a phase counts down
+  useEffect(() => {
+    if (!focusSession) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [focusSession]);
+
+  const focusTimer = focusSession ? getTimerForTask(focusSession.taskId) : null;
+  const isFocusTimerRunning = !!focusTimer?.isRunning;
+
+  // A pause or stop made by hand during a work phase ends focus mode
+  useEffect(() => {
+    if (!focusSession || focusSession.phase !== 'work') return;
+    if (isFocusTimerRunning) {
+      sawRunningRef.current = true;
+    } else if (sawRunningRef.current && !isCompletingRef.current) {
+      setFocusSession(null);
+    }
+  }, [focusSession, isFocusTimerRunning, setFocusSession]);
+
+  const completeWorkPhase = useCallback(
+    async (session: FocusSession) => {
+      const timer = getTimerForTask(session.taskId);
+      // The timer stopped running while focus mode was not watching it (e.g.
+      // paused on another device), so the interval does not count
+      if (!timer?.isRunning) {
+        setFocusSession(null);
+        return;
+      }
+
+      isCompletingRef.current = true;
+      const completedAt = Date.now();
+      setFocusSession({
+        ...session,
+        phase: 'break',
+        phaseStartedAt: completedAt,
+        phaseEndsAt: completedAt + settings.breakMinutes * 60 * 1000,
+      });
+
+      try {
+        await pauseTimer(session.taskId);
+
+        // Completions are recorded online only; the pause itself is queued offline
+        const response = await fetch('/api/focus-intervals', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            task_id: session.taskId,
+            time_entry_id: isLocalEntryId(timer.id) ? null : timer.id,
+            started_at: new Date(session.phaseStartedAt).toISOString(),
+          }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to record focus interval');
+        }
+        setCompletedFocusCount(count => count + 1);
+      } catch (error) {
+        console.error('Error completing focus interval:', error);
+      } finally {
+        isCompletingRef.current = false;
+      }
+
+      if (settings.notificationsEnabled) {
+        showFocusNotification(
+          'Focus interval complete',
+          `Your timer was paused. Take a ${settings.breakMinutes}-minute break.`
+        );
+      }
+    },
+    [getTimerForTask, pauseTimer, setFocusSession, settings]
+  );
+
+  // Move to the next phase when the current one runs out
+  useEffect(() => {
+    if (!focusSession || now < focusSession.phaseEndsAt) return;
+    if (isCompletingRef.current) return;
+
+    if (focusSession.phase === 'work') {
+      void completeWorkPhase(focusSession);
+      return;
+    }
+
+    setFocusSession(null);
+    if (settings.notificationsEnabled) {
+      showFocusNotification(
+        'Break is over',
+        'Start the next focus interval when you are ready.'
+      );
+    }
+  }, [
+    now,
+    focusSession,
+    completeWorkPhase,
+    setFocusSession,
+    settings.notificationsEnabled,
+  ]);
+
+  const startFocus = useCallback(
+    async (taskId: string, projectId: string): Promise<boolean> => {
+      const timer = getTimerForTask(taskId);
+      let started = !!timer?.isRunning;
+      if (!started && canResumeTimer(taskId)) {
+        started = await resumeTimer(taskId);
+      } else if (!started && canStartTimer(taskId)) {
+        started = await startTimer(taskId, projectId);
+      }
+      if (!started) return false;
+
+      if (settings.notificationsEnabled) {
+        void requestFocusNotificationPermission();
+      }
+
+      const startedAt = Date.now();
+      setFocusSession({
+        taskId,
+        projectId,
+        phase: 'work',
+        phaseStartedAt: startedAt,
+        phaseEndsAt: startedAt + settings.workMinutes * 60 * 1000,
+      });
+      return true;
+    },
+    [
+      getTimerForTask,
+      canResumeTimer,
+      canStartTimer,
+      resumeTimer,
+      startTimer,
+      setFocusSession,
+      settings,
+    ]
+  );
+
+  const endFocus = useCallback(() => {
+    setFocusSession(null);
+  }, [setFocusSession]);
+
+  const remainingSeconds = focusSession
+    ? Math.max(0, Math.ceil((focusSession.phaseEndsAt - now) / 1000))
+    : 0;
+
+  return {
+    focusSession,
+    remainingSeconds,
+    settings,
+    completedFocusCount,
+    startFocus,
+    endFocus,
+  };
+}
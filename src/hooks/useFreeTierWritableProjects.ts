@@ -1,11 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
 
 import { useUser } from '@/hooks/useUser';
+import { FREE_TIER_MAX_ACTIVE_PROJECTS } from '@/lib/subscription-enforcement';
 import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
 import type { Project } from '@/types';
 
 type State = {
   loading: boolean;
+  // Plan of the active workspace's owner, which its limits follow
+  isFree: boolean;
   overLimit: boolean;
   activeCount: number;
   writableProjectIds: string[];
@@ -13,6 +16,7 @@ type State = {
 
 const DEFAULT: State = {
   loading: true,
+  isFree: false,
   overLimit: false,
   activeCount: 0,
   writableProjectIds: [],
@@ -26,8 +30,10 @@ function getWritableFromProjects(projects: Project[]) {
         new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     );
   const activeCount = active.length;
-  const overLimit = activeCount > 2;
-  const writableProjectIds = overLimit ? active.slice(0, 2).map(p => p.id) : [];
+  const overLimit = activeCount > FREE_TIER_MAX_ACTIVE_PROJECTS;
+  const writableProjectIds = overLimit
+    ? active.slice(0, FREE_TIER_MAX_ACTIVE_PROJECTS).map(p => p.id)
+    : [];
   return { overLimit, activeCount, writableProjectIds };
 }
 
@@ -44,16 +50,6 @@ export function useFreeTierWritableProjects() {
         return;
       }
 
-      if (user.subscription_tier !== 'free') {
-        setState({
-          loading: false,
-          overLimit: false,
-          activeCount: 0,
-          writableProjectIds: [],
-        });
-        return;
-      }
-
       setState(prev => ({ ...prev, loading: true }));
 
       const response = await fetch('/api/projects');
@@ -64,9 +60,16 @@ export function useFreeTierWritableProjects() {
         return;
       }
 
+      if (data.subscription_tier !== 'free') {
+        if (!cancelled) {
+          setState({ ...DEFAULT, loading: false });
+        }
+        return;
+      }
+
       const projects = (data.projects ?? []) as Project[];
       const computed = getWritableFromProjects(projects);
-      if (!cancelled) setState({ loading: false, ...computed });
+      if (!cancelled) setState({ loading: false, isFree: true, ...computed });
     }
 
     run();
@@ -75,17 +78,14 @@ export function useFreeTierWritableProjects() {
     };
   }, [user]);
 
-  const isFree = user?.subscription_tier === 'free';
-
   return useMemo(
     () => ({
-      isFree,
       ...state,
       isProjectWritable: (projectId: string) =>
-        !isFree ||
+        !state.isFree ||
         !state.overLimit ||
         state.writableProjectIds.includes(projectId),
     }),
-    [isFree, state]
+    [state]
   );
 }
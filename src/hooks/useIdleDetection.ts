@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { IdlePeriod } from '@/lib/idle-detection';
+
+const ACTIVITY_EVENTS = [
+  'mousemove',
+  'mousedown',
+  'keydown',
+  'wheel',
+  'touchstart',
+] as const;
+
+interface UseIdleDetectionReturn {
+  /** Last idle period the user came back from, until it is cleared */
+  idlePeriod: IdlePeriod | null;
+  clearIdlePeriod: () => void;
+}
+
+/**
+ * Watches for input and page visibility. When the user comes back after at
+ * least `timeoutMinutes` without input (or with the page hidden), the period
+ * is reported so it can be resolved; further periods wait until it is cleared.
+ * @param timeoutMinutes - Minutes away that count as idle (null turns it off)
+ * @param enabled - Whether a return should be reported (e.g. a timer is running)
+ */
+export function useIdleDetection(
+  timeoutMinutes: number | null,
+  enabled: boolean
+): UseIdleDetectionReturn {
+  const [idlePeriod, setIdlePeriod] = useState<IdlePeriod | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  /** Event listeners are registered once, so they read these `.current` values. */
+  const timeoutMsRef = useRef<number | null>(null);
+  const enabledRef = useRef(enabled);
+  timeoutMsRef.current =
+    timeoutMinutes !== null ? timeoutMinutes * 60 * 1000 : null;
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const markActivity = () => {
+      const now = Date.now();
+      const from = lastActivityRef.current;
+      const timeoutMs = timeoutMsRef.current;
+      lastActivityRef.current = now;
+
+      if (enabledRef.current && timeoutMs !== null && now - from >= timeoutMs) {
+        setIdlePeriod(prev => prev ?? { from, until: now });
+      }
+    };
+
+    // A hidden page gets no input, so time away counts from the last input
+    // before it was hidden (usually the click or key that switched away)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') markActivity();
+    };
+
+    for (const eventName of ACTIVITY_EVENTS) {
+      window.addEventListener(eventName, markActivity, { passive: true });
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      for (const eventName of ACTIVITY_EVENTS) {
+        window.removeEventListener(eventName, markActivity);
+      }
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const clearIdlePeriod = useCallback(() => setIdlePeriod(null), []);
+
+  return { idlePeriod, clearIdlePeriod };
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { Assignee, ProjectAssigneesResponse } from '@/types';
+
+interface UseProjectAssigneesReturn {
+  assignees: Assignee[];
+  canInvite: boolean;
+  loading: boolean;
+  error: string | null;
+  refreshAssignees: () => Promise<void>;
+  /** Invites a collaborator to the project's workspace as a member */
+  inviteCollaborator: (email: string) => Promise<void>;
+}
+
+export function useProjectAssignees(
+  projectId: string | undefined,
+  workspaceId: string | undefined
+): UseProjectAssigneesReturn {
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [canInvite, setCanInvite] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAssignees = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/assignees`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        throw new Error(data.error || 'Failed to fetch assignees');
+      }
+
+      const result = data as ProjectAssigneesResponse;
+      setAssignees(result.assignees || []);
+      setCanInvite(result.can_invite);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch assignees';
+      setError(errorMessage);
+      console.error('Error fetching assignees:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  // Throws so the picker can show the reason next to the email
+  const inviteCollaborator = useCallback(
+    async (email: string) => {
+      if (!workspaceId) {
+        throw new Error('Project workspace is not known yet');
+      }
+
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/invitations`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ email, role: 'member' }),
+        }
+      );
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to send invitation');
+      }
+    },
+    [workspaceId]
+  );
+
+  useEffect(() => {
+    fetchAssignees();
+  }, [fetchAssignees]);
+
+  return {
+    assignees,
+    canInvite,
+    loading,
+    error,
+    refreshAssignees: fetchAssignees,
+    inviteCollaborator,
+  };
+}
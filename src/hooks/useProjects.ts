@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
-import { useUser } from '@/hooks/useUser';
+import { FREE_TIER_MAX_ACTIVE_PROJECTS } from '@/lib/subscription-enforcement';
 import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
 import {
   CreateProjectRequest,
@@ -26,8 +26,6 @@ interface UseProjectsReturn {
   refreshProjects: () => Promise<void>;
 }
 
-const MAX_FREE_PROJECTS = 2;
-
 // Sort projects by name (case-insensitive)
 function sortProjectsByName(projects: Project[]): Project[] {
   return [...projects].sort((a, b) =>
@@ -41,7 +39,10 @@ export function useProjects(): UseProjectsReturn {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user, loading: userLoading } = useUser();
+  // Plan of the active workspace's owner, whose limits apply to every member
+  const [subscriptionTier, setSubscriptionTier] = useState<
+    'free' | 'pro' | null
+  >(null);
 
   // Get timer context for pause functionality
   const { activeTimers, pauseAllTimers } = useTimeTrackingContext();
@@ -64,6 +65,7 @@ export function useProjects(): UseProjectsReturn {
 
       const projects = data.projects || [];
       setProjects(sortProjectsByName(projects));
+      setSubscriptionTier(data.subscription_tier ?? 'free');
     } catch (err) {
       console.error('Error fetching projects:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch projects');
@@ -220,6 +222,7 @@ export function useProjects(): UseProjectsReturn {
 
       const projects = data.projects || [];
       setProjects(sortProjectsByName(projects));
+      setSubscriptionTier(data.subscription_tier ?? 'free');
     } catch (err) {
       console.error('Error refreshing projects:', err);
       setError(
@@ -252,16 +255,15 @@ export function useProjects(): UseProjectsReturn {
   }, [refreshProjects]);
 
   const canCreateProject = useMemo(() => {
-    if (userLoading) {
+    if (subscriptionTier === null) {
       return true;
     }
-    const tier = user?.subscription_tier ?? 'free';
-    if (tier === 'pro') {
+    if (subscriptionTier === 'pro') {
       return true;
     }
     const activeCount = projects.filter(p => p.status !== 'completed').length;
-    return activeCount < MAX_FREE_PROJECTS;
-  }, [user?.subscription_tier, userLoading, projects]);
+    return activeCount < FREE_TIER_MAX_ACTIVE_PROJECTS;
+  }, [subscriptionTier, projects]);
 
   return {
     projects,
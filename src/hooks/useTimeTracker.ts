@@ -3,7 +3,25 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 
 import { useAuth } from '@/contexts/auth-context';
 import { useFreeTierWritableProjects } from '@/hooks/useFreeTierWritableProjects';
+import { IdlePeriod, IdleTimeAction } from '@/lib/idle-detection';
+import {
+  createEmptyOfflineData,
+  createLocalEntryId,
+  isLocalEntryId,
+  isNetworkError,
+  loadOfflineData,
+  remapOfflineMutation,
+  replayOfflineQueue,
+  saveOfflineData,
+  TimerSyncStatus,
+} from '@/lib/offline-queue';
+import { getLocalTimerStartTime } from '@/lib/time-entry-timer';
+import {
+  formatTimerAutoStopNotice,
+  TimerAutoStopReason,
+} from '@/lib/timer-limits';
 import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { OfflineData, OfflineMutation, OfflineMutationAction } from '@/types';
 
 export interface TimeEntry {
   id: string;
@@ -14,6 +32,7 @@ export interface TimeEntry {
   end_time: string | null;
   duration_seconds: number;
   timer_status: 'running' | 'paused' | 'stopped';
+  running_since: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -22,10 +41,10 @@ export interface LocalTimer {
   id: string;
   taskId: string;
   projectId: string;
-  duration: number; // in seconds
+  duration: number; // in seconds, as of the last pause (server value once synced)
   isRunning: boolean;
   isPaused: boolean;
-  localStartTime: number | null; // timestamp when timer started locally
+  localStartTime: number | null; // browser timestamp the current run is displayed from
   lastSyncTime: number; // timestamp of last sync with DB
 }
 
@@ -40,6 +59,14 @@ export interface UseTimeTrackerReturn {
   pauseTimer: (taskId: string) => Promise<boolean>;
   pauseAllTimers: (timerIds: string[]) => Promise<boolean>;
   stopAllTimers: (projectId: string) => Promise<boolean>;
+  /**
+   * Discard an idle period from the running timers, or split it into separate
+   * entries. Resolves to the seconds removed, or null when it failed.
+   */
+  removeIdleTime: (
+    period: IdlePeriod,
+    action: Exclude<IdleTimeAction, 'keep'>
+  ) => Promise<number | null>;
   resumeTimer: (taskId: string) => Promise<boolean>;
   stopTimer: (taskId: string) => Promise<boolean>;
   resetTimer: (taskId: string) => Promise<boolean>;
@@ -55,8 +82,22 @@ export interface UseTimeTrackerReturn {
   syncWithDatabase: () => Promise<void>;
   loadTimersFromDatabase: () => Promise<void>;
   refreshTimerForTask: (taskId: string) => Promise<void>;
-  /** Stop only the given time entry ids (running/paused), using local timer state for durations. */
+  /** Stop only the given time entry ids (running/paused); the server records the durations. */
   stopTimersForEntryIds: (entryIds: string[]) => Promise<boolean>;
+  /** Create a paused manual entry (queued when offline). Throws with the API error message. */
+  createTimeEntry: (
+    taskId: string,
+    projectId: string,
+    entry: { durationSeconds: number; description?: string | null }
+  ) => Promise<void>;
+
+  // Offline sync
+  offlineData: OfflineData;
+  isSyncingOfflineQueue: boolean;
+  getSyncStatusForTask: (taskId: string) => TimerSyncStatus | null;
+  flushOfflineQueue: () => Promise<void>;
+  retryFailedSync: () => Promise<void>;
+  discardFailedSync: () => Promise<void>;
 
   // Utility functions
   formatDuration: (seconds: number) => string;
@@ -76,6 +117,56 @@ const STORAGE_SYNC_INTERVAL = 5 * 1000; // 5 seconds for localStorage sync
 const READ_ONLY_ENFORCEMENT_NOTICE =
   'Active timers on read-only projects were stopped. Those projects are view-only on your Free plan when you have more than 2 active projects.';
 
+const OFFLINE_CONFLICT_NOTICE =
+  'Some changes made offline were discarded because the timer was stopped, deleted or restarted on another device.';
+
+type TimerUpdatePayload = Extract<
+  OfflineMutation,
+  { kind: 'update' }
+>['payload'];
+type TimeEntryCreatePayload = Extract<
+  OfflineMutation,
+  { kind: 'create' }
+>['payload'];
+
+// PATCH body for a timer's current state (sent directly or queued for replay).
+// Only the status is sent: the server derives durations from its own timestamps.
+function buildTimerUpdatePayload(timer: LocalTimer): TimerUpdatePayload {
+  return {
+    timer_status: timer.isRunning
+      ? 'running'
+      : timer.isPaused
+        ? 'paused'
+        : 'stopped',
+  };
+}
+
+// Local timer for a server entry; a running timer's display counts from the
+// server's segment start, corrected for the difference between the clocks
+function toLocalTimer(entry: TimeEntry, serverTime?: string): LocalTimer {
+  const isRunning = entry.timer_status === 'running';
+  return {
+    id: entry.id,
+    taskId: entry.task_id,
+    projectId: entry.project_id,
+    duration: entry.duration_seconds || 0,
+    isRunning,
+    isPaused: entry.timer_status === 'paused',
+    localStartTime: isRunning
+      ? (getLocalTimerStartTime(entry.running_since, serverTime) ?? Date.now())
+      : null,
+    lastSyncTime: Date.now(),
+  };
+}
+
+// Tasks with writes still waiting in, or failed out of, the offline queue
+function getQueuedTaskIds(data: OfflineData): Set<string> {
+  return new Set([
+    ...data.pending_sync.map(mutation => mutation.task_id),
+    ...data.failed_sync.map(failed => failed.mutation.task_id),
+  ]);
+}
+
 export function useTimeTracker(): UseTimeTrackerReturn {
   const { user } = useAuth();
   const freeTier = useFreeTierWritableProjects();
@@ -90,6 +181,16 @@ export function useTimeTracker(): UseTimeTrackerReturn {
   const stopAllTimersRef = useRef<(projectId: string) => Promise<boolean>>(
     async () => false
   );
+  const [offlineData, setOfflineData] = useState<OfflineData>(
+    createEmptyOfflineData
+  );
+  const [isSyncingOfflineQueue, setIsSyncingOfflineQueue] = useState(false);
+  const offlineDataRef = useRef<OfflineData>(offlineData);
+  const isFlushingRef = useRef(false);
+  /** Interval and event callbacks are stale, so they read these `.current` values. */
+  const flushOfflineQueueRef = useRef<() => Promise<void>>(async () => {});
+  const isSignedInRef = useRef(false);
+  isSignedInRef.current = !!user;
 
   // Helper function to set error with auto-clear timeout
   const setErrorWithTimeout = useCallback((errorMessage: string) => {
@@ -106,14 +207,32 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     }, 5000);
   }, []);
 
+  const showTimerNotice = useCallback((notice: string) => {
+    if (timerNoticeTimeoutRef.current) {
+      clearTimeout(timerNoticeTimeoutRef.current);
+    }
+    setTimerNotice(notice);
+    timerNoticeTimeoutRef.current = setTimeout(() => {
+      setTimerNotice(null);
+      timerNoticeTimeoutRef.current = null;
+    }, 10000);
+  }, []);
+
+  // Update the offline queue state and persist it so it survives reloads
+  const updateOfflineData = useCallback(
+    (updater: (prev: OfflineData) => OfflineData) => {
+      const next = updater(offlineDataRef.current);
+      offlineDataRef.current = next;
+      setOfflineData(next);
+      saveOfflineData(next);
+    },
+    []
+  );
+
   const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const storageSyncIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const timersRef = useRef<LocalTimer[]>([]);
-  /** Writable check for periodic sync; interval callback is stale, so read `.current`. */
-  const isProjectWritableForSyncRef = useRef<(projectId: string) => boolean>(
-    () => true
-  );
 
   // Derived state
   const activeTimers = timers.filter(timer => timer.isRunning);
@@ -140,8 +259,6 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     timers,
   ]);
 
-  isProjectWritableForSyncRef.current = freeTier.isProjectWritable;
-
   // Update ref whenever timers change
   useEffect(() => {
     timersRef.current = timers;
@@ -156,15 +273,36 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     };
   }, []);
 
-  // Load timers from localStorage on mount
+  // Load timers and the offline queue from localStorage on mount
   useEffect(() => {
     loadTimersFromStorage();
+    updateOfflineData(() => loadOfflineData());
+  }, []);
+
+  // Track connectivity and replay queued writes when it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      updateOfflineData(prev => ({ ...prev, is_online: true }));
+      void flushOfflineQueueRef.current();
+    };
+    const handleOffline = () => {
+      updateOfflineData(prev => ({ ...prev, is_online: false }));
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
   // Load timers when user becomes available
   useEffect(() => {
     if (user) {
       loadTimersFromDatabase();
+      void showAutoStopNotice();
     }
   }, [user]);
 
@@ -274,6 +412,11 @@ export function useTimeTracker(): UseTimeTrackerReturn {
       return;
     }
 
+    // Offline: keep the timers restored from localStorage
+    if (!navigator.onLine) {
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -331,142 +474,344 @@ export function useTimeTracker(): UseTimeTrackerReturn {
       }
 
       // Convert database entries to local timers (only one per task)
-      const dbTimers: LocalTimer[] = Array.from(entriesByTask.values()).map(
-        entry => {
-          let localStartTime = null;
-          if (entry.timer_status === 'running') {
-            // For running timers, set localStartTime to now
-            // The duration_seconds contains accumulated time from previous sessions
-            // getTotalDuration will calculate: duration_seconds + (now - localStartTime)
-            localStartTime = Date.now();
-          }
-
-          return {
-            id: entry.id,
-            taskId: entry.task_id,
-            projectId: entry.project_id,
-            duration: entry.duration_seconds, // Duration is already in seconds
-            isRunning: entry.timer_status === 'running',
-            isPaused: entry.timer_status === 'paused',
-            localStartTime,
-            lastSyncTime: Date.now(),
-          };
-        }
+      let mergedTimers = Array.from(entriesByTask.values()).map(entry =>
+        toLocalTimer(entry, data.server_time)
       );
 
-      // Merge database data with localStorage data to preserve localStartTime
-      const stored = localStorage.getItem(STORAGE_KEY);
-      let mergedTimers = dbTimers;
-
-      if (stored) {
-        try {
-          const storedTimers = JSON.parse(stored);
-          mergedTimers = dbTimers.map(dbTimer => {
-            const storedTimer = storedTimers.find(
-              (t: LocalTimer) => t.id === dbTimer.id
-            );
-            if (
-              storedTimer &&
-              storedTimer.isRunning &&
-              storedTimer.localStartTime
-            ) {
-              // Preserve the localStartTime from localStorage for running timers
-              return {
-                ...dbTimer,
-                localStartTime: storedTimer.localStartTime,
-              };
-            }
-            return dbTimer;
-          });
-        } catch (error) {
-          console.error('Error parsing stored timers for merge:', error);
-        }
+      // Tasks with queued or failed offline writes keep their local state until those settle
+      const queuedTaskIds = getQueuedTaskIds(offlineDataRef.current);
+      if (queuedTaskIds.size > 0) {
+        mergedTimers = [
+          ...mergedTimers.filter(timer => !queuedTaskIds.has(timer.taskId)),
+          ...timersRef.current.filter(timer => queuedTaskIds.has(timer.taskId)),
+        ];
       }
 
       setTimers(mergedTimers);
       saveTimersToStorage(mergedTimers);
     } catch (error) {
       console.error('Error loading timers from database:', error);
-      setError(
-        error instanceof Error ? error.message : 'Failed to load timers'
-      );
+      if (!isNetworkError(error)) {
+        setError(
+          error instanceof Error ? error.message : 'Failed to load timers'
+        );
+      }
     } finally {
       setIsLoading(false);
     }
   }, [user]);
 
-  // Update timer in database
-  const updateTimerInDatabase = useCallback(async (timer: LocalTimer) => {
+  // Tell the user about timers a timer limit stopped since they last looked
+  const showAutoStopNotice = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+
     try {
-      const response = await fetch(`/api/time-entries/${timer.id}`, {
-        method: 'PATCH',
+      const response = await fetch('/api/time-entries/auto-stopped');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const entries: {
+        id: string;
+        auto_stop_reason: TimerAutoStopReason;
+        task: { name: string } | null;
+      }[] = data.time_entries || [];
+      if (entries.length === 0) return;
+
+      showTimerNotice(
+        formatTimerAutoStopNotice(
+          entries.map(entry => ({
+            task_name: entry.task?.name ?? null,
+            auto_stop_reason: entry.auto_stop_reason,
+          }))
+        )
+      );
+
+      await fetch('/api/time-entries/auto-stopped', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          duration_seconds: timer.duration, // Duration is already in seconds
-          timer_status: timer.isRunning
-            ? 'running'
-            : timer.isPaused
-              ? 'paused'
-              : 'stopped',
-          end_time: timer.isRunning
-            ? null
-            : timer.isPaused
-              ? undefined
-              : new Date().toISOString(), // Set end_time when stopped
-        }),
+        body: JSON.stringify({ timer_ids: entries.map(entry => entry.id) }),
       });
+    } catch (error) {
+      console.error('Error loading auto-stopped timers:', error);
+    }
+  }, [user, showTimerNotice]);
 
-      if (!response.ok) {
-        const handled = await checkAndHandleUnauthorized(response);
-        if (handled) {
-          throw new Error('Unauthorized');
+  // Update timer in database
+  const updateTimerInDatabase = useCallback(
+    async (
+      timer: LocalTimer
+    ): Promise<{ time_entry: TimeEntry; server_time: string }> => {
+      try {
+        const response = await fetch(`/api/time-entries/${timer.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildTimerUpdatePayload(timer)),
+        });
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) {
+            throw new Error('Unauthorized');
+          }
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(
+            errorData.error || `HTTP ${response.status}: Failed to update timer`
+          );
         }
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.error || `HTTP ${response.status}: Failed to update timer`
-        );
+
+        return await response.json();
+      } catch (error) {
+        console.error(`Failed to update timer ${timer.id}:`, error);
+        throw error;
       }
-    } catch (error) {
-      console.error(`Failed to update timer ${timer.id}:`, error);
-      throw error;
-    }
-  }, []);
+    },
+    []
+  );
 
-  // Sync with database
-  const syncWithDatabase = useCallback(async () => {
-    // Don't sync if user is not authenticated
-    if (!user || timersRef.current.length === 0) return;
+  // Replace a timer's local estimate with the state the server recorded
+  const applyServerTimeEntry = useCallback(
+    (entry: TimeEntry, serverTime: string) => {
+      if (entry.timer_status === 'stopped') return;
+      const updatedTimers = timersRef.current.map(timer =>
+        timer.id === entry.id ? toLocalTimer(entry, serverTime) : timer
+      );
+      timersRef.current = updatedTimers;
+      setTimers(updatedTimers);
+      saveTimersToStorage(updatedTimers);
+    },
+    []
+  );
 
-    try {
-      for (const timer of timersRef.current) {
-        if (timer.isRunning) {
-          if (!isProjectWritableForSyncRef.current(timer.projectId)) {
-            continue;
+  // Writes go through the queue while offline, while earlier writes are still
+  // queued (so replay order is kept), or when the entry only exists locally
+  const shouldQueueWrite = (entryIds: string[] = []): boolean =>
+    !navigator.onLine ||
+    offlineDataRef.current.pending_sync.length > 0 ||
+    entryIds.some(isLocalEntryId);
+
+  // Queue a PATCH of the timer's current state for replay
+  const queueTimerUpdate = useCallback(
+    (timer: LocalTimer, action: OfflineMutationAction) => {
+      updateOfflineData(prev => ({
+        ...prev,
+        pending_sync: [
+          ...prev.pending_sync,
+          {
+            id: crypto.randomUUID(),
+            kind: 'update',
+            action,
+            entry_id: timer.id,
+            task_id: timer.taskId,
+            project_id: timer.projectId,
+            payload: buildTimerUpdatePayload(timer),
+            queued_at: new Date().toISOString(),
+          },
+        ],
+      }));
+    },
+    [updateOfflineData]
+  );
+
+  // Queue a new time entry under a local id and show it right away
+  const addQueuedTimeEntry = useCallback(
+    (
+      taskId: string,
+      projectId: string,
+      action: OfflineMutationAction,
+      payload: TimeEntryCreatePayload
+    ) => {
+      const entryId = createLocalEntryId();
+      updateOfflineData(prev => ({
+        ...prev,
+        pending_sync: [
+          ...prev.pending_sync,
+          {
+            id: crypto.randomUUID(),
+            kind: 'create',
+            action,
+            entry_id: entryId,
+            task_id: taskId,
+            project_id: projectId,
+            payload,
+            queued_at: new Date().toISOString(),
+          },
+        ],
+      }));
+
+      const newTimer: LocalTimer = {
+        id: entryId,
+        taskId,
+        projectId,
+        duration: payload.duration_seconds,
+        isRunning: payload.timer_status === 'running',
+        isPaused: payload.timer_status === 'paused',
+        localStartTime: payload.timer_status === 'running' ? Date.now() : null,
+        lastSyncTime: Date.now(),
+      };
+      const newTimers = [
+        ...timersRef.current.filter(t => t.taskId !== taskId),
+        newTimer,
+      ];
+      timersRef.current = newTimers;
+      setTimers(newTimers);
+      saveTimersToStorage(newTimers);
+      void flushOfflineQueueRef.current();
+    },
+    [updateOfflineData]
+  );
+
+  // Send a timer state change, queueing it when offline or when the request never reaches the server
+  const persistTimerUpdate = useCallback(
+    async (timer: LocalTimer, action: OfflineMutationAction) => {
+      if (!shouldQueueWrite([timer.id])) {
+        try {
+          const { time_entry, server_time } =
+            await updateTimerInDatabase(timer);
+          applyServerTimeEntry(time_entry, server_time);
+          return;
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            throw error;
           }
-          // Calculate current total duration for running timers
-          const currentDuration =
-            timer.isRunning && timer.localStartTime
-              ? timer.duration +
-                Math.floor((Date.now() - timer.localStartTime) / 1000)
-              : timer.duration;
-
-          // Create a timer object with current duration for sync
-          const timerWithCurrentDuration = {
-            ...timer,
-            duration: currentDuration,
-          };
+        }
+      }
+      queueTimerUpdate(timer, action);
+      void flushOfflineQueueRef.current();
+    },
+    [updateTimerInDatabase, applyServerTimeEntry, queueTimerUpdate]
+  );
+
+  // Replay queued offline writes in order, then reconcile with server state
+  const flushOfflineQueue = useCallback(async () => {
+    if (
+      !isSignedInRef.current ||
+      isFlushingRef.current ||
+      !navigator.onLine ||
+      offlineDataRef.current.pending_sync.length === 0
+    ) {
+      return;
+    }
 
-          await updateTimerInDatabase(timerWithCurrentDuration);
+    isFlushingRef.current = true;
+    setIsSyncingOfflineQueue(true);
+    let hadConflicts = false;
+    let halted = false;
+
+    try {
+      // Keep going while writes are queued during the replay
+      while (offlineDataRef.current.pending_sync.length > 0 && !halted) {
+        const result = await replayOfflineQueue(
+          offlineDataRef.current.pending_sync
+        );
+        const settledIds = new Set(result.settledIds);
+
+        updateOfflineData(prev => ({
+          ...prev,
+          pending_sync: prev.pending_sync
+            .filter(mutation => !settledIds.has(mutation.id))
+            .map(mutation => remapOfflineMutation(mutation, result.idMap)),
+          failed_sync: [...prev.failed_sync, ...result.failed],
+          last_sync:
+            settledIds.size > 0 ? new Date().toISOString() : prev.last_sync,
+        }));
+
+        // Swap local ids for the server ids of entries that were created
+        if (Object.keys(result.idMap).length > 0) {
+          const remappedTimers = timersRef.current.map(timer =>
+            result.idMap[timer.id]
+              ? { ...timer, id: result.idMap[timer.id] }
+              : timer
+          );
+          timersRef.current = remappedTimers;
+          setTimers(remappedTimers);
+          saveTimersToStorage(remappedTimers);
         }
+
+        hadConflicts = hadConflicts || result.conflicts.length > 0;
+        halted = result.halted;
       }
-    } catch (error) {
-      console.error('Error syncing with database:', error);
-      setError('Failed to sync with database. Changes are saved locally.');
+    } finally {
+      isFlushingRef.current = false;
+      setIsSyncingOfflineQueue(false);
     }
-  }, [updateTimerInDatabase]);
+
+    if (hadConflicts) {
+      showTimerNotice(OFFLINE_CONFLICT_NOTICE);
+    }
+    if (!halted) {
+      await loadTimersFromDatabase();
+    }
+  }, [updateOfflineData, showTimerNotice, loadTimersFromDatabase]);
+
+  flushOfflineQueueRef.current = flushOfflineQueue;
+
+  // Move failed writes back to the front of the queue and replay them
+  const retryFailedSync = useCallback(async () => {
+    updateOfflineData(prev => ({
+      ...prev,
+      pending_sync: [
+        ...prev.failed_sync.map(failed => failed.mutation),
+        ...prev.pending_sync,
+      ],
+      failed_sync: [],
+    }));
+    await flushOfflineQueue();
+  }, [updateOfflineData, flushOfflineQueue]);
+
+  // Drop failed writes and fall back to server state
+  const discardFailedSync = useCallback(async () => {
+    const discardedEntryIds = new Set(
+      offlineDataRef.current.failed_sync.map(failed => failed.mutation.entry_id)
+    );
+    const isDiscardedLocalEntry = (entryId: string) =>
+      isLocalEntryId(entryId) && discardedEntryIds.has(entryId);
+
+    updateOfflineData(prev => ({
+      ...prev,
+      pending_sync: prev.pending_sync.filter(
+        mutation => !isDiscardedLocalEntry(mutation.entry_id)
+      ),
+      failed_sync: [],
+    }));
+
+    // Entries that never reached the server have nothing to fall back to
+    const remainingTimers = timersRef.current.filter(
+      timer => !isDiscardedLocalEntry(timer.id)
+    );
+    timersRef.current = remainingTimers;
+    setTimers(remainingTimers);
+    saveTimersToStorage(remainingTimers);
+
+    await loadTimersFromDatabase();
+  }, [updateOfflineData, loadTimersFromDatabase]);
+
+  const getSyncStatusForTask = useCallback(
+    (taskId: string): TimerSyncStatus | null => {
+      if (offlineData.failed_sync.some(f => f.mutation.task_id === taskId)) {
+        return 'failed';
+      }
+      if (offlineData.pending_sync.some(m => m.task_id === taskId)) {
+        return 'pending';
+      }
+      return null;
+    },
+    [offlineData]
+  );
+
+  // Sync with database
+  const syncWithDatabase = useCallback(async () => {
+    // Replay queued offline writes (the online event doesn't fire when only the server was unreachable).
+    // Running durations are not pushed: the server derives them when a timer pauses or stops.
+    await flushOfflineQueueRef.current();
+  }, []);
 
   // Refresh timer for specific task
   const refreshTimerForTask = useCallback(async (taskId: string) => {
+    // Local state is authoritative until the task's queued writes have synced
+    if (getQueuedTaskIds(offlineDataRef.current).has(taskId)) {
+      return;
+    }
+
     try {
       // Fetch time entries for this task
       const response = await fetch(`/api/time-entries?task_id=${taskId}`);
@@ -513,19 +858,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
             timer => timer.taskId !== taskId
           );
 
-          const updatedTimer: LocalTimer = {
-            id: timeEntry.id,
-            taskId: timeEntry.task_id,
-            projectId: timeEntry.project_id,
-            duration: timeEntry.duration_seconds || 0,
-            isRunning: timeEntry.timer_status === 'running',
-            isPaused: timeEntry.timer_status === 'paused',
-            localStartTime:
-              timeEntry.timer_status === 'running' ? Date.now() : null,
-            lastSyncTime: Date.now(),
-          };
-
-          return [...updatedTimers, updatedTimer];
+          return [...updatedTimers, toLocalTimer(timeEntry, data.server_time)];
         });
       } else {
         // No running/paused entry exists, remove from local state
@@ -535,10 +868,67 @@ export function useTimeTracker(): UseTimeTrackerReturn {
       }
     } catch (error) {
       console.error('Error refreshing timer for task:', error);
-      setError('Failed to refresh timer data');
+      if (!isNetworkError(error)) {
+        setError('Failed to refresh timer data');
+      }
     }
   }, []);
 
+  // Start a timer under a local id; its create is replayed when back online
+  const startTimerOffline = (taskId: string, projectId: string) => {
+    addQueuedTimeEntry(taskId, projectId, 'start', {
+      start_time: new Date().toISOString(),
+      duration_seconds: 0,
+      timer_status: 'running',
+    });
+    setError(null);
+  };
+
+  // Create a paused manual entry
+  const createTimeEntry = useCallback(
+    async (
+      taskId: string,
+      projectId: string,
+      entry: { durationSeconds: number; description?: string | null }
+    ): Promise<void> => {
+      const payload: TimeEntryCreatePayload = {
+        start_time: null,
+        duration_seconds: entry.durationSeconds,
+        timer_status: 'paused',
+        description: entry.description ?? null,
+      };
+
+      if (!shouldQueueWrite()) {
+        try {
+          const response = await fetch('/api/time-entries', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ task_id: taskId, ...payload }),
+          });
+
+          if (!response.ok) {
+            const handled = await checkAndHandleUnauthorized(response);
+            if (handled) {
+              return; // User will be redirected
+            }
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error ?? 'Failed to create time entry');
+          }
+
+          await refreshTimerForTask(taskId);
+          return;
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            throw error;
+          }
+        }
+      }
+
+      addQueuedTimeEntry(taskId, projectId, 'create', payload);
+    },
+    [addQueuedTimeEntry, refreshTimerForTask]
+  );
+
   // Start timer
   const startTimer = useCallback(
     async (taskId: string, projectId: string): Promise<boolean> => {
@@ -572,6 +962,11 @@ export function useTimeTracker(): UseTimeTrackerReturn {
           return await resumeTimer(taskId);
         }
 
+        if (shouldQueueWrite()) {
+          startTimerOffline(taskId, projectId);
+          return true;
+        }
+
         // Create new timer
         const response = await fetch('/api/time-entries', {
           method: 'POST',
@@ -605,16 +1000,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         }
 
         const data = await response.json();
-        const newTimer: LocalTimer = {
-          id: data.time_entry.id,
-          taskId,
-          projectId,
-          duration: 0,
-          isRunning: true,
-          isPaused: false,
-          localStartTime: Date.now(),
-          lastSyncTime: Date.now(),
-        };
+        const newTimer = toLocalTimer(data.time_entry, data.server_time);
 
         const newTimers = [...timersRef.current, newTimer];
         setTimers(newTimers);
@@ -622,6 +1008,10 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         setError(null);
         return true;
       } catch (error) {
+        if (isNetworkError(error)) {
+          startTimerOffline(taskId, projectId);
+          return true;
+        }
         console.error('Error starting timer:', error);
         setError(
           error instanceof Error ? error.message : 'Failed to start timer'
@@ -644,7 +1034,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         const timer = getTimerForTask(taskId);
         if (!timer) return false;
 
-        // Calculate current duration by adding elapsed time
+        // Show the estimated duration until the server's value arrives
         const currentDuration =
           timer.isRunning && timer.localStartTime
             ? timer.duration +
@@ -666,8 +1056,8 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         setTimers(updatedTimers);
         saveTimersToStorage(updatedTimers); // Save immediately for state changes
 
-        // Update in database immediately
-        await updateTimerInDatabase(updatedTimer);
+        // Update in database immediately (queued when offline)
+        await persistTimerUpdate(updatedTimer, 'pause');
 
         setError(null);
         return true;
@@ -682,6 +1072,33 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     [timers]
   );
 
+  // Apply pauses locally and queue them for replay
+  const pauseTimersOffline = (timerIds: string[]) => {
+    const idSet = new Set(timerIds);
+    const updatedTimers = timersRef.current.map(timer => {
+      if (!idSet.has(timer.id)) return timer;
+      const pausedTimer: LocalTimer = {
+        ...timer,
+        duration:
+          timer.isRunning && timer.localStartTime
+            ? timer.duration +
+              Math.floor((Date.now() - timer.localStartTime) / 1000)
+            : timer.duration,
+        isRunning: false,
+        isPaused: true,
+        localStartTime: null,
+        lastSyncTime: Date.now(),
+      };
+      queueTimerUpdate(pausedTimer, 'pause');
+      return pausedTimer;
+    });
+    timersRef.current = updatedTimers;
+    setTimers(updatedTimers);
+    saveTimersToStorage(updatedTimers);
+    setError(null);
+    void flushOfflineQueueRef.current();
+  };
+
   // Pause all timers
   const pauseAllTimers = useCallback(
     async (timerIds: string[]): Promise<boolean> => {
@@ -691,42 +1108,27 @@ export function useTimeTracker(): UseTimeTrackerReturn {
       }
 
       try {
-        // Pre-calculate durations using EXACT same logic as individual pause
-        const updates = timerIds
-          .map(timerId => {
-            // Find timer by ID (not taskId)
-            const timer = timers.find(t => t.id === timerId);
-            if (!timer) return null;
-
-            // Use IDENTICAL duration calculation as individual pause
-            const currentDuration =
-              timer.isRunning && timer.localStartTime
-                ? timer.duration +
-                  Math.floor((Date.now() - timer.localStartTime) / 1000)
-                : timer.duration;
-
-            return {
-              id: timerId,
-              duration_seconds: currentDuration,
-              timer_status: 'paused',
-              end_time: undefined, // Keep null for paused timers (same as individual pause)
-              updated_at: new Date().toISOString(),
-            };
-          })
-          .filter(Boolean); // Remove null entries
-
-        if (updates.length === 0) {
+        const validIds = timerIds.filter(timerId =>
+          timers.some(t => t.id === timerId)
+        );
+
+        if (validIds.length === 0) {
           setError('No valid timers to pause');
           return false;
         }
 
-        // Call the batch API
+        if (shouldQueueWrite(timerIds)) {
+          pauseTimersOffline(timerIds);
+          return true;
+        }
+
+        // Call the batch API (the server records each timer's duration)
         const response = await fetch('/api/time-entries/pause-all', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ updates }),
+          body: JSON.stringify({ timer_ids: validIds }),
         });
 
         if (!response.ok) {
@@ -745,6 +1147,10 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         setError(null);
         return true;
       } catch (error) {
+        if (isNetworkError(error)) {
+          pauseTimersOffline(timerIds);
+          return true;
+        }
         console.error('Error pausing all timers:', error);
         setError(
           error instanceof Error ? error.message : 'Failed to pause timers'
@@ -755,17 +1161,99 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     [timers, loadTimersFromDatabase]
   );
 
-  type StopBatchUpdate = {
-    id: string;
-    duration_seconds: number;
-    timer_status: 'stopped';
-    end_time: string;
-    updated_at: string;
+  const removeIdleTime = useCallback(
+    async (
+      period: IdlePeriod,
+      action: Exclude<IdleTimeAction, 'keep'>
+    ): Promise<number | null> => {
+      const timerIds = timersRef.current
+        .filter(timer => timer.isRunning)
+        .map(timer => timer.id);
+      if (timerIds.length === 0) return 0;
+
+      // Idle time is cut from the server's open segments, so it cannot be queued
+      if (shouldQueueWrite(timerIds)) {
+        setErrorWithTimeout('Reconnect to remove idle time from your timers');
+        return null;
+      }
+
+      try {
+        const response = await fetch('/api/time-entries/idle', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            timer_ids: timerIds,
+            idle_from: new Date(period.from).toISOString(),
+            idle_until: new Date(period.until).toISOString(),
+            action,
+          }),
+        });
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) {
+            return null; // User will be redirected
+          }
+          const errorData = await response.json();
+          setError(errorData.error || 'Failed to remove idle time');
+          return null;
+        }
+
+        const data = await response.json();
+        // Refresh all timers from database to get updated state
+        await loadTimersFromDatabase();
+
+        setError(null);
+        return data.idle_seconds ?? 0;
+      } catch (error) {
+        console.error('Error removing idle time:', error);
+        setErrorWithTimeout(
+          isNetworkError(error)
+            ? 'Reconnect to remove idle time from your timers'
+            : error instanceof Error
+              ? error.message
+              : 'Failed to remove idle time'
+        );
+        return null;
+      }
+    },
+    [loadTimersFromDatabase]
+  );
+
+  // Remove stopped timers locally and queue the stops for replay
+  const stopTimersOffline = (timersToStop: LocalTimer[]) => {
+    const stopIds = new Set(timersToStop.map(timer => timer.id));
+    for (const timer of timersRef.current) {
+      if (!stopIds.has(timer.id)) continue;
+      queueTimerUpdate(
+        {
+          ...timer,
+          isRunning: false,
+          isPaused: false,
+          localStartTime: null,
+          lastSyncTime: Date.now(),
+        },
+        'stop'
+      );
+    }
+    const remainingTimers = timersRef.current.filter(
+      timer => !stopIds.has(timer.id)
+    );
+    timersRef.current = remainingTimers;
+    setTimers(remainingTimers);
+    saveTimersToStorage(remainingTimers);
+    setError(null);
+    void flushOfflineQueueRef.current();
   };
 
   const stopTimerBatch = useCallback(
-    async (updates: StopBatchUpdate[]): Promise<boolean> => {
-      if (updates.length === 0) {
+    async (timersToStop: LocalTimer[]): Promise<boolean> => {
+      if (timersToStop.length === 0) {
+        return true;
+      }
+      const timerIds = timersToStop.map(timer => timer.id);
+      if (shouldQueueWrite(timerIds)) {
+        stopTimersOffline(timersToStop);
         return true;
       }
       try {
@@ -774,7 +1262,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ updates }),
+          body: JSON.stringify({ timer_ids: timerIds }),
         });
 
         if (!response.ok) {
@@ -791,6 +1279,10 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         setError(null);
         return true;
       } catch (error) {
+        if (isNetworkError(error)) {
+          stopTimersOffline(timersToStop);
+          return true;
+        }
         console.error('Error stopping timers batch:', error);
         setError(
           error instanceof Error ? error.message : 'Failed to stop timers'
@@ -801,25 +1293,6 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     [loadTimersFromDatabase]
   );
 
-  const buildStopUpdatesForTimers = (
-    activeTimers: LocalTimer[]
-  ): StopBatchUpdate[] =>
-    activeTimers.map(timer => {
-      const finalDuration =
-        timer.isRunning && timer.localStartTime
-          ? timer.duration +
-            Math.floor((Date.now() - timer.localStartTime) / 1000)
-          : timer.duration;
-
-      return {
-        id: timer.id,
-        duration_seconds: finalDuration,
-        timer_status: 'stopped' as const,
-        end_time: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-    });
-
   const stopTimersForEntryIds = useCallback(
     async (entryIds: string[]): Promise<boolean> => {
       if (entryIds.length === 0) {
@@ -842,8 +1315,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
           return true;
         }
 
-        const updates = buildStopUpdatesForTimers(toStop);
-        return stopTimerBatch(updates);
+        return stopTimerBatch(toStop);
       } catch (error) {
         console.error('Error stopping timers for entry ids:', error);
         setError(
@@ -867,13 +1339,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
           return true;
         }
 
-        const updates = buildStopUpdatesForTimers(activeTimers);
-        if (updates.length === 0) {
-          setError('No valid timers to stop');
-          return false;
-        }
-
-        return stopTimerBatch(updates);
+        return stopTimerBatch(activeTimers);
       } catch (error) {
         console.error('Error stopping all timers:', error);
         setError(
@@ -914,14 +1380,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
       }
 
       if (!cancelled && anySuccess) {
-        if (timerNoticeTimeoutRef.current) {
-          clearTimeout(timerNoticeTimeoutRef.current);
-        }
-        setTimerNotice(READ_ONLY_ENFORCEMENT_NOTICE);
-        timerNoticeTimeoutRef.current = setTimeout(() => {
-          setTimerNotice(null);
-          timerNoticeTimeoutRef.current = null;
-        }, 10000);
+        showTimerNotice(READ_ONLY_ENFORCEMENT_NOTICE);
       }
     })();
 
@@ -974,8 +1433,8 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         setTimers(updatedTimers);
         saveTimersToStorage(updatedTimers); // Save immediately for state changes
 
-        // Update in database immediately
-        await updateTimerInDatabase(updatedTimer);
+        // Update in database immediately (queued when offline)
+        await persistTimerUpdate(updatedTimer, 'resume');
 
         setError(null);
         return true;
@@ -1002,23 +1461,18 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         const timer = getTimerForTask(taskId);
         if (!timer) return false;
 
-        // Calculate final duration by adding elapsed time
-        const finalDuration =
-          timer.isRunning && timer.localStartTime
-            ? timer.duration +
-              Math.floor((Date.now() - timer.localStartTime) / 1000)
-            : timer.duration;
-
-        // Update existing time_entry to 'stopped' status with final duration
-        // This preserves the record for invoice generation
-        await updateTimerInDatabase({
-          ...timer,
-          duration: finalDuration,
-          isRunning: false,
-          isPaused: false,
-          localStartTime: null,
-          lastSyncTime: Date.now(),
-        });
+        // Update existing time_entry to 'stopped'; the server records the final duration
+        // This preserves the record for invoice generation (queued when offline)
+        await persistTimerUpdate(
+          {
+            ...timer,
+            isRunning: false,
+            isPaused: false,
+            localStartTime: null,
+            lastSyncTime: Date.now(),
+          },
+          'stop'
+        );
 
         // Remove timer from local state (stopped timers are not shown in UI)
         // A new timer entry will be created when user starts a new timer
@@ -1038,7 +1492,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         return false;
       }
     },
-    [timers, updateTimerInDatabase]
+    [timers, persistTimerUpdate]
   );
 
   // Get timer for specific task
@@ -1056,20 +1510,38 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         const timer = getTimerForTask(taskId);
         if (!timer) return false;
 
-        // Delete from database
-        const response = await fetch(`/api/time-entries/${timer.id}`, {
-          method: 'DELETE',
-        });
+        if (!isLocalEntryId(timer.id)) {
+          if (!navigator.onLine) {
+            setErrorWithTimeout('Clearing a timer needs a connection');
+            return false;
+          }
 
-        if (!response.ok) {
-          const handled = await checkAndHandleUnauthorized(response);
-          if (handled) {
-            return false; // User will be redirected
+          // Delete from database
+          const response = await fetch(`/api/time-entries/${timer.id}`, {
+            method: 'DELETE',
+          });
+
+          if (!response.ok) {
+            const handled = await checkAndHandleUnauthorized(response);
+            if (handled) {
+              return false; // User will be redirected
+            }
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to clear timer');
           }
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to clear timer');
         }
 
+        // Drop queued writes for the entry (for a local entry, that includes its create)
+        updateOfflineData(prev => ({
+          ...prev,
+          pending_sync: prev.pending_sync.filter(
+            mutation => mutation.entry_id !== timer.id
+          ),
+          failed_sync: prev.failed_sync.filter(
+            failed => failed.mutation.entry_id !== timer.id
+          ),
+        }));
+
         // Remove from local state
         const updatedTimers = timersRef.current.filter(
           t => t.taskId !== taskId
@@ -1087,7 +1559,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
         return false;
       }
     },
-    [getTimerForTask]
+    [getTimerForTask, updateOfflineData]
   );
 
   // Check if timer can be started
@@ -1174,6 +1646,7 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     pauseTimer,
     pauseAllTimers,
     stopAllTimers,
+    removeIdleTime,
     resumeTimer,
     stopTimer,
     resetTimer,
@@ -1190,6 +1663,15 @@ export function useTimeTracker(): UseTimeTrackerReturn {
     loadTimersFromDatabase,
     refreshTimerForTask,
     stopTimersForEntryIds,
+    createTimeEntry,
+
+    // Offline sync
+    offlineData,
+    isSyncingOfflineQueue,
+    getSyncStatusForTask,
+    flushOfflineQueue,
+    retryFailedSync,
+    discardFailedSync,
 
     // Utility functions
     formatDuration,
@@ -1,6 +1,7 @@
 import { useCallback } from 'react';
 
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
+import { TimerSyncStatus } from '@/lib/offline-queue';
 
 import { LocalTimer } from './useTimeTracker';
 
@@ -11,6 +12,7 @@ export interface TimerActions {
   canResume: boolean;
   canPause: boolean;
   canStop: boolean;
+  syncStatus: TimerSyncStatus | null;
   startTimer: () => Promise<void>;
   pauseTimer: () => Promise<void>;
   resumeTimer: () => Promise<void>;
@@ -34,6 +36,7 @@ export function useTimerActions(
     stopTimer,
     resetTimer,
     getTotalDuration,
+    getSyncStatusForTask,
   } = useTimeTrackingContext();
 
   const timer = getTimerForTask(taskId);
@@ -66,6 +69,7 @@ export function useTimerActions(
     canResume: canResumeTimer(taskId),
     canPause: canPauseTimer(taskId),
     canStop: canStopTimer(taskId),
+    syncStatus: getSyncStatusForTask(taskId),
     startTimer: handleStartTimer,
     pauseTimer: handlePauseTimer,
     resumeTimer: handleResumeTimer,
@@ -1,6 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { useAuth } from '@/contexts/auth-context';
+import { useUser } from '@/hooks/useUser';
+import {
+  getBrowserTimeZone,
+  getCurrentPeriods,
+  getDateSettings,
+} from '@/lib/time-zones';
 
 interface WorkSession {
   id: string;
@@ -8,6 +14,7 @@ interface WorkSession {
   start_time: string;
   end_time: string | null;
   duration_seconds: number;
+  idle_seconds: number; // discarded idle time, not counted in duration_seconds
   status: 'active' | 'completed';
   created_at: string;
   updated_at: string;
@@ -25,6 +32,7 @@ interface UseWorkSessionReturn {
   startWorkSession: () => Promise<boolean>;
   endWorkSession: () => Promise<boolean>;
   updateSessionDuration: (duration: number) => Promise<boolean>;
+  excludeIdleTime: (seconds: number) => Promise<boolean>;
   // Stats functionality
   stats: WorkSessionStats;
   statsLoading: boolean;
@@ -32,8 +40,20 @@ interface UseWorkSessionReturn {
   refreshStats: () => Promise<void>;
 }
 
+// Seconds worked in a session up to `at`, without its discarded idle time
+function getWorkSessionDuration(
+  session: Pick<WorkSession, 'start_time' | 'idle_seconds'>,
+  at: number = Date.now()
+): number {
+  const elapsed = Math.floor(
+    (at - new Date(session.start_time).getTime()) / 1000
+  );
+  return Math.max(0, elapsed - (session.idle_seconds || 0));
+}
+
 export function useWorkSession(): UseWorkSessionReturn {
   const { user } = useAuth();
+  const { user: userProfile } = useUser();
   const [currentSession, setCurrentSession] = useState<WorkSession | null>(
     null
   );
@@ -151,6 +171,48 @@ export function useWorkSession(): UseWorkSessionReturn {
     [currentSession]
   );
 
+  // Keep time discarded from the timers (idle detection) out of the session
+  const excludeIdleTime = useCallback(
+    async (seconds: number): Promise<boolean> => {
+      if (!currentSession || seconds <= 0) return false;
+
+      const idleSeconds = (currentSession.idle_seconds || 0) + seconds;
+      try {
+        const response = await fetch(
+          `/api/work-sessions/${currentSession.id}`,
+          {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              idle_seconds: idleSeconds,
+              duration_seconds: getWorkSessionDuration({
+                start_time: currentSession.start_time,
+                idle_seconds: idleSeconds,
+              }),
+            }),
+          }
+        );
+
+        if (!response.ok) {
+          // Handle authentication errors gracefully during sign out
+          if (response.status === 401) {
+            return false;
+          }
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to update idle time');
+        }
+
+        const data = await response.json();
+        setCurrentSession(data.work_session);
+        return true;
+      } catch (err) {
+        console.error('Error excluding idle time:', err);
+        return false;
+      }
+    },
+    [currentSession]
+  );
+
   const startDurationUpdate = useCallback(() => {
     if (updateIntervalRef.current) {
       clearInterval(updateIntervalRef.current);
@@ -158,9 +220,7 @@ export function useWorkSession(): UseWorkSessionReturn {
 
     updateIntervalRef.current = setInterval(async () => {
       if (currentSession) {
-        const startTime = new Date(currentSession.start_time);
-        const duration = Math.floor((Date.now() - startTime.getTime()) / 1000);
-        await updateSessionDuration(duration);
+        await updateSessionDuration(getWorkSessionDuration(currentSession));
       }
     }, 60000); // Update every minute
   }, [currentSession, updateSessionDuration]);
@@ -176,20 +236,11 @@ export function useWorkSession(): UseWorkSessionReturn {
       setStatsLoading(true);
       setStatsError(null);
 
-      // Get today's date range
-      const today = new Date();
-      const startOfToday = new Date(today);
-      startOfToday.setHours(0, 0, 0, 0);
-      const endOfToday = new Date(today);
-      endOfToday.setHours(23, 59, 59, 999);
-
-      // Get this week's date range
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay()); // Start of week (Sunday)
-      startOfWeek.setHours(0, 0, 0, 0);
-      const endOfWeek = new Date(today);
-      endOfWeek.setDate(today.getDate() + (6 - today.getDay())); // End of week (Saturday)
-      endOfWeek.setHours(23, 59, 59, 999);
+      // Today and this week in the user's time zone, from their week start
+      const { today, week } = getCurrentPeriods(
+        new Date(),
+        getDateSettings(userProfile, getBrowserTimeZone())
+      );
 
       // Fetch all work sessions (we'll filter client-side for efficiency)
       const response = await fetch('/api/work-sessions');
@@ -211,7 +262,7 @@ export function useWorkSession(): UseWorkSessionReturn {
         .filter((session: { status: string; start_time: string }) => {
           if (session.status !== 'completed') return false;
           const sessionDate = new Date(session.start_time);
-          return sessionDate >= startOfToday && sessionDate <= endOfToday;
+          return sessionDate >= today.start && sessionDate <= today.end;
         })
         .reduce(
           (total: number, session: { duration_seconds?: number }) =>
@@ -224,7 +275,7 @@ export function useWorkSession(): UseWorkSessionReturn {
         .filter((session: { status: string; start_time: string }) => {
           if (session.status !== 'completed') return false;
           const sessionDate = new Date(session.start_time);
-          return sessionDate >= startOfWeek && sessionDate <= endOfWeek;
+          return sessionDate >= week.start && sessionDate <= week.end;
         })
         .reduce(
           (total: number, session: { duration_seconds?: number }) =>
@@ -244,7 +295,7 @@ export function useWorkSession(): UseWorkSessionReturn {
     } finally {
       setStatsLoading(false);
     }
-  }, [user]);
+  }, [user, userProfile]);
 
   const startWorkSession = useCallback(async (): Promise<boolean> => {
     try {
@@ -288,8 +339,7 @@ export function useWorkSession(): UseWorkSessionReturn {
       setError(null);
 
       const endTime = new Date().toISOString();
-      const startTime = new Date(currentSession.start_time);
-      const duration = Math.floor((Date.now() - startTime.getTime()) / 1000);
+      const duration = getWorkSessionDuration(currentSession);
 
       const response = await fetch(`/api/work-sessions/${currentSession.id}`, {
         method: 'PATCH',
@@ -345,6 +395,7 @@ export function useWorkSession(): UseWorkSessionReturn {
     startWorkSession,
     endWorkSession,
     updateSessionDuration,
+    excludeIdleTime,
     // Stats functionality
     stats,
     statsLoading,
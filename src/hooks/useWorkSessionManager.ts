@@ -1,12 +1,46 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 
 import { useTimeTrackingContext } from '@/contexts/time-tracking-context';
 import { useWorkSessionContext } from '@/contexts/work-session-context';
+import { useIdleDetection } from '@/hooks/useIdleDetection';
+import { useUser } from '@/hooks/useUser';
+import {
+  DEFAULT_IDLE_TIMEOUT_MINUTES,
+  IdlePeriod,
+  IdleTimeAction,
+} from '@/lib/idle-detection';
 
-export function useWorkSessionManager(): void {
-  const { activeTimers } = useTimeTrackingContext();
-  const { currentSession, isLoading, startWorkSession, endWorkSession } =
-    useWorkSessionContext();
+interface UseWorkSessionManagerReturn {
+  /** Time away while timers were running, waiting for the user to resolve it */
+  idlePeriod: IdlePeriod | null;
+  isResolvingIdle: boolean;
+  idleError: string | null;
+  resolveIdlePeriod: (action: IdleTimeAction) => Promise<void>;
+}
+
+export function useWorkSessionManager(): UseWorkSessionManagerReturn {
+  const { activeTimers, removeIdleTime } = useTimeTrackingContext();
+  const {
+    currentSession,
+    isLoading,
+    startWorkSession,
+    endWorkSession,
+    excludeIdleTime,
+  } = useWorkSessionContext();
+  const { user: userProfile } = useUser();
+  const [isResolvingIdle, setIsResolvingIdle] = useState(false);
+  const [idleError, setIdleError] = useState<string | null>(null);
+
+  // Off until the profile loads; profiles without the setting use the default
+  const idleTimeoutMinutes = userProfile
+    ? userProfile.idle_timeout_minutes === undefined
+      ? DEFAULT_IDLE_TIMEOUT_MINUTES
+      : userProfile.idle_timeout_minutes
+    : null;
+  const { idlePeriod, clearIdlePeriod } = useIdleDetection(
+    idleTimeoutMinutes,
+    activeTimers.length > 0
+  );
 
   // Track timer state changes and manage work sessions
   useEffect(() => {
@@ -44,4 +78,36 @@ export function useWorkSessionManager(): void {
     startWorkSession,
     endWorkSession,
   ]);
+
+  // Apply the user's choice for an idle period to the timers; time discarded
+  // from them is kept out of the work session too
+  const resolveIdlePeriod = useCallback(
+    async (action: IdleTimeAction) => {
+      if (!idlePeriod) return;
+      if (action === 'keep') {
+        setIdleError(null);
+        clearIdlePeriod();
+        return;
+      }
+
+      setIsResolvingIdle(true);
+      setIdleError(null);
+      try {
+        const removedSeconds = await removeIdleTime(idlePeriod, action);
+        if (removedSeconds === null) {
+          setIdleError('Failed to remove idle time. Try again or keep it.');
+          return;
+        }
+        if (action === 'discard' && removedSeconds > 0) {
+          await excludeIdleTime(removedSeconds);
+        }
+        clearIdlePeriod();
+      } finally {
+        setIsResolvingIdle(false);
+      }
+    },
+    [idlePeriod, clearIdlePeriod, removeIdleTime, excludeIdleTime]
+  );
+
+  return { idlePeriod, isResolvingIdle, idleError, resolveIdlePeriod };
 }
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import { WorkspaceWithRole } from '@/types';
+
+interface UseWorkspacesReturn {
+  workspaces: WorkspaceWithRole[];
+  activeWorkspace: WorkspaceWithRole | null;
+  loading: boolean;
+  error: string | null;
+  refreshWorkspaces: () => Promise<void>;
+  createWorkspace: (name: string) => Promise<WorkspaceWithRole | null>;
+  switchWorkspace: (workspaceId: string) => Promise<boolean>;
+}
+
+export function useWorkspaces(): UseWorkspacesReturn {
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/workspaces');
+      const data = await response.json();
+
+      if (!response.ok) {
+        const handled = await checkAndHandleUnauthorized(response);
+        if (handled) return;
+        throw new Error(data.error || 'Failed to fetch workspaces');
+      }
+
+      setWorkspaces(data.workspaces || []);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch workspaces';
+      setError(errorMessage);
+      console.error('Error fetching workspaces:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createWorkspace = useCallback(
+    async (name: string): Promise<WorkspaceWithRole | null> => {
+      try {
+        setError(null);
+
+        const response = await fetch('/api/workspaces', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) return null;
+          throw new Error(data.error || 'Failed to create workspace');
+        }
+
+        setWorkspaces(current => [...current, data.workspace]);
+        return data.workspace;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : 'Failed to create workspace';
+        setError(errorMessage);
+        console.error('Error creating workspace:', err);
+        return null;
+      }
+    },
+    []
+  );
+
+  // Lists across the app are scoped to the active workspace, so callers
+  // reload the page after switching
+  const switchWorkspace = useCallback(
+    async (workspaceId: string): Promise<boolean> => {
+      try {
+        setError(null);
+
+        const response = await fetch(
+          `/api/workspaces/${workspaceId}/activate`,
+          { method: 'POST' }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          const handled = await checkAndHandleUnauthorized(response);
+          if (handled) return false;
+          throw new Error(data.error || 'Failed to switch workspace');
+        }
+
+        setWorkspaces(current =>
+          current.map(workspace => ({
+            ...workspace,
+            is_active: workspace.id === workspaceId,
+          }))
+        );
+        return true;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : 'Failed to switch workspace';
+        setError(errorMessage);
+        console.error('Error switching workspace:', err);
+        return false;
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  return {
+    workspaces,
+    activeWorkspace: workspaces.find(workspace => workspace.is_active) ?? null,
+    loading,
+    error,
+    refreshWorkspaces: fetchWorkspaces,
+    createWorkspace,
+    switchWorkspace,
+  };
+}
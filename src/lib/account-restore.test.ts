@@ -0,0 +1,384 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+
+import {
+  AccountExportData,
+  AccountRestoreContext,
+  planAccountRestore,
+  readAccountExport,
+} from '@/lib/account-restore';
+import { EXPORT_SCHEMA_VERSION } from '@/lib/data-export';
+import { FREE_TIER_MAX_ACTIVE_PROJECTS } from '@/lib/subscription-enforcement';
+
+const encode = (value: unknown) =>
+  new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer;
+
+async function zipOf(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+function exportData(
+  tables: Partial<AccountExportData['tables']>,
+  user: AccountExportData['user'] = null
+): AccountExportData {
+  return {
+    user,
+    tables: {
+      projects: [],
+      tasks: [],
+      time_entries: [],
+      time_entry_segments: [],
+      focus_intervals: [],
+      work_sessions: [],
+      invoices: [],
+      invoice_items: [],
+      invoice_payments: [],
+      ...tables,
+    },
+    hasActivityLog: false,
+  };
+}
+
+const context: AccountRestoreContext = {
+  userId: 'new-user',
+  tier: 'pro',
+  projects: [],
+  activeProjectCount: 0,
+  invoiceNumbers: [],
+  now: new Date('2025-01-01T12:00:00.000Z'),
+};
+
+const project = {
+  id: 'p1',
+  name: 'Website',
+  rate_type: 'hourly',
+  price: 50,
+  currency_code: 'USD',
+  status: 'in_progress',
+};
+
+describe('readAccountExport', () => {
+  it('reads the JSON files of an export ZIP', async () => {
+    const result = await readAccountExport(
+      await zipOf({
+        'export/manifest.json': JSON.stringify({
+          schema_version: EXPORT_SCHEMA_VERSION,
+        }),
+        'export/json/projects.json': JSON.stringify([project]),
+        'export/json/user.json': JSON.stringify({ id: 'old-user' }),
+      })
+    );
+    expect(result).toMatchObject({
+      data: {
+        user: { id: 'old-user' },
+        tables: { projects: [project], tasks: [] },
+        hasActivityLog: false,
+      },
+    });
+  });
+
+  it('falls back to the CSV copies', async () => {
+    const result = await readAccountExport(
+      await zipOf({
+        'csv/projects.csv':
+          'id,name,rate_type,price,currency_code,description\np1,Website,hourly,50,USD,\n',
+        'csv/user_activity_log.csv': 'id\n',
+      })
+    );
+    expect(result).toMatchObject({
+      data: {
+        tables: {
+          projects: [
+            {
+              id: 'p1',
+              name: 'Website',
+              price: '50',
+              description: null,
+            },
+          ],
+        },
+        hasActivityLog: true,
+      },
+    });
+  });
+
+  it('reads the single JSON document', async () => {
+    const result = await readAccountExport(
+      encode({
+        schema_version: EXPORT_SCHEMA_VERSION,
+        user: { id: 'old-user' },
+        projects: [
+          {
+            ...project,
+            tasks: [
+              {
+                id: 't1',
+                project_id: 'p1',
+                time_entries: [
+                  { id: 'e1', task_id: 't1', segments: [{ id: 's1' }] },
+                ],
+              },
+            ],
+          },
+        ],
+        invoices: [{ id: 'i1', items: [{ id: 'ii1' }], payments: [] }],
+      })
+    );
+    if ('error' in result) throw new Error(result.error);
+    expect(result.data.tables.tasks.map(row => row.id)).toEqual(['t1']);
+    expect(result.data.tables.time_entries.map(row => row.id)).toEqual(['e1']);
+    expect(result.data.tables.time_entry_segments).toEqual([{ id: 's1' }]);
+    expect(result.data.tables.invoice_items).toEqual([{ id: 'ii1' }]);
+  });
+
+  it('refuses files that are not an export', async () => {
+    expect(await readAccountExport(encode({ hello: 'world' }))).toEqual({
+      error: 'This is not an Orasan export: it has no projects',
+    });
+    expect(
+      await readAccountExport(new TextEncoder().encode('not json').buffer)
+    ).toEqual({ error: 'The file is not an export ZIP or JSON document' });
+    expect(
+      await readAccountExport(await zipOf({ 'readme.txt': 'hello' }))
+    ).toMatchObject({ error: expect.stringContaining('no projects.json') });
+  });
+
+  it('refuses exports from a newer schema', async () => {
+    const version = EXPORT_SCHEMA_VERSION + 1;
+    expect(
+      await readAccountExport(
+        await zipOf({
+          'manifest.json': JSON.stringify({ schema_version: version }),
+          'json/projects.json': '[]',
+        })
+      )
+    ).toMatchObject({ error: expect.stringContaining(`version ${version}`) });
+  });
+
+  it('reports a table file it cannot parse', async () => {
+    expect(
+      await readAccountExport(
+        await zipOf({
+          'json/projects.json': '[]',
+          'json/tasks.json': '{ broken',
+        })
+      )
+    ).toEqual({ error: 'tasks.json could not be read' });
+  });
+});
+
+describe('planAccountRestore', () => {
+  it('gives every row a new id and rewrites references', () => {
+    const plan = planAccountRestore(
+      exportData(
+        {
+          projects: [project],
+          tasks: [{ id: 't1', project_id: 'p1', assignee: 'old-user' }],
+          time_entries: [
+            {
+              id: 'e1',
+              task_id: 't1',
+              project_id: 'p1',
+              timer_status: 'stopped',
+              duration_seconds: 600,
+            },
+          ],
+          time_entry_segments: [
+            {
+              id: 's1',
+              time_entry_id: 'e1',
+              started_at: '2025-01-01T10:00:00.000Z',
+              ended_at: '2025-01-01T10:10:00.000Z',
+            },
+          ],
+        },
+        { id: 'old-user' }
+      ),
+      context
+    );
+
+    const [newProject] = plan.payload.projects;
+    const [task] = plan.payload.tasks;
+    const [entry] = plan.payload.time_entries;
+    const [segment] = plan.payload.time_entry_segments;
+    expect(newProject.id).not.toBe('p1');
+    expect(task).toMatchObject({
+      project_id: newProject.id,
+      user_id: 'new-user',
+      assignee: 'new-user',
+    });
+    expect(entry).toMatchObject({
+      task_id: task.id,
+      project_id: newProject.id,
+    });
+    expect(segment.time_entry_id).toBe(entry.id);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.counts).toMatchObject({
+      projects: 1,
+      tasks: 1,
+      time_entries: 1,
+      time_entry_segments: 1,
+    });
+  });
+
+  it('pauses running timers and leaves out unfinished work', () => {
+    const plan = planAccountRestore(
+      exportData({
+        projects: [project],
+        tasks: [{ id: 't1', project_id: 'p1' }],
+        time_entries: [
+          {
+            id: 'e1',
+            task_id: 't1',
+            project_id: 'p1',
+            timer_status: 'running',
+            running_since: '2025-01-01T11:00:00.000Z',
+          },
+        ],
+        time_entry_segments: [
+          {
+            id: 's1',
+            time_entry_id: 'e1',
+            started_at: '2025-01-01T11:00:00.000Z',
+            ended_at: null,
+          },
+        ],
+        work_sessions: [{ id: 'w1', status: 'active' }],
+      }),
+      context
+    );
+
+    expect(plan.payload.time_entries[0]).toMatchObject({
+      timer_status: 'paused',
+      running_since: null,
+    });
+    expect(plan.payload.time_entry_segments).toEqual([]);
+    expect(plan.payload.work_sessions).toEqual([]);
+    expect(plan.warnings).toEqual([
+      '1 running timer is restored as paused; the time since the export is not counted',
+      '1 unfinished work session is not restored',
+    ]);
+  });
+
+  it('keeps timesheet adjustments apart from tracked time', () => {
+    const plan = planAccountRestore(
+      exportData({
+        projects: [project],
+        tasks: [{ id: 't1', project_id: 'p1' }],
+        time_entries: [
+          {
+            id: 'e1',
+            task_id: 't1',
+            project_id: 'p1',
+            timer_status: 'stopped',
+            timesheet_adjustment: true,
+          },
+          // CSV copies hold the flag as text
+          {
+            id: 'e2',
+            task_id: 't1',
+            project_id: 'p1',
+            timer_status: 'stopped',
+            timesheet_adjustment: 'false',
+          },
+          {
+            id: 'e3',
+            task_id: 't1',
+            project_id: 'p1',
+            timer_status: 'stopped',
+          },
+        ],
+      }),
+      context
+    );
+
+    expect(
+      plan.payload.time_entries.map(entry => entry.timesheet_adjustment)
+    ).toEqual([true, false, false]);
+  });
+
+  it('lists invalid rows and references missing from the export', () => {
+    const plan = planAccountRestore(
+      exportData({
+        projects: [{ id: 'p1', name: 'No rate' }],
+        tasks: [
+          { id: 't1', project_id: 'gone' },
+          { id: 't2', project_id: 'gone' },
+        ],
+      }),
+      context
+    );
+
+    expect(plan.conflicts).toEqual([
+      {
+        code: 'invalid_row',
+        message: 'Projects "No rate" need a name, a rate type and a currency',
+      },
+      {
+        code: 'missing_reference',
+        message: 'Tasks referring to a project that is not in the export: 2',
+      },
+    ]);
+  });
+
+  it('refuses a restore into an account that already has the data', () => {
+    const plan = planAccountRestore(
+      exportData({
+        projects: [project],
+        invoices: [{ id: 'i1', project_id: 'p1', invoice_number: '0001' }],
+      }),
+      {
+        ...context,
+        projects: [{ name: ' website ', client_name: null }],
+        invoiceNumbers: ['0001'],
+      }
+    );
+
+    expect(plan.conflicts.map(conflict => conflict.code)).toEqual([
+      'duplicate_project',
+      'invoice_number_taken',
+    ]);
+  });
+
+  it('applies the Free plan limits', () => {
+    const plan = planAccountRestore(
+      exportData({
+        projects: [project],
+        invoices: [{ id: 'i1', project_id: 'p1', invoice_number: '0001' }],
+      }),
+      {
+        ...context,
+        tier: 'free',
+        activeProjectCount: FREE_TIER_MAX_ACTIVE_PROJECTS,
+      }
+    );
+
+    expect(plan.conflicts.map(conflict => conflict.code)).toEqual([
+      'project_limit',
+      'invoices_pro_only',
+    ]);
+  });
+
+  it('restores only the profile settings it knows', () => {
+    const plan = planAccountRestore(
+      exportData(
+        {},
+        {
+          id: 'old-user',
+          email: 'old@example.com',
+          subscription_tier: 'pro',
+          business_name: null,
+          invoice_number_prefix: null,
+          week_start: 1,
+        }
+      ),
+      context
+    );
+
+    expect(plan.payload.user).toEqual({ business_name: null, week_start: 1 });
+  });
+});
@@ -0,0 +1,694 @@
+import JSZip from 'jszip';
+
+import { EXPORT_SCHEMA_VERSION } from '@/lib/data-export';
+import { FREE_TIER_MAX_ACTIVE_PROJECTS } from '@/lib/subscription-enforcement';
+import { parseCsv } from '@/lib/time-entry-import';
+import {
+  AccountRestoreConflict,
+  AccountRestoreCounts,
+  AccountRestoreTable,
+  DataExportDocument,
+  User,
+} from '@/types';
+
+/** Largest export ZIP the restore accepts */
+export const ACCOUNT_RESTORE_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Most the files of an export ZIP may inflate to, together. A small archive
+ * can claim gigabytes, so the running total is checked while inflating.
+ */
+export const ACCOUNT_RESTORE_MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+const UNPACKED_TOO_LARGE_ERROR = `The export unpacks to more than ${ACCOUNT_RESTORE_MAX_UNPACKED_BYTES / 1024 / 1024} MB`;
+
+/** Tables read from the export, in the order they are inserted */
+export const ACCOUNT_RESTORE_TABLES: AccountRestoreTable[] = [
+  'projects',
+  'tasks',
+  'time_entries',
+  'time_entry_segments',
+  'focus_intervals',
+  'work_sessions',
+  'invoices',
+  'invoice_items',
+  'invoice_payments',
+];
+
+/**
+ * Profile settings copied from the export, and whether each may be null.
+ * Identity, subscription, deletion and calendar feed fields stay as they are.
+ */
+const RESTORED_PROFILE_FIELDS: Record<string, boolean> = {
+  name: true,
+  business_name: true,
+  business_email: true,
+  business_address: true,
+  business_phone: true,
+  tax_id: true,
+  invoice_reminders_enabled: false,
+  invoice_reminder_days: false,
+  invoice_number_prefix: false,
+  invoice_number_padding: false,
+  invoice_number_next: true,
+  invoice_number_reset_yearly: false,
+  invoice_number_year: true,
+  idle_timeout_minutes: true,
+  focus_work_minutes: false,
+  focus_break_minutes: false,
+  focus_notifications_enabled: false,
+  timer_max_run_hours: true,
+  timer_auto_stop_time: true,
+  timer_weekend_behavior: false,
+  time_zone: true,
+  week_start: false,
+};
+
+type ExportRow = Record<string, unknown>;
+
+/** Rows read from an export ZIP */
+export interface AccountExportData {
+  user: ExportRow | null;
+  tables: Record<AccountRestoreTable, ExportRow[]>;
+  hasActivityLog: boolean;
+}
+
+/** What the account already holds, for conflict checks */
+export interface AccountRestoreContext {
+  userId: string;
+  tier: User['subscription_tier'];
+  projects: { name: string; client_name: string | null }[];
+  activeProjectCount: number;
+  invoiceNumbers: string[];
+  now: Date;
+}
+
+export interface AccountRestorePlan {
+  /** Argument for the restore_account_data database function */
+  payload: { user?: ExportRow } & Record<
+    AccountRestoreTable,
+    Array<ExportRow & { id: string }>
+  >;
+  counts: AccountRestoreCounts;
+  conflicts: AccountRestoreConflict[];
+  warnings: string[];
+}
+
+function findFile(zip: JSZip, path: string) {
+  const escaped = path.replace(/\./g, '\\.');
+  return zip.file(new RegExp(`(^|/)${escaped}$`))[0] ?? null;
+}
+
+function newerSchemaError(version: unknown): string | null {
+  return typeof version === 'number' && version > EXPORT_SCHEMA_VERSION
+    ? `This export uses schema version ${version}, which is newer than this app supports (${EXPORT_SCHEMA_VERSION})`
+    : null;
+}
+
+/** Bytes the rest of an archive may still inflate to */
+type InflateBudget = { remaining: number };
+
+/**
+ * Inflates a file of the archive as text, stopping as soon as the archive's
+ * budget runs out
+ * @returns The text, or null when the budget ran out
+ */
+function inflateText(
+  file: JSZip.JSZipObject,
+  budget: InflateBudget
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = file.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.on('error', reject);
+  });
+}
+
+/** CSV cells are text: blanks become null and JSON-stringified fields are parsed */
+function parseCsvCell(cell: string): unknown {
+  if (cell === '') return null;
+  if (/^[[{]/.test(cell)) {
+    try {
+      return JSON.parse(cell);
+    } catch {
+      return cell;
+    }
+  }
+  return cell;
+}
+
+async function readRows(
+  zip: JSZip,
+  name: string,
+  budget: InflateBudget
+): Promise<ExportRow[] | string | null> {
+  const jsonFile = findFile(zip, `json/${name}.json`);
+  if (jsonFile) {
+    const text = await inflateText(jsonFile, budget);
+    if (text === null) return UNPACKED_TOO_LARGE_ERROR;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (parsed === null) return [];
+      if (Array.isArray(parsed)) return parsed as ExportRow[];
+      if (typeof parsed === 'object') return [parsed as ExportRow];
+    } catch {
+      // Reported below
+    }
+    return `${name}.json could not be read`;
+  }
+
+  const csvFile = findFile(zip, `csv/${name}.csv`);
+  if (!csvFile) return null;
+  const text = await inflateText(csvFile, budget);
+  if (text === null) return UNPACKED_TOO_LARGE_ERROR;
+  const { headers, records } = parseCsv(text);
+  return records.map(record =>
+    Object.fromEntries(
+      headers.map((header, index) => [
+        header,
+        parseCsvCell(record[index] ?? ''),
+      ])
+    )
+  );
+}
+
+/** Undoes the nesting of a single-document (format=json) export */
+function flattenExportDocument(
+  document: DataExportDocument
+): AccountExportData {
+  const projects = document.projects ?? [];
+  const tasks = projects.flatMap(project => project.tasks ?? []);
+  const timeEntries = tasks.flatMap(task => task.time_entries ?? []);
+  const invoices = document.invoices ?? [];
+  const rows = (values: object[]) => values as ExportRow[];
+
+  return {
+    user: (document.user as ExportRow | null) ?? null,
+    tables: {
+      projects: rows(projects),
+      tasks: rows(tasks),
+      time_entries: rows(timeEntries),
+      time_entry_segments: rows(
+        timeEntries.flatMap(entry => entry.segments ?? [])
+      ),
+      focus_intervals: rows(tasks.flatMap(task => task.focus_intervals ?? [])),
+      work_sessions: rows(document.work_sessions ?? []),
+      invoices: rows(invoices),
+      invoice_items: rows(invoices.flatMap(invoice => invoice.items ?? [])),
+      invoice_payments: rows(
+        invoices.flatMap(invoice => invoice.payments ?? [])
+      ),
+    },
+    hasActivityLog: Array.isArray(document.activity_log),
+  };
+}
+
+/**
+ * Reads an Orasan export: the ZIP, or the single JSON document. In a ZIP the
+ * JSON files are used where present, with the CSV copies as a fallback; files
+ * missing from older exports read as empty.
+ * @returns The rows, or a message saying why the file cannot be restored
+ */
+export async function readAccountExport(
+  file: ArrayBuffer
+): Promise<{ data: AccountExportData } | { error: string }> {
+  const bytes = new Uint8Array(file);
+  // ZIP archives start with "PK"
+  if (bytes[0] !== 0x50 || bytes[1] !== 0x4b) {
+    let document: DataExportDocument;
+    try {
+      document = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      return { error: 'The file is not an export ZIP or JSON document' };
+    }
+    if (!document || !Array.isArray(document.projects)) {
+      return { error: 'This is not an Orasan export: it has no projects' };
+    }
+    const versionError = newerSchemaError(document.schema_version);
+    if (versionError) return { error: versionError };
+    return { data: flattenExportDocument(document) };
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    return { error: 'The file is not a ZIP archive' };
+  }
+
+  const budget: InflateBudget = {
+    remaining: ACCOUNT_RESTORE_MAX_UNPACKED_BYTES,
+  };
+  const manifestFile = findFile(zip, 'manifest.json');
+  if (manifestFile) {
+    const text = await inflateText(manifestFile, budget);
+    if (text === null) return { error: UNPACKED_TOO_LARGE_ERROR };
+    try {
+      const manifest = JSON.parse(text);
+      const versionError = newerSchemaError(manifest?.schema_version);
+      if (versionError) return { error: versionError };
+    } catch {
+      return { error: 'manifest.json could not be read' };
+    }
+  }
+
+  const projects = await readRows(zip, 'projects', budget);
+  if (typeof projects === 'string') return { error: projects };
+  if (projects === null) {
+    return {
+      error:
+        'This is not an Orasan export: it has no projects.json or projects.csv',
+    };
+  }
+
+  const tables = {} as Record<AccountRestoreTable, ExportRow[]>;
+  for (const table of ACCOUNT_RESTORE_TABLES) {
+    const rows =
+      table === 'projects' ? projects : await readRows(zip, table, budget);
+    if (typeof rows === 'string') return { error: rows };
+    tables[table] = rows ?? [];
+  }
+
+  const users = await readRows(zip, 'user', budget);
+  if (typeof users === 'string') return { error: users };
+
+  return {
+    data: {
+      user: users?.[0] ?? null,
+      tables,
+      hasActivityLog:
+        findFile(zip, 'json/user_activity_log.json') !== null ||
+        findFile(zip, 'csv/user_activity_log.csv') !== null,
+    },
+  };
+}
+
+function read(row: ExportRow, key: string): unknown {
+  const value = row[key];
+  return value === undefined ? null : value;
+}
+
+function readText(row: ExportRow, key: string): string | null {
+  const value = read(row, key);
+  if (value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function readNumber<T extends number | null>(
+  row: ExportRow,
+  key: string,
+  fallback: T
+): number | T {
+  const value = read(row, key);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function readBoolean(row: ExportRow, key: string, fallback: boolean) {
+  const value = read(row, key);
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return fallback;
+}
+
+function projectKey(name: string, clientName: string | null) {
+  return `${name.trim().toLowerCase()}|${(clientName ?? '').trim().toLowerCase()}`;
+}
+
+function listExamples(values: string[]): string {
+  const unique = [...new Set(values)];
+  const shown = unique
+    .slice(0, 3)
+    .map(value => `"${value}"`)
+    .join(', ');
+  return unique.length > 3 ? `${shown} and ${unique.length - 3} more` : shown;
+}
+
+/**
+ * Turns export rows into rows for the signed-in account: every row gets a new
+ * id and references are rewritten to match. Running timers are paused and
+ * unfinished work sessions are left out, since they cannot continue in
+ * another account. Conflicts list everything that stops the restore.
+ */
+export function planAccountRestore(
+  data: AccountExportData,
+  context: AccountRestoreContext
+): AccountRestorePlan {
+  const { userId } = context;
+  const nowIso = context.now.toISOString();
+  const conflicts: AccountRestoreConflict[] = [];
+  const warnings: string[] = [];
+  const sourceUserId = data.user ? readText(data.user, 'id') : null;
+
+  const newIds = Object.fromEntries(
+    ACCOUNT_RESTORE_TABLES.map(table => [table, new Map<string, string>()])
+  ) as Record<AccountRestoreTable, Map<string, string>>;
+
+  for (const table of ACCOUNT_RESTORE_TABLES) {
+    for (const row of data.tables[table]) {
+      const id = readText(row, 'id');
+      if (id && !newIds[table].has(id)) {
+        newIds[table].set(id, crypto.randomUUID());
+      }
+    }
+  }
+
+  // Rows without an id in the export still need one
+  function newId(table: AccountRestoreTable, row: ExportRow): string {
+    const id = readText(row, 'id');
+    return (id && newIds[table].get(id)) || crypto.randomUUID();
+  }
+
+  function mapId(table: AccountRestoreTable, row: ExportRow, key: string) {
+    const id = readText(row, key);
+    return id ? (newIds[table].get(id) ?? null) : null;
+  }
+
+  const missing = new Map<string, number>();
+  function reportMissing(description: string) {
+    missing.set(description, (missing.get(description) ?? 0) + 1);
+  }
+
+  const invalidProjects: string[] = [];
+  const projects = data.tables.projects.map(row => {
+    const name = readText(row, 'name')?.trim() ?? '';
+    const rateType = readText(row, 'rate_type');
+    const currency = readText(row, 'currency_code');
+    if (!name || (rateType !== 'hourly' && rateType !== 'fixed') || !currency) {
+      invalidProjects.push(name || readText(row, 'id') || 'unnamed');
+    }
+    return {
+      id: newId('projects', row),
+      name,
+      description: readText(row, 'description'),
+      rate_type: rateType,
+      price: readNumber(row, 'price', 0),
+      currency_code: currency,
+      status: readText(row, 'status') ?? 'new',
+      user_id: userId,
+      client_name: readText(row, 'client_name'),
+      client_email: readText(row, 'client_email'),
+      client_address: readText(row, 'client_address'),
+      client_phone: readText(row, 'client_phone'),
+      created_at: readText(row, 'created_at') ?? nowIso,
+      updated_at: readText(row, 'updated_at') ?? nowIso,
+    };
+  });
+  if (invalidProjects.length > 0) {
+    conflicts.push({
+      code: 'invalid_row',
+      message: `Projects ${listExamples(invalidProjects)} need a name, a rate type and a currency`,
+    });
+  }
+
+  const tasks = data.tables.tasks.map(row => {
+    const projectId = mapId('projects', row, 'project_id');
+    if (!projectId) reportMissing('Tasks referring to a project');
+    const assignee = readText(row, 'assignee');
+    return {
+      id: newId('tasks', row),
+      name: readText(row, 'name') ?? 'Untitled task',
+      description: readText(row, 'description'),
+      project_id: projectId,
+      user_id: userId,
+      status: readText(row, 'status') ?? 'new',
+      priority: readText(row, 'priority') ?? 'low',
+      due_date: readText(row, 'due_date'),
+      // Other people's ids mean nothing in this account
+      assignee: assignee && assignee === sourceUserId ? userId : null,
+      rate_type: readText(row, 'rate_type') ?? 'hourly',
+      price: readNumber(row, 'price', 0),
+      created_at: readText(row, 'created_at') ?? nowIso,
+      updated_at: readText(row, 'updated_at') ?? nowIso,
+    };
+  });
+
+  let pausedTimers = 0;
+  const timeEntries = data.tables.time_entries.map(row => {
+    const taskId = mapId('tasks', row, 'task_id');
+    const projectId = mapId('projects', row, 'project_id');
+    if (!taskId) reportMissing('Time entries referring to a task');
+    if (!projectId) reportMissing('Time entries referring to a project');
+    const running = readText(row, 'timer_status') === 'running';
+    if (running) pausedTimers++;
+    return {
+      id: newId('time_entries', row),
+      task_id: taskId,
+      project_id: projectId,
+      user_id: userId,
+      start_time: readText(row, 'start_time'),
+      end_time: readText(row, 'end_time'),
+      // Closed runs only; the open run of a running timer is not counted
+      duration_seconds: readNumber(row, 'duration_seconds', 0),
+      timer_status: running
+        ? 'paused'
+        : (readText(row, 'timer_status') ?? 'paused'),
+      running_since: null,
+      description: readText(row, 'description'),
+      auto_stop_reason: readText(row, 'auto_stop_reason'),
+      auto_stop_notified_at: readText(row, 'auto_stop_notified_at'),
+      timesheet_adjustment: readBoolean(row, 'timesheet_adjustment', false),
+      created_at: readText(row, 'created_at') ?? nowIso,
+      updated_at: readText(row, 'updated_at') ?? nowIso,
+    };
+  });
+  if (pausedTimers > 0) {
+    warnings.push(
+      `${pausedTimers} running timer${pausedTimers === 1 ? ' is' : 's are'} restored as paused; the time since the export is not counted`
+    );
+  }
+
+  const timeEntrySegments = data.tables.time_entry_segments
+    .filter(row => read(row, 'ended_at') !== null)
+    .map(row => {
+      const timeEntryId = mapId('time_entries', row, 'time_entry_id');
+      if (!timeEntryId) reportMissing('Timer runs referring to a time entry');
+      return {
+        id: newId('time_entry_segments', row),
+        time_entry_id: timeEntryId,
+        user_id: userId,
+        started_at: readText(row, 'started_at'),
+        ended_at: readText(row, 'ended_at'),
+        created_at: readText(row, 'created_at') ?? nowIso,
+      };
+    });
+
+  const focusIntervals = data.tables.focus_intervals.map(row => {
+    const taskId = mapId('tasks', row, 'task_id');
+    const projectId = mapId('projects', row, 'project_id');
+    if (!taskId) reportMissing('Focus intervals referring to a task');
+    if (!projectId) reportMissing('Focus intervals referring to a project');
+    return {
+      id: newId('focus_intervals', row),
+      user_id: userId,
+      task_id: taskId,
+      project_id: projectId,
+      // The entry may have been deleted since; the interval still counts
+      time_entry_id: mapId('time_entries', row, 'time_entry_id'),
+      started_at: readText(row, 'started_at'),
+      completed_at: readText(row, 'completed_at'),
+      created_at: readText(row, 'created_at') ?? nowIso,
+    };
+  });
+
+  const completedSessions = data.tables.work_sessions.filter(
+    row => readText(row, 'status') !== 'active'
+  );
+  const skippedSessions =
+    data.tables.work_sessions.length - completedSessions.length;
+  if (skippedSessions > 0) {
+    warnings.push(
+      `${skippedSessions} unfinished work session${skippedSessions === 1 ? ' is' : 's are'} not restored`
+    );
+  }
+  const workSessions = completedSessions.map(row => ({
+    id: newId('work_sessions', row),
+    user_id: userId,
+    start_time: readText(row, 'start_time'),
+    end_time: readText(row, 'end_time'),
+    duration_seconds: readNumber(row, 'duration_seconds', 0),
+    idle_seconds: readNumber(row, 'idle_seconds', 0),
+    status: 'completed',
+    created_at: readText(row, 'created_at') ?? nowIso,
+    updated_at: readText(row, 'updated_at') ?? nowIso,
+  }));
+
+  const invoices = data.tables.invoices.map(row => {
+    const projectId = mapId('projects', row, 'project_id');
+    if (!projectId) reportMissing('Invoices referring to a project');
+    const taxes = read(row, 'taxes');
+    return {
+      id: newId('invoices', row),
+      user_id: userId,
+      project_id: projectId,
+      invoice_number: readText(row, 'invoice_number') ?? '',
+      status: readText(row, 'status') ?? 'draft',
+      issue_date: readText(row, 'issue_date') ?? nowIso.slice(0, 10),
+      due_date: readText(row, 'due_date'),
+      subtotal: readNumber(row, 'subtotal', 0),
+      discount_type: readText(row, 'discount_type'),
+      discount_value: readNumber(row, 'discount_value', null),
+      discount_amount: readNumber(row, 'discount_amount', 0),
+      taxes: Array.isArray(taxes) ? taxes : [],
+      tax_inclusive: readBoolean(row, 'tax_inclusive', false),
+      tax_rate: readNumber(row, 'tax_rate', 0),
+      tax_amount: readNumber(row, 'tax_amount', 0),
+      total_amount: readNumber(row, 'total_amount', 0),
+      currency_code: readText(row, 'currency_code') ?? 'USD',
+      notes: readText(row, 'notes'),
+      sent_to_email: readText(row, 'sent_to_email'),
+      sent_at: readText(row, 'sent_at'),
+      sent_message_id: readText(row, 'sent_message_id'),
+      last_reminder_days: readNumber(row, 'last_reminder_days', null),
+      last_reminder_sent_at: readText(row, 'last_reminder_sent_at'),
+      created_at: readText(row, 'created_at') ?? nowIso,
+      updated_at: readText(row, 'updated_at') ?? nowIso,
+    };
+  });
+
+  let unlinkedItems = 0;
+  const invoiceItems = data.tables.invoice_items.map(row => {
+    const invoiceId = mapId('invoices', row, 'invoice_id');
+    if (!invoiceId) reportMissing('Invoice items referring to an invoice');
+    const taskId = mapId('tasks', row, 'task_id');
+    if (!taskId && readText(row, 'task_id')) unlinkedItems++;
+    return {
+      id: newId('invoice_items', row),
+      invoice_id: invoiceId,
+      task_id: taskId,
+      name: readText(row, 'name') ?? '',
+      description: readText(row, 'description'),
+      quantity: readNumber(row, 'quantity', 1),
+      unit_price: readNumber(row, 'unit_price', 0),
+      total_cost: readNumber(row, 'total_cost', 0),
+      discount_type: readText(row, 'discount_type'),
+      discount_value: readNumber(row, 'discount_value', null),
+      discount_amount: readNumber(row, 'discount_amount', 0),
+      rate_type: readText(row, 'rate_type'),
+      created_at: readText(row, 'created_at') ?? nowIso,
+    };
+  });
+  if (unlinkedItems > 0) {
+    // Same as deleting the task: the line stays on the invoice
+    warnings.push(
+      `${unlinkedItems} invoice item${unlinkedItems === 1 ? ' is' : 's are'} restored without a task, because the task is not in the export`
+    );
+  }
+
+  const invoicePayments = data.tables.invoice_payments.map(row => {
+    const invoiceId = mapId('invoices', row, 'invoice_id');
+    if (!invoiceId) reportMissing('Payments referring to an invoice');
+    return {
+      id: newId('invoice_payments', row),
+      user_id: userId,
+      invoice_id: invoiceId,
+      amount: readNumber(row, 'amount', 0),
+      paid_on: readText(row, 'paid_on') ?? nowIso.slice(0, 10),
+      method: readText(row, 'method') ?? 'other',
+      reference: readText(row, 'reference'),
+      created_at: readText(row, 'created_at') ?? nowIso,
+      updated_at: readText(row, 'updated_at') ?? nowIso,
+    };
+  });
+
+  for (const [description, count] of missing) {
+    conflicts.push({
+      code: 'missing_reference',
+      message: `${description} that is not in the export: ${count}`,
+    });
+  }
+
+  const existingProjects = new Set(
+    context.projects.map(project =>
+      projectKey(project.name, project.client_name)
+    )
+  );
+  const duplicateProjects = projects
+    .filter(project =>
+      existingProjects.has(projectKey(project.name, project.client_name))
+    )
+    .map(project => project.name);
+  if (duplicateProjects.length > 0) {
+    conflicts.push({
+      code: 'duplicate_project',
+      message: `This account already has projects named ${listExamples(duplicateProjects)}; the export may already have been restored`,
+    });
+  }
+
+  const existingNumbers = new Set(context.invoiceNumbers);
+  const takenNumbers = invoices
+    .map(invoice => invoice.invoice_number)
+    .filter(number => existingNumbers.has(number));
+  if (takenNumbers.length > 0) {
+    conflicts.push({
+      code: 'invoice_number_taken',
+      message: `Invoice numbers ${listExamples(takenNumbers)} are already used in this account`,
+    });
+  }
+
+  if (context.tier === 'free') {
+    const restoredActive = projects.filter(
+      project => project.status !== 'completed'
+    ).length;
+    if (
+      restoredActive > 0 &&
+      context.activeProjectCount + restoredActive >
+        FREE_TIER_MAX_ACTIVE_PROJECTS
+    ) {
+      conflicts.push({
+        code: 'project_limit',
+        message: `The Free tier allows ${FREE_TIER_MAX_ACTIVE_PROJECTS} active projects; this account has ${context.activeProjectCount} and the export adds ${restoredActive}. Upgrade to Pro to restore it`,
+      });
+    }
+    if (invoices.length > 0) {
+      conflicts.push({
+        code: 'invoices_pro_only',
+        message: `The export has ${invoices.length} invoice${invoices.length === 1 ? '' : 's'}, and invoicing is available on Pro only`,
+      });
+    }
+  }
+
+  if (data.hasActivityLog) {
+    warnings.push('The activity log is kept with the export and not restored');
+  }
+
+  const payload: AccountRestorePlan['payload'] = {
+    projects,
+    tasks,
+    time_entries: timeEntries,
+    time_entry_segments: timeEntrySegments,
+    focus_intervals: focusIntervals,
+    work_sessions: workSessions,
+    invoices,
+    invoice_items: invoiceItems,
+    invoice_payments: invoicePayments,
+  };
+
+  if (data.user) {
+    const profile: ExportRow = {};
+    for (const [field, nullable] of Object.entries(RESTORED_PROFILE_FIELDS)) {
+      if (!(field in data.user)) continue;
+      const value = read(data.user, field);
+      if (value !== null || nullable) profile[field] = value;
+    }
+    payload.user = profile;
+  }
+
+  const counts = Object.fromEntries(
+    ACCOUNT_RESTORE_TABLES.map(table => [table, payload[table].length])
+  ) as AccountRestoreCounts;
+
+  return { payload, counts, conflicts, warnings };
+}
@@ -1,3 +1,5 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 import { createClient } from '@/lib/supabase/server';
 import { ActivityAction, ActivityEntityType } from '@/types';
 
@@ -9,16 +11,18 @@ import { ActivityAction, ActivityEntityType } from '@/types';
  * @param action - The action being performed (CREATE, UPDATE, DELETE, etc.)
  * @param entityType - The type of entity being acted upon
  * @param entityId - Optional ID of the specific entity (null for actions like EXPORT_DATA)
+ * @param supabaseClient - Optional client for callers without a user session (e.g. cron jobs using the admin client)
  * @returns Promise that resolves to true if logging succeeded, false otherwise
  */
 export async function logActivity(
   userId: string,
   action: ActivityAction,
   entityType: ActivityEntityType,
-  entityId: string | null = null
+  entityId: string | null = null,
+  supabaseClient?: SupabaseClient
 ): Promise<boolean> {
   try {
-    const supabase = await createClient();
+    const supabase = supabaseClient ?? (await createClient());
 
     const { error } = await supabase.from('user_activity_log').insert({
       user_id: userId,
@@ -53,9 +57,52 @@ export async function logActivity(
 export async function logCreate(
   userId: string,
   entityType: ActivityEntityType,
-  entityId: string
+  entityId: string,
+  supabaseClient?: SupabaseClient
+): Promise<boolean> {
+  return logActivity(userId, 'CREATE', entityType, entityId, supabaseClient);
+}
+
+/**
+ * Logs CREATE operations for many entities in one insert (used by imports)
+ */
+export async function logCreateMany(
+  userId: string,
+  entityType: ActivityEntityType,
+  entityIds: string[],
+  supabaseClient?: SupabaseClient
 ): Promise<boolean> {
-  return logActivity(userId, 'CREATE', entityType, entityId);
+  if (entityIds.length === 0) return true;
+  try {
+    const supabase = supabaseClient ?? (await createClient());
+
+    const { error } = await supabase.from('user_activity_log').insert(
+      entityIds.map(entityId => ({
+        user_id: userId,
+        action: 'CREATE' as ActivityAction,
+        entity_type: entityType,
+        entity_id: entityId,
+      }))
+    );
+
+    if (error) {
+      // Log error but don't throw - activity logging should not break the main operation
+      console.error('Failed to log activity:', {
+        userId,
+        action: 'CREATE',
+        entityType,
+        count: entityIds.length,
+        error: error.message,
+      });
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    // Log error but don't throw - activity logging should not break the main operation
+    console.error('Error logging activity:', error);
+    return false;
+  }
 }
 
 /**
@@ -64,9 +111,10 @@ export async function logCreate(
 export async function logUpdate(
   userId: string,
   entityType: ActivityEntityType,
-  entityId: string
+  entityId: string,
+  supabaseClient?: SupabaseClient
 ): Promise<boolean> {
-  return logActivity(userId, 'UPDATE', entityType, entityId);
+  return logActivity(userId, 'UPDATE', entityType, entityId, supabaseClient);
 }
 
 /**
@@ -128,3 +176,22 @@ export async function logAccountDeletionCancellation(
     null
   );
 }
+
+/**
+ * Logs a client opening a portal link or downloading an invoice from it, on
+ * the activity log of the link's creator
+ */
+export async function logClientPortalView(
+  userId: string,
+  entityType: 'client_portal_link' | 'invoice',
+  entityId: string,
+  supabaseClient: SupabaseClient
+): Promise<boolean> {
+  return logActivity(
+    userId,
+    'VIEW_CLIENT_PORTAL',
+    entityType,
+    entityId,
+    supabaseClient
+  );
+}
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { Assignee, WorkspaceRole } from '@/types';
+
+export type UserProfileSummary = { name?: string; email: string };
+
+/**
+ * Names and emails by user id. Users can only read their own profile, so
+ * co-members' profiles come from the admin client: only pass ids of people
+ * the caller shares a workspace with.
+ */
+export async function getUserProfileSummaries(
+  userIds: string[]
+): Promise<Map<string, UserProfileSummary>> {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return new Map();
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from('users')
+    .select('id, name, email')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to fetch user profiles: ${error.message}`);
+  }
+
+  return new Map(
+    (data ?? []).map(profile => [
+      profile.id as string,
+      { name: profile.name ?? undefined, email: profile.email as string },
+    ])
+  );
+}
+
+/**
+ * Assignee directory of a workspace: every member, by name then email. The
+ * caller must be a member (the session client only returns memberships of
+ * workspaces they belong to).
+ */
+export async function getWorkspaceAssignees(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<Assignee[]> {
+  const { data: members, error } = await supabase
+    .from('workspace_members')
+    .select('user_id, role')
+    .eq('workspace_id', workspaceId);
+
+  if (error) {
+    throw new Error(`Failed to fetch workspace members: ${error.message}`);
+  }
+
+  const profiles = await getUserProfileSummaries(
+    (members ?? []).map(member => member.user_id)
+  );
+
+  return (members ?? [])
+    .flatMap(member => {
+      const profile = profiles.get(member.user_id);
+      return profile
+        ? [
+            {
+              id: member.user_id as string,
+              ...profile,
+              role: member.role as WorkspaceRole,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) =>
+      (a.name || a.email).localeCompare(b.name || b.email, undefined, {
+        sensitivity: 'base',
+      })
+    );
+}
+
+/**
+ * Adds assignee_user to tasks read with the session client. The database
+ * only accepts members of a task's workspace as its assignee (and leaving
+ * unassigns them), so the caller shares a workspace with every assignee.
+ */
+export async function withAssigneeUsers<T extends { assignee?: string | null }>(
+  tasks: T[]
+): Promise<(T & { assignee_user?: UserProfileSummary })[]> {
+  const profiles = await getUserProfileSummaries(
+    tasks.flatMap(task => (task.assignee ? [task.assignee] : []))
+  );
+
+  return tasks.map(task => ({
+    ...task,
+    assignee_user: task.assignee ? profiles.get(task.assignee) : undefined,
+  }));
+}
@@ -0,0 +1,225 @@
+import validator from 'validator';
+
+import { addDaysToKey } from '@/lib/time-zones';
+import { formatDuration } from '@/lib/utils';
+import { TimeEntrySegment } from '@/types';
+
+/** How far back stopped time entries are published */
+export const CALENDAR_FEED_HISTORY_DAYS = 365;
+
+/** Stopped time entry with the names shown on its events */
+export interface CalendarFeedTimeEntry {
+  id: string;
+  start_time: string | null;
+  end_time: string;
+  duration_seconds: number;
+  description?: string | null;
+  updated_at?: string | null;
+  segments?: Pick<TimeEntrySegment, 'id' | 'started_at' | 'ended_at'>[] | null;
+  task: { name: string } | null;
+  project: { name: string; client_name?: string | null } | null;
+}
+
+/** Open task with a due date, published as an all-day event */
+export interface CalendarFeedTask {
+  id: string;
+  name: string;
+  description?: string | null;
+  due_date: string;
+  updated_at?: string | null;
+  project: { name: string; client_name?: string | null } | null;
+}
+
+export interface CalendarFeedOptions {
+  calendarName: string;
+  timeZone: string;
+  now?: Date;
+}
+
+/** Random secret for a feed URL */
+export function generateCalendarFeedToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Token from the feed path; calendar apps often want the URL to end in ".ics"
+ * @returns The token, or null when the segment cannot be one
+ */
+export function parseCalendarFeedToken(segment: string): string | null {
+  const token = segment.replace(/\.ics$/i, '');
+  return /^[a-f0-9]{32}$/i.test(token) ? token.toLowerCase() : null;
+}
+
+/**
+ * Project ids a feed is limited to, from repeated or comma-separated
+ * project_id parameters
+ * @returns The ids, or null when one of them is not a project id
+ */
+export function parseCalendarFeedProjectIds(
+  searchParams: URLSearchParams
+): string[] | null {
+  const ids = [
+    ...new Set(
+      searchParams
+        .getAll('project_id')
+        .flatMap(value => value.split(','))
+        .map(value => value.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+  return ids.every(id => validator.isUUID(id)) ? ids : null;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line to 75 octets, as RFC 5545 requires */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the 75
+    const limit = pieces.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      pieces.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+/** UTC date-time such as 20250915T083000Z */
+function formatUtc(value: string | Date): string {
+  return new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/** Date value such as 20250915 */
+function formatDate(dayKey: string): string {
+  return dayKey.replace(/-/g, '');
+}
+
+function projectLabel(project: CalendarFeedTask['project']): string | null {
+  if (!project) return null;
+  return project.client_name
+    ? `${project.name} (${project.client_name})`
+    : project.name;
+}
+
+function buildEvent(fields: Array<[string, string | null | undefined]>) {
+  return [
+    'BEGIN:VEVENT',
+    ...fields
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([name, value]) => `${name}:${value}`),
+    'END:VEVENT',
+  ];
+}
+
+function timeEntryEvents(entry: CalendarFeedTimeEntry, stamp: string) {
+  const taskName = entry.task?.name ?? 'Time entry';
+  const project = projectLabel(entry.project);
+  const summary = escapeText(project ? `${taskName} · ${project}` : taskName);
+  const description = escapeText(
+    [entry.description, `Tracked: ${formatDuration(entry.duration_seconds)}`]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  // Each run of the timer is its own event, so pauses show as gaps
+  const runs = (entry.segments ?? []).filter(
+    segment => segment.ended_at !== null
+  );
+  const intervals =
+    runs.length > 0
+      ? runs.map(segment => ({
+          uid: `time-entry-${entry.id}-${segment.id}@orasan`,
+          start: segment.started_at,
+          end: segment.ended_at as string,
+        }))
+      : [
+          {
+            uid: `time-entry-${entry.id}@orasan`,
+            start: entry.start_time ?? entry.end_time,
+            end: entry.end_time,
+          },
+        ];
+
+  return intervals.flatMap(interval =>
+    buildEvent([
+      ['UID', interval.uid],
+      ['DTSTAMP', stamp],
+      ['DTSTART', formatUtc(interval.start)],
+      ['DTEND', formatUtc(interval.end)],
+      ['SUMMARY', summary],
+      ['DESCRIPTION', description],
+      ['CATEGORIES', 'Time entry'],
+      ['TRANSP', 'OPAQUE'],
+      ['LAST-MODIFIED', entry.updated_at ? formatUtc(entry.updated_at) : null],
+    ])
+  );
+}
+
+function taskDueEvent(task: CalendarFeedTask, stamp: string) {
+  const project = projectLabel(task.project);
+  const summary = escapeText(
+    `Due: ${task.name}${project ? ` · ${project}` : ''}`
+  );
+  return buildEvent([
+    ['UID', `task-due-${task.id}@orasan`],
+    ['DTSTAMP', stamp],
+    // All-day events carry no zone, so they stay on the due date everywhere
+    ['DTSTART;VALUE=DATE', formatDate(task.due_date)],
+    ['DTEND;VALUE=DATE', formatDate(addDaysToKey(task.due_date, 1))],
+    ['SUMMARY', summary],
+    [
+      'DESCRIPTION',
+      task.description ? escapeText(task.description) : undefined,
+    ],
+    ['CATEGORIES', 'Task due date'],
+    ['TRANSP', 'TRANSPARENT'],
+    ['LAST-MODIFIED', task.updated_at ? formatUtc(task.updated_at) : null],
+  ]);
+}
+
+/**
+ * Builds an iCalendar (RFC 5545) feed. Time entries are timed events in UTC,
+ * which calendar apps show in the viewer's zone; due dates are all-day events.
+ * @returns The feed with CRLF line endings
+ */
+export function buildCalendarFeed(
+  entries: CalendarFeedTimeEntry[],
+  tasks: CalendarFeedTask[],
+  options: CalendarFeedOptions
+): string {
+  const stamp = formatUtc(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Orasan//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...entries.flatMap(entry => timeEntryEvents(entry, stamp)),
+    ...tasks.flatMap(task => taskDueEvent(task, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,221 @@
+import { NextResponse } from 'next/server';
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { logClientPortalView } from '@/lib/activity-log';
+import {
+  isClientPortalLinkExpired,
+  parseClientPortalToken,
+} from '@/lib/client-portal';
+import {
+  getInvoiceAmountPaid,
+  getInvoiceBalanceDue,
+} from '@/lib/invoice-payments';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import { ClientPortalInvoice, ClientPortalLink, InvoiceStatus } from '@/types';
+
+export type ClientPortalLinkLookup =
+  | { link: ClientPortalLink; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Finds the link a portal URL opens. The client has no account, so this
+ * reads with the admin client; revoked and expired links are refused.
+ */
+export async function findClientPortalLink(
+  admin: SupabaseClient,
+  tokenSegment: string
+): Promise<ClientPortalLinkLookup> {
+  const token = parseClientPortalToken(tokenSegment);
+  if (!token) {
+    return { error: 'This link is no longer valid', status: 404 };
+  }
+
+  const { data: link, error } = await admin
+    .from('client_portal_links')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch client portal link: ${error.message}`);
+  }
+  if (!link || link.revoked_at) {
+    return { error: 'This link is no longer valid', status: 404 };
+  }
+  // Gone like a revoked link; only the message tells the client why
+  if (isClientPortalLinkExpired(link)) {
+    return {
+      error: 'This link has expired. Ask for a new one to see your invoices.',
+      status: 404,
+    };
+  }
+  return { link };
+}
+
+/**
+ * Counts a portal view on the link and logs it (or a PDF download) for the
+ * link's creator. Failures are logged and never block the client.
+ */
+export async function recordClientPortalView(
+  admin: SupabaseClient,
+  link: ClientPortalLink,
+  entityType: 'client_portal_link' | 'invoice',
+  entityId: string
+): Promise<void> {
+  if (entityType === 'client_portal_link') {
+    const { error } = await admin.rpc('record_client_portal_view', {
+      target_link_id: link.id,
+    });
+    if (error) {
+      console.error('Error counting client portal view:', error);
+    }
+  }
+
+  // Activity log rows need a user; links of deleted users are not logged
+  if (link.created_by) {
+    await logClientPortalView(link.created_by, entityType, entityId, admin);
+  }
+}
+
+/** Invoices a portal shows: the client's invoices that are not drafts */
+export async function fetchClientPortalInvoices(
+  admin: SupabaseClient,
+  clientId: string
+): Promise<ClientPortalInvoice[]> {
+  const { data, error } = await admin
+    .from('invoices')
+    .select(
+      `
+      id,
+      invoice_number,
+      status,
+      issue_date,
+      due_date,
+      currency_code,
+      total_amount,
+      project:projects!inner (
+        name,
+        client_id
+      ),
+      payments:invoice_payments (
+        amount
+      )
+    `
+    )
+    .eq('project.client_id', clientId)
+    .neq('status', 'draft')
+    .order('issue_date', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch client invoices: ${error.message}`);
+  }
+
+  return (data ?? []).map(invoice => {
+    const project = invoice.project as unknown as { name: string } | null;
+    return {
+      id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      status: invoice.status as InvoiceStatus,
+      issue_date: invoice.issue_date,
+      due_date: invoice.due_date ?? null,
+      currency_code: invoice.currency_code ?? 'USD',
+      total_amount: Number(invoice.total_amount),
+      amount_paid: getInvoiceAmountPaid(invoice.payments),
+      balance_due:
+        invoice.status === 'cancelled'
+          ? 0
+          : getInvoiceBalanceDue(invoice.total_amount, invoice.payments),
+      project_name: project?.name ?? '',
+    };
+  });
+}
+
+/**
+ * Owner of an invoice a client may download through its portal, whose
+ * business details go on the PDF
+ * @returns The owner's id, or null for drafts and other clients' invoices
+ */
+export async function findClientPortalInvoiceOwner(
+  admin: SupabaseClient,
+  clientId: string,
+  invoiceId: string
+): Promise<string | null> {
+  const { data, error } = await admin
+    .from('invoices')
+    .select('user_id, status, project:projects!inner (client_id)')
+    .eq('id', invoiceId)
+    .eq('project.client_id', clientId)
+    .neq('status', 'draft')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch invoice: ${error.message}`);
+  }
+  return data?.user_id ?? null;
+}
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+export type ClientPortalLinksAccess =
+  | { response: NextResponse }
+  | {
+      response?: undefined;
+      supabase: Supabase;
+      userId: string;
+      client: { id: string; workspace_id: string };
+    };
+
+/**
+ * Signed-in owner or admin of the client's workspace; portal links expose
+ * invoices, so they need the invoice permission
+ */
+export async function getClientPortalLinksAccess(
+  clientId: string
+): Promise<ClientPortalLinksAccess> {
+  const supabase = await createClient();
+
+  // Get the current user from the session
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id, workspace_id')
+    .eq('id', clientId)
+    .maybeSingle();
+
+  if (!client) {
+    return {
+      response: NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const role = await getWorkspaceRole(supabase, user.id, client.workspace_id);
+  if (!hasWorkspacePermission(role, 'manage_invoices')) {
+    return {
+      response: NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { supabase, userId: user.id, client };
+}
@@ -0,0 +1,62 @@
+import { ClientPortalLink } from '@/types';
+
+export const CLIENT_PORTAL_MAX_EXPIRY_DAYS = 365;
+
+export const CLIENT_PORTAL_EXPIRY_OPTIONS: Array<{
+  value: number | null;
+  label: string;
+}> = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: null, label: 'Never' },
+];
+
+export const DEFAULT_CLIENT_PORTAL_EXPIRY_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Random secret for a portal URL */
+export function generateClientPortalToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Token from the portal path
+ * @returns The token, or null when the segment cannot be one
+ */
+export function parseClientPortalToken(segment: string): string | null {
+  return /^[a-f0-9]{32}$/i.test(segment) ? segment.toLowerCase() : null;
+}
+
+/**
+ * Expiry of a link created or extended now
+ * @param expiresInDays - Whole days, or null for a link that never expires
+ * @returns The expiry (null for never), or an error message
+ */
+export function parseClientPortalExpiry(
+  expiresInDays: unknown,
+  now: Date = new Date()
+): { expiresAt: string | null } | { error: string } {
+  if (expiresInDays === null) return { expiresAt: null };
+  if (
+    typeof expiresInDays !== 'number' ||
+    !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 ||
+    expiresInDays > CLIENT_PORTAL_MAX_EXPIRY_DAYS
+  ) {
+    return {
+      error: `Expiry must be between 1 and ${CLIENT_PORTAL_MAX_EXPIRY_DAYS} days, or never`,
+    };
+  }
+  return {
+    expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS).toISOString(),
+  };
+}
+
+export function isClientPortalLinkExpired(
+  link: Pick<ClientPortalLink, 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return link.expires_at !== null && new Date(link.expires_at) <= now;
+}
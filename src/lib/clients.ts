@@ -0,0 +1,181 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { validateEmail, validatePhone } from '@/lib/validation';
+import {
+  Client,
+  ClientInvoicedTotal,
+  ClientTotals,
+  CreateClientRequest,
+  UpdateClientRequest,
+} from '@/types';
+
+export const CLIENT_NAME_MAX_LENGTH = 100;
+
+const EMPTY_TOTALS: ClientTotals = {
+  project_count: 0,
+  tracked_seconds: 0,
+  invoiced: [],
+};
+
+type ClientRow = {
+  name?: string;
+  email?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+};
+
+/**
+ * Checks and trims a client create or update body
+ * @param partial - Update: only the fields present are checked and returned
+ * @returns The row to save, or an error message
+ */
+export function parseClientInput(
+  body: CreateClientRequest | UpdateClientRequest,
+  partial: boolean
+): { row: ClientRow } | { error: string } {
+  const row: ClientRow = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) return { error: 'Client name is required' };
+    if (name.length > CLIENT_NAME_MAX_LENGTH) {
+      return {
+        error: `Client name must be less than ${CLIENT_NAME_MAX_LENGTH} characters`,
+      };
+    }
+    row.name = name;
+  }
+
+  for (const field of ['email', 'address', 'phone', 'notes'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      return { error: `Client ${field} must be text` };
+    }
+    row[field] = value?.trim() || null;
+  }
+
+  const emailError = validateEmail(row.email ?? '');
+  if (emailError) return { error: emailError };
+  const phoneError = validatePhone(row.phone ?? '');
+  if (phoneError) return { error: phoneError };
+
+  return { row };
+}
+
+/** Whether a Postgres error is the one-name-per-workspace index */
+export function isDuplicateClientNameError(
+  error: { code?: string } | null
+): boolean {
+  return error?.code === '23505';
+}
+
+/**
+ * Project count, tracked time and invoiced amounts of every client in a
+ * workspace (computed in the database, so only what the caller may read)
+ */
+export async function getClientTotals(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<Map<string, ClientTotals>> {
+  const { data, error } = await supabase.rpc('get_client_totals', {
+    target_workspace_id: workspaceId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch client totals: ${error.message}`);
+  }
+
+  return new Map(
+    (
+      (data ?? []) as Array<{
+        client_id: string;
+        project_count: number | string;
+        tracked_seconds: number | string;
+        invoiced: ClientInvoicedTotal[] | null;
+      }>
+    ).map(row => [
+      row.client_id,
+      {
+        project_count: Number(row.project_count),
+        tracked_seconds: Number(row.tracked_seconds),
+        invoiced: (row.invoiced ?? []).map(total => ({
+          currency_code: total.currency_code,
+          invoiced: Number(total.invoiced),
+          paid: Number(total.paid),
+        })),
+      },
+    ])
+  );
+}
+
+export function getClientTotalsOrEmpty(
+  totals: Map<string, ClientTotals>,
+  clientId: string
+): ClientTotals {
+  return totals.get(clientId) ?? EMPTY_TOTALS;
+}
+
+/**
+ * Whether a client exists in a workspace the caller can read, for linking a
+ * project in that workspace to it
+ */
+export async function isClientInWorkspace(
+  supabase: SupabaseClient,
+  clientId: string,
+  workspaceId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('id', clientId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch client: ${error.message}`);
+  }
+  return !!data;
+}
+
+type ClientDetails = Pick<Client, 'name' | 'email' | 'address' | 'phone'>;
+
+type ProjectClientFields = {
+  client_name?: string | null;
+  client_email?: string | null;
+  client_address?: string | null;
+  client_phone?: string | null;
+  client?: ClientDetails | ClientDetails[] | null;
+};
+
+/**
+ * Billing details for a project: the linked client (embedded as
+ * `client:client_id (name, email, address, phone)`), else the project's own
+ * client columns for projects without one
+ */
+export function getProjectClientDetails(project: ProjectClientFields): {
+  client_name: string | null;
+  client_email: string | null;
+  client_address: string | null;
+  client_phone: string | null;
+} {
+  // Typed selects give to-one embeds as arrays; PostgREST returns an object
+  const client = Array.isArray(project.client)
+    ? project.client[0]
+    : project.client;
+  if (client) {
+    return {
+      client_name: client.name,
+      client_email: client.email ?? null,
+      client_address: client.address ?? null,
+      client_phone: client.phone ?? null,
+    };
+  }
+  return {
+    client_name: project.client_name ?? null,
+    client_email: project.client_email ?? null,
+    client_address: project.client_address ?? null,
+    client_phone: project.client_phone ?? null,
+  };
+}
@@ -0,0 +1,100 @@
+import {
+  DataExportDocument,
+  FocusInterval,
+  Invoice,
+  InvoiceItem,
+  InvoicePayment,
+  Project,
+  Task,
+  TimeEntry,
+  TimeEntrySegment,
+  User,
+  UserActivityLog,
+  UserFsEntitlement,
+} from '@/types';
+
+/**
+ * Version of the export layout, in the ZIP's manifest.json and at the top of
+ * the JSON document. Bump it when files or fields are renamed, removed or
+ * change meaning; adding fields keeps the version. Exports without a version
+ * are version 1.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+/** Every table in the export, as flat rows */
+export interface DataExportRows {
+  user: User | null;
+  user_fs_entitlement: UserFsEntitlement[];
+  projects: Project[];
+  tasks: Task[];
+  time_entries: TimeEntry[];
+  time_entry_segments: TimeEntrySegment[];
+  focus_intervals: FocusInterval[];
+  work_sessions: Record<string, unknown>[];
+  invoices: Invoice[];
+  invoice_items: InvoiceItem[];
+  invoice_payments: InvoicePayment[];
+  user_activity_log?: UserActivityLog[];
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string | null | undefined) {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const value = key(row);
+    if (!value) continue;
+    const group = groups.get(value);
+    if (group) group.push(row);
+    else groups.set(value, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Nests the flat rows: projects → tasks → time entries (with segments) and
+ * focus intervals, and invoices → items and payments. Rows keep their order.
+ */
+export function buildExportDocument(
+  rows: DataExportRows,
+  exportedAt: Date
+): DataExportDocument {
+  const segmentsByEntry = groupBy(
+    rows.time_entry_segments,
+    segment => segment.time_entry_id
+  );
+  const entriesByTask = groupBy(rows.time_entries, entry => entry.task_id);
+  const focusByTask = groupBy(
+    rows.focus_intervals,
+    interval => interval.task_id
+  );
+  const tasksByProject = groupBy(rows.tasks, task => task.project_id);
+  const itemsByInvoice = groupBy(rows.invoice_items, item => item.invoice_id);
+  const paymentsByInvoice = groupBy(
+    rows.invoice_payments,
+    payment => payment.invoice_id
+  );
+
+  return {
+    schema_version: EXPORT_SCHEMA_VERSION,
+    exported_at: exportedAt.toISOString(),
+    user: rows.user,
+    subscription_entitlements: rows.user_fs_entitlement,
+    projects: rows.projects.map(project => ({
+      ...project,
+      tasks: (tasksByProject.get(project.id) ?? []).map(task => ({
+        ...task,
+        time_entries: (entriesByTask.get(task.id) ?? []).map(entry => ({
+          ...entry,
+          segments: segmentsByEntry.get(entry.id) ?? [],
+        })),
+        focus_intervals: focusByTask.get(task.id) ?? [],
+      })),
+    })),
+    invoices: rows.invoices.map(invoice => ({
+      ...invoice,
+      items: itemsByInvoice.get(invoice.id) ?? [],
+      payments: paymentsByInvoice.get(invoice.id) ?? [],
+    })),
+    work_sessions: rows.work_sessions,
+    ...(rows.user_activity_log && { activity_log: rows.user_activity_log }),
+  };
+}
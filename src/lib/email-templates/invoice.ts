@@ -0,0 +1,171 @@
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import type { InvoicePdfData } from '@/lib/invoice-pdf';
+import { formatDate } from '@/lib/utils';
+
+export const DEFAULT_INVOICE_EMAIL_SUBJECT =
+  'Invoice {invoice_number} from {business_name}';
+
+export const DEFAULT_INVOICE_EMAIL_MESSAGE = `Hello {client_name},
+
+Please find attached invoice {invoice_number} for {amount_due}, due {due_date}.
+
+Thank you for your business.`;
+
+export const INVOICE_EMAIL_PLACEHOLDERS = [
+  '{client_name}',
+  '{business_name}',
+  '{invoice_number}',
+  '{amount_due}',
+  '{due_date}',
+  '{project_name}',
+] as const;
+
+export const INVOICE_EMAIL_MAX_SUBJECT_LENGTH = 200;
+export const INVOICE_EMAIL_MAX_MESSAGE_LENGTH = 5000;
+
+export interface InvoiceEmailValues {
+  clientName: string;
+  businessName: string;
+  invoiceNumber: string;
+  amountDue: string;
+  dueDate: string;
+  projectName: string;
+}
+
+/**
+ * Placeholder values for an invoice email
+ * @param pdfData - Invoice as loaded for the attached PDF
+ * @param fallbackBusinessName - Used when the user has no business name
+ */
+export function getInvoiceEmailValues(
+  pdfData: InvoicePdfData,
+  fallbackBusinessName: string
+): InvoiceEmailValues {
+  const { invoice, business, client } = pdfData;
+  return {
+    clientName: client.client_name || client.name,
+    businessName: business.business_name || fallbackBusinessName,
+    invoiceNumber: invoice.invoice_number,
+    amountDue: formatPriceWithCurrency(
+      Math.max(0, invoice.total_amount - (invoice.amount_paid ?? 0)),
+      invoice.currency_code
+    ),
+    dueDate: invoice.due_date ? formatDate(invoice.due_date) : 'on receipt',
+    projectName: client.name,
+  };
+}
+
+/**
+ * Fills the placeholders of an invoice email subject or message
+ * @param template - Text with {client_name}, {invoice_number}, etc.
+ */
+export function renderInvoiceEmailText(
+  template: string,
+  values: InvoiceEmailValues
+): string {
+  return template
+    .replace(/\{client_name\}/g, values.clientName)
+    .replace(/\{business_name\}/g, values.businessName)
+    .replace(/\{invoice_number\}/g, values.invoiceNumber)
+    .replace(/\{amount_due\}/g, values.amountDue)
+    .replace(/\{due_date\}/g, values.dueDate)
+    .replace(/\{project_name\}/g, values.projectName);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * HTML template for an invoice sent to a client (the PDF is attached)
+ * @param message - Rendered plain-text message; line breaks are kept
+ */
+export function createInvoiceEmailHtml(
+  message: string,
+  values: InvoiceEmailValues
+): string {
+  const body = escapeHtml(message).replace(/\r?\n/g, '<br>');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .summary { background: #f8f9fa; border: 1px solid #e9ecef; padding: 15px; border-radius: 4px; margin: 20px 0; }
+        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <p>${body}</p>
+
+        <div class="summary">
+          <strong>Invoice ${escapeHtml(values.invoiceNumber)}</strong><br>
+          Amount due: ${escapeHtml(values.amountDue)}<br>
+          Due date: ${escapeHtml(values.dueDate)}
+        </div>
+
+        <div class="footer">
+          <p>Sent by ${escapeHtml(values.businessName)} via Orasan. The invoice is attached as a PDF.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export function createInvoiceReminderEmailSubject(
+  values: InvoiceEmailValues,
+  daysOverdue: number
+): string {
+  return `Reminder: invoice ${values.invoiceNumber} is ${daysOverdue} ${daysOverdue === 1 ? 'day' : 'days'} overdue`;
+}
+
+/**
+ * HTML template for an overdue invoice reminder (the PDF is attached)
+ */
+export function createInvoiceReminderEmailHtml(
+  values: InvoiceEmailValues,
+  daysOverdue: number
+): string {
+  const days = `${daysOverdue} ${daysOverdue === 1 ? 'day' : 'days'}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .warning { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 4px; margin: 20px 0; }
+        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <p>Hello ${escapeHtml(values.clientName)},</p>
+        <p>This is a friendly reminder that invoice ${escapeHtml(values.invoiceNumber)} from ${escapeHtml(values.businessName)} was due on ${escapeHtml(values.dueDate)} and is now <strong>${days} overdue</strong>.</p>
+
+        <div class="warning">
+          <strong>Invoice ${escapeHtml(values.invoiceNumber)}</strong><br>
+          Balance due: ${escapeHtml(values.amountDue)}<br>
+          Due date: ${escapeHtml(values.dueDate)}
+        </div>
+
+        <p>A copy of the invoice is attached. If you have already paid, please disregard this message.</p>
+
+        <div class="footer">
+          <p>Sent by ${escapeHtml(values.businessName)} via Orasan. Reply to this email to contact them.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
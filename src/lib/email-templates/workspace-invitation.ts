@@ -0,0 +1,49 @@
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * HTML template for an invitation to join a workspace
+ */
+export function createWorkspaceInvitationEmailHtml(
+  inviterName: string,
+  workspaceName: string,
+  role: string,
+  acceptLink: string,
+  expiresInDays: number
+): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .button { background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block; margin-top: 10px; }
+        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h2>Join ${escapeHtml(workspaceName)} on Orasan</h2>
+        <p>Hello,</p>
+        <p>${escapeHtml(inviterName)} invited you to the <strong>${escapeHtml(workspaceName)}</strong> workspace as ${escapeHtml(role)}.</p>
+
+        <p>Sign in or create an account with this email address, then open the link to accept the invitation:</p>
+        <a href="${acceptLink}" class="button">Accept Invitation</a>
+
+        <p>The link works for ${expiresInDays} days. If you weren't expecting this invitation, you can ignore this email.</p>
+
+        <div class="footer">
+          <p>This is an automated notification. If you have questions, please contact our support team.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
@@ -2,6 +2,7 @@ import { Resend } from 'resend';
 
 import { createAccountDeletionEmailHtml } from '@/lib/email-templates/deletion-confirmation';
 import { createDeletionWarningEmailHtml } from '@/lib/email-templates/deletion-warning';
+import { createWorkspaceInvitationEmailHtml } from '@/lib/email-templates/workspace-invitation';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -74,3 +75,105 @@ export async function sendDeletionWarningEmail(
     };
   }
 }
+
+/**
+ * Sends an invitation to join a workspace
+ */
+export async function sendWorkspaceInvitationEmail({
+  to,
+  inviterName,
+  workspaceName,
+  role,
+  acceptLink,
+  expiresInDays,
+}: {
+  to: string;
+  inviterName: string;
+  workspaceName: string;
+  role: string;
+  acceptLink: string;
+  expiresInDays: number;
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const { error } = await resend.emails.send({
+      from: 'Orasan Notifications <notifications@orasan.app>',
+      to: [to],
+      subject: `${inviterName} invited you to ${workspaceName} - Orasan App`,
+      html: createWorkspaceInvitationEmailHtml(
+        inviterName,
+        workspaceName,
+        role,
+        acceptLink,
+        expiresInDays
+      ),
+    });
+
+    if (error) {
+      console.error('Resend API error:', error);
+      return { success: false, error: 'Failed to send invitation email' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email sending failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Sends an invoice to a client with the PDF attached
+ * @returns The provider message id on success
+ */
+export async function sendInvoiceEmail({
+  to,
+  replyTo,
+  senderName,
+  subject,
+  html,
+  attachment,
+}: {
+  to: string;
+  replyTo?: string | null;
+  senderName: string;
+  subject: string;
+  html: string;
+  attachment: { filename: string; content: Buffer };
+}): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    // Display names cannot contain the address delimiters
+    const fromName = senderName.replace(/[<>"\r\n]/g, '').trim() || 'Orasan';
+
+    const { data, error } = await resend.emails.send({
+      from: `${fromName} via Orasan <notifications@orasan.app>`,
+      to: [to],
+      replyTo: replyTo || undefined,
+      subject,
+      html,
+      attachments: [attachment],
+    });
+
+    if (error) {
+      console.error('Resend API error:', error);
+      return { success: false, error: 'Failed to send invoice email' };
+    }
+
+    return { success: true, messageId: data?.id };
+  } catch (error) {
+    console.error('Email sending failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
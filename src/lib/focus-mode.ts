@@ -0,0 +1,101 @@
+import { UpdateUserRequest, User } from '@/types';
+
+export const DEFAULT_FOCUS_WORK_MINUTES = 25;
+export const DEFAULT_FOCUS_BREAK_MINUTES = 5;
+export const FOCUS_WORK_MAX_MINUTES = 180;
+export const FOCUS_BREAK_MAX_MINUTES = 60;
+
+export type FocusPhase = 'work' | 'break';
+
+/** The task in focus mode and where its current phase stands (browser times) */
+export interface FocusSession {
+  taskId: string;
+  projectId: string;
+  phase: FocusPhase;
+  phaseStartedAt: number;
+  phaseEndsAt: number;
+}
+
+export interface FocusSettings {
+  workMinutes: number;
+  breakMinutes: number;
+  notificationsEnabled: boolean;
+}
+
+/** A user's focus settings, with defaults for profiles without them */
+export function getFocusSettings(user: User | null): FocusSettings {
+  return {
+    workMinutes: user?.focus_work_minutes ?? DEFAULT_FOCUS_WORK_MINUTES,
+    breakMinutes: user?.focus_break_minutes ?? DEFAULT_FOCUS_BREAK_MINUTES,
+    notificationsEnabled: user?.focus_notifications_enabled ?? true,
+  };
+}
+
+function isWholeMinutes(value: unknown, max: number): boolean {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= max
+  );
+}
+
+/**
+ * Validates the focus fields of a profile update
+ * @returns An error message, or null when valid
+ */
+export function validateFocusSettingsInput(
+  updates: Partial<UpdateUserRequest>
+): string | null {
+  if (
+    updates.focus_work_minutes !== undefined &&
+    !isWholeMinutes(updates.focus_work_minutes, FOCUS_WORK_MAX_MINUTES)
+  ) {
+    return `Focus length must be a whole number of minutes between 1 and ${FOCUS_WORK_MAX_MINUTES}`;
+  }
+  if (
+    updates.focus_break_minutes !== undefined &&
+    !isWholeMinutes(updates.focus_break_minutes, FOCUS_BREAK_MAX_MINUTES)
+  ) {
+    return `Break length must be a whole number of minutes between 1 and ${FOCUS_BREAK_MAX_MINUTES}`;
+  }
+  if (
+    updates.focus_notifications_enabled !== undefined &&
+    typeof updates.focus_notifications_enabled !== 'boolean'
+  ) {
+    return 'focus_notifications_enabled must be a boolean';
+  }
+  return null;
+}
+
+/** Asks for browser notification permission if it was never asked */
+export async function requestFocusNotificationPermission(): Promise<void> {
+  if (typeof Notification === 'undefined') return;
+  if (Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+  }
+}
+
+/** Shows a browser notification when permission was granted */
+export function showFocusNotification(title: string, body: string): void {
+  if (typeof Notification === 'undefined') return;
+  if (Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: 'orasan-focus' });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Error showing focus notification:', error);
+  }
+}
+
+/** Countdown label such as "24:59" (hours are added past 60 minutes) */
+export function formatFocusCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mmss = `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
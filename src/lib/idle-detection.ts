@@ -0,0 +1,35 @@
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 10;
+export const IDLE_TIMEOUT_MIN_MINUTES = 1;
+export const IDLE_TIMEOUT_MAX_MINUTES = 240;
+
+/** Note on the entry an idle period is split into */
+export const IDLE_TIME_ENTRY_DESCRIPTION = 'Idle time';
+
+/**
+ * What to do with time a running timer counted while the user was away:
+ * keep it, drop it, or move it to a separate stopped entry on the same task
+ */
+export type IdleTimeAction = 'keep' | 'discard' | 'split';
+
+/** Browser-side span with no input or with the page hidden */
+export interface IdlePeriod {
+  from: number;
+  until: number;
+}
+
+/**
+ * Validates users.idle_timeout_minutes (null turns idle detection off)
+ * @returns An error message, or null when valid
+ */
+export function validateIdleTimeoutMinutes(value: unknown): string | null {
+  if (value === null) return null;
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < IDLE_TIMEOUT_MIN_MINUTES ||
+    value > IDLE_TIMEOUT_MAX_MINUTES
+  ) {
+    return `Idle timeout must be a whole number of minutes between ${IDLE_TIMEOUT_MIN_MINUTES} and ${IDLE_TIMEOUT_MAX_MINUTES}`;
+  }
+  return null;
+}
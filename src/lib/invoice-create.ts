@@ -0,0 +1,450 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { countActiveTimerEntriesOnCompletedTasksInRange } from '@/lib/invoice-active-completed-task-timers';
+import {
+  calculateInvoiceTotals,
+  getInvoiceTaxes,
+  normalizeInvoiceTaxes,
+  validateInvoiceDiscount,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
+import { generateInvoiceNumber } from '@/lib/invoice-utils';
+import {
+  getTimeEntryRangePieces,
+  getTimeEntrySecondsInRange,
+  TIME_ENTRY_SEGMENTS_SELECT,
+} from '@/lib/time-entry-segments';
+import {
+  fetchUserDateSettings,
+  getZonedDayRange,
+  parseCalendarDay,
+} from '@/lib/time-zones';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import {
+  CreateInvoiceRequest,
+  Invoice,
+  InvoiceDiscount,
+  InvoiceItem,
+} from '@/types';
+
+export type CreateInvoiceResult =
+  | { invoice: Invoice & { items: InvoiceItem[] } }
+  /** Invoice and items were created but the combined row could not be re-fetched */
+  | { invoice: Invoice; items: InvoiceItem[]; partial: true }
+  | { error: string; status: number; code?: string };
+
+/**
+ * Creates a draft invoice from a project's stopped time entries on completed tasks
+ * (every workspace member's).
+ * Shared by POST /api/invoices and the invoice schedules cron; the caller handles
+ * auth and the Pro-tier check.
+ *
+ * @param supabase - Supabase client (session client, or admin client for cron jobs)
+ * @param userId - The invoice owner
+ * @param invoiceData - Same payload as POST /api/invoices
+ * @returns The created invoice, or an error with the HTTP status to respond with
+ */
+export async function createInvoiceFromTimeEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  invoiceData: CreateInvoiceRequest
+): Promise<CreateInvoiceResult> {
+  // Validate required fields
+  if (!invoiceData.project_id) {
+    return { error: 'project_id is required', status: 400 };
+  }
+
+  if (
+    !invoiceData.date_range ||
+    !invoiceData.date_range.from ||
+    !invoiceData.date_range.to
+  ) {
+    return { error: 'Date range (from and to) is required', status: 400 };
+  }
+
+  if (!invoiceData.issue_date) {
+    return { error: 'Issue date is required', status: 400 };
+  }
+
+  if (invoiceData.taxes !== undefined) {
+    const taxesError = validateInvoiceTaxes(invoiceData.taxes);
+    if (taxesError) return { error: taxesError, status: 400 };
+  }
+
+  if (
+    invoiceData.tax_inclusive !== undefined &&
+    typeof invoiceData.tax_inclusive !== 'boolean'
+  ) {
+    return { error: 'tax_inclusive must be a boolean', status: 400 };
+  }
+
+  const discountError =
+    validateInvoiceDiscount(invoiceData.discount) ??
+    Object.values(invoiceData.item_overrides ?? {})
+      .map(override => validateInvoiceDiscount(override.discount))
+      .find(Boolean);
+  if (discountError) return { error: discountError, status: 400 };
+
+  const projectId = invoiceData.project_id;
+
+  // Verify the project exists, and fetch pricing info
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, workspace_id, rate_type, price, currency_code')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError || !project) {
+    return { error: 'Project not found', status: 404 };
+  }
+
+  // The admin client used by cron jobs sees every project, so check the role
+  const role = await getWorkspaceRole(supabase, userId, project.workspace_id);
+  if (!role) {
+    return { error: 'Project not found', status: 404 };
+  }
+  if (!hasWorkspacePermission(role, 'manage_invoices')) {
+    return {
+      error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_invoices,
+      status: 403,
+    };
+  }
+
+  // Generate invoice number
+  const { invoiceNumber, error: invoiceNumberError } =
+    await generateInvoiceNumber(
+      supabase,
+      userId,
+      invoiceData.invoice_number,
+      invoiceData.issue_date
+    );
+
+  if (invoiceNumberError || !invoiceNumber) {
+    return {
+      error: invoiceNumberError || 'Failed to generate invoice number',
+      status: 400,
+    };
+  }
+
+  // Parse date range: whole calendar days in the user's time zone
+  const fromKey = parseCalendarDay(invoiceData.date_range.from);
+  const toKey = parseCalendarDay(invoiceData.date_range.to);
+  if (!fromKey || !toKey || fromKey > toKey) {
+    return { error: 'Invalid date range', status: 400 };
+  }
+  const { timeZone } = await fetchUserDateSettings(
+    supabase,
+    userId,
+    invoiceData.date_range.time_zone
+  );
+  const { start: fromDate, end: toDate } = getZonedDayRange(
+    fromKey,
+    timeZone,
+    toKey
+  );
+
+  const activeOnCompletedCount =
+    await countActiveTimerEntriesOnCompletedTasksInRange(
+      supabase,
+      userId,
+      projectId,
+      fromDate,
+      toDate
+    );
+
+  if (activeOnCompletedCount > 0) {
+    return {
+      error: `There ${activeOnCompletedCount === 1 ? 'is an active timer' : 'are active timers'} on completed tasks for this period. Stop ${activeOnCompletedCount === 1 ? 'it' : 'them'} from the invoice editor (or task timers) before creating the invoice.`,
+      status: 400,
+      code: 'ACTIVE_TIMERS_ON_COMPLETED_TASKS',
+    };
+  }
+
+  // Fetch stopped time entries within date range for this project
+  const { data: timeEntriesRaw, error: timeEntriesError } = await supabase
+    .from('time_entries')
+    .select(
+      `
+      id,
+      task_id,
+      duration_seconds,
+      start_time,
+      end_time,
+      description,
+      ${TIME_ENTRY_SEGMENTS_SELECT},
+      task:task_id (
+        id,
+        name,
+        description,
+        rate_type,
+        price,
+        status
+      )
+    `
+    )
+    // Everyone's time in the project's workspace is billed
+    .eq('project_id', projectId)
+    .eq('timer_status', 'stopped')
+    .gte('end_time', fromDate.toISOString())
+    .or(`start_time.is.null,start_time.lte.${toDate.toISOString()}`)
+    .order('end_time', { ascending: true });
+
+  if (timeEntriesError) {
+    console.error('Error fetching time entries:', timeEntriesError);
+    return { error: 'Failed to fetch time entries', status: 500 };
+  }
+
+  // Only include entries from completed tasks (task is single relation object from Supabase)
+  // that were worked inside the range; they count for the time worked in it
+  let timeEntries = (timeEntriesRaw || []).filter(
+    entry =>
+      (entry as { task?: { status?: string } | null }).task?.status ===
+        'completed' &&
+      getTimeEntryRangePieces(entry, fromDate, toDate).length > 0
+  );
+
+  // Exclude entries from tasks the user removed from the preview
+  const excludeTaskIds = invoiceData.exclude_task_ids ?? [];
+  if (excludeTaskIds.length > 0) {
+    timeEntries = timeEntries.filter(
+      (entry: { task_id: string }) => !excludeTaskIds.includes(entry.task_id)
+    );
+  }
+
+  if (timeEntries.length === 0) {
+    return {
+      error:
+        'No stopped time entries from completed tasks in the selected date range',
+      status: 400,
+    };
+  }
+
+  // Group time entries by task and calculate totals
+  const taskGroups = new Map<
+    string,
+    {
+      task: {
+        id: string;
+        name: string;
+        description?: string;
+        rate_type?: string | null;
+        price?: number | null;
+      };
+      totalDurationSeconds: number;
+      timeEntryIds: string[];
+      notes: string[];
+    }
+  >();
+
+  for (const entry of timeEntries) {
+    // Supabase returns task as an object (not array) when using single foreign key relation
+    const task = entry.task as unknown as {
+      id: string;
+      name: string;
+      description?: string;
+      rate_type?: string | null;
+      price?: number | null;
+      status?: string;
+    };
+
+    if (!taskGroups.has(entry.task_id)) {
+      taskGroups.set(entry.task_id, {
+        task,
+        totalDurationSeconds: 0,
+        timeEntryIds: [],
+        notes: [],
+      });
+    }
+
+    const group = taskGroups.get(entry.task_id)!;
+    group.totalDurationSeconds += getTimeEntrySecondsInRange(
+      entry,
+      fromDate,
+      toDate
+    );
+    group.timeEntryIds.push(entry.id);
+    const note = entry.description?.trim();
+    if (note && !group.notes.includes(note)) {
+      group.notes.push(note);
+    }
+  }
+
+  // Calculate invoice items
+  const currencyCode =
+    invoiceData.currency_code || project.currency_code || 'USD';
+  const invoiceItems: Array<{
+    task_id: string | null;
+    name: string;
+    description?: string;
+    quantity: number;
+    unit_price: number;
+    discount: InvoiceDiscount | null;
+    rate_type: 'hourly' | 'fixed' | null;
+  }> = [];
+
+  const itemOverrides = invoiceData.item_overrides ?? {};
+  const includeTimeEntryNotes = invoiceData.include_time_entry_notes === true;
+
+  for (const [, group] of taskGroups) {
+    const { task, totalDurationSeconds, notes } = group;
+
+    // Use overrides if provided, otherwise compute from time entries
+    const override = itemOverrides[task.id];
+    let q: number;
+    let u: number;
+
+    if (override) {
+      q = Math.round(override.quantity * 100) / 100;
+      u = Math.round(override.unit_price * 100) / 100;
+    } else {
+      // Determine rate: task rate → project rate → fallback to 0
+      let rateType: 'hourly' | 'fixed' | null = null;
+      let rate: number = 0;
+
+      if (task.rate_type && task.price !== null && task.price !== undefined) {
+        rateType = task.rate_type as 'hourly' | 'fixed';
+        rate = task.price;
+      } else if (
+        project.rate_type &&
+        project.price !== null &&
+        project.price !== undefined
+      ) {
+        rateType = project.rate_type as 'hourly' | 'fixed';
+        rate = project.price;
+      }
+
+      let quantity = 1;
+      let unitCost = 0;
+
+      if (rateType === 'hourly' && rate > 0) {
+        const hours = totalDurationSeconds / 3600;
+        quantity = hours;
+        unitCost = rate;
+      } else if (rateType === 'fixed' && rate > 0) {
+        quantity = 1;
+        unitCost = rate;
+      } else {
+        const hours = totalDurationSeconds / 3600;
+        quantity = hours;
+        unitCost = 0;
+      }
+
+      q = Math.round(quantity * 100) / 100;
+      u = Math.round(unitCost * 100) / 100;
+    }
+
+    const rateType =
+      task.rate_type && task.price != null
+        ? (task.rate_type as 'hourly' | 'fixed')
+        : project.rate_type && project.price != null
+          ? (project.rate_type as 'hourly' | 'fixed')
+          : null;
+
+    // Optionally roll time entry notes (in chronological order) into the item description
+    const descriptionLines = [
+      task.description?.trim(),
+      ...(includeTimeEntryNotes ? notes.map(note => `- ${note}`) : []),
+    ].filter(Boolean);
+
+    invoiceItems.push({
+      task_id: task.id,
+      name: task.name,
+      description: descriptionLines.join('\n') || undefined,
+      quantity: q,
+      unit_price: u,
+      discount: override?.discount ?? null,
+      rate_type: rateType ?? null,
+    });
+  }
+
+  if (invoiceItems.length === 0) {
+    return { error: 'No invoice items to create', status: 400 };
+  }
+
+  // Calculate discounts, taxes and total
+  const totals = calculateInvoiceTotals({
+    items: invoiceItems,
+    discount: invoiceData.discount,
+    taxes:
+      invoiceData.taxes !== undefined
+        ? normalizeInvoiceTaxes(invoiceData.taxes)
+        : getInvoiceTaxes({ tax_rate: invoiceData.tax_rate }),
+    tax_inclusive: invoiceData.tax_inclusive,
+  });
+
+  // Create invoice
+  const { data: newInvoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .insert({
+      user_id: userId,
+      project_id: projectId,
+      invoice_number: invoiceNumber,
+      status: 'draft',
+      issue_date: invoiceData.issue_date,
+      due_date: invoiceData.due_date || null,
+      subtotal: totals.subtotal,
+      discount_type: totals.discount_type,
+      discount_value: totals.discount_value,
+      discount_amount: totals.discount_amount,
+      taxes: totals.taxes,
+      tax_inclusive: totals.tax_inclusive,
+      tax_rate: totals.tax_rate,
+      tax_amount: totals.tax_amount,
+      total_amount: totals.total_amount,
+      currency_code: currencyCode,
+      notes: invoiceData.notes || null,
+    })
+    .select()
+    .single();
+
+  if (invoiceError) {
+    console.error('Error creating invoice:', invoiceError);
+    return { error: 'Failed to create invoice', status: 500 };
+  }
+
+  // Create invoice items
+  const itemsToInsert = invoiceItems.map((item, index) => ({
+    invoice_id: newInvoice.id,
+    task_id: item.task_id,
+    name: item.name,
+    description: item.description || null,
+    ...totals.items[index],
+    rate_type: item.rate_type ?? null,
+  }));
+
+  const { data: newInvoiceItems, error: itemsError } = await supabase
+    .from('invoice_items')
+    .insert(itemsToInsert)
+    .select();
+
+  if (itemsError) {
+    console.error('Error creating invoice items:', itemsError);
+    // Rollback: delete the invoice if items creation fails
+    await supabase.from('invoices').delete().eq('id', newInvoice.id);
+    return { error: 'Failed to create invoice items', status: 500 };
+  }
+
+  // Fetch the complete invoice with items
+  const { data: invoiceWithItems, error: fetchError } = await supabase
+    .from('invoices')
+    .select(
+      `
+      *,
+      items:invoice_items (*)
+    `
+    )
+    .eq('id', newInvoice.id)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching created invoice:', fetchError);
+    // Invoice and items were created, but we can't fetch it - return what we have
+    return { invoice: newInvoice, items: newInvoiceItems, partial: true };
+  }
+
+  return { invoice: invoiceWithItems };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatInvoiceNumber,
+  getInvoiceNumberYear,
+  getNextInvoiceCounter,
+  InvoiceNumberingSettings,
+  validateInvoiceNumberingInput,
+} from '@/lib/invoice-numbering';
+
+const settings: InvoiceNumberingSettings = {
+  invoice_number_prefix: 'INV-{YYYY}-',
+  invoice_number_padding: 4,
+  invoice_number_next: 42,
+  invoice_number_reset_yearly: false,
+  invoice_number_year: 2025,
+};
+
+describe('formatInvoiceNumber', () => {
+  it('fills in the date tokens and pads the counter', () => {
+    expect(formatInvoiceNumber(settings, 42, '2026-03-09')).toBe(
+      'INV-2026-0042'
+    );
+    expect(
+      formatInvoiceNumber(
+        { invoice_number_prefix: '{YY}{MM}/', invoice_number_padding: 3 },
+        7,
+        '2026-03-09'
+      )
+    ).toBe('2603/007');
+  });
+
+  it('does not cut counters longer than the padding', () => {
+    expect(
+      formatInvoiceNumber(
+        { invoice_number_prefix: '', invoice_number_padding: 2 },
+        12345,
+        '2026-03-09'
+      )
+    ).toBe('12345');
+  });
+});
+
+describe('getInvoiceNumberYear', () => {
+  it('reads the year of the issue date', () => {
+    expect(getInvoiceNumberYear('2024-12-31')).toBe(2024);
+  });
+
+  it('falls back to the current year', () => {
+    expect(getInvoiceNumberYear()).toBe(new Date().getUTCFullYear());
+  });
+});
+
+describe('getNextInvoiceCounter', () => {
+  it('continues the stored counter', () => {
+    expect(getNextInvoiceCounter(settings, 2026, 1)).toBe(42);
+  });
+
+  it('continues after existing numbers before the first generated one', () => {
+    expect(
+      getNextInvoiceCounter({ ...settings, invoice_number_next: null }, 2025, 8)
+    ).toBe(8);
+  });
+
+  it('restarts at 1 in a new year when resetting yearly', () => {
+    const yearly = { ...settings, invoice_number_reset_yearly: true };
+    expect(getNextInvoiceCounter(yearly, 2026, 1)).toBe(1);
+    expect(getNextInvoiceCounter(yearly, 2025, 1)).toBe(42);
+    // Backdated invoices keep counting instead of restarting the old year
+    expect(getNextInvoiceCounter(yearly, 2024, 1)).toBe(42);
+  });
+});
+
+describe('validateInvoiceNumberingInput', () => {
+  it('accepts valid settings', () => {
+    expect(
+      validateInvoiceNumberingInput({
+        invoice_number_prefix: 'INV-{YYYY}{MM}-',
+        invoice_number_padding: 5,
+        invoice_number_next: 100,
+        invoice_number_reset_yearly: true,
+      })
+    ).toBeNull();
+    expect(validateInvoiceNumberingInput({})).toBeNull();
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(
+      validateInvoiceNumberingInput({ invoice_number_prefix: 'INV-{DD}-' })
+    ).toMatch(/placeholders/);
+  });
+
+  it('rejects out-of-range numbers', () => {
+    expect(
+      validateInvoiceNumberingInput({ invoice_number_padding: 11 })
+    ).toMatch(/padding/);
+    expect(validateInvoiceNumberingInput({ invoice_number_next: 0 })).toMatch(
+      /Next invoice number/
+    );
+    expect(validateInvoiceNumberingInput({ invoice_number_next: 1.5 })).toMatch(
+      /Next invoice number/
+    );
+  });
+});
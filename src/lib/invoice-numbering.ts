@@ -0,0 +1,127 @@
+import { UpdateUserRequest, User } from '@/types';
+
+export const INVOICE_NUMBER_TOKENS = ['{YYYY}', '{YY}', '{MM}'] as const;
+export const INVOICE_NUMBER_MAX_PREFIX_LENGTH = 30;
+export const INVOICE_NUMBER_MAX_PADDING = 10;
+export const INVOICE_NUMBER_MAX_COUNTER = 999999999;
+
+/**
+ * Numbering settings live on the user, not the workspace: each issuer has one
+ * sequence for all their invoices, matching the business details on the PDF
+ */
+export type InvoiceNumberingSettings = Pick<
+  User,
+  | 'invoice_number_prefix'
+  | 'invoice_number_padding'
+  | 'invoice_number_next'
+  | 'invoice_number_reset_yearly'
+  | 'invoice_number_year'
+>;
+
+/** Calendar year of a YYYY-MM-DD date (the current UTC year when missing) */
+export function getInvoiceNumberYear(issueDate?: string): number {
+  const year = parseInt((issueDate ?? '').slice(0, 4), 10);
+  return Number.isNaN(year) ? new Date().getUTCFullYear() : year;
+}
+
+/**
+ * Builds an invoice number from the user's prefix and a counter value
+ * @param settings - Prefix ({YYYY}, {YY} and {MM} are replaced) and zero-padding
+ * @param counter - Sequence number
+ * @param issueDate - YYYY-MM-DD date the tokens are taken from
+ * @returns e.g. "INV-2026-0042" for prefix "INV-{YYYY}-" and padding 4
+ */
+export function formatInvoiceNumber(
+  settings: Pick<
+    InvoiceNumberingSettings,
+    'invoice_number_prefix' | 'invoice_number_padding'
+  >,
+  counter: number,
+  issueDate?: string
+): string {
+  const year = String(getInvoiceNumberYear(issueDate));
+  const month =
+    issueDate && /^\d{4}-\d{2}/.test(issueDate)
+      ? issueDate.slice(5, 7)
+      : String(new Date().getUTCMonth() + 1).padStart(2, '0');
+  const prefix = (settings.invoice_number_prefix ?? '')
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, month);
+  return `${prefix}${String(counter).padStart(settings.invoice_number_padding ?? 1, '0')}`;
+}
+
+/**
+ * Counter value the next auto-generated invoice gets
+ * @param settings - The user's numbering settings
+ * @param year - Year of the new invoice's issue date
+ * @param fallbackCounter - Used before the first generated number (continues
+ *   after the highest numeric invoice number)
+ */
+export function getNextInvoiceCounter(
+  settings: InvoiceNumberingSettings,
+  year: number,
+  fallbackCounter: number
+): number {
+  if (
+    settings.invoice_number_reset_yearly &&
+    settings.invoice_number_year != null &&
+    year > settings.invoice_number_year
+  ) {
+    return 1;
+  }
+  return settings.invoice_number_next ?? fallbackCounter;
+}
+
+/**
+ * Validates the numbering fields sent to the users API
+ * @returns Error message, or null when valid
+ */
+export function validateInvoiceNumberingInput(
+  input: Partial<UpdateUserRequest>
+): string | null {
+  const {
+    invoice_number_prefix: prefix,
+    invoice_number_padding: padding,
+    invoice_number_next: next,
+    invoice_number_reset_yearly: resetYearly,
+  } = input;
+
+  if (prefix !== undefined) {
+    if (typeof prefix !== 'string') {
+      return 'Invoice number prefix must be a string';
+    }
+    if (prefix.length > INVOICE_NUMBER_MAX_PREFIX_LENGTH) {
+      return `Invoice number prefix must be ${INVOICE_NUMBER_MAX_PREFIX_LENGTH} characters or less`;
+    }
+    if (/\{(?!YYYY\}|YY\}|MM\})[^}]*\}/.test(prefix)) {
+      return `Invoice number prefix supports only the ${INVOICE_NUMBER_TOKENS.join(', ')} placeholders`;
+    }
+  }
+
+  if (
+    padding !== undefined &&
+    (typeof padding !== 'number' ||
+      !Number.isInteger(padding) ||
+      padding < 1 ||
+      padding > INVOICE_NUMBER_MAX_PADDING)
+  ) {
+    return `Invoice number padding must be a whole number between 1 and ${INVOICE_NUMBER_MAX_PADDING}`;
+  }
+
+  if (
+    next !== undefined &&
+    (typeof next !== 'number' ||
+      !Number.isInteger(next) ||
+      next < 1 ||
+      next > INVOICE_NUMBER_MAX_COUNTER)
+  ) {
+    return `Next invoice number must be a whole number between 1 and ${INVOICE_NUMBER_MAX_COUNTER}`;
+  }
+
+  if (resetYearly !== undefined && typeof resetYearly !== 'boolean') {
+    return 'invoice_number_reset_yearly must be a boolean';
+  }
+
+  return null;
+}
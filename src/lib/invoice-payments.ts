@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import {
+  CreateInvoicePaymentRequest,
+  InvoicePayment,
+  InvoicePaymentMethod,
+  InvoiceStatus,
+} from '@/types';
+
+export const INVOICE_PAYMENT_METHOD_OPTIONS: Array<{
+  value: InvoicePaymentMethod;
+  label: string;
+}> = [
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'check', label: 'Check' },
+  { value: 'paypal', label: 'PayPal' },
+  { value: 'other', label: 'Other' },
+];
+
+export const INVOICE_PAYMENT_MAX_REFERENCE_LENGTH = 200;
+
+// Payments can be recorded until the invoice is settled or cancelled
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = [
+  'draft',
+  'sent',
+  'overdue',
+];
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getInvoiceAmountPaid(
+  payments: Array<Pick<InvoicePayment, 'amount'>> | null | undefined
+): number {
+  return roundCurrency(
+    (payments ?? []).reduce((sum, p) => sum + Number(p.amount), 0)
+  );
+}
+
+/**
+ * Amount still owed on an invoice (never negative)
+ * @param totalAmount - Invoice total
+ * @param payments - Payments recorded against the invoice
+ */
+export function getInvoiceBalanceDue(
+  totalAmount: number,
+  payments: Array<Pick<InvoicePayment, 'amount'>> | null | undefined
+): number {
+  return Math.max(
+    0,
+    roundCurrency(Number(totalAmount) - getInvoiceAmountPaid(payments))
+  );
+}
+
+export function formatPaymentMethod(method: string): string {
+  return (
+    INVOICE_PAYMENT_METHOD_OPTIONS.find(o => o.value === method)?.label ??
+    method
+  );
+}
+
+/**
+ * Validates a payment sent to the invoice payments API
+ * @param input - Create payload
+ * @param balanceDue - Balance before this payment; payments cannot exceed it
+ * @returns Error message, or null when valid
+ */
+export function validateInvoicePaymentInput(
+  input: Partial<CreateInvoicePaymentRequest>,
+  balanceDue?: number
+): string | null {
+  if (
+    typeof input.amount !== 'number' ||
+    !Number.isFinite(input.amount) ||
+    input.amount <= 0
+  ) {
+    return 'Amount must be greater than 0';
+  }
+
+  if (roundCurrency(input.amount) !== input.amount) {
+    return 'Amount can have at most 2 decimal places';
+  }
+
+  if (balanceDue !== undefined && input.amount > balanceDue) {
+    return 'Amount cannot exceed the balance due';
+  }
+
+  if (
+    typeof input.paid_on !== 'string' ||
+    !DATE_KEY_PATTERN.test(input.paid_on) ||
+    isNaN(new Date(`${input.paid_on}T00:00:00Z`).getTime())
+  ) {
+    return 'Payment date must be a valid date (YYYY-MM-DD)';
+  }
+
+  if (
+    input.method !== undefined &&
+    !INVOICE_PAYMENT_METHOD_OPTIONS.some(o => o.value === input.method)
+  ) {
+    return 'Invalid payment method';
+  }
+
+  if (
+    input.reference &&
+    input.reference.length > INVOICE_PAYMENT_MAX_REFERENCE_LENGTH
+  ) {
+    return `Reference cannot exceed ${INVOICE_PAYMENT_MAX_REFERENCE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Moves an invoice to paid once its payments cover the total
+ * @returns The new status, or null when the status did not change
+ */
+export async function markInvoicePaidIfSettled(
+  supabase: SupabaseClient,
+  invoiceId: string
+): Promise<InvoiceStatus | null> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, status, total_amount, payments:invoice_payments(amount)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    console.error('Error loading invoice payments:', invoiceError);
+    return null;
+  }
+
+  if (
+    !PAYABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus) ||
+    getInvoiceBalanceDue(invoice.total_amount, invoice.payments) > 0
+  ) {
+    return null;
+  }
+
+  // Guard on the status we read so a concurrent cancel is not overwritten
+  const { data: updated, error: updateError } = await supabase
+    .from('invoices')
+    .update({ status: 'paid' })
+    .eq('id', invoiceId)
+    .eq('status', invoice.status)
+    .select('id');
+
+  if (updateError) {
+    console.error('Error marking invoice as paid:', updateError);
+    return null;
+  }
+
+  return updated && updated.length > 0 ? 'paid' : null;
+}
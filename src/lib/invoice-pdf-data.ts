@@ -0,0 +1,196 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { getProjectClientDetails } from '@/lib/clients';
+import { getInvoiceAmountPaid } from '@/lib/invoice-payments';
+import { InvoicePdfData } from '@/lib/invoice-pdf';
+import { Client, InvoiceDiscountType, InvoiceTaxLine } from '@/types';
+
+export type InvoicePdfDataResult =
+  | { pdfData: InvoicePdfData }
+  | { error: string; status: number };
+
+/**
+ * User who issued an invoice, whose business details go on its PDF. Read
+ * with the caller's session so only workspace members find it.
+ * @returns The issuer's id, or null when the caller cannot see the invoice
+ */
+export async function findInvoiceIssuer(
+  supabase: SupabaseClient,
+  invoiceId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('user_id')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch invoice: ${error.message}`);
+  }
+  return data?.user_id ?? null;
+}
+
+/**
+ * Loads an invoice with its project, items and the owner's business details
+ * in the shape generateInvoicePdf expects
+ * @param supabase - Admin client; profiles of other members are not readable
+ *   with a session, so callers check access first (see findInvoiceIssuer)
+ * @param userId - Issuer of the invoice, whose business details go on it
+ * @param invoiceId - Invoice to load
+ */
+export async function fetchInvoicePdfData(
+  supabase: SupabaseClient,
+  userId: string,
+  invoiceId: string
+): Promise<InvoicePdfDataResult> {
+  // Fetch invoice with project and items (same shape as GET /api/invoices/[id])
+  const { data: invoiceRow, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(
+      `
+      *,
+      project:project_id (
+        id,
+        name,
+        client_name,
+        client_email,
+        client_address,
+        client_phone,
+        client:client_id (
+          name,
+          email,
+          address,
+          phone
+        )
+      ),
+      items:invoice_items (
+        name,
+        description,
+        quantity,
+        rate_type,
+        unit_price,
+        total_cost,
+        discount_type,
+        discount_value,
+        discount_amount
+      ),
+      payments:invoice_payments (
+        amount
+      )
+    `
+    )
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoiceRow) {
+    return { error: 'Invoice not found', status: 404 };
+  }
+
+  // Fetch business info (user profile)
+  const { data: userRow, error: userError } = await supabase
+    .from('users')
+    .select(
+      'business_name, business_email, business_address, business_phone, tax_id'
+    )
+    .eq('id', userId)
+    .single();
+
+  if (userError || !userRow) {
+    return { error: 'User profile not found', status: 500 };
+  }
+
+  const project = invoiceRow.project as {
+    name: string;
+    client_name?: string | null;
+    client_email?: string | null;
+    client_address?: string | null;
+    client_phone?: string | null;
+    client?: Pick<Client, 'name' | 'email' | 'address' | 'phone'> | null;
+  } | null;
+  const items = (invoiceRow.items ?? []) as Array<{
+    name: string;
+    description?: string | null;
+    quantity: number;
+    rate_type?: string | null;
+    unit_price: number;
+    total_cost: number;
+    discount_type?: InvoiceDiscountType | null;
+    discount_value?: number | null;
+    discount_amount?: number | null;
+  }>;
+
+  return {
+    pdfData: {
+      invoice: {
+        invoice_number: invoiceRow.invoice_number,
+        status: invoiceRow.status,
+        issue_date: invoiceRow.issue_date,
+        due_date: invoiceRow.due_date ?? null,
+        subtotal: Number(invoiceRow.subtotal),
+        discount_type: invoiceRow.discount_type ?? null,
+        discount_value:
+          invoiceRow.discount_value != null
+            ? Number(invoiceRow.discount_value)
+            : null,
+        discount_amount: Number(invoiceRow.discount_amount ?? 0),
+        taxes: (invoiceRow.taxes ?? []) as InvoiceTaxLine[],
+        tax_inclusive: invoiceRow.tax_inclusive === true,
+        tax_rate: Number(invoiceRow.tax_rate ?? 0),
+        tax_amount: Number(invoiceRow.tax_amount ?? 0),
+        total_amount: Number(invoiceRow.total_amount),
+        amount_paid: getInvoiceAmountPaid(invoiceRow.payments),
+        currency_code: invoiceRow.currency_code ?? 'USD',
+        notes: invoiceRow.notes ?? null,
+      },
+      items: items.map(
+        ({
+          name,
+          description,
+          quantity,
+          rate_type,
+          unit_price,
+          total_cost,
+          discount_type,
+          discount_value,
+          discount_amount,
+        }) => ({
+          name,
+          description: description ?? null,
+          quantity,
+          rate_type: rate_type ?? null,
+          unit_price,
+          total_cost,
+          discount_type: discount_type ?? null,
+          discount_value:
+            discount_value != null ? Number(discount_value) : null,
+          discount_amount: Number(discount_amount ?? 0),
+        })
+      ),
+      business: {
+        business_name: userRow.business_name ?? null,
+        business_email: userRow.business_email ?? null,
+        business_address: userRow.business_address ?? null,
+        business_phone: userRow.business_phone ?? null,
+        tax_id: userRow.tax_id ?? null,
+      },
+      client: {
+        name: project?.name ?? '—',
+        ...getProjectClientDetails(project ?? {}),
+      },
+    },
+  };
+}
+
+/**
+ * File name for a downloaded or attached invoice PDF
+ * @returns Name like "invoice-INV-0001.pdf" with unsafe characters replaced
+ */
+export function getInvoicePdfFilename(
+  invoiceNumber: string | null | undefined,
+  invoiceId: string
+): string {
+  return `invoice-${invoiceNumber ?? invoiceId}.pdf`.replace(
+    /[^a-zA-Z0-9.-]/g,
+    '_'
+  );
+}
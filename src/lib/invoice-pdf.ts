@@ -1,8 +1,16 @@
 import PDFDocument from 'pdfkit';
 
 import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  formatInvoiceAdjustment,
+  formatInvoiceDiscount,
+  getInvoiceAdjustmentRows,
+  getInvoiceDiscount,
+  getInvoiceItemAmount,
+} from '@/lib/invoice-totals';
 import { INVOICE_ITEMS_PER_PAGE } from '@/lib/invoice-utils';
 import { formatDate } from '@/lib/utils';
+import { InvoiceDiscountType, InvoiceTaxLine } from '@/types';
 
 /** Data shape for PDF generation (matches API/DB snake_case for invoice, user, project) */
 export interface InvoicePdfData {
@@ -12,18 +20,29 @@ export interface InvoicePdfData {
     issue_date: string;
     due_date?: string | null;
     subtotal: number;
+    discount_type?: InvoiceDiscountType | null;
+    discount_value?: number | null;
+    discount_amount?: number;
+    taxes?: InvoiceTaxLine[];
+    tax_inclusive?: boolean;
     tax_rate: number;
     tax_amount: number;
     total_amount: number;
+    /** Sum of recorded payments; the PDF shows the balance due when set */
+    amount_paid?: number;
     currency_code: string;
     notes?: string | null;
   };
   items: Array<{
     name: string;
+    description?: string | null;
     quantity: number;
     rate_type?: string | null;
     unit_price: number;
     total_cost: number;
+    discount_type?: InvoiceDiscountType | null;
+    discount_value?: number | null;
+    discount_amount?: number;
   }>;
   business: {
     business_name?: string | null;
@@ -105,6 +124,11 @@ export async function generateInvoicePdf(
 
     const { invoice, items, business, client } = data;
     const currencyCode = invoice.currency_code;
+    const amountPaid = invoice.amount_paid ?? 0;
+    const balanceDue = Math.max(
+      0,
+      Math.round((invoice.total_amount - amountPaid) * 100) / 100
+    );
 
     const blockLeft = CONTENT_LEFT_INSET;
     const blockRight = CONTENT_WIDTH - CONTENT_RIGHT_INSET;
@@ -231,19 +255,37 @@ export async function generateInvoicePdf(
       });
 
       // Body rows for this page
-      const itemsBodyData: Array<Array<TableCell>> = pageItems.map(item => [
-        { text: item.name, ...leftAlign },
-        { text: String(item.quantity), ...rightAlign },
-        {
-          text: formatPriceWithCurrency(item.unit_price, currencyCode, false),
-          ...rightAlign,
-        },
-        { text: formatRateType(item.rate_type ?? null), ...rightAlign },
-        {
-          text: formatPriceWithCurrency(item.total_cost, currencyCode, false),
-          ...rightAlign,
-        },
-      ]);
+      const itemsBodyData: Array<Array<TableCell>> = pageItems.map(item => {
+        const discount = getInvoiceDiscount(item);
+        const discountAmount = item.discount_amount ?? 0;
+        const nameLines = [
+          item.name,
+          item.description?.trim(),
+          discount && discountAmount > 0
+            ? `Discount ${formatInvoiceDiscount(discount, currencyCode)}: -${formatPriceWithCurrency(discountAmount, currencyCode, false)}`
+            : '',
+        ].filter(Boolean);
+        return [
+          {
+            text: nameLines.join('\n'),
+            ...leftAlign,
+          },
+          { text: String(item.quantity), ...rightAlign },
+          {
+            text: formatPriceWithCurrency(item.unit_price, currencyCode, false),
+            ...rightAlign,
+          },
+          { text: formatRateType(item.rate_type ?? null), ...rightAlign },
+          {
+            text: formatPriceWithCurrency(
+              getInvoiceItemAmount(item),
+              currencyCode,
+              false
+            ),
+            ...rightAlign,
+          },
+        ];
+      });
       doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
       doc.table({
         position: { x: blockLeft, y: doc.y },
@@ -252,7 +294,8 @@ export async function generateInvoicePdf(
         rowStyles: {
           border: [0, 0, 1, 0] as [number, number, number, number],
           borderColor: '#cbd5e1',
-          height: TABLE_ROW_HEIGHT,
+          // Rows grow to fit multi-line item descriptions
+          minHeight: TABLE_ROW_HEIGHT,
         },
         data: itemsBodyData,
       });
@@ -280,13 +323,13 @@ export async function generateInvoicePdf(
               ...totalsRightAlign,
             },
           ],
-          [
-            { text: `Tax (${invoice.tax_rate ?? 0}%)`, ...totalsLeftAlign },
+          ...getInvoiceAdjustmentRows(invoice).map(row => [
+            { text: row.label, ...totalsLeftAlign },
             {
-              text: formatPriceWithCurrency(invoice.tax_amount, currencyCode),
+              text: formatInvoiceAdjustment(row.amount, currencyCode),
               ...totalsRightAlign,
             },
-          ],
+          ]),
           [
             { text: 'Total', ...totalsLeftAlign },
             {
@@ -294,6 +337,17 @@ export async function generateInvoicePdf(
               ...totalsRightAlign,
             },
           ],
+          ...(amountPaid > 0
+            ? [
+                [
+                  { text: 'Amount paid', ...totalsLeftAlign },
+                  {
+                    text: `-${formatPriceWithCurrency(amountPaid, currencyCode)}`,
+                    ...totalsRightAlign,
+                  },
+                ],
+              ]
+            : []),
         ];
         doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
         doc.table({
@@ -312,7 +366,7 @@ export async function generateInvoicePdf(
           [
             { text: 'Amount due', ...totalsLeftAlign },
             {
-              text: formatPriceWithCurrency(invoice.total_amount, currencyCode),
+              text: formatPriceWithCurrency(balanceDue, currencyCode),
               ...totalsRightAlign,
             },
           ],
@@ -0,0 +1,72 @@
+export const DEFAULT_INVOICE_REMINDER_DAYS = [3, 7, 14];
+export const INVOICE_REMINDER_MAX_STEPS = 5;
+export const INVOICE_REMINDER_MAX_DAYS = 365;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Cleans up a reminder sequence sent to the users API
+ * @param value - Days overdue, e.g. [3, 7, 14]
+ * @returns Sorted, de-duplicated days, or null when the sequence is invalid
+ */
+export function normalizeInvoiceReminderDays(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+  if (
+    !value.every(
+      day =>
+        typeof day === 'number' &&
+        Number.isInteger(day) &&
+        day >= 1 &&
+        day <= INVOICE_REMINDER_MAX_DAYS
+    )
+  ) {
+    return null;
+  }
+  const days = [...new Set(value as number[])].sort((a, b) => a - b);
+  if (days.length === 0 || days.length > INVOICE_REMINDER_MAX_STEPS) {
+    return null;
+  }
+  return days;
+}
+
+/**
+ * Parses the comma-separated reminder days typed in settings
+ * @returns Days, or null when the input is not a valid sequence
+ */
+export function parseInvoiceReminderDays(input: string): number[] | null {
+  const parts = input
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+  if (parts.some(part => !/^\d+$/.test(part))) return null;
+  return normalizeInvoiceReminderDays(parts.map(part => parseInt(part, 10)));
+}
+
+/**
+ * Whole days between a due date and today (both YYYY-MM-DD calendar days)
+ * @returns Positive when the invoice is past due
+ */
+export function getDaysOverdue(dueDate: string, today: string): number {
+  const due = Date.parse(`${dueDate.slice(0, 10)}T00:00:00Z`);
+  const now = Date.parse(`${today}T00:00:00Z`);
+  return Math.round((now - due) / MS_PER_DAY);
+}
+
+/**
+ * Reminder step an overdue invoice should get today. When the cron missed
+ * days, only the latest step reached is sent so clients never get a burst.
+ * @param daysOverdue - Days past the due date
+ * @param reminderDays - The user's reminder sequence
+ * @param lastReminderDays - Step already emailed for this invoice
+ * @returns Step to send, or null when no reminder is due
+ */
+export function getDueReminderStep(
+  daysOverdue: number,
+  reminderDays: number[],
+  lastReminderDays: number | null | undefined
+): number | null {
+  const reached = reminderDays.filter(
+    day => day <= daysOverdue && day > (lastReminderDays ?? 0)
+  );
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
@@ -0,0 +1,263 @@
+import {
+  CreateInvoiceScheduleRequest,
+  InvoiceDateRangeRule,
+  InvoiceSchedule,
+  InvoiceScheduleFrequency,
+  UpdateInvoiceScheduleRequest,
+} from '@/types';
+
+export const INVOICE_SCHEDULE_FREQUENCY_OPTIONS: Array<{
+  value: InvoiceScheduleFrequency;
+  label: string;
+}> = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'custom', label: 'Custom interval' },
+];
+
+export const INVOICE_DATE_RANGE_RULE_OPTIONS: Array<{
+  value: InvoiceDateRangeRule;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'previous_period',
+    label: 'Previous period',
+    description:
+      'Bill the period that just ended (e.g. last month for a schedule on the 1st)',
+  },
+  {
+    value: 'since_last_run',
+    label: 'Since last invoice',
+    description:
+      'Bill everything from the last scheduled run up to the day before this one',
+  },
+];
+
+export const INVOICE_SCHEDULE_MAX_INTERVAL_DAYS = 365;
+export const INVOICE_SCHEDULE_MAX_NOTES_LENGTH = 300;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type ScheduleTiming = Pick<InvoiceSchedule, 'frequency' | 'interval_days'>;
+
+// Schedule dates are calendar days (YYYY-MM-DD); do the arithmetic in UTC so DST never shifts a day
+function parseDateKey(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00Z`);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isValidScheduleDate(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    DATE_KEY_PATTERN.test(value) &&
+    !isNaN(parseDateKey(value).getTime()) &&
+    toDateKey(parseDateKey(value)) === value
+  );
+}
+
+/**
+ * Today's date as the cron sees it
+ * @returns UTC calendar day like "2025-09-15"
+ */
+export function getTodayScheduleDate(): string {
+  return toDateKey(new Date());
+}
+
+export function addScheduleDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+function addMonths(dateKey: string, months: number): string {
+  const date = parseDateKey(dateKey);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  // Clamp to the last day of shorter months (Jan 31 → Feb 28)
+  const lastDay = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return toDateKey(date);
+}
+
+/**
+ * Moves a date one schedule interval forward or back
+ * @param dateKey - Calendar day (YYYY-MM-DD)
+ * @param schedule - Frequency and custom interval
+ * @param direction - 1 for the next occurrence, -1 for the previous one
+ */
+export function shiftByScheduleInterval(
+  dateKey: string,
+  schedule: ScheduleTiming,
+  direction: 1 | -1 = 1
+): string {
+  switch (schedule.frequency) {
+    case 'monthly':
+      return addMonths(dateKey, direction);
+    case 'biweekly':
+      return addScheduleDays(dateKey, 14 * direction);
+    case 'custom':
+      return addScheduleDays(
+        dateKey,
+        (schedule.interval_days ?? 1) * direction
+      );
+  }
+}
+
+/**
+ * Date range a scheduled run bills. The range always ends the day before the run.
+ * @param schedule - Schedule being run
+ * @param runOn - The scheduled run date (next_run_on)
+ * @returns Inclusive from/to calendar days
+ */
+export function getScheduledInvoicePeriod(
+  schedule: ScheduleTiming &
+    Pick<InvoiceSchedule, 'date_range_rule' | 'last_run_on'>,
+  runOn: string
+): { from: string; to: string } {
+  const to = addScheduleDays(runOn, -1);
+  if (
+    schedule.date_range_rule === 'since_last_run' &&
+    schedule.last_run_on &&
+    schedule.last_run_on < runOn
+  ) {
+    return { from: schedule.last_run_on, to };
+  }
+  return { from: shiftByScheduleInterval(runOn, schedule, -1), to };
+}
+
+/**
+ * Next run date after a run, skipping occurrences that are already in the past
+ * so a schedule that missed runs creates one invoice rather than a burst
+ * @param schedule - Schedule that just ran
+ * @param runOn - The run date that was processed
+ * @param today - Current calendar day
+ */
+export function getNextScheduleRunOn(
+  schedule: ScheduleTiming,
+  runOn: string,
+  today: string
+): string {
+  let next = shiftByScheduleInterval(runOn, schedule);
+  while (next <= today) {
+    next = shiftByScheduleInterval(next, schedule);
+  }
+  return next;
+}
+
+/**
+ * Fills the notes template of a scheduled invoice
+ * @param template - Notes with {period_start}, {period_end} and {project_name} placeholders
+ * @returns Notes for the invoice, or undefined when the template is empty
+ */
+export function renderInvoiceNotesTemplate(
+  template: string | null | undefined,
+  values: { periodStart: string; periodEnd: string; projectName: string }
+): string | undefined {
+  const trimmed = template?.trim();
+  if (!trimmed) return undefined;
+  return trimmed
+    .replace(/\{period_start\}/g, values.periodStart)
+    .replace(/\{period_end\}/g, values.periodEnd)
+    .replace(/\{project_name\}/g, values.projectName);
+}
+
+/**
+ * Validates schedule fields sent to the invoice schedules API
+ * @param input - Create payload, or the fields of an update payload
+ * @param existing - Current schedule when updating (frequency/interval are checked together)
+ * @returns Error message, or null when valid
+ */
+export function validateInvoiceScheduleInput(
+  input: Partial<CreateInvoiceScheduleRequest & UpdateInvoiceScheduleRequest>,
+  existing?: ScheduleTiming
+): string | null {
+  const frequency = input.frequency ?? existing?.frequency;
+  if (
+    !frequency ||
+    !INVOICE_SCHEDULE_FREQUENCY_OPTIONS.some(o => o.value === frequency)
+  ) {
+    return 'Frequency must be monthly, biweekly or custom';
+  }
+
+  if (frequency === 'custom') {
+    const intervalDays =
+      input.interval_days !== undefined
+        ? input.interval_days
+        : existing?.interval_days;
+    if (
+      typeof intervalDays !== 'number' ||
+      !Number.isInteger(intervalDays) ||
+      intervalDays < 1 ||
+      intervalDays > INVOICE_SCHEDULE_MAX_INTERVAL_DAYS
+    ) {
+      return `Custom interval must be between 1 and ${INVOICE_SCHEDULE_MAX_INTERVAL_DAYS} days`;
+    }
+  }
+
+  if (
+    input.date_range_rule !== undefined &&
+    !INVOICE_DATE_RANGE_RULE_OPTIONS.some(
+      o => o.value === input.date_range_rule
+    )
+  ) {
+    return 'Invalid date range rule';
+  }
+
+  if (
+    input.tax_rate !== undefined &&
+    (typeof input.tax_rate !== 'number' ||
+      input.tax_rate < 0 ||
+      input.tax_rate > 100)
+  ) {
+    return 'Tax rate must be between 0 and 100';
+  }
+
+  if (
+    input.due_in_days !== undefined &&
+    input.due_in_days !== null &&
+    (typeof input.due_in_days !== 'number' ||
+      !Number.isInteger(input.due_in_days) ||
+      input.due_in_days < 0 ||
+      input.due_in_days > 365)
+  ) {
+    return 'Due in days must be between 0 and 365';
+  }
+
+  if (
+    input.notes_template &&
+    input.notes_template.length > INVOICE_SCHEDULE_MAX_NOTES_LENGTH
+  ) {
+    return `Notes template cannot exceed ${INVOICE_SCHEDULE_MAX_NOTES_LENGTH} characters`;
+  }
+
+  if (
+    input.next_run_on !== undefined &&
+    !isValidScheduleDate(input.next_run_on)
+  ) {
+    return 'Next run date must be a valid date (YYYY-MM-DD)';
+  }
+
+  return null;
+}
+
+/**
+ * Short description of a schedule for lists
+ * @returns String like "Monthly" or "Every 10 days"
+ */
+export function formatScheduleFrequency(schedule: ScheduleTiming): string {
+  if (schedule.frequency === 'custom') {
+    const days = schedule.interval_days ?? 1;
+    return days === 1 ? 'Every day' : `Every ${days} days`;
+  }
+  return (
+    INVOICE_SCHEDULE_FREQUENCY_OPTIONS.find(o => o.value === schedule.frequency)
+      ?.label ?? schedule.frequency
+  );
+}
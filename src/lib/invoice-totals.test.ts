@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  calculateInvoiceTotals,
+  validateInvoiceTaxes,
+} from '@/lib/invoice-totals';
+
+describe('calculateInvoiceTotals', () => {
+  it('applies line discounts before the invoice discount', () => {
+    const totals = calculateInvoiceTotals({
+      items: [
+        {
+          quantity: 2,
+          unit_price: 100,
+          discount: { type: 'percentage', value: 10 },
+        },
+        { quantity: 1, unit_price: 50, discount: { type: 'fixed', value: 5 } },
+      ],
+      discount: { type: 'percentage', value: 10 },
+    });
+
+    expect(totals.items.map(item => item.discount_amount)).toEqual([20, 5]);
+    expect(totals).toMatchObject({
+      subtotal: 225,
+      discount_amount: 22.5,
+      total_amount: 202.5,
+    });
+  });
+
+  it('never discounts below zero', () => {
+    const totals = calculateInvoiceTotals({
+      items: [
+        { quantity: 1, unit_price: 30, discount: { type: 'fixed', value: 50 } },
+      ],
+      discount: { type: 'fixed', value: 10 },
+    });
+
+    expect(totals).toMatchObject({
+      subtotal: 0,
+      discount_amount: 0,
+      total_amount: 0,
+    });
+  });
+
+  it('adds taxes on the discounted subtotal', () => {
+    const totals = calculateInvoiceTotals({
+      items: [{ quantity: 1, unit_price: 200 }],
+      discount: { type: 'fixed', value: 100 },
+      taxes: [{ name: 'VAT', rate: 20 }],
+    });
+
+    expect(totals.taxes).toEqual([
+      { name: 'VAT', rate: 20, is_withholding: false, amount: 20 },
+    ]);
+    expect(totals).toMatchObject({ tax_amount: 20, total_amount: 120 });
+  });
+
+  it('extracts included taxes instead of adding them', () => {
+    const totals = calculateInvoiceTotals({
+      items: [{ quantity: 1, unit_price: 120 }],
+      taxes: [{ name: 'VAT', rate: 20 }],
+      tax_inclusive: true,
+    });
+
+    expect(totals.taxes[0].amount).toBe(20);
+    expect(totals).toMatchObject({
+      tax_inclusive: true,
+      tax_amount: 0,
+      total_amount: 120,
+    });
+  });
+
+  it('deducts withholding taxes from the total', () => {
+    const totals = calculateInvoiceTotals({
+      items: [{ quantity: 10, unit_price: 100 }],
+      taxes: [
+        { name: 'VAT', rate: 12 },
+        { name: 'EWT', rate: 2, is_withholding: true },
+      ],
+    });
+
+    expect(totals.taxes.map(tax => tax.amount)).toEqual([120, 20]);
+    expect(totals).toMatchObject({
+      tax_rate: 10,
+      tax_amount: 100,
+      total_amount: 1100,
+    });
+  });
+
+  it('withholds from the net amount of tax-inclusive prices', () => {
+    const totals = calculateInvoiceTotals({
+      items: [{ quantity: 1, unit_price: 1120 }],
+      taxes: [
+        { name: 'VAT', rate: 12 },
+        { name: 'EWT', rate: 2, is_withholding: true },
+      ],
+      tax_inclusive: true,
+    });
+
+    expect(totals.taxes.map(tax => tax.amount)).toEqual([120, 20]);
+    expect(totals).toMatchObject({ tax_amount: -20, total_amount: 1100 });
+  });
+});
+
+describe('validateInvoiceTaxes', () => {
+  it('accepts named taxes with rates up to 100%', () => {
+    expect(
+      validateInvoiceTaxes([
+        { name: 'VAT', rate: 12 },
+        { name: 'EWT', rate: 100, is_withholding: true },
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects withholding of more than the whole amount', () => {
+    expect(
+      validateInvoiceTaxes([
+        { name: 'EWT', rate: 60, is_withholding: true },
+        { name: 'Other', rate: 50, is_withholding: true },
+      ])
+    ).toBe('Withholding taxes cannot add up to more than 100%');
+  });
+
+  it('rejects invalid rates and names', () => {
+    expect(validateInvoiceTaxes([{ name: 'VAT', rate: 101 }])).toMatch(
+      /between 0 and 100/
+    );
+    expect(validateInvoiceTaxes([{ name: ' ', rate: 5 }])).toBe(
+      'Every tax must have a name'
+    );
+  });
+});
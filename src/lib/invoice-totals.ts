@@ -0,0 +1,345 @@
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  InvoiceDiscount,
+  InvoiceDiscountType,
+  InvoiceTax,
+  InvoiceTaxLine,
+} from '@/types';
+
+export const INVOICE_MAX_TAXES = 5;
+export const INVOICE_TAX_NAME_MAX_LENGTH = 50;
+export const DEFAULT_INVOICE_TAX_NAME = 'Tax';
+
+export interface InvoiceTotalsInput {
+  items: Array<{
+    quantity: number;
+    unit_price: number;
+    discount?: InvoiceDiscount | null;
+  }>;
+  /** Invoice-level discount, applied after line discounts */
+  discount?: InvoiceDiscount | null;
+  taxes?: InvoiceTax[];
+  tax_inclusive?: boolean;
+}
+
+export interface InvoiceItemTotals {
+  quantity: number;
+  unit_price: number;
+  total_cost: number;
+  discount_type: InvoiceDiscountType | null;
+  discount_value: number | null;
+  discount_amount: number;
+}
+
+/** Computed amounts, named like the invoices and invoice_items columns */
+export interface InvoiceTotals {
+  items: InvoiceItemTotals[];
+  subtotal: number;
+  discount_type: InvoiceDiscountType | null;
+  discount_value: number | null;
+  discount_amount: number;
+  taxes: InvoiceTaxLine[];
+  tax_inclusive: boolean;
+  tax_rate: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+/** Fields of a stored invoice needed to show its discount and tax rows */
+export interface InvoiceAdjustmentsSource {
+  discount_type?: InvoiceDiscountType | null;
+  discount_value?: number | null;
+  discount_amount?: number | null;
+  taxes?: InvoiceTaxLine[] | null;
+  tax_inclusive?: boolean | null;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+}
+
+export interface InvoiceAdjustmentRow {
+  label: string;
+  /** Negative for discounts and withheld taxes */
+  amount: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A zero discount is stored as no discount
+function normalizeDiscount(
+  discount: InvoiceDiscount | null | undefined
+): InvoiceDiscount | null {
+  if (!discount || !(Number(discount.value) > 0)) return null;
+  return { type: discount.type, value: roundCurrency(Number(discount.value)) };
+}
+
+function getDiscountAmount(
+  amount: number,
+  discount: InvoiceDiscount | null
+): number {
+  if (!discount || amount <= 0) return 0;
+  const value =
+    discount.type === 'percentage'
+      ? (amount * discount.value) / 100
+      : discount.value;
+  // A discount can bring an amount down to zero but never below
+  return Math.min(amount, roundCurrency(value));
+}
+
+/**
+ * Computes line discounts, the invoice discount, each named tax and the total.
+ * Used by the invoice API routes (which store the result) and by the invoice
+ * modals, so the amounts shown while editing match what is saved.
+ *
+ * The subtotal is the sum of line amounts after line discounts. Taxes apply to
+ * the subtotal minus the invoice discount; in tax-inclusive mode that amount
+ * already contains the added taxes, so they are extracted from it instead of
+ * added on top. Withholding taxes are always deducted from the total.
+ */
+export function calculateInvoiceTotals(
+  input: InvoiceTotalsInput
+): InvoiceTotals {
+  const items = input.items.map(item => {
+    const quantity = roundCurrency(Number(item.quantity));
+    const unitPrice = roundCurrency(Number(item.unit_price));
+    const totalCost = roundCurrency(quantity * unitPrice);
+    const discount = normalizeDiscount(item.discount);
+    return {
+      quantity,
+      unit_price: unitPrice,
+      total_cost: totalCost,
+      discount_type: discount?.type ?? null,
+      discount_value: discount?.value ?? null,
+      discount_amount: getDiscountAmount(totalCost, discount),
+    };
+  });
+
+  const subtotal = roundCurrency(
+    items.reduce((sum, item) => sum + item.total_cost - item.discount_amount, 0)
+  );
+  const discount = normalizeDiscount(input.discount);
+  const discountAmount = getDiscountAmount(subtotal, discount);
+  const taxableAmount = roundCurrency(subtotal - discountAmount);
+
+  const taxes = input.taxes ?? [];
+  const taxInclusive = input.tax_inclusive === true;
+  const addedRate = taxes
+    .filter(tax => !tax.is_withholding)
+    .reduce((sum, tax) => sum + Number(tax.rate), 0);
+  const withheldRate = taxes
+    .filter(tax => tax.is_withholding)
+    .reduce((sum, tax) => sum + Number(tax.rate), 0);
+
+  const netAmount =
+    taxInclusive && addedRate > 0
+      ? (taxableAmount * 100) / (100 + addedRate)
+      : taxableAmount;
+
+  const taxLines: InvoiceTaxLine[] = taxes.map(tax => ({
+    name: tax.name,
+    rate: Number(tax.rate),
+    is_withholding: tax.is_withholding === true,
+    amount: roundCurrency((netAmount * Number(tax.rate)) / 100),
+  }));
+  const addedTax = taxLines
+    .filter(tax => !tax.is_withholding)
+    .reduce((sum, tax) => sum + tax.amount, 0);
+  const withheldTax = taxLines
+    .filter(tax => tax.is_withholding)
+    .reduce((sum, tax) => sum + tax.amount, 0);
+
+  // Net change to the discounted subtotal, so total = subtotal - discount + tax
+  const taxAmount = roundCurrency((taxInclusive ? 0 : addedTax) - withheldTax);
+
+  return {
+    items,
+    subtotal,
+    discount_type: discount?.type ?? null,
+    discount_value: discount?.value ?? null,
+    discount_amount: discountAmount,
+    taxes: taxLines,
+    tax_inclusive: taxInclusive,
+    tax_rate: roundCurrency(addedRate - withheldRate),
+    tax_amount: taxAmount,
+    total_amount: roundCurrency(taxableAmount + taxAmount),
+  };
+}
+
+/**
+ * Validates a line or invoice discount sent to the invoice API
+ * @returns Error message, or null when valid (null and undefined mean no discount)
+ */
+export function validateInvoiceDiscount(discount: unknown): string | null {
+  if (discount === undefined || discount === null) return null;
+  if (typeof discount !== 'object') {
+    return 'Discount must have a type and a value';
+  }
+  const { type, value } = discount as Partial<InvoiceDiscount>;
+  if (type !== 'percentage' && type !== 'fixed') {
+    return "Discount type must be 'percentage' or 'fixed'";
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return 'Discount value must be a number of at least 0';
+  }
+  if (type === 'percentage' && value > 100) {
+    return 'Percentage discounts cannot exceed 100%';
+  }
+  return null;
+}
+
+/**
+ * Validates the named taxes sent to the invoice API
+ * @returns Error message, or null when valid
+ */
+export function validateInvoiceTaxes(taxes: unknown): string | null {
+  if (!Array.isArray(taxes)) return 'Taxes must be an array';
+  if (taxes.length > INVOICE_MAX_TAXES) {
+    return `An invoice can have at most ${INVOICE_MAX_TAXES} taxes`;
+  }
+  for (const tax of taxes) {
+    if (!tax || typeof tax !== 'object') {
+      return 'Every tax must have a name and a rate';
+    }
+    const { name, rate, is_withholding } = tax as Partial<InvoiceTax>;
+    if (typeof name !== 'string' || name.trim() === '') {
+      return 'Every tax must have a name';
+    }
+    if (name.trim().length > INVOICE_TAX_NAME_MAX_LENGTH) {
+      return `Tax names must be ${INVOICE_TAX_NAME_MAX_LENGTH} characters or less`;
+    }
+    if (
+      typeof rate !== 'number' ||
+      !Number.isFinite(rate) ||
+      rate < 0 ||
+      rate > 100
+    ) {
+      return `Tax "${name.trim()}": rate must be between 0 and 100`;
+    }
+    if (is_withholding !== undefined && typeof is_withholding !== 'boolean') {
+      return `Tax "${name.trim()}": is_withholding must be a boolean`;
+    }
+  }
+  // More than the whole amount withheld would make the total negative
+  const withheldRate = (taxes as InvoiceTax[])
+    .filter(tax => tax.is_withholding)
+    .reduce((sum, tax) => sum + tax.rate, 0);
+  if (withheldRate > 100) {
+    return 'Withholding taxes cannot add up to more than 100%';
+  }
+  return null;
+}
+
+/** Trims names and rounds rates of validated taxes */
+export function normalizeInvoiceTaxes(taxes: InvoiceTax[]): InvoiceTax[] {
+  return taxes.map(tax => ({
+    name: tax.name.trim(),
+    rate: roundCurrency(tax.rate),
+    is_withholding: tax.is_withholding === true,
+  }));
+}
+
+/**
+ * Taxes applied by an invoice request or row. A tax_rate on its own (older
+ * invoices, schedules and API clients) becomes a single "Tax" line.
+ */
+export function getInvoiceTaxes(source: {
+  taxes?: InvoiceTax[] | null;
+  tax_rate?: number | null;
+}): InvoiceTax[] {
+  if (Array.isArray(source.taxes) && source.taxes.length > 0) {
+    return source.taxes.map(({ name, rate, is_withholding }) => ({
+      name,
+      rate: Number(rate),
+      is_withholding: is_withholding === true,
+    }));
+  }
+  const taxRate = Number(source.tax_rate ?? 0);
+  return taxRate > 0 ? [{ name: DEFAULT_INVOICE_TAX_NAME, rate: taxRate }] : [];
+}
+
+/** Discount stored in a row's discount_type and discount_value columns */
+export function getInvoiceDiscount(source: {
+  discount_type?: InvoiceDiscountType | null;
+  discount_value?: number | null;
+}): InvoiceDiscount | null {
+  if (!source.discount_type || source.discount_value == null) return null;
+  return { type: source.discount_type, value: Number(source.discount_value) };
+}
+
+/** Line amount after the line discount */
+export function getInvoiceItemAmount(item: {
+  total_cost: number;
+  discount_amount?: number | null;
+}): number {
+  return roundCurrency(
+    Number(item.total_cost) - Number(item.discount_amount ?? 0)
+  );
+}
+
+/** e.g. "10%" or "USD 50.00" */
+export function formatInvoiceDiscount(
+  discount: InvoiceDiscount,
+  currencyCode: string
+): string {
+  return discount.type === 'percentage'
+    ? `${discount.value}%`
+    : formatPriceWithCurrency(discount.value, currencyCode);
+}
+
+/** Formats an adjustment amount with a leading minus sign for deductions */
+export function formatInvoiceAdjustment(
+  amount: number,
+  currencyCode: string,
+  includeCurrencyCode = true
+): string {
+  const formatted = formatPriceWithCurrency(
+    Math.abs(amount),
+    currencyCode,
+    includeCurrencyCode
+  );
+  return amount < 0 ? `-${formatted}` : formatted;
+}
+
+/**
+ * Discount and tax rows shown between the subtotal and the total on the invoice
+ * page, in the invoice modals and on the PDF
+ */
+export function getInvoiceAdjustmentRows(
+  invoice: InvoiceAdjustmentsSource
+): InvoiceAdjustmentRow[] {
+  const rows: InvoiceAdjustmentRow[] = [];
+
+  const discountAmount = Number(invoice.discount_amount ?? 0);
+  if (discountAmount > 0) {
+    rows.push({
+      label:
+        invoice.discount_type === 'percentage'
+          ? `Discount (${Number(invoice.discount_value)}%)`
+          : 'Discount',
+      amount: -discountAmount,
+    });
+  }
+
+  const taxes = invoice.taxes ?? [];
+  if (taxes.length === 0) {
+    // Invoices created before named taxes only store a single rate
+    const taxRate = Number(invoice.tax_rate ?? 0);
+    if (taxRate > 0) {
+      rows.push({
+        label: `${DEFAULT_INVOICE_TAX_NAME} (${taxRate}%)`,
+        amount: Number(invoice.tax_amount ?? 0),
+      });
+    }
+    return rows;
+  }
+
+  for (const tax of taxes) {
+    const included = invoice.tax_inclusive && !tax.is_withholding;
+    rows.push({
+      label: `${tax.name} (${Number(tax.rate)}%${included ? ', included' : ''})`,
+      amount: tax.is_withholding ? -Number(tax.amount) : Number(tax.amount),
+    });
+  }
+  return rows;
+}
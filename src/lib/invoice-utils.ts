@@ -1,25 +1,91 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 
+import {
+  formatInvoiceNumber,
+  getInvoiceNumberYear,
+  getNextInvoiceCounter,
+} from '@/lib/invoice-numbering';
+import { InvoiceStatus } from '@/types';
+
 /**
  * Items per page for invoice preview UI and PDF pagination.
  * Totals and notes are always on the last page.
  */
 export const INVOICE_ITEMS_PER_PAGE = 10;
 
+/** Allowed status transitions (paid and cancelled are terminal) */
+export const INVOICE_STATUS_TRANSITIONS: Record<
+  InvoiceStatus,
+  InvoiceStatus[]
+> = {
+  draft: ['sent', 'paid', 'overdue', 'cancelled'],
+  sent: ['paid', 'overdue', 'cancelled'],
+  overdue: ['paid', 'cancelled'],
+  cancelled: [],
+  paid: [],
+};
+
+export function canTransitionInvoiceStatus(from: string, to: string): boolean {
+  return (
+    INVOICE_STATUS_TRANSITIONS[from as InvoiceStatus]?.includes(
+      to as InvoiceStatus
+    ) ?? false
+  );
+}
+
+const INVOICE_NUMBER_MAX_ATTEMPTS = 10;
+
+/**
+ * Highest purely numeric invoice number (invoices numbered before numbering settings)
+ * @returns The number (0 when there is none), or null when the query fails
+ */
+async function getHighestNumericInvoiceNumber(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number | null> {
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select('invoice_number')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching invoices for number generation:', error);
+    return null;
+  }
+
+  let maxNumber = 0;
+  for (const invoice of invoices ?? []) {
+    if (!/^\d+$/.test(invoice.invoice_number)) continue;
+    const num = parseInt(invoice.invoice_number, 10);
+    if (num > maxNumber) {
+      maxNumber = num;
+    }
+  }
+  return maxNumber;
+}
+
 /**
  * Generates the next invoice number for a user
+ * Numbering is per issuer, not per workspace: invoices carry the issuing
+ * user's business details, so each issuer keeps one unbroken sequence across
+ * every workspace they invoice from, and two members of a workspace may issue
+ * the same number under their own businesses.
  * If a custom invoice number is provided, validates it's unique
- * Otherwise, auto-generates by finding the highest numeric invoice number and incrementing
+ * Otherwise, auto-generates from the user's numbering settings (prefix, padding,
+ * yearly reset) and claims the counter with a conditional update, so concurrent
+ * invoices never get the same number
  *
  * @param supabase - Supabase client instance
  * @param userId - The user ID
  * @param customInvoiceNumber - Optional custom invoice number (will be validated for uniqueness)
+ * @param issueDate - Issue date (YYYY-MM-DD) used for {YYYY}/{MM} tokens and the yearly reset
  * @returns The invoice number to use
  */
 export async function generateInvoiceNumber(
   supabase: SupabaseClient,
   userId: string,
-  customInvoiceNumber?: string
+  customInvoiceNumber?: string,
+  issueDate?: string
 ): Promise<{ invoiceNumber: string; error?: string }> {
   try {
     // If custom invoice number is provided, validate it's unique
@@ -59,39 +125,104 @@ export async function generateInvoiceNumber(
       return { invoiceNumber: trimmedNumber };
     }
 
-    // Auto-generate: Find the highest numeric invoice number
-    const { data: invoices, error: fetchError } = await supabase
-      .from('invoices')
-      .select('invoice_number')
-      .eq('user_id', userId)
-      .order('invoice_number', { ascending: false });
-
-    if (fetchError) {
-      console.error(
-        'Error fetching invoices for number generation:',
-        fetchError
-      );
-      return {
-        invoiceNumber: '',
-        error: 'Failed to generate invoice number',
-      };
-    }
+    // Auto-generate from the numbering settings; retry when another request
+    // claimed the counter first or the number is already taken
+    const year = getInvoiceNumberYear(issueDate);
+    for (let attempt = 0; attempt < INVOICE_NUMBER_MAX_ATTEMPTS; attempt++) {
+      const { data: settings, error: settingsError } = await supabase
+        .from('users')
+        .select(
+          'invoice_number_prefix, invoice_number_padding, invoice_number_next, invoice_number_reset_yearly, invoice_number_year'
+        )
+        .eq('id', userId)
+        .single();
+
+      if (settingsError || !settings) {
+        console.error(
+          'Error fetching invoice numbering settings:',
+          settingsError
+        );
+        return {
+          invoiceNumber: '',
+          error: 'Failed to generate invoice number',
+        };
+      }
 
-    // Find the highest numeric invoice number
-    let maxNumber = 0;
-    if (invoices && invoices.length > 0) {
-      for (const invoice of invoices) {
-        const num = parseInt(invoice.invoice_number, 10);
-        if (!isNaN(num) && num > maxNumber) {
-          maxNumber = num;
+      // First generated number continues after existing numeric invoice numbers
+      let fallbackCounter = 1;
+      if (settings.invoice_number_next === null) {
+        const maxNumber = await getHighestNumericInvoiceNumber(
+          supabase,
+          userId
+        );
+        if (maxNumber === null) {
+          return {
+            invoiceNumber: '',
+            error: 'Failed to generate invoice number',
+          };
         }
+        fallbackCounter = maxNumber + 1;
       }
-    }
 
-    // Increment by 1
-    const nextNumber = maxNumber + 1;
+      const counter = getNextInvoiceCounter(settings, year, fallbackCounter);
+      const invoiceNumber = formatInvoiceNumber(settings, counter, issueDate);
+
+      // Claim the counter only if no other request moved it since it was read
+      let claim = supabase
+        .from('users')
+        .update({
+          invoice_number_next: counter + 1,
+          invoice_number_year: Math.max(
+            year,
+            settings.invoice_number_year ?? year
+          ),
+        })
+        .eq('id', userId);
+      claim =
+        settings.invoice_number_next === null
+          ? claim.is('invoice_number_next', null)
+          : claim.eq('invoice_number_next', settings.invoice_number_next);
+      claim =
+        settings.invoice_number_year === null
+          ? claim.is('invoice_number_year', null)
+          : claim.eq('invoice_number_year', settings.invoice_number_year);
 
-    return { invoiceNumber: nextNumber.toString() };
+      const { data: claimed, error: claimError } = await claim.select('id');
+
+      if (claimError) {
+        console.error('Error claiming invoice number:', claimError);
+        return {
+          invoiceNumber: '',
+          error: 'Failed to generate invoice number',
+        };
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      // Skip numbers already used (e.g. entered manually)
+      const { data: existingInvoice, error: checkError } = await supabase
+        .from('invoices')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('invoice_number', invoiceNumber)
+        .maybeSingle();
+
+      if (checkError) {
+        console.error('Error checking invoice number uniqueness:', checkError);
+        return {
+          invoiceNumber: '',
+          error: 'Failed to validate invoice number',
+        };
+      }
+      if (!existingInvoice) {
+        return { invoiceNumber };
+      }
+    }
+
+    return {
+      invoiceNumber: '',
+      error:
+        'Could not find a free invoice number. Check the next number in your invoice numbering settings.',
+    };
   } catch (error) {
     console.error('Error in generateInvoiceNumber:', error);
     return {
@@ -0,0 +1,115 @@
+import { getPriorityGroups } from '@/lib/priority';
+import {
+  addDaysToKey,
+  getWeekStartKey,
+  parseCalendarDay,
+  WeekStart,
+} from '@/lib/time-zones';
+import { Priority, Task } from '@/types';
+
+export type MyTasksGrouping = 'due_date' | 'priority';
+
+export type DueDateGroup =
+  | 'overdue'
+  | 'today'
+  | 'this_week'
+  | 'later'
+  | 'no_due_date';
+
+const DUE_DATE_GROUP_LABELS: Record<DueDateGroup, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  this_week: 'Due this week',
+  later: 'Due later',
+  no_due_date: 'No due date',
+};
+
+const DUE_DATE_GROUP_ORDER: DueDateGroup[] = [
+  'overdue',
+  'today',
+  'this_week',
+  'later',
+  'no_due_date',
+];
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+type GroupableTask = Pick<Task, 'name' | 'priority' | 'due_date'>;
+
+export interface MyTasksGroup<T> {
+  key: string;
+  label: string;
+  tasks: T[];
+}
+
+/**
+ * Where a due date falls relative to the user's today and current week
+ * @param todayKey - Today in the user's time zone ("2025-09-15")
+ */
+export function getDueDateGroup(
+  dueDate: string | null | undefined,
+  todayKey: string,
+  weekStart: WeekStart
+): DueDateGroup {
+  const dueKey = parseCalendarDay(dueDate);
+  if (!dueKey) return 'no_due_date';
+  if (dueKey < todayKey) return 'overdue';
+  if (dueKey === todayKey) return 'today';
+  const weekEndKey = addDaysToKey(getWeekStartKey(todayKey, weekStart), 6);
+  return dueKey <= weekEndKey ? 'this_week' : 'later';
+}
+
+const compareDueDates = (a: GroupableTask, b: GroupableTask) => {
+  const aKey = parseCalendarDay(a.due_date);
+  const bKey = parseCalendarDay(b.due_date);
+  if (aKey === bKey) return 0;
+  if (!aKey) return 1;
+  if (!bKey) return -1;
+  return aKey < bKey ? -1 : 1;
+};
+
+const comparePriorities = (a: GroupableTask, b: GroupableTask) =>
+  PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+
+/**
+ * Groups tasks for the "My Tasks" page, leaving out empty groups. By due date,
+ * each group lists the most urgent first; by priority, the soonest due first.
+ */
+export function groupMyTasks<T extends GroupableTask>(
+  tasks: T[],
+  grouping: MyTasksGrouping,
+  todayKey: string,
+  weekStart: WeekStart
+): MyTasksGroup<T>[] {
+  const byName = (a: T, b: T) => a.name.localeCompare(b.name);
+
+  if (grouping === 'priority') {
+    return getPriorityGroups()
+      .map(group => ({
+        key: group.priority,
+        label: group.label,
+        tasks: tasks
+          .filter(task => task.priority === group.priority)
+          .sort((a, b) => compareDueDates(a, b) || byName(a, b)),
+      }))
+      .filter(group => group.tasks.length > 0);
+  }
+
+  return DUE_DATE_GROUP_ORDER.map(key => ({
+    key,
+    label: DUE_DATE_GROUP_LABELS[key],
+    tasks: tasks
+      .filter(
+        task => getDueDateGroup(task.due_date, todayKey, weekStart) === key
+      )
+      .sort(
+        (a, b) =>
+          comparePriorities(a, b) || compareDueDates(a, b) || byName(a, b)
+      ),
+  })).filter(group => group.tasks.length > 0);
+}
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { remapOfflineMutation, replayOfflineQueue } from '@/lib/offline-queue';
+import { OfflineMutation } from '@/types';
+
+vi.mock('@/lib/unauthorized-handler', () => ({
+  checkAndHandleUnauthorized: async (response: Response) =>
+    response.status === 401 || response.status === 403,
+}));
+
+type Route = (init?: RequestInit) => Response | Promise<Response>;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+let routes: Record<string, Route>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  routes = {};
+  fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const route = routes[`${init?.method ?? 'GET'} ${url}`];
+    if (!route) throw new Error(`Unexpected request ${url}`);
+    return route(init);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function create(id: string, entryId: string): OfflineMutation {
+  return {
+    id,
+    kind: 'create',
+    action: 'start',
+    entry_id: entryId,
+    task_id: 'task-1',
+    project_id: 'project-1',
+    payload: {
+      start_time: '2025-01-01T10:00:00.000Z',
+      duration_seconds: 0,
+      timer_status: 'running',
+    },
+    queued_at: '2025-01-01T10:00:00.000Z',
+  };
+}
+
+const UPDATE_ACTIONS = {
+  running: 'resume',
+  paused: 'pause',
+  stopped: 'stop',
+} as const;
+
+function update(
+  id: string,
+  entryId: string,
+  timerStatus: 'running' | 'paused' | 'stopped',
+  queuedAt = '2025-01-01T10:30:00.000Z'
+): OfflineMutation {
+  return {
+    id,
+    kind: 'update',
+    action: UPDATE_ACTIONS[timerStatus],
+    entry_id: entryId,
+    task_id: 'task-1',
+    project_id: 'project-1',
+    payload: { timer_status: timerStatus },
+    queued_at: queuedAt,
+  };
+}
+
+describe('remapOfflineMutation', () => {
+  it('swaps a local id for its server id', () => {
+    const mutation = update('m1', 'local-1', 'paused');
+    expect(
+      remapOfflineMutation(mutation, { 'local-1': 'server-1' }).entry_id
+    ).toBe('server-1');
+    expect(remapOfflineMutation(mutation, {})).toBe(mutation);
+  });
+});
+
+describe('replayOfflineQueue', () => {
+  it('replays a create, then later changes against the new server id', async () => {
+    const patches: unknown[] = [];
+    routes['POST /api/time-entries'] = () =>
+      json({ time_entry: { id: 'server-1' } });
+    routes['GET /api/time-entries/server-1'] = () =>
+      json({ time_entry: { id: 'server-1', timer_status: 'running' } });
+    routes['PATCH /api/time-entries/server-1'] = init => {
+      patches.push(JSON.parse(String(init?.body)));
+      return json({ time_entry: { id: 'server-1' } });
+    };
+
+    const result = await replayOfflineQueue([
+      create('m1', 'local-1'),
+      update('m2', 'local-1', 'paused'),
+    ]);
+
+    expect(result).toMatchObject({
+      settledIds: ['m1', 'm2'],
+      idMap: { 'local-1': 'server-1' },
+      failed: [],
+      conflicts: [],
+      halted: false,
+    });
+    // The server works out the duration from when the pause happened
+    expect(patches).toEqual([
+      { timer_status: 'paused', occurred_at: '2025-01-01T10:30:00.000Z' },
+    ]);
+  });
+
+  it('drops changes to an entry stopped elsewhere', async () => {
+    routes['GET /api/time-entries/entry-1'] = () =>
+      json({ time_entry: { id: 'entry-1', timer_status: 'stopped' } });
+
+    const result = await replayOfflineQueue([
+      update('m1', 'entry-1', 'running'),
+      update('m2', 'entry-1', 'paused'),
+    ]);
+
+    expect(result.settledIds).toEqual(['m1', 'm2']);
+    expect(result.conflicts.map(mutation => mutation.id)).toEqual(['m1', 'm2']);
+    // The second change is settled without asking the server again
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a create when the timer already runs on another device', async () => {
+    routes['POST /api/time-entries'] = () =>
+      json({ error: 'Timer running', existing_timer_id: 'entry-9' }, 400);
+
+    const result = await replayOfflineQueue([
+      create('m1', 'local-1'),
+      update('m2', 'local-1', 'paused'),
+    ]);
+
+    expect(result.conflicts.map(mutation => mutation.id)).toEqual(['m1', 'm2']);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('fails later changes of an entry whose create failed', async () => {
+    routes['POST /api/time-entries'] = () =>
+      json({ error: 'Invalid project' }, 400);
+
+    const result = await replayOfflineQueue([
+      create('m1', 'local-1'),
+      update('m2', 'local-1', 'stopped'),
+    ]);
+
+    expect(result.settledIds).toEqual(['m1', 'm2']);
+    expect(result.failed.map(failure => failure.error)).toEqual([
+      'Invalid project',
+      'An earlier change to this time entry failed to sync',
+    ]);
+  });
+
+  it('stops at a network error and keeps the rest queued', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    routes['POST /api/time-entries'] = () => {
+      throw new TypeError('Failed to fetch');
+    };
+
+    const result = await replayOfflineQueue([
+      create('m1', 'local-1'),
+      update('m2', 'local-1', 'paused'),
+    ]);
+
+    expect(result).toMatchObject({
+      settledIds: [],
+      halted: true,
+      unauthorized: false,
+    });
+  });
+
+  it('stops at a server error so the change is retried', async () => {
+    routes['GET /api/time-entries/entry-1'] = () =>
+      json({ time_entry: { id: 'entry-1', timer_status: 'running' } });
+    routes['PATCH /api/time-entries/entry-1'] = () =>
+      json({ error: 'Internal server error' }, 500);
+
+    const result = await replayOfflineQueue([
+      update('m1', 'entry-1', 'paused'),
+    ]);
+
+    expect(result).toMatchObject({ settledIds: [], halted: true });
+  });
+
+  it('stops when the session has expired', async () => {
+    routes['GET /api/time-entries/entry-1'] = () =>
+      json({ error: 'Unauthorized' }, 401);
+
+    const result = await replayOfflineQueue([
+      update('m1', 'entry-1', 'paused'),
+    ]);
+
+    expect(result).toMatchObject({
+      settledIds: [],
+      halted: true,
+      unauthorized: true,
+    });
+  });
+});
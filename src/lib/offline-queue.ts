@@ -0,0 +1,280 @@
+import { checkAndHandleUnauthorized } from '@/lib/unauthorized-handler';
+import {
+  FailedOfflineMutation,
+  OfflineData,
+  OfflineMutation,
+  TimeEntry,
+} from '@/types';
+
+export const OFFLINE_QUEUE_STORAGE_KEY = 'orasan_offline_queue';
+
+const LOCAL_ENTRY_ID_PREFIX = 'local-';
+
+export type TimerSyncStatus = 'pending' | 'failed';
+
+/** Placeholder id for a time entry created while offline (replaced once its create syncs). */
+export function createLocalEntryId(): string {
+  return `${LOCAL_ENTRY_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isLocalEntryId(id: string): boolean {
+  return id.startsWith(LOCAL_ENTRY_ID_PREFIX);
+}
+
+/**
+ * True when a fetch rejected before reaching the server (offline, DNS, connection reset).
+ * HTTP error responses resolve normally, so they never land here.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export function createEmptyOfflineData(): OfflineData {
+  return {
+    pending_sync: [],
+    failed_sync: [],
+    last_sync: null,
+    is_online: true,
+  };
+}
+
+/**
+ * Load the persisted queue so mutations survive reloads.
+ * @returns Stored queue, or an empty one if nothing is stored or it cannot be parsed
+ */
+export function loadOfflineData(): OfflineData {
+  try {
+    const stored = localStorage.getItem(OFFLINE_QUEUE_STORAGE_KEY);
+    if (!stored) return createEmptyOfflineData();
+    const parsed = JSON.parse(stored) as Partial<OfflineData>;
+    return {
+      pending_sync: Array.isArray(parsed.pending_sync)
+        ? parsed.pending_sync
+        : [],
+      failed_sync: Array.isArray(parsed.failed_sync) ? parsed.failed_sync : [],
+      last_sync: parsed.last_sync ?? null,
+      is_online: navigator.onLine,
+    };
+  } catch (error) {
+    console.error('Error loading offline queue from storage:', error);
+    return createEmptyOfflineData();
+  }
+}
+
+export function saveOfflineData(data: OfflineData): void {
+  try {
+    localStorage.setItem(OFFLINE_QUEUE_STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Error saving offline queue to storage:', error);
+  }
+}
+
+/** Rewrite a mutation's entry id once the local entry it refers to has a server id. */
+export function remapOfflineMutation(
+  mutation: OfflineMutation,
+  idMap: Record<string, string>
+): OfflineMutation {
+  const entryId = idMap[mutation.entry_id];
+  return entryId ? { ...mutation, entry_id: entryId } : mutation;
+}
+
+export interface OfflineReplayResult {
+  /** Mutations that are finished with (synced, dropped as conflicts or failed). */
+  settledIds: string[];
+  /** Local entry id -> server id for creates that synced. */
+  idMap: Record<string, string>;
+  failed: FailedOfflineMutation[];
+  /** Mutations dropped because the server state wins (entry stopped or deleted elsewhere). */
+  conflicts: OfflineMutation[];
+  /** Replay stopped early (network or server error); unsettled mutations stay queued. */
+  halted: boolean;
+  unauthorized: boolean;
+}
+
+type ReplayOutcome =
+  | { status: 'synced'; entryId: string }
+  | { status: 'conflict' }
+  | { status: 'failed'; error: string }
+  | { status: 'retry' }
+  | { status: 'unauthorized' };
+
+async function outcomeFromErrorResponse(
+  response: Response
+): Promise<ReplayOutcome> {
+  if (await checkAndHandleUnauthorized(response)) {
+    return { status: 'unauthorized' };
+  }
+  if (response.status >= 500) {
+    return { status: 'retry' };
+  }
+  const errorData = await response.json().catch(() => ({}));
+  return {
+    status: 'failed',
+    error: errorData.error || `HTTP ${response.status}: Failed to sync`,
+  };
+}
+
+async function replayCreate(
+  mutation: Extract<OfflineMutation, { kind: 'create' }>
+): Promise<ReplayOutcome> {
+  const response = await fetch('/api/time-entries', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      task_id: mutation.task_id,
+      project_id: mutation.project_id,
+      ...mutation.payload,
+    }),
+  });
+
+  if (response.ok) {
+    const data = await response.json();
+    return { status: 'synced', entryId: data.time_entry.id };
+  }
+
+  // Task deleted elsewhere, or another device already has a timer running for it
+  if (response.status === 404) {
+    return { status: 'conflict' };
+  }
+  if (response.status === 400) {
+    const errorData = await response
+      .clone()
+      .json()
+      .catch(() => ({}));
+    if (errorData.existing_timer_id) {
+      return { status: 'conflict' };
+    }
+  }
+
+  return outcomeFromErrorResponse(response);
+}
+
+async function replayUpdate(
+  mutation: Extract<OfflineMutation, { kind: 'update' }>
+): Promise<ReplayOutcome> {
+  // Compare with the current server state before writing
+  const current = await fetch(`/api/time-entries/${mutation.entry_id}`);
+  if (current.status === 404) {
+    return { status: 'conflict' };
+  }
+  if (!current.ok) {
+    return outcomeFromErrorResponse(current);
+  }
+
+  const { time_entry: serverEntry } = (await current.json()) as {
+    time_entry: TimeEntry;
+  };
+
+  // A stopped entry is final; the stop made elsewhere wins
+  if (serverEntry.timer_status === 'stopped') {
+    return { status: 'conflict' };
+  }
+
+  // The server derives the duration; it dates pauses and stops by when they
+  // happened, and resumes count from the replay
+  const response = await fetch(`/api/time-entries/${mutation.entry_id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      timer_status: mutation.payload.timer_status,
+      occurred_at: mutation.queued_at,
+    }),
+  });
+
+  if (response.ok) {
+    return { status: 'synced', entryId: mutation.entry_id };
+  }
+
+  // Paused, resumed or stopped on another device between the read and the write
+  if (response.status === 409) {
+    return { status: 'conflict' };
+  }
+
+  // Another entry for this task is already running on the server
+  if (response.status === 400 && mutation.payload.timer_status === 'running') {
+    return { status: 'conflict' };
+  }
+
+  return outcomeFromErrorResponse(response);
+}
+
+/**
+ * Replay queued mutations in order. Later mutations for an entry whose create or
+ * update conflicted or failed are settled the same way, so nothing applies out of order.
+ * @param mutations - Pending mutations, oldest first
+ * @returns What settled, id remaps for synced creates, failures and conflicts
+ */
+export async function replayOfflineQueue(
+  mutations: OfflineMutation[]
+): Promise<OfflineReplayResult> {
+  const result: OfflineReplayResult = {
+    settledIds: [],
+    idMap: {},
+    failed: [],
+    conflicts: [],
+    halted: false,
+    unauthorized: false,
+  };
+  const conflictedEntryIds = new Set<string>();
+  const failedEntryIds = new Set<string>();
+
+  for (const queued of mutations) {
+    const mutation = remapOfflineMutation(queued, result.idMap);
+
+    if (conflictedEntryIds.has(mutation.entry_id)) {
+      result.conflicts.push(mutation);
+      result.settledIds.push(mutation.id);
+      continue;
+    }
+    // Still a local id here means its create failed or was dropped earlier
+    if (
+      failedEntryIds.has(mutation.entry_id) ||
+      (mutation.kind === 'update' && isLocalEntryId(mutation.entry_id))
+    ) {
+      result.failed.push({
+        mutation,
+        error: 'An earlier change to this time entry failed to sync',
+        failed_at: new Date().toISOString(),
+      });
+      result.settledIds.push(mutation.id);
+      continue;
+    }
+
+    let outcome: ReplayOutcome;
+    try {
+      outcome =
+        mutation.kind === 'create'
+          ? await replayCreate(mutation)
+          : await replayUpdate(mutation);
+    } catch (error) {
+      console.error(`Failed to replay offline mutation ${mutation.id}:`, error);
+      result.halted = true;
+      break;
+    }
+
+    if (outcome.status === 'retry' || outcome.status === 'unauthorized') {
+      result.halted = true;
+      result.unauthorized = outcome.status === 'unauthorized';
+      break;
+    }
+
+    if (outcome.status === 'synced') {
+      if (mutation.kind === 'create') {
+        result.idMap[mutation.entry_id] = outcome.entryId;
+      }
+    } else if (outcome.status === 'conflict') {
+      conflictedEntryIds.add(mutation.entry_id);
+      result.conflicts.push(mutation);
+    } else {
+      failedEntryIds.add(mutation.entry_id);
+      result.failed.push({
+        mutation,
+        error: outcome.error,
+        failed_at: new Date().toISOString(),
+      });
+    }
+    result.settledIds.push(mutation.id);
+  }
+
+  return result;
+}
@@ -0,0 +1,275 @@
+import { NextResponse } from 'next/server';
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { getProjectClientDetails } from '@/lib/clients';
+import { parseProjectReportShareToken } from '@/lib/project-report-shares';
+import {
+  buildTimeReport,
+  ReportTimeEntry,
+  resolveBillingRate,
+} from '@/lib/reports';
+import { fetchAllPages } from '@/lib/supabase/pagination';
+import { createClient } from '@/lib/supabase/server';
+import {
+  getTimeEntrySecondsInRange,
+  TIME_ENTRY_SEGMENTS_SELECT,
+} from '@/lib/time-entry-segments';
+import { getZonedDayRange } from '@/lib/time-zones';
+import {
+  getWorkspaceRole,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSION_ERROR_MESSAGES,
+} from '@/lib/workspaces';
+import {
+  ProjectReport,
+  ProjectReportEntry,
+  ProjectReportShare,
+  ProjectReportTask,
+  TaskStatus,
+} from '@/types';
+
+export type ProjectReportShareLookup =
+  | { share: ProjectReportShare; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Finds the share a report URL opens. Viewers have no account, so this reads
+ * with the admin client; revoked shares are refused.
+ */
+export async function findProjectReportShare(
+  admin: SupabaseClient,
+  tokenSegment: string
+): Promise<ProjectReportShareLookup> {
+  const token = parseProjectReportShareToken(tokenSegment);
+  if (!token) {
+    return { error: 'This link is no longer valid', status: 404 };
+  }
+
+  const { data: share, error } = await admin
+    .from('project_report_shares')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project report share: ${error.message}`);
+  }
+  if (!share || share.revoked_at) {
+    return { error: 'This link is no longer valid', status: 404 };
+  }
+  return { share };
+}
+
+type ProjectReportTimeEntry = ReportTimeEntry & {
+  description: string | null;
+  task: (ReportTimeEntry['task'] & { status?: TaskStatus | null }) | null;
+};
+
+/**
+ * Time report of a shared project: stopped entries of every member for the
+ * time worked inside the share's days, totalled per task and billed like
+ * time reports (task rate, then project rate, in the project's currency)
+ * @returns The report, or null when the project no longer exists
+ */
+export async function fetchProjectReport(
+  admin: SupabaseClient,
+  share: ProjectReportShare
+): Promise<ProjectReport | null> {
+  const [{ data: project, error: projectError }, { data: sharedBy }] =
+    await Promise.all([
+      admin
+        .from('projects')
+        .select(
+          'id, name, client_name, rate_type, price, currency_code, client:client_id (name)'
+        )
+        .eq('id', share.project_id)
+        .maybeSingle(),
+      share.created_by
+        ? admin
+            .from('users')
+            .select('business_name')
+            .eq('id', share.created_by)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+  if (projectError) {
+    throw new Error(`Failed to fetch project: ${projectError.message}`);
+  }
+  if (!project) return null;
+
+  const { start: from, end: to } = getZonedDayRange(
+    share.from_date,
+    share.time_zone,
+    share.to_date
+  );
+
+  // A long range can hold more than one page of entries, so every page is
+  // loaded (the id breaks ties in the order, so pages never overlap)
+  let entriesRaw: unknown[];
+  try {
+    entriesRaw = await fetchAllPages((rangeFrom, rangeTo) =>
+      admin
+        .from('time_entries')
+        .select(
+          `
+            id,
+            task_id,
+            project_id,
+            duration_seconds,
+            end_time,
+            description,
+            ${TIME_ENTRY_SEGMENTS_SELECT},
+            task:task_id (
+              id,
+              name,
+              priority,
+              status,
+              rate_type,
+              price
+            )
+          `
+        )
+        .eq('project_id', share.project_id)
+        .eq('timer_status', 'stopped')
+        .gte('end_time', from.toISOString())
+        .or(`start_time.is.null,start_time.lte.${to.toISOString()}`)
+        .order('end_time', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Query failed';
+    throw new Error(`Failed to fetch time entries: ${message}`);
+  }
+
+  const projectFields = {
+    id: project.id,
+    name: project.name,
+    rate_type: project.rate_type,
+    price: project.price,
+    currency_code: project.currency_code,
+  };
+  const currencyCode = project.currency_code || 'USD';
+  const timeEntries = entriesRaw.map(entry => ({
+    ...(entry as unknown as ProjectReportTimeEntry),
+    project: projectFields,
+  }));
+
+  const report = buildTimeReport(timeEntries, {
+    groupBy: 'task',
+    from: from.toISOString(),
+    to: to.toISOString(),
+    timeZone: share.time_zone,
+  });
+
+  const tasksById = new Map(
+    timeEntries
+      .filter(entry => entry.task)
+      .map(entry => [entry.task_id, entry.task!])
+  );
+  const tasks: ProjectReportTask[] = report.rows.map(row => {
+    const task = tasksById.get(row.key) ?? null;
+    const rate = share.hide_rates
+      ? null
+      : resolveBillingRate(task, projectFields);
+    const amount = row.billable.find(
+      billable => billable.currency_code === currencyCode
+    )?.amount;
+    return {
+      task_id: row.key,
+      name: row.label,
+      status: task?.status ?? null,
+      duration_seconds: row.duration_seconds,
+      entry_count: row.entry_count,
+      rate_type: rate?.rateType ?? null,
+      price: rate?.price ?? null,
+      amount: share.hide_rates ? null : (amount ?? 0),
+    };
+  });
+
+  const entries: ProjectReportEntry[] = timeEntries
+    .map(entry => ({
+      id: entry.id,
+      task_name: entry.task?.name ?? 'Unknown task',
+      description: entry.description ?? null,
+      end_time: entry.end_time,
+      duration_seconds: getTimeEntrySecondsInRange(entry, from, to),
+    }))
+    .filter(entry => entry.duration_seconds > 0);
+
+  return {
+    project_name: project.name,
+    client_name: getProjectClientDetails(project).client_name,
+    business_name: sharedBy?.business_name ?? null,
+    from_date: share.from_date,
+    to_date: share.to_date,
+    time_zone: share.time_zone,
+    hide_rates: share.hide_rates,
+    currency_code: currencyCode,
+    tasks,
+    entries,
+    total_seconds: report.total_seconds,
+    total_amount: share.hide_rates
+      ? null
+      : tasks.reduce((sum, task) => sum + (task.amount ?? 0), 0),
+  };
+}
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+export type ProjectReportSharesAccess =
+  | { response: NextResponse }
+  | {
+      response?: undefined;
+      supabase: Supabase;
+      userId: string;
+      project: { id: string; workspace_id: string };
+    };
+
+/** Signed-in owner or admin of the project's workspace */
+export async function getProjectReportSharesAccess(
+  projectId: string
+): Promise<ProjectReportSharesAccess> {
+  const supabase = await createClient();
+
+  // Get the current user from the session
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, workspace_id')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (!project) {
+    return {
+      response: NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const role = await getWorkspaceRole(supabase, user.id, project.workspace_id);
+  if (!hasWorkspacePermission(role, 'manage_projects')) {
+    return {
+      response: NextResponse.json(
+        { error: WORKSPACE_PERMISSION_ERROR_MESSAGES.manage_projects },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { supabase, userId: user.id, project };
+}
@@ -0,0 +1,294 @@
+import PDFDocument from 'pdfkit';
+
+import { formatPrice, formatPriceWithCurrency } from '@/lib/currencies';
+import {
+  formatProjectReportDay,
+  formatProjectReportEntryDate,
+} from '@/lib/project-report-shares';
+import { formatReportHours } from '@/lib/reports';
+import { ProjectReport } from '@/types';
+
+const MARGIN = 50;
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 842; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN;
+
+// Same content block as invoice PDFs
+const CONTENT_LEFT_INSET = 30;
+const CONTENT_BLOCK_WIDTH = CONTENT_WIDTH - CONTENT_LEFT_INSET;
+
+const SECTION_GAP = 0.5;
+const TABLE_ROW_HEIGHT = 22;
+// Rows stop above the page footer
+const TABLE_BOTTOM = PAGE_HEIGHT - MARGIN - 30;
+// Long names and descriptions are cut so every row keeps one line
+const TASK_NAME_MAX_CHARS = 38;
+const ENTRY_TASK_MAX_CHARS = 28;
+const DESCRIPTION_MAX_CHARS = 36;
+
+// Table column shares of content block width (each must sum to 1)
+const TASK_COL_RATIOS = [0.4, 0.13, 0.11, 0.18, 0.18] as const;
+const TASK_COL_RATIOS_WITHOUT_RATES = [0.66, 0.17, 0.17] as const;
+const ENTRY_COL_RATIOS = [0.18, 0.3, 0.39, 0.13] as const;
+
+type PdfAlignLeft = { x: 'left'; y: 'center' };
+type PdfAlignRight = { x: 'right'; y: 'center' };
+type TableCell =
+  | string
+  | { text: string; align?: PdfAlignLeft | PdfAlignRight };
+
+const BODY_FONT_FAMILY = 'Helvetica';
+const BODY_FONT_SIZE = 10;
+
+const leftAlign: { align: PdfAlignLeft } = {
+  align: { x: 'left', y: 'center' },
+};
+const rightAlign: { align: PdfAlignRight } = {
+  align: { x: 'right', y: 'center' },
+};
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+/**
+ * Draws a table with one-line rows, starting a new page (with the header
+ * repeated) whenever the next row would run into the footer
+ */
+function drawPaginatedTable(
+  doc: PDFKit.PDFDocument,
+  ratios: readonly number[],
+  headerRow: TableCell[],
+  bodyRows: TableCell[][],
+  totalRow?: TableCell[]
+): void {
+  const blockLeft = CONTENT_LEFT_INSET;
+  const columnStyles = ratios.map(ratio => CONTENT_BLOCK_WIDTH * ratio);
+  const drawHeader = () => {
+    doc.font('Helvetica-Bold').fontSize(BODY_FONT_SIZE);
+    doc.table({
+      position: { x: blockLeft, y: doc.y },
+      maxWidth: CONTENT_BLOCK_WIDTH,
+      columnStyles,
+      rowStyles: {
+        border: [0, 0, 1, 0] as [number, number, number, number],
+        borderColor: '#cbd5e1',
+      },
+      data: [headerRow],
+    });
+  };
+
+  // Header needs room for at least one row under it
+  if (doc.y + TABLE_ROW_HEIGHT * 2 > TABLE_BOTTOM) {
+    doc.addPage();
+  }
+  drawHeader();
+
+  let remaining = bodyRows;
+  while (remaining.length > 0) {
+    const fit = Math.max(
+      1,
+      Math.floor((TABLE_BOTTOM - doc.y) / TABLE_ROW_HEIGHT)
+    );
+    doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
+    doc.table({
+      position: { x: blockLeft, y: doc.y },
+      maxWidth: CONTENT_BLOCK_WIDTH,
+      columnStyles,
+      rowStyles: {
+        border: [0, 0, 1, 0] as [number, number, number, number],
+        borderColor: '#cbd5e1',
+        minHeight: TABLE_ROW_HEIGHT,
+      },
+      data: remaining.slice(0, fit),
+    });
+    remaining = remaining.slice(fit);
+    if (
+      remaining.length > 0 ||
+      (totalRow && doc.y + TABLE_ROW_HEIGHT > TABLE_BOTTOM)
+    ) {
+      doc.addPage();
+      drawHeader();
+    }
+  }
+
+  if (totalRow) {
+    doc.font('Helvetica-Bold').fontSize(BODY_FONT_SIZE);
+    doc.table({
+      position: { x: blockLeft, y: doc.y },
+      maxWidth: CONTENT_BLOCK_WIDTH,
+      columnStyles,
+      rowStyles: { border: false as const, minHeight: TABLE_ROW_HEIGHT },
+      data: [totalRow],
+    });
+  }
+}
+
+/**
+ * Generates a shared project time report PDF as a buffer using PDFKit.
+ * Uses the invoice PDF layout: title, details, then the task totals and the
+ * time entries, each paginated with a repeated header. Rate and amount
+ * columns are left out when the share hides rates.
+ */
+export async function generateProjectReportPdf(
+  report: ProjectReport
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      margin: MARGIN,
+      size: 'A4',
+      bufferPages: true,
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const blockLeft = CONTENT_LEFT_INSET;
+    const showRates = !report.hide_rates;
+    const formatAmount = (amount: number | null) =>
+      amount === null
+        ? '—'
+        : formatPriceWithCurrency(amount, report.currency_code);
+
+    // ---- Title and details ----
+    doc
+      .fontSize(22)
+      .font('Helvetica-Bold')
+      .text('Project Time Report', blockLeft, doc.y);
+    doc.moveDown(SECTION_GAP);
+    doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
+    const details: string[][] = [['Project', report.project_name]];
+    if (report.client_name) details.push(['Client', report.client_name]);
+    if (report.business_name) {
+      details.push(['Prepared by', report.business_name]);
+    }
+    details.push(
+      [
+        'Period',
+        `${formatProjectReportDay(report.from_date)} – ${formatProjectReportDay(report.to_date)}`,
+      ],
+      ['Total hours', formatReportHours(report.total_seconds)]
+    );
+    if (showRates) {
+      details.push(['Total amount', formatAmount(report.total_amount)]);
+    }
+    doc.table({
+      position: { x: blockLeft, y: doc.y },
+      maxWidth: CONTENT_BLOCK_WIDTH,
+      columnStyles: [CONTENT_BLOCK_WIDTH * 0.2, CONTENT_BLOCK_WIDTH * 0.6],
+      rowStyles: { border: false as const },
+      data: details,
+    });
+    doc.moveDown(SECTION_GAP + 0.75);
+
+    if (report.entries.length === 0) {
+      doc.text('No time tracked in this period.', blockLeft, doc.y);
+    } else {
+      // ---- Tasks ----
+      doc.font('Helvetica-Bold').fontSize(14).text('Tasks', blockLeft, doc.y);
+      doc.moveDown(SECTION_GAP);
+      const taskHeader: TableCell[] = [
+        { text: 'Task', ...leftAlign },
+        { text: 'Hours', ...rightAlign },
+        { text: 'Entries', ...rightAlign },
+      ];
+      if (showRates) {
+        taskHeader.push(
+          { text: 'Rate', ...rightAlign },
+          { text: 'Amount', ...rightAlign }
+        );
+      }
+      const taskRows: TableCell[][] = report.tasks.map(task => {
+        const row: TableCell[] = [
+          { text: truncate(task.name, TASK_NAME_MAX_CHARS), ...leftAlign },
+          { text: formatReportHours(task.duration_seconds), ...rightAlign },
+          { text: String(task.entry_count), ...rightAlign },
+        ];
+        if (showRates) {
+          row.push(
+            {
+              text:
+                formatPrice(task.price, task.rate_type, report.currency_code) ??
+                '—',
+              ...rightAlign,
+            },
+            { text: formatAmount(task.amount), ...rightAlign }
+          );
+        }
+        return row;
+      });
+      const taskTotal: TableCell[] = [
+        { text: 'Total', ...leftAlign },
+        { text: formatReportHours(report.total_seconds), ...rightAlign },
+        { text: String(report.entries.length), ...rightAlign },
+      ];
+      if (showRates) {
+        taskTotal.push('', {
+          text: formatAmount(report.total_amount),
+          ...rightAlign,
+        });
+      }
+      drawPaginatedTable(
+        doc,
+        showRates ? TASK_COL_RATIOS : TASK_COL_RATIOS_WITHOUT_RATES,
+        taskHeader,
+        taskRows,
+        taskTotal
+      );
+      doc.moveDown(SECTION_GAP + 0.75);
+
+      // ---- Time entries ----
+      if (doc.y + TABLE_ROW_HEIGHT * 3 > TABLE_BOTTOM) {
+        doc.addPage();
+      }
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(14)
+        .text('Time entries', blockLeft, doc.y);
+      doc.moveDown(SECTION_GAP);
+      drawPaginatedTable(
+        doc,
+        ENTRY_COL_RATIOS,
+        [
+          { text: 'Date', ...leftAlign },
+          { text: 'Task', ...leftAlign },
+          { text: 'Description', ...leftAlign },
+          { text: 'Hours', ...rightAlign },
+        ],
+        report.entries.map(entry => [
+          {
+            text: formatProjectReportEntryDate(
+              entry.end_time,
+              report.time_zone
+            ),
+            ...leftAlign,
+          },
+          {
+            text: truncate(entry.task_name, ENTRY_TASK_MAX_CHARS),
+            ...leftAlign,
+          },
+          {
+            text: truncate(entry.description ?? '', DESCRIPTION_MAX_CHARS),
+            ...leftAlign,
+          },
+          { text: formatReportHours(entry.duration_seconds), ...rightAlign },
+        ])
+      );
+    }
+
+    // Add "Page X of Y" footer to each page (lower right)
+    const pages = doc.bufferedPageRange();
+    const footerY = PAGE_HEIGHT - MARGIN - 15;
+    doc.font(BODY_FONT_FAMILY).fontSize(9);
+    for (let i = 0; i < pages.count; i += 1) {
+      doc.switchToPage(i);
+      doc.text(`Page ${i + 1} of ${pages.count}`, blockLeft, footerY, {
+        width: CONTENT_BLOCK_WIDTH,
+        align: 'right',
+      });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,69 @@
+import { parseCalendarDay } from '@/lib/time-zones';
+
+// Upper bound on a shared range, like time reports
+export const PROJECT_REPORT_SHARE_MAX_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Random secret for a shared report URL */
+export function generateProjectReportShareToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Token from the shared report path
+ * @returns The token, or null when the segment cannot be one
+ */
+export function parseProjectReportShareToken(segment: string): string | null {
+  return /^[a-f0-9]{32}$/i.test(segment) ? segment.toLowerCase() : null;
+}
+
+export function getProjectReportSharePath(token: string): string {
+  return `/project-report/${token}`;
+}
+
+/**
+ * Calendar days a share covers
+ * @returns Day keys ("2025-09-15"), or an error message
+ */
+export function parseProjectReportShareRange(
+  from: unknown,
+  to: unknown
+): { fromDate: string; toDate: string } | { error: string } {
+  const fromDate = parseCalendarDay(from);
+  const toDate = parseCalendarDay(to);
+  if (!fromDate || !toDate || fromDate > toDate) {
+    return { error: 'Invalid date range' };
+  }
+  const days = (Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS + 1;
+  if (days > PROJECT_REPORT_SHARE_MAX_DAYS) {
+    return {
+      error: `Date range cannot exceed ${PROJECT_REPORT_SHARE_MAX_DAYS} days`,
+    };
+  }
+  return { fromDate, toDate };
+}
+
+/** Day key as a label, e.g. "September 15, 2025" */
+export function formatProjectReportDay(dayKey: string): string {
+  // Parse as UTC so the label shows the key's calendar day on any server
+  return new Date(`${dayKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+/** Day an entry ended, in the report's time zone, e.g. "Sep 15, 2025" */
+export function formatProjectReportEntryDate(
+  iso: string,
+  timeZone: string
+): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
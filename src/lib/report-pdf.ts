@@ -0,0 +1,207 @@
+import PDFDocument from 'pdfkit';
+
+import { formatPriceWithCurrency } from '@/lib/currencies';
+import { formatReportHours, REPORT_GROUP_BY_OPTIONS } from '@/lib/reports';
+import { TimeReport } from '@/types';
+
+const MARGIN = 50;
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 842; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN;
+
+// Same content block as invoice PDFs
+const CONTENT_LEFT_INSET = 30;
+const CONTENT_BLOCK_WIDTH = CONTENT_WIDTH - CONTENT_LEFT_INSET;
+
+const SECTION_GAP = 0.5;
+const TABLE_ROW_HEIGHT = 26;
+const REPORT_ROWS_PER_PAGE = 20;
+
+// Table column share of content block width (must sum to 1)
+const TABLE_COL_RATIOS = [0.4, 0.13, 0.11, 0.11, 0.25] as const;
+
+type PdfAlignLeft = { x: 'left'; y: 'center' };
+type PdfAlignRight = { x: 'right'; y: 'center' };
+type TableCell =
+  | string
+  | { text: string; align?: PdfAlignLeft | PdfAlignRight };
+
+const BODY_FONT_FAMILY = 'Helvetica';
+const BODY_FONT_SIZE = 10;
+
+// Range bounds are instants; show them as calendar days in the report's time zone
+function formatReportDate(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function formatBillable(amounts: TimeReport['billable_totals']): string {
+  if (amounts.length === 0) return '—';
+  return amounts
+    .map(a => formatPriceWithCurrency(a.amount, a.currency_code))
+    .join('\n');
+}
+
+/**
+ * Generates a time report PDF as a buffer using PDFKit.
+ * Uses the invoice PDF layout: title, period, one table paginated with a repeated header.
+ */
+export async function generateTimeReportPdf(
+  report: TimeReport
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      margin: MARGIN,
+      size: 'A4',
+      bufferPages: true,
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const blockLeft = CONTENT_LEFT_INSET;
+    const groupLabel =
+      REPORT_GROUP_BY_OPTIONS.find(option => option.value === report.group_by)
+        ?.label ?? 'Group';
+
+    // ---- Title and period ----
+    doc
+      .fontSize(22)
+      .font('Helvetica-Bold')
+      .text('Time Report', blockLeft, doc.y);
+    doc.moveDown(SECTION_GAP);
+    doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
+    doc.table({
+      position: { x: blockLeft, y: doc.y },
+      maxWidth: CONTENT_BLOCK_WIDTH,
+      columnStyles: [CONTENT_BLOCK_WIDTH * 0.2, CONTENT_BLOCK_WIDTH * 0.5],
+      rowStyles: { border: false as const },
+      data: [
+        [
+          'Period',
+          `${formatReportDate(report.from, report.time_zone)} – ${formatReportDate(report.to, report.time_zone)}`,
+        ],
+        ['Grouped by', groupLabel],
+        ['Total hours', formatReportHours(report.total_seconds)],
+        ['Billable', formatBillable(report.billable_totals)],
+      ],
+    });
+    doc.moveDown(SECTION_GAP + 0.75);
+
+    // ---- Rows table with pagination (header repeated) ----
+    const leftAlign: { align: PdfAlignLeft } = {
+      align: { x: 'left', y: 'center' },
+    };
+    const rightAlign: { align: PdfAlignRight } = {
+      align: { x: 'right', y: 'center' },
+    };
+    const columnStyles = TABLE_COL_RATIOS.map(
+      ratio => CONTENT_BLOCK_WIDTH * ratio
+    );
+    const headerRow: TableCell[] = [
+      { text: groupLabel, ...leftAlign },
+      { text: 'Hours', ...rightAlign },
+      { text: 'Entries', ...rightAlign },
+      { text: 'Focus', ...rightAlign },
+      { text: 'Billable', ...rightAlign },
+    ];
+    const bodyRowStyles = {
+      border: [0, 0, 1, 0] as [number, number, number, number],
+      borderColor: '#cbd5e1',
+      minHeight: TABLE_ROW_HEIGHT,
+    };
+
+    const totalPages = Math.max(
+      1,
+      Math.ceil(report.rows.length / REPORT_ROWS_PER_PAGE)
+    );
+
+    for (let pageIndex = 0; pageIndex < totalPages; pageIndex += 1) {
+      if (pageIndex > 0) {
+        doc.addPage();
+      }
+
+      const startIdx = pageIndex * REPORT_ROWS_PER_PAGE;
+      const pageRows = report.rows.slice(
+        startIdx,
+        startIdx + REPORT_ROWS_PER_PAGE
+      );
+
+      doc.font('Helvetica-Bold').fontSize(BODY_FONT_SIZE);
+      doc.table({
+        position: { x: blockLeft, y: doc.y },
+        maxWidth: CONTENT_BLOCK_WIDTH,
+        columnStyles,
+        rowStyles: {
+          border: [0, 0, 1, 0] as [number, number, number, number],
+          borderColor: '#cbd5e1',
+        },
+        data: [headerRow],
+      });
+
+      if (pageRows.length === 0) {
+        doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
+        doc.moveDown(SECTION_GAP);
+        doc.text('No time tracked in this period.', blockLeft, doc.y);
+        break;
+      }
+
+      const bodyData: TableCell[][] = pageRows.map(row => [
+        {
+          text: row.sublabel ? `${row.label}\n${row.sublabel}` : row.label,
+          ...leftAlign,
+        },
+        { text: formatReportHours(row.duration_seconds), ...rightAlign },
+        { text: String(row.entry_count), ...rightAlign },
+        { text: String(row.focus_count), ...rightAlign },
+        { text: formatBillable(row.billable), ...rightAlign },
+      ]);
+      doc.font(BODY_FONT_FAMILY).fontSize(BODY_FONT_SIZE);
+      doc.table({
+        position: { x: blockLeft, y: doc.y },
+        maxWidth: CONTENT_BLOCK_WIDTH,
+        columnStyles,
+        rowStyles: bodyRowStyles,
+        data: bodyData,
+      });
+
+      if (pageIndex === totalPages - 1) {
+        doc.font('Helvetica-Bold').fontSize(BODY_FONT_SIZE);
+        doc.table({
+          position: { x: blockLeft, y: doc.y },
+          maxWidth: CONTENT_BLOCK_WIDTH,
+          columnStyles,
+          rowStyles: { border: false as const, minHeight: TABLE_ROW_HEIGHT },
+          data: [
+            [
+              { text: 'Total', ...leftAlign },
+              { text: formatReportHours(report.total_seconds), ...rightAlign },
+              { text: String(report.entry_count), ...rightAlign },
+              { text: String(report.focus_count), ...rightAlign },
+              { text: formatBillable(report.billable_totals), ...rightAlign },
+            ],
+          ],
+        });
+      }
+    }
+
+    // Add "Page X of Y" footer to each page (lower right)
+    const pages = doc.bufferedPageRange();
+    const footerY = PAGE_HEIGHT - MARGIN - 15;
+    doc.font(BODY_FONT_FAMILY).fontSize(9);
+    for (let i = 0; i < pages.count; i += 1) {
+      doc.switchToPage(i);
+      doc.text(`Page ${i + 1} of ${pages.count}`, blockLeft, footerY, {
+        width: CONTENT_BLOCK_WIDTH,
+        align: 'right',
+      });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,350 @@
+import { getPriorityLabel } from '@/lib/priority';
+import {
+  getTimeEntryRangePieces,
+  SegmentedTimeEntry,
+} from '@/lib/time-entry-segments';
+import { getZonedDayKey } from '@/lib/time-zones';
+import { escapeCsvValue } from '@/lib/utils';
+import {
+  Priority,
+  RateType,
+  ReportCurrencyAmount,
+  ReportGroupBy,
+  TimeReport,
+  TimeReportRow,
+} from '@/types';
+
+export const REPORT_GROUP_BY_OPTIONS: Array<{
+  value: ReportGroupBy;
+  label: string;
+}> = [
+  { value: 'project', label: 'Project' },
+  { value: 'task', label: 'Task' },
+  { value: 'client', label: 'Client' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'day', label: 'Day' },
+];
+
+export function isReportGroupBy(value: unknown): value is ReportGroupBy {
+  return REPORT_GROUP_BY_OPTIONS.some(option => option.value === value);
+}
+
+/** Stopped time entry with the task/project fields needed for grouping and billing. */
+export interface ReportTimeEntry {
+  id: string;
+  task_id: string;
+  project_id: string;
+  duration_seconds: number;
+  end_time: string;
+  segments?: SegmentedTimeEntry['segments'];
+  task: {
+    id: string;
+    name: string;
+    priority: Priority;
+    rate_type?: RateType | null;
+    price?: number | null;
+  } | null;
+  project: {
+    id: string;
+    name: string;
+    client_name?: string | null;
+    rate_type?: RateType | null;
+    price?: number | null;
+    currency_code?: string | null;
+  } | null;
+}
+
+/** Completed focus interval with the fields needed to group it like time entries. */
+export type ReportFocusInterval = Pick<
+  ReportTimeEntry,
+  'task_id' | 'project_id' | 'task' | 'project'
+> & { completed_at: string };
+
+function formatDayLabel(dayKey: string): string {
+  // Parse as a local date so the label shows the same calendar day as the key
+  return new Date(`${dayKey}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Rate used for billing, resolved like invoices: task rate, then project rate
+ * @returns Rate type and price, or null when neither has a rate
+ */
+export function resolveBillingRate(
+  task: ReportTimeEntry['task'],
+  project: ReportTimeEntry['project']
+): { rateType: RateType; price: number } | null {
+  if (task?.rate_type && task.price != null) {
+    return { rateType: task.rate_type, price: Number(task.price) };
+  }
+  if (project?.rate_type && project.price != null) {
+    return { rateType: project.rate_type, price: Number(project.price) };
+  }
+  return null;
+}
+
+function getGroup(
+  entry: Pick<ReportTimeEntry, 'task_id' | 'project_id' | 'task' | 'project'>,
+  groupBy: ReportGroupBy,
+  timeZone: string,
+  at: string
+): Pick<TimeReportRow, 'key' | 'label' | 'sublabel'> {
+  switch (groupBy) {
+    case 'project':
+      return {
+        key: entry.project_id,
+        label: entry.project?.name ?? 'Unknown project',
+      };
+    case 'task':
+      return {
+        key: entry.task_id,
+        label: entry.task?.name ?? 'Unknown task',
+        sublabel: entry.project?.name ?? null,
+      };
+    case 'client': {
+      const clientName = entry.project?.client_name?.trim();
+      return clientName
+        ? { key: clientName.toLowerCase(), label: clientName }
+        : { key: '', label: 'No client' };
+    }
+    case 'priority': {
+      const priority = entry.task?.priority ?? 'medium';
+      return { key: priority, label: getPriorityLabel(priority) };
+    }
+    case 'day': {
+      const dayKey = getZonedDayKey(at, timeZone);
+      return { key: dayKey, label: formatDayLabel(dayKey) };
+    }
+  }
+}
+
+const PRIORITY_ORDER: Priority[] = ['urgent', 'high', 'medium', 'low'];
+
+function toCurrencyAmounts(
+  amounts: Map<string, number>
+): ReportCurrencyAmount[] {
+  return Array.from(amounts.entries())
+    .map(([currency_code, amount]) => ({
+      currency_code,
+      amount: Math.round(amount * 100) / 100,
+    }))
+    .sort((a, b) => a.currency_code.localeCompare(b.currency_code));
+}
+
+/**
+ * Aggregates stopped time entries into report rows.
+ * Only time worked inside the range counts: entries with recorded segments
+ * contribute each run's overlap (dated by when the run ended, for day rows),
+ * others their whole duration by end_time.
+ * Hourly rates bill the tracked hours; a fixed price is split across rows by each
+ * row's share of that task's time in the range. Amounts are kept per currency.
+ * @param entries - Stopped entries that may overlap the range
+ * @param options - Grouping, range and the time zone used for day grouping
+ * @param focusIntervals - Focus intervals completed in the range (counted per
+ *   row by completion time; a row may have focus intervals but no stopped time)
+ * @returns Report rows (days in order, otherwise most time first) and totals
+ */
+export function buildTimeReport(
+  entries: ReportTimeEntry[],
+  options: {
+    groupBy: ReportGroupBy;
+    from: string;
+    to: string;
+    timeZone: string;
+  },
+  focusIntervals: ReportFocusInterval[] = []
+): TimeReport {
+  const { groupBy, timeZone } = options;
+  const from = new Date(options.from);
+  const to = new Date(options.to);
+
+  // Each entry's seconds in range per group key
+  const entryParts = entries
+    .map(entry => {
+      const parts = new Map<
+        string,
+        { seconds: number; group: ReturnType<typeof getGroup> }
+      >();
+      for (const piece of getTimeEntryRangePieces(entry, from, to)) {
+        const group = getGroup(entry, groupBy, timeZone, piece.at);
+        const part = parts.get(group.key) ?? { seconds: 0, group };
+        part.seconds += piece.seconds;
+        parts.set(group.key, part);
+      }
+      return { entry, parts: Array.from(parts.values()) };
+    })
+    .filter(({ parts }) => parts.length > 0);
+
+  // Task totals in range, for splitting fixed prices
+  const taskTotals = new Map<string, { seconds: number; count: number }>();
+  for (const { entry, parts } of entryParts) {
+    const totals = taskTotals.get(entry.task_id) ?? { seconds: 0, count: 0 };
+    totals.seconds += parts.reduce((sum, part) => sum + part.seconds, 0);
+    totals.count += 1;
+    taskTotals.set(entry.task_id, totals);
+  }
+
+  const groups = new Map<
+    string,
+    Omit<TimeReportRow, 'billable'> & { billable: Map<string, number> }
+  >();
+  const billableTotals = new Map<string, number>();
+  let totalSeconds = 0;
+
+  for (const { entry, parts } of entryParts) {
+    for (const part of parts) {
+      const seconds = part.seconds;
+      const { key, label, sublabel } = part.group;
+
+      const group = groups.get(key) ?? {
+        key,
+        label,
+        sublabel: sublabel ?? null,
+        duration_seconds: 0,
+        entry_count: 0,
+        focus_count: 0,
+        billable: new Map<string, number>(),
+      };
+      group.duration_seconds += seconds;
+      group.entry_count += 1;
+      totalSeconds += seconds;
+
+      const rate = resolveBillingRate(entry.task, entry.project);
+      if (rate && rate.price > 0) {
+        const currencyCode = entry.project?.currency_code || 'USD';
+        let amount: number;
+        if (rate.rateType === 'hourly') {
+          amount = (seconds / 3600) * rate.price;
+        } else {
+          const taskTotal = taskTotals.get(entry.task_id)!;
+          const share =
+            taskTotal.seconds > 0
+              ? seconds / taskTotal.seconds
+              : 1 / taskTotal.count;
+          amount = rate.price * share;
+        }
+        group.billable.set(
+          currencyCode,
+          (group.billable.get(currencyCode) ?? 0) + amount
+        );
+        billableTotals.set(
+          currencyCode,
+          (billableTotals.get(currencyCode) ?? 0) + amount
+        );
+      }
+
+      groups.set(key, group);
+    }
+  }
+
+  for (const focusInterval of focusIntervals) {
+    const { key, label, sublabel } = getGroup(
+      focusInterval,
+      groupBy,
+      timeZone,
+      focusInterval.completed_at
+    );
+    const group = groups.get(key) ?? {
+      key,
+      label,
+      sublabel: sublabel ?? null,
+      duration_seconds: 0,
+      entry_count: 0,
+      focus_count: 0,
+      billable: new Map<string, number>(),
+    };
+    group.focus_count += 1;
+    groups.set(key, group);
+  }
+
+  const rows: TimeReportRow[] = Array.from(groups.values()).map(group => ({
+    ...group,
+    billable: toCurrencyAmounts(group.billable),
+  }));
+
+  if (groupBy === 'day') {
+    rows.sort((a, b) => a.key.localeCompare(b.key));
+  } else if (groupBy === 'priority') {
+    rows.sort(
+      (a, b) =>
+        PRIORITY_ORDER.indexOf(a.key as Priority) -
+        PRIORITY_ORDER.indexOf(b.key as Priority)
+    );
+  } else {
+    rows.sort(
+      (a, b) =>
+        b.duration_seconds - a.duration_seconds ||
+        a.label.localeCompare(b.label)
+    );
+  }
+
+  return {
+    group_by: groupBy,
+    from: options.from,
+    to: options.to,
+    time_zone: timeZone,
+    rows,
+    total_seconds: totalSeconds,
+    entry_count: entryParts.length,
+    focus_count: focusIntervals.length,
+    billable_totals: toCurrencyAmounts(billableTotals),
+  };
+}
+
+/** Hours with two decimals, as used in report tables and downloads. */
+export function formatReportHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+/**
+ * Builds the CSV download of a report (one row per group, one billable column per currency)
+ * @param report - Report to serialize
+ * @returns CSV text with a UTF-8 BOM for Excel
+ */
+export function timeReportToCsv(report: TimeReport): string {
+  const currencies = report.billable_totals.map(t => t.currency_code);
+  const groupLabel =
+    REPORT_GROUP_BY_OPTIONS.find(option => option.value === report.group_by)
+      ?.label ?? 'Group';
+
+  const header = [
+    groupLabel,
+    ...(report.group_by === 'task' ? ['Project'] : []),
+    'Hours',
+    'Entries',
+    'Focus intervals',
+    ...currencies.map(code => `Billable (${code})`),
+  ];
+
+  const amountFor = (amounts: ReportCurrencyAmount[], code: string) =>
+    (amounts.find(a => a.currency_code === code)?.amount ?? 0).toFixed(2);
+
+  const lines = report.rows.map(row => [
+    row.label,
+    ...(report.group_by === 'task' ? [row.sublabel ?? ''] : []),
+    formatReportHours(row.duration_seconds),
+    row.entry_count,
+    row.focus_count,
+    ...currencies.map(code => amountFor(row.billable, code)),
+  ]);
+
+  const totalLine = [
+    'Total',
+    ...(report.group_by === 'task' ? [''] : []),
+    formatReportHours(report.total_seconds),
+    report.entry_count,
+    report.focus_count,
+    ...currencies.map(code => amountFor(report.billable_totals, code)),
+  ];
+
+  return (
+    '\uFEFF' +
+    [header, ...lines, totalLine]
+      .map(cells => cells.map(cell => escapeCsvValue(cell)).join(','))
+      .join('\n')
+  );
+}
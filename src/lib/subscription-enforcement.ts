@@ -28,20 +28,43 @@ export async function getUserSubscription(
   return { tier, status };
 }
 
+/**
+ * Plan that governs a workspace: its owner's. Members of a team workspace work
+ * under the owner's plan, not their own.
+ */
+export async function getWorkspaceSubscriptionTier(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<SubscriptionTier> {
+  const { data, error } = await supabase.rpc('workspace_subscription_tier', {
+    target_workspace_id: workspaceId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch workspace subscription: ${error.message}`);
+  }
+
+  return (data ?? 'free') as SubscriptionTier;
+}
+
+/** Active (not completed) projects a Free workspace may have */
+export const FREE_TIER_MAX_ACTIVE_PROJECTS = 2;
+
 export type FreeTierProjectLimitState = {
   overLimit: boolean;
   activeProjectCount: number;
   writableProjectIds: string[];
 };
 
+/** Active projects of a workspace against the Free plan's limit */
 export async function getFreeTierProjectLimitState(
   supabase: SupabaseClient,
-  userId: string
+  workspaceId: string
 ): Promise<FreeTierProjectLimitState> {
   const { data: projects, error } = await supabase
     .from('projects')
     .select('id, status, created_at')
-    .eq('user_id', userId)
+    .eq('workspace_id', workspaceId)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -51,13 +74,33 @@ export async function getFreeTierProjectLimitState(
   const rows = projects ?? [];
   const active = rows.filter(p => p.status !== 'completed');
   const activeProjectCount = active.length;
-  const overLimit = activeProjectCount > 2;
+  const overLimit = activeProjectCount > FREE_TIER_MAX_ACTIVE_PROJECTS;
 
-  const writableProjectIds = overLimit ? active.slice(0, 2).map(p => p.id) : [];
+  const writableProjectIds = overLimit
+    ? active.slice(0, FREE_TIER_MAX_ACTIVE_PROJECTS).map(p => p.id)
+    : [];
 
   return { overLimit, activeProjectCount, writableProjectIds };
 }
 
+/**
+ * Projects of a workspace that may be changed: `null` when all of them may
+ * (Pro owner, or Free within the active-project limit)
+ */
+async function getWorkspaceWritableProjectIds(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<string[] | null> {
+  const tier = await getWorkspaceSubscriptionTier(supabase, workspaceId);
+  if (tier === 'pro') return null;
+
+  const { overLimit, writableProjectIds } = await getFreeTierProjectLimitState(
+    supabase,
+    workspaceId
+  );
+  return overLimit ? writableProjectIds : null;
+}
+
 /** Free users may not create, update, or delete invoices (view/download unchanged). */
 export function invoiceMutationAllowedForTier(tier: SubscriptionTier): boolean {
   return tier === 'pro';
@@ -82,38 +125,76 @@ export const FREE_TIER_PROJECT_READONLY_API_MESSAGE =
   'This project is read-only on the Free tier because you have more than 2 active projects.' as const;
 
 /**
- * For batch timer mutations: `null` means every project is allowed (Pro, or Free
- * within active-project limit). Otherwise only IDs in the set may be mutated.
+ * For batch timer mutations: `null` means every project is allowed. Otherwise
+ * only IDs in the set may be mutated; each project's workspace is checked
+ * against its owner's plan.
  */
 export async function getProjectIdsAllowedForTimeEntryMutation(
   supabase: SupabaseClient,
-  userId: string
+  projectIds: string[]
 ): Promise<Set<string> | null> {
-  const { tier } = await getUserSubscription(supabase, userId);
-  if (tier === 'pro') return null;
+  if (projectIds.length === 0) return null;
 
-  const { overLimit, writableProjectIds } = await getFreeTierProjectLimitState(
-    supabase,
-    userId
+  const { data: projects, error } = await supabase
+    .from('projects')
+    .select('id, workspace_id')
+    .in('id', [...new Set(projectIds)]);
+
+  if (error) {
+    throw new Error(`Failed to fetch projects: ${error.message}`);
+  }
+
+  const rows = projects ?? [];
+  const workspaceIds = [...new Set(rows.map(p => p.workspace_id as string))];
+  const writableByWorkspace = new Map(
+    await Promise.all(
+      workspaceIds.map(
+        async id =>
+          [id, await getWorkspaceWritableProjectIds(supabase, id)] as const
+      )
+    )
+  );
+  if ([...writableByWorkspace.values()].every(ids => ids === null)) {
+    return null;
+  }
+
+  return new Set(
+    rows
+      .filter(p => {
+        const writable = writableByWorkspace.get(p.workspace_id);
+        return !writable || writable.includes(p.id);
+      })
+      .map(p => p.id)
   );
-  if (!overLimit) return null;
-  return new Set(writableProjectIds);
 }
 
+/**
+ * Throws when the project's workspace is on the Free plan (its owner's) and
+ * over the active-project limit, unless the project is one of the most
+ * recent ones that stay writable
+ */
 export async function assertProjectWritableOrThrow(
   supabase: SupabaseClient,
-  userId: string,
   projectId: string
 ): Promise<void> {
-  const { tier } = await getUserSubscription(supabase, userId);
-  if (tier === 'pro') return;
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('workspace_id')
+    .eq('id', projectId)
+    .maybeSingle();
 
-  const { overLimit, writableProjectIds } = await getFreeTierProjectLimitState(
+  if (projectError) {
+    throw new Error(`Failed to fetch project: ${projectError.message}`);
+  }
+  // Missing projects are reported by the caller's own lookup
+  if (!project) return;
+
+  const writableProjectIds = await getWorkspaceWritableProjectIds(
     supabase,
-    userId
+    project.workspace_id
   );
 
-  if (!overLimit) return;
+  if (!writableProjectIds) return;
   if (writableProjectIds.includes(projectId)) return;
 
   const error = new Error('Project is read-only on Free tier');
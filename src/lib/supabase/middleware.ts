@@ -42,11 +42,20 @@ export async function updateSession(request: NextRequest) {
     !user &&
     !request.nextUrl.pathname.startsWith('/auth') &&
     !request.nextUrl.pathname.startsWith('/_next') &&
-    !request.nextUrl.pathname.startsWith('/api')
+    !request.nextUrl.pathname.startsWith('/api') &&
+    // Clients open their portal and shared reports without an account
+    !request.nextUrl.pathname.startsWith('/client-portal') &&
+    !request.nextUrl.pathname.startsWith('/project-report')
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone();
     url.pathname = '/auth/signin';
+    // Bring the user back here (e.g. a workspace invitation) after sign-in
+    url.search = '';
+    url.searchParams.set(
+      'next',
+      `${request.nextUrl.pathname}${request.nextUrl.search}`
+    );
     return NextResponse.redirect(url);
   }
 
@@ -0,0 +1,23 @@
+// PostgREST returns at most 1000 rows per request
+export const SUPABASE_PAGE_SIZE = 1000;
+
+/**
+ * Loads every page of a query, until a page comes back short. The query
+ * needs a stable order (e.g. ending on the id) so no row is skipped or
+ * repeated between pages.
+ * @param query - Builds the query for one page, ending in .range(from, to)
+ */
+export async function fetchAllPages<T>(
+  query: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await query(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) return rows;
+  }
+}
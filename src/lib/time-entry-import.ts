@@ -0,0 +1,922 @@
+import { getCurrencyByCode } from '@/lib/currencies';
+import { FREE_TIER_PROJECT_READONLY_API_MESSAGE } from '@/lib/subscription-enforcement';
+import { addDaysToKey, zonedTimeToDate } from '@/lib/time-zones';
+import { TIME_ENTRY_DESCRIPTION_MAX_LENGTH } from '@/lib/validation';
+import {
+  ProjectStatus,
+  TimeEntryImportPreviewRow,
+  TimeEntryImportResponse,
+  TimeEntryImportRow,
+} from '@/types';
+
+/** Most rows one import request may carry */
+export const TIME_ENTRY_IMPORT_MAX_ROWS = 5000;
+
+/** Task for rows whose file names no task */
+export const TIME_ENTRY_IMPORT_FALLBACK_TASK = 'Imported time';
+
+/** Local time the first entry of a day starts at when the file has no clock times */
+const DAY_ONLY_START_HOUR = 9;
+
+// Imported entries may end up to a minute after their start-to-end span
+const DURATION_TOLERANCE_SECONDS = 60;
+
+export type TimeEntryImportSource =
+  | 'orasan'
+  | 'toggl'
+  | 'clockify'
+  | 'harvest'
+  | 'other';
+
+export type TimeEntryImportField =
+  | 'project_id'
+  | 'project'
+  | 'client'
+  | 'task_id'
+  | 'task'
+  | 'description'
+  | 'start_date'
+  | 'start_time'
+  | 'end_date'
+  | 'end_time'
+  | 'duration'
+  | 'duration_seconds'
+  | 'currency';
+
+/** Column header chosen for each field; missing fields are not in the file */
+export type TimeEntryImportMapping = Partial<
+  Record<TimeEntryImportField, string>
+>;
+
+/** How numeric dates such as 03/04/2025 are read */
+export type TimeEntryImportDateOrder = 'mdy' | 'dmy';
+
+export const TIME_ENTRY_IMPORT_FIELDS: Array<{
+  value: TimeEntryImportField;
+  label: string;
+}> = [
+  { value: 'project', label: 'Project' },
+  { value: 'client', label: 'Client' },
+  { value: 'task', label: 'Task' },
+  { value: 'description', label: 'Note' },
+  { value: 'start_date', label: 'Start date (or date and time)' },
+  { value: 'start_time', label: 'Start time' },
+  { value: 'end_date', label: 'End date (or date and time)' },
+  { value: 'end_time', label: 'End time' },
+  { value: 'duration', label: 'Duration (h:mm:ss or hours)' },
+  { value: 'duration_seconds', label: 'Duration in seconds' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'project_id', label: 'Orasan project ID' },
+  { value: 'task_id', label: 'Orasan task ID' },
+];
+
+interface ImportSourcePreset {
+  label: string;
+  description: string;
+  dateOrder: TimeEntryImportDateOrder;
+  // Candidate headers per field, matched without regard to case
+  columns: Partial<Record<TimeEntryImportField, string[]>>;
+  detect: (headers: Set<string>) => boolean;
+}
+
+const IMPORT_SOURCE_PRESETS: Record<TimeEntryImportSource, ImportSourcePreset> =
+  {
+    orasan: {
+      label: 'Orasan export',
+      description: 'csv/time_entries.csv from Download your data',
+      dateOrder: 'mdy',
+      columns: {
+        project_id: ['project_id'],
+        task_id: ['task_id'],
+        description: ['description'],
+        start_date: ['start_time'],
+        end_date: ['end_time'],
+        duration_seconds: ['duration_seconds'],
+      },
+      detect: headers =>
+        headers.has('task_id') && headers.has('duration_seconds'),
+    },
+    toggl: {
+      label: 'Toggl Track',
+      description: 'Detailed report exported as CSV',
+      dateOrder: 'mdy',
+      columns: {
+        project: ['project'],
+        client: ['client'],
+        task: ['task'],
+        description: ['description'],
+        start_date: ['start date'],
+        start_time: ['start time'],
+        end_date: ['end date'],
+        end_time: ['end time'],
+        duration: ['duration'],
+      },
+      detect: headers =>
+        headers.has('start date') &&
+        headers.has('start time') &&
+        headers.has('duration'),
+    },
+    clockify: {
+      label: 'Clockify',
+      description: 'Detailed report exported as CSV',
+      dateOrder: 'mdy',
+      columns: {
+        project: ['project'],
+        client: ['client'],
+        task: ['task'],
+        description: ['description'],
+        start_date: ['start date'],
+        start_time: ['start time'],
+        end_date: ['end date'],
+        end_time: ['end time'],
+        duration: ['duration (h)', 'duration (decimal)'],
+      },
+      detect: headers =>
+        headers.has('start date') &&
+        (headers.has('duration (h)') || headers.has('duration (decimal)')),
+    },
+    harvest: {
+      label: 'Harvest',
+      description: 'Detailed time report exported as CSV',
+      dateOrder: 'mdy',
+      columns: {
+        project: ['project'],
+        client: ['client'],
+        task: ['task'],
+        description: ['notes'],
+        start_date: ['date', 'spent date'],
+        start_time: ['started at', 'start time'],
+        end_time: ['ended at', 'end time'],
+        duration: ['hours'],
+        currency: ['currency'],
+      },
+      detect: headers =>
+        (headers.has('date') || headers.has('spent date')) &&
+        headers.has('hours'),
+    },
+    other: {
+      label: 'Other CSV',
+      description: 'Choose the column for each field',
+      dateOrder: 'mdy',
+      columns: {
+        project: ['project', 'project name'],
+        client: ['client', 'client name'],
+        task: ['task', 'task name'],
+        description: ['description', 'note', 'notes'],
+        start_date: ['start', 'start date', 'date'],
+        start_time: ['start time'],
+        end_date: ['end', 'end date'],
+        end_time: ['end time'],
+        duration: ['duration', 'hours'],
+        currency: ['currency'],
+      },
+      detect: () => true,
+    },
+  };
+
+export const TIME_ENTRY_IMPORT_SOURCES = (
+  Object.keys(IMPORT_SOURCE_PRESETS) as TimeEntryImportSource[]
+).map(value => ({
+  value,
+  label: IMPORT_SOURCE_PRESETS[value].label,
+  description: IMPORT_SOURCE_PRESETS[value].description,
+}));
+
+export function isTimeEntryImportSource(
+  value: unknown
+): value is TimeEntryImportSource {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(IMPORT_SOURCE_PRESETS, value)
+  );
+}
+
+/**
+ * Parses CSV text (RFC 4180 quoting). The delimiter is a comma, semicolon or
+ * tab, whichever the header line uses most.
+ * @returns Header cells and the data records, without blank lines
+ */
+export function parseCsv(text: string): {
+  headers: string[];
+  records: string[][];
+} {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [headers = [], ...records] = rows;
+  return {
+    headers: headers.map(header => header.trim()),
+    records: records.filter(record => record.some(value => value.trim())),
+  };
+}
+
+/** Tracker a file most likely came from, by its headers */
+export function detectTimeEntryImportSource(
+  headers: string[]
+): TimeEntryImportSource {
+  const normalized = new Set(headers.map(header => header.toLowerCase()));
+  const source = (
+    Object.keys(IMPORT_SOURCE_PRESETS) as TimeEntryImportSource[]
+  ).find(key => IMPORT_SOURCE_PRESETS[key].detect(normalized));
+  return source ?? 'other';
+}
+
+/** Column mapping and date order a source's export uses */
+export function getTimeEntryImportDefaults(
+  source: TimeEntryImportSource,
+  headers: string[]
+): { mapping: TimeEntryImportMapping; dateOrder: TimeEntryImportDateOrder } {
+  const preset = IMPORT_SOURCE_PRESETS[source];
+  const mapping: TimeEntryImportMapping = {};
+  for (const [field, candidates] of Object.entries(preset.columns)) {
+    const header = candidates
+      .map(candidate =>
+        headers.find(header => header.toLowerCase() === candidate)
+      )
+      .find(Boolean);
+    if (header) mapping[field as TimeEntryImportField] = header;
+  }
+  return { mapping, dateOrder: preset.dateOrder };
+}
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+type DateCell =
+  | { instant: Date }
+  | { date: CalendarDate; time: ClockTime | null };
+
+function isValidDate({ year, month, day }: CalendarDate): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/** Clock time such as "09:30", "09:30:15" or "9:30 PM" */
+function parseClockTime(value: string): ClockTime | null {
+  const match =
+    /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([ap]\.?m\.?)?$/i.exec(
+      value.trim()
+    );
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = Number(match[3] ?? 0);
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return { hour, minute, second };
+}
+
+/**
+ * Date cell: an ISO date-time with an offset is an instant; anything else is
+ * a calendar date, optionally with a local time
+ */
+function parseDateCell(
+  value: string,
+  dateOrder: TimeEntryImportDateOrder
+): DateCell | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const iso =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?))?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i.exec(
+      trimmed
+    );
+  if (iso) {
+    if (iso[5] && iso[4]) {
+      const instant = new Date(trimmed.replace(' ', 'T'));
+      return isNaN(instant.getTime()) ? null : { instant };
+    }
+    const date = {
+      year: Number(iso[1]),
+      month: Number(iso[2]),
+      day: Number(iso[3]),
+    };
+    const time = iso[4] ? parseClockTime(iso[4]) : null;
+    if (!isValidDate(date) || (iso[4] && !time)) return null;
+    return { date, time };
+  }
+
+  const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ ,T]+(.+))?$/.exec(
+    trimmed
+  );
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    const date = {
+      year: Number(numeric[3]),
+      month: dateOrder === 'mdy' ? first : second,
+      day: dateOrder === 'mdy' ? second : first,
+    };
+    const time = numeric[4] ? parseClockTime(numeric[4]) : null;
+    if (!isValidDate(date) || (numeric[4] && !time)) return null;
+    return { date, time };
+  }
+
+  return null;
+}
+
+/** Duration such as "1:30:00", "1:30" (hours and minutes) or "1.5" hours */
+function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+  const clock = /^(\d+):(\d{1,2})(?::(\d{1,2}))?$/.exec(trimmed);
+  if (clock) {
+    return (
+      Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] ?? 0)
+    );
+  }
+  const hours = Number(trimmed.replace(',', '.'));
+  return trimmed !== '' && Number.isFinite(hours) && hours >= 0
+    ? Math.round(hours * 3600)
+    : null;
+}
+
+function toInstant(date: CalendarDate, time: ClockTime, timeZone: string) {
+  const minuteStart = zonedTimeToDate(
+    date.year,
+    date.month,
+    date.day,
+    time.hour,
+    time.minute,
+    timeZone
+  );
+  return new Date(minuteStart.getTime() + time.second * 1000);
+}
+
+function toDayKey({ year, month, day }: CalendarDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function fromDayKey(dayKey: string): CalendarDate {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return { year, month, day };
+}
+
+/** Three-letter currency code in a cell ("USD", "United States Dollar - USD") */
+function parseCurrencyCode(value: string): string | null {
+  const codes = value.toUpperCase().match(/\b[A-Z]{3}\b/g);
+  return codes ? codes[codes.length - 1] : null;
+}
+
+/** Currency named in a header such as "Amount (USD)" or "Billable Rate (EUR)" */
+function getHeaderCurrency(headers: string[]): string | null {
+  for (const header of headers) {
+    const match = /\(([A-Z]{3})\)\s*$/.exec(header);
+    if (match && /amount|rate/i.test(header)) return match[1];
+  }
+  return null;
+}
+
+export interface TimeEntryImportParseError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Turns mapped CSV records into import rows. Dates without an offset are read
+ * in the user's time zone. Rows without clock times (Harvest) are placed back
+ * to back from 9:00 on their day.
+ */
+export function buildTimeEntryImportRows(
+  headers: string[],
+  records: string[][],
+  mapping: TimeEntryImportMapping,
+  options: { timeZone: string; dateOrder: TimeEntryImportDateOrder }
+): { rows: TimeEntryImportRow[]; errors: TimeEntryImportParseError[] } {
+  const columnIndex = new Map(
+    Object.entries(mapping).map(([field, header]) => [
+      field as TimeEntryImportField,
+      headers.indexOf(header as string),
+    ])
+  );
+  const headerCurrency = getHeaderCurrency(headers);
+  const dayCursors = new Map<string, Date>();
+  const rows: TimeEntryImportRow[] = [];
+  const errors: TimeEntryImportParseError[] = [];
+
+  records.forEach((record, index) => {
+    // Line 1 is the header
+    const line = index + 2;
+    const cell = (field: TimeEntryImportField) => {
+      const column = columnIndex.get(field);
+      return column !== undefined && column >= 0
+        ? (record[column] ?? '').trim()
+        : '';
+    };
+    const fail = (message: string) => errors.push({ line, message });
+
+    const startCell = parseDateCell(cell('start_date'), options.dateOrder);
+    if (!startCell) {
+      fail(cell('start_date') ? 'Unreadable start date' : 'Missing start date');
+      return;
+    }
+
+    let durationSeconds: number | null = null;
+    if (cell('duration_seconds')) {
+      const seconds = Number(cell('duration_seconds'));
+      durationSeconds =
+        Number.isInteger(seconds) && seconds >= 0 ? seconds : null;
+      if (durationSeconds === null) return fail('Unreadable duration');
+    } else if (cell('duration')) {
+      durationSeconds = parseDuration(cell('duration'));
+      if (durationSeconds === null) return fail('Unreadable duration');
+    }
+
+    let startDate: CalendarDate | null = null;
+    let start: Date;
+    if ('instant' in startCell) {
+      start = startCell.instant;
+    } else {
+      startDate = startCell.date;
+      const startTime =
+        startCell.time ??
+        (cell('start_time') ? parseClockTime(cell('start_time')) : null);
+      if (cell('start_time') && !startTime) {
+        return fail('Unreadable start time');
+      }
+      if (startTime) {
+        start = toInstant(startDate, startTime, options.timeZone);
+      } else {
+        if (durationSeconds === null) {
+          return fail('Rows without a start time need a duration');
+        }
+        const dayKey = toDayKey(startDate);
+        start =
+          dayCursors.get(dayKey) ??
+          toInstant(
+            startDate,
+            { hour: DAY_ONLY_START_HOUR, minute: 0, second: 0 },
+            options.timeZone
+          );
+        dayCursors.set(
+          dayKey,
+          new Date(start.getTime() + durationSeconds * 1000)
+        );
+      }
+    }
+
+    let end: Date | null = null;
+    const endCell = cell('end_date')
+      ? parseDateCell(cell('end_date'), options.dateOrder)
+      : null;
+    if (cell('end_date') && !endCell) return fail('Unreadable end date');
+    if (endCell && 'instant' in endCell) {
+      end = endCell.instant;
+    } else {
+      const endTime =
+        endCell?.time ??
+        (cell('end_time') ? parseClockTime(cell('end_time')) : null);
+      if (cell('end_time') && !endTime) return fail('Unreadable end time');
+      const endDate = endCell?.date ?? startDate;
+      if (endTime && endDate) {
+        end = toInstant(endDate, endTime, options.timeZone);
+        // An end time alone that is before the start ran past midnight
+        if (!endCell && startDate && end < start) {
+          end = toInstant(
+            fromDayKey(addDaysToKey(toDayKey(startDate), 1)),
+            endTime,
+            options.timeZone
+          );
+        }
+      }
+    }
+
+    if (!end) {
+      if (durationSeconds === null) return fail('Missing end time or duration');
+      end = new Date(start.getTime() + durationSeconds * 1000);
+    }
+    if (end < start) return fail('Ends before it starts');
+    if (durationSeconds === null) {
+      durationSeconds = Math.round((end.getTime() - start.getTime()) / 1000);
+    }
+
+    rows.push({
+      line,
+      project_id: cell('project_id') || null,
+      project_name: cell('project') || null,
+      client_name: cell('client') || null,
+      task_id: cell('task_id') || null,
+      task_name: cell('task') || null,
+      description: cell('description') || null,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      duration_seconds: durationSeconds,
+      currency_code: parseCurrencyCode(cell('currency')) ?? headerCurrency,
+    });
+  });
+
+  return { rows, errors };
+}
+
+/** Existing data an import is checked against */
+export interface TimeEntryImportContext {
+  projects: Array<{
+    id: string;
+    name: string;
+    client_name?: string | null;
+    currency_code?: string | null;
+    status: ProjectStatus;
+  }>;
+  tasks: Array<{ id: string; name: string; project_id: string }>;
+  existingEntries: Array<{ start_time: string; end_time: string }>;
+  defaultCurrency: string;
+  // New projects the plan may add (Free tier); null = no limit
+  newProjectLimit: number | null;
+  // Why rows may not create projects (workspace role); null = they may
+  newProjectsBlockedReason: string | null;
+  // Projects rows may go into (Free tier over the limit); null = all
+  writableProjectIds: Set<string> | null;
+  now: Date;
+}
+
+export interface TimeEntryImportNewProject {
+  key: string;
+  name: string;
+  client_name: string | null;
+  currency_code: string;
+}
+
+export interface TimeEntryImportNewTask {
+  key: string;
+  name: string;
+  projectKey: string;
+}
+
+/** Row ready to insert; keys name an existing ("id:…") or new project/task */
+export interface TimeEntryImportPlannedEntry {
+  row: TimeEntryImportRow;
+  projectKey: string;
+  taskKey: string;
+}
+
+export interface TimeEntryImportPlan extends TimeEntryImportResponse {
+  newProjects: TimeEntryImportNewProject[];
+  newTasks: TimeEntryImportNewTask[];
+  entries: TimeEntryImportPlannedEntry[];
+}
+
+/**
+ * Checks that a request row has the fields and types the import expects
+ * @returns An error message, or null when the row can be planned
+ */
+export function validateTimeEntryImportRow(row: unknown): string | null {
+  if (!row || typeof row !== 'object') return 'Invalid row';
+  const value = row as Record<string, unknown>;
+  const optionalStrings = [
+    'project_id',
+    'project_name',
+    'client_name',
+    'task_id',
+    'task_name',
+    'description',
+    'currency_code',
+  ];
+  if (!Number.isInteger(value.line)) return 'Invalid line number';
+  if (
+    optionalStrings.some(
+      key =>
+        value[key] !== undefined &&
+        value[key] !== null &&
+        typeof value[key] !== 'string'
+    )
+  ) {
+    return 'Invalid text field';
+  }
+  if (
+    typeof value.start_time !== 'string' ||
+    typeof value.end_time !== 'string' ||
+    isNaN(new Date(value.start_time).getTime()) ||
+    isNaN(new Date(value.end_time).getTime())
+  ) {
+    return 'Invalid start or end time';
+  }
+  if (
+    !Number.isInteger(value.duration_seconds) ||
+    (value.duration_seconds as number) < 0
+  ) {
+    return 'Invalid duration';
+  }
+  return null;
+}
+
+const normalizeName = (value: string | null | undefined) =>
+  (value ?? '').trim().toLowerCase();
+
+/**
+ * Matches rows to projects and tasks, decides what has to be created and
+ * flags problems. Rows with errors are left out of the plan; warnings are
+ * shown but the rows still import.
+ */
+export function planTimeEntryImport(
+  rows: TimeEntryImportRow[],
+  context: TimeEntryImportContext
+): TimeEntryImportPlan {
+  const projectsById = new Map(context.projects.map(p => [p.id, p]));
+  const tasksById = new Map(context.tasks.map(t => [t.id, t]));
+  const newProjects = new Map<string, TimeEntryImportNewProject>();
+  const newTasks = new Map<string, TimeEntryImportNewTask>();
+  const blockedProjectKeys = new Set<string>();
+  const entries: TimeEntryImportPlannedEntry[] = [];
+  const previewRows: TimeEntryImportPreviewRow[] = [];
+
+  // Overlap checks run in start order over the existing entries and the file
+  const existing = context.existingEntries
+    .map(entry => ({
+      start: new Date(entry.start_time).getTime(),
+      end: new Date(entry.end_time).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start);
+  const fileIntervals = [...rows]
+    .map(row => ({
+      line: row.line,
+      start: new Date(row.start_time).getTime(),
+      end: new Date(row.end_time).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  const fileOverlaps = new Map<number, { duplicateOf?: number }>();
+  let latest: (typeof fileIntervals)[number] | null = null;
+  for (const interval of fileIntervals) {
+    if (latest && interval.start < latest.end) {
+      fileOverlaps.set(
+        interval.line,
+        interval.start === latest.start && interval.end === latest.end
+          ? { duplicateOf: latest.line }
+          : {}
+      );
+    }
+    if (!latest || interval.end > latest.end) latest = interval;
+  }
+
+  for (const row of rows) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const start = new Date(row.start_time).getTime();
+    const end = new Date(row.end_time).getTime();
+
+    if (end < start) errors.push('Ends before it starts');
+    if (end > context.now.getTime() + DURATION_TOLERANCE_SECONDS * 1000) {
+      errors.push('Ends in the future');
+    }
+    if (
+      row.duration_seconds >
+      (end - start) / 1000 + DURATION_TOLERANCE_SECONDS
+    ) {
+      errors.push('Duration is longer than the time from start to end');
+    }
+    if (
+      row.description &&
+      row.description.trim().length > TIME_ENTRY_DESCRIPTION_MAX_LENGTH
+    ) {
+      errors.push(
+        `Note is longer than ${TIME_ENTRY_DESCRIPTION_MAX_LENGTH} characters`
+      );
+    }
+
+    // Task and project: Orasan ids first, then names
+    let projectKey: string | null = null;
+    let taskKey: string | null = null;
+    let projectLabel: string | null = null;
+    let taskLabel: string | null = null;
+    let projectCurrency: string | null = null;
+
+    const idTask = row.task_id ? tasksById.get(row.task_id) : undefined;
+    if (idTask) {
+      const project = projectsById.get(idTask.project_id);
+      projectKey = `id:${idTask.project_id}`;
+      taskKey = `id:${idTask.id}`;
+      projectLabel = project?.name ?? null;
+      taskLabel = idTask.name;
+      projectCurrency = project?.currency_code ?? null;
+    } else {
+      if (row.task_id && !row.task_name) errors.push('Task not found');
+
+      const idProject = row.project_id
+        ? projectsById.get(row.project_id)
+        : undefined;
+      const projectName = row.project_name?.trim() ?? '';
+      if (idProject) {
+        projectKey = `id:${idProject.id}`;
+        projectLabel = idProject.name;
+        projectCurrency = idProject.currency_code ?? null;
+      } else if (projectName) {
+        const sameName = context.projects.filter(
+          p => normalizeName(p.name) === normalizeName(projectName)
+        );
+        const match = row.client_name
+          ? sameName.find(
+              p =>
+                normalizeName(p.client_name) === normalizeName(row.client_name)
+            )
+          : sameName[0];
+        if (match) {
+          projectKey = `id:${match.id}`;
+          projectLabel = match.name;
+          projectCurrency = match.currency_code ?? null;
+        } else if (projectName.length >= 100) {
+          errors.push('Project name must be less than 100 characters');
+        } else if (context.newProjectsBlockedReason) {
+          errors.push(context.newProjectsBlockedReason);
+        } else {
+          projectKey = `new:${normalizeName(projectName)}|${normalizeName(row.client_name)}`;
+          projectLabel = projectName;
+          if (
+            !newProjects.has(projectKey) &&
+            !blockedProjectKeys.has(projectKey)
+          ) {
+            if (
+              context.newProjectLimit !== null &&
+              newProjects.size >= context.newProjectLimit
+            ) {
+              blockedProjectKeys.add(projectKey);
+            } else {
+              const rowCurrency =
+                row.currency_code && getCurrencyByCode(row.currency_code)
+                  ? row.currency_code
+                  : null;
+              newProjects.set(projectKey, {
+                key: projectKey,
+                name: projectName,
+                client_name: row.client_name?.trim() || null,
+                currency_code: rowCurrency ?? context.defaultCurrency,
+              });
+            }
+          }
+          if (blockedProjectKeys.has(projectKey)) {
+            errors.push(
+              'Free tier allows up to 2 active projects. Upgrade to Pro to import into more projects.'
+            );
+          }
+          projectCurrency = newProjects.get(projectKey)?.currency_code ?? null;
+        }
+      } else {
+        errors.push(row.project_id ? 'Project not found' : 'Missing project');
+      }
+
+      if (projectKey && !errors.length) {
+        let taskName = row.task_name?.trim() ?? '';
+        if (!taskName) {
+          taskName = TIME_ENTRY_IMPORT_FALLBACK_TASK;
+          warnings.push(
+            `No task; added to “${TIME_ENTRY_IMPORT_FALLBACK_TASK}”`
+          );
+        }
+        const projectId = projectKey.startsWith('id:')
+          ? projectKey.slice(3)
+          : null;
+        const match = projectId
+          ? context.tasks.find(
+              t =>
+                t.project_id === projectId &&
+                normalizeName(t.name) === normalizeName(taskName)
+            )
+          : undefined;
+        if (match) {
+          taskKey = `id:${match.id}`;
+          taskLabel = match.name;
+        } else {
+          taskKey = `${projectKey}/${normalizeName(taskName)}`;
+          taskLabel = taskName;
+          if (!newTasks.has(taskKey)) {
+            newTasks.set(taskKey, { key: taskKey, name: taskName, projectKey });
+          }
+        }
+      }
+    }
+
+    if (
+      projectKey?.startsWith('id:') &&
+      context.writableProjectIds &&
+      !context.writableProjectIds.has(projectKey.slice(3))
+    ) {
+      errors.push(FREE_TIER_PROJECT_READONLY_API_MESSAGE);
+    }
+
+    if (row.currency_code) {
+      if (!getCurrencyByCode(row.currency_code)) {
+        warnings.push(`Unknown currency ${row.currency_code}`);
+      } else if (projectCurrency && row.currency_code !== projectCurrency) {
+        warnings.push(
+          `Amounts were in ${row.currency_code}, but the project bills in ${projectCurrency}`
+        );
+      }
+    }
+
+    const fileOverlap = fileOverlaps.get(row.line);
+    if (fileOverlap?.duplicateOf !== undefined) {
+      errors.push(`Same start and end as line ${fileOverlap.duplicateOf}`);
+    } else if (fileOverlap) {
+      warnings.push('Overlaps another row in this file');
+    }
+    const overlapping = existing.filter(
+      entry => entry.start < end && start < entry.end
+    );
+    if (overlapping.some(entry => entry.start === start && entry.end === end)) {
+      errors.push(
+        'Already tracked (an entry with the same start and end exists)'
+      );
+    } else if (overlapping.length > 0) {
+      warnings.push('Overlaps a time entry you already tracked');
+    }
+
+    const isValid = errors.length === 0 && !!projectKey && !!taskKey;
+    if (isValid && projectKey && taskKey) {
+      entries.push({ row, projectKey, taskKey });
+    }
+    previewRows.push({
+      line: row.line,
+      status: !isValid ? 'error' : warnings.length > 0 ? 'warning' : 'ok',
+      messages: [...errors, ...warnings],
+      project_name: projectLabel,
+      task_name: taskLabel,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      duration_seconds: row.duration_seconds,
+      new_project: !!projectKey?.startsWith('new:'),
+      new_task: !!taskKey && !taskKey.startsWith('id:'),
+    });
+  }
+
+  // Only projects and tasks a valid row uses are created
+  const usedProjectKeys = new Set(entries.map(entry => entry.projectKey));
+  const usedTaskKeys = new Set(entries.map(entry => entry.taskKey));
+  const plannedProjects = [...newProjects.values()].filter(p =>
+    usedProjectKeys.has(p.key)
+  );
+  const plannedTasks = [...newTasks.values()].filter(t =>
+    usedTaskKeys.has(t.key)
+  );
+
+  return {
+    summary: {
+      total_rows: rows.length,
+      importable_rows: entries.length,
+      error_rows: previewRows.filter(row => row.status === 'error').length,
+      warning_rows: previewRows.filter(row => row.status === 'warning').length,
+      new_projects: plannedProjects.length,
+      new_tasks: plannedTasks.length,
+      total_seconds: entries.reduce(
+        (sum, entry) => sum + entry.row.duration_seconds,
+        0
+      ),
+    },
+    rows: previewRows,
+    newProjects: plannedProjects,
+    newTasks: plannedTasks,
+    entries,
+  };
+}
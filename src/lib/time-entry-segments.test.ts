@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getSegmentSeconds,
+  getTimeEntryRangePieces,
+  getTimeEntrySecondsInRange,
+  sortTimeEntrySegments,
+} from '@/lib/time-entry-segments';
+
+const day1 = new Date('2025-01-01T00:00:00.000Z');
+const day2 = new Date('2025-01-02T00:00:00.000Z');
+const day3 = new Date('2025-01-03T00:00:00.000Z');
+
+describe('getSegmentSeconds', () => {
+  it('counts a closed segment', () => {
+    expect(
+      getSegmentSeconds({
+        started_at: '2025-01-01T10:00:00.000Z',
+        ended_at: '2025-01-01T10:30:15.900Z',
+      })
+    ).toBe(1815);
+  });
+
+  it('counts an open segment up to now', () => {
+    expect(
+      getSegmentSeconds(
+        { started_at: '2025-01-01T10:00:00.000Z', ended_at: null },
+        new Date('2025-01-01T11:00:00.000Z')
+      )
+    ).toBe(3600);
+  });
+
+  it('never goes negative', () => {
+    expect(
+      getSegmentSeconds({
+        started_at: '2025-01-01T10:00:00.000Z',
+        ended_at: '2025-01-01T09:00:00.000Z',
+      })
+    ).toBe(0);
+  });
+});
+
+describe('sortTimeEntrySegments', () => {
+  it('sorts oldest first without changing the input', () => {
+    const segments = [
+      { started_at: '2025-01-01T12:00:00.000Z', ended_at: null },
+      {
+        started_at: '2025-01-01T08:00:00.000Z',
+        ended_at: '2025-01-01T09:00:00.000Z',
+      },
+    ];
+    expect(sortTimeEntrySegments(segments).map(s => s.started_at)).toEqual([
+      '2025-01-01T08:00:00.000Z',
+      '2025-01-01T12:00:00.000Z',
+    ]);
+    expect(segments[0].started_at).toBe('2025-01-01T12:00:00.000Z');
+  });
+
+  it('treats missing segments as none', () => {
+    expect(sortTimeEntrySegments(null)).toEqual([]);
+    expect(sortTimeEntrySegments(undefined)).toEqual([]);
+  });
+});
+
+describe('getTimeEntryRangePieces', () => {
+  it('counts an entry without segments in full on the day it ended', () => {
+    const entry = {
+      duration_seconds: 5400,
+      end_time: '2025-01-01T23:30:00.000Z',
+      segments: [],
+    };
+    expect(getTimeEntryRangePieces(entry, day1, day2)).toEqual([
+      { seconds: 5400, at: '2025-01-01T23:30:00.000Z' },
+    ]);
+    expect(getTimeEntryRangePieces(entry, day2, day3)).toEqual([]);
+  });
+
+  it('ignores an entry without segments or an end time', () => {
+    expect(
+      getTimeEntryRangePieces(
+        { duration_seconds: 60, end_time: null },
+        day1,
+        day2
+      )
+    ).toEqual([]);
+  });
+
+  it('splits a segment across midnight between the two days', () => {
+    const entry = {
+      duration_seconds: 7200,
+      end_time: '2025-01-02T01:00:00.000Z',
+      segments: [
+        {
+          started_at: '2025-01-01T23:00:00.000Z',
+          ended_at: '2025-01-02T01:00:00.000Z',
+        },
+      ],
+    };
+    expect(getTimeEntryRangePieces(entry, day1, day2)).toEqual([
+      { seconds: 3600, at: '2025-01-02T00:00:00.000Z' },
+    ]);
+    expect(getTimeEntryRangePieces(entry, day2, day3)).toEqual([
+      { seconds: 3600, at: '2025-01-02T01:00:00.000Z' },
+    ]);
+  });
+
+  it('leaves out the pauses between segments', () => {
+    const entry = {
+      duration_seconds: 3600,
+      end_time: '2025-01-02T09:30:00.000Z',
+      segments: [
+        {
+          started_at: '2025-01-02T09:00:00.000Z',
+          ended_at: '2025-01-02T09:30:00.000Z',
+        },
+        {
+          started_at: '2025-01-01T22:00:00.000Z',
+          ended_at: '2025-01-01T22:30:00.000Z',
+        },
+      ],
+    };
+    expect(getTimeEntrySecondsInRange(entry, day1, day2)).toBe(1800);
+    expect(getTimeEntrySecondsInRange(entry, day2, day3)).toBe(1800);
+  });
+
+  it('scales recorded segments to an edited duration', () => {
+    const entry = {
+      duration_seconds: 1800,
+      end_time: '2025-01-02T09:30:00.000Z',
+      segments: [
+        {
+          started_at: '2025-01-01T22:00:00.000Z',
+          ended_at: '2025-01-01T22:30:00.000Z',
+        },
+        {
+          started_at: '2025-01-02T09:00:00.000Z',
+          ended_at: '2025-01-02T09:30:00.000Z',
+        },
+      ],
+    };
+    expect(getTimeEntrySecondsInRange(entry, day1, day2)).toBe(900);
+    expect(getTimeEntrySecondsInRange(entry, day2, day3)).toBe(900);
+  });
+
+  it('rounds the parts so they add up to the duration', () => {
+    const entry = {
+      duration_seconds: 100,
+      end_time: '2025-01-01T03:00:00.000Z',
+      segments: [0, 1, 2].map(hour => ({
+        started_at: `2025-01-01T0${hour}:00:00.000Z`,
+        ended_at: `2025-01-01T0${hour}:20:00.000Z`,
+      })),
+    };
+    const pieces = getTimeEntryRangePieces(entry, day1, day2);
+    expect(pieces).toHaveLength(3);
+    expect(pieces.reduce((sum, piece) => sum + piece.seconds, 0)).toBe(100);
+  });
+
+  it('skips a segment that is still open', () => {
+    const entry = {
+      duration_seconds: 600,
+      end_time: null,
+      segments: [
+        {
+          started_at: '2025-01-01T10:00:00.000Z',
+          ended_at: '2025-01-01T10:10:00.000Z',
+        },
+        { started_at: '2025-01-01T11:00:00.000Z', ended_at: null },
+      ],
+    };
+    expect(getTimeEntryRangePieces(entry, day1, day2)).toEqual([
+      { seconds: 600, at: '2025-01-01T10:10:00.000Z' },
+    ]);
+  });
+});
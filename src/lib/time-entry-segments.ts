@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { TimerStatus, TimerTransition } from '@/lib/time-entry-timer';
+import { TimeEntrySegment } from '@/types';
+
+/** Nested select for an entry's segments */
+export const TIME_ENTRY_SEGMENTS_SELECT =
+  'segments:time_entry_segments (id, started_at, ended_at)';
+
+type SegmentInterval = Pick<TimeEntrySegment, 'started_at' | 'ended_at'>;
+
+/** Entry fields needed to place its time in a date range */
+export interface SegmentedTimeEntry {
+  duration_seconds: number;
+  end_time: string | null;
+  segments?: SegmentInterval[] | null;
+}
+
+/** Part of an entry's time inside a range, dated by when that part ended */
+export interface TimeEntryRangePiece {
+  seconds: number;
+  at: string;
+}
+
+/**
+ * Opens or closes the entry's segment for a timer status change. A segment
+ * that fails to save is logged and skipped: the entry's own duration stays
+ * authoritative, and reports fall back to it.
+ * @param previousStatus - Status the entry had before the transition
+ * @param transition - Update and effective time from buildTimerTransition
+ */
+export async function recordTimerSegment(
+  supabase: SupabaseClient,
+  userId: string,
+  timeEntryId: string,
+  previousStatus: TimerStatus,
+  transition: { update: TimerTransition; at: Date }
+): Promise<void> {
+  const at = transition.at.toISOString();
+
+  if (transition.update.timer_status === 'running') {
+    const { error } = await supabase.from('time_entry_segments').insert({
+      time_entry_id: timeEntryId,
+      user_id: userId,
+      started_at: transition.update.running_since ?? at,
+    });
+    if (error) {
+      console.error(
+        `Error opening segment for time entry ${timeEntryId}:`,
+        error
+      );
+    }
+    return;
+  }
+
+  if (previousStatus !== 'running') return;
+
+  const { error } = await supabase
+    .from('time_entry_segments')
+    .update({ ended_at: at })
+    .eq('time_entry_id', timeEntryId)
+    .eq('user_id', userId)
+    .is('ended_at', null);
+  if (error) {
+    console.error(
+      `Error closing segment for time entry ${timeEntryId}:`,
+      error
+    );
+  }
+}
+
+/** Length of a segment in seconds (an open segment counts up to `now`) */
+export function getSegmentSeconds(
+  segment: SegmentInterval,
+  now: Date = new Date()
+): number {
+  const start = Date.parse(segment.started_at);
+  const end = segment.ended_at ? Date.parse(segment.ended_at) : now.getTime();
+  return Math.max(0, Math.floor((end - start) / 1000));
+}
+
+/** Segments oldest first */
+export function sortTimeEntrySegments<T extends SegmentInterval>(
+  segments: T[] | null | undefined
+): T[] {
+  return [...(segments ?? [])].sort(
+    (a, b) => Date.parse(a.started_at) - Date.parse(b.started_at)
+  );
+}
+
+/**
+ * Splits a stopped entry's time into the parts worked inside a range.
+ * With recorded segments, each one contributes its overlap with the range,
+ * scaled so the parts add up to duration_seconds (which may have been edited
+ * by hand). Entries without segments count in full when they ended in range.
+ */
+export function getTimeEntryRangePieces(
+  entry: SegmentedTimeEntry,
+  from: Date,
+  to: Date
+): TimeEntryRangePiece[] {
+  const duration = entry.duration_seconds || 0;
+  const segments = sortTimeEntrySegments(entry.segments).filter(
+    segment => segment.ended_at
+  );
+  const recordedMs = segments.reduce(
+    (sum, segment) =>
+      sum +
+      Math.max(
+        0,
+        Date.parse(segment.ended_at!) - Date.parse(segment.started_at)
+      ),
+    0
+  );
+
+  if (recordedMs <= 0) {
+    if (!entry.end_time) return [];
+    const endTime = Date.parse(entry.end_time);
+    return endTime >= from.getTime() && endTime <= to.getTime()
+      ? [{ seconds: duration, at: entry.end_time }]
+      : [];
+  }
+
+  // Scaled seconds worked by a point on the recorded timeline; rounding the
+  // running total keeps the parts summing exactly to duration_seconds
+  const scaledSecondsAt = (recordedOffsetMs: number) =>
+    Math.round((recordedOffsetMs / recordedMs) * duration);
+
+  const pieces: TimeEntryRangePiece[] = [];
+  let offsetMs = 0;
+  for (const segment of segments) {
+    const segmentStart = Date.parse(segment.started_at);
+    const segmentEnd = Math.max(segmentStart, Date.parse(segment.ended_at!));
+    const start = Math.max(segmentStart, from.getTime());
+    const end = Math.min(segmentEnd, to.getTime());
+    if (end > start) {
+      const pieceOffset = offsetMs + (start - segmentStart);
+      const seconds =
+        scaledSecondsAt(pieceOffset + (end - start)) -
+        scaledSecondsAt(pieceOffset);
+      if (seconds > 0) {
+        pieces.push({ seconds, at: new Date(end).toISOString() });
+      }
+    }
+    offsetMs += segmentEnd - segmentStart;
+  }
+  return pieces;
+}
+
+/** Seconds of a stopped entry worked inside a range */
+export function getTimeEntrySecondsInRange(
+  entry: SegmentedTimeEntry,
+  from: Date,
+  to: Date
+): number {
+  return getTimeEntryRangePieces(entry, from, to).reduce(
+    (sum, piece) => sum + piece.seconds,
+    0
+  );
+}
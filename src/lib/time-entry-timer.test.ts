@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildIdleTransition,
+  buildTimerTransition,
+  getTimerElapsedSeconds,
+  resolveTimerActionTime,
+  TIMER_MAX_BACKDATE_MS,
+  TimerState,
+} from '@/lib/time-entry-timer';
+
+const now = new Date('2025-01-01T12:00:00.000Z');
+
+const running: TimerState = {
+  timer_status: 'running',
+  start_time: '2025-01-01T10:00:00.000Z',
+  duration_seconds: 600,
+  running_since: '2025-01-01T11:00:00.000Z',
+  updated_at: '2025-01-01T11:00:00.000Z',
+};
+
+const paused: TimerState = {
+  timer_status: 'paused',
+  start_time: '2025-01-01T10:00:00.000Z',
+  duration_seconds: 600,
+  running_since: null,
+  updated_at: '2025-01-01T11:00:00.000Z',
+};
+
+describe('getTimerElapsedSeconds', () => {
+  it('adds the open run of a running timer', () => {
+    expect(getTimerElapsedSeconds(running, now)).toBe(600 + 3600);
+  });
+
+  it('uses the stored duration otherwise', () => {
+    expect(getTimerElapsedSeconds(paused, now)).toBe(600);
+  });
+});
+
+describe('resolveTimerActionTime', () => {
+  it('uses the server time without a reported time', () => {
+    expect(resolveTimerActionTime(undefined, null, now)).toEqual(now);
+    expect(resolveTimerActionTime('not a date', null, now)).toEqual(now);
+  });
+
+  it('keeps a reported time between the last change and now', () => {
+    expect(
+      resolveTimerActionTime(
+        '2025-01-01T11:30:00.000Z',
+        '2025-01-01T11:00:00.000Z',
+        now
+      ).toISOString()
+    ).toBe('2025-01-01T11:30:00.000Z');
+    expect(
+      resolveTimerActionTime(
+        '2025-01-01T10:00:00.000Z',
+        '2025-01-01T11:00:00.000Z',
+        now
+      ).toISOString()
+    ).toBe('2025-01-01T11:00:00.000Z');
+    expect(
+      resolveTimerActionTime('2025-01-01T13:00:00.000Z', null, now)
+    ).toEqual(now);
+  });
+
+  it('limits how far back an action may be dated', () => {
+    expect(
+      resolveTimerActionTime('2024-12-01T00:00:00.000Z', null, now).getTime()
+    ).toBe(now.getTime() - TIMER_MAX_BACKDATE_MS);
+  });
+});
+
+describe('buildTimerTransition', () => {
+  it('returns null when the status is unchanged', () => {
+    expect(buildTimerTransition(running, 'running', now)).toBeNull();
+  });
+
+  it('refuses to restart a stopped entry', () => {
+    expect(
+      buildTimerTransition(
+        { ...paused, timer_status: 'stopped' },
+        'running',
+        now
+      )
+    ).toEqual({ error: 'Stopped time entries cannot be restarted' });
+  });
+
+  it('adds the open run when pausing', () => {
+    expect(buildTimerTransition(running, 'paused', now)).toEqual({
+      update: {
+        timer_status: 'paused',
+        duration_seconds: 4200,
+        running_since: null,
+      },
+      at: now,
+    });
+  });
+
+  it('sets the end time when stopping', () => {
+    const result = buildTimerTransition(
+      running,
+      'stopped',
+      now,
+      '2025-01-01T11:30:00.000Z'
+    );
+    expect(result).toEqual({
+      update: {
+        timer_status: 'stopped',
+        duration_seconds: 2400,
+        running_since: null,
+        end_time: '2025-01-01T11:30:00.000Z',
+      },
+      at: new Date('2025-01-01T11:30:00.000Z'),
+    });
+  });
+
+  it('stops a paused timer without adding time', () => {
+    const result = buildTimerTransition(paused, 'stopped', now);
+    expect(result && 'update' in result && result.update).toMatchObject({
+      duration_seconds: 600,
+      end_time: now.toISOString(),
+    });
+  });
+
+  it('opens a run segment when resuming', () => {
+    expect(buildTimerTransition(paused, 'running', now)).toEqual({
+      update: {
+        timer_status: 'running',
+        running_since: now.toISOString(),
+        start_time: '2025-01-01T10:00:00.000Z',
+        end_time: null,
+      },
+      at: now,
+    });
+  });
+
+  it('resumes at server time whatever time the client reports', () => {
+    const result = buildTimerTransition(
+      paused,
+      'running',
+      now,
+      '2025-01-01T11:30:00.000Z'
+    );
+    expect(result && 'update' in result && result.update.running_since).toBe(
+      now.toISOString()
+    );
+  });
+
+  it('sets the start time on the first run', () => {
+    const result = buildTimerTransition(
+      { ...paused, start_time: null, duration_seconds: 0 },
+      'running',
+      now
+    );
+    expect(result && 'update' in result && result.update.start_time).toBe(
+      now.toISOString()
+    );
+  });
+
+  it('never counts time before the open run started', () => {
+    const result = buildTimerTransition(
+      running,
+      'paused',
+      now,
+      '2025-01-01T09:00:00.000Z'
+    );
+    expect(result && 'update' in result && result.update).toMatchObject({
+      duration_seconds: 600,
+    });
+  });
+});
+
+describe('buildIdleTransition', () => {
+  it('removes the idle period and keeps the timer running', () => {
+    const result = buildIdleTransition(
+      running,
+      '2025-01-01T11:20:00.000Z',
+      '2025-01-01T11:50:00.000Z',
+      now
+    );
+    expect(result).toMatchObject({
+      update: {
+        timer_status: 'running',
+        duration_seconds: 600 + 1200,
+        running_since: '2025-01-01T11:50:00.000Z',
+      },
+      idle_seconds: 1800,
+    });
+    expect(result?.pause.at.toISOString()).toBe('2025-01-01T11:20:00.000Z');
+    expect(result?.resume.at.toISOString()).toBe('2025-01-01T11:50:00.000Z');
+  });
+
+  it('does nothing for a timer that is not running', () => {
+    expect(
+      buildIdleTransition(
+        paused,
+        '2025-01-01T11:20:00.000Z',
+        '2025-01-01T11:50:00.000Z',
+        now
+      )
+    ).toBeNull();
+  });
+
+  it('does nothing when the idle period is empty', () => {
+    expect(
+      buildIdleTransition(
+        running,
+        '2025-01-01T11:50:00.000Z',
+        '2025-01-01T11:20:00.000Z',
+        now
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import { TimeEntry } from '@/types';
+
+/**
+ * How far back a client may date a pause or stop. Offline pauses and stops are
+ * replayed with the time they happened; anything older is applied at this
+ * limit. Starts and resumes always count from server time.
+ */
+export const TIMER_MAX_BACKDATE_MS = 24 * 60 * 60 * 1000;
+
+export type TimerStatus = TimeEntry['timer_status'];
+
+/** Stored timer fields the server derives a transition from */
+export interface TimerState {
+  timer_status: TimerStatus;
+  start_time?: string | null;
+  duration_seconds: number;
+  running_since?: string | null;
+  updated_at?: string | null;
+}
+
+/** Columns written for a timer status change */
+export interface TimerTransition {
+  timer_status: TimerStatus;
+  duration_seconds?: number;
+  running_since: string | null;
+  start_time?: string;
+  end_time?: string | null;
+}
+
+function toTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Seconds tracked by an entry at a point in time: the closed run segments plus
+ * the open one for a running timer
+ */
+export function getTimerElapsedSeconds(entry: TimerState, at: Date): number {
+  const runningSince = toTime(entry.running_since);
+  if (entry.timer_status !== 'running' || runningSince === null) {
+    return entry.duration_seconds ?? 0;
+  }
+  return (
+    (entry.duration_seconds ?? 0) +
+    Math.max(0, Math.floor((at.getTime() - runningSince) / 1000))
+  );
+}
+
+/**
+ * When a timer action counts as having happened. Clients may send the time
+ * of an action queued offline; it is kept between the entry's last change and
+ * now, so a request can never add time the server did not see pass.
+ * @param occurredAt - Client-reported ISO time (ignored when missing or invalid)
+ * @param earliest - Server time of the entry's previous change
+ * @param now - Server time of the request
+ */
+export function resolveTimerActionTime(
+  occurredAt: unknown,
+  earliest: string | null | undefined,
+  now: Date
+): Date {
+  const lowerBound = Math.max(
+    toTime(earliest) ?? -Infinity,
+    now.getTime() - TIMER_MAX_BACKDATE_MS
+  );
+  const reported = typeof occurredAt === 'string' ? toTime(occurredAt) : null;
+  if (reported === null) return now;
+  return new Date(Math.min(now.getTime(), Math.max(lowerBound, reported)));
+}
+
+/** Columns that open a run segment at `at` */
+function buildRunningTransition(
+  entry: TimerState,
+  at: Date
+): { update: TimerTransition; at: Date } {
+  return {
+    update: {
+      timer_status: 'running',
+      running_since: at.toISOString(),
+      start_time: entry.start_time ?? at.toISOString(),
+      end_time: null,
+    },
+    at,
+  };
+}
+
+/**
+ * Columns to write when a timer moves to another status. Durations come from
+ * server timestamps only: a run segment opens at `running_since` and its
+ * seconds are added to `duration_seconds` when the timer pauses or stops.
+ * A start or resume always opens at `now`, since a backdated one would count
+ * time the server never saw running; a pause or stop may be dated back to
+ * when it happened (which only shortens the run).
+ * @returns The update and the time it takes effect, null when the status is
+ *   unchanged, or an error message
+ */
+export function buildTimerTransition(
+  entry: TimerState,
+  nextStatus: TimerStatus,
+  now: Date,
+  occurredAt?: unknown
+): { update: TimerTransition; at: Date } | null | { error: string } {
+  if (nextStatus === entry.timer_status) return null;
+
+  if (entry.timer_status === 'stopped') {
+    return { error: 'Stopped time entries cannot be restarted' };
+  }
+
+  if (nextStatus === 'running') {
+    return buildRunningTransition(entry, now);
+  }
+
+  const at = resolveTimerActionTime(
+    occurredAt,
+    entry.timer_status === 'running' ? entry.running_since : entry.updated_at,
+    now
+  );
+  return {
+    update: {
+      timer_status: nextStatus,
+      duration_seconds: getTimerElapsedSeconds(entry, at),
+      running_since: null,
+      ...(nextStatus === 'stopped' ? { end_time: at.toISOString() } : {}),
+    },
+    at,
+  };
+}
+
+/**
+ * Removes an idle period from a running timer: the open segment is closed when
+ * the user went idle and a new one opens when they came back, so the timer
+ * keeps running without the time in between. The timer ran on the server the
+ * whole time, so the new segment may open in the past without adding time.
+ * @param idleFrom - Client-reported ISO time the user went idle
+ * @param idleUntil - Client-reported ISO time the user came back
+ * @returns The combined update, the pause and resume it is made of (for the
+ *   segments) and the seconds removed, or null when nothing can be removed
+ */
+export function buildIdleTransition(
+  entry: TimerState,
+  idleFrom: unknown,
+  idleUntil: unknown,
+  now: Date
+): {
+  update: TimerTransition;
+  pause: { update: TimerTransition; at: Date };
+  resume: { update: TimerTransition; at: Date };
+  idle_seconds: number;
+} | null {
+  if (entry.timer_status !== 'running') return null;
+
+  const pause = buildTimerTransition(entry, 'paused', now, idleFrom);
+  if (!pause || 'error' in pause) return null;
+
+  const resume = buildRunningTransition(
+    entry,
+    resolveTimerActionTime(idleUntil, pause.at.toISOString(), now)
+  );
+
+  const idleSeconds = Math.floor(
+    (resume.at.getTime() - pause.at.getTime()) / 1000
+  );
+  if (idleSeconds <= 0) return null;
+
+  return {
+    update: { ...pause.update, ...resume.update },
+    pause,
+    resume,
+    idle_seconds: idleSeconds,
+  };
+}
+
+/**
+ * Browser timestamp a running timer's display counts from, so the estimate
+ * matches the server's open segment even when the device clock is off
+ * @param runningSince - Server time the current run segment started
+ * @param serverTime - Server time of the response the entry came from
+ */
+export function getLocalTimerStartTime(
+  runningSince: string | null | undefined,
+  serverTime: string | null | undefined
+): number | null {
+  const since = toTime(runningSince);
+  if (since === null) return null;
+  const serverNow = toTime(serverTime) ?? Date.now();
+  return Date.now() - Math.max(0, serverNow - since);
+}
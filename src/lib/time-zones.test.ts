@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getCurrentPeriods,
+  getWeekStartKey,
+  getZonedDayRange,
+} from '@/lib/time-zones';
+
+const hours = (range: { start: Date; end: Date }) =>
+  (range.end.getTime() + 1 - range.start.getTime()) / (60 * 60 * 1000);
+
+describe('getZonedDayRange', () => {
+  it('covers a whole local day', () => {
+    const range = getZonedDayRange('2025-06-15', 'Asia/Manila');
+    expect(range.start.toISOString()).toBe('2025-06-14T16:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-06-15T15:59:59.999Z');
+  });
+
+  it('is 23 hours long when the clocks go forward', () => {
+    const range = getZonedDayRange('2025-03-09', 'America/New_York');
+    expect(range.start.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-03-10T03:59:59.999Z');
+    expect(hours(range)).toBe(23);
+  });
+
+  it('is 25 hours long when the clocks go back', () => {
+    const range = getZonedDayRange('2025-10-26', 'Europe/Berlin');
+    expect(range.start.toISOString()).toBe('2025-10-25T22:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-10-26T22:59:59.999Z');
+    expect(hours(range)).toBe(25);
+  });
+
+  it('spans several days up to the end of the last one', () => {
+    const range = getZonedDayRange(
+      '2025-11-01',
+      'America/New_York',
+      '2025-11-03'
+    );
+    expect(range.start.toISOString()).toBe('2025-11-01T04:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-11-04T04:59:59.999Z');
+    expect(hours(range)).toBe(73);
+  });
+});
+
+describe('getWeekStartKey', () => {
+  it('goes back to the chosen first day of the week', () => {
+    // 2025-03-12 is a Wednesday
+    expect(getWeekStartKey('2025-03-12', 0)).toBe('2025-03-09');
+    expect(getWeekStartKey('2025-03-12', 1)).toBe('2025-03-10');
+    expect(getWeekStartKey('2025-03-12', 6)).toBe('2025-03-08');
+    expect(getWeekStartKey('2025-03-10', 1)).toBe('2025-03-10');
+  });
+});
+
+describe('getCurrentPeriods', () => {
+  it('starts the week on Monday across a clock change', () => {
+    // Sunday 2025-03-09, 08:00 in New York
+    const { today, week } = getCurrentPeriods(
+      new Date('2025-03-09T12:00:00.000Z'),
+      { timeZone: 'America/New_York', weekStart: 1 }
+    );
+    expect(today.start.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(week.start.toISOString()).toBe('2025-03-03T05:00:00.000Z');
+    expect(week.end.toISOString()).toBe('2025-03-10T03:59:59.999Z');
+    expect(hours(week)).toBe(7 * 24 - 1);
+  });
+
+  it('uses the day in the zone, not in UTC', () => {
+    // Still Friday evening in Los Angeles, Saturday in UTC
+    const { today, week } = getCurrentPeriods(
+      new Date('2025-06-14T02:00:00.000Z'),
+      { timeZone: 'America/Los_Angeles', weekStart: 6 }
+    );
+    expect(today.start.toISOString()).toBe('2025-06-13T07:00:00.000Z');
+    expect(week.start.toISOString()).toBe('2025-06-07T07:00:00.000Z');
+  });
+});
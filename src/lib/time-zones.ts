@@ -0,0 +1,287 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { UpdateUserRequest, User } from '@/types';
+
+/** First day of the week, numbered like Date.getDay() (0 = Sunday) */
+export type WeekStart = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Weeks started on Sunday before users could choose
+export const DEFAULT_WEEK_START: WeekStart = 0;
+
+export const WEEK_START_OPTIONS: { value: WeekStart; label: string }[] = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' },
+];
+
+/** Where a user's days and weeks begin */
+export interface DateSettings {
+  timeZone: string;
+  weekStart: WeekStart;
+}
+
+/** Start and end (inclusive, to the millisecond) of a span of local days */
+export interface ZonedRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Falls back to UTC when the browser sent an unknown IANA time zone
+ * @param timeZone - IANA zone such as "Asia/Manila"
+ * @returns A time zone Intl accepts
+ */
+export function normalizeTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** IANA zones the runtime knows, for pickers */
+export function getSupportedTimeZones(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [getBrowserTimeZone()];
+  }
+}
+
+export function isWeekStart(value: unknown): value is WeekStart {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 6
+  );
+}
+
+/**
+ * A user's date settings. Profiles without a saved zone use the fallback
+ * (the zone of the browser making the request), then UTC.
+ */
+export function getDateSettings(
+  user: Pick<User, 'time_zone' | 'week_start'> | null,
+  fallbackTimeZone?: string | null
+): DateSettings {
+  const weekStart = user?.week_start;
+  return {
+    timeZone: normalizeTimeZone(user?.time_zone || fallbackTimeZone),
+    weekStart: isWeekStart(weekStart) ? weekStart : DEFAULT_WEEK_START,
+  };
+}
+
+/**
+ * Loads a user's date settings for an API route
+ * @param fallbackTimeZone - Zone sent by the browser, used when none is saved
+ */
+export async function fetchUserDateSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  fallbackTimeZone?: string | null
+): Promise<DateSettings> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('time_zone, week_start')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching date settings:', error);
+  }
+  return getDateSettings(data, fallbackTimeZone);
+}
+
+/**
+ * Validates the date fields of a profile update
+ * @returns An error message, or null when valid
+ */
+export function validateDateSettingsInput(
+  updates: Partial<UpdateUserRequest>
+): string | null {
+  if (
+    updates.time_zone !== undefined &&
+    updates.time_zone !== null &&
+    (typeof updates.time_zone !== 'string' ||
+      normalizeTimeZone(updates.time_zone) !== updates.time_zone)
+  ) {
+    return 'Unknown time zone';
+  }
+  if (updates.week_start !== undefined && !isWeekStart(updates.week_start)) {
+    return 'week_start must be a day number from 0 (Sunday) to 6 (Saturday)';
+  }
+  return null;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Wall-clock date and time of an instant in the zone */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value ?? '';
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    weekday: WEEKDAYS.indexOf(value('weekday')),
+  };
+}
+
+/** Instant of a local wall-clock time in the zone (DST gaps move forward) */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let guess = wallClock;
+  // Two passes settle the zone offset, including around DST changes
+  for (let pass = 0; pass < 2; pass += 1) {
+    const parts = getZonedParts(new Date(guess), timeZone);
+    const shown = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute
+    );
+    guess += wallClock - shown;
+  }
+  return new Date(guess);
+}
+
+function toDayKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar day of an instant in the zone
+ * @returns Key like "2025-09-15"
+ */
+export function getZonedDayKey(date: Date | string, timeZone: string): string {
+  const parts = getZonedParts(
+    typeof date === 'string' ? new Date(date) : date,
+    timeZone
+  );
+  return toDayKey(parts.year, parts.month, parts.day);
+}
+
+/**
+ * Instant a request names, e.g. a range bound the browser computed in the
+ * user's time zone
+ * @param value - ISO 8601 date-time string
+ * @returns The date, or null when the value is not a date
+ */
+export function parseIsoDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || value === '') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Calendar day a request names, whatever the server's own zone
+ * @param value - Day key ("2025-09-15") or a date label such as "September 15, 2025"
+ * @returns Day key, or null when the value is not a date
+ */
+export function parseCalendarDay(value: unknown): string | null {
+  if (typeof value !== 'string' || value === '') return null;
+  const keyMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (keyMatch) {
+    const [, year, month, day] = keyMatch.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCDate() === day ? value : null;
+  }
+  // Labels carry no zone, so they parse as the server's local midnight
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return toDayKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/** Day key a number of days after (or before) another */
+export function addDaysToKey(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return toDayKey(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate()
+  );
+}
+
+/**
+ * Instants covering local calendar days in the zone
+ * @param fromKey - First day ("2025-09-15")
+ * @param toKey - Last day, included (defaults to the first)
+ */
+export function getZonedDayRange(
+  fromKey: string,
+  timeZone: string,
+  toKey: string = fromKey
+): ZonedRange {
+  const [fromYear, fromMonth, fromDay] = fromKey.split('-').map(Number);
+  const [nextYear, nextMonth, nextDay] = addDaysToKey(toKey, 1)
+    .split('-')
+    .map(Number);
+  return {
+    start: zonedTimeToDate(fromYear, fromMonth, fromDay, 0, 0, timeZone),
+    end: new Date(
+      zonedTimeToDate(nextYear, nextMonth, nextDay, 0, 0, timeZone).getTime() -
+        1
+    ),
+  };
+}
+
+/** First day of the week containing the day */
+export function getWeekStartKey(dayKey: string, weekStart: WeekStart): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return addDaysToKey(dayKey, -((weekday - weekStart + 7) % 7));
+}
+
+/** Today and this week in the user's zone */
+export function getCurrentPeriods(
+  now: Date,
+  settings: DateSettings
+): { today: ZonedRange; week: ZonedRange } {
+  const todayKey = getZonedDayKey(now, settings.timeZone);
+  const weekStartKey = getWeekStartKey(todayKey, settings.weekStart);
+  return {
+    today: getZonedDayRange(todayKey, settings.timeZone),
+    week: getZonedDayRange(
+      weekStartKey,
+      settings.timeZone,
+      addDaysToKey(weekStartKey, 6)
+    ),
+  };
+}
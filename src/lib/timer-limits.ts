@@ -0,0 +1,191 @@
+import {
+  getZonedParts,
+  normalizeTimeZone,
+  zonedTimeToDate,
+} from '@/lib/time-zones';
+import { UpdateUserRequest, User } from '@/types';
+
+export const TIMER_MAX_RUN_MAX_HOURS = 24;
+
+/** Weekends follow the same rules, or timers are never stopped on them */
+export type TimerWeekendBehavior = 'same' | 'skip';
+
+export const TIMER_WEEKEND_BEHAVIORS: TimerWeekendBehavior[] = ['same', 'skip'];
+
+/** Why the server stopped a timer */
+export type TimerAutoStopReason = 'max_run' | 'time_of_day';
+
+/** A user's rules for timers left running */
+export interface TimerLimitRules {
+  maxRunHours: number | null;
+  /** Local time of day as "HH:MM" */
+  autoStopTime: string | null;
+  weekendBehavior: TimerWeekendBehavior;
+  timeZone: string;
+}
+
+type TimerLimitUser = Pick<
+  User,
+  | 'timer_max_run_hours'
+  | 'timer_auto_stop_time'
+  | 'timer_weekend_behavior'
+  | 'time_zone'
+>;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:00)?$/;
+
+/** Postgres TIME values come back as "HH:MM:SS"; the rules use "HH:MM" */
+function toTimeOfDay(value: string | null | undefined): string | null {
+  if (!value || !TIME_OF_DAY_PATTERN.test(value)) return null;
+  return value.slice(0, 5);
+}
+
+/** A user's timer limit rules (both limits off for profiles without them) */
+export function getTimerLimitRules(
+  user: TimerLimitUser | null
+): TimerLimitRules {
+  return {
+    maxRunHours: user?.timer_max_run_hours ?? null,
+    autoStopTime: toTimeOfDay(user?.timer_auto_stop_time),
+    weekendBehavior: user?.timer_weekend_behavior ?? 'same',
+    timeZone: normalizeTimeZone(user?.time_zone),
+  };
+}
+
+/** Whether any rule can stop a timer */
+export function hasTimerLimits(rules: TimerLimitRules): boolean {
+  return rules.maxRunHours !== null || rules.autoStopTime !== null;
+}
+
+/**
+ * Validates the timer limit fields of a profile update
+ * @returns An error message, or null when valid
+ */
+export function validateTimerLimitInput(
+  updates: Partial<UpdateUserRequest>
+): string | null {
+  const maxRunHours = updates.timer_max_run_hours;
+  if (
+    maxRunHours !== undefined &&
+    maxRunHours !== null &&
+    (typeof maxRunHours !== 'number' ||
+      !Number.isInteger(maxRunHours) ||
+      maxRunHours < 1 ||
+      maxRunHours > TIMER_MAX_RUN_MAX_HOURS)
+  ) {
+    return `Maximum run length must be a whole number of hours between 1 and ${TIMER_MAX_RUN_MAX_HOURS}`;
+  }
+  const autoStopTime = updates.timer_auto_stop_time;
+  if (
+    autoStopTime !== undefined &&
+    autoStopTime !== null &&
+    (typeof autoStopTime !== 'string' ||
+      !TIME_OF_DAY_PATTERN.test(autoStopTime))
+  ) {
+    return 'Auto-stop time must be a time of day such as 18:00';
+  }
+  if (
+    updates.timer_weekend_behavior !== undefined &&
+    !TIMER_WEEKEND_BEHAVIORS.includes(updates.timer_weekend_behavior)
+  ) {
+    return `timer_weekend_behavior must be one of: ${TIMER_WEEKEND_BEHAVIORS.join(', ')}`;
+  }
+  return null;
+}
+
+function isWeekend(date: Date, timeZone: string): boolean {
+  const weekday = getZonedParts(date, timeZone).weekday;
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * First time of day the rules stop a run started at `since`, skipping
+ * weekend days when weekends are left alone
+ */
+function getNextTimeOfDayStop(
+  since: Date,
+  autoStopTime: string,
+  rules: TimerLimitRules
+): Date | null {
+  const [hour, minute] = autoStopTime.split(':').map(Number);
+  const start = getZonedParts(since, rules.timeZone);
+  // A week and a day always reaches a weekday occurrence after `since`
+  for (let offset = 0; offset <= 8; offset += 1) {
+    // Date.UTC rolls day overflow into the next month
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day));
+    day.setUTCDate(day.getUTCDate() + offset);
+    const candidate = zonedTimeToDate(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      hour,
+      minute,
+      rules.timeZone
+    );
+    if (candidate <= since) continue;
+    if (
+      rules.weekendBehavior === 'skip' &&
+      isWeekend(candidate, rules.timeZone)
+    ) {
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
+
+/**
+ * When the rules stop a timer that has been running since `runningSince`
+ * @param runningSince - Server time the current run started
+ * @param now - Time of the check
+ * @returns The earliest stop time that has passed and why, or null when the
+ *   run may continue
+ */
+export function getTimerAutoStop(
+  runningSince: string,
+  rules: TimerLimitRules,
+  now: Date
+): { at: Date; reason: TimerAutoStopReason } | null {
+  const since = new Date(runningSince);
+  if (isNaN(since.getTime())) return null;
+
+  const stops: { at: Date; reason: TimerAutoStopReason }[] = [];
+
+  // Runs started on a weekend are left alone when weekends are skipped
+  if (
+    rules.maxRunHours !== null &&
+    !(rules.weekendBehavior === 'skip' && isWeekend(since, rules.timeZone))
+  ) {
+    stops.push({
+      at: new Date(since.getTime() + rules.maxRunHours * 60 * 60 * 1000),
+      reason: 'max_run',
+    });
+  }
+
+  const timeOfDayStop =
+    rules.autoStopTime !== null
+      ? getNextTimeOfDayStop(since, rules.autoStopTime, rules)
+      : null;
+  if (timeOfDayStop) {
+    stops.push({ at: timeOfDayStop, reason: 'time_of_day' });
+  }
+
+  const due = stops
+    .filter(stop => stop.at <= now)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  return due[0] ?? null;
+}
+
+/** Message for timers the server stopped since the user last looked */
+export function formatTimerAutoStopNotice(
+  stopped: { task_name: string | null; auto_stop_reason: TimerAutoStopReason }[]
+): string {
+  if (stopped.length === 1) {
+    const [entry] = stopped;
+    const name = entry.task_name ? `"${entry.task_name}"` : 'A timer';
+    return entry.auto_stop_reason === 'max_run'
+      ? `${name} was stopped after reaching your maximum run length. Time after that was not counted.`
+      : `${name} was stopped at your auto-stop time. Time after that was not counted.`;
+  }
+  return `${stopped.length} timers were stopped by your timer limits. Time after each stop was not counted.`;
+}
@@ -1,3 +1,5 @@
+import { TimerSyncStatus } from '@/lib/offline-queue';
+
 export type TimerStatus = 'running' | 'paused' | 'stopped';
 
 export function getTimerStatusText(status: TimerStatus): string {
@@ -11,3 +13,13 @@ export function getTimerStatusColorClass(status: TimerStatus): string {
   if (status === 'paused') return 'text-yellow-600';
   return 'text-gray-600';
 }
+
+export function getTimerSyncStatusText(status: TimerSyncStatus): string {
+  if (status === 'pending') return 'Waiting to sync';
+  return 'Sync failed';
+}
+
+export function getTimerSyncStatusColorClass(status: TimerSyncStatus): string {
+  if (status === 'pending') return 'text-amber-600';
+  return 'text-red-600';
+}
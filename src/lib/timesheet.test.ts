@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatTimesheetDuration,
+  getWeekStart,
+  parseTimesheetDuration,
+  planTimesheetCellChange,
+} from '@/lib/timesheet';
+
+const tracked = (id: string, seconds: number) => ({
+  id,
+  duration_seconds: seconds,
+  timesheet_adjustment: false,
+});
+const adjustment = (id: string, seconds: number) => ({
+  id,
+  duration_seconds: seconds,
+  timesheet_adjustment: true,
+});
+
+describe('planTimesheetCellChange', () => {
+  it('creates an adjustment for time added to an empty cell', () => {
+    expect(planTimesheetCellChange([], 5400)).toEqual({
+      adjustmentSeconds: 5400,
+      adjustmentId: null,
+      extraAdjustmentIds: [],
+    });
+  });
+
+  it('puts only the difference above tracked time in the adjustment', () => {
+    expect(
+      planTimesheetCellChange(
+        [tracked('t1', 1800), tracked('t2', 1200), adjustment('a1', 600)],
+        7200
+      )
+    ).toEqual({
+      adjustmentSeconds: 4200,
+      adjustmentId: 'a1',
+      extraAdjustmentIds: [],
+    });
+  });
+
+  it('removes the adjustment when the total equals tracked time', () => {
+    expect(
+      planTimesheetCellChange(
+        [tracked('t1', 3600), adjustment('a1', 600)],
+        3600
+      )
+    ).toEqual({
+      adjustmentSeconds: 0,
+      adjustmentId: 'a1',
+      extraAdjustmentIds: [],
+    });
+  });
+
+  it('merges duplicate adjustments into the first one', () => {
+    expect(
+      planTimesheetCellChange(
+        [adjustment('a1', 600), adjustment('a2', 300), adjustment('a3', 60)],
+        1800
+      )
+    ).toEqual({
+      adjustmentSeconds: 1800,
+      adjustmentId: 'a1',
+      extraAdjustmentIds: ['a2', 'a3'],
+    });
+  });
+
+  it('refuses a total below the tracked time', () => {
+    expect(
+      planTimesheetCellChange(
+        [tracked('t1', 3600), tracked('t2', 1800), adjustment('a1', 600)],
+        3600
+      )
+    ).toEqual({
+      error:
+        'This day has 1:30 of tracked time. Edit or delete those time entries to log less.',
+    });
+  });
+});
+
+describe('parseTimesheetDuration', () => {
+  it('reads clock and decimal hours', () => {
+    expect(parseTimesheetDuration('1:30')).toBe(5400);
+    expect(parseTimesheetDuration('1.5')).toBe(5400);
+    expect(parseTimesheetDuration('.25')).toBe(900);
+    expect(parseTimesheetDuration('  ')).toBe(0);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimesheetDuration('1:75')).toBeNull();
+    expect(parseTimesheetDuration('-1')).toBeNull();
+    expect(parseTimesheetDuration('abc')).toBeNull();
+  });
+
+  it('formats back to the clock form', () => {
+    expect(formatTimesheetDuration(5400)).toBe('1:30');
+    expect(formatTimesheetDuration(0)).toBe('');
+  });
+});
+
+describe('getWeekStart', () => {
+  // Wednesday, January 15, 2025
+  const wednesday = new Date(2025, 0, 15, 13, 45);
+
+  it('starts weeks on Sunday by default', () => {
+    expect(getWeekStart(wednesday)).toEqual(new Date(2025, 0, 12));
+  });
+
+  it('starts weeks on the chosen day', () => {
+    expect(getWeekStart(wednesday, 1)).toEqual(new Date(2025, 0, 13));
+    expect(getWeekStart(wednesday, 3)).toEqual(new Date(2025, 0, 15));
+    expect(getWeekStart(wednesday, 4)).toEqual(new Date(2025, 0, 9));
+  });
+});
@@ -0,0 +1,154 @@
+import { DEFAULT_WEEK_START, WeekStart } from '@/lib/time-zones';
+import { TimesheetEntry } from '@/types';
+
+export const TIMESHEET_DAYS_PER_WEEK = 7;
+
+/** A cell holds at most one day of time. */
+export const TIMESHEET_MAX_CELL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Gets the first day (00:00 local time) of the week containing the date
+ * @param date - Any date in the week
+ * @param weekStart - First day of the week, numbered like getDay() (Sunday by default)
+ * @returns Start of the week
+ */
+export function getWeekStart(
+  date: Date,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  // Days since the most recent week start (0 when the date is one)
+  const offset = (start.getDay() - weekStart + 7) % 7;
+  start.setDate(start.getDate() - offset);
+  return start;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: TIMESHEET_DAYS_PER_WEEK }, (_, i) =>
+    addDays(weekStart, i)
+  );
+}
+
+/**
+ * Browser-local midnight of a calendar day, used to show and step through days
+ * @param dateKey - Key like "2025-09-15"
+ */
+export function fromDateKey(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00`);
+}
+
+/**
+ * Key of a browser-local calendar day (the grid's day columns)
+ * @param date - Date or ISO string
+ * @returns Key like "2025-09-15"
+ */
+export function toDateKey(date: Date | string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Formats seconds for a timesheet cell
+ * @param seconds - Duration in seconds
+ * @returns "h:mm" (e.g. "1:30"), or an empty string for no time
+ */
+export function formatTimesheetDuration(seconds: number): string {
+  if (seconds <= 0) return '';
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Parses what was typed into a timesheet cell
+ * @param input - "h:mm" (e.g. "1:30"), decimal hours (e.g. "1.5") or empty for none
+ * @returns Duration in seconds, or null if the input is not a valid duration
+ */
+export function parseTimesheetDuration(input: string): number | null {
+  const value = input.trim();
+  if (value === '') return 0;
+
+  const clockMatch = value.match(/^(\d+):([0-5]\d)$/);
+  if (clockMatch) {
+    return Number(clockMatch[1]) * 3600 + Number(clockMatch[2]) * 60;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value) || /^\.\d+$/.test(value)) {
+    return Math.round(Number(value) * 3600);
+  }
+
+  return null;
+}
+
+export interface TimesheetCellChange {
+  /** Seconds the cell's adjustment entry should hold; 0 removes it */
+  adjustmentSeconds: number;
+  /** Adjustment entry to update or remove; null when one has to be created */
+  adjustmentId: string | null;
+  /** Further adjustment entries of the cell (e.g. from concurrent edits) to remove */
+  extraAdjustmentIds: string[];
+}
+
+/**
+ * Works out how setting a cell's total changes its entries. Tracked entries
+ * are never touched: the difference between the total and the tracked time
+ * goes into the cell's one manual adjustment entry.
+ * @param entries - Stopped entries of the task on that day
+ * @param targetSeconds - Total typed into the cell
+ * @returns The change, or an error when the total is below the tracked time
+ */
+export function planTimesheetCellChange(
+  entries: Pick<
+    TimesheetEntry,
+    'id' | 'duration_seconds' | 'timesheet_adjustment'
+  >[],
+  targetSeconds: number
+): TimesheetCellChange | { error: string } {
+  const trackedSeconds = entries
+    .filter(entry => !entry.timesheet_adjustment)
+    .reduce((sum, entry) => sum + (entry.duration_seconds || 0), 0);
+
+  if (targetSeconds < trackedSeconds) {
+    return {
+      error: `This day has ${formatTimesheetDuration(trackedSeconds)} of tracked time. Edit or delete those time entries to log less.`,
+    };
+  }
+
+  const [adjustment, ...extraAdjustments] = entries.filter(
+    entry => entry.timesheet_adjustment
+  );
+  return {
+    adjustmentSeconds: targetSeconds - trackedSeconds,
+    adjustmentId: adjustment?.id ?? null,
+    extraAdjustmentIds: extraAdjustments.map(entry => entry.id),
+  };
+}
+
+/**
+ * Formats the week shown in the timesheet header
+ * @param weekStart - First day of the week
+ * @returns String like "Sep 15 – Sep 21, 2025"
+ */
+export function formatWeekRange(weekStart: Date): string {
+  const weekEnd = addDays(weekStart, TIMESHEET_DAYS_PER_WEEK - 1);
+  const startLabel = weekStart.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+  const endLabel = weekEnd.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `${startLabel} – ${endLabel}`;
+}
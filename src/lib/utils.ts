@@ -304,3 +304,16 @@ export function getDeletionStatusMessage(user: {
 
   return null;
 }
+
+/**
+ * Where to send the user after signing in. Only same-site paths are kept so a
+ * crafted link cannot bounce the user to another site.
+ * @param next - Path from the `next` query parameter
+ * @returns The path, or the dashboard when it is missing or not a local path
+ */
+export function getSafeNextPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//')) {
+    return '/dashboard';
+  }
+  return next.includes('\\') ? '/dashboard' : next;
+}
@@ -23,3 +23,19 @@ export const validatePhone = (phone: string): string | null => {
     ? null
     : 'Please enter a valid phone number';
 };
+
+/** Max length for a time entry note (mirrors the time_entries CHECK constraint). */
+export const TIME_ENTRY_DESCRIPTION_MAX_LENGTH = 500;
+
+/**
+ * Time entry note validation function
+ * @param description - The note to validate
+ * @returns null if valid, error message if invalid
+ */
+export const validateTimeEntryDescription = (
+  description: string
+): string | null => {
+  return description.trim().length > TIME_ENTRY_DESCRIPTION_MAX_LENGTH
+    ? `Note must be ${TIME_ENTRY_DESCRIPTION_MAX_LENGTH} characters or less`
+    : null;
+};
@@ -0,0 +1,249 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { WorkspaceInvitation, WorkspaceRole } from '@/types';
+
+export type WorkspacePermission =
+  | 'manage_workspace'
+  | 'manage_members'
+  | 'manage_projects'
+  | 'manage_invoices'
+  | 'edit_tasks'
+  | 'track_time';
+
+/** What each role may do; everyone in a workspace can read its data */
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: [
+    'manage_workspace',
+    'manage_members',
+    'manage_projects',
+    'manage_invoices',
+    'edit_tasks',
+    'track_time',
+  ],
+  admin: [
+    'manage_workspace',
+    'manage_members',
+    'manage_projects',
+    'manage_invoices',
+    'edit_tasks',
+    'track_time',
+  ],
+  member: ['edit_tasks', 'track_time'],
+  viewer: [],
+};
+
+/** `error` field in JSON 403 responses when the role is missing a permission */
+export const WORKSPACE_PERMISSION_ERROR_MESSAGES: Record<
+  WorkspacePermission,
+  string
+> = {
+  manage_workspace: 'Only workspace owners and admins can change the workspace',
+  manage_members: 'Only workspace owners and admins can manage members',
+  manage_projects: 'Only workspace owners and admins can manage projects',
+  manage_invoices: 'Only workspace owners and admins can manage invoices',
+  edit_tasks: 'Viewers cannot change tasks in this workspace',
+  track_time: 'Viewers cannot track time in this workspace',
+};
+
+/** Roles that can be invited or given; every workspace has exactly one owner */
+export const INVITABLE_WORKSPACE_ROLES: WorkspaceInvitation['role'][] = [
+  'admin',
+  'member',
+  'viewer',
+];
+
+/** Days before an invitation link stops working */
+export const WORKSPACE_INVITATION_EXPIRY_DAYS = 7;
+
+export function hasWorkspacePermission(
+  role: WorkspaceRole | null | undefined,
+  permission: WorkspacePermission
+): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isInvitableWorkspaceRole(
+  value: unknown
+): value is WorkspaceInvitation['role'] {
+  return INVITABLE_WORKSPACE_ROLES.includes(
+    value as WorkspaceInvitation['role']
+  );
+}
+
+export type ActiveWorkspace = {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+};
+
+/**
+ * Workspace the user works in: the one chosen in the switcher while they are
+ * still a member of it, otherwise their personal workspace. New projects are
+ * created here and lists of projects, tasks and invoices are scoped to it.
+ */
+export async function getActiveWorkspace(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ActiveWorkspace> {
+  const [profileResult, membershipsResult] = await Promise.all([
+    supabase
+      .from('users')
+      .select('active_workspace_id')
+      .eq('id', userId)
+      .maybeSingle(),
+    supabase
+      .from('workspace_members')
+      .select('role, workspace:workspaces(id, name, is_personal, owner_id)')
+      .eq('user_id', userId),
+  ]);
+
+  if (profileResult.error) {
+    throw new Error(
+      `Failed to fetch active workspace: ${profileResult.error.message}`
+    );
+  }
+  if (membershipsResult.error) {
+    throw new Error(
+      `Failed to fetch workspaces: ${membershipsResult.error.message}`
+    );
+  }
+
+  const memberships = (membershipsResult.data ?? []).flatMap(row => {
+    const workspace = row.workspace as unknown as {
+      id: string;
+      name: string;
+      is_personal: boolean;
+      owner_id: string;
+    } | null;
+    return workspace ? [{ role: row.role as WorkspaceRole, workspace }] : [];
+  });
+
+  const activeId = profileResult.data?.active_workspace_id;
+  const match =
+    (activeId && memberships.find(m => m.workspace.id === activeId)) ||
+    memberships.find(
+      m => m.workspace.is_personal && m.workspace.owner_id === userId
+    );
+
+  if (!match) {
+    throw new Error('No workspace found for user');
+  }
+
+  return {
+    id: match.workspace.id,
+    name: match.workspace.name,
+    isPersonal: match.workspace.is_personal,
+    role: match.role,
+  };
+}
+
+/** The user's role in a workspace, or null when they are not a member */
+export async function getWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch workspace role: ${error.message}`);
+  }
+
+  return (data?.role as WorkspaceRole | undefined) ?? null;
+}
+
+/**
+ * Shared workspace the user owns that nobody could take over if their account
+ * were deleted: it has other members but no admin. Deleting the account hands
+ * each shared workspace to an admin, so these have to be sorted out first.
+ * @returns The workspace's name, or null when the account can be deleted
+ */
+export async function findWorkspaceBlockingAccountDeletion(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('name, members:workspace_members(user_id, role)')
+    .eq('owner_id', userId)
+    .eq('is_personal', false);
+
+  if (error) {
+    throw new Error(`Failed to fetch owned workspaces: ${error.message}`);
+  }
+
+  const blocking = (data ?? []).find(workspace => {
+    const others = (workspace.members ?? []).filter(
+      member => member.user_id !== userId
+    );
+    return others.length > 0 && !others.some(member => member.role === 'admin');
+  });
+  return blocking?.name ?? null;
+}
+
+/** Random secret for an invitation link */
+export function generateWorkspaceInvitationToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+export function workspaceInvitationExpiresAt(now: Date = new Date()): Date {
+  return new Date(
+    now.getTime() + WORKSPACE_INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+async function getRowWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  table: 'projects' | 'invoices' | 'clients',
+  id: string
+): Promise<WorkspaceRole | null> {
+  const { data: row, error } = await supabase
+    .from(table)
+    .select('workspace_id')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch ${table}: ${error.message}`);
+  }
+  if (!row) return null;
+
+  return getWorkspaceRole(supabase, userId, row.workspace_id);
+}
+
+/**
+ * The user's role in the workspace that owns a project, or null when the
+ * project does not exist or is in a workspace they are not a member of
+ */
+export function getProjectWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string
+): Promise<WorkspaceRole | null> {
+  return getRowWorkspaceRole(supabase, userId, 'projects', projectId);
+}
+
+/** Same as getProjectWorkspaceRole, for the workspace that owns an invoice */
+export function getInvoiceWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  invoiceId: string
+): Promise<WorkspaceRole | null> {
+  return getRowWorkspaceRole(supabase, userId, 'invoices', invoiceId);
+}
+
+/** Same as getProjectWorkspaceRole, for the workspace that owns a client */
+export function getClientWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  clientId: string
+): Promise<WorkspaceRole | null> {
+  return getRowWorkspaceRole(supabase, userId, 'clients', clientId);
+}
@@ -11,7 +11,8 @@ export type ActivityAction =
   | 'EXPORT_DATA'
   | 'REQUEST_ACCOUNT_DELETION'
   | 'CONFIRM_ACCOUNT_DELETION'
-  | 'CANCEL_ACCOUNT_DELETION';
+  | 'CANCEL_ACCOUNT_DELETION'
+  | 'VIEW_CLIENT_PORTAL';
 export type ActivityEntityType =
   | 'project'
   | 'task'
@@ -20,7 +21,8 @@ export type ActivityEntityType =
   | 'invoice'
   | 'user'
   | 'data_export'
-  | 'account_deletion';
+  | 'account_deletion'
+  | 'client_portal_link';
 
 export interface User {
   id: string;
@@ -36,6 +38,30 @@ export interface User {
   business_address?: string;
   business_phone?: string;
   tax_id?: string;
+  // Overdue invoice reminders (days past the due date)
+  invoice_reminders_enabled?: boolean;
+  invoice_reminder_days?: number[];
+  // Invoice numbering; the prefix may contain {YYYY}, {YY} and {MM}
+  invoice_number_prefix?: string;
+  invoice_number_padding?: number;
+  invoice_number_next?: number | null; // null until the first number is generated
+  invoice_number_reset_yearly?: boolean;
+  invoice_number_year?: number | null; // Year of the last generated number
+  // Minutes away before running timers prompt about idle time (null = off)
+  idle_timeout_minutes?: number | null;
+  // Focus mode work/break lengths in minutes
+  focus_work_minutes?: number;
+  focus_break_minutes?: number;
+  focus_notifications_enabled?: boolean;
+  // Timer limits enforced by the server (null = off); time of day is "HH:MM:SS"
+  timer_max_run_hours?: number | null;
+  timer_auto_stop_time?: string | null;
+  timer_weekend_behavior?: 'same' | 'skip';
+  // Where days and weeks begin in stats, filters, reports and invoice ranges
+  time_zone?: string | null; // IANA zone (null = the browser's zone)
+  week_start?: number; // 0 = Sunday … 6 = Saturday
+  calendar_feed_token?: string | null; // Secret in the ICS feed URL (null = off)
+  active_workspace_id?: string | null; // null = the personal workspace
   // Account deletion tracking
   deletion_requested_at?: string;
   deletion_confirmed_at?: string;
@@ -64,12 +90,254 @@ export interface UpdateUserRequest {
   business_address?: string;
   business_phone?: string;
   tax_id?: string;
+  invoice_reminders_enabled?: boolean;
+  invoice_reminder_days?: number[];
+  invoice_number_prefix?: string;
+  invoice_number_padding?: number;
+  invoice_number_next?: number;
+  invoice_number_reset_yearly?: boolean;
+  idle_timeout_minutes?: number | null;
+  focus_work_minutes?: number;
+  focus_break_minutes?: number;
+  focus_notifications_enabled?: boolean;
+  timer_max_run_hours?: number | null;
+  timer_auto_stop_time?: string | null;
+  timer_weekend_behavior?: 'same' | 'skip';
+  time_zone?: string | null;
+  week_start?: number;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/** Personal or shared; projects, tasks, time entries and invoices belong to one */
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  is_personal: boolean; // Created with the account; cannot be deleted
+  created_at: string;
+  updated_at: string;
+}
+
+/** Workspace with the current user's role in it */
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole;
+  is_active: boolean;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  user?: {
+    name?: string;
+    email: string;
+  };
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+}
+
+export interface UpdateWorkspaceRequest {
+  name?: string;
+}
+
+export interface CreateWorkspaceInvitationRequest {
+  email: string;
+  role: WorkspaceInvitation['role'];
+}
+
+export interface UpdateWorkspaceMemberRequest {
+  role: WorkspaceInvitation['role'];
+}
+
+/** Someone a project's tasks can be assigned to (a member of its workspace) */
+export interface Assignee {
+  id: string;
+  name?: string;
+  email: string;
+  role: WorkspaceRole;
+}
+
+export interface ProjectAssigneesResponse {
+  assignees: Assignee[];
+  /** Whether the caller can invite collaborators to the project's workspace */
+  can_invite: boolean;
+}
+
+export interface Client {
+  id: string;
+  workspace_id: string;
+  user_id: string | null; // Creator
+  name: string;
+  email?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Sent invoices (not drafts or cancelled) of a client in one currency */
+export interface ClientInvoicedTotal {
+  currency_code: string;
+  invoiced: number;
+  paid: number;
+}
+
+export interface ClientTotals {
+  project_count: number;
+  /** Stopped time of every member on the client's projects */
+  tracked_seconds: number;
+  invoiced: ClientInvoicedTotal[];
+}
+
+export interface ClientWithTotals extends Client {
+  totals: ClientTotals;
+}
+
+export interface CreateClientRequest {
+  name: string;
+  email?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateClientRequest = Partial<CreateClientRequest>;
+
+/** Secret link to a client's invoices, opened without an account */
+export interface ClientPortalLink {
+  id: string;
+  workspace_id: string;
+  client_id: string;
+  token: string;
+  created_by: string | null;
+  expires_at: string | null; // null never expires
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export interface CreateClientPortalLinkRequest {
+  /** Days until the link stops working; null never expires */
+  expires_in_days: number | null;
+}
+
+export interface UpdateClientPortalLinkRequest {
+  expires_in_days?: number | null;
+  revoked?: true;
+}
+
+/** Invoice as listed in the client portal */
+export interface ClientPortalInvoice {
+  id: string;
+  invoice_number: string;
+  status: InvoiceStatus;
+  issue_date: string;
+  due_date: string | null;
+  currency_code: string;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+  project_name: string;
+}
+
+export interface ClientPortalResponse {
+  client_name: string;
+  /** Business name of whoever shared the link */
+  business_name: string | null;
+  expires_at: string | null;
+  invoices: ClientPortalInvoice[];
+}
+
+/** Read-only time report of a project, opened by anyone with the token */
+export interface ProjectReportShare {
+  id: string;
+  workspace_id: string;
+  project_id: string;
+  token: string;
+  created_by: string | null;
+  /** First and last calendar day of the report ("2025-09-15") */
+  from_date: string;
+  to_date: string;
+  /** Zone the days are read in, the creator's at the time of sharing */
+  time_zone: string;
+  hide_rates: boolean;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreateProjectReportShareRequest {
+  from_date: string;
+  to_date: string;
+  hide_rates?: boolean;
+  /** Browser zone, used when the member has not set one */
+  time_zone?: string;
+}
+
+export interface UpdateProjectReportShareRequest {
+  revoked: true;
+}
+
+/** Task row of a shared report; rate and amount are null when rates are hidden */
+export interface ProjectReportTask {
+  task_id: string;
+  name: string;
+  status: TaskStatus | null;
+  duration_seconds: number;
+  entry_count: number;
+  rate_type: RateType | null;
+  price: number | null;
+  amount: number | null;
+}
+
+/** Stopped time entry of a shared report, counted for its time inside the range */
+export interface ProjectReportEntry {
+  id: string;
+  task_name: string;
+  description: string | null;
+  end_time: string;
+  duration_seconds: number;
+}
+
+export interface ProjectReport {
+  project_name: string;
+  client_name: string | null;
+  /** Business name of whoever shared the report */
+  business_name: string | null;
+  from_date: string;
+  to_date: string;
+  time_zone: string;
+  hide_rates: boolean;
+  currency_code: string;
+  tasks: ProjectReportTask[];
+  entries: ProjectReportEntry[];
+  total_seconds: number;
+  /** Null when rates are hidden */
+  total_amount: number | null;
 }
 
 export interface Project {
   id: string;
   name: string;
   description?: string;
+  client_id?: string | null;
+  // Copy of the linked client's details, kept in sync by the database
   client_name?: string;
   client_email?: string;
   client_address?: string;
@@ -78,7 +346,8 @@ export interface Project {
   price?: number | null;
   currency_code?: string | null;
   status: ProjectStatus;
-  user_id: string;
+  user_id: string; // Creator
+  workspace_id: string;
   created_at: string;
   updated_at: string;
 }
@@ -89,6 +358,7 @@ export interface Task {
   description?: string;
   project_id: string;
   user_id: string;
+  workspace_id: string; // Always the project's workspace
   status: TaskStatus;
   priority: Priority;
   due_date?: string;
@@ -114,18 +384,60 @@ export interface TaskWithDetails extends Task {
   };
 }
 
+/** A task on the "My Tasks" page, from any workspace the user belongs to */
+export interface AssignedTask extends TaskWithDetails {
+  workspace: {
+    name: string;
+    is_personal: boolean;
+  };
+}
+
 export interface TimeEntry {
   id: string;
   task_id: string;
   user_id: string;
+  workspace_id: string; // Always the project's workspace
   start_time?: string;
   end_time?: string;
+  /** Seconds of closed run segments; a running timer adds now - running_since */
   duration_seconds: number;
   timer_status: 'running' | 'paused' | 'stopped';
+  /** Server time the current run segment started (null unless running) */
+  running_since?: string | null;
+  description?: string | null;
+  /** Why the server stopped the timer (null unless a timer limit stopped it) */
+  auto_stop_reason?: 'max_run' | 'time_of_day' | null;
+  auto_stop_notified_at?: string | null;
+  /** Manual time a timesheet cell edit added on top of tracked entries */
+  timesheet_adjustment?: boolean;
+  /** Recorded runs, oldest first (only when requested) */
+  segments?: TimeEntrySegment[];
   created_at: string;
   updated_at: string;
 }
 
+/** One run of a timer, from start/resume to pause/stop (ended_at is null while running) */
+export interface TimeEntrySegment {
+  id: string;
+  time_entry_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+}
+
+/** Focus mode work interval that ran to the end (the timer was paused then) */
+export interface FocusInterval {
+  id: string;
+  user_id: string;
+  task_id: string;
+  project_id: string;
+  time_entry_id: string | null;
+  started_at: string;
+  completed_at: string;
+  created_at: string;
+}
+
 export interface TimeEntryWithDetails extends TimeEntry {
   task: Task;
   project: Project;
@@ -145,9 +457,58 @@ export interface DashboardStats {
   active_timers: number;
 }
 
+/** Timer action that produced a queued offline mutation (used for status text). */
+export type OfflineMutationAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'stop'
+  | 'create';
+
+/**
+ * A time entry write recorded while offline, replayed in order against /api/time-entries.
+ * `entry_id` is a local placeholder id (see `isLocalEntryId`) until its create has synced.
+ */
+export type OfflineMutation =
+  | {
+      id: string;
+      kind: 'create';
+      action: OfflineMutationAction;
+      entry_id: string;
+      task_id: string;
+      project_id: string;
+      payload: {
+        start_time: string | null;
+        duration_seconds: number;
+        timer_status: 'running' | 'paused';
+        description?: string | null;
+      };
+      queued_at: string;
+    }
+  | {
+      id: string;
+      kind: 'update';
+      action: OfflineMutationAction;
+      entry_id: string;
+      task_id: string;
+      project_id: string;
+      /** The server derives durations; queued_at dates a pause or stop (resumes count from sync) */
+      payload: {
+        timer_status: 'running' | 'paused' | 'stopped';
+      };
+      queued_at: string;
+    };
+
+export interface FailedOfflineMutation {
+  mutation: OfflineMutation;
+  error: string;
+  failed_at: string;
+}
+
 export interface OfflineData {
-  pending_sync: TimeEntry[];
-  last_sync: string;
+  pending_sync: OfflineMutation[];
+  failed_sync: FailedOfflineMutation[];
+  last_sync: string | null;
   is_online: boolean;
 }
 
@@ -155,10 +516,7 @@ export interface OfflineData {
 export interface CreateProjectRequest {
   name: string;
   description?: string;
-  client_name?: string;
-  client_email?: string;
-  client_address?: string;
-  client_phone?: string;
+  client_id?: string | null;
   rate_type?: RateType | null;
   price?: number | null;
   currency_code?: string | null;
@@ -167,10 +525,7 @@ export interface CreateProjectRequest {
 export interface UpdateProjectRequest {
   name?: string;
   description?: string;
-  client_name?: string;
-  client_email?: string;
-  client_address?: string;
-  client_phone?: string;
+  client_id?: string | null;
   rate_type?: RateType | null;
   price?: number | null;
   currency_code?: string | null;
@@ -204,7 +559,8 @@ export interface CreateTimeEntryRequest {
   start_time?: string;
   end_time?: string;
   duration_seconds: number;
-  description?: string;
+  timer_status?: 'running' | 'paused' | 'stopped';
+  description?: string | null;
 }
 
 export interface UpdateTimeEntryRequest {
@@ -212,6 +568,196 @@ export interface UpdateTimeEntryRequest {
   end_time?: string;
   duration_seconds?: number;
   timer_status?: 'running' | 'paused' | 'stopped';
+  description?: string | null;
+}
+
+export interface TimesheetTask {
+  id: string;
+  name: string;
+  status: TaskStatus;
+  project_id: string;
+  project_name: string;
+}
+
+/** Stopped entry as returned for the timesheet grid (bucketed by end_time, like invoices). */
+export interface TimesheetEntry {
+  id: string;
+  task_id: string;
+  project_id: string;
+  end_time: string;
+  duration_seconds: number;
+  timesheet_adjustment: boolean;
+}
+
+export interface TimesheetWeek {
+  tasks: TimesheetTask[];
+  time_entries: TimesheetEntry[];
+}
+
+/**
+ * Set the stopped time for one task on one day. The day bounds come from the
+ * browser so the grid follows the user's local calendar. The difference from
+ * the tracked time is kept in a manual adjustment entry.
+ */
+export interface SetTimesheetCellRequest {
+  task_id: string;
+  day_start: string;
+  day_end: string;
+  duration_seconds: number;
+}
+
+/**
+ * Time entry read from an imported CSV file, after the wizard mapped its
+ * columns. Projects and tasks are matched by id (Orasan exports) or by name.
+ */
+export interface TimeEntryImportRow {
+  line: number; // Line in the file, for messages
+  project_id?: string | null;
+  project_name?: string | null;
+  client_name?: string | null;
+  task_id?: string | null;
+  task_name?: string | null;
+  description?: string | null;
+  start_time: string;
+  end_time: string;
+  duration_seconds: number;
+  currency_code?: string | null;
+}
+
+export interface TimeEntryImportRequest {
+  rows: TimeEntryImportRow[];
+  default_currency: string; // Currency of projects the import creates
+  dry_run?: boolean; // Validate and preview without saving
+}
+
+export type TimeEntryImportRowStatus = 'ok' | 'warning' | 'error';
+
+export interface TimeEntryImportPreviewRow {
+  line: number;
+  status: TimeEntryImportRowStatus;
+  messages: string[];
+  project_name: string | null;
+  task_name: string | null;
+  start_time: string;
+  end_time: string;
+  duration_seconds: number;
+  new_project: boolean;
+  new_task: boolean;
+}
+
+export interface TimeEntryImportSummary {
+  total_rows: number;
+  importable_rows: number; // Rows without errors (warnings still import)
+  error_rows: number;
+  warning_rows: number;
+  new_projects: number;
+  new_tasks: number;
+  total_seconds: number;
+}
+
+export interface TimeEntryImportResponse {
+  summary: TimeEntryImportSummary;
+  rows: TimeEntryImportPreviewRow[];
+  // Set when the import was saved
+  imported?: { time_entries: number; projects: number; tasks: number };
+}
+
+export type DataExportFormat = 'zip' | 'json';
+
+export interface DataExportTask extends Task {
+  time_entries: TimeEntry[]; // With their segments
+  focus_intervals: FocusInterval[];
+}
+
+export interface DataExportProject extends Project {
+  tasks: DataExportTask[];
+}
+
+export interface DataExportInvoice extends Invoice {
+  items: InvoiceItem[];
+  payments: InvoicePayment[];
+}
+
+/**
+ * The export as one nested document (format=json). Rows keep every column,
+ * including ids and foreign keys, so the nesting can always be undone.
+ */
+export interface DataExportDocument {
+  schema_version: number;
+  exported_at: string;
+  user: User | null;
+  subscription_entitlements: UserFsEntitlement[];
+  projects: DataExportProject[];
+  invoices: DataExportInvoice[];
+  work_sessions: Record<string, unknown>[];
+  activity_log?: UserActivityLog[]; // Only when requested
+}
+
+/** Tables an account restore loads, in insert order */
+export type AccountRestoreTable =
+  | 'projects'
+  | 'tasks'
+  | 'time_entries'
+  | 'time_entry_segments'
+  | 'focus_intervals'
+  | 'work_sessions'
+  | 'invoices'
+  | 'invoice_items'
+  | 'invoice_payments';
+
+export type AccountRestoreCounts = Record<AccountRestoreTable, number>;
+
+export type AccountRestoreConflictCode =
+  | 'duplicate_project'
+  | 'invoice_number_taken'
+  | 'missing_reference'
+  | 'project_limit'
+  | 'invoices_pro_only'
+  | 'invalid_row';
+
+/** Problem that stops a restore; nothing is saved while any remain */
+export interface AccountRestoreConflict {
+  code: AccountRestoreConflictCode;
+  message: string;
+}
+
+export interface AccountRestoreResponse {
+  counts: AccountRestoreCounts; // Rows the restore creates (or created)
+  conflicts: AccountRestoreConflict[];
+  warnings: string[]; // Changes made to fit the data in, e.g. running timers paused
+  restored: boolean;
+}
+
+export type ReportGroupBy = 'project' | 'task' | 'client' | 'priority' | 'day';
+
+export interface ReportCurrencyAmount {
+  currency_code: string;
+  amount: number;
+}
+
+export interface TimeReportRow {
+  key: string;
+  label: string;
+  /** Secondary label (e.g. the project of a task row). */
+  sublabel?: string | null;
+  duration_seconds: number;
+  entry_count: number;
+  /** Focus mode intervals completed in the range. */
+  focus_count: number;
+  billable: ReportCurrencyAmount[];
+}
+
+/** Stopped time worked inside a date range (by recorded segments, else by end_time, like invoices). */
+export interface TimeReport {
+  group_by: ReportGroupBy;
+  from: string;
+  to: string;
+  time_zone: string;
+  rows: TimeReportRow[];
+  total_seconds: number;
+  entry_count: number;
+  focus_count: number;
+  billable_totals: ReportCurrencyAmount[];
 }
 
 export interface UserActivityLog {
@@ -226,20 +772,54 @@ export interface UserActivityLog {
 
 export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
 
+export type InvoiceDiscountType = 'percentage' | 'fixed';
+
+export interface InvoiceDiscount {
+  type: InvoiceDiscountType;
+  value: number; // Percent for 'percentage', amount in the invoice currency for 'fixed'
+}
+
+export interface InvoiceTax {
+  name: string;
+  rate: number; // Percent
+  /** Withheld by the client: deducted from the total instead of added */
+  is_withholding?: boolean;
+}
+
+export interface InvoiceTaxLine extends InvoiceTax {
+  amount: number;
+}
+
 export interface Invoice {
   id: string;
   user_id: string;
   project_id: string;
+  workspace_id: string; // Always the project's workspace
   invoice_number: string;
   status: InvoiceStatus;
   issue_date: string;
   due_date?: string;
-  subtotal: number;
+  subtotal: number; // After line discounts
+  /** Invoice-level discount, applied to the subtotal */
+  discount_type?: InvoiceDiscountType | null;
+  discount_value?: number | null;
+  discount_amount: number;
+  /** Named taxes with computed amounts; tax_rate and tax_amount hold their net totals */
+  taxes: InvoiceTaxLine[];
+  /** Prices already include the (non-withholding) taxes */
+  tax_inclusive: boolean;
   tax_rate: number;
   tax_amount: number;
   total_amount: number;
   currency_code: string;
   notes?: string;
+  /** Recipient, time and provider message id of the last emailed copy */
+  sent_to_email?: string | null;
+  sent_at?: string | null;
+  sent_message_id?: string | null;
+  /** Overdue reminder step (days overdue) most recently emailed */
+  last_reminder_days?: number | null;
+  last_reminder_sent_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -252,14 +832,38 @@ export interface InvoiceItem {
   description?: string;
   quantity: number;
   unit_price: number;
-  total_cost: number;
+  total_cost: number; // quantity × unit_price, before the line discount
+  discount_type?: InvoiceDiscountType | null;
+  discount_value?: number | null;
+  discount_amount: number;
   rate_type?: RateType | null;
   created_at: string;
 }
 
+export type InvoicePaymentMethod =
+  | 'bank_transfer'
+  | 'card'
+  | 'cash'
+  | 'check'
+  | 'paypal'
+  | 'other';
+
+export interface InvoicePayment {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  amount: number;
+  paid_on: string; // YYYY-MM-DD
+  method: InvoicePaymentMethod;
+  reference?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface InvoiceWithDetails extends Invoice {
   project: Project;
   items: InvoiceItem[];
+  payments?: InvoicePayment[];
 }
 
 export interface CreateInvoiceRequest {
@@ -267,17 +871,28 @@ export interface CreateInvoiceRequest {
   project_id: string;
   issue_date: string;
   due_date?: string;
+  /** Single unnamed tax; ignored when taxes is set */
   tax_rate?: number;
+  taxes?: InvoiceTax[];
+  tax_inclusive?: boolean;
+  discount?: InvoiceDiscount | null;
   currency_code?: string;
   notes?: string;
   date_range: {
     from: string;
     to: string;
+    /** Browser zone for the days, used when the user has not saved one */
+    time_zone?: string;
   };
   /** Task IDs to exclude from the invoice (user removed them from preview) */
   exclude_task_ids?: string[];
   /** Override quantity and unit_price per task (for fine-tuning in create flow) */
-  item_overrides?: Record<string, { quantity: number; unit_price: number }>;
+  item_overrides?: Record<
+    string,
+    { quantity: number; unit_price: number; discount?: InvoiceDiscount | null }
+  >;
+  /** Append time entry notes to each item's description (one line per note) */
+  include_time_entry_notes?: boolean;
 }
 
 export interface UpdateInvoiceRequest {
@@ -285,7 +900,11 @@ export interface UpdateInvoiceRequest {
   status?: InvoiceStatus;
   issue_date?: string;
   due_date?: string;
+  /** Single unnamed tax; ignored when taxes is set */
   tax_rate?: number;
+  taxes?: InvoiceTax[];
+  tax_inclusive?: boolean;
+  discount?: InvoiceDiscount | null;
   currency_code?: string;
   notes?: string;
   items?: Array<{
@@ -296,6 +915,72 @@ export interface UpdateInvoiceRequest {
     quantity: number;
     unit_price: number;
     total_cost: number;
+    discount?: InvoiceDiscount | null;
     rate_type?: RateType | null;
   }>;
 }
+
+export interface CreateInvoicePaymentRequest {
+  amount: number;
+  paid_on: string;
+  method?: InvoicePaymentMethod;
+  reference?: string;
+}
+
+export interface SendInvoiceRequest {
+  /** Defaults to the project's client email */
+  to?: string;
+  /** Subject and message may use the invoice email placeholders */
+  subject?: string;
+  message?: string;
+}
+
+export type InvoiceScheduleFrequency = 'monthly' | 'biweekly' | 'custom';
+
+/** Which time entries a scheduled invoice covers */
+export type InvoiceDateRangeRule = 'previous_period' | 'since_last_run';
+
+export interface InvoiceSchedule {
+  id: string;
+  user_id: string;
+  project_id: string;
+  frequency: InvoiceScheduleFrequency;
+  interval_days: number | null; // Only for custom schedules
+  date_range_rule: InvoiceDateRangeRule;
+  tax_rate: number;
+  due_in_days: number | null;
+  /** Supports {period_start}, {period_end} and {project_name} placeholders */
+  notes_template: string | null;
+  include_time_entry_notes: boolean;
+  is_active: boolean;
+  next_run_on: string; // YYYY-MM-DD
+  last_run_on: string | null;
+  last_invoice_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateInvoiceScheduleRequest {
+  project_id: string;
+  frequency: InvoiceScheduleFrequency;
+  interval_days?: number | null;
+  date_range_rule?: InvoiceDateRangeRule;
+  tax_rate?: number;
+  due_in_days?: number | null;
+  notes_template?: string | null;
+  include_time_entry_notes?: boolean;
+  next_run_on: string;
+}
+
+export interface UpdateInvoiceScheduleRequest {
+  frequency?: InvoiceScheduleFrequency;
+  interval_days?: number | null;
+  date_range_rule?: InvoiceDateRangeRule;
+  tax_rate?: number;
+  due_in_days?: number | null;
+  notes_template?: string | null;
+  include_time_entry_notes?: boolean;
+  is_active?: boolean;
+  next_run_on?: string;
+}